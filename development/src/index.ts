@@ -11,6 +11,11 @@ import {
 	TerraDrawRenderMode,
 	TerraDrawSensorMode,
 	TerraDrawSectorMode,
+	TerraDrawSplitMode,
+	TerraDrawCurveMode,
+	TerraDrawArcMode,
+	TerraDrawEllipseMode,
+	TerraDrawRegularPolygonMode,
 	TerraDrawMapboxGLAdapter,
 	TerraDrawLeafletAdapter,
 	TerraDrawGoogleMapsAdapter,
@@ -74,6 +79,11 @@ const addModeChangeHandler = (
 		"angled-rectangle",
 		"sector",
 		"sensor",
+		"split",
+		"curve",
+		"arc",
+		"ellipse",
+		"regular-polygon",
 	].forEach((mode) => {
 		(document.getElementById(mode) as HTMLButtonElement).addEventListener(
 			"click",
@@ -92,6 +102,13 @@ const addModeChangeHandler = (
 		);
 	});
 
+	(document.getElementById("merge") as HTMLButtonElement).addEventListener(
+		"click",
+		() => {
+			draw.mergeSelectedFeatures();
+		},
+	);
+
 	(document.getElementById("clear") as HTMLButtonElement).addEventListener(
 		"click",
 		() => {
@@ -165,6 +182,36 @@ const getModes = () => {
 						draggable: true,
 					},
 				},
+				arc: {
+					feature: {
+						draggable: true,
+					},
+				},
+				ellipse: {
+					feature: {
+						draggable: true,
+					},
+				},
+				"regular-polygon": {
+					feature: {
+						draggable: true,
+						rotateable: true,
+						coordinates: {
+							midpoints: false,
+							draggable: true,
+							resizable: "center",
+						},
+					},
+				},
+				curve: {
+					feature: {
+						draggable: true,
+						coordinates: {
+							draggable: true,
+							deletable: true,
+						},
+					},
+				},
 			},
 		}),
 		new TerraDrawPointMode(),
@@ -211,6 +258,11 @@ const getModes = () => {
 		new TerraDrawAngledRectangleMode(),
 		new TerraDrawSectorMode({}),
 		new TerraDrawSensorMode(),
+		new TerraDrawSplitMode(),
+		new TerraDrawCurveMode(),
+		new TerraDrawArcMode(),
+		new TerraDrawEllipseMode(),
+		new TerraDrawRegularPolygonMode(),
 	];
 };
 
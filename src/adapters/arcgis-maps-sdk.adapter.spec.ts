@@ -6,6 +6,7 @@ import { TerraDrawAdapterStyling } from "../common";
 import Color from "@arcgis/core/Color";
 import MapViewScreenPoint = __esri.MapViewScreenPoint;
 import { MockCallbacks } from "../test/mock-callbacks";
+import { GeoJSONStoreFeatures } from "../store/store";
 
 jest.mock("@arcgis/core/views/MapView", () => jest.fn());
 jest.mock("@arcgis/core/geometry/Point");
@@ -397,6 +398,71 @@ describe("TerraDrawArcGISMapsSDKAdapter", () => {
 			expect(graphicsMock.add).not.toHaveBeenCalled();
 		});
 
+		describe("labels", () => {
+			const labelled = {
+				id: "1",
+				type: "Feature",
+				geometry: {
+					type: "LineString",
+					coordinates: [
+						[0, 0],
+						[2, 4],
+					],
+				},
+				properties: { mode: "test" },
+			} as GeoJSONStoreFeatures;
+
+			const styling = {
+				test: () => ({ labelText: "Label", labelOffset: [2, 4] }) as any,
+			};
+
+			it("adds a text graphic at the label position of the feature", () => {
+				lib.TextSymbol = jest.fn();
+
+				adapter.render(
+					{ unchanged: [], created: [labelled], deletedIds: [], updated: [] },
+					styling,
+				);
+
+				expect(graphicsMock.add).toHaveBeenCalledTimes(2);
+				expect(lib.Point).toHaveBeenCalledWith({ latitude: 2, longitude: 1 });
+				expect(lib.TextSymbol).toHaveBeenCalledWith(
+					expect.objectContaining({
+						text: "Label",
+						font: { size: "12px" },
+						xoffset: "2px",
+						yoffset: "-4px",
+					}),
+				);
+			});
+
+			it("removes the text graphic when the feature is removed", () => {
+				lib.TextSymbol = jest.fn();
+
+				adapter.render(
+					{ unchanged: [], created: [labelled], deletedIds: [], updated: [] },
+					styling,
+				);
+
+				adapter.render(
+					{ unchanged: [], created: [], deletedIds: ["1"], updated: [] },
+					styling,
+				);
+
+				// Once for the feature and once for its label
+				expect(removeMock).toHaveBeenCalledTimes(2);
+			});
+
+			it("throws if TextSymbol is not provided", () => {
+				expect(() =>
+					adapter.render(
+						{ unchanged: [], created: [labelled], deletedIds: [], updated: [] },
+						styling,
+					),
+				).toThrow("TextSymbol must be provided to render labels");
+			});
+		});
+
 		describe("point", () => {
 			it("creates a point at the specified location with the point's id", () => {
 				const testCoordinates = [1, 2];
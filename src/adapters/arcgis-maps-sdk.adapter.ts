@@ -7,26 +7,35 @@ import {
 import { BaseAdapterConfig, TerraDrawBaseAdapter } from "./common/base.adapter";
 import MapView from "@arcgis/core/views/MapView";
 import Point from "@arcgis/core/geometry/Point";
+import Multipoint from "@arcgis/core/geometry/Multipoint";
 import Polyline from "@arcgis/core/geometry/Polyline";
 import Polygon from "@arcgis/core/geometry/Polygon";
 import GraphicsLayer from "@arcgis/core/layers/GraphicsLayer";
 import Graphic from "@arcgis/core/Graphic";
 import SimpleMarkerSymbol from "@arcgis/core/symbols/SimpleMarkerSymbol";
 import { GeoJSONStoreFeatures } from "../store/store";
+import { getCoordinateArrays } from "../geometry/geometry-parts";
 import { Symbol as ArcGISSymbol } from "@arcgis/core/symbols";
 import SimpleLineSymbol from "@arcgis/core/symbols/SimpleLineSymbol";
 import SimpleFillSymbol from "@arcgis/core/symbols/SimpleFillSymbol";
+import TextSymbol from "@arcgis/core/symbols/TextSymbol";
 import Color from "@arcgis/core/Color";
 import Geometry from "@arcgis/core/geometry/Geometry";
+import { getLabelStyling } from "../util/styling";
+import { labelPosition } from "../geometry/label-position";
 
 type InjectableArcGISMapsSDK = {
 	GraphicsLayer: typeof GraphicsLayer;
 	Point: typeof Point;
+	// Only required if MultiPoint features are going to be rendered
+	Multipoint?: typeof Multipoint;
 	Polyline: typeof Polyline;
 	Polygon: typeof Polygon;
 	SimpleLineSymbol: typeof SimpleLineSymbol;
 	SimpleMarkerSymbol: typeof SimpleMarkerSymbol;
 	SimpleFillSymbol: typeof SimpleFillSymbol;
+	// Only required if features with labels are going to be rendered
+	TextSymbol?: typeof TextSymbol;
 	Graphic: typeof Graphic;
 	Color: typeof Color;
 };
@@ -38,6 +47,7 @@ export class TerraDrawArcGISMapsSDKAdapter extends TerraDrawBaseAdapter {
 	private readonly _featureIdAttributeName = "__tdId";
 	private readonly _featureLayerName = "__terraDrawFeatures";
 	private readonly _featureLayer: GraphicsLayer;
+	private _labelGraphics: Map<string | number, Graphic> = new Map();
 
 	private _dragEnabled = true;
 	private _zoomEnabled = true;
@@ -194,6 +204,7 @@ export class TerraDrawArcGISMapsSDKAdapter extends TerraDrawBaseAdapter {
 	 * */
 	public clear() {
 		this._featureLayer.graphics.removeAll();
+		this._labelGraphics = new Map();
 	}
 
 	private removeFeatureById(id: string | number | undefined) {
@@ -201,24 +212,41 @@ export class TerraDrawArcGISMapsSDKAdapter extends TerraDrawBaseAdapter {
 			(g) => g.attributes[this._featureIdAttributeName] === id,
 		);
 		this._featureLayer.remove(feature);
+
+		if (id !== undefined && this._labelGraphics.has(id)) {
+			this._featureLayer.remove(this._labelGraphics.get(id) as Graphic);
+			this._labelGraphics.delete(id);
+		}
 	}
 
 	private addFeature(
 		feature: GeoJSONStoreFeatures,
 		styling: TerraDrawStylingFunction,
 	) {
-		const { coordinates, type } = feature.geometry;
+		const { type } = feature.geometry;
 		const style = styling[feature.properties.mode as string](feature);
 
 		let symbol: ArcGISSymbol | undefined = undefined;
 		let geometry: Geometry | undefined = undefined;
 
-		switch (type) {
+		switch (feature.geometry.type) {
 			case "Point":
-				geometry = new this._lib.Point({
-					latitude: coordinates[1],
-					longitude: coordinates[0],
-				});
+			case "MultiPoint":
+				if (feature.geometry.type === "Point") {
+					geometry = new this._lib.Point({
+						latitude: feature.geometry.coordinates[1],
+						longitude: feature.geometry.coordinates[0],
+					});
+				} else {
+					if (!this._lib.Multipoint) {
+						throw new Error(
+							"Multipoint must be provided to render MultiPoint features",
+						);
+					}
+					geometry = new this._lib.Multipoint({
+						points: feature.geometry.coordinates,
+					});
+				}
 				symbol = new this._lib.SimpleMarkerSymbol({
 					color: this.getColorFromHex(style.pointColor),
 					size: style.pointWidth * 2 + "px",
@@ -229,14 +257,25 @@ export class TerraDrawArcGISMapsSDKAdapter extends TerraDrawBaseAdapter {
 				});
 				break;
 			case "LineString":
-				geometry = new this._lib.Polyline({ paths: [coordinates] });
+			case "MultiLineString":
+				geometry = new this._lib.Polyline({
+					paths:
+						feature.geometry.type === "LineString"
+							? [feature.geometry.coordinates]
+							: feature.geometry.coordinates,
+				});
 				symbol = new this._lib.SimpleLineSymbol({
 					color: this.getColorFromHex(style.lineStringColor),
 					width: style.lineStringWidth + "px",
 				});
 				break;
 			case "Polygon":
-				geometry = new this._lib.Polygon({ rings: coordinates });
+			case "MultiPolygon":
+				// ArcGIS polygons can contain multiple outer rings
+				// so we can pass the rings of every polygon directly
+				geometry = new this._lib.Polygon({
+					rings: getCoordinateArrays(feature.geometry),
+				});
 				symbol = new this._lib.SimpleFillSymbol({
 					color: this.getColorFromHex(
 						style.polygonFillColor,
@@ -257,11 +296,39 @@ export class TerraDrawArcGISMapsSDKAdapter extends TerraDrawBaseAdapter {
 		});
 
 		// ensure we add points at the topmost position by adding other geometries at index 0
-		if (type === "Point") {
+		if (type === "Point" || type === "MultiPoint") {
 			this._featureLayer.graphics.add(graphic);
 		} else {
 			this._featureLayer.graphics.add(graphic, 0);
 		}
+
+		const label = getLabelStyling(style);
+		if (label && feature.id !== undefined) {
+			if (!this._lib.TextSymbol) {
+				throw new Error("TextSymbol must be provided to render labels");
+			}
+
+			const [longitude, latitude] = labelPosition(feature.geometry);
+			const [offsetX, offsetY] = label.labelOffset;
+
+			const labelGraphic = new this._lib.Graphic({
+				geometry: new this._lib.Point({ latitude, longitude }),
+				symbol: new this._lib.TextSymbol({
+					text: label.labelText,
+					color: this.getColorFromHex(label.labelColor),
+					haloColor: this.getColorFromHex(label.labelHaloColor),
+					haloSize: "1px",
+					font: { size: label.labelSize + "px" },
+					xoffset: offsetX + "px",
+					// ArcGIS offsets are positive upwards rather than downwards
+					yoffset: -offsetY + "px",
+				}),
+			});
+
+			// Labels are always added on top of the other graphics
+			this._featureLayer.graphics.add(labelGraphic);
+			this._labelGraphics.set(feature.id, labelGraphic);
+		}
 	}
 
 	private getColorFromHex(hexColor: string, opacity?: number): Color {
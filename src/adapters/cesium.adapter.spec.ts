@@ -0,0 +1,634 @@
+/**
+ * @jest-environment jsdom
+ */
+import { Viewer } from "cesium";
+import { MockCallbacks } from "../test/mock-callbacks";
+import { MockPointerEvent } from "../test/mock-pointer-event";
+import { GeoJSONStoreFeatures } from "../store/store";
+import { TerraDrawAdapterStyling } from "../common";
+import { getDefaultStyling } from "../util/styling";
+import { TerraDrawCesiumAdapter } from "./cesium.adapter";
+
+const createMockEntityCollection = () => {
+	const entities: Record<string, any>[] = [];
+
+	return {
+		values: entities,
+		add: jest.fn((options) => {
+			entities.push(options);
+			return options;
+		}),
+		remove: jest.fn((entity) => {
+			entities.splice(entities.indexOf(entity), 1);
+		}),
+		removeAll: jest.fn(() => {
+			entities.length = 0;
+		}),
+		contains: jest.fn((entity) => entities.includes(entity)),
+	};
+};
+
+// Cartesians keep the coordinates they were created from so that
+// projecting and unprojecting can be checked without a real scene
+const createMockLib = () => {
+	const dataSource = { entities: createMockEntityCollection() };
+
+	return {
+		dataSource,
+		lib: {
+			BoundingSphere: jest.fn((center, radius) => ({ center, radius })),
+			Cartesian2: jest.fn((x, y) => ({ x, y })),
+			Cartesian3: {
+				ZERO: { lng: 0, lat: 0 },
+				fromDegrees: jest.fn((lng, lat, height) =>
+					height === undefined ? { lng, lat } : { lng, lat, height },
+				),
+				fromDegreesArray: jest.fn((coordinates: number[]) =>
+					coordinates
+						.filter((_, i) => i % 2 === 0)
+						.map((lng, i) => ({ lng, lat: coordinates[i * 2 + 1] })),
+				),
+			},
+			Cartographic: {
+				fromDegrees: jest.fn((longitude, latitude) => ({
+					longitude,
+					latitude,
+				})),
+				fromCartesian: jest.fn(({ lng, lat }) => ({
+					longitude: (lng * Math.PI) / 180,
+					latitude: (lat * Math.PI) / 180,
+				})),
+			},
+			Color: {
+				fromCssColorString: jest.fn((color) => ({
+					withAlpha: (alpha: number) => ({ color, alpha }),
+				})),
+			},
+			CustomDataSource: jest.fn(() => dataSource),
+			HeightReference: { NONE: 0, CLAMP_TO_GROUND: 1 },
+			LabelStyle: { FILL_AND_OUTLINE: 2 },
+			Math: { toDegrees: (radians: number) => (radians * 180) / Math.PI },
+			// Positions west of -90 are on the far side of the globe
+			Occluder: jest.fn(() => ({
+				isPointVisible: ({ lng }: { lng: number }) => lng > -90,
+			})),
+			PolygonHierarchy: jest.fn((positions, holes) => ({ positions, holes })),
+			SceneTransforms: {
+				worldToWindowCoordinates: jest.fn((_, { lng, lat }) =>
+					lng > 90 ? undefined : { x: lng * 10, y: lat * 10 },
+				),
+			},
+			SceneMode: { SCENE2D: 2, SCENE3D: 3 },
+			ScreenSpaceEventType: { LEFT_DOUBLE_CLICK: 1 },
+		} as unknown as ConstructorParameters<
+			typeof TerraDrawCesiumAdapter
+		>[0]["lib"],
+	};
+};
+
+const createMockViewer = ({
+	globePick = jest.fn(({ x, y }) => ({ lng: x / 10, lat: y / 10 })),
+	globeHeight = jest.fn(() => undefined),
+	sceneMode = 3,
+}: {
+	globePick?: jest.Mock;
+	globeHeight?: jest.Mock;
+	sceneMode?: number;
+} = {}) => {
+	const doubleClickAction = jest.fn();
+	const actions = new Map<number, jest.Mock | undefined>([
+		[1, doubleClickAction],
+	]);
+	const selectedEntityListeners: ((entity: unknown) => void)[] = [];
+
+	const viewer = {
+		canvas: {
+			addEventListener: jest.fn(),
+			removeEventListener: jest.fn(),
+			getBoundingClientRect: jest.fn(() => ({ top: 0, left: 0 })),
+			style: { removeProperty: jest.fn(), cursor: "initial" },
+		},
+		dataSources: { add: jest.fn() },
+		camera: {
+			positionWC: { x: 0, y: 0, z: 0 },
+			getPickRay: jest.fn((position) => position),
+			pickEllipsoid: jest.fn(() => undefined),
+		},
+		scene: {
+			mode: sceneMode,
+			globe: { pick: globePick, getHeight: globeHeight },
+			ellipsoid: { minimumRadius: 6356752.3142451793 },
+			screenSpaceCameraController: {
+				enableRotate: true,
+				enableTranslate: true,
+			},
+			requestRender: jest.fn(),
+		},
+		screenSpaceEventHandler: {
+			getInputAction: jest.fn((type) => actions.get(type)),
+			setInputAction: jest.fn((action, type) => actions.set(type, action)),
+			removeInputAction: jest.fn((type) => actions.delete(type)),
+		},
+		selectedEntity: undefined as unknown,
+		selectedEntityChanged: {
+			addEventListener: jest.fn((listener) => {
+				selectedEntityListeners.push(listener);
+				return jest.fn(() => selectedEntityListeners.pop());
+			}),
+			raiseEvent: (entity: unknown) => {
+				viewer.selectedEntity = entity;
+				selectedEntityListeners.forEach((listener) => listener(entity));
+			},
+		},
+	};
+
+	return { viewer, doubleClickAction };
+};
+
+const createAdapter = (
+	options: {
+		clampToGround?: boolean;
+		globePick?: jest.Mock;
+		globeHeight?: jest.Mock;
+		sceneMode?: number;
+	} = {},
+) => {
+	const { viewer, doubleClickAction } = createMockViewer(options);
+	const { lib, dataSource } = createMockLib();
+	const adapter = new TerraDrawCesiumAdapter({
+		map: viewer as unknown as Viewer,
+		lib,
+		clampToGround: options.clampToGround,
+	});
+
+	return { adapter, viewer, lib, dataSource, doubleClickAction };
+};
+
+const feature = (
+	geometry: GeoJSONStoreFeatures["geometry"],
+	id = "1",
+): GeoJSONStoreFeatures => ({
+	id,
+	type: "Feature",
+	geometry,
+	properties: { mode: "test" },
+});
+
+const styling = (styles: Partial<TerraDrawAdapterStyling> = {}) => ({
+	test: () => ({ ...getDefaultStyling(), ...styles }),
+});
+
+const polygon = feature({
+	type: "Polygon",
+	coordinates: [
+		[
+			[0, 0],
+			[0, 10],
+			[10, 10],
+			[10, 0],
+			[0, 0],
+		],
+		[
+			[2, 2],
+			[2, 4],
+			[4, 4],
+			[2, 2],
+		],
+	],
+});
+
+describe("TerraDrawCesiumAdapter", () => {
+	describe("constructor", () => {
+		it("instantiates the adapter correctly", () => {
+			const { adapter, viewer, dataSource } = createAdapter();
+
+			expect(adapter).toBeDefined();
+			expect(adapter.getMapEventElement).toBeDefined();
+			expect(adapter.render).toBeDefined();
+			expect(adapter.register).toBeDefined();
+			expect(adapter.unregister).toBeDefined();
+			expect(adapter.project).toBeDefined();
+			expect(adapter.unproject).toBeDefined();
+			expect(adapter.setCursor).toBeDefined();
+			expect(viewer.dataSources.add).toHaveBeenCalledWith(dataSource);
+		});
+	});
+
+	describe("getLngLatFromEvent", () => {
+		it("returns the coordinates picked on the globe", () => {
+			const { adapter } = createAdapter();
+
+			expect(
+				adapter.getLngLatFromEvent({
+					...MockPointerEvent(),
+					clientX: 100,
+					clientY: 200,
+				}),
+			).toStrictEqual({ lng: 10, lat: 20 });
+		});
+
+		it("returns null if the pointer is not over the globe", () => {
+			const { adapter } = createAdapter({
+				globePick: jest.fn(() => undefined),
+			});
+
+			expect(adapter.getLngLatFromEvent(MockPointerEvent())).toBeNull();
+		});
+	});
+
+	describe("project", () => {
+		it("returns the window coordinates of the position", () => {
+			const { adapter } = createAdapter();
+
+			expect(adapter.project(10, 20)).toStrictEqual({ x: 100, y: 200 });
+		});
+
+		it("returns NaN if the position can not be shown by the view", () => {
+			const { adapter } = createAdapter();
+
+			expect(adapter.project(100, 20)).toStrictEqual({ x: NaN, y: NaN });
+		});
+
+		it("projects the position at the height of the terrain", () => {
+			const globeHeight = jest.fn(() => 250);
+			const { adapter, lib } = createAdapter({ globeHeight });
+
+			adapter.project(10, 20);
+
+			expect(globeHeight).toHaveBeenCalledWith({ longitude: 10, latitude: 20 });
+			expect(lib.SceneTransforms.worldToWindowCoordinates).toHaveBeenCalledWith(
+				expect.anything(),
+				{ lng: 10, lat: 20, height: 250 },
+			);
+		});
+
+		it("projects the position on the ellipsoid if the terrain has not loaded", () => {
+			const { adapter, lib } = createAdapter();
+
+			adapter.project(10, 20);
+
+			expect(lib.SceneTransforms.worldToWindowCoordinates).toHaveBeenCalledWith(
+				expect.anything(),
+				{ lng: 10, lat: 20, height: 0 },
+			);
+		});
+
+		it("returns NaN if the position is on the far side of the globe", () => {
+			const { adapter, lib } = createAdapter();
+
+			expect(adapter.project(-100, 20)).toStrictEqual({ x: NaN, y: NaN });
+			expect(lib.Occluder).toHaveBeenCalledWith(
+				{ center: lib.Cartesian3.ZERO, radius: 6356752.3142451793 },
+				{ x: 0, y: 0, z: 0 },
+			);
+			expect(
+				lib.SceneTransforms.worldToWindowCoordinates,
+			).not.toHaveBeenCalled();
+		});
+
+		it("does not check if the position is hidden by the globe in 2D", () => {
+			const { adapter, lib } = createAdapter({ sceneMode: 2 });
+
+			expect(adapter.project(-50, 20)).toStrictEqual({ x: -500, y: 200 });
+			expect(lib.Occluder).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("unproject", () => {
+		it("picks the globe so that terrain is taken into account", () => {
+			const { adapter, viewer } = createAdapter();
+
+			const lngLat = adapter.unproject(100, 200);
+			expect(lngLat.lng).toBeCloseTo(10);
+			expect(lngLat.lat).toBeCloseTo(20);
+			expect(viewer.camera.pickEllipsoid).not.toHaveBeenCalled();
+		});
+
+		it("falls back to the ellipsoid if the globe can not be picked", () => {
+			const { adapter, viewer } = createAdapter({
+				globePick: jest.fn(() => undefined),
+			});
+			viewer.camera.pickEllipsoid.mockImplementationOnce(
+				() => ({ lng: 1, lat: 2 }) as never,
+			);
+
+			const lngLat = adapter.unproject(100, 200);
+			expect(lngLat.lng).toBeCloseTo(1);
+			expect(lngLat.lat).toBeCloseTo(2);
+		});
+	});
+
+	describe("setDraggability", () => {
+		it("enables and disables rotating and translating the camera", () => {
+			const { adapter, viewer } = createAdapter();
+			const controller = viewer.scene.screenSpaceCameraController;
+
+			adapter.setDraggability(false);
+			expect(controller.enableRotate).toBe(false);
+			expect(controller.enableTranslate).toBe(false);
+
+			adapter.setDraggability(true);
+			expect(controller.enableRotate).toBe(true);
+			expect(controller.enableTranslate).toBe(true);
+		});
+	});
+
+	describe("setDoubleClickToZoom", () => {
+		it("removes and restores the double click action of the viewer", () => {
+			const { adapter, viewer, doubleClickAction } = createAdapter();
+			const handler = viewer.screenSpaceEventHandler;
+
+			adapter.setDoubleClickToZoom(false);
+			expect(handler.removeInputAction).toHaveBeenCalledWith(1);
+			expect(handler.getInputAction(1)).toBeUndefined();
+
+			adapter.setDoubleClickToZoom(true);
+			expect(handler.getInputAction(1)).toBe(doubleClickAction);
+		});
+
+		it("does nothing when enabled without being disabled", () => {
+			const { adapter, viewer } = createAdapter();
+
+			adapter.setDoubleClickToZoom(true);
+			expect(
+				viewer.screenSpaceEventHandler.setInputAction,
+			).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("setCursor", () => {
+		it("sets and removes the cursor of the canvas", () => {
+			const { adapter, viewer } = createAdapter();
+
+			adapter.setCursor("pointer");
+			expect(viewer.canvas.style.cursor).toBe("pointer");
+
+			adapter.setCursor("unset");
+			expect(viewer.canvas.style.removeProperty).toHaveBeenCalledWith("cursor");
+		});
+	});
+
+	describe("render", () => {
+		it("renders points clamped to the ground", () => {
+			const { adapter, viewer, dataSource } = createAdapter();
+
+			adapter.render(
+				{
+					created: [feature({ type: "Point", coordinates: [1, 2] })],
+					updated: [],
+					unchanged: [],
+					deletedIds: [],
+				},
+				styling({ pointColor: "#ff0000", pointWidth: 3 }),
+			);
+
+			expect(dataSource.entities.values).toStrictEqual([
+				{
+					position: { lng: 1, lat: 2 },
+					point: expect.objectContaining({
+						color: { color: "#ff0000", alpha: 1 },
+						pixelSize: 6,
+						heightReference: 1,
+					}),
+				},
+			]);
+			expect(viewer.scene.requestRender).toHaveBeenCalledTimes(1);
+		});
+
+		it("renders line strings and each point of a MultiPoint", () => {
+			const { adapter, dataSource } = createAdapter();
+
+			adapter.render(
+				{
+					created: [
+						feature(
+							{
+								type: "LineString",
+								coordinates: [
+									[0, 0],
+									[1, 1],
+								],
+							},
+							"1",
+						),
+						feature(
+							{
+								type: "MultiPoint",
+								coordinates: [
+									[0, 0],
+									[1, 1],
+								],
+							},
+							"2",
+						),
+					],
+					updated: [],
+					unchanged: [],
+					deletedIds: [],
+				},
+				styling({ lineStringWidth: 3, zIndex: 10 }),
+			);
+
+			const [line, ...points] = dataSource.entities.values;
+			expect(line.polyline).toMatchObject({
+				positions: [
+					{ lng: 0, lat: 0 },
+					{ lng: 1, lat: 1 },
+				],
+				width: 3,
+				clampToGround: true,
+				zIndex: 10,
+			});
+			expect(points).toHaveLength(2);
+		});
+
+		it("renders polygons with their holes and an outline for each ring", () => {
+			const { adapter, dataSource } = createAdapter();
+
+			adapter.render(
+				{ created: [polygon], updated: [], unchanged: [], deletedIds: [] },
+				styling({ polygonFillColor: "#00ff00", polygonFillOpacity: 0.5 }),
+			);
+
+			const [fill, ...outlines] = dataSource.entities.values;
+			expect(fill.polygon.hierarchy.positions).toHaveLength(5);
+			expect(fill.polygon.hierarchy.holes).toHaveLength(1);
+			expect(fill.polygon.material).toStrictEqual({
+				color: "#00ff00",
+				alpha: 0.5,
+			});
+			expect(fill.polygon.height).toBeUndefined();
+			expect(outlines).toHaveLength(2);
+		});
+
+		it("renders features at the height of the ellipsoid when not clamped to the ground", () => {
+			const { adapter, dataSource } = createAdapter({ clampToGround: false });
+
+			adapter.render(
+				{
+					created: [
+						polygon,
+						feature({ type: "Point", coordinates: [0, 0] }, "2"),
+					],
+					updated: [],
+					unchanged: [],
+					deletedIds: [],
+				},
+				styling(),
+			);
+
+			const [fill, outline, , point] = dataSource.entities.values;
+			expect(fill.polygon.height).toBe(0);
+			expect(outline.polyline.clampToGround).toBe(false);
+			expect(point.point.heightReference).toBe(0);
+		});
+
+		it("replaces updated features and removes deleted features", () => {
+			const { adapter, dataSource } = createAdapter();
+			const point = feature({ type: "Point", coordinates: [1, 2] });
+
+			adapter.render(
+				{ created: [point], updated: [], unchanged: [], deletedIds: [] },
+				styling(),
+			);
+
+			adapter.render(
+				{
+					created: [],
+					updated: [
+						{ ...point, geometry: { type: "Point", coordinates: [3, 4] } },
+					],
+					unchanged: [],
+					deletedIds: [],
+				},
+				styling(),
+			);
+			expect(dataSource.entities.values).toHaveLength(1);
+			expect(dataSource.entities.values[0].position).toStrictEqual({
+				lng: 3,
+				lat: 4,
+			});
+
+			adapter.render(
+				{ created: [], updated: [], unchanged: [], deletedIds: ["1"] },
+				styling(),
+			);
+			expect(dataSource.entities.values).toHaveLength(0);
+		});
+
+		it("renders labels", () => {
+			const { adapter, dataSource } = createAdapter();
+
+			adapter.render(
+				{
+					created: [feature({ type: "Point", coordinates: [1, 2] })],
+					updated: [],
+					unchanged: [],
+					deletedIds: [],
+				},
+				styling({
+					labelText: "Label",
+					labelSize: 14,
+					labelOffset: [0, 10],
+				}),
+			);
+
+			const [, label] = dataSource.entities.values;
+			expect(label.position).toStrictEqual({ lng: 1, lat: 2 });
+			expect(label.label).toMatchObject({
+				text: "Label",
+				font: "14px sans-serif",
+				style: 2,
+				pixelOffset: { x: 0, y: 10 },
+			});
+
+			adapter.render(
+				{ created: [], updated: [], unchanged: [], deletedIds: ["1"] },
+				styling(),
+			);
+			expect(dataSource.entities.values).toHaveLength(0);
+		});
+
+		it("throws an error rendering labels without LabelStyle", () => {
+			const { viewer, lib } = { ...createMockViewer(), ...createMockLib() };
+			const adapter = new TerraDrawCesiumAdapter({
+				map: viewer as unknown as Viewer,
+				lib: { ...lib, LabelStyle: undefined },
+			});
+
+			expect(() =>
+				adapter.render(
+					{
+						created: [feature({ type: "Point", coordinates: [1, 2] })],
+						updated: [],
+						unchanged: [],
+						deletedIds: [],
+					},
+					styling({ labelText: "Label" }),
+				),
+			).toThrow("LabelStyle must be provided to render labels");
+		});
+	});
+
+	describe("clear", () => {
+		it("removes all rendered entities", () => {
+			const { adapter, dataSource } = createAdapter();
+			const callbacks = MockCallbacks();
+			adapter.register(callbacks);
+
+			adapter.render(
+				{
+					created: [feature({ type: "Point", coordinates: [1, 2] })],
+					updated: [],
+					unchanged: [],
+					deletedIds: [],
+				},
+				styling(),
+			);
+			adapter.clear();
+
+			expect(callbacks.onClear).toHaveBeenCalledTimes(1);
+			expect(dataSource.entities.values).toHaveLength(0);
+		});
+	});
+
+	describe("register and unregister", () => {
+		it("can register then unregister successfully", () => {
+			const { adapter, viewer } = createAdapter();
+			const callbacks = MockCallbacks();
+
+			adapter.register(callbacks);
+			expect(callbacks.onReady).toHaveBeenCalledTimes(1);
+			expect(viewer.canvas.addEventListener).toHaveBeenCalled();
+
+			adapter.unregister();
+			expect(viewer.canvas.removeEventListener).toHaveBeenCalled();
+		});
+
+		it("prevents rendered features from being selected by the viewer", () => {
+			const { adapter, viewer, dataSource } = createAdapter();
+			adapter.register(MockCallbacks());
+
+			adapter.render(
+				{
+					created: [feature({ type: "Point", coordinates: [1, 2] })],
+					updated: [],
+					unchanged: [],
+					deletedIds: [],
+				},
+				styling(),
+			);
+
+			viewer.selectedEntityChanged.raiseEvent(dataSource.entities.values[0]);
+			expect(viewer.selectedEntity).toBeUndefined();
+
+			const otherEntity = {};
+			viewer.selectedEntityChanged.raiseEvent(otherEntity);
+			expect(viewer.selectedEntity).toBe(otherEntity);
+
+			adapter.unregister();
+			viewer.selectedEntityChanged.raiseEvent(dataSource.entities.values[0]);
+			expect(viewer.selectedEntity).toBe(dataSource.entities.values[0]);
+		});
+	});
+});
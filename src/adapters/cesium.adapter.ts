@@ -0,0 +1,446 @@
+import {
+	HexColor,
+	SetCursor,
+	TerraDrawAdapterStyling,
+	TerraDrawCallbacks,
+	TerraDrawChanges,
+	TerraDrawStylingFunction,
+} from "../common";
+import { BaseAdapterConfig, TerraDrawBaseAdapter } from "./common/base.adapter";
+import {
+	Viewer,
+	Entity,
+	BoundingSphere,
+	Cartesian2,
+	Cartesian3,
+	Cartographic,
+	Color,
+	CustomDataSource,
+	HeightReference,
+	LabelStyle,
+	Math as CesiumMath,
+	Occluder,
+	PolygonHierarchy,
+	SceneMode,
+	SceneTransforms,
+	ScreenSpaceEventHandler,
+	ScreenSpaceEventType,
+} from "cesium";
+import { Position } from "geojson";
+import { FeatureId, GeoJSONStoreFeatures } from "../store/store";
+import { getGeometryParts } from "../geometry/geometry-parts";
+import { getLabelStyling } from "../util/styling";
+import { labelPosition } from "../geometry/label-position";
+
+// The names match the exports of Cesium, so the whole Cesium module can be passed
+type InjectableCesium = {
+	BoundingSphere: typeof BoundingSphere;
+	Cartesian2: typeof Cartesian2;
+	Cartesian3: typeof Cartesian3;
+	Cartographic: typeof Cartographic;
+	Color: typeof Color;
+	CustomDataSource: typeof CustomDataSource;
+	HeightReference: typeof HeightReference;
+	// Only required if features with labels are going to be rendered
+	LabelStyle?: typeof LabelStyle;
+	Math: typeof CesiumMath;
+	Occluder: typeof Occluder;
+	PolygonHierarchy: typeof PolygonHierarchy;
+	SceneMode: typeof SceneMode;
+	SceneTransforms: typeof SceneTransforms;
+	ScreenSpaceEventType: typeof ScreenSpaceEventType;
+};
+
+type InputAction = ReturnType<ScreenSpaceEventHandler["getInputAction"]>;
+
+export class TerraDrawCesiumAdapter extends TerraDrawBaseAdapter {
+	private readonly _lib: InjectableCesium;
+	private readonly _viewer: Viewer;
+	private readonly _clampToGround: boolean;
+	private readonly _dataSource: CustomDataSource;
+	private _entities: Map<FeatureId, Entity[]> = new Map();
+	private _doubleClickAction: InputAction | undefined;
+	private _removeSelectedEntityListener: (() => void) | undefined;
+
+	constructor(
+		config: {
+			map: Viewer;
+			lib: InjectableCesium;
+			clampToGround?: boolean;
+		} & BaseAdapterConfig,
+	) {
+		super(config);
+
+		this._viewer = config.map;
+		this._lib = config.lib;
+		this._clampToGround = config.clampToGround ?? true;
+		this._dataSource = new this._lib.CustomDataSource("terra-draw");
+		this._viewer.dataSources.add(this._dataSource);
+	}
+
+	public register(callbacks: TerraDrawCallbacks) {
+		super.register(callbacks);
+
+		// Selecting a rendered feature would show the info box and selection
+		// indicator of the viewer, which get in the way of drawing and editing
+		this._removeSelectedEntityListener =
+			this._viewer.selectedEntityChanged.addEventListener((entity?: Entity) => {
+				if (entity && this._dataSource.entities.contains(entity)) {
+					this._viewer.selectedEntity = undefined;
+				}
+			});
+
+		if (this._currentModeCallbacks?.onReady) {
+			this._currentModeCallbacks.onReady();
+		}
+	}
+
+	public unregister() {
+		super.unregister();
+
+		if (this._removeSelectedEntityListener) {
+			this._removeSelectedEntityListener();
+			this._removeSelectedEntityListener = undefined;
+		}
+	}
+
+	public getCoordinatePrecision(): number {
+		// TODO: It seems this shouldn't be necessary as extends BaseAdapter which as this method
+		return super.getCoordinatePrecision();
+	}
+
+	/**
+	 * Returns the longitude and latitude coordinates from a given PointerEvent on the map.
+	 * @param event The PointerEvent or MouseEvent  containing the screen coordinates of the pointer.
+	 * @returns An object with 'lng' and 'lat' properties representing the longitude and latitude, or null if the pointer is not over the globe.
+	 */
+	public getLngLatFromEvent(event: PointerEvent | MouseEvent) {
+		const { containerX: x, containerY: y } =
+			this.getMapElementXYPosition(event);
+
+		const { lng, lat } = this.unproject(x, y);
+		if (isNaN(lng) || isNaN(lat)) {
+			return null;
+		}
+
+		return { lng, lat };
+	}
+
+	/**
+	 * Retrieves the canvas of the Cesium viewer that handles interaction events
+	 * @returns The HTMLElement representing the map container.
+	 */
+	public getMapEventElement() {
+		return this._viewer.canvas;
+	}
+
+	/**
+	 * Enables or disables the draggable functionality of the map. Dragging rotates
+	 * the globe in 3D and translates the map in 2D and Columbus view.
+	 * @param enabled Set to true to enable map dragging, or false to disable it.
+	 */
+	public setDraggability(enabled: boolean) {
+		const controller = this._viewer.scene.screenSpaceCameraController;
+		controller.enableRotate = enabled;
+		controller.enableTranslate = enabled;
+	}
+
+	/**
+	 * Converts longitude and latitude coordinates to pixel coordinates in the map container.
+	 * The coordinates are projected at the height of the terrain, matching where they are
+	 * picked from the globe when unprojecting.
+	 * @param lng The longitude coordinate to project.
+	 * @param lat The latitude coordinate to project.
+	 * @returns An object with 'x' and 'y' properties representing the pixel coordinates within the map container, which are NaN if the coordinates can not be shown by the current view or are on the far side of the globe.
+	 */
+	public project(lng: number, lat: number) {
+		const { scene, camera } = this._viewer;
+
+		// The height is unknown where the terrain has not been loaded yet
+		const height =
+			scene.globe?.getHeight(this._lib.Cartographic.fromDegrees(lng, lat)) ?? 0;
+		const cartesian = this._lib.Cartesian3.fromDegrees(lng, lat, height);
+
+		// Positions on the far side of the globe still have window coordinates,
+		// but are hidden by the globe so can not be interacted with
+		if (
+			scene.mode === this._lib.SceneMode.SCENE3D &&
+			!new this._lib.Occluder(
+				new this._lib.BoundingSphere(
+					this._lib.Cartesian3.ZERO,
+					scene.ellipsoid.minimumRadius,
+				),
+				camera.positionWC,
+			).isPointVisible(cartesian)
+		) {
+			return { x: NaN, y: NaN };
+		}
+
+		const position = this._lib.SceneTransforms.worldToWindowCoordinates(
+			scene,
+			cartesian,
+		);
+
+		if (!position) {
+			return { x: NaN, y: NaN };
+		}
+
+		return { x: position.x, y: position.y };
+	}
+
+	/**
+	 * Converts pixel coordinates in the map container to longitude and latitude coordinates.
+	 * The globe is picked so that the coordinates take terrain into account, falling back
+	 * to the ellipsoid where the globe has not been loaded.
+	 * @param x The x-coordinate in the map container to unproject.
+	 * @param y The y-coordinate in the map container to unproject.
+	 * @returns An object with 'lng' and 'lat' properties representing the longitude and latitude coordinates, which are NaN if the pixel is not over the globe.
+	 */
+	public unproject(x: number, y: number) {
+		const { scene, camera } = this._viewer;
+		const windowPosition = new this._lib.Cartesian2(x, y);
+
+		const ray = camera.getPickRay(windowPosition);
+		const cartesian =
+			(ray && scene.globe?.pick(ray, scene)) ||
+			camera.pickEllipsoid(windowPosition, scene.ellipsoid);
+
+		if (!cartesian) {
+			return { lng: NaN, lat: NaN };
+		}
+
+		const { longitude, latitude } =
+			this._lib.Cartographic.fromCartesian(cartesian);
+
+		return {
+			lng: this._lib.Math.toDegrees(longitude),
+			lat: this._lib.Math.toDegrees(latitude),
+		};
+	}
+
+	/**
+	 * Sets the cursor style for the map container.
+	 * @param cursor The CSS cursor style to apply, or 'unset' to remove any previously applied cursor style.
+	 */
+	public setCursor(cursor: Parameters<SetCursor>[0]) {
+		if (cursor === "unset") {
+			this.getMapEventElement().style.removeProperty("cursor");
+		} else {
+			this.getMapEventElement().style.cursor = cursor;
+		}
+	}
+
+	/**
+	 * Enables or disables double clicking on the map. Cesium does not zoom on double click,
+	 * but the viewer flies to and tracks the entity that is double clicked.
+	 * @param enabled Set to true to enable double clicking, or false to disable it.
+	 */
+	public setDoubleClickToZoom(enabled: boolean) {
+		const handler = this._viewer.screenSpaceEventHandler;
+		const { LEFT_DOUBLE_CLICK } = this._lib.ScreenSpaceEventType;
+
+		if (enabled) {
+			if (this._doubleClickAction) {
+				handler.setInputAction(this._doubleClickAction, LEFT_DOUBLE_CLICK);
+				this._doubleClickAction = undefined;
+			}
+		} else {
+			const action = handler.getInputAction(LEFT_DOUBLE_CLICK);
+			if (action) {
+				this._doubleClickAction = action;
+				handler.removeInputAction(LEFT_DOUBLE_CLICK);
+			}
+		}
+	}
+
+	/**
+	 * Renders GeoJSON features on the map using the provided styling configuration.
+	 * @param changes An object containing arrays of created, updated, and unchanged features to render.
+	 * @param styling An object mapping draw modes to feature styling functions
+	 */
+	public render(changes: TerraDrawChanges, styling: TerraDrawStylingFunction) {
+		changes.created.forEach((createdFeature) => {
+			this.addFeature(createdFeature, styling);
+		});
+
+		changes.updated.forEach((updatedFeature) => {
+			this.removeFeatureById(updatedFeature.id);
+			this.addFeature(updatedFeature, styling);
+		});
+
+		changes.deletedIds.forEach((deletedId) => {
+			this.removeFeatureById(deletedId);
+		});
+
+		// Ensure the changes are shown when the viewer only renders on request
+		this._viewer.scene.requestRender();
+	}
+
+	/**
+	 * Clears the map and store of all rendered data layers
+	 * @returns void
+	 * */
+	public clear() {
+		if (this._currentModeCallbacks) {
+			// Clear up state first
+			this._currentModeCallbacks.onClear();
+
+			// Then clean up rendering
+			this._dataSource.entities.removeAll();
+			this._entities = new Map();
+			this._viewer.scene.requestRender();
+		}
+	}
+
+	private removeFeatureById(id: FeatureId | undefined) {
+		if (id === undefined) {
+			return;
+		}
+
+		this._entities.get(id)?.forEach((entity) => {
+			this._dataSource.entities.remove(entity);
+		});
+		this._entities.delete(id);
+	}
+
+	private addFeature(
+		feature: GeoJSONStoreFeatures,
+		styling: TerraDrawStylingFunction,
+	) {
+		if (feature.id === undefined) {
+			return;
+		}
+
+		const style = styling[feature.properties.mode as string](feature);
+		const entities: Entity[] = [];
+
+		getGeometryParts(feature.geometry).forEach((part) => {
+			if (part.type === "Point") {
+				entities.push(this.addPoint(part.coordinates, style));
+			} else if (part.type === "LineString") {
+				entities.push(
+					this.addLine(
+						part.coordinates,
+						style.lineStringColor,
+						style.lineStringWidth,
+						style.zIndex,
+					),
+				);
+			} else {
+				entities.push(this.addPolygon(part.coordinates, style));
+
+				// Polygon outlines can not be clamped to the ground or wider than
+				// a pixel on most platforms, so each ring is drawn as a line instead
+				part.coordinates.forEach((ring) => {
+					entities.push(
+						this.addLine(
+							ring,
+							style.polygonOutlineColor,
+							style.polygonOutlineWidth,
+							style.zIndex,
+						),
+					);
+				});
+			}
+		});
+
+		const label = getLabelStyling(style);
+		if (label) {
+			if (!this._lib.LabelStyle) {
+				throw new Error("LabelStyle must be provided to render labels");
+			}
+
+			const [lng, lat] = labelPosition(feature.geometry);
+			const [offsetX, offsetY] = label.labelOffset;
+
+			entities.push(
+				this._dataSource.entities.add({
+					position: this._lib.Cartesian3.fromDegrees(lng, lat),
+					label: {
+						text: label.labelText,
+						font: `${label.labelSize}px sans-serif`,
+						fillColor: this.getColorFromHex(label.labelColor),
+						outlineColor: this.getColorFromHex(label.labelHaloColor),
+						outlineWidth: 2,
+						style: this._lib.LabelStyle.FILL_AND_OUTLINE,
+						pixelOffset: new this._lib.Cartesian2(offsetX, offsetY),
+						heightReference: this.getHeightReference(),
+						disableDepthTestDistance: Number.POSITIVE_INFINITY,
+					},
+				}),
+			);
+		}
+
+		this._entities.set(feature.id, entities);
+	}
+
+	private addPoint(coordinates: Position, style: TerraDrawAdapterStyling) {
+		return this._dataSource.entities.add({
+			position: this._lib.Cartesian3.fromDegrees(
+				coordinates[0],
+				coordinates[1],
+			),
+			point: {
+				color: this.getColorFromHex(style.pointColor),
+				pixelSize: style.pointWidth * 2,
+				outlineColor: this.getColorFromHex(style.pointOutlineColor),
+				outlineWidth: style.pointOutlineWidth,
+				heightReference: this.getHeightReference(),
+				// Points are always drawn above the terrain, so they can be selected
+				disableDepthTestDistance: Number.POSITIVE_INFINITY,
+			},
+		});
+	}
+
+	private addLine(
+		coordinates: Position[],
+		color: HexColor,
+		width: number,
+		zIndex: number,
+	) {
+		return this._dataSource.entities.add({
+			polyline: {
+				positions: this._lib.Cartesian3.fromDegreesArray(coordinates.flat()),
+				material: this.getColorFromHex(color),
+				width,
+				clampToGround: this._clampToGround,
+				zIndex,
+			},
+		});
+	}
+
+	private addPolygon(
+		coordinates: Position[][],
+		style: TerraDrawAdapterStyling,
+	) {
+		const [outer, ...holes] = coordinates.map((ring) =>
+			this._lib.Cartesian3.fromDegreesArray(ring.flat()),
+		);
+
+		return this._dataSource.entities.add({
+			polygon: {
+				hierarchy: new this._lib.PolygonHierarchy(
+					outer,
+					holes.map((hole) => new this._lib.PolygonHierarchy(hole)),
+				),
+				material: this.getColorFromHex(
+					style.polygonFillColor,
+					style.polygonFillOpacity,
+				),
+				// Polygons without a height are drawn on the ground
+				height: this._clampToGround ? undefined : 0,
+				zIndex: style.zIndex,
+			},
+		});
+	}
+
+	private getHeightReference() {
+		return this._clampToGround
+			? this._lib.HeightReference.CLAMP_TO_GROUND
+			: this._lib.HeightReference.NONE;
+	}
+
+	private getColorFromHex(hexColor: HexColor, opacity = 1) {
+		return this._lib.Color.fromCssColorString(hexColor).withAlpha(opacity);
+	}
+}
@@ -0,0 +1,395 @@
+/**
+ * @jest-environment jsdom
+ */
+import { TerraDrawCallbacks } from "../../common";
+import { MockCallbacks } from "../../test/mock-callbacks";
+import { MockPointerEvent } from "../../test/mock-pointer-event";
+import { BaseAdapterConfig, TerraDrawBaseAdapter } from "./base.adapter";
+
+class TestAdapter extends TerraDrawBaseAdapter {
+	constructor(
+		private element: HTMLElement,
+		config: BaseAdapterConfig = {},
+	) {
+		super(config);
+	}
+
+	public setDraggability = jest.fn();
+
+	public getMapEventElement() {
+		return this.element;
+	}
+
+	public getLngLatFromEvent(event: PointerEvent | MouseEvent) {
+		return { lng: event.clientX / 10, lat: event.clientY / 10 };
+	}
+
+	public project(lng: number, lat: number) {
+		return { x: lng * 10, y: lat * 10 };
+	}
+
+	public unproject(x: number, y: number) {
+		return { lng: x / 10, lat: y / 10 };
+	}
+
+	public dispatch(
+		name: "pointerdown" | "pointermove" | "pointerup" | "contextmenu",
+		event: Partial<PointerEvent>,
+	) {
+		const listener = this._listeners.find((listener) => listener.name === name);
+		(listener?.callback as (event: PointerEvent) => void)({
+			...MockPointerEvent(),
+			pointerType: "touch",
+			target: this.element,
+			preventDefault: jest.fn(),
+			...event,
+		} as PointerEvent);
+	}
+
+	public setCursor() {}
+	public setDoubleClickToZoom() {}
+	public render() {}
+	public clear() {}
+}
+
+describe("TerraDrawBaseAdapter", () => {
+	let adapter: TestAdapter;
+	let callbacks: TerraDrawCallbacks;
+
+	const setup = (config?: BaseAdapterConfig) => {
+		const element = document.createElement("div");
+		adapter = new TestAdapter(element, config);
+		callbacks = MockCallbacks({ getState: jest.fn(() => "started") });
+		adapter.register(callbacks);
+	};
+
+	const first = { pointerId: 1, isPrimary: true };
+	const second = { pointerId: 2, isPrimary: false };
+
+	beforeEach(() => {
+		jest.useFakeTimers();
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	describe("taps", () => {
+		it("calls onClick for a single tap", () => {
+			setup();
+
+			adapter.dispatch("pointerdown", { ...first, clientX: 10, clientY: 10 });
+			adapter.dispatch("pointerup", { ...first, clientX: 10, clientY: 10 });
+
+			expect(callbacks.onClick).toHaveBeenCalledTimes(1);
+			expect(callbacks.onClick).toHaveBeenCalledWith(
+				expect.objectContaining({ lng: 1, lat: 1, button: "left" }),
+			);
+			expect(callbacks.onDoubleTap).not.toHaveBeenCalled();
+		});
+
+		it("calls onDoubleTap instead of onClick for a second tap", () => {
+			setup();
+
+			adapter.dispatch("pointerdown", { ...first, clientX: 10, clientY: 10 });
+			adapter.dispatch("pointerup", { ...first, clientX: 10, clientY: 10 });
+			jest.advanceTimersByTime(100);
+			adapter.dispatch("pointerdown", { ...first, clientX: 12, clientY: 10 });
+			adapter.dispatch("pointerup", { ...first, clientX: 12, clientY: 10 });
+
+			expect(callbacks.onClick).toHaveBeenCalledTimes(1);
+			expect(callbacks.onDoubleTap).toHaveBeenCalledTimes(1);
+			expect(callbacks.onDoubleTap).toHaveBeenCalledWith(
+				expect.objectContaining({ lng: 1.2, lat: 1 }),
+			);
+		});
+
+		it("does not call onDoubleTap for taps too far apart in time", () => {
+			setup({ doubleTapDuration: 200 });
+
+			adapter.dispatch("pointerdown", { ...first, clientX: 10, clientY: 10 });
+			adapter.dispatch("pointerup", { ...first, clientX: 10, clientY: 10 });
+			jest.advanceTimersByTime(300);
+			adapter.dispatch("pointerdown", { ...first, clientX: 10, clientY: 10 });
+			adapter.dispatch("pointerup", { ...first, clientX: 10, clientY: 10 });
+
+			expect(callbacks.onClick).toHaveBeenCalledTimes(2);
+			expect(callbacks.onDoubleTap).not.toHaveBeenCalled();
+		});
+
+		it("does not call onDoubleTap for taps too far apart on the map", () => {
+			setup();
+
+			adapter.dispatch("pointerdown", { ...first, clientX: 10, clientY: 10 });
+			adapter.dispatch("pointerup", { ...first, clientX: 10, clientY: 10 });
+			adapter.dispatch("pointerdown", { ...first, clientX: 100, clientY: 10 });
+			adapter.dispatch("pointerup", { ...first, clientX: 100, clientY: 10 });
+
+			expect(callbacks.onClick).toHaveBeenCalledTimes(2);
+			expect(callbacks.onDoubleTap).not.toHaveBeenCalled();
+		});
+
+		it("does not call onDoubleTap for mouse clicks", () => {
+			setup();
+
+			const mouse = { ...first, pointerType: "mouse", clientX: 10 };
+			adapter.dispatch("pointerdown", mouse);
+			adapter.dispatch("pointerup", mouse);
+			adapter.dispatch("pointerdown", mouse);
+			adapter.dispatch("pointerup", mouse);
+
+			expect(callbacks.onClick).toHaveBeenCalledTimes(2);
+			expect(callbacks.onDoubleTap).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("long press", () => {
+		it("calls onClick with the right button after a long press", () => {
+			setup();
+
+			adapter.dispatch("pointerdown", { ...first, clientX: 10, clientY: 10 });
+			jest.advanceTimersByTime(500);
+
+			expect(callbacks.onClick).toHaveBeenCalledTimes(1);
+			expect(callbacks.onClick).toHaveBeenCalledWith(
+				expect.objectContaining({ lng: 1, lat: 1, button: "right" }),
+			);
+
+			// Lifting the finger does not click again
+			adapter.dispatch("pointerup", { ...first, clientX: 10, clientY: 10 });
+			expect(callbacks.onClick).toHaveBeenCalledTimes(1);
+		});
+
+		it("respects the longPressDuration option", () => {
+			setup({ longPressDuration: 1000 });
+
+			adapter.dispatch("pointerdown", { ...first, clientX: 10, clientY: 10 });
+			jest.advanceTimersByTime(500);
+			expect(callbacks.onClick).not.toHaveBeenCalled();
+
+			jest.advanceTimersByTime(500);
+			expect(callbacks.onClick).toHaveBeenCalledTimes(1);
+		});
+
+		it("is not a long press if the finger is lifted first", () => {
+			setup();
+
+			adapter.dispatch("pointerdown", { ...first, clientX: 10, clientY: 10 });
+			adapter.dispatch("pointerup", { ...first, clientX: 10, clientY: 10 });
+			jest.advanceTimersByTime(500);
+
+			expect(callbacks.onClick).toHaveBeenCalledTimes(1);
+			expect(callbacks.onClick).toHaveBeenCalledWith(
+				expect.objectContaining({ button: "left" }),
+			);
+		});
+
+		it("is not a long press if the finger drags", () => {
+			setup();
+
+			adapter.dispatch("pointerdown", { ...first, clientX: 10, clientY: 10 });
+			adapter.dispatch("pointermove", { ...first, clientX: 50, clientY: 10 });
+			jest.advanceTimersByTime(500);
+
+			expect(callbacks.onDragStart).toHaveBeenCalledTimes(1);
+			expect(callbacks.onClick).not.toHaveBeenCalled();
+		});
+
+		it("is not a long press for the mouse", () => {
+			setup();
+
+			adapter.dispatch("pointerdown", { ...first, pointerType: "mouse" });
+			jest.advanceTimersByTime(500);
+
+			expect(callbacks.onClick).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("context menu", () => {
+		it("calls onContextMenu for a right click", () => {
+			setup();
+
+			adapter.dispatch("contextmenu", {
+				pointerType: "mouse",
+				button: 2,
+				clientX: 10,
+				clientY: 20,
+			});
+
+			expect(callbacks.onContextMenu).toHaveBeenCalledTimes(1);
+			expect(callbacks.onContextMenu).toHaveBeenCalledWith(
+				expect.objectContaining({ lng: 1, lat: 2, button: "right" }),
+			);
+		});
+
+		it("calls onContextMenu once for a long press", () => {
+			setup();
+
+			adapter.dispatch("pointerdown", { ...first, clientX: 10, clientY: 10 });
+			adapter.dispatch("contextmenu", { button: 0, clientX: 10, clientY: 10 });
+			jest.advanceTimersByTime(500);
+			adapter.dispatch("contextmenu", { button: 0, clientX: 10, clientY: 10 });
+
+			expect(callbacks.onContextMenu).toHaveBeenCalledTimes(1);
+			expect(callbacks.onContextMenu).toHaveBeenCalledWith(
+				expect.objectContaining({ lng: 1, lat: 1, button: "right" }),
+			);
+		});
+	});
+
+	describe("two finger gestures", () => {
+		const putDownTwoFingers = () => {
+			adapter.dispatch("pointerdown", { ...first, clientX: 100, clientY: 100 });
+			adapter.dispatch("pointerdown", {
+				...second,
+				clientX: 200,
+				clientY: 100,
+			});
+		};
+
+		it("calls onGestureStart and onGesture when pinching", () => {
+			setup();
+			putDownTwoFingers();
+
+			adapter.dispatch("pointermove", {
+				...second,
+				clientX: 300,
+				clientY: 100,
+			});
+
+			expect(callbacks.onGestureStart).toHaveBeenCalledTimes(1);
+			expect(callbacks.onGestureStart).toHaveBeenCalledWith(
+				expect.objectContaining({
+					containerX: 200,
+					containerY: 100,
+					lng: 20,
+					lat: 10,
+					scale: 2,
+					rotation: 0,
+				}),
+				expect.any(Function),
+			);
+
+			adapter.dispatch("pointermove", { ...first, clientX: 0, clientY: 100 });
+
+			expect(callbacks.onGesture).toHaveBeenCalledTimes(1);
+			expect(callbacks.onGesture).toHaveBeenCalledWith(
+				expect.objectContaining({ scale: 1.5, rotation: 0 }),
+				expect.any(Function),
+			);
+		});
+
+		it("calls onGesture with the rotation when twisting", () => {
+			setup();
+			putDownTwoFingers();
+
+			// Move the second finger a quarter turn clockwise around the first
+			adapter.dispatch("pointermove", {
+				...second,
+				clientX: 100,
+				clientY: 200,
+			});
+
+			expect(callbacks.onGestureStart).toHaveBeenCalledWith(
+				expect.objectContaining({ scale: 1, rotation: 90 }),
+				expect.any(Function),
+			);
+		});
+
+		it("calls onGestureEnd when a finger is lifted", () => {
+			setup();
+			putDownTwoFingers();
+
+			adapter.dispatch("pointermove", {
+				...second,
+				clientX: 300,
+				clientY: 100,
+			});
+			adapter.dispatch("pointerup", { ...second, clientX: 300, clientY: 100 });
+
+			expect(callbacks.onGestureEnd).toHaveBeenCalledTimes(1);
+
+			// The remaining finger does not click, drag or end the gesture again
+			adapter.dispatch("pointermove", { ...first, clientX: 150, clientY: 100 });
+			adapter.dispatch("pointerup", { ...first, clientX: 150, clientY: 100 });
+
+			expect(callbacks.onGestureEnd).toHaveBeenCalledTimes(1);
+			expect(callbacks.onDragStart).not.toHaveBeenCalled();
+			expect(callbacks.onClick).not.toHaveBeenCalled();
+			expect(adapter.setDraggability).toHaveBeenLastCalledWith(true);
+		});
+
+		it("leaves a two finger pan to the map", () => {
+			setup();
+			putDownTwoFingers();
+
+			// Both fingers move down together a little at a time
+			for (let y = 105; y <= 200; y += 5) {
+				adapter.dispatch("pointermove", { ...first, clientX: 100, clientY: y });
+				adapter.dispatch("pointermove", {
+					...second,
+					clientX: 200,
+					clientY: y,
+				});
+			}
+			adapter.dispatch("pointerup", { ...first, clientX: 100, clientY: 200 });
+			adapter.dispatch("pointerup", { ...second, clientX: 200, clientY: 200 });
+
+			expect(callbacks.onGestureStart).not.toHaveBeenCalled();
+			expect(callbacks.onGesture).not.toHaveBeenCalled();
+			expect(callbacks.onGestureEnd).not.toHaveBeenCalled();
+			expect(callbacks.onDragStart).not.toHaveBeenCalled();
+			expect(callbacks.onDrag).not.toHaveBeenCalled();
+			expect(callbacks.onClick).not.toHaveBeenCalled();
+		});
+
+		it("ends a single finger drag when a second finger is put down", () => {
+			setup();
+
+			adapter.dispatch("pointerdown", { ...first, clientX: 100, clientY: 100 });
+			adapter.dispatch("pointermove", { ...first, clientX: 150, clientY: 100 });
+			adapter.dispatch("pointermove", { ...first, clientX: 160, clientY: 100 });
+			adapter.dispatch("pointerdown", {
+				...second,
+				clientX: 200,
+				clientY: 100,
+			});
+
+			expect(callbacks.onDragStart).toHaveBeenCalledTimes(1);
+			expect(callbacks.onDrag).toHaveBeenCalledTimes(1);
+			expect(callbacks.onDragEnd).toHaveBeenCalledTimes(1);
+			expect(callbacks.onDragEnd).toHaveBeenCalledWith(
+				expect.objectContaining({ lng: 16, lat: 10 }),
+				expect.any(Function),
+			);
+		});
+
+		it("does not treat the fingers as a long press", () => {
+			setup();
+			putDownTwoFingers();
+
+			jest.advanceTimersByTime(500);
+
+			expect(callbacks.onClick).not.toHaveBeenCalled();
+		});
+
+		it("respects the minPixelGestureDistance option", () => {
+			setup({ minPixelGestureDistance: 50 });
+			putDownTwoFingers();
+
+			adapter.dispatch("pointermove", {
+				...second,
+				clientX: 240,
+				clientY: 100,
+			});
+			expect(callbacks.onGestureStart).not.toHaveBeenCalled();
+
+			adapter.dispatch("pointermove", {
+				...second,
+				clientX: 260,
+				clientY: 100,
+			});
+			expect(callbacks.onGestureStart).toHaveBeenCalledTimes(1);
+		});
+	});
+});
@@ -4,6 +4,8 @@ import {
 	TerraDrawCallbacks,
 	TerraDrawChanges,
 	TerraDrawMouseEvent,
+	TerraDrawGestureEvent,
+	CartesianPoint,
 	SetCursor,
 	TerraDrawStylingFunction,
 	GetLngLatFromEvent,
@@ -11,17 +13,32 @@ import {
 } from "../../common";
 import { limitPrecision } from "../../geometry/limit-decimal-precision";
 import { cartesianDistance } from "../../geometry/measure/pixel-distance";
+import { radiansToDegrees } from "../../geometry/helpers";
 import { AdapterListener } from "./adapter-listener";
 
 type BasePointerListener = (event: PointerEvent) => void;
 type BaseKeyboardListener = (event: KeyboardEvent) => void;
 type BaseMouseListener = (event: MouseEvent) => void;
 
+// The positions of two fingers on the map, used to work out
+// how a two finger gesture has changed between events
+type PointerPair = {
+	center: CartesianPoint;
+	distance: number;
+	angle: number;
+};
+
+// How far apart in pixels two taps can be to count as a double tap
+const DOUBLE_TAP_PIXEL_DISTANCE = 20;
+
 export type BaseAdapterConfig = {
 	coordinatePrecision?: number;
 	minPixelDragDistanceDrawing?: number;
 	minPixelDragDistance?: number;
 	minPixelDragDistanceSelecting?: number;
+	minPixelGestureDistance?: number;
+	longPressDuration?: number;
+	doubleTapDuration?: number;
 };
 
 export abstract class TerraDrawBaseAdapter implements TerraDrawAdapter {
@@ -45,6 +62,21 @@ export abstract class TerraDrawBaseAdapter implements TerraDrawAdapter {
 			typeof config.coordinatePrecision === "number"
 				? config.coordinatePrecision
 				: 9;
+
+		this._minPixelGestureDistance =
+			typeof config.minPixelGestureDistance === "number"
+				? config.minPixelGestureDistance
+				: 10;
+
+		this._longPressDuration =
+			typeof config.longPressDuration === "number"
+				? config.longPressDuration
+				: 500;
+
+		this._doubleTapDuration =
+			typeof config.doubleTapDuration === "number"
+				? config.doubleTapDuration
+				: 300;
 	}
 
 	protected _minPixelDragDistance: number;
@@ -59,6 +91,21 @@ export abstract class TerraDrawBaseAdapter implements TerraDrawAdapter {
 	protected _dragState: "not-dragging" | "pre-dragging" | "dragging" =
 		"not-dragging";
 	protected _currentModeCallbacks: TerraDrawCallbacks | undefined;
+	protected _minPixelGestureDistance: number;
+	protected _longPressDuration: number;
+	protected _doubleTapDuration: number;
+	protected _pointers: Map<number, CartesianPoint> = new Map();
+	protected _gestureState:
+		| "not-gesturing"
+		| "pre-gesturing"
+		| "gesturing"
+		| "panning"
+		| "ended" = "not-gesturing";
+	protected _gestureStart: PointerPair | undefined;
+	protected _lastGesture: PointerPair | undefined;
+	protected _longPressTimeout: ReturnType<typeof setTimeout> | undefined;
+	protected _longPressed = false;
+	protected _lastTap: { time: number; x: number; y: number } | undefined;
 
 	public abstract getMapEventElement(): HTMLElement;
 
@@ -111,6 +158,190 @@ export abstract class TerraDrawBaseAdapter implements TerraDrawAdapter {
 		};
 	}
 
+	protected getPointerPair(): PointerPair {
+		const [first, second] = Array.from(this._pointers.values());
+
+		return {
+			center: { x: (first.x + second.x) / 2, y: (first.y + second.y) / 2 },
+			distance: cartesianDistance(first, second),
+			// Container y increases downwards, so the angle increases clockwise
+			angle: radiansToDegrees(
+				Math.atan2(second.y - first.y, second.x - first.x),
+			),
+		};
+	}
+
+	protected getAngleChange(from: number, to: number) {
+		// Keep the change between -180 and 180 degrees so that
+		// crossing the atan2 discontinuity is not a full turn
+		const change = (to - from) % 360;
+		if (change > 180) {
+			return change - 360;
+		} else if (change < -180) {
+			return change + 360;
+		}
+		return change;
+	}
+
+	protected getGestureEvent(
+		pair: PointerPair,
+		previous: PointerPair,
+	): TerraDrawGestureEvent {
+		const { lng, lat } = this.unproject(pair.center.x, pair.center.y);
+
+		return {
+			lng: limitPrecision(lng, this._coordinatePrecision),
+			lat: limitPrecision(lat, this._coordinatePrecision),
+			containerX: pair.center.x,
+			containerY: pair.center.y,
+			scale: previous.distance === 0 ? 1 : pair.distance / previous.distance,
+			rotation: this.getAngleChange(previous.angle, pair.angle),
+			heldKeys: Array.from(this._heldKeys),
+		};
+	}
+
+	protected startGesture() {
+		if (!this._currentModeCallbacks) {
+			return;
+		}
+
+		// A second finger turns the interaction into a gesture, so
+		// any single finger interaction has to be ended first
+		this.cancelLongPress();
+		this._lastTap = undefined;
+
+		if (this._dragState === "dragging" && this._lastDrawEvent) {
+			this._currentModeCallbacks.onDragEnd(this._lastDrawEvent, (enabled) => {
+				this.setDraggability.bind(this)(enabled);
+			});
+		}
+		this._dragState = "not-dragging";
+
+		this._gestureState = "pre-gesturing";
+		this._gestureStart = this.getPointerPair();
+		this._lastGesture = this._gestureStart;
+	}
+
+	protected updateGesture() {
+		if (
+			!this._currentModeCallbacks ||
+			this._pointers.size < 2 ||
+			!this._gestureStart ||
+			!this._lastGesture
+		) {
+			return;
+		}
+
+		const pair = this.getPointerPair();
+
+		if (this._gestureState === "pre-gesturing") {
+			const { center, distance, angle } = this._gestureStart;
+
+			// Pinching and twisting move the fingers relative to each other,
+			// whereas panning moves them both in the same direction
+			const pinchDistance = Math.abs(pair.distance - distance);
+			const twistDistance =
+				Math.abs((this.getAngleChange(angle, pair.angle) * Math.PI) / 180) *
+				(distance / 2);
+			const panDistance = cartesianDistance(center, pair.center);
+
+			if (
+				Math.max(pinchDistance, twistDistance) >= this._minPixelGestureDistance
+			) {
+				this._gestureState = "gesturing";
+				this._currentModeCallbacks.onGestureStart(
+					this.getGestureEvent(pair, this._gestureStart),
+					(enabled: boolean) => {
+						this.setDraggability.bind(this)(enabled);
+					},
+				);
+				this._lastGesture = pair;
+			} else if (panDistance >= this._minPixelGestureDistance) {
+				// Panning is left to the map
+				this._gestureState = "panning";
+			}
+		} else if (this._gestureState === "gesturing") {
+			this._currentModeCallbacks.onGesture(
+				this.getGestureEvent(pair, this._lastGesture),
+				(enabled: boolean) => {
+					this.setDraggability.bind(this)(enabled);
+				},
+			);
+			this._lastGesture = pair;
+		}
+	}
+
+	protected endGesture() {
+		if (
+			this._currentModeCallbacks &&
+			this._gestureState === "gesturing" &&
+			this._lastGesture
+		) {
+			this._currentModeCallbacks.onGestureEnd(
+				this.getGestureEvent(this._lastGesture, this._lastGesture),
+				(enabled: boolean) => {
+					this.setDraggability.bind(this)(enabled);
+				},
+			);
+		}
+
+		// Any fingers left on the map are ignored until they are lifted
+		this._gestureState = "ended";
+		this._gestureStart = undefined;
+		this._lastGesture = undefined;
+	}
+
+	protected startLongPress(drawEvent: TerraDrawMouseEvent) {
+		this.cancelLongPress();
+
+		this._longPressTimeout = setTimeout(() => {
+			this._longPressTimeout = undefined;
+
+			if (!this._currentModeCallbacks) {
+				return;
+			}
+
+			// Touch devices have no right button, so holding
+			// a finger still on the map acts as a right click
+			this._longPressed = true;
+			this._lastTap = undefined;
+			this._currentModeCallbacks.onClick({ ...drawEvent, button: "right" });
+			this._currentModeCallbacks.onContextMenu({
+				...drawEvent,
+				button: "right",
+			});
+		}, this._longPressDuration);
+	}
+
+	protected cancelLongPress() {
+		if (this._longPressTimeout !== undefined) {
+			clearTimeout(this._longPressTimeout);
+			this._longPressTimeout = undefined;
+		}
+	}
+
+	protected isDoubleTap(drawEvent: TerraDrawMouseEvent) {
+		const tap = {
+			time: Date.now(),
+			x: drawEvent.containerX,
+			y: drawEvent.containerY,
+		};
+		const lastTap = this._lastTap;
+
+		if (
+			lastTap &&
+			tap.time - lastTap.time <= this._doubleTapDuration &&
+			cartesianDistance(lastTap, tap) <= DOUBLE_TAP_PIXEL_DISTANCE
+		) {
+			// A third tap starts a new double tap
+			this._lastTap = undefined;
+			return true;
+		}
+
+		this._lastTap = tap;
+		return false;
+	}
+
 	/**
 	 * Registers the provided callbacks for the current drawing mode and attaches
 	 * the necessary event listeners.
@@ -145,8 +376,22 @@ export abstract class TerraDrawBaseAdapter implements TerraDrawAdapter {
 						return;
 					}
 
-					// We don't support multitouch as this point in time
+					// A primary pointer starts a new interaction, so any
+					// pointers left over from a previous one have gone
+					if (event.isPrimary) {
+						this._pointers.clear();
+						this._gestureState = "not-gesturing";
+					}
+
+					const { containerX, containerY } =
+						this.getMapElementXYPosition(event);
+					this._pointers.set(event.pointerId, { x: containerX, y: containerY });
+
+					// Any further pointers are fingers for a two finger gesture
 					if (!event.isPrimary) {
+						if (this._pointers.size === 2) {
+							this.startGesture();
+						}
 						return;
 					}
 
@@ -156,6 +401,11 @@ export abstract class TerraDrawBaseAdapter implements TerraDrawAdapter {
 					}
 
 					this._dragState = "pre-dragging";
+					this._longPressed = false;
+
+					if (event.pointerType === "touch") {
+						this.startLongPress(drawEvent);
+					}
 
 					// On pointer devices pointer mouse move events won't be
 					// triggered so this._lastDrawEvent will not get set in
@@ -177,7 +427,22 @@ export abstract class TerraDrawBaseAdapter implements TerraDrawAdapter {
 				callback: (event) => {
 					if (!this._currentModeCallbacks) return;
 
-					// We don't support multitouch as this point in time
+					if (this._pointers.has(event.pointerId)) {
+						const { containerX, containerY } =
+							this.getMapElementXYPosition(event);
+						this._pointers.set(event.pointerId, {
+							x: containerX,
+							y: containerY,
+						});
+					}
+
+					// Whilst there is a gesture the fingers are not treated as
+					// a single pointer, so they can not start a drag
+					if (this._gestureState !== "not-gesturing") {
+						this.updateGesture();
+						return;
+					}
+
 					if (!event.isPrimary) {
 						return;
 					}
@@ -243,7 +508,9 @@ export abstract class TerraDrawBaseAdapter implements TerraDrawAdapter {
 							return;
 						}
 
+						this.cancelLongPress();
 						this._dragState = "dragging";
+						this._lastDrawEvent = drawEvent;
 						this._currentModeCallbacks.onDragStart(
 							drawEvent,
 							(enabled: boolean) => {
@@ -251,6 +518,7 @@ export abstract class TerraDrawBaseAdapter implements TerraDrawAdapter {
 							},
 						);
 					} else if (this._dragState === "dragging") {
+						this._lastDrawEvent = drawEvent;
 						this._currentModeCallbacks.onDrag(drawEvent, (enabled: boolean) => {
 							this.setDraggability.bind(this)(enabled);
 						});
@@ -272,6 +540,19 @@ export abstract class TerraDrawBaseAdapter implements TerraDrawAdapter {
 
 					// We do not want the context menu to open
 					event.preventDefault();
+
+					// Some touch devices also open the context menu on a long press,
+					// which is handled by the long press itself
+					if (this._longPressTimeout !== undefined || this._longPressed) {
+						return;
+					}
+
+					const drawEvent = this.getDrawEventFromEvent(event);
+					if (!drawEvent) {
+						return;
+					}
+
+					this._currentModeCallbacks.onContextMenu(drawEvent);
 				},
 				register: (callback) => {
 					const mapElement = this.getMapEventElement();
@@ -289,11 +570,27 @@ export abstract class TerraDrawBaseAdapter implements TerraDrawAdapter {
 						return;
 					}
 
+					this._pointers.delete(event.pointerId);
+					this.cancelLongPress();
+
+					if (this._gestureState !== "not-gesturing") {
+						if (this._pointers.size < 2 && this._gestureState !== "ended") {
+							this.endGesture();
+						}
+
+						// Once every finger is lifted we can go back to the regular behaviour
+						if (this._pointers.size === 0) {
+							this._gestureState = "not-gesturing";
+							this._dragState = "not-dragging";
+							this.setDraggability(true);
+						}
+						return;
+					}
+
 					if (event.target !== this.getMapEventElement()) {
 						return;
 					}
 
-					// We don't support multitouch as this point in time
 					if (!event.isPrimary) {
 						return;
 					}
@@ -308,13 +605,20 @@ export abstract class TerraDrawBaseAdapter implements TerraDrawAdapter {
 						this._currentModeCallbacks.onDragEnd(drawEvent, (enabled) => {
 							this.setDraggability.bind(this)(enabled);
 						});
+					} else if (this._longPressed) {
+						// The long press has already been treated as a right click
+						this._longPressed = false;
 					} else if (
 						this._dragState === "not-dragging" ||
 						this._dragState === "pre-dragging"
 					) {
-						// If we're not dragging or about to drag we
-						// can trigger the onClick event
-						this._currentModeCallbacks.onClick(drawEvent);
+						// If we're not dragging or about to drag we can trigger the
+						// onClick event, or onDoubleTap for a second tap on touch devices
+						if (event.pointerType === "touch" && this.isDoubleTap(drawEvent)) {
+							this._currentModeCallbacks.onDoubleTap(drawEvent);
+						} else {
+							this._currentModeCallbacks.onClick(drawEvent);
+						}
 					}
 
 					// Ensure we go back to the regular behaviour
@@ -391,6 +695,9 @@ export abstract class TerraDrawBaseAdapter implements TerraDrawAdapter {
 		this._listeners.forEach((listener) => {
 			listener.unregister();
 		});
+		this.cancelLongPress();
+		this._pointers.clear();
+		this._gestureState = "not-gesturing";
 		this.clear();
 	}
 
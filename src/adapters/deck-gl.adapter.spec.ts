@@ -0,0 +1,439 @@
+/**
+ * @jest-environment jsdom
+ */
+import { Deck } from "@deck.gl/core";
+import { MockCallbacks } from "../test/mock-callbacks";
+import { MockPointerEvent } from "../test/mock-pointer-event";
+import { GeoJSONStoreFeatures } from "../store/store";
+import { TerraDrawAdapterStyling } from "../common";
+import { getDefaultStyling } from "../util/styling";
+import { TerraDrawDeckGLAdapter } from "./deck-gl.adapter";
+
+// A headless viewport with 10 pixels per degree, centered at 0,0 in an 800x600 canvas
+const createMockViewport = () => ({
+	project: jest.fn(([lng, lat]: number[]) => [lng * 10 + 400, 300 - lat * 10]),
+	unproject: jest.fn(([x, y]: number[]) => [(x - 400) / 10, (300 - y) / 10]),
+});
+
+const createMockCanvas = () =>
+	({
+		addEventListener: jest.fn(),
+		removeEventListener: jest.fn(),
+		getBoundingClientRect: jest.fn(() => ({ left: 0, top: 0 })),
+		style: { removeProperty: jest.fn(), cursor: "initial" },
+	}) as unknown as HTMLCanvasElement;
+
+const createMockDeck = (
+	props: Partial<Deck["props"]> = { controller: true },
+	viewports: unknown[] = [createMockViewport()],
+) => {
+	const canvas = createMockCanvas();
+
+	return {
+		props,
+		setProps: jest.fn(),
+		getViewports: jest.fn(() => viewports),
+		getCanvas: jest.fn(() => canvas),
+	} as unknown as Deck;
+};
+
+const createMockMap = () => ({
+	project: jest.fn(() => ({ x: 1, y: 2 })),
+	unproject: jest.fn(() => ({ lng: 3, lat: 4 })),
+	getCanvas: jest.fn(() => createMockCanvas()),
+	dragPan: { enable: jest.fn(), disable: jest.fn() },
+	doubleClickZoom: { enable: jest.fn(), disable: jest.fn() },
+});
+
+// Layers only need to keep their props to be inspected, so no WebGL context is required
+class MockLayer {
+	id: string;
+	constructor(public props: Record<string, any>) {
+		this.id = props.id;
+	}
+}
+
+const lib = {
+	GeoJsonLayer: MockLayer,
+	ScatterplotLayer: MockLayer,
+	TextLayer: MockLayer,
+} as unknown as ConstructorParameters<typeof TerraDrawDeckGLAdapter>[0]["lib"];
+
+const getLayers = (deck: Deck) => {
+	const calls = (deck.setProps as jest.Mock).mock.calls;
+	return calls[calls.length - 1][0].layers as MockLayer[];
+};
+
+const feature = (
+	geometry: GeoJSONStoreFeatures["geometry"],
+	mode = "test",
+): GeoJSONStoreFeatures => ({
+	id: `${geometry.type}-${mode}`,
+	type: "Feature",
+	geometry,
+	properties: { mode },
+});
+
+const styling = (styles: Partial<TerraDrawAdapterStyling> = {}) => ({
+	test: () => ({ ...getDefaultStyling(), ...styles }),
+});
+
+describe("TerraDrawDeckGLAdapter", () => {
+	describe("constructor", () => {
+		it("instantiates the adapter correctly", () => {
+			const adapter = new TerraDrawDeckGLAdapter({
+				deck: createMockDeck(),
+				lib,
+			});
+
+			expect(adapter).toBeDefined();
+			expect(adapter.getMapEventElement).toBeDefined();
+			expect(adapter.render).toBeDefined();
+			expect(adapter.register).toBeDefined();
+			expect(adapter.unregister).toBeDefined();
+			expect(adapter.project).toBeDefined();
+			expect(adapter.unproject).toBeDefined();
+			expect(adapter.setCursor).toBeDefined();
+		});
+
+		it("throws an error for an overlay without a map", () => {
+			expect(
+				() =>
+					new TerraDrawDeckGLAdapter({
+						deck: { setProps: jest.fn() },
+						lib,
+					}),
+			).toThrow("A map is required when using a deck.gl overlay");
+		});
+	});
+
+	describe("project and unproject", () => {
+		it("projects and unprojects through the viewport of the deck", () => {
+			const adapter = new TerraDrawDeckGLAdapter({
+				deck: createMockDeck(),
+				lib,
+			});
+
+			expect(adapter.project(10, 20)).toStrictEqual({ x: 500, y: 100 });
+			expect(adapter.unproject(500, 100)).toStrictEqual({ lng: 10, lat: 20 });
+		});
+
+		it("throws an error if the deck has no viewport yet", () => {
+			const adapter = new TerraDrawDeckGLAdapter({
+				deck: createMockDeck({}, []),
+				lib,
+			});
+
+			expect(() => adapter.project(0, 0)).toThrow("cannot get viewport");
+		});
+
+		it("projects and unprojects through the map for an overlay", () => {
+			const map = createMockMap();
+			const adapter = new TerraDrawDeckGLAdapter({
+				deck: { setProps: jest.fn() },
+				map,
+				lib,
+			});
+
+			expect(adapter.project(10, 20)).toStrictEqual({ x: 1, y: 2 });
+			expect(map.project).toHaveBeenCalledWith([10, 20]);
+			expect(adapter.unproject(1, 2)).toStrictEqual({ lng: 3, lat: 4 });
+			expect(map.unproject).toHaveBeenCalledWith([1, 2]);
+		});
+	});
+
+	describe("getLngLatFromEvent", () => {
+		it("returns the coordinates of the pointer", () => {
+			const adapter = new TerraDrawDeckGLAdapter({
+				deck: createMockDeck(),
+				lib,
+			});
+
+			expect(
+				adapter.getLngLatFromEvent({
+					...MockPointerEvent(),
+					clientX: 450,
+					clientY: 250,
+				}),
+			).toStrictEqual({ lng: 5, lat: 5 });
+		});
+	});
+
+	describe("setDraggability", () => {
+		it("keeps the controller options of the deck", () => {
+			const deck = createMockDeck({
+				controller: { scrollZoom: false },
+			});
+			const adapter = new TerraDrawDeckGLAdapter({ deck, lib });
+
+			adapter.setDraggability(false);
+			expect(deck.setProps).toHaveBeenLastCalledWith({
+				controller: {
+					scrollZoom: false,
+					dragPan: false,
+					doubleClickZoom: true,
+				},
+			});
+
+			adapter.setDraggability(true);
+			expect(deck.setProps).toHaveBeenLastCalledWith({
+				controller: { scrollZoom: false, dragPan: true, doubleClickZoom: true },
+			});
+		});
+
+		it("does nothing if the deck has no controller", () => {
+			const deck = createMockDeck({ controller: false });
+			const adapter = new TerraDrawDeckGLAdapter({ deck, lib });
+
+			adapter.setDraggability(false);
+			expect(deck.setProps).not.toHaveBeenCalled();
+		});
+
+		it("enables and disables dragging of the map for an overlay", () => {
+			const map = createMockMap();
+			const adapter = new TerraDrawDeckGLAdapter({
+				deck: { setProps: jest.fn() },
+				map,
+				lib,
+			});
+
+			adapter.setDraggability(false);
+			expect(map.dragPan.disable).toHaveBeenCalledTimes(1);
+
+			adapter.setDraggability(true);
+			expect(map.dragPan.enable).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("setDoubleClickToZoom", () => {
+		it("enables and disables double click to zoom of the controller", () => {
+			const deck = createMockDeck({ controller: true });
+			const adapter = new TerraDrawDeckGLAdapter({ deck, lib });
+
+			adapter.setDoubleClickToZoom(false);
+			expect(deck.setProps).toHaveBeenLastCalledWith({
+				controller: { dragPan: true, doubleClickZoom: false },
+			});
+		});
+	});
+
+	describe("setCursor", () => {
+		it("sets the cursor of the deck and restores its own once unset", () => {
+			const getCursor = jest.fn();
+			const deck = createMockDeck({ getCursor });
+			const adapter = new TerraDrawDeckGLAdapter({ deck, lib });
+
+			adapter.setCursor("crosshair");
+			const [[{ getCursor: crosshair }]] = (deck.setProps as jest.Mock).mock
+				.calls;
+			expect(crosshair()).toBe("crosshair");
+
+			adapter.setCursor("unset");
+			expect(deck.setProps).toHaveBeenLastCalledWith({ getCursor });
+		});
+	});
+
+	describe("render", () => {
+		it("renders points, lines and polygons as layers above the layers of the application", () => {
+			const deck = createMockDeck();
+			const applicationLayer = new MockLayer({ id: "application" });
+			const adapter = new TerraDrawDeckGLAdapter({
+				deck,
+				lib,
+				layers: [applicationLayer] as unknown as Deck["props"]["layers"],
+			});
+
+			adapter.render(
+				{
+					created: [
+						feature({ type: "Point", coordinates: [1, 2] }),
+						feature({
+							type: "LineString",
+							coordinates: [
+								[0, 0],
+								[1, 1],
+							],
+						}),
+					],
+					updated: [],
+					unchanged: [
+						feature({
+							type: "Polygon",
+							coordinates: [
+								[
+									[0, 0],
+									[0, 1],
+									[1, 1],
+									[0, 0],
+								],
+							],
+						}),
+					],
+					deletedIds: [],
+				},
+				styling({ polygonFillColor: "#ff0000", polygonFillOpacity: 0.5 }),
+			);
+
+			const [application, features, points] = getLayers(deck);
+			expect(application).toBe(applicationLayer);
+
+			expect(features.id).toBe("td-features-0");
+			expect(features.props.data).toHaveLength(2);
+			const polygon = (features.props.data as GeoJSONStoreFeatures[])[1];
+			expect(features.props.getFillColor(polygon)).toStrictEqual([
+				255, 0, 0, 128,
+			]);
+
+			expect(points.id).toBe("td-points-0");
+			expect(points.props.data).toStrictEqual([
+				{ position: [1, 2], styles: expect.any(Object) },
+			]);
+		});
+
+		it("orders the layers by the zIndex of the features", () => {
+			const deck = createMockDeck();
+			const adapter = new TerraDrawDeckGLAdapter({ deck, lib });
+
+			adapter.render(
+				{
+					created: [
+						feature({ type: "Point", coordinates: [0, 0] }, "top"),
+						feature({ type: "Point", coordinates: [0, 0] }, "test"),
+					],
+					updated: [],
+					unchanged: [],
+					deletedIds: [],
+				},
+				{
+					...styling(),
+					top: () => ({ ...getDefaultStyling(), zIndex: 30 }),
+				},
+			);
+
+			expect(getLayers(deck).map(({ id }) => id)).toStrictEqual([
+				"td-points-0",
+				"td-points-30",
+			]);
+		});
+
+		it("renders each point of a MultiPoint", () => {
+			const deck = createMockDeck();
+			const adapter = new TerraDrawDeckGLAdapter({ deck, lib });
+
+			adapter.render(
+				{
+					created: [
+						feature({
+							type: "MultiPoint",
+							coordinates: [
+								[0, 0],
+								[1, 1],
+							],
+						}),
+					],
+					updated: [],
+					unchanged: [],
+					deletedIds: [],
+				},
+				styling(),
+			);
+
+			expect(getLayers(deck)[0].props.data).toHaveLength(2);
+		});
+
+		it("renders labels above the features", () => {
+			const deck = createMockDeck();
+			const adapter = new TerraDrawDeckGLAdapter({ deck, lib });
+
+			adapter.render(
+				{
+					created: [feature({ type: "Point", coordinates: [1, 2] })],
+					updated: [],
+					unchanged: [],
+					deletedIds: [],
+				},
+				styling({ labelText: "Label", labelHaloColor: "#ffffff" }),
+			);
+
+			const [, labels] = getLayers(deck);
+			expect(labels.id).toBe("td-labels-#ffffff");
+			expect(labels.props.data).toStrictEqual([
+				{
+					position: [1, 2],
+					label: expect.objectContaining({ labelText: "Label" }),
+				},
+			]);
+		});
+
+		it("throws an error rendering labels without a TextLayer", () => {
+			const adapter = new TerraDrawDeckGLAdapter({
+				deck: createMockDeck(),
+				lib: { ...lib, TextLayer: undefined },
+			});
+
+			expect(() =>
+				adapter.render(
+					{
+						created: [feature({ type: "Point", coordinates: [1, 2] })],
+						updated: [],
+						unchanged: [],
+						deletedIds: [],
+					},
+					styling({ labelText: "Label" }),
+				),
+			).toThrow("TextLayer must be provided to render labels");
+		});
+
+		it("sets the layers of an overlay", () => {
+			const overlay = { setProps: jest.fn() };
+			const adapter = new TerraDrawDeckGLAdapter({
+				deck: overlay,
+				map: createMockMap(),
+				lib,
+			});
+
+			adapter.render(
+				{
+					created: [feature({ type: "Point", coordinates: [1, 2] })],
+					updated: [],
+					unchanged: [],
+					deletedIds: [],
+				},
+				styling(),
+			);
+
+			expect(overlay.setProps).toHaveBeenCalledWith({
+				layers: [expect.objectContaining({ id: "td-points-0" })],
+			});
+		});
+	});
+
+	describe("clear", () => {
+		it("removes the layers of the drawn features", () => {
+			const deck = createMockDeck();
+			const adapter = new TerraDrawDeckGLAdapter({ deck, lib });
+			const callbacks = MockCallbacks();
+
+			adapter.register(callbacks);
+			adapter.clear();
+
+			expect(callbacks.onClear).toHaveBeenCalledTimes(1);
+			expect(deck.setProps).toHaveBeenLastCalledWith({ layers: [] });
+		});
+	});
+
+	describe("register and unregister", () => {
+		it("can register then unregister successfully", () => {
+			const deck = createMockDeck();
+			const adapter = new TerraDrawDeckGLAdapter({ deck, lib });
+			const callbacks = MockCallbacks();
+
+			adapter.register(callbacks);
+			expect(callbacks.onReady).toHaveBeenCalledTimes(1);
+			expect(deck.getCanvas()?.addEventListener).toHaveBeenCalled();
+
+			adapter.unregister();
+			expect(deck.getCanvas()?.removeEventListener).toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,481 @@
+import {
+	TerraDrawChanges,
+	SetCursor,
+	TerraDrawStylingFunction,
+	TerraDrawCallbacks,
+	TerraDrawAdapterStyling,
+	HexColor,
+} from "../common";
+import { Position } from "geojson";
+import { Deck, DeckProps, LayersList, Viewport } from "@deck.gl/core";
+import { GeoJsonLayer, ScatterplotLayer, TextLayer } from "@deck.gl/layers";
+import { GeoJSONStoreFeatures } from "../store/store";
+import { BaseAdapterConfig, TerraDrawBaseAdapter } from "./common/base.adapter";
+import { getGeometryParts } from "../geometry/geometry-parts";
+import { getLabelStyling } from "../util/styling";
+import { labelPosition } from "../geometry/label-position";
+
+type InjectableDeckGL = {
+	GeoJsonLayer: typeof GeoJsonLayer;
+	ScatterplotLayer: typeof ScatterplotLayer;
+	// Only required if features with labels are going to be rendered
+	TextLayer?: typeof TextLayer;
+};
+
+// An overlay which renders deck.gl layers interleaved with a basemap, i.e. MapboxOverlay
+type DeckOverlay = {
+	setProps(props: { layers: LayersList }): void;
+};
+
+// The basemap an overlay is added to, which controls the camera. MapLibre
+// and Mapbox maps can be used directly
+type DeckBasemap = {
+	project(lngLat: [number, number]): { x: number; y: number };
+	unproject(point: [number, number]): { lng: number; lat: number };
+	getCanvas(): HTMLCanvasElement;
+	dragPan: { enable(): void; disable(): void };
+	doubleClickZoom: { enable(): void; disable(): void };
+};
+
+type DeckColor = [number, number, number, number];
+
+type DeckControllerOptions = { dragPan: boolean; doubleClickZoom: boolean };
+
+type RenderedPoint = {
+	position: Position;
+	styles: TerraDrawAdapterStyling;
+};
+
+type RenderedLabel = {
+	position: Position;
+	label: NonNullable<ReturnType<typeof getLabelStyling>>;
+};
+
+export class TerraDrawDeckGLAdapter extends TerraDrawBaseAdapter {
+	private readonly _lib: InjectableDeckGL;
+	private readonly _deck: Deck | DeckOverlay;
+	private readonly _map: DeckBasemap | undefined;
+	private readonly _layers: LayersList;
+	private readonly _controller: DeckProps["controller"];
+	private readonly _getCursor: DeckProps["getCursor"];
+	private _controllerOptions: DeckControllerOptions = {
+		dragPan: true,
+		doubleClickZoom: true,
+	};
+
+	constructor(
+		config: {
+			// A standalone Deck instance, or an overlay interleaved with a basemap
+			deck: Deck | DeckOverlay;
+			lib: InjectableDeckGL;
+			// Only required for overlays, as the basemap controls the camera
+			map?: DeckBasemap;
+			// Layers of the application, which are rendered beneath the drawn features
+			layers?: LayersList;
+		} & BaseAdapterConfig,
+	) {
+		super(config);
+
+		this._deck = config.deck;
+		this._lib = config.lib;
+		this._map = config.map;
+		this._layers = config.layers ?? [];
+
+		if (this.isDeck(this._deck)) {
+			this._controller = this._deck.props.controller;
+			this._getCursor = this._deck.props.getCursor;
+		} else if (!this._map) {
+			throw new Error("A map is required when using a deck.gl overlay");
+		}
+	}
+
+	private isDeck(deck: Deck | DeckOverlay): deck is Deck {
+		return "getViewports" in deck;
+	}
+
+	/**
+	 * Gets the viewport of the Deck instance, which is only available once it has been initialised
+	 * @returns The first viewport of the Deck instance
+	 */
+	private getViewport(deck: Deck): Viewport {
+		const [viewport] = deck.getViewports();
+
+		if (!viewport) {
+			throw new Error("cannot get viewport");
+		}
+
+		return viewport;
+	}
+
+	/**
+	 * Converts a hexadecimal color to the RGBA array used by deck.gl
+	 * @param hex a string of the hexadecimal color
+	 * @param opacity the opacity of the color between 0 and 1
+	 * @returns The color as an array of red, green, blue and alpha between 0 and 255
+	 */
+	private getColorFromHex(hex: HexColor, opacity = 1): DeckColor {
+		return [
+			parseInt(hex.slice(1, 3), 16),
+			parseInt(hex.slice(3, 5), 16),
+			parseInt(hex.slice(5, 7), 16),
+			Math.round(opacity * 255),
+		];
+	}
+
+	/**
+	 * Sets the options of the controller of the Deck instance, keeping any options it was created with
+	 * @param options The options to change
+	 */
+	private setControllerOptions(options: Partial<DeckControllerOptions>) {
+		this._controllerOptions = { ...this._controllerOptions, ...options };
+
+		if (!this.isDeck(this._deck) || !this._controller) {
+			return;
+		}
+
+		// The controller can be given as true, a set of options or a controller class
+		const controller =
+			typeof this._controller === "function"
+				? { type: this._controller }
+				: this._controller === true
+				? {}
+				: this._controller;
+
+		this._deck.setProps({
+			controller: { ...controller, ...this._controllerOptions },
+		});
+	}
+
+	/**
+	 * Creates the deck.gl layers for the drawn features, where features are grouped by
+	 * their zIndex as deck.gl renders layers in the order they are given
+	 * @param features The features to render
+	 * @param styling An object mapping draw modes to feature styling functions
+	 * @returns The layers of the drawn features
+	 */
+	private createLayers(
+		features: GeoJSONStoreFeatures[],
+		styling: TerraDrawStylingFunction,
+	): LayersList {
+		const groups: Map<
+			number,
+			{
+				features: GeoJSONStoreFeatures[];
+				points: RenderedPoint[];
+			}
+		> = new Map();
+		const featureStyles: Map<GeoJSONStoreFeatures, TerraDrawAdapterStyling> =
+			new Map();
+		const labels: RenderedLabel[] = [];
+
+		features.forEach((feature) => {
+			const styles = styling[feature.properties.mode as string](feature);
+
+			let group = groups.get(styles.zIndex);
+			if (!group) {
+				group = { features: [], points: [] };
+				groups.set(styles.zIndex, group);
+			}
+
+			// Points are rendered by a ScatterplotLayer, which has its
+			// radius and outline in pixels
+			if (
+				feature.geometry.type === "Point" ||
+				feature.geometry.type === "MultiPoint"
+			) {
+				getGeometryParts(feature.geometry).forEach(({ coordinates }) => {
+					group.points.push({ position: coordinates as Position, styles });
+				});
+			} else {
+				featureStyles.set(feature, styles);
+				group.features.push(feature);
+			}
+
+			const label = getLabelStyling(styles);
+			if (label) {
+				labels.push({ position: labelPosition(feature.geometry), label });
+			}
+		});
+
+		const layers: LayersList = [];
+		const sortedGroups = Array.from(groups.entries()).sort(([a], [b]) => a - b);
+
+		sortedGroups.forEach(([zIndex, group]) => {
+			if (group.features.length) {
+				const getStyles = (feature: GeoJSONStoreFeatures) =>
+					featureStyles.get(feature) as TerraDrawAdapterStyling;
+
+				const isPolygon = (feature: GeoJSONStoreFeatures) =>
+					feature.geometry.type === "Polygon" ||
+					feature.geometry.type === "MultiPolygon";
+
+				layers.push(
+					new this._lib.GeoJsonLayer({
+						id: `td-features-${zIndex}`,
+						data: group.features,
+						filled: true,
+						stroked: true,
+						pickable: false,
+						lineWidthUnits: "pixels",
+						getFillColor: (feature) => {
+							const styles = getStyles(feature as GeoJSONStoreFeatures);
+							return this.getColorFromHex(
+								styles.polygonFillColor,
+								styles.polygonFillOpacity,
+							);
+						},
+						getLineColor: (feature) => {
+							const styles = getStyles(feature as GeoJSONStoreFeatures);
+							return this.getColorFromHex(
+								isPolygon(feature as GeoJSONStoreFeatures)
+									? styles.polygonOutlineColor
+									: styles.lineStringColor,
+							);
+						},
+						getLineWidth: (feature) => {
+							const styles = getStyles(feature as GeoJSONStoreFeatures);
+							return isPolygon(feature as GeoJSONStoreFeatures)
+								? styles.polygonOutlineWidth
+								: styles.lineStringWidth;
+						},
+					}),
+				);
+			}
+
+			if (group.points.length) {
+				layers.push(
+					new this._lib.ScatterplotLayer<RenderedPoint>({
+						id: `td-points-${zIndex}`,
+						data: group.points,
+						filled: true,
+						stroked: true,
+						pickable: false,
+						radiusUnits: "pixels",
+						lineWidthUnits: "pixels",
+						getPosition: ({ position }) => position as [number, number],
+						getRadius: ({ styles }) => styles.pointWidth,
+						getFillColor: ({ styles }) =>
+							this.getColorFromHex(styles.pointColor),
+						getLineColor: ({ styles }) =>
+							this.getColorFromHex(styles.pointOutlineColor),
+						getLineWidth: ({ styles }) => styles.pointOutlineWidth,
+					}),
+				);
+			}
+		});
+
+		// Labels are rendered above all features, with a layer for each halo
+		// color as the outline color of a TextLayer applies to all of its text
+		const { TextLayer } = this._lib;
+		if (labels.length) {
+			if (!TextLayer) {
+				throw new Error("TextLayer must be provided to render labels");
+			}
+
+			const haloColors = Array.from(
+				new Set(labels.map(({ label }) => label.labelHaloColor)),
+			);
+
+			haloColors.forEach((haloColor) => {
+				layers.push(
+					new TextLayer<RenderedLabel>({
+						id: `td-labels-${haloColor}`,
+						data: labels.filter(
+							({ label }) => label.labelHaloColor === haloColor,
+						),
+						pickable: false,
+						sizeUnits: "pixels",
+						fontSettings: { sdf: true },
+						outlineWidth: 0.2,
+						outlineColor: this.getColorFromHex(haloColor),
+						getPosition: ({ position }) => position as [number, number],
+						getText: ({ label }) => label.labelText,
+						getColor: ({ label }) => this.getColorFromHex(label.labelColor),
+						getSize: ({ label }) => label.labelSize,
+						getPixelOffset: ({ label }) => label.labelOffset,
+					}),
+				);
+			});
+		}
+
+		return layers;
+	}
+
+	/**
+	 * Sets the layers of the Deck instance or overlay, with the drawn features above the layers of the application
+	 * @param layers The layers of the drawn features
+	 */
+	private setLayers(layers: LayersList) {
+		this._deck.setProps({ layers: [...this._layers, ...layers] });
+	}
+
+	/**
+	 * Returns the longitude and latitude coordinates from a given PointerEvent on the map.
+	 * @param event The PointerEvent or MouseEvent  containing the screen coordinates of the pointer.
+	 * @returns An object with 'lng' and 'lat' properties representing the longitude and latitude, or null if the conversion is not possible.
+	 */
+	public getLngLatFromEvent(event: PointerEvent | MouseEvent) {
+		const { containerX: x, containerY: y } =
+			this.getMapElementXYPosition(event);
+
+		const { lng, lat } = this.unproject(x, y);
+		if (lng === null || isNaN(lng) || lat === null || isNaN(lat)) {
+			return null;
+		}
+
+		return { lng, lat };
+	}
+
+	/**
+	 * Retrieves the canvas of the Deck instance, or of the basemap, which handles interaction events
+	 * @returns The HTMLElement representing the map container.
+	 */
+	public getMapEventElement() {
+		if (!this.isDeck(this._deck)) {
+			return (this._map as DeckBasemap).getCanvas();
+		}
+
+		const canvas = this._deck.getCanvas();
+
+		if (!canvas) {
+			throw new Error("cannot get canvas");
+		}
+
+		return canvas;
+	}
+
+	/**
+	 * Enables or disables the draggable functionality of the map.
+	 * @param enabled Set to true to enable map dragging, or false to disable it.
+	 */
+	public setDraggability(enabled: boolean) {
+		if (this._map) {
+			if (enabled) {
+				this._map.dragPan.enable();
+			} else {
+				this._map.dragPan.disable();
+			}
+		} else {
+			this.setControllerOptions({ dragPan: enabled });
+		}
+	}
+
+	/**
+	 * Converts longitude and latitude coordinates to pixel coordinates in the map container.
+	 * @param lng The longitude coordinate to project.
+	 * @param lat The latitude coordinate to project.
+	 * @returns An object with 'x' and 'y' properties representing the pixel coordinates within the map container.
+	 */
+	public project(lng: number, lat: number) {
+		if (!this.isDeck(this._deck)) {
+			const { x, y } = (this._map as DeckBasemap).project([lng, lat]);
+			return { x, y };
+		}
+
+		const [x, y] = this.getViewport(this._deck).project([lng, lat]);
+		return { x, y };
+	}
+
+	/**
+	 * Converts pixel coordinates in the map container to longitude and latitude coordinates.
+	 * @param x The x-coordinate in the map container to unproject.
+	 * @param y The y-coordinate in the map container to unproject.
+	 * @returns An object with 'lng' and 'lat' properties representing the longitude and latitude coordinates.
+	 */
+	public unproject(x: number, y: number) {
+		if (!this.isDeck(this._deck)) {
+			const { lng, lat } = (this._map as DeckBasemap).unproject([x, y]);
+			return { lng, lat };
+		}
+
+		const [lng, lat] = this.getViewport(this._deck).unproject([x, y]);
+		return { lng, lat };
+	}
+
+	/**
+	 * Sets the cursor style for the map container.
+	 * @param cursor The CSS cursor style to apply, or 'unset' to remove any previously applied cursor style.
+	 */
+	public setCursor(cursor: Parameters<SetCursor>[0]) {
+		// Deck sets the cursor of its canvas every time it renders,
+		// so the cursor is given to it rather than set on the canvas
+		if (this.isDeck(this._deck)) {
+			this._deck.setProps({
+				getCursor: cursor === "unset" ? this._getCursor : () => cursor,
+			});
+			return;
+		}
+
+		const canvas = this.getMapEventElement();
+		if (cursor === "unset") {
+			canvas.style.removeProperty("cursor");
+		} else {
+			canvas.style.cursor = cursor;
+		}
+	}
+
+	/**
+	 * Enables or disables the double-click to zoom functionality on the map.
+	 * @param enabled Set to true to enable double-click to zoom, or false to disable it.
+	 */
+	public setDoubleClickToZoom(enabled: boolean) {
+		if (this._map) {
+			if (enabled) {
+				this._map.doubleClickZoom.enable();
+			} else {
+				this._map.doubleClickZoom.disable();
+			}
+		} else {
+			this.setControllerOptions({ doubleClickZoom: enabled });
+		}
+	}
+
+	/**
+	 * Renders GeoJSON features on the map using the provided styling configuration.
+	 * @param changes An object containing arrays of created, updated, and unchanged features to render.
+	 * @param styling An object mapping draw modes to feature styling functions
+	 */
+	public render(changes: TerraDrawChanges, styling: TerraDrawStylingFunction) {
+		// Deck.gl compares new layers with the previous ones by their id,
+		// so all of the layers are created again on every render
+		const features = [
+			...changes.created,
+			...changes.updated,
+			...changes.unchanged,
+		];
+
+		this.setLayers(this.createLayers(features, styling));
+	}
+
+	/**
+	 * Clears the map and store of all rendered data layers
+	 * @returns void
+	 * */
+	public clear() {
+		if (this._currentModeCallbacks) {
+			// Clear up state first
+			this._currentModeCallbacks.onClear();
+
+			// Then clean up rendering
+			this.setLayers([]);
+		}
+	}
+
+	public register(callbacks: TerraDrawCallbacks) {
+		super.register(callbacks);
+
+		if (this._currentModeCallbacks?.onReady) {
+			this._currentModeCallbacks.onReady();
+		}
+	}
+
+	public getCoordinatePrecision(): number {
+		// TODO: It seems this shouldn't be necessary as extends BaseAdapter which as this method
+		return super.getCoordinatePrecision();
+	}
+
+	public unregister(): void {
+		// TODO: It seems this shouldn't be necessary as extends BaseAdapter which as this method
+		return super.unregister();
+	}
+}
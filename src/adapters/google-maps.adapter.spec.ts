@@ -901,6 +901,109 @@ describe("TerraDrawGoogleMapsAdapter", () => {
 		});
 	});
 
+	describe("render labels", () => {
+		it("creates, updates and removes markers for labelled features", () => {
+			const markers: { setOptions: jest.Mock; setMap: jest.Mock }[] = [];
+			const lib = {
+				OverlayView: jest.fn(() => ({
+					setMap: jest.fn(),
+					getProjection: jest.fn(),
+				})),
+				LatLng: jest.fn((lat: number, lng: number) => ({ lat, lng })),
+				Point: jest.fn((x: number, y: number) => ({ x, y })),
+				Data: { Point: jest.fn() },
+				Marker: jest.fn(() => {
+					const marker = { setOptions: jest.fn(), setMap: jest.fn() };
+					markers.push(marker);
+					return marker;
+				}),
+			};
+
+			const map = createMockGoogleMap({
+				data: {
+					addListener: jest.fn(),
+					addGeoJson: jest.fn(),
+					remove: jest.fn(),
+					getFeatureById: jest.fn(() => ({
+						forEachProperty: jest.fn(),
+						setProperty: jest.fn(),
+						setGeometry: jest.fn(),
+					})),
+					setStyle: jest.fn(),
+				} as any,
+			});
+
+			const adapter = new TerraDrawGoogleMapsAdapter({
+				lib: lib as any,
+				map,
+			});
+
+			const point = {
+				id: "1",
+				type: "Feature",
+				geometry: { type: "Point", coordinates: [1, 2] },
+				properties: { mode: "test", name: "Label" },
+			} as GeoJSONStoreFeatures;
+
+			const styling = {
+				test: (feature: GeoJSONStoreFeatures) =>
+					({
+						labelText: feature.properties.name,
+						labelOffset: [0, -10],
+					}) as any,
+			};
+
+			adapter.render(
+				{ unchanged: [], created: [point], deletedIds: [], updated: [] },
+				styling,
+			);
+
+			expect(lib.Marker).toHaveBeenCalledTimes(1);
+			expect(lib.Marker).toHaveBeenCalledWith(
+				expect.objectContaining({
+					position: { lat: 2, lng: 1 },
+					map,
+					icon: expect.objectContaining({ labelOrigin: { x: 0, y: -10 } }),
+					label: {
+						text: "Label",
+						color: "#000000",
+						fontSize: "12px",
+						className: "td-label-halo-ffffff",
+					},
+				}),
+			);
+
+			adapter.render(
+				{
+					unchanged: [],
+					created: [],
+					deletedIds: [],
+					updated: [{ ...point, properties: { mode: "test", name: "New" } }],
+				},
+				styling,
+			);
+
+			expect(lib.Marker).toHaveBeenCalledTimes(1);
+			expect(markers[0].setOptions).toHaveBeenCalledWith(
+				expect.objectContaining({
+					label: expect.objectContaining({ text: "New" }),
+				}),
+			);
+
+			adapter.render(
+				{
+					unchanged: [],
+					created: [],
+					deletedIds: [],
+					updated: [{ ...point, properties: { mode: "test" } }],
+				},
+				styling,
+			);
+
+			expect(markers[0].setMap).toHaveBeenCalledWith(null);
+		});
+	});
+
 	describe("clear", () => {
 		it("is safe to call without features", () => {
 			const adapter = new TerraDrawGoogleMapsAdapter({
@@ -6,7 +6,13 @@ import {
 } from "../common";
 import { GeoJsonObject } from "geojson";
 import { BaseAdapterConfig, TerraDrawBaseAdapter } from "./common/base.adapter";
-import { FeatureId } from "../store/store";
+import {
+	FeatureId,
+	GeoJSONStoreFeatures,
+	GeoJSONStoreGeometries,
+} from "../store/store";
+import { getLabelStyling } from "../util/styling";
+import { labelPosition } from "../geometry/label-position";
 
 export class TerraDrawGoogleMapsAdapter extends TerraDrawBaseAdapter {
 	constructor(
@@ -38,6 +44,9 @@ export class TerraDrawGoogleMapsAdapter extends TerraDrawBaseAdapter {
 	private _overlay: google.maps.OverlayView | undefined;
 	private _clickEventListener: google.maps.MapsEventListener | undefined;
 	private _mouseMoveEventListener: google.maps.MapsEventListener | undefined;
+	private _labelMarkers: Map<FeatureId, google.maps.Marker> = new Map();
+	private _labelStyleSheet: HTMLStyleElement | undefined;
+	private _labelHaloColors: Set<string> = new Set();
 
 	private get _layers(): boolean {
 		return Boolean(this.renderedFeatureIds?.size > 0);
@@ -374,6 +383,57 @@ export class TerraDrawGoogleMapsAdapter extends TerraDrawBaseAdapter {
 							featureToUpdate.setGeometry(new this._lib.Data.Polygon(paths));
 						}
 
+						break;
+					case "MultiPoint":
+						{
+							const coordinates = updatedFeature.geometry.coordinates;
+
+							featureToUpdate.setGeometry(
+								new this._lib.Data.MultiPoint(
+									coordinates.map(
+										(coordinate) =>
+											new this._lib.LatLng(coordinate[1], coordinate[0]),
+									),
+								),
+							);
+						}
+						break;
+					case "MultiLineString":
+						{
+							const coordinates = updatedFeature.geometry.coordinates;
+
+							const paths = coordinates.map((line) =>
+								line.map(
+									(coordinate) =>
+										new this._lib.LatLng(coordinate[1], coordinate[0]),
+								),
+							);
+
+							featureToUpdate.setGeometry(
+								new this._lib.Data.MultiLineString(paths),
+							);
+						}
+						break;
+					case "MultiPolygon":
+						{
+							const coordinates = updatedFeature.geometry.coordinates;
+
+							const polygons = coordinates.map(
+								(polygon) =>
+									new this._lib.Data.Polygon(
+										polygon.map((ring) =>
+											ring.map(
+												(coordinate) =>
+													new this._lib.LatLng(coordinate[1], coordinate[0]),
+											),
+										),
+									),
+							);
+
+							featureToUpdate.setGeometry(
+								new this._lib.Data.MultiPolygon(polygons),
+							);
+						}
 						break;
 				}
 			});
@@ -412,14 +472,16 @@ export class TerraDrawGoogleMapsAdapter extends TerraDrawBaseAdapter {
 			const calculatedStyles = styling[mode]({
 				type: "Feature",
 				geometry: {
-					type: type as "Point" | "LineString" | "Polygon",
+					type: type as GeoJSONStoreGeometries["type"],
 					coordinates: [],
 				},
 				properties,
 			});
 
+			// Multi geometries are styled the same as their single geometry counterparts
 			switch (type) {
 				case "Point":
+				case "MultiPoint":
 					const path = this.circlePath(0, 0, calculatedStyles.pointWidth);
 
 					return {
@@ -436,11 +498,13 @@ export class TerraDrawGoogleMapsAdapter extends TerraDrawBaseAdapter {
 					};
 
 				case "LineString":
+				case "MultiLineString":
 					return {
 						strokeColor: calculatedStyles.lineStringColor,
 						strokeWeight: calculatedStyles.lineStringWidth,
 					};
 				case "Polygon":
+				case "MultiPolygon":
 					return {
 						strokeColor: calculatedStyles.polygonOutlineColor,
 						strokeWeight: calculatedStyles.polygonOutlineWidth,
@@ -451,6 +515,120 @@ export class TerraDrawGoogleMapsAdapter extends TerraDrawBaseAdapter {
 
 			throw Error("Unknown feature type");
 		});
+
+		this.renderLabels(
+			[...changes.created, ...changes.updated, ...changes.unchanged],
+			styling,
+		);
+	}
+
+	/**
+	 * Gets the class name for labels with a given halo colour, adding a rule for it to
+	 * the label style sheet if needed, as marker labels can only be given a halo via CSS
+	 * @param haloColor - the halo colour of the label
+	 * @returns the class name to give the label
+	 */
+	private getLabelClassName(haloColor: string) {
+		const className = `td-label-halo-${haloColor.replace("#", "")}`;
+
+		if (!this._labelHaloColors.has(haloColor)) {
+			if (!this._labelStyleSheet) {
+				this._labelStyleSheet = document.createElement("style");
+				document
+					.getElementsByTagName("head")[0]
+					.appendChild(this._labelStyleSheet);
+			}
+
+			const shadow = [
+				[-1, -1],
+				[1, -1],
+				[-1, 1],
+				[1, 1],
+			]
+				.map(([x, y]) => `${x}px ${y}px 0 ${haloColor}`)
+				.join(", ");
+
+			this._labelStyleSheet.innerHTML += `.${className} {text-shadow: ${shadow};}`;
+			this._labelHaloColors.add(haloColor);
+		}
+
+		return className;
+	}
+
+	/**
+	 * Renders the labels of features as markers, as the data layer can not render text
+	 * @param features - all of the features being rendered
+	 * @param styling - an object mapping draw modes to feature styling functions
+	 */
+	private renderLabels(
+		features: GeoJSONStoreFeatures[],
+		styling: TerraDrawStylingFunction,
+	) {
+		const labelledIds = new Set<FeatureId>();
+
+		features.forEach((feature) => {
+			// Styling is otherwise only applied lazily by the data layer,
+			// so we do not assume every mode has a styling function
+			const styleFeature = styling[feature.properties.mode as string];
+			const label = styleFeature && getLabelStyling(styleFeature(feature));
+
+			if (!label) {
+				return;
+			}
+
+			const id = feature.id as FeatureId;
+			labelledIds.add(id);
+
+			const [lng, lat] = labelPosition(feature.geometry);
+			const [offsetX, offsetY] = label.labelOffset;
+
+			const options = {
+				position: new this._lib.LatLng(lat, lng),
+				clickable: false,
+				// An empty path so only the label is visible
+				icon: {
+					path: "M 0 0",
+					scale: 1,
+					labelOrigin: new this._lib.Point(offsetX, offsetY),
+				},
+				label: {
+					text: label.labelText,
+					color: label.labelColor,
+					fontSize: `${label.labelSize}px`,
+					className: this.getLabelClassName(label.labelHaloColor),
+				},
+			};
+
+			const marker = this._labelMarkers.get(id);
+			if (marker) {
+				marker.setOptions(options);
+			} else {
+				this._labelMarkers.set(
+					id,
+					new this._lib.Marker({ ...options, map: this._map }),
+				);
+			}
+		});
+
+		this._labelMarkers.forEach((marker, id) => {
+			if (!labelledIds.has(id)) {
+				marker.setMap(null);
+				this._labelMarkers.delete(id);
+			}
+		});
+	}
+
+	private clearLabels() {
+		this._labelMarkers.forEach((marker) => {
+			marker.setMap(null);
+		});
+		this._labelMarkers = new Map();
+
+		if (this._labelStyleSheet) {
+			this._labelStyleSheet.remove();
+			this._labelStyleSheet = undefined;
+		}
+		this._labelHaloColors = new Set();
 	}
 
 	private clearLayers() {
@@ -477,6 +655,7 @@ export class TerraDrawGoogleMapsAdapter extends TerraDrawBaseAdapter {
 
 			// Then clean up rendering
 			this.clearLayers();
+			this.clearLabels();
 		}
 	}
 
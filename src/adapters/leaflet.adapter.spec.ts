@@ -16,6 +16,11 @@ const callbacks = () =>
 		onDragStart: jest.fn(),
 		onDrag: jest.fn(),
 		onDragEnd: jest.fn(),
+		onGestureStart: jest.fn(),
+		onGesture: jest.fn(),
+		onGestureEnd: jest.fn(),
+		onDoubleTap: jest.fn(),
+		onContextMenu: jest.fn(),
 		onClear: jest.fn(),
 		onReady: jest.fn(),
 	}) as TerraDrawCallbacks;
@@ -685,11 +690,8 @@ describe("TerraDrawLeafletAdapter", () => {
 				id: "2",
 				type: "Feature",
 				geometry: {
-					type: "MultiLineString",
-					coordinates: [
-						[0, 0],
-						[1, 1],
-					],
+					type: "GeometryCollection",
+					geometries: [],
 				},
 				properties: {
 					mode: "linestring",
@@ -729,6 +731,75 @@ describe("TerraDrawLeafletAdapter", () => {
 
 			expect(styleLineString(linestring)).toEqual({});
 		});
+		it("handles onEachFeature by binding a tooltip for labelled features", () => {
+			const map = createLeafletMap() as L.Map;
+
+			const lib = {
+				circleMarker: jest.fn(),
+				geoJSON: jest.fn(),
+			} as any;
+
+			const adapter = new TerraDrawLeafletAdapter({
+				lib,
+				map,
+				coordinatePrecision: 9,
+			});
+
+			const linestring = {
+				id: "1",
+				type: "Feature",
+				geometry: {
+					type: "LineString",
+					coordinates: [
+						[0, 0],
+						[1, 1],
+					],
+				},
+				properties: { mode: "linestring" },
+			} as GeoJSONStoreFeatures;
+
+			adapter.register(callbacks());
+
+			adapter.render(
+				{ unchanged: [], created: [linestring], deletedIds: [], updated: [] },
+				{
+					linestring: (feature) =>
+						({
+							labelText: feature.properties.name as string,
+							labelColor: "#ff0000",
+							labelOffset: [0, -10],
+						}) as any,
+				},
+			);
+
+			const onEachFeature = lib.geoJSON.mock.calls[0][1].onEachFeature;
+
+			const unlabelledLayer = { bindTooltip: jest.fn() };
+			onEachFeature(linestring, unlabelledLayer);
+			expect(unlabelledLayer.bindTooltip).not.toHaveBeenCalled();
+
+			const layer = { bindTooltip: jest.fn() };
+			onEachFeature(
+				{ ...linestring, properties: { mode: "linestring", name: "<b>A</b>" } },
+				layer,
+			);
+
+			expect(layer.bindTooltip).toHaveBeenCalledTimes(1);
+			const [element, options] = layer.bindTooltip.mock.calls[0];
+			expect(element.textContent).toBe("<b>A</b>");
+			expect(element.style.color).toBe("rgb(255, 0, 0)");
+			expect(element.style.fontSize).toBe("12px");
+			expect(options).toStrictEqual({
+				permanent: true,
+				direction: "center",
+				className: "td-label",
+				offset: [0, -10],
+				opacity: 1,
+				interactive: false,
+			});
+
+			adapter.clear();
+		});
 	});
 
 	describe("clear", () => {
@@ -7,6 +7,7 @@ import {
 import L from "leaflet";
 import { GeoJSONStoreFeatures } from "../store/store";
 import { BaseAdapterConfig, TerraDrawBaseAdapter } from "./common/base.adapter";
+import { getLabelStyling } from "../util/styling";
 
 export class TerraDrawLeafletAdapter extends TerraDrawBaseAdapter {
 	constructor(
@@ -25,6 +26,7 @@ export class TerraDrawLeafletAdapter extends TerraDrawBaseAdapter {
 	private _lib: typeof L;
 	private _map: L.Map;
 	private _panes: Record<string, HTMLStyleElement | undefined> = {};
+	private _labelStyleSheet: HTMLStyleElement | undefined;
 	private _container: HTMLElement;
 	private _layers: Record<string, L.GeoJSON<any>> = {};
 
@@ -57,6 +59,33 @@ export class TerraDrawLeafletAdapter extends TerraDrawBaseAdapter {
 		this._panes = {};
 	}
 
+	/**
+	 * Creates the style sheet which removes the default tooltip box from labels,
+	 * if it has not already been created
+	 * @returns void
+	 * */
+	private createLabelStyleSheet() {
+		if (this._labelStyleSheet) {
+			return;
+		}
+
+		const style = document.createElement("style");
+		style.innerHTML = `.leaflet-tooltip.td-label {background: transparent; border: none; box-shadow: none; padding: 0; white-space: nowrap;} .leaflet-tooltip.td-label::before {display: none;}`;
+		document.getElementsByTagName("head")[0].appendChild(style);
+		this._labelStyleSheet = style;
+	}
+
+	/**
+	 * Clears the label style sheet created by the adapter
+	 * @returns void
+	 * */
+	private clearLabelStyleSheet() {
+		if (this._labelStyleSheet) {
+			this._labelStyleSheet.remove();
+			this._labelStyleSheet = undefined;
+		}
+	}
+
 	/**
 	 * Clears the leaflet layers created by the adapter
 	 * @returns void
@@ -138,14 +167,20 @@ export class TerraDrawLeafletAdapter extends TerraDrawBaseAdapter {
 					);
 				}
 
-				if (feature.geometry.type === "LineString") {
+				if (
+					feature.geometry.type === "LineString" ||
+					feature.geometry.type === "MultiLineString"
+				) {
 					return {
 						interactive: false, // Removes mouse hover cursor styles
 						color: featureStyles.lineStringColor,
 						weight: featureStyles.lineStringWidth,
 						pane: paneId,
 					};
-				} else if (feature.geometry.type === "Polygon") {
+				} else if (
+					feature.geometry.type === "Polygon" ||
+					feature.geometry.type === "MultiPolygon"
+				) {
 					return {
 						interactive: false, // Removes mouse hover cursor styles
 						fillOpacity: featureStyles.polygonFillOpacity,
@@ -159,6 +194,50 @@ export class TerraDrawLeafletAdapter extends TerraDrawBaseAdapter {
 
 				return {};
 			},
+
+			// Label features with permanent tooltips, which Leaflet places
+			// at the point or at the center of lines and polygons
+			onEachFeature: (_feature, layer) => {
+				const feature = _feature as GeoJSONStoreFeatures;
+				if (
+					!feature.properties ||
+					typeof feature.properties.mode !== "string"
+				) {
+					return;
+				}
+
+				const label = getLabelStyling(
+					styling[feature.properties.mode](feature),
+				);
+				if (!label) {
+					return;
+				}
+
+				this.createLabelStyleSheet();
+
+				// The text is set as text content so it is never parsed as HTML
+				const element = document.createElement("span");
+				element.textContent = label.labelText;
+				element.style.color = label.labelColor;
+				element.style.fontSize = `${label.labelSize}px`;
+				element.style.textShadow = [
+					[-1, -1],
+					[1, -1],
+					[-1, 1],
+					[1, 1],
+				]
+					.map(([x, y]) => `${x}px ${y}px 0 ${label.labelHaloColor}`)
+					.join(", ");
+
+				layer.bindTooltip(element, {
+					permanent: true,
+					direction: "center",
+					className: "td-label",
+					offset: label.labelOffset,
+					opacity: 1,
+					interactive: false,
+				});
+			},
 		};
 	}
 
@@ -296,6 +375,7 @@ export class TerraDrawLeafletAdapter extends TerraDrawBaseAdapter {
 			// Then clean up rendering
 			this.clearLayers();
 			this.clearPanes();
+			this.clearLabelStyleSheet();
 		}
 	}
 
@@ -221,13 +221,13 @@ describe("TerraDrawMapboxGLAdapter", () => {
 			const rAFCallback = (requestAnimationFrame as jest.Mock).mock.calls[0][0];
 			rAFCallback();
 
-			expect(map.addSource).toHaveBeenCalledTimes(3);
-			expect(map.addLayer).toHaveBeenCalledTimes(4);
+			expect(map.addSource).toHaveBeenCalledTimes(4);
+			expect(map.addLayer).toHaveBeenCalledTimes(5);
 
 			adapter.clear();
 
-			expect(map.removeLayer).toHaveBeenCalledTimes(4);
-			expect(map.removeSource).toHaveBeenCalledTimes(3);
+			expect(map.removeLayer).toHaveBeenCalledTimes(5);
+			expect(map.removeSource).toHaveBeenCalledTimes(4);
 		});
 	});
 
@@ -258,8 +258,8 @@ describe("TerraDrawMapboxGLAdapter", () => {
 
 			rAFCallback();
 
-			expect(map.addSource).toHaveBeenCalledTimes(3);
-			expect(map.addLayer).toHaveBeenCalledTimes(4);
+			expect(map.addSource).toHaveBeenCalledTimes(4);
+			expect(map.addLayer).toHaveBeenCalledTimes(5);
 		});
 
 		it("updates layers and sources when data is passed", () => {
@@ -288,8 +288,8 @@ describe("TerraDrawMapboxGLAdapter", () => {
 
 			rAFCallback();
 
-			expect(map.addSource).toHaveBeenCalledTimes(3);
-			expect(map.addLayer).toHaveBeenCalledTimes(4);
+			expect(map.addSource).toHaveBeenCalledTimes(4);
+			expect(map.addLayer).toHaveBeenCalledTimes(5);
 
 			adapter.render(
 				{
@@ -354,7 +354,7 @@ describe("TerraDrawMapboxGLAdapter", () => {
 
 			rAFCallback();
 
-			expect(map.getSource).toHaveBeenCalledTimes(3);
+			expect(map.getSource).toHaveBeenCalledTimes(4);
 
 			adapter.render(
 				{
@@ -375,7 +375,93 @@ describe("TerraDrawMapboxGLAdapter", () => {
 			rAFCallback();
 
 			// Force update because of the deletion
-			expect(map.getSource).toHaveBeenCalledTimes(6);
+			expect(map.getSource).toHaveBeenCalledTimes(8);
+		});
+	});
+
+	describe("render labels", () => {
+		it("renders labels from points at the label position of each feature", () => {
+			jest.spyOn(window, "requestAnimationFrame");
+
+			const setData = jest.fn();
+			const map = createMapboxGLMap();
+			map.getSource = jest.fn(() => ({ setData })) as any;
+
+			const adapter = new TerraDrawMapboxGLAdapter({
+				map: map as mapboxgl.Map,
+			});
+
+			adapter.register(MockCallbacks());
+
+			adapter.render(
+				{ created: [], updated: [], unchanged: [], deletedIds: [] },
+				{ test: () => ({}) as any },
+			);
+
+			let rAFCallback = (requestAnimationFrame as jest.Mock).mock.calls[0][0];
+			rAFCallback();
+
+			expect(map.addLayer).toHaveBeenCalledWith(
+				expect.objectContaining({ id: "td-label", type: "symbol" }),
+			);
+
+			adapter.render(
+				{
+					created: [
+						{
+							id: "1",
+							type: "Feature",
+							geometry: {
+								type: "LineString",
+								coordinates: [
+									[0, 0],
+									[2, 2],
+								],
+							},
+							properties: { mode: "linestring" },
+						},
+						{
+							id: "2",
+							type: "Feature",
+							geometry: { type: "Point", coordinates: [1, 1] },
+							properties: { mode: "point" },
+						},
+					],
+					updated: [],
+					unchanged: [],
+					deletedIds: [],
+				},
+				{
+					linestring: () =>
+						({
+							labelText: "Label",
+							labelSize: 10,
+							labelOffset: [0, -20],
+						}) as any,
+					point: () => ({}) as any,
+				},
+			);
+
+			rAFCallback = (requestAnimationFrame as jest.Mock).mock.calls[1][0];
+			rAFCallback();
+
+			expect(setData).toHaveBeenLastCalledWith({
+				type: "FeatureCollection",
+				features: [
+					{
+						type: "Feature",
+						geometry: { type: "Point", coordinates: [1, 1] },
+						properties: {
+							labelText: "Label",
+							labelColor: "#000000",
+							labelSize: 10,
+							labelHaloColor: "#ffffff",
+							labelOffset: [0, -2],
+						},
+					},
+				],
+			});
+			expect(map.moveLayer).toHaveBeenLastCalledWith("td-label");
 		});
 	});
 
@@ -434,8 +520,8 @@ describe("TerraDrawMapboxGLAdapter", () => {
 			adapter.unregister();
 
 			// Clears any set data
-			expect(map.removeLayer).toHaveBeenCalledTimes(4);
-			expect(map.removeSource).toHaveBeenCalledTimes(3);
+			expect(map.removeLayer).toHaveBeenCalledTimes(5);
+			expect(map.removeSource).toHaveBeenCalledTimes(4);
 		});
 	});
 });
@@ -10,9 +10,14 @@ import mapboxgl, {
 	FillLayer,
 	LineLayer,
 	PointLike,
+	SymbolLayer,
 } from "mapbox-gl";
 import { GeoJSONStoreGeometries } from "../store/store";
 import { BaseAdapterConfig, TerraDrawBaseAdapter } from "./common/base.adapter";
+import { getLabelStyling } from "../util/styling";
+import { labelPosition } from "../geometry/label-position";
+
+const LABEL_LAYER_ID = "td-label";
 
 export class TerraDrawMapboxGLAdapter extends TerraDrawBaseAdapter {
 	constructor(config: { map: mapboxgl.Map } & BaseAdapterConfig) {
@@ -46,6 +51,9 @@ export class TerraDrawMapboxGLAdapter extends TerraDrawBaseAdapter {
 				this._map.removeSource(id);
 			});
 
+			this._map.removeLayer(LABEL_LAYER_ID);
+			this._map.removeSource(LABEL_LAYER_ID);
+
 			this._rendered = false;
 
 			// TODO: This is necessary to prevent render artifacts, perhaps there is a nicer solution?
@@ -127,6 +135,29 @@ export class TerraDrawMapboxGLAdapter extends TerraDrawBaseAdapter {
 		return layer;
 	}
 
+	private _addLabelLayer(id: string) {
+		const layer = this._map.addLayer({
+			id,
+			source: id,
+			type: "symbol",
+			// No need for filters as style is driven by properties
+			layout: {
+				"text-field": ["get", "labelText"],
+				"text-size": ["get", "labelSize"],
+				"text-offset": ["get", "labelOffset"],
+				"text-allow-overlap": true,
+				"text-ignore-placement": true,
+			},
+			paint: {
+				"text-color": ["get", "labelColor"],
+				"text-halo-color": ["get", "labelHaloColor"],
+				"text-halo-width": 1,
+			},
+		} as SymbolLayer);
+
+		return layer;
+	}
+
 	private _addLayer(
 		id: string,
 		featureType: "Point" | "LineString" | "Polygon",
@@ -144,7 +175,7 @@ export class TerraDrawMapboxGLAdapter extends TerraDrawBaseAdapter {
 	}
 
 	private _addGeoJSONLayer<T extends GeoJSONStoreGeometries>(
-		featureType: Feature<T>["geometry"]["type"],
+		featureType: "Point" | "LineString" | "Polygon",
 		features: Feature<T>[],
 	) {
 		const id = `td-${featureType.toLowerCase()}`;
@@ -155,7 +186,7 @@ export class TerraDrawMapboxGLAdapter extends TerraDrawBaseAdapter {
 	}
 
 	private _setGeoJSONLayerData<T extends GeoJSONStoreGeometries>(
-		featureType: Feature<T>["geometry"]["type"],
+		featureType: "Point" | "LineString" | "Polygon",
 		features: Feature<T>[],
 	) {
 		const id = `td-${featureType.toLowerCase()}`;
@@ -182,11 +213,20 @@ export class TerraDrawMapboxGLAdapter extends TerraDrawBaseAdapter {
 
 	private updateChangedIds(changes: TerraDrawChanges) {
 		[...changes.updated, ...changes.created].forEach((feature) => {
-			if (feature.geometry.type === "Point") {
+			if (
+				feature.geometry.type === "Point" ||
+				feature.geometry.type === "MultiPoint"
+			) {
 				this.changedIds.points = true;
-			} else if (feature.geometry.type === "LineString") {
+			} else if (
+				feature.geometry.type === "LineString" ||
+				feature.geometry.type === "MultiLineString"
+			) {
 				this.changedIds.linestrings = true;
-			} else if (feature.geometry.type === "Polygon") {
+			} else if (
+				feature.geometry.type === "Polygon" ||
+				feature.geometry.type === "MultiPolygon"
+			) {
 				this.changedIds.polygons = true;
 			}
 		});
@@ -316,6 +356,7 @@ export class TerraDrawMapboxGLAdapter extends TerraDrawBaseAdapter {
 			const points = [];
 			const linestrings = [];
 			const polygons = [];
+			const labels: Feature<Point>[] = [];
 
 			for (let i = 0; i < features.length; i++) {
 				const feature = features[i];
@@ -323,23 +364,54 @@ export class TerraDrawMapboxGLAdapter extends TerraDrawBaseAdapter {
 				const mode = properties.mode as string;
 				const styles = styling[mode](feature);
 
-				if (feature.geometry.type === "Point") {
+				// Multi geometries can be rendered by the same layers
+				// as their single geometry counterparts
+				if (
+					feature.geometry.type === "Point" ||
+					feature.geometry.type === "MultiPoint"
+				) {
 					properties.pointColor = styles.pointColor;
 					properties.pointOutlineColor = styles.pointOutlineColor;
 					properties.pointOutlineWidth = styles.pointOutlineWidth;
 					properties.pointWidth = styles.pointWidth;
 					points.push(feature);
-				} else if (feature.geometry.type === "LineString") {
+				} else if (
+					feature.geometry.type === "LineString" ||
+					feature.geometry.type === "MultiLineString"
+				) {
 					properties.lineStringColor = styles.lineStringColor;
 					properties.lineStringWidth = styles.lineStringWidth;
 					linestrings.push(feature);
-				} else if (feature.geometry.type === "Polygon") {
+				} else if (
+					feature.geometry.type === "Polygon" ||
+					feature.geometry.type === "MultiPolygon"
+				) {
 					properties.polygonFillColor = styles.polygonFillColor;
 					properties.polygonFillOpacity = styles.polygonFillOpacity;
 					properties.polygonOutlineColor = styles.polygonOutlineColor;
 					properties.polygonOutlineWidth = styles.polygonOutlineWidth;
 					polygons.push(feature);
 				}
+
+				// Labels are rendered from a point so that they are placed
+				// consistently, i.e. not at the first coordinate of a line
+				const label = getLabelStyling(styles);
+				if (label) {
+					labels.push({
+						type: "Feature",
+						geometry: {
+							type: "Point",
+							coordinates: labelPosition(feature.geometry),
+						},
+						properties: {
+							...label,
+							// Mapbox GL text offsets are in ems rather than pixels
+							labelOffset: label.labelOffset.map(
+								(offset) => offset / label.labelSize,
+							),
+						},
+					});
+				}
 			}
 
 			if (!this._rendered) {
@@ -355,12 +427,15 @@ export class TerraDrawMapboxGLAdapter extends TerraDrawBaseAdapter {
 					"Polygon",
 					polygons as Feature<Polygon>[],
 				);
+				this._addGeoJSONSource(LABEL_LAYER_ID, labels);
+				this._addLabelLayer(LABEL_LAYER_ID);
 				this._rendered = true;
 
-				// Ensure selection/mid points are rendered on top
+				// Ensure selection/mid points are rendered on top, with labels above them
 				if (pointId) {
 					this._map.moveLayer(pointId);
 				}
+				this._map.moveLayer(LABEL_LAYER_ID);
 			} else {
 				// If deletion occurred we always have to update all layers
 				// as we don't know the type (TODO: perhaps we could pass that back?)
@@ -395,13 +470,26 @@ export class TerraDrawMapboxGLAdapter extends TerraDrawBaseAdapter {
 					);
 				}
 
+				// Labels can belong to any geometry type
+				const updateLabels =
+					updatePoints || updateLineStrings || updatedPolygon;
+				if (updateLabels) {
+					(this._map.getSource(LABEL_LAYER_ID) as any).setData({
+						type: "FeatureCollection",
+						features: labels,
+					});
+				}
+
 				// TODO: This logic could be better - I think this will render the selection points above user
 				// defined layers outside of Terra Draw which is perhaps unideal
 
-				// Ensure selection/mid points are rendered on top
+				// Ensure selection/mid points are rendered on top, with labels above them
 				if (pointId) {
 					this._map.moveLayer(pointId);
 				}
+				if (updateLabels) {
+					this._map.moveLayer(LABEL_LAYER_ID);
+				}
 			}
 
 			// Reset changed ids
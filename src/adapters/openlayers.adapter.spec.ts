@@ -235,6 +235,76 @@ describe("TerraDrawOpenLayersAdapter", () => {
 
 				expect(style).toEqual(undefined);
 			});
+
+			it("for labelled features correctly", () => {
+				const Text = jest.fn();
+				const Style = jest.fn();
+				const VectorLayer = jest.fn();
+				const adapter = new TerraDrawOpenLayersAdapter({
+					map: createMockOLMap(),
+					lib: {
+						GeoJSON: jest.fn(),
+						VectorSource: jest.fn(),
+						VectorLayer,
+						Style,
+						Stroke: jest.fn(),
+						Fill: jest.fn(),
+						Circle: jest.fn(),
+						Text,
+						getUserProjection: jest.fn(),
+					} as unknown as InjectableOL,
+				});
+
+				adapter.render(
+					{ created: [], updated: [], unchanged: [], deletedIds: [] },
+					{
+						linestring: () =>
+							({
+								labelText: "Label",
+								labelOffset: [5, 10],
+							}) as unknown as TerraDrawAdapterStyling,
+					},
+				);
+
+				const styles = VectorLayer.mock.calls[0][0].style;
+
+				const getGeometry = jest.fn(() => ({ getType: () => "LineString" }));
+				const getProperties = jest.fn(() => ({ mode: "linestring" }));
+
+				styles({ getGeometry, getProperties });
+
+				expect(Text).toHaveBeenCalledTimes(1);
+				expect(Text).toHaveBeenCalledWith(
+					expect.objectContaining({
+						text: "Label",
+						font: "12px sans-serif",
+						offsetX: 5,
+						offsetY: 10,
+					}),
+				);
+				expect(Style).toHaveBeenCalledWith(
+					expect.objectContaining({ text: expect.any(Text) }),
+				);
+			});
+
+			it("and throws for labelled features if Text is not provided", () => {
+				adapter.render(
+					{ created: [], updated: [], unchanged: [], deletedIds: [] },
+					{
+						point: () =>
+							({ labelText: "Label" }) as unknown as TerraDrawAdapterStyling,
+					},
+				);
+
+				const styles = VectorLayer.mock.calls[0][0].style;
+
+				const getGeometry = jest.fn(() => ({ getType: () => "Point" }));
+				const getProperties = jest.fn(() => ({ mode: "point" }));
+
+				expect(() => styles({ getGeometry, getProperties })).toThrow(
+					"Text must be provided to render labels",
+				);
+			});
 		});
 	});
 
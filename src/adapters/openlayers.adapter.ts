@@ -3,6 +3,7 @@ import {
 	SetCursor,
 	TerraDrawStylingFunction,
 	TerraDrawCallbacks,
+	TerraDrawAdapterStyling,
 } from "../common";
 import { FeatureId, GeoJSONStoreFeatures } from "../store/store";
 import Feature, { FeatureLike } from "ol/Feature";
@@ -12,6 +13,7 @@ import Circle from "ol/style/Circle";
 import Fill from "ol/style/Fill";
 import Stroke from "ol/style/Stroke";
 import Style from "ol/style/Style";
+import Text from "ol/style/Text";
 import VectorSource from "ol/source/Vector";
 import { Geometry } from "ol/geom";
 import VectorLayer from "ol/layer/Vector";
@@ -19,6 +21,7 @@ import { toLonLat, fromLonLat, getUserProjection, Projection } from "ol/proj";
 import { BaseAdapterConfig, TerraDrawBaseAdapter } from "./common/base.adapter";
 import { Coordinate } from "ol/coordinate";
 import { Pixel } from "ol/pixel";
+import { getLabelStyling } from "../util/styling";
 
 export type InjectableOL = {
 	Fill: typeof Fill;
@@ -29,6 +32,8 @@ export type InjectableOL = {
 	VectorLayer: typeof VectorLayer;
 	VectorSource: typeof VectorSource;
 	Stroke: typeof Stroke;
+	// Only required if features with labels are going to be rendered
+	Text?: typeof Text;
 	getUserProjection: typeof getUserProjection;
 };
 
@@ -93,12 +98,44 @@ export class TerraDrawOpenLayersAdapter extends TerraDrawBaseAdapter {
 		};
 	}
 
+	/**
+	 * Creates the text style for a feature's label
+	 * @param style - the styles of the feature
+	 * @returns the text style, or undefined if the feature has no label
+	 */
+	private getText(style: TerraDrawAdapterStyling) {
+		const label = getLabelStyling(style);
+		if (!label) {
+			return undefined;
+		}
+
+		if (!this._lib.Text) {
+			throw new Error("Text must be provided to render labels");
+		}
+
+		const [offsetX, offsetY] = label.labelOffset;
+
+		return new this._lib.Text({
+			text: label.labelText,
+			font: `${label.labelSize}px sans-serif`,
+			fill: new this._lib.Fill({ color: label.labelColor }),
+			stroke: new this._lib.Stroke({ color: label.labelHaloColor, width: 2 }),
+			offsetX,
+			offsetY,
+			overflow: true,
+		});
+	}
+
 	private getStyles(feature: FeatureLike, styling: TerraDrawStylingFunction) {
 		const geometry = feature.getGeometry();
 		if (!geometry) {
 			return;
 		}
-		const key = geometry.getType() as "Point" | "LineString" | "Polygon";
+		// Multi geometries are styled the same way as their single counterparts
+		const key = geometry.getType().replace("Multi", "") as
+			| "Point"
+			| "LineString"
+			| "Polygon";
 
 		return {
 			Point: (feature: FeatureLike) => {
@@ -119,6 +156,7 @@ export class TerraDrawOpenLayersAdapter extends TerraDrawBaseAdapter {
 							width: style.pointOutlineWidth,
 						}),
 					}),
+					text: this.getText(style),
 				});
 			},
 			LineString: (feature: FeatureLike) => {
@@ -133,6 +171,7 @@ export class TerraDrawOpenLayersAdapter extends TerraDrawBaseAdapter {
 						color: style.lineStringColor,
 						width: style.lineStringWidth,
 					}),
+					text: this.getText(style),
 				});
 			},
 			Polygon: (feature: FeatureLike) => {
@@ -152,6 +191,7 @@ export class TerraDrawOpenLayersAdapter extends TerraDrawBaseAdapter {
 					fill: new this._lib.Fill({
 						color: `rgba(${r},${g},${b},${style.polygonFillOpacity})`,
 					}),
+					text: this.getText(style),
 				});
 			},
 		}[key](feature);
@@ -15,6 +15,17 @@ export type NumericStyling =
 	| number
 	| ((feature: GeoJSONStoreFeatures) => number);
 
+export type StringStyling =
+	| string
+	| ((feature: GeoJSONStoreFeatures) => string);
+
+// An offset in pixels, as [x, y]
+export type PixelOffset = [number, number];
+
+export type PixelOffsetStyling =
+	| PixelOffset
+	| ((feature: GeoJSONStoreFeatures) => PixelOffset);
+
 export interface TerraDrawAdapterStyling {
 	pointColor: HexColor;
 	pointWidth: number;
@@ -27,6 +38,12 @@ export interface TerraDrawAdapterStyling {
 	lineStringWidth: number;
 	lineStringColor: HexColor;
 	zIndex: number;
+	// Labels are only rendered for features that have labelText
+	labelText?: string;
+	labelColor?: HexColor;
+	labelSize?: number;
+	labelHaloColor?: HexColor;
+	labelOffset?: PixelOffset;
 }
 
 export type CartesianPoint = { x: number; y: number };
@@ -45,6 +62,27 @@ export interface TerraDrawMouseEvent {
 	heldKeys: string[];
 }
 
+// Two finger gestures on touch devices, where the position is the point
+// between the two fingers and the scale and rotation are the changes since
+// the last gesture event
+export interface TerraDrawGestureEvent {
+	lng: number;
+	lat: number;
+	containerX: number;
+	containerY: number;
+	// The ratio of the distance between the fingers to the last distance
+	scale: number;
+	// The change in the angle between the fingers in degrees clockwise
+	rotation: number;
+	heldKeys: string[];
+}
+
+// A right click, or a long press on touch devices, with the features
+// under the pointer so that apps can build menus for them
+export interface TerraDrawContextMenuEvent extends TerraDrawMouseEvent {
+	features: GeoJSONStoreFeatures[];
+}
+
 export interface TerraDrawKeyboardEvent {
 	key: string;
 	heldKeys: string[];
@@ -75,6 +113,14 @@ export type Projection = "web-mercator" | "globe";
 
 export type OnFinishContext = { mode: string; action: string };
 
+export type SnappingTarget = {
+	// Which features can be snapped to, i.e. those of certain modes. When
+	// not provided the features of any mode can be snapped to
+	filter?: (feature: GeoJSONStoreFeatures) => boolean;
+	// How close in pixels the cursor has to be to snap, defaults to the pointer distance
+	tolerance?: number;
+};
+
 export interface TerraDrawModeRegisterConfig {
 	mode: string;
 	store: GeoJSONStore;
@@ -87,6 +133,8 @@ export interface TerraDrawModeRegisterConfig {
 	project: Project;
 	unproject: Unproject;
 	coordinatePrecision: number;
+	// Validates a feature with the mode it belongs to, as when it is added
+	validateFeatureForMode: (feature: unknown) => ReturnType<Validation>;
 }
 
 export enum UpdateTypes {
@@ -136,6 +184,20 @@ export interface TerraDrawCallbacks {
 		event: TerraDrawMouseEvent,
 		setMapDraggability: (enabled: boolean) => void,
 	) => void;
+	onGestureStart: (
+		event: TerraDrawGestureEvent,
+		setMapDraggability: (enabled: boolean) => void,
+	) => void;
+	onGesture: (
+		event: TerraDrawGestureEvent,
+		setMapDraggability: (enabled: boolean) => void,
+	) => void;
+	onGestureEnd: (
+		event: TerraDrawGestureEvent,
+		setMapDraggability: (enabled: boolean) => void,
+	) => void;
+	onDoubleTap: (event: TerraDrawMouseEvent) => void;
+	onContextMenu: (event: TerraDrawMouseEvent) => void;
 	onClear: () => void;
 	onReady?(): void;
 }
@@ -169,9 +231,28 @@ export const SELECT_PROPERTIES = {
 	SELECTED: "selected",
 	MID_POINT: "midPoint",
 	SELECTION_POINT: "selectionPoint",
+	SELECTION_BOX: "selectionBox",
+	LOCKED: "locked",
 } as const;
 
 export const COMMON_PROPERTIES = {
 	CLOSING_POINT: "closingPoint",
 	SNAPPING_POINT: "snappingPoint",
+	MEASUREMENT_LABEL: "measurementLabel",
+	CONTROL_POINT: "controlPoint",
+	HOVERED: "hovered",
 };
+
+// Curves keep their control points and how they were densified,
+// so that they can be edited again by their control points
+export const CURVE_PROPERTIES = {
+	CONTROL_POINTS: "controlPoints",
+	CURVE_TYPE: "curveType",
+	RESOLUTION: "curveResolution",
+} as const;
+
+// Regular polygons keep their number of sides, so that
+// select mode can keep them regular when they are resized
+export const REGULAR_POLYGON_PROPERTIES = {
+	SIDES: "sides",
+} as const;
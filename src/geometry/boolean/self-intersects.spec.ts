@@ -1,5 +1,5 @@
 import { Feature, Polygon } from "geojson";
-import { selfIntersects } from "./self-intersects";
+import { segmentIntersection, selfIntersects } from "./self-intersects";
 
 describe("Geometry", () => {
 	describe("selfIntersects", () => {
@@ -137,4 +137,22 @@ describe("Geometry", () => {
 			).toBe(true);
 		});
 	});
+
+	describe("segmentIntersection", () => {
+		it("returns the intersection of two crossing segments", () => {
+			expect(
+				segmentIntersection([0, 2], [10, 2], [5, 0], [5, 10]),
+			).toStrictEqual({
+				coordinate: [5, 2],
+				fraction0: 0.5,
+				fraction1: 0.2,
+			});
+		});
+
+		it("returns undefined for segments that do not cross", () => {
+			expect(
+				segmentIntersection([0, 2], [10, 2], [5, 3], [5, 10]),
+			).toBeUndefined();
+		});
+	});
 });
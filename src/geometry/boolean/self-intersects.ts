@@ -72,19 +72,8 @@ export function selfIntersects(
 			return; // discard parallels and coincidence
 		}
 
-		let frac0;
-		let frac1;
-
-		if (end0[0] !== start0[0]) {
-			frac0 = (intersection[0] - start0[0]) / (end0[0] - start0[0]);
-		} else {
-			frac0 = (intersection[1] - start0[1]) / (end0[1] - start0[1]);
-		}
-		if (end1[0] !== start1[0]) {
-			frac1 = (intersection[0] - start1[0]) / (end1[0] - start1[0]);
-		} else {
-			frac1 = (intersection[1] - start1[1]) / (end1[1] - start1[1]);
-		}
+		const frac0 = segmentFraction(start0, end0, intersection);
+		const frac1 = segmentFraction(start1, end1, intersection);
 
 		// There are roughly three cases we need to deal with.
 		// 1. If at least one of the fracs lies outside [0,1], there is no intersection.
@@ -118,6 +107,45 @@ export function selfIntersects(
 	}
 }
 
+/**
+ * Finds the point at which two line segments intersect
+ * @param start0 - the start of the first segment
+ * @param end0 - the end of the first segment
+ * @param start1 - the start of the second segment
+ * @param end1 - the end of the second segment
+ * @returns the intersection along with how far along each segment it is (from 0 to 1), or undefined if the segments do not intersect
+ */
+export function segmentIntersection(
+	start0: Position,
+	end0: Position,
+	start1: Position,
+	end1: Position,
+): { coordinate: Position; fraction0: number; fraction1: number } | undefined {
+	const intersection = intersect(start0, end0, start1, end1);
+
+	if (intersection === null) {
+		return undefined;
+	}
+
+	const fraction0 = segmentFraction(start0, end0, intersection);
+	const fraction1 = segmentFraction(start1, end1, intersection);
+
+	if (fraction0 < 0 || fraction0 > 1 || fraction1 < 0 || fraction1 > 1) {
+		return undefined;
+	}
+
+	return { coordinate: intersection, fraction0, fraction1 };
+}
+
+// How far along a segment a point on the segment's line is, where 0 is the start and 1 the end
+function segmentFraction(start: Position, end: Position, point: Position) {
+	if (end[0] !== start[0]) {
+		return (point[0] - start[0]) / (end[0] - start[0]);
+	}
+
+	return (point[1] - start[1]) / (end[1] - start[1]);
+}
+
 function equalArrays(array1: Position, array2: Position) {
 	return array1[0] === array2[0] && array1[1] === array2[1];
 }
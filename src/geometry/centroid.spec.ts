@@ -27,4 +27,35 @@ describe("centroid", () => {
 		const result = centroid(linestring);
 		expect(result).toStrictEqual([0.5, 0.5]);
 	});
+
+	it("returns centroid for a given MultiPolygon", () => {
+		const result = centroid({
+			type: "Feature",
+			geometry: {
+				type: "MultiPolygon",
+				coordinates: [
+					[
+						[
+							[0, 0],
+							[0, 1],
+							[1, 1],
+							[1, 0],
+							[0, 0],
+						],
+					],
+					[
+						[
+							[2, 0],
+							[2, 1],
+							[3, 1],
+							[3, 0],
+							[2, 0],
+						],
+					],
+				],
+			},
+			properties: {},
+		});
+		expect(result).toStrictEqual([1.5, 0.5]);
+	});
 });
@@ -1,17 +1,35 @@
-import { Feature, LineString, Polygon, Position } from "geojson";
+import {
+	Feature,
+	LineString,
+	MultiLineString,
+	MultiPolygon,
+	Polygon,
+	Position,
+} from "geojson";
+import { getOutlineCoordinateArrays } from "./geometry-parts";
 
 // Adapter from the @turf/bearing which is MIT Licensed
 // https://github.com/Turfjs/turf/tree/master/packages/turf-centroid
 
-export function centroid(geojson: Feature<Polygon | LineString>): Position {
+export function centroid(
+	geojson: Feature<Polygon | LineString | MultiPolygon | MultiLineString>,
+): Position {
 	let xSum = 0;
 	let ySum = 0;
 	let len = 0;
 
-	const coordinates =
-		geojson.geometry.type === "Polygon"
-			? geojson.geometry.coordinates[0].slice(0, -1)
-			: geojson.geometry.coordinates;
+	// For multi geometries we use the coordinates of every part, ignoring
+	// the closing coordinate of polygon rings so it is not counted twice
+	const closed =
+		geojson.geometry.type === "Polygon" ||
+		geojson.geometry.type === "MultiPolygon";
+	const coordinates = getOutlineCoordinateArrays(geojson.geometry).reduce<
+		Position[]
+	>(
+		(allCoordinates, part) =>
+			allCoordinates.concat(closed ? part.slice(0, -1) : part),
+		[],
+	);
 
 	coordinates.forEach((coord: Position) => {
 		xSum += coord[0];
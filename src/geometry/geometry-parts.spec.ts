@@ -0,0 +1,141 @@
+import { MultiLineString, MultiPoint, MultiPolygon, Polygon } from "geojson";
+import {
+	getCoordinateArrays,
+	getGeometryParts,
+	getOutlineCoordinateArrays,
+	hasClosedRings,
+} from "./geometry-parts";
+
+describe("geometry parts", () => {
+	const ring = (offset: number) => [
+		[offset, 0],
+		[offset, 1],
+		[offset + 1, 1],
+		[offset + 1, 0],
+		[offset, 0],
+	];
+
+	const polygonWithHole: Polygon = {
+		type: "Polygon",
+		coordinates: [
+			[
+				[0, 0],
+				[0, 10],
+				[10, 10],
+				[10, 0],
+				[0, 0],
+			],
+			ring(2),
+		],
+	};
+
+	const multiPolygon: MultiPolygon = {
+		type: "MultiPolygon",
+		coordinates: [[ring(0)], [ring(2)]],
+	};
+
+	const multiLineString: MultiLineString = {
+		type: "MultiLineString",
+		coordinates: [
+			[
+				[0, 0],
+				[1, 1],
+			],
+			[
+				[2, 2],
+				[3, 3],
+			],
+		],
+	};
+
+	const multiPoint: MultiPoint = {
+		type: "MultiPoint",
+		coordinates: [
+			[0, 0],
+			[1, 1],
+		],
+	};
+
+	describe("getGeometryParts", () => {
+		it("returns single geometries as the only part", () => {
+			expect(getGeometryParts(polygonWithHole)).toStrictEqual([
+				polygonWithHole,
+			]);
+		});
+
+		it("splits multi geometries into their parts", () => {
+			expect(getGeometryParts(multiPolygon)).toStrictEqual([
+				{ type: "Polygon", coordinates: [ring(0)] },
+				{ type: "Polygon", coordinates: [ring(2)] },
+			]);
+			expect(getGeometryParts(multiLineString)).toStrictEqual([
+				{ type: "LineString", coordinates: multiLineString.coordinates[0] },
+				{ type: "LineString", coordinates: multiLineString.coordinates[1] },
+			]);
+			expect(getGeometryParts(multiPoint)).toStrictEqual([
+				{ type: "Point", coordinates: [0, 0] },
+				{ type: "Point", coordinates: [1, 1] },
+			]);
+		});
+	});
+
+	describe("getCoordinateArrays", () => {
+		it("returns every ring of every polygon", () => {
+			expect(getCoordinateArrays(multiPolygon)).toStrictEqual([
+				ring(0),
+				ring(2),
+			]);
+			expect(getCoordinateArrays(polygonWithHole)).toHaveLength(2);
+		});
+
+		it("returns arrays that update the geometry when changed", () => {
+			const geometry: MultiPolygon = JSON.parse(JSON.stringify(multiPolygon));
+
+			getCoordinateArrays(geometry)[1][0] = [5, 5];
+
+			expect(geometry.coordinates[1][0][0]).toStrictEqual([5, 5]);
+		});
+
+		it("wraps points and multi points", () => {
+			expect(
+				getCoordinateArrays({ type: "Point", coordinates: [0, 0] }),
+			).toStrictEqual([[[0, 0]]]);
+			expect(getCoordinateArrays(multiPoint)).toStrictEqual([
+				multiPoint.coordinates,
+			]);
+		});
+	});
+
+	describe("getOutlineCoordinateArrays", () => {
+		it("ignores polygon holes", () => {
+			expect(getOutlineCoordinateArrays(polygonWithHole)).toStrictEqual([
+				polygonWithHole.coordinates[0],
+			]);
+		});
+
+		it("returns the outer ring of each polygon of a multi polygon", () => {
+			expect(getOutlineCoordinateArrays(multiPolygon)).toStrictEqual([
+				ring(0),
+				ring(2),
+			]);
+		});
+
+		it("returns the lines of a multi line string", () => {
+			expect(getOutlineCoordinateArrays(multiLineString)).toStrictEqual(
+				multiLineString.coordinates,
+			);
+		});
+	});
+
+	describe("hasClosedRings", () => {
+		it("returns true for polygons and multi polygons", () => {
+			expect(hasClosedRings(polygonWithHole)).toBe(true);
+			expect(hasClosedRings(multiPolygon)).toBe(true);
+		});
+
+		it("returns false for other geometries", () => {
+			expect(hasClosedRings(multiLineString)).toBe(false);
+			expect(hasClosedRings(multiPoint)).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,86 @@
+import { LineString, Point, Polygon, Position } from "geojson";
+import { GeoJSONStoreGeometries } from "../store/store";
+
+export type SingleGeometry = Polygon | LineString | Point;
+
+/**
+ * Splits a geometry into its single parts, i.e. a MultiPolygon into Polygons. Single
+ * geometries are returned as the only part.
+ * @param geometry - the geometry to split
+ * @returns the parts of the geometry
+ */
+export function getGeometryParts(
+	geometry: GeoJSONStoreGeometries,
+): SingleGeometry[] {
+	if (geometry.type === "MultiPolygon") {
+		return geometry.coordinates.map((coordinates) => ({
+			type: "Polygon",
+			coordinates,
+		}));
+	} else if (geometry.type === "MultiLineString") {
+		return geometry.coordinates.map((coordinates) => ({
+			type: "LineString",
+			coordinates,
+		}));
+	} else if (geometry.type === "MultiPoint") {
+		return geometry.coordinates.map((coordinates) => ({
+			type: "Point",
+			coordinates,
+		}));
+	}
+
+	return [geometry];
+}
+
+/**
+ * Returns the arrays of coordinates that make up a geometry, i.e. the rings of a Polygon
+ * or the lines of a MultiLineString. The arrays are the same arrays as in the geometry
+ * so any updates to the coordinates in them are reflected in the geometry.
+ * @param geometry - the geometry to get the coordinate arrays for
+ * @returns the coordinate arrays of the geometry
+ */
+export function getCoordinateArrays(
+	geometry: GeoJSONStoreGeometries,
+): Position[][] {
+	switch (geometry.type) {
+		case "Point":
+			return [[geometry.coordinates]];
+		case "MultiPoint":
+		case "LineString":
+			return [geometry.coordinates];
+		case "MultiLineString":
+		case "Polygon":
+			return geometry.coordinates;
+		case "MultiPolygon":
+			return geometry.coordinates.reduce<Position[][]>(
+				(rings, polygon) => rings.concat(polygon),
+				[],
+			);
+	}
+}
+
+/**
+ * Returns the coordinate arrays that describe the outline of a geometry, which for
+ * polygons is the outer ring of each polygon, ignoring any holes
+ * @param geometry - the geometry to get the outlines for
+ * @returns the outline coordinate arrays of the geometry
+ */
+export function getOutlineCoordinateArrays(
+	geometry: GeoJSONStoreGeometries,
+): Position[][] {
+	if (geometry.type === "Polygon") {
+		return [geometry.coordinates[0]];
+	} else if (geometry.type === "MultiPolygon") {
+		return geometry.coordinates.map((polygon) => polygon[0]);
+	}
+
+	return getCoordinateArrays(geometry);
+}
+
+/**
+ * @param geometry - the geometry to check
+ * @returns true if the geometry is made up of closed rings, i.e. a Polygon or MultiPolygon
+ */
+export function hasClosedRings(geometry: GeoJSONStoreGeometries) {
+	return geometry.type === "Polygon" || geometry.type === "MultiPolygon";
+}
@@ -0,0 +1,46 @@
+import { getRingCoordinateIndex } from "./get-ring-coordinate-index";
+
+describe("getRingCoordinateIndex", () => {
+	const rings = [
+		[
+			[0, 0],
+			[0, 10],
+			[10, 10],
+			[10, 0],
+			[0, 0],
+		],
+		[
+			[2, 2],
+			[2, 4],
+			[4, 4],
+			[2, 2],
+		],
+	];
+
+	it("returns the index for the outer ring", () => {
+		expect(getRingCoordinateIndex(rings, 0)).toStrictEqual({
+			ring: 0,
+			index: 0,
+		});
+		expect(getRingCoordinateIndex(rings, 3)).toStrictEqual({
+			ring: 0,
+			index: 3,
+		});
+	});
+
+	it("returns the index for an inner ring", () => {
+		expect(getRingCoordinateIndex(rings, 4)).toStrictEqual({
+			ring: 1,
+			index: 0,
+		});
+		expect(getRingCoordinateIndex(rings, 6)).toStrictEqual({
+			ring: 1,
+			index: 2,
+		});
+	});
+
+	it("returns undefined for an index that is out of range", () => {
+		expect(getRingCoordinateIndex(rings, 7)).toBe(undefined);
+		expect(getRingCoordinateIndex(rings, -1)).toBe(undefined);
+	});
+});
@@ -0,0 +1,32 @@
+import { Position } from "geojson";
+
+/**
+ * Polygon coordinates (i.e. selection points and midpoints) are referred to using a single index
+ * that runs across all the rings of the polygon, starting with the outer ring, and skipping the
+ * closing coordinate of each ring. This returns the ring and the index within that ring for such an index.
+ * @param rings - the rings of the polygon
+ * @param index - the index across all the rings
+ * @returns the ring and the index within the ring, or undefined if the index is out of range
+ */
+export function getRingCoordinateIndex(
+	rings: Position[][],
+	index: number,
+): { ring: number; index: number } | undefined {
+	if (index < 0) {
+		return undefined;
+	}
+
+	let offset = 0;
+
+	for (let ring = 0; ring < rings.length; ring++) {
+		const ringLength = rings[ring].length - 1;
+
+		if (index < offset + ringLength) {
+			return { ring, index: index - offset };
+		}
+
+		offset += ringLength;
+	}
+
+	return undefined;
+}
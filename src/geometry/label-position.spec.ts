@@ -0,0 +1,70 @@
+import { labelPosition } from "./label-position";
+
+describe("labelPosition", () => {
+	it("returns the coordinate of a Point", () => {
+		expect(labelPosition({ type: "Point", coordinates: [1, 2] })).toStrictEqual(
+			[1, 2],
+		);
+	});
+
+	it("returns the first coordinate of a MultiPoint", () => {
+		expect(
+			labelPosition({
+				type: "MultiPoint",
+				coordinates: [
+					[1, 2],
+					[3, 4],
+				],
+			}),
+		).toStrictEqual([1, 2]);
+	});
+
+	it("returns the middle of the middle segment of a LineString", () => {
+		expect(
+			labelPosition({
+				type: "LineString",
+				coordinates: [
+					[0, 0],
+					[0, 2],
+					[2, 2],
+					[2, 4],
+				],
+			}),
+		).toStrictEqual([1, 2]);
+	});
+
+	it("returns the middle of the first line of a MultiLineString", () => {
+		expect(
+			labelPosition({
+				type: "MultiLineString",
+				coordinates: [
+					[
+						[0, 0],
+						[0, 2],
+					],
+					[
+						[5, 5],
+						[6, 6],
+					],
+				],
+			}),
+		).toStrictEqual([0, 1]);
+	});
+
+	it("returns the centroid of a Polygon", () => {
+		expect(
+			labelPosition({
+				type: "Polygon",
+				coordinates: [
+					[
+						[0, 0],
+						[0, 1],
+						[1, 1],
+						[1, 0],
+						[0, 0],
+					],
+				],
+			}),
+		).toStrictEqual([0.5, 0.5]);
+	});
+});
@@ -0,0 +1,34 @@
+import { Position } from "geojson";
+import { GeoJSONStoreGeometries } from "../store/store";
+import { centroid } from "./centroid";
+
+/**
+ * Gets the position to place the label of a geometry at, for adapters which
+ * can only position labels at a single point
+ * @param geometry - the geometry being labelled
+ * @returns the point itself, the middle of the middle segment of a line, or the centroid of a polygon
+ */
+export function labelPosition(geometry: GeoJSONStoreGeometries): Position {
+	if (geometry.type === "Point") {
+		return geometry.coordinates;
+	} else if (geometry.type === "MultiPoint") {
+		return geometry.coordinates[0];
+	} else if (
+		geometry.type === "LineString" ||
+		geometry.type === "MultiLineString"
+	) {
+		const line =
+			geometry.type === "LineString"
+				? geometry.coordinates
+				: geometry.coordinates[0];
+
+		// Keeping the label on the line, rather than at its centroid
+		const index = Math.max(Math.floor((line.length - 1) / 2), 0);
+		const start = line[index];
+		const end = line[Math.min(index + 1, line.length - 1)];
+
+		return [(start[0] + end[0]) / 2, (start[1] + end[1]) / 2];
+	}
+
+	return centroid({ type: "Feature", geometry, properties: {} });
+}
@@ -1,4 +1,4 @@
-import { Polygon } from "geojson";
+import { MultiPolygon, Polygon } from "geojson";
 import { earthRadius } from "../helpers";
 
 // Adapted from @turf/area is MIT Licensed licesned https://github.com/Turfjs/turf/blob/master/packages/turf-area/index.ts
@@ -16,6 +16,18 @@ export function polygonAreaSquareMeters(polygon: Polygon) {
 	return total;
 }
 
+export function geometryAreaSquareMeters(geometry: Polygon | MultiPolygon) {
+	if (geometry.type === "Polygon") {
+		return polygonAreaSquareMeters(geometry);
+	}
+
+	return geometry.coordinates.reduce(
+		(total, coordinates) =>
+			total + polygonAreaSquareMeters({ type: "Polygon", coordinates }),
+		0,
+	);
+}
+
 const FACTOR = (earthRadius * earthRadius) / 2;
 const PI_OVER_180 = Math.PI / 180;
 
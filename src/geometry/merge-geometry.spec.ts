@@ -0,0 +1,194 @@
+import { Position } from "geojson";
+import { mergeLineStrings, mergePolygons } from "./merge-geometry";
+
+const square = (x: number, y: number, size: number): Position[][] => [
+	[
+		[x, y],
+		[x + size, y],
+		[x + size, y + size],
+		[x, y + size],
+		[x, y],
+	],
+];
+
+const area = (ring: Position[]) => {
+	let total = 0;
+	for (let i = 0; i < ring.length - 1; i++) {
+		total += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+	}
+	return Math.abs(total / 2);
+};
+
+describe("mergePolygons", () => {
+	it("returns undefined for no polygons", () => {
+		expect(mergePolygons([])).toBeUndefined();
+	});
+
+	it("merges polygons that share an edge", () => {
+		const merged = mergePolygons([square(0, 0, 2), square(2, 0, 2)]);
+
+		expect(merged).toHaveLength(1);
+		expect(area(merged![0])).toBe(8);
+		expect(merged![0][0]).toStrictEqual(merged![0][merged![0].length - 1]);
+		expect(merged![0]).not.toContainEqual([1, 1]);
+	});
+
+	it("merges polygons that share part of an edge", () => {
+		const merged = mergePolygons([square(0, 0, 4), square(4, 1, 2)]);
+
+		expect(merged).toHaveLength(1);
+		expect(area(merged![0])).toBe(20);
+		expect(merged![0]).toContainEqual([4, 1]);
+		expect(merged![0]).toContainEqual([4, 3]);
+	});
+
+	it("merges polygons that overlap", () => {
+		const merged = mergePolygons([square(0, 0, 2), square(1, 1, 2)]);
+
+		expect(merged).toHaveLength(1);
+		expect(area(merged![0])).toBe(7);
+		expect(merged![0]).toContainEqual([2, 1]);
+		expect(merged![0]).toContainEqual([1, 2]);
+	});
+
+	it("returns the outer polygon when one polygon contains the other", () => {
+		const merged = mergePolygons([square(0, 0, 4), square(1, 1, 1)]);
+
+		expect(merged).toHaveLength(1);
+		expect(area(merged![0])).toBe(16);
+	});
+
+	it("merges polygons that only connect through a later polygon", () => {
+		const merged = mergePolygons([
+			square(0, 0, 2),
+			square(4, 0, 2),
+			square(2, 0, 2),
+		]);
+
+		expect(merged).toHaveLength(1);
+		expect(area(merged![0])).toBe(12);
+	});
+
+	it("creates a hole where the merged polygons surround an area", () => {
+		const merged = mergePolygons([
+			[
+				[
+					[0, 0],
+					[3, 0],
+					[3, 3],
+					[2, 3],
+					[2, 1],
+					[1, 1],
+					[1, 3],
+					[0, 3],
+					[0, 0],
+				],
+			],
+			[
+				[
+					[0, 3],
+					[3, 3],
+					[3, 4],
+					[0, 4],
+					[0, 3],
+				],
+			],
+		]);
+
+		expect(merged).toHaveLength(2);
+		expect(area(merged![0])).toBe(12);
+		expect(area(merged![1])).toBe(2);
+	});
+
+	it("keeps the holes of the polygons being merged", () => {
+		const merged = mergePolygons([
+			[
+				square(0, 0, 4)[0],
+				[
+					[1, 1],
+					[1, 2],
+					[2, 2],
+					[2, 1],
+					[1, 1],
+				],
+			],
+			square(4, 0, 4),
+		]);
+
+		expect(merged).toHaveLength(2);
+		expect(area(merged![0])).toBe(32);
+		expect(area(merged![1])).toBe(1);
+	});
+
+	it("returns undefined for polygons that do not touch", () => {
+		expect(mergePolygons([square(0, 0, 1), square(2, 2, 1)])).toBeUndefined();
+	});
+
+	it("returns undefined for polygons that only touch at a corner", () => {
+		expect(mergePolygons([square(0, 0, 1), square(1, 1, 1)])).toBeUndefined();
+	});
+});
+
+describe("mergeLineStrings", () => {
+	it("returns undefined for no linestrings", () => {
+		expect(mergeLineStrings([])).toBeUndefined();
+	});
+
+	it("joins linestrings end to start", () => {
+		expect(
+			mergeLineStrings([
+				[
+					[0, 0],
+					[1, 1],
+				],
+				[
+					[1, 1],
+					[2, 1],
+				],
+			]),
+		).toStrictEqual([
+			[0, 0],
+			[1, 1],
+			[2, 1],
+		]);
+	});
+
+	it("reverses linestrings so that they join", () => {
+		expect(
+			mergeLineStrings([
+				[
+					[1, 1],
+					[2, 1],
+				],
+				[
+					[3, 3],
+					[2, 1],
+				],
+				[
+					[1, 1],
+					[0, 0],
+				],
+			]),
+		).toStrictEqual([
+			[0, 0],
+			[1, 1],
+			[2, 1],
+			[3, 3],
+		]);
+	});
+
+	it("returns undefined for linestrings that do not connect", () => {
+		expect(
+			mergeLineStrings([
+				[
+					[0, 0],
+					[1, 1],
+				],
+				[
+					[2, 2],
+					[3, 3],
+				],
+			]),
+		).toBeUndefined();
+	});
+});
@@ -0,0 +1,373 @@
+import { Position } from "geojson";
+import { segmentIntersection } from "./boolean/self-intersects";
+import { pointInPolygon } from "./boolean/point-in-polygon";
+import { coordinatesIdentical } from "./coordinates-identical";
+
+type Edge = { start: Position; end: Position };
+
+// Tolerance used when deciding if a vertex lies on an edge of another polygon
+const ON_EDGE_TOLERANCE = 1e-9;
+
+function coordinateKey(coordinate: Position) {
+	return `${coordinate[0]},${coordinate[1]}`;
+}
+
+function edgeKey(start: Position, end: Position) {
+	return `${coordinateKey(start)}|${coordinateKey(end)}`;
+}
+
+// Positive for anticlockwise rings and negative for clockwise rings
+function signedArea(ring: Position[]) {
+	let area = 0;
+	for (let i = 0; i < ring.length - 1; i++) {
+		area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+	}
+	return area / 2;
+}
+
+// Outer rings are made anticlockwise and holes clockwise, so the inside
+// of the polygon is always on the left of each of its edges
+function orientRings(rings: Position[][]) {
+	return rings.map((ring, i) => {
+		const anticlockwise = signedArea(ring) > 0;
+		const shouldBeAnticlockwise = i === 0;
+		return anticlockwise === shouldBeAnticlockwise ? ring : [...ring].reverse();
+	});
+}
+
+// How far along an edge a vertex sits if it lies on the edge, excluding its ends
+function fractionOnEdge(vertex: Position, start: Position, end: Position) {
+	const dx = end[0] - start[0];
+	const dy = end[1] - start[1];
+	const lengthSquared = dx * dx + dy * dy;
+
+	if (lengthSquared === 0) {
+		return undefined;
+	}
+
+	const cross = (vertex[0] - start[0]) * dy - (vertex[1] - start[1]) * dx;
+	if (Math.abs(cross) / lengthSquared > ON_EDGE_TOLERANCE) {
+		return undefined;
+	}
+
+	const fraction =
+		((vertex[0] - start[0]) * dx + (vertex[1] - start[1]) * dy) / lengthSquared;
+
+	return fraction > 0 && fraction < 1 ? fraction : undefined;
+}
+
+// Splits the edges of both polygons wherever they cross or touch each other,
+// so that any edges the polygons share end up identical
+function splitEdges(rings: Position[][], otherRings: Position[][]) {
+	const toEdges = (ringsToSplit: Position[][]) =>
+		ringsToSplit.reduce<
+			(Edge & { splits: { fraction: number; coordinate: Position }[] })[]
+		>((edges, ring) => {
+			for (let i = 0; i < ring.length - 1; i++) {
+				edges.push({ start: ring[i], end: ring[i + 1], splits: [] });
+			}
+			return edges;
+		}, []);
+
+	const edges = toEdges(rings);
+	const otherEdges = toEdges(otherRings);
+
+	edges.forEach((edge) => {
+		otherEdges.forEach((otherEdge) => {
+			const intersection = segmentIntersection(
+				edge.start,
+				edge.end,
+				otherEdge.start,
+				otherEdge.end,
+			);
+
+			// The same coordinate is added to both edges so they match exactly
+			if (intersection) {
+				edge.splits.push({
+					fraction: intersection.fraction0,
+					coordinate: intersection.coordinate,
+				});
+				otherEdge.splits.push({
+					fraction: intersection.fraction1,
+					coordinate: intersection.coordinate,
+				});
+			}
+
+			const vertexFraction = fractionOnEdge(
+				otherEdge.start,
+				edge.start,
+				edge.end,
+			);
+			if (vertexFraction !== undefined) {
+				edge.splits.push({
+					fraction: vertexFraction,
+					coordinate: otherEdge.start,
+				});
+			}
+
+			const otherVertexFraction = fractionOnEdge(
+				edge.start,
+				otherEdge.start,
+				otherEdge.end,
+			);
+			if (otherVertexFraction !== undefined) {
+				otherEdge.splits.push({
+					fraction: otherVertexFraction,
+					coordinate: edge.start,
+				});
+			}
+		});
+	});
+
+	const toSplitEdges = (
+		edgesToSplit: (Edge & {
+			splits: { fraction: number; coordinate: Position }[];
+		})[],
+	) =>
+		edgesToSplit.reduce<Edge[]>((split, { start, end, splits }) => {
+			const coordinates = [
+				start,
+				...splits
+					.sort((a, b) => a.fraction - b.fraction)
+					.map(({ coordinate }) => coordinate),
+				end,
+			];
+
+			for (let i = 0; i < coordinates.length - 1; i++) {
+				if (!coordinatesIdentical(coordinates[i], coordinates[i + 1])) {
+					split.push({ start: coordinates[i], end: coordinates[i + 1] });
+				}
+			}
+
+			return split;
+		}, []);
+
+	return [toSplitEdges(edges), toSplitEdges(otherEdges)];
+}
+
+// The angle turned when moving from one edge on to the next, where left turns are positive
+function turnAngle(incoming: Edge, outgoing: Edge) {
+	const incomingAngle = Math.atan2(
+		incoming.end[1] - incoming.start[1],
+		incoming.end[0] - incoming.start[0],
+	);
+	const outgoingAngle = Math.atan2(
+		outgoing.end[1] - outgoing.start[1],
+		outgoing.end[0] - outgoing.start[0],
+	);
+
+	let angle = outgoingAngle - incomingAngle;
+	while (angle <= -Math.PI) angle += 2 * Math.PI;
+	while (angle > Math.PI) angle -= 2 * Math.PI;
+	return angle;
+}
+
+// Joins edges together end to start to form closed rings
+function stitchRings(edges: Edge[]) {
+	const outgoing: Record<string, Edge[]> = {};
+	edges.forEach((edge) => {
+		const key = coordinateKey(edge.start);
+		outgoing[key] = outgoing[key] || [];
+		outgoing[key].push(edge);
+	});
+
+	const used = new Set<Edge>();
+	const rings: Position[][] = [];
+
+	edges.forEach((first) => {
+		if (used.has(first)) {
+			return;
+		}
+
+		const ring: Position[] = [first.start];
+		let current = first;
+		used.add(current);
+
+		while (!coordinatesIdentical(current.end, first.start)) {
+			const candidates = (outgoing[coordinateKey(current.end)] || []).filter(
+				(edge) => !used.has(edge),
+			);
+
+			if (!candidates.length) {
+				// The edges do not form a closed ring
+				return;
+			}
+
+			// Where rings touch at a vertex we take the sharpest left turn, which
+			// keeps to the inside of the ring so that the rings stay separate
+			const incoming = current;
+			const next = candidates.reduce((best, candidate) =>
+				turnAngle(incoming, candidate) > turnAngle(incoming, best)
+					? candidate
+					: best,
+			);
+
+			ring.push(next.start);
+			used.add(next);
+			current = next;
+		}
+
+		if (ring.length >= 3) {
+			rings.push([...ring, ring[0]]);
+		}
+	});
+
+	return rings;
+}
+
+function unionPolygon(
+	polygon: Position[][],
+	other: Position[][],
+): Position[][] | undefined {
+	const rings = orientRings(polygon);
+	const otherRings = orientRings(other);
+
+	const [edges, otherEdges] = splitEdges(rings, otherRings);
+
+	const edgeKeys = new Set(edges.map(({ start, end }) => edgeKey(start, end)));
+	const otherEdgeKeys = new Set(
+		otherEdges.map(({ start, end }) => edgeKey(start, end)),
+	);
+
+	const midpoint = ({ start, end }: Edge) => [
+		(start[0] + end[0]) / 2,
+		(start[1] + end[1]) / 2,
+	];
+
+	const kept: Edge[] = [];
+
+	edges.forEach((edge) => {
+		// Edges shared in opposite directions are where the polygons are adjacent,
+		// so they become part of the inside of the merged polygon
+		if (otherEdgeKeys.has(edgeKey(edge.end, edge.start))) {
+			return;
+		}
+
+		// Edges shared in the same direction are where the polygons overlap
+		// along their boundary, so only one of them needs to be kept
+		if (
+			otherEdgeKeys.has(edgeKey(edge.start, edge.end)) ||
+			!pointInPolygon(midpoint(edge), otherRings)
+		) {
+			kept.push(edge);
+		}
+	});
+
+	otherEdges.forEach((edge) => {
+		if (
+			edgeKeys.has(edgeKey(edge.end, edge.start)) ||
+			edgeKeys.has(edgeKey(edge.start, edge.end))
+		) {
+			return;
+		}
+
+		if (!pointInPolygon(midpoint(edge), rings)) {
+			kept.push(edge);
+		}
+	});
+
+	const stitched = stitchRings(kept);
+	const outers = stitched.filter((ring) => signedArea(ring) > 0);
+	const holes = stitched.filter((ring) => signedArea(ring) < 0);
+
+	// If there is more than one outer ring the polygons do not touch
+	if (outers.length !== 1) {
+		return undefined;
+	}
+
+	return [
+		outers[0],
+		...holes.filter((hole) => pointInPolygon(hole[0], [outers[0]])),
+	];
+}
+
+/**
+ * Merges polygons that overlap or are adjacent to each other into a single polygon
+ * @param polygons - the rings of each of the polygons to merge
+ * @returns the rings of the merged polygon, or undefined if the polygons do not all connect
+ */
+export function mergePolygons(
+	polygons: Position[][][],
+): Position[][] | undefined {
+	if (!polygons.length) {
+		return undefined;
+	}
+
+	let [merged, ...remaining] = polygons;
+
+	// Polygons may only connect to the rest through polygons later in the
+	// list, so we keep making passes until nothing more can be merged
+	while (remaining.length) {
+		const unmerged: Position[][][] = [];
+
+		remaining.forEach((polygon) => {
+			const union = unionPolygon(merged, polygon);
+			if (union) {
+				merged = union;
+			} else {
+				unmerged.push(polygon);
+			}
+		});
+
+		if (unmerged.length === remaining.length) {
+			return undefined;
+		}
+
+		remaining = unmerged;
+	}
+
+	return merged;
+}
+
+/**
+ * Joins linestrings that connect end to end into a single linestring. The linestrings
+ * are reversed where needed to join them.
+ * @param lineStrings - the coordinates of each of the linestrings to join
+ * @returns the coordinates of the joined linestring, or undefined if the linestrings do not all connect
+ */
+export function mergeLineStrings(
+	lineStrings: Position[][],
+): Position[] | undefined {
+	if (!lineStrings.length) {
+		return undefined;
+	}
+
+	let [merged, ...remaining] = lineStrings;
+
+	while (remaining.length) {
+		const start = merged[0];
+		const end = merged[merged.length - 1];
+
+		const index = remaining.findIndex((lineString) => {
+			const lineStart = lineString[0];
+			const lineEnd = lineString[lineString.length - 1];
+			return [start, end].some(
+				(coordinate) =>
+					coordinatesIdentical(coordinate, lineStart) ||
+					coordinatesIdentical(coordinate, lineEnd),
+			);
+		});
+
+		if (index === -1) {
+			return undefined;
+		}
+
+		const lineString = remaining[index];
+		const lineStart = lineString[0];
+		const lineEnd = lineString[lineString.length - 1];
+
+		if (coordinatesIdentical(end, lineStart)) {
+			merged = [...merged, ...lineString.slice(1)];
+		} else if (coordinatesIdentical(end, lineEnd)) {
+			merged = [...merged, ...[...lineString].reverse().slice(1)];
+		} else if (coordinatesIdentical(start, lineEnd)) {
+			merged = [...lineString.slice(0, -1), ...merged];
+		} else {
+			merged = [...[...lineString].reverse().slice(0, -1), ...merged];
+		}
+
+		remaining = remaining.filter((_, i) => i !== index);
+	}
+
+	return merged;
+}
@@ -0,0 +1,159 @@
+import { haversineDistanceKilometers } from "../measure/haversine-distance";
+import { lngLatToWebMercatorXY } from "../project/web-mercator";
+import { arc, arcWebMercator } from "./create-arc";
+
+describe("Geometry", () => {
+	describe("arc", () => {
+		it("should generate a GeoJSON LineString Feature", () => {
+			const result = arc({
+				start: [0, 0],
+				middle: [1, 1],
+				end: [2, 0],
+				coordinatePrecision: 9,
+			});
+			expect(result.type).toBe("Feature");
+			expect(result.geometry.type).toBe("LineString");
+		});
+
+		it("should start and end at the start and end coordinates", () => {
+			const result = arc({
+				start: [0, 0],
+				middle: [1, 1],
+				end: [2, 0],
+				coordinatePrecision: 9,
+			});
+			const coordinates = result.geometry.coordinates;
+			expect(coordinates[0]).toEqual([0, 0]);
+			expect(coordinates[coordinates.length - 1]).toEqual([2, 0]);
+		});
+
+		it("should generate the correct number of coordinates", () => {
+			const result = arc({
+				start: [0, 0],
+				middle: [1, 1],
+				end: [2, 0],
+				coordinatePrecision: 9,
+				steps: 10,
+			});
+			expect(result.geometry.coordinates).toHaveLength(11);
+		});
+
+		it("should keep every coordinate the same distance from the center of the arc", () => {
+			const result = arc({
+				start: [0, 0],
+				middle: [1, 1],
+				end: [2, 0],
+				coordinatePrecision: 9,
+			});
+
+			// The arc is symmetrical, so the middle coordinate of the arc is opposite the center
+			const coordinates = result.geometry.coordinates;
+			const distances = coordinates.map((coordinate) =>
+				haversineDistanceKilometers(coordinate, coordinates[32]),
+			);
+
+			expect(distances[0]).toBeCloseTo(distances[64], 3);
+			expect(distances[16]).toBeCloseTo(distances[48], 3);
+		});
+
+		it("should pass close to the middle coordinate", () => {
+			const result = arc({
+				start: [0, 0],
+				middle: [1, 1],
+				end: [2, 0],
+				coordinatePrecision: 9,
+			});
+
+			const closest = Math.min(
+				...result.geometry.coordinates.map((coordinate) =>
+					haversineDistanceKilometers(coordinate, [1, 1]),
+				),
+			);
+			expect(closest).toBeLessThan(1);
+		});
+
+		it("should go the long way round if the middle coordinate requires it", () => {
+			const result = arc({
+				start: [0, 0],
+				middle: [1, -0.2],
+				end: [0.1, 0.1],
+				coordinatePrecision: 9,
+			});
+
+			const lngs = result.geometry.coordinates.map(([lng]) => lng);
+			expect(Math.max(...lngs)).toBeGreaterThan(1);
+		});
+
+		it("should return the coordinates if any are the same", () => {
+			const result = arc({
+				start: [0, 0],
+				middle: [0, 0],
+				end: [2, 0],
+				coordinatePrecision: 9,
+			});
+			expect(result.geometry.coordinates).toEqual([
+				[0, 0],
+				[0, 0],
+				[2, 0],
+			]);
+		});
+	});
+
+	describe("arcWebMercator", () => {
+		it("should start and end at the start and end coordinates", () => {
+			const result = arcWebMercator({
+				start: [0, 0],
+				middle: [1, 1],
+				end: [2, 0],
+				coordinatePrecision: 9,
+			});
+			const coordinates = result.geometry.coordinates;
+			expect(coordinates[0]).toEqual([0, 0]);
+			expect(coordinates[coordinates.length - 1]).toEqual([2, 0]);
+			expect(coordinates).toHaveLength(65);
+		});
+
+		it("should be circular in web mercator", () => {
+			const result = arcWebMercator({
+				start: [0, 0],
+				middle: [1, 1],
+				end: [2, 0],
+				coordinatePrecision: 9,
+			});
+
+			// The circle through (0, 0), (1, 1) and (2, 0) in web mercator has its
+			// center on the line between (0, 0) and (2, 0), at (1, y)
+			const points = result.geometry.coordinates.map(([lng, lat]) =>
+				lngLatToWebMercatorXY(lng, lat),
+			);
+			const start = points[0];
+			const middle = lngLatToWebMercatorXY(1, 1);
+			const centerX = lngLatToWebMercatorXY(1, 0).x;
+			const centerY =
+				(Math.pow(middle.x - centerX, 2) +
+					Math.pow(middle.y, 2) -
+					Math.pow(start.x - centerX, 2)) /
+				(2 * middle.y);
+
+			const radius = Math.hypot(start.x - centerX, start.y - centerY);
+
+			points.forEach(({ x, y }) => {
+				expect(Math.hypot(x - centerX, y - centerY) / radius).toBeCloseTo(1, 6);
+			});
+		});
+
+		it("should return the coordinates if they are in a line", () => {
+			const result = arcWebMercator({
+				start: [0, 0],
+				middle: [1, 0],
+				end: [2, 0],
+				coordinatePrecision: 9,
+			});
+			expect(result.geometry.coordinates).toEqual([
+				[0, 0],
+				[1, 0],
+				[2, 0],
+			]);
+		});
+	});
+});
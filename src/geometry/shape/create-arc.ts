@@ -0,0 +1,216 @@
+import { Feature, LineString, Position } from "geojson";
+import { degreesToRadians, radiansToDegrees } from "../helpers";
+import { limitPrecision } from "../limit-decimal-precision";
+import {
+	lngLatToWebMercatorXY,
+	webMercatorXYToLngLat,
+} from "../project/web-mercator";
+
+type Vector = [number, number, number];
+
+// Returns the angle to sweep from the start to the end of the arc, which is
+// positive if the arc goes anti-clockwise through the middle and negative if clockwise
+function getSweep(startAngle: number, middleAngle: number, endAngle: number) {
+	const normalize = (angle: number) =>
+		((angle % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+
+	const toEnd = normalize(endAngle - startAngle);
+	const toMiddle = normalize(middleAngle - startAngle);
+
+	return toMiddle < toEnd ? toEnd : toEnd - 2 * Math.PI;
+}
+
+function toLineString(
+	coordinates: Position[],
+	coordinatePrecision: number,
+): Feature<LineString> {
+	return {
+		type: "Feature",
+		geometry: {
+			type: "LineString",
+			coordinates: coordinates.map(([lng, lat]) => [
+				limitPrecision(lng, coordinatePrecision),
+				limitPrecision(lat, coordinatePrecision),
+			]),
+		},
+		properties: {},
+	};
+}
+
+function toVector([lng, lat]: Position): Vector {
+	const lambda = degreesToRadians(lng);
+	const phi = degreesToRadians(lat);
+	return [
+		Math.cos(phi) * Math.cos(lambda),
+		Math.cos(phi) * Math.sin(lambda),
+		Math.sin(phi),
+	];
+}
+
+function toPosition([x, y, z]: Vector): Position {
+	return [
+		radiansToDegrees(Math.atan2(y, x)),
+		radiansToDegrees(Math.asin(Math.max(-1, Math.min(1, z)))),
+	];
+}
+
+const dot = (a: Vector, b: Vector) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+const cross = (a: Vector, b: Vector): Vector => [
+	a[1] * b[2] - a[2] * b[1],
+	a[2] * b[0] - a[0] * b[2],
+	a[0] * b[1] - a[1] * b[0],
+];
+
+const subtract = (a: Vector, b: Vector): Vector => [
+	a[0] - b[0],
+	a[1] - b[1],
+	a[2] - b[2],
+];
+
+const scale = (a: Vector, factor: number): Vector => [
+	a[0] * factor,
+	a[1] * factor,
+	a[2] * factor,
+];
+
+const normalize = (a: Vector): Vector => scale(a, 1 / Math.sqrt(dot(a, a)));
+
+/**
+ * Creates an arc on the surface of the earth which starts at the start coordinate,
+ * passes through the middle coordinate and ends at the end coordinate. Coordinates
+ * on the same great circle give a great circle arc, and if any of the coordinates are
+ * the same a LineString through the three coordinates is returned.
+ * @param options.start - the coordinate the arc starts at
+ * @param options.middle - a coordinate the arc passes through
+ * @param options.end - the coordinate the arc ends at
+ * @param options.coordinatePrecision - the number of decimal places of the coordinates
+ * @param options.steps - the number of segments in the arc
+ * @returns a LineString feature of the arc
+ */
+export function arc(options: {
+	start: Position;
+	middle: Position;
+	end: Position;
+	coordinatePrecision: number;
+	steps?: number;
+}): Feature<LineString> {
+	const { start, middle, end, coordinatePrecision } = options;
+	const steps = options.steps ? options.steps : 64;
+
+	const a = toVector(start);
+	const b = toVector(middle);
+	const c = toVector(end);
+
+	// The three coordinates lie on a circle where a plane cuts the sphere,
+	// and the center of that circle on the sphere is the normal of the plane
+	const normal = cross(subtract(b, a), subtract(c, a));
+	const normalLength = Math.sqrt(dot(normal, normal));
+
+	if (normalLength < 1e-15) {
+		return toLineString([start, middle, end], coordinatePrecision);
+	}
+
+	let axis = scale(normal, 1 / normalLength);
+	if (dot(axis, a) < 0) {
+		axis = scale(axis, -1);
+	}
+
+	const cosRadius = dot(axis, a);
+	const sinRadius = Math.sqrt(Math.max(0, 1 - cosRadius * cosRadius));
+
+	// Basis of the plane of the circle, used to measure the angle of each coordinate
+	const u = normalize(subtract(a, scale(axis, cosRadius)));
+	const v = cross(axis, u);
+	const angle = (point: Vector) => Math.atan2(dot(point, v), dot(point, u));
+
+	const sweep = getSweep(0, angle(b), angle(c));
+
+	const coordinates: Position[] = [];
+	for (let i = 0; i <= steps; i++) {
+		const theta = (sweep * i) / steps;
+		const point: Vector = [0, 1, 2].map(
+			(axisIndex) =>
+				cosRadius * axis[axisIndex] +
+				sinRadius *
+					(Math.cos(theta) * u[axisIndex] + Math.sin(theta) * v[axisIndex]),
+		) as Vector;
+		coordinates.push(toPosition(point));
+	}
+
+	// Ensure the arc starts and ends exactly at the given coordinates
+	coordinates[0] = start;
+	coordinates[coordinates.length - 1] = end;
+
+	return toLineString(coordinates, coordinatePrecision);
+}
+
+/**
+ * Creates an arc which is circular in the web mercator projection, starting at the start
+ * coordinate, passing through the middle coordinate and ending at the end coordinate. If the
+ * coordinates are in a line a LineString through the three coordinates is returned.
+ * @param options.start - the coordinate the arc starts at
+ * @param options.middle - a coordinate the arc passes through
+ * @param options.end - the coordinate the arc ends at
+ * @param options.coordinatePrecision - the number of decimal places of the coordinates
+ * @param options.steps - the number of segments in the arc
+ * @returns a LineString feature of the arc
+ */
+export function arcWebMercator(options: {
+	start: Position;
+	middle: Position;
+	end: Position;
+	coordinatePrecision: number;
+	steps?: number;
+}): Feature<LineString> {
+	const { start, middle, end, coordinatePrecision } = options;
+	const steps = options.steps ? options.steps : 64;
+
+	const a = lngLatToWebMercatorXY(start[0], start[1]);
+	const b = lngLatToWebMercatorXY(middle[0], middle[1]);
+	const c = lngLatToWebMercatorXY(end[0], end[1]);
+
+	// Work relative to the start, as web mercator meters are large numbers
+	const bx = b.x - a.x;
+	const by = b.y - a.y;
+	const cx = c.x - a.x;
+	const cy = c.y - a.y;
+
+	const determinant = 2 * (bx * cy - by * cx);
+	const size = Math.max(Math.abs(bx), Math.abs(by), Math.abs(cx), Math.abs(cy));
+
+	if (size === 0 || Math.abs(determinant) < size * size * 1e-9) {
+		return toLineString([start, middle, end], coordinatePrecision);
+	}
+
+	const bSquared = bx * bx + by * by;
+	const cSquared = cx * cx + cy * cy;
+
+	const center = {
+		x: a.x + (cy * bSquared - by * cSquared) / determinant,
+		y: a.y + (bx * cSquared - cx * bSquared) / determinant,
+	};
+
+	const radius = Math.hypot(a.x - center.x, a.y - center.y);
+	const angle = (point: { x: number; y: number }) =>
+		Math.atan2(point.y - center.y, point.x - center.x);
+
+	const startAngle = angle(a);
+	const sweep = getSweep(startAngle, angle(b), angle(c));
+
+	const coordinates: Position[] = [];
+	for (let i = 0; i <= steps; i++) {
+		const theta = startAngle + (sweep * i) / steps;
+		const { lng, lat } = webMercatorXYToLngLat(
+			center.x + radius * Math.cos(theta),
+			center.y + radius * Math.sin(theta),
+		);
+		coordinates.push([lng, lat]);
+	}
+
+	// Ensure the arc starts and ends exactly at the given coordinates
+	coordinates[0] = start;
+	coordinates[coordinates.length - 1] = end;
+
+	return toLineString(coordinates, coordinatePrecision);
+}
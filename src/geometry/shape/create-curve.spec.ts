@@ -0,0 +1,137 @@
+import { curve } from "./create-curve";
+
+describe("Geometry", () => {
+	describe("curve", () => {
+		const controlPoints = [
+			[0, 0],
+			[1, 1],
+			[2, 0],
+			[3, 1],
+		];
+
+		it("returns copies of the control points when there are fewer than two", () => {
+			const result = curve({
+				controlPoints: [[0, 0]],
+				type: "catmull-rom",
+				resolution: 16,
+				closed: false,
+				coordinatePrecision: 9,
+			});
+
+			expect(result).toStrictEqual([[0, 0]]);
+		});
+
+		describe("catmull-rom", () => {
+			it("passes through every control point", () => {
+				const result = curve({
+					controlPoints,
+					type: "catmull-rom",
+					resolution: 8,
+					closed: false,
+					coordinatePrecision: 9,
+				});
+
+				controlPoints.forEach((controlPoint, index) => {
+					expect(result[index * 8][0]).toBeCloseTo(controlPoint[0], 6);
+					expect(result[index * 8][1]).toBeCloseTo(controlPoint[1], 6);
+				});
+			});
+
+			it("creates the resolution number of coordinates between each pair of control points", () => {
+				const result = curve({
+					controlPoints,
+					type: "catmull-rom",
+					resolution: 8,
+					closed: false,
+					coordinatePrecision: 9,
+				});
+
+				expect(result).toHaveLength(3 * 8 + 1);
+			});
+
+			it("creates a closed ring", () => {
+				const result = curve({
+					controlPoints: controlPoints.slice(0, 3),
+					type: "catmull-rom",
+					resolution: 8,
+					closed: true,
+					coordinatePrecision: 9,
+				});
+
+				expect(result).toHaveLength(3 * 8 + 1);
+				expect(result[0]).toStrictEqual(result[result.length - 1]);
+			});
+		});
+
+		describe("bezier", () => {
+			it("passes through the first and last control points only", () => {
+				const result = curve({
+					controlPoints,
+					type: "bezier",
+					resolution: 8,
+					closed: false,
+					coordinatePrecision: 9,
+				});
+
+				expect(result[0]).toStrictEqual([0, 0]);
+				expect(result[result.length - 1][0]).toBeCloseTo(3, 6);
+				expect(result[result.length - 1][1]).toBeCloseTo(1, 6);
+
+				// The curve is pulled towards the second control point rather than passing through it
+				expect(
+					result.some(
+						([lng, lat]) =>
+							Math.abs(lng - 1) < 0.000001 && Math.abs(lat - 1) < 0.000001,
+					),
+				).toBe(false);
+			});
+
+			it("creates a closed ring", () => {
+				const result = curve({
+					controlPoints: controlPoints.slice(0, 3),
+					type: "bezier",
+					resolution: 8,
+					closed: true,
+					coordinatePrecision: 9,
+				});
+
+				expect(result[0]).toStrictEqual(result[result.length - 1]);
+			});
+		});
+
+		it("limits the precision of the coordinates", () => {
+			const result = curve({
+				controlPoints,
+				type: "catmull-rom",
+				resolution: 8,
+				closed: false,
+				coordinatePrecision: 3,
+			});
+
+			result.forEach(([lng, lat]) => {
+				expect(lng).toBe(Number(lng.toFixed(3)));
+				expect(lat).toBe(Number(lat.toFixed(3)));
+			});
+		});
+
+		it("removes consecutive identical coordinates", () => {
+			const result = curve({
+				controlPoints: [
+					[0, 0],
+					[0, 0],
+					[1, 1],
+				],
+				type: "catmull-rom",
+				resolution: 8,
+				closed: false,
+				coordinatePrecision: 9,
+			});
+
+			result.forEach((coordinate, index) => {
+				if (index > 0) {
+					expect(coordinate).not.toStrictEqual(result[index - 1]);
+				}
+			});
+		});
+	});
+});
@@ -0,0 +1,145 @@
+import { Position } from "geojson";
+import { CartesianPoint } from "../../common";
+import { coordinatesIdentical } from "../coordinates-identical";
+import { limitPrecision } from "../limit-decimal-precision";
+import {
+	lngLatToWebMercatorXY,
+	webMercatorXYToLngLat,
+} from "../project/web-mercator";
+
+export type CurveType = "catmull-rom" | "bezier";
+
+// A uniform Catmull-Rom spline, which passes through every control point. Open curves
+// repeat their first and last control points so that the curve reaches both ends.
+function catmullRom(
+	points: CartesianPoint[],
+	resolution: number,
+	closed: boolean,
+) {
+	const count = points.length;
+	const getPoint = (index: number) =>
+		closed
+			? points[(index + count) % count]
+			: points[Math.min(Math.max(index, 0), count - 1)];
+
+	const segments = closed ? count : count - 1;
+	const curve: CartesianPoint[] = [];
+
+	for (let i = 0; i < segments; i++) {
+		const p0 = getPoint(i - 1);
+		const p1 = getPoint(i);
+		const p2 = getPoint(i + 1);
+		const p3 = getPoint(i + 2);
+
+		for (let step = 0; step < resolution; step++) {
+			const t = step / resolution;
+			const t2 = t * t;
+			const t3 = t2 * t;
+
+			const interpolate = (v0: number, v1: number, v2: number, v3: number) =>
+				0.5 *
+				(2 * v1 +
+					(-v0 + v2) * t +
+					(2 * v0 - 5 * v1 + 4 * v2 - v3) * t2 +
+					(-v0 + 3 * v1 - 3 * v2 + v3) * t3);
+
+			curve.push({
+				x: interpolate(p0.x, p1.x, p2.x, p3.x),
+				y: interpolate(p0.y, p1.y, p2.y, p3.y),
+			});
+		}
+	}
+
+	curve.push(closed ? points[0] : points[count - 1]);
+
+	return curve;
+}
+
+// A single Bezier curve using all of the control points, which passes through the first and last
+// control point and is pulled towards the others. Closed curves return to the first control point.
+function bezier(points: CartesianPoint[], resolution: number, closed: boolean) {
+	const controlPoints = closed ? [...points, points[0]] : points;
+	const steps = resolution * (controlPoints.length - 1);
+	const curve: CartesianPoint[] = [];
+
+	for (let step = 0; step <= steps; step++) {
+		const t = step / steps;
+
+		// De Casteljau's algorithm
+		let reduced = controlPoints;
+		while (reduced.length > 1) {
+			const next: CartesianPoint[] = [];
+			for (let i = 0; i < reduced.length - 1; i++) {
+				next.push({
+					x: (1 - t) * reduced[i].x + t * reduced[i + 1].x,
+					y: (1 - t) * reduced[i].y + t * reduced[i + 1].y,
+				});
+			}
+			reduced = next;
+		}
+
+		curve.push(reduced[0]);
+	}
+
+	return curve;
+}
+
+/**
+ * Densifies control points into the coordinates of a smooth curve. The curve is
+ * calculated in web mercator, so that it appears smooth on the map.
+ * @param options.controlPoints - the control points of the curve
+ * @param options.type - "catmull-rom" passes through every control point, "bezier" only
+ * passes through the first and last control points
+ * @param options.resolution - the number of coordinates between each pair of control points
+ * @param options.closed - whether the curve returns to the first control point, i.e. for a polygon
+ * @param options.coordinatePrecision - the number of decimal places of the coordinates
+ * @returns the coordinates of the curve, with the first coordinate repeated at the end if it is closed
+ */
+export function curve(options: {
+	controlPoints: Position[];
+	type: CurveType;
+	resolution: number;
+	closed: boolean;
+	coordinatePrecision: number;
+}): Position[] {
+	const { controlPoints, type, closed, coordinatePrecision } = options;
+	const resolution = Math.max(1, Math.round(options.resolution));
+
+	if (controlPoints.length < 2) {
+		return controlPoints.map((coordinate) => [...coordinate]);
+	}
+
+	const points = controlPoints.map(([lng, lat]) =>
+		lngLatToWebMercatorXY(lng, lat),
+	);
+
+	const curvePoints =
+		type === "bezier"
+			? bezier(points, resolution, closed)
+			: catmullRom(points, resolution, closed);
+
+	const coordinates: Position[] = [];
+
+	curvePoints.forEach(({ x, y }) => {
+		const { lng, lat } = webMercatorXYToLngLat(x, y);
+		const coordinate = [
+			limitPrecision(lng, coordinatePrecision),
+			limitPrecision(lat, coordinatePrecision),
+		];
+
+		// Control points that are close together can produce identical coordinates
+		if (
+			coordinates.length === 0 ||
+			!coordinatesIdentical(coordinates[coordinates.length - 1], coordinate)
+		) {
+			coordinates.push(coordinate);
+		}
+	});
+
+	// Ensure the ring is exactly closed once precision has been limited
+	if (closed) {
+		coordinates[coordinates.length - 1] = [...coordinates[0]];
+	}
+
+	return coordinates;
+}
@@ -0,0 +1,99 @@
+import { haversineDistanceKilometers } from "../measure/haversine-distance";
+import { lngLatToWebMercatorXY } from "../project/web-mercator";
+import { ellipse, ellipseWebMercator } from "./create-ellipse";
+
+describe("Geometry", () => {
+	describe("ellipse", () => {
+		it("should generate a closed GeoJSON Polygon Feature", () => {
+			const result = ellipse({
+				center: [0, 0],
+				majorRadiusKilometers: 2,
+				minorRadiusKilometers: 1,
+				rotation: 0,
+				coordinatePrecision: 9,
+			});
+			expect(result.type).toBe("Feature");
+			expect(result.geometry.type).toBe("Polygon");
+
+			const coordinates = result.geometry.coordinates[0];
+			expect(coordinates).toHaveLength(65);
+			expect(coordinates[0]).toEqual(coordinates[coordinates.length - 1]);
+		});
+
+		it("should have the major and minor radii along the rotated axes", () => {
+			const result = ellipse({
+				center: [0, 0],
+				majorRadiusKilometers: 2,
+				minorRadiusKilometers: 1,
+				rotation: 90,
+				coordinatePrecision: 9,
+				steps: 4,
+			});
+
+			const [east, north, west, south] = result.geometry.coordinates[0];
+
+			// The major axis points east
+			expect(haversineDistanceKilometers([0, 0], east)).toBeCloseTo(2, 4);
+			expect(east[0]).toBeGreaterThan(0);
+			expect(haversineDistanceKilometers([0, 0], west)).toBeCloseTo(2, 4);
+			expect(haversineDistanceKilometers([0, 0], north)).toBeCloseTo(1, 4);
+			expect(north[1]).toBeGreaterThan(0);
+			expect(haversineDistanceKilometers([0, 0], south)).toBeCloseTo(1, 4);
+		});
+
+		it("should be a circle if the radii are the same", () => {
+			const result = ellipse({
+				center: [10, 50],
+				majorRadiusKilometers: 1,
+				minorRadiusKilometers: 1,
+				rotation: 30,
+				coordinatePrecision: 9,
+			});
+
+			result.geometry.coordinates[0].forEach((coordinate) => {
+				expect(haversineDistanceKilometers([10, 50], coordinate)).toBeCloseTo(
+					1,
+					4,
+				);
+			});
+		});
+	});
+
+	describe("ellipseWebMercator", () => {
+		it("should generate a closed GeoJSON Polygon Feature", () => {
+			const result = ellipseWebMercator({
+				center: [0, 0],
+				majorRadiusKilometers: 2,
+				minorRadiusKilometers: 1,
+				rotation: 0,
+				coordinatePrecision: 9,
+			});
+
+			const coordinates = result.geometry.coordinates[0];
+			expect(coordinates).toHaveLength(65);
+			expect(coordinates[0]).toEqual(coordinates[coordinates.length - 1]);
+		});
+
+		it("should have the major and minor radii along the rotated axes in web mercator", () => {
+			const result = ellipseWebMercator({
+				center: [0, 0],
+				majorRadiusKilometers: 2,
+				minorRadiusKilometers: 1,
+				rotation: 0,
+				coordinatePrecision: 9,
+				steps: 4,
+			});
+
+			const [north, west, south, east] = result.geometry.coordinates[0].map(
+				([lng, lat]) => lngLatToWebMercatorXY(lng, lat),
+			);
+
+			// The major axis points north
+			expect(north.x).toBeCloseTo(0, 3);
+			expect(north.y).toBeCloseTo(2000, 3);
+			expect(south.y).toBeCloseTo(-2000, 3);
+			expect(west.x).toBeCloseTo(-1000, 3);
+			expect(east.x).toBeCloseTo(1000, 3);
+		});
+	});
+});
@@ -0,0 +1,129 @@
+import { Feature, Polygon, Position } from "geojson";
+import { degreesToRadians } from "../helpers";
+import { limitPrecision } from "../limit-decimal-precision";
+import { destination } from "../measure/destination";
+import {
+	lngLatToWebMercatorXY,
+	webMercatorXYToLngLat,
+} from "../project/web-mercator";
+
+/**
+ * Creates an ellipse on the surface of the earth, where the distance from the center
+ * to each coordinate is measured along the great circle in that direction
+ * @param options.center - the center of the ellipse
+ * @param options.majorRadiusKilometers - the radius along the major axis
+ * @param options.minorRadiusKilometers - the radius along the minor axis
+ * @param options.rotation - the bearing of the major axis in degrees clockwise from north
+ * @param options.coordinatePrecision - the number of decimal places of the coordinates
+ * @param options.steps - the number of coordinates in the ellipse
+ * @returns a Polygon feature of the ellipse
+ */
+export function ellipse(options: {
+	center: Position;
+	majorRadiusKilometers: number;
+	minorRadiusKilometers: number;
+	rotation: number;
+	coordinatePrecision: number;
+	steps?: number;
+}): Feature<Polygon> {
+	const {
+		center,
+		majorRadiusKilometers,
+		minorRadiusKilometers,
+		rotation,
+		coordinatePrecision,
+	} = options;
+	const steps = options.steps ? options.steps : 64;
+
+	const coordinates: Position[] = [];
+	for (let i = 0; i < steps; i++) {
+		// Anti-clockwise to match the winding of circles
+		const angle = (i * -360) / steps;
+		const angleRadians = degreesToRadians(angle);
+
+		// The distance from the center of an ellipse at the given angle from the major axis
+		const radius =
+			(majorRadiusKilometers * minorRadiusKilometers) /
+			Math.sqrt(
+				Math.pow(minorRadiusKilometers * Math.cos(angleRadians), 2) +
+					Math.pow(majorRadiusKilometers * Math.sin(angleRadians), 2),
+			);
+
+		const ellipseCoordinate = destination(center, radius, rotation + angle);
+
+		coordinates.push([
+			limitPrecision(ellipseCoordinate[0], coordinatePrecision),
+			limitPrecision(ellipseCoordinate[1], coordinatePrecision),
+		]);
+	}
+	coordinates.push(coordinates[0]);
+
+	return {
+		type: "Feature",
+		geometry: { type: "Polygon", coordinates: [coordinates] },
+		properties: {},
+	};
+}
+
+/**
+ * Creates an ellipse which is elliptical in the web mercator projection
+ * @param options.center - the center of the ellipse
+ * @param options.majorRadiusKilometers - the radius along the major axis in web mercator kilometers
+ * @param options.minorRadiusKilometers - the radius along the minor axis in web mercator kilometers
+ * @param options.rotation - the bearing of the major axis in degrees clockwise from north
+ * @param options.coordinatePrecision - the number of decimal places of the coordinates
+ * @param options.steps - the number of coordinates in the ellipse
+ * @returns a Polygon feature of the ellipse
+ */
+export function ellipseWebMercator(options: {
+	center: Position;
+	majorRadiusKilometers: number;
+	minorRadiusKilometers: number;
+	rotation: number;
+	coordinatePrecision: number;
+	steps?: number;
+}): Feature<Polygon> {
+	const {
+		center,
+		majorRadiusKilometers,
+		minorRadiusKilometers,
+		rotation,
+		coordinatePrecision,
+	} = options;
+	const steps = options.steps ? options.steps : 64;
+
+	const majorRadiusMeters = majorRadiusKilometers * 1000;
+	const minorRadiusMeters = minorRadiusKilometers * 1000;
+
+	const { x, y } = lngLatToWebMercatorXY(center[0], center[1]);
+
+	// The direction of the major axis, and the direction of the minor axis which is
+	// a quarter turn anti-clockwise from it
+	const rotationRadians = degreesToRadians(rotation);
+	const major = { x: Math.sin(rotationRadians), y: Math.cos(rotationRadians) };
+	const minor = { x: -major.y, y: major.x };
+
+	const coordinates: Position[] = [];
+	for (let i = 0; i < steps; i++) {
+		const angle = (((i * 360) / steps) * Math.PI) / 180;
+		const alongMajor = majorRadiusMeters * Math.cos(angle);
+		const alongMinor = minorRadiusMeters * Math.sin(angle);
+		const { lng, lat } = webMercatorXYToLngLat(
+			x + alongMajor * major.x + alongMinor * minor.x,
+			y + alongMajor * major.y + alongMinor * minor.y,
+		);
+		coordinates.push([
+			limitPrecision(lng, coordinatePrecision),
+			limitPrecision(lat, coordinatePrecision),
+		]);
+	}
+
+	// Close the ellipse by adding the first point at the end
+	coordinates.push(coordinates[0]);
+
+	return {
+		type: "Feature",
+		geometry: { type: "Polygon", coordinates: [coordinates] },
+		properties: {},
+	};
+}
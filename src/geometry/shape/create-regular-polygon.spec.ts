@@ -0,0 +1,77 @@
+import { haversineDistanceKilometers } from "../measure/haversine-distance";
+import { lngLatToWebMercatorXY } from "../project/web-mercator";
+import {
+	regularPolygon,
+	regularPolygonWebMercator,
+} from "./create-regular-polygon";
+
+describe("Geometry", () => {
+	describe("regularPolygon", () => {
+		it("should generate a closed polygon with a coordinate for each side", () => {
+			const result = regularPolygon({
+				center: [0, 0],
+				radiusKilometers: 1,
+				sides: 6,
+				rotation: 0,
+				coordinatePrecision: 9,
+			});
+
+			const coordinates = result.geometry.coordinates[0];
+			expect(result.geometry.type).toBe("Polygon");
+			expect(coordinates).toHaveLength(7);
+			expect(coordinates[0]).toEqual(coordinates[coordinates.length - 1]);
+		});
+
+		it("should place every vertex the radius from the center", () => {
+			const result = regularPolygon({
+				center: [10, 50],
+				radiusKilometers: 10,
+				sides: 5,
+				rotation: 0,
+				coordinatePrecision: 9,
+			});
+
+			result.geometry.coordinates[0].forEach((coordinate) => {
+				expect(haversineDistanceKilometers([10, 50], coordinate)).toBeCloseTo(
+					10,
+					3,
+				);
+			});
+		});
+
+		it("should rotate the first vertex to the given bearing", () => {
+			const result = regularPolygon({
+				center: [0, 0],
+				radiusKilometers: 10,
+				sides: 4,
+				rotation: 90,
+				coordinatePrecision: 9,
+			});
+
+			const [first] = result.geometry.coordinates[0];
+			expect(first[0]).toBeGreaterThan(0);
+			expect(first[1]).toBeCloseTo(0, 6);
+		});
+	});
+
+	describe("regularPolygonWebMercator", () => {
+		it("should be regular in web mercator", () => {
+			const result = regularPolygonWebMercator({
+				center: [0, 60],
+				radiusKilometers: 10,
+				sides: 3,
+				rotation: 0,
+				coordinatePrecision: 9,
+			});
+
+			const center = lngLatToWebMercatorXY(0, 60);
+			const coordinates = result.geometry.coordinates[0];
+			expect(coordinates).toHaveLength(4);
+
+			coordinates.forEach(([lng, lat]) => {
+				const { x, y } = lngLatToWebMercatorXY(lng, lat);
+				expect(Math.hypot(x - center.x, y - center.y)).toBeCloseTo(10000, 2);
+			});
+		});
+	});
+});
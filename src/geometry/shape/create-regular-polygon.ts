@@ -0,0 +1,62 @@
+import { Feature, Polygon, Position } from "geojson";
+import { ellipse, ellipseWebMercator } from "./create-ellipse";
+
+/**
+ * Creates a regular polygon on the surface of the earth, where every vertex
+ * is the given distance from the center along the great circle in its direction
+ * @param options.center - the center of the polygon
+ * @param options.radiusKilometers - the distance from the center to each vertex
+ * @param options.sides - the number of sides of the polygon
+ * @param options.rotation - the bearing of the first vertex in degrees clockwise from north
+ * @param options.coordinatePrecision - the number of decimal places of the coordinates
+ * @returns a Polygon feature of the regular polygon
+ */
+export function regularPolygon(options: {
+	center: Position;
+	radiusKilometers: number;
+	sides: number;
+	rotation: number;
+	coordinatePrecision: number;
+}): Feature<Polygon> {
+	const { center, radiusKilometers, sides, rotation, coordinatePrecision } =
+		options;
+
+	// A regular polygon is an ellipse with equal radii and one coordinate per side
+	return ellipse({
+		center,
+		majorRadiusKilometers: radiusKilometers,
+		minorRadiusKilometers: radiusKilometers,
+		rotation,
+		coordinatePrecision,
+		steps: sides,
+	});
+}
+
+/**
+ * Creates a polygon which is regular in the web mercator projection
+ * @param options.center - the center of the polygon
+ * @param options.radiusKilometers - the distance from the center to each vertex in web mercator kilometers
+ * @param options.sides - the number of sides of the polygon
+ * @param options.rotation - the bearing of the first vertex in degrees clockwise from north
+ * @param options.coordinatePrecision - the number of decimal places of the coordinates
+ * @returns a Polygon feature of the regular polygon
+ */
+export function regularPolygonWebMercator(options: {
+	center: Position;
+	radiusKilometers: number;
+	sides: number;
+	rotation: number;
+	coordinatePrecision: number;
+}): Feature<Polygon> {
+	const { center, radiusKilometers, sides, rotation, coordinatePrecision } =
+		options;
+
+	return ellipseWebMercator({
+		center,
+		majorRadiusKilometers: radiusKilometers,
+		minorRadiusKilometers: radiusKilometers,
+		rotation,
+		coordinatePrecision,
+		steps: sides,
+	});
+}
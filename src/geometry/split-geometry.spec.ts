@@ -0,0 +1,207 @@
+import { splitLineString, splitPolygon } from "./split-geometry";
+
+describe("splitLineString", () => {
+	it("returns the original coordinates when the cutting line does not cross", () => {
+		const line = [
+			[0, 0],
+			[10, 0],
+		];
+
+		expect(
+			splitLineString(line, [
+				[0, 1],
+				[10, 1],
+			]),
+		).toStrictEqual([line]);
+	});
+
+	it("splits a line where the cutting line crosses it", () => {
+		expect(
+			splitLineString(
+				[
+					[0, 2],
+					[10, 2],
+				],
+				[
+					[5, 1],
+					[5, 3],
+				],
+			),
+		).toStrictEqual([
+			[
+				[0, 2],
+				[5, 2],
+			],
+			[
+				[5, 2],
+				[10, 2],
+			],
+		]);
+	});
+
+	it("splits a line into many parts in order along the line", () => {
+		expect(
+			splitLineString(
+				[
+					[0, 0],
+					[10, 0],
+					[10, 10],
+				],
+				[
+					[8, -1],
+					[8, 1],
+					[11, 5],
+					[9, 5],
+					[2, 1],
+					[2, -1],
+				],
+			),
+		).toHaveLength(5);
+	});
+
+	it("uses the refined intersection coordinates", () => {
+		const parts = splitLineString(
+			[
+				[0, 2],
+				[10, 2],
+			],
+			[
+				[5, 1],
+				[5, 3],
+			],
+			([lng, lat]) => [lng + 0.5, lat],
+		);
+
+		expect(parts[0][1]).toStrictEqual([5.5, 2]);
+		expect(parts[1][0]).toStrictEqual([5.5, 2]);
+	});
+});
+
+describe("splitPolygon", () => {
+	const square = [
+		[0, 0],
+		[0, 10],
+		[10, 10],
+		[10, 0],
+		[0, 0],
+	];
+
+	it("returns the original rings when the cutting line does not pass through", () => {
+		expect(
+			splitPolygon(
+				[square],
+				[
+					[-1, 5],
+					[5, 5],
+				],
+			),
+		).toStrictEqual([[square]]);
+	});
+
+	it("splits a polygon in two", () => {
+		const parts = splitPolygon(
+			[square],
+			[
+				[5, -1],
+				[5, 11],
+			],
+		);
+
+		expect(parts).toHaveLength(2);
+		expect(parts).toContainEqual([
+			[
+				[5, 10],
+				[10, 10],
+				[10, 0],
+				[5, 0],
+				[5, 10],
+			],
+		]);
+		expect(parts).toContainEqual([
+			[
+				[5, 0],
+				[0, 0],
+				[0, 10],
+				[5, 10],
+				[5, 0],
+			],
+		]);
+	});
+
+	it("splits a polygon in three when the cutting line passes through it twice", () => {
+		const parts = splitPolygon(
+			[square],
+			[
+				[3, -1],
+				[3, 11],
+				[7, 11],
+				[7, -1],
+			],
+		);
+
+		expect(parts).toHaveLength(3);
+		parts.forEach(([ring]) => {
+			expect(ring[0]).toStrictEqual(ring[ring.length - 1]);
+		});
+	});
+
+	it("splits along a cutting line with coordinates inside the polygon", () => {
+		const parts = splitPolygon(
+			[square],
+			[
+				[-1, 5],
+				[5, 8],
+				[11, 5],
+			],
+		);
+
+		expect(parts).toHaveLength(2);
+		expect(parts[0][0]).toContainEqual([5, 8]);
+		expect(parts[1][0]).toContainEqual([5, 8]);
+	});
+
+	it("keeps holes with the part that contains them", () => {
+		const hole = [
+			[1, 1],
+			[2, 1],
+			[2, 2],
+			[1, 2],
+			[1, 1],
+		];
+
+		const parts = splitPolygon(
+			[square, hole],
+			[
+				[5, -1],
+				[5, 11],
+			],
+		);
+
+		expect(parts).toHaveLength(2);
+
+		const [withHole, withoutHole] =
+			parts[0].length === 2 ? parts : [parts[1], parts[0]];
+		expect(withHole[1]).toStrictEqual(hole);
+		expect(withoutHole).toHaveLength(1);
+	});
+
+	it("does not split when the cutting line crosses a hole", () => {
+		const hole = [
+			[4, 4],
+			[6, 4],
+			[6, 6],
+			[4, 6],
+			[4, 4],
+		];
+
+		expect(
+			splitPolygon(
+				[square, hole],
+				[
+					[5, -1],
+					[5, 11],
+				],
+			),
+		).toStrictEqual([[square, hole]]);
+	});
+});
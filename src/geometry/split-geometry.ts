@@ -0,0 +1,275 @@
+import { Position } from "geojson";
+import { segmentIntersection } from "./boolean/self-intersects";
+import { pointInPolygon } from "./boolean/point-in-polygon";
+import { coordinatesIdentical } from "./coordinates-identical";
+
+/**
+ * Allows the caller to adjust where a cutting line crosses a segment, i.e. to place the
+ * crossing exactly on the segment for the current projection or to limit its precision
+ */
+export type RefineIntersection = (
+	coordinate: Position,
+	segment: [Position, Position],
+) => Position;
+
+type Crossing = {
+	// Index of the segment of the split coordinates
+	index: number;
+	fraction: number;
+	// Index of the segment of the cutting line
+	cutterIndex: number;
+	cutterFraction: number;
+	coordinate: Position;
+};
+
+function getCrossings(
+	coordinates: Position[],
+	cutter: Position[],
+	refine?: RefineIntersection,
+) {
+	const crossings: Crossing[] = [];
+
+	for (let i = 0; i < coordinates.length - 1; i++) {
+		for (let j = 0; j < cutter.length - 1; j++) {
+			const intersection = segmentIntersection(
+				coordinates[i],
+				coordinates[i + 1],
+				cutter[j],
+				cutter[j + 1],
+			);
+
+			if (!intersection) {
+				continue;
+			}
+
+			crossings.push({
+				index: i,
+				fraction: intersection.fraction0,
+				cutterIndex: j,
+				cutterFraction: intersection.fraction1,
+				coordinate: refine
+					? refine(intersection.coordinate, [
+							coordinates[i],
+							coordinates[i + 1],
+					  ])
+					: intersection.coordinate,
+			});
+		}
+	}
+
+	return crossings;
+}
+
+function pushUnique(coordinates: Position[], coordinate: Position) {
+	const last = coordinates[coordinates.length - 1];
+	if (!last || !coordinatesIdentical(last, coordinate)) {
+		coordinates.push(coordinate);
+	}
+}
+
+// Returns the coordinates with the crossings inserted in order along them
+function insertCrossings(
+	coordinates: Position[],
+	crossings: Crossing[],
+	indexKey: "index" | "cutterIndex",
+	fractionKey: "fraction" | "cutterFraction",
+) {
+	const sorted = [...crossings].sort((a, b) =>
+		a[indexKey] === b[indexKey]
+			? a[fractionKey] - b[fractionKey]
+			: a[indexKey] - b[indexKey],
+	);
+
+	const inserted: { coordinate: Position; crossing: boolean }[] = [];
+
+	coordinates.forEach((coordinate, i) => {
+		const last = inserted[inserted.length - 1];
+		if (!last || !coordinatesIdentical(last.coordinate, coordinate)) {
+			inserted.push({ coordinate, crossing: false });
+		}
+
+		sorted
+			.filter((crossing) => crossing[indexKey] === i)
+			.forEach((crossing) => {
+				const previous = inserted[inserted.length - 1];
+				if (coordinatesIdentical(previous.coordinate, crossing.coordinate)) {
+					// The cutting line crosses at an existing coordinate
+					previous.crossing = true;
+					previous.coordinate = crossing.coordinate;
+				} else {
+					inserted.push({ coordinate: crossing.coordinate, crossing: true });
+				}
+			});
+	});
+
+	return inserted;
+}
+
+/**
+ * Splits the coordinates of a LineString everywhere a cutting line crosses it
+ * @param coordinates - the coordinates of the LineString to split
+ * @param cutter - the coordinates of the cutting line
+ * @param refine - optionally adjusts the coordinates where the lines cross
+ * @returns the coordinates of each part, which is only the original coordinates if the line is not crossed
+ */
+export function splitLineString(
+	coordinates: Position[],
+	cutter: Position[],
+	refine?: RefineIntersection,
+): Position[][] {
+	const crossings = getCrossings(coordinates, cutter, refine);
+
+	if (crossings.length === 0) {
+		return [coordinates];
+	}
+
+	const parts: Position[][] = [];
+	let current: Position[] = [];
+
+	insertCrossings(coordinates, crossings, "index", "fraction").forEach(
+		({ coordinate, crossing }) => {
+			pushUnique(current, coordinate);
+
+			if (crossing) {
+				parts.push(current);
+				current = [coordinate];
+			}
+		},
+	);
+
+	parts.push(current);
+
+	// Crossings at the start or end of the line produce parts without a length
+	return parts.filter((part) => part.length > 1);
+}
+
+/**
+ * Splits the rings of a Polygon where a cutting line passes all the way through it. Cutting
+ * lines that cross the holes of a polygon are not supported and will leave the polygon unsplit.
+ * @param rings - the rings of the Polygon to split
+ * @param cutter - the coordinates of the cutting line
+ * @param refine - optionally adjusts the coordinates where the cutting line crosses the outer ring
+ * @returns the rings of each part, which is only the original rings if the polygon is not split
+ */
+export function splitPolygon(
+	rings: Position[][],
+	cutter: Position[],
+	refine?: RefineIntersection,
+): Position[][][] {
+	const [outer, ...holes] = rings;
+
+	if (holes.some((hole) => getCrossings(hole, cutter).length > 0)) {
+		return [rings];
+	}
+
+	const crossings = getCrossings(outer, cutter, refine);
+
+	if (crossings.length < 2) {
+		return [rings];
+	}
+
+	// The outer ring without its closing coordinate but with the crossings added
+	const outerWithCrossings = insertCrossings(
+		outer,
+		crossings,
+		"index",
+		"fraction",
+	).map(({ coordinate }) => coordinate);
+	outerWithCrossings.pop();
+
+	// The paths of the cutting line between two crossings that lie inside the polygon
+	const cutterWithCrossings = insertCrossings(
+		cutter,
+		crossings,
+		"cutterIndex",
+		"cutterFraction",
+	);
+	const chords: Position[][] = [];
+	let chordStart: number | undefined;
+
+	cutterWithCrossings.forEach(({ crossing }, i) => {
+		if (!crossing) {
+			return;
+		}
+
+		if (chordStart !== undefined) {
+			const chord = cutterWithCrossings
+				.slice(chordStart, i + 1)
+				.map(({ coordinate }) => coordinate);
+
+			const [first, second] = chord;
+			const midpoint = [(first[0] + second[0]) / 2, (first[1] + second[1]) / 2];
+
+			if (pointInPolygon(midpoint, [outer])) {
+				chords.push(chord);
+			}
+		}
+
+		chordStart = i;
+	});
+
+	let pieces: Position[][] = [outerWithCrossings];
+
+	chords.forEach((chord) => {
+		const start = chord[0];
+		const end = chord[chord.length - 1];
+		const inner = chord.slice(1, -1);
+
+		const pieceIndex = pieces.findIndex(
+			(piece) =>
+				piece.some((coordinate) => coordinatesIdentical(coordinate, start)) &&
+				piece.some((coordinate) => coordinatesIdentical(coordinate, end)),
+		);
+
+		if (pieceIndex === -1) {
+			return;
+		}
+
+		const piece = pieces[pieceIndex];
+		const startIndex = piece.findIndex((coordinate) =>
+			coordinatesIdentical(coordinate, start),
+		);
+		const endIndex = piece.findIndex((coordinate) =>
+			coordinatesIdentical(coordinate, end),
+		);
+
+		const [from, to, path] =
+			startIndex < endIndex
+				? [startIndex, endIndex, [...inner].reverse()]
+				: [endIndex, startIndex, inner];
+
+		// One piece follows the ring between the crossings and returns along the chord,
+		// the other follows the rest of the ring and the chord in the other direction
+		const pieceOne = [...piece.slice(from, to + 1), ...path];
+		const pieceTwo = [
+			...piece.slice(to),
+			...piece.slice(0, from + 1),
+			...[...path].reverse(),
+		];
+
+		pieces = [
+			...pieces.slice(0, pieceIndex),
+			pieceOne,
+			pieceTwo,
+			...pieces.slice(pieceIndex + 1),
+		];
+	});
+
+	if (pieces.length < 2) {
+		return [rings];
+	}
+
+	const polygons = pieces
+		.filter((piece) => piece.length > 2)
+		.map((piece) => [[...piece, piece[0]]]);
+
+	// Holes are kept by the piece that contains them
+	holes.forEach((hole) => {
+		const polygon = polygons.find(([ring]) => pointInPolygon(hole[0], [ring]));
+		if (polygon) {
+			polygon.push(hole);
+		}
+	});
+
+	return polygons;
+}
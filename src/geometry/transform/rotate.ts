@@ -1,4 +1,11 @@
-import { Feature, LineString, Polygon, Position } from "geojson";
+import {
+	Feature,
+	LineString,
+	MultiLineString,
+	MultiPolygon,
+	Polygon,
+	Position,
+} from "geojson";
 import { centroid } from "../centroid";
 import { rhumbBearing } from "../measure/rhumb-bearing";
 import { rhumbDestination } from "../measure/rhumb-destination";
@@ -8,12 +15,16 @@ import {
 	webMercatorXYToLngLat,
 } from "../project/web-mercator";
 import { CartesianPoint } from "../../common";
+import {
+	getCoordinateArrays,
+	getOutlineCoordinateArrays,
+} from "../geometry-parts";
 
 // Adapted on @turf/transform-rotate module which is MIT licensed
 // https://github.com/Turfjs/turf/tree/master/packages/turf-transform-rotate
 
 export function transformRotate(
-	feature: Feature<Polygon | LineString>,
+	feature: Feature<Polygon | LineString | MultiPolygon | MultiLineString>,
 	angle: number,
 ) {
 	// Shortcut no-rotation
@@ -24,18 +35,19 @@ export function transformRotate(
 	// Use centroid of GeoJSON if pivot is not provided
 	const pivot = centroid(feature);
 
-	const cooordinates =
-		feature.geometry.type === "Polygon"
-			? feature.geometry.coordinates[0]
-			: feature.geometry.coordinates;
+	// Polygons may have holes and multi geometries have many
+	// parts, all of which need to be rotated as well
+	const rings = getCoordinateArrays(feature.geometry);
 
-	cooordinates.forEach((pointCoords: Position) => {
-		const initialAngle = rhumbBearing(pivot, pointCoords);
-		const finalAngle = initialAngle + angle;
-		const distance = rhumbDistance(pivot, pointCoords);
-		const newCoords = rhumbDestination(pivot, distance, finalAngle);
-		pointCoords[0] = newCoords[0];
-		pointCoords[1] = newCoords[1];
+	rings.forEach((cooordinates) => {
+		cooordinates.forEach((pointCoords: Position) => {
+			const initialAngle = rhumbBearing(pivot, pointCoords);
+			const finalAngle = initialAngle + angle;
+			const distance = rhumbDistance(pivot, pointCoords);
+			const newCoords = rhumbDestination(pivot, distance, finalAngle);
+			pointCoords[0] = newCoords[0];
+			pointCoords[1] = newCoords[1];
+		});
 	});
 
 	return feature;
@@ -48,7 +60,7 @@ export function transformRotate(
  * @returns - rotated GeoJSON Polygon geometry
  */
 export const transformRotateWebMercator = (
-	feature: Feature<Polygon> | Feature<LineString>,
+	feature: Feature<Polygon | LineString | MultiPolygon | MultiLineString>,
 	angle: number,
 ) => {
 	if (angle === 0 || angle === 360 || angle === -360) {
@@ -57,10 +69,10 @@ export const transformRotateWebMercator = (
 
 	const DEGREES_TO_RADIANS = 0.017453292519943295 as const; // Math.PI / 180
 
-	const coordinates =
-		feature.geometry.type === "Polygon"
-			? feature.geometry.coordinates[0]
-			: feature.geometry.coordinates;
+	// Multi geometries are rotated around the centroid of all of their parts
+	const coordinates = getOutlineCoordinateArrays(feature.geometry).reduce<
+		Position[]
+	>((allCoordinates, part) => allCoordinates.concat(part), []);
 	const angleRad = angle * DEGREES_TO_RADIANS;
 
 	// Convert polygon coordinates to Web Mercator
@@ -79,32 +91,37 @@ export const transformRotateWebMercator = (
 	centroid.x /= webMercatorCoords.length;
 	centroid.y /= webMercatorCoords.length;
 
-	// Rotate the coordinates around the centroid
-	const rotatedWebMercatorCoords = webMercatorCoords.map((coord) => ({
-		x:
-			centroid.x +
-			(coord.x - centroid.x) * Math.cos(angleRad) -
-			(coord.y - centroid.y) * Math.sin(angleRad),
-		y:
-			centroid.y +
-			(coord.x - centroid.x) * Math.sin(angleRad) +
-			(coord.y - centroid.y) * Math.cos(angleRad),
-	}));
+	const rotateRing = (ring: Position[]) => {
+		// Rotate the coordinates around the centroid
+		const rotatedWebMercatorCoords = ring
+			.map(([lng, lat]) => lngLatToWebMercatorXY(lng, lat))
+			.map((coord) => ({
+				x:
+					centroid.x +
+					(coord.x - centroid.x) * Math.cos(angleRad) -
+					(coord.y - centroid.y) * Math.sin(angleRad),
+				y:
+					centroid.y +
+					(coord.x - centroid.x) * Math.sin(angleRad) +
+					(coord.y - centroid.y) * Math.cos(angleRad),
+			}));
 
-	// Convert rotated Web Mercator coordinates back to geographic
-	const rotatedCoordinates = rotatedWebMercatorCoords.map(
-		({ x, y }) =>
-			[
-				webMercatorXYToLngLat(x, y).lng,
-				webMercatorXYToLngLat(x, y).lat,
-			] as Position,
-	);
+		// Convert rotated Web Mercator coordinates back to geographic
+		return rotatedWebMercatorCoords.map(
+			({ x, y }) =>
+				[
+					webMercatorXYToLngLat(x, y).lng,
+					webMercatorXYToLngLat(x, y).lat,
+				] as Position,
+		);
+	};
 
-	if (feature.geometry.type === "Polygon") {
-		feature.geometry.coordinates[0] = rotatedCoordinates;
-	} else {
-		feature.geometry.coordinates = rotatedCoordinates;
-	}
+	// Holes are rotated around the same centroid as the exterior ring
+	getCoordinateArrays(feature.geometry).forEach((ring) => {
+		rotateRing(ring).forEach((coordinate, i) => {
+			ring[i] = coordinate;
+		});
+	});
 
 	return feature;
 };
@@ -95,6 +95,41 @@ describe("scale", () => {
 				properties: {},
 			});
 		});
+
+		it("scales the holes of a given Polygon", () => {
+			const polygon = {
+				type: "Feature",
+				geometry: {
+					type: "Polygon",
+					coordinates: [
+						[
+							[0, 0],
+							[0, 4],
+							[4, 4],
+							[4, 0],
+							[0, 0],
+						],
+						[
+							[1, 1],
+							[1, 3],
+							[3, 3],
+							[3, 1],
+							[1, 1],
+						],
+					],
+				},
+				properties: {},
+			} as Feature<Polygon>;
+
+			const result = transformScale(polygon, 2, [2, 2]);
+			const [exterior, hole] = result.geometry.coordinates as Position[][];
+
+			expect(exterior[0][0]).toBeCloseTo(-2, 1);
+			expect(hole[0][0]).toBeCloseTo(0, 1);
+			expect(hole[0][1]).toBeCloseTo(0, 1);
+			expect(hole[2][0]).toBeCloseTo(4, 1);
+			expect(hole[2][1]).toBeCloseTo(4, 1);
+		});
 	});
 
 	describe("transformScaleWebMercator", () => {
@@ -1,4 +1,11 @@
-import { Feature, LineString, Polygon, Position } from "geojson";
+import {
+	Feature,
+	LineString,
+	MultiLineString,
+	MultiPolygon,
+	Polygon,
+	Position,
+} from "geojson";
 // import { centroid } from "../centroid";
 import { rhumbBearing } from "../measure/rhumb-bearing";
 import { rhumbDestination } from "../measure/rhumb-destination";
@@ -7,12 +14,13 @@ import {
 	lngLatToWebMercatorXY,
 	webMercatorXYToLngLat,
 } from "../project/web-mercator";
+import { getCoordinateArrays } from "../geometry-parts";
 
 // Adapted from the @turf/transform-scale module which is MIT Licensed
 // https://github.com/Turfjs/turf/tree/master/packages/turf-transform-scale
 
 export function transformScale(
-	feature: Feature<Polygon | LineString>,
+	feature: Feature<Polygon | LineString | MultiPolygon | MultiLineString>,
 	factor: number,
 	origin: Position,
 	axis: "x" | "y" | "xy" = "xy",
@@ -22,24 +30,25 @@ export function transformScale(
 		return feature;
 	}
 
-	const cooordinates =
-		feature.geometry.type === "Polygon"
-			? feature.geometry.coordinates[0]
-			: feature.geometry.coordinates;
+	// Polygons may have holes and multi geometries have many
+	// parts, all of which need to be scaled as well
+	const rings = getCoordinateArrays(feature.geometry);
 
-	cooordinates.forEach((pointCoords: Position) => {
-		const originalDistance = rhumbDistance(origin, pointCoords);
-		const bearing = rhumbBearing(origin, pointCoords);
-		const newDistance = originalDistance * factor;
-		const newCoord = rhumbDestination(origin, newDistance, bearing);
+	rings.forEach((cooordinates) => {
+		cooordinates.forEach((pointCoords: Position) => {
+			const originalDistance = rhumbDistance(origin, pointCoords);
+			const bearing = rhumbBearing(origin, pointCoords);
+			const newDistance = originalDistance * factor;
+			const newCoord = rhumbDestination(origin, newDistance, bearing);
 
-		if (axis === "x" || axis === "xy") {
-			pointCoords[0] = newCoord[0];
-		}
+			if (axis === "x" || axis === "xy") {
+				pointCoords[0] = newCoord[0];
+			}
 
-		if (axis === "y" || axis === "xy") {
-			pointCoords[1] = newCoord[1];
-		}
+			if (axis === "y" || axis === "xy") {
+				pointCoords[1] = newCoord[1];
+			}
+		});
 	});
 
 	return feature;
@@ -52,43 +61,42 @@ export function transformScale(
  * @returns - scaled GeoJSON Polygon geometry
  */
 export function transformScaleWebMercator(
-	feature: Feature<Polygon | LineString>,
+	feature: Feature<Polygon | LineString | MultiPolygon | MultiLineString>,
 	factor: number,
 	origin: Position,
-): Feature<Polygon | LineString> {
+): Feature<Polygon | LineString | MultiPolygon | MultiLineString> {
 	if (factor === 1) {
 		return feature;
 	}
 
-	const coordinates =
-		feature.geometry.type === "Polygon"
-			? feature.geometry.coordinates[0]
-			: feature.geometry.coordinates;
-
-	// Convert polygon coordinates to Web Mercator
-	const webMercatorCoords = coordinates.map(([lng, lat]) =>
-		lngLatToWebMercatorXY(lng, lat),
-	);
-
 	const originWebMercator = lngLatToWebMercatorXY(origin[0], origin[1]);
 
-	// Scale the coordinates around the centroid
-	const scaledWebMercatorCoords = webMercatorCoords.map((coord) => ({
-		x: originWebMercator.x + (coord.x - originWebMercator.x) * factor,
-		y: originWebMercator.y + (coord.y - originWebMercator.y) * factor,
-	}));
+	const scaleRing = (coordinates: Position[]) => {
+		// Convert polygon coordinates to Web Mercator
+		const webMercatorCoords = coordinates.map(([lng, lat]) =>
+			lngLatToWebMercatorXY(lng, lat),
+		);
 
-	// Convert scaled Web Mercator coordinates back to geographic
-	const scaledCoordinates = scaledWebMercatorCoords.map(({ x, y }) => [
-		webMercatorXYToLngLat(x, y).lng,
-		webMercatorXYToLngLat(x, y).lat,
-	]);
+		// Scale the coordinates around the centroid
+		const scaledWebMercatorCoords = webMercatorCoords.map((coord) => ({
+			x: originWebMercator.x + (coord.x - originWebMercator.x) * factor,
+			y: originWebMercator.y + (coord.y - originWebMercator.y) * factor,
+		}));
 
-	if (feature.geometry.type === "Polygon") {
-		feature.geometry.coordinates[0] = scaledCoordinates;
-	} else {
-		feature.geometry.coordinates = scaledCoordinates;
-	}
+		// Convert scaled Web Mercator coordinates back to geographic
+		return scaledWebMercatorCoords.map(({ x, y }) => [
+			webMercatorXYToLngLat(x, y).lng,
+			webMercatorXYToLngLat(x, y).lat,
+		]);
+	};
+
+	// Polygons may have holes and multi geometries have many
+	// parts, all of which need to be scaled as well
+	getCoordinateArrays(feature.geometry).forEach((ring) => {
+		scaleRing(ring).forEach((coordinate, i) => {
+			ring[i] = coordinate;
+		});
+	});
 
 	return feature;
 }
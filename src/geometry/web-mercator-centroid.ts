@@ -1,14 +1,43 @@
-import { Feature, LineString, Polygon, Position } from "geojson";
+import {
+	Feature,
+	LineString,
+	MultiLineString,
+	MultiPolygon,
+	Polygon,
+	Position,
+} from "geojson";
 import { lngLatToWebMercatorXY } from "./project/web-mercator";
 import { CartesianPoint } from "../common";
+import { getGeometryParts } from "./geometry-parts";
 
 /**
- * Calculates the centroid of a GeoJSON Polygon or LineString in Web Mercator
+ * Calculates the centroid of a GeoJSON Polygon or LineString (or their multi equivalents) in Web Mercator
 
- * @param {Feature<Polygon | LineString>} feature - The GeoJSON Feature containing either a Polygon or LineString
+ * @param {Feature<Polygon | LineString | MultiPolygon | MultiLineString>} feature - The GeoJSON Feature containing either a Polygon or LineString, or their multi equivalents
  * @returns {{ x: number, y: number }} The centroid of the polygon or line string in Web Mercator coordinates.
  */
-export function webMercatorCentroid(feature: Feature<Polygon | LineString>) {
+export function webMercatorCentroid(
+	feature: Feature<Polygon | LineString | MultiPolygon | MultiLineString>,
+): CartesianPoint {
+	if (
+		feature.geometry.type === "MultiPolygon" ||
+		feature.geometry.type === "MultiLineString"
+	) {
+		// Multi geometries use the average of the centroids of their parts
+		const parts = getGeometryParts(feature.geometry) as (
+			| Polygon
+			| LineString
+		)[];
+		const partCentroids = parts.map((geometry) =>
+			webMercatorCentroid({ type: "Feature", geometry, properties: {} }),
+		);
+
+		return {
+			x: partCentroids.reduce((sum, { x }) => sum + x, 0) / parts.length,
+			y: partCentroids.reduce((sum, { y }) => sum + y, 0) / parts.length,
+		};
+	}
+
 	const coordinates =
 		feature.geometry.type === "Polygon"
 			? feature.geometry.coordinates[0]
@@ -352,6 +352,11 @@ export class TerraDrawAngledRectangleMode extends TerraDrawBaseDrawMode<PolygonS
 	/** @internal */
 	onKeyDown() {}
 
+	/** @internal */
+	onDoubleTap() {
+		this.close();
+	}
+
 	/** @internal */
 	onDragStart() {}
 
@@ -0,0 +1,247 @@
+import { LineString } from "geojson";
+import { GeoJSONStore } from "../../store/store";
+import { MockModeConfig } from "../../test/mock-mode-config";
+import { MockCursorEvent } from "../../test/mock-cursor-event";
+import { MockKeyboardEvent } from "../../test/mock-keyboard-event";
+import { TerraDrawArcMode } from "./arc.mode";
+
+describe("TerraDrawArcMode", () => {
+	describe("constructor", () => {
+		it("constructs with no options", () => {
+			const arcMode = new TerraDrawArcMode();
+			expect(arcMode.mode).toBe("arc");
+			expect(arcMode.styles).toStrictEqual({});
+		});
+
+		it("constructs with options", () => {
+			const arcMode = new TerraDrawArcMode({
+				styles: { lineStringColor: "#ffffff" },
+				keyEvents: { cancel: "Backspace", finish: "Enter" },
+				cursors: { start: "pointer" },
+				steps: 32,
+				projection: "globe",
+			});
+			expect(arcMode.styles).toStrictEqual({
+				lineStringColor: "#ffffff",
+			});
+		});
+
+		it("constructs with null key events", () => {
+			new TerraDrawArcMode({ keyEvents: null });
+		});
+	});
+
+	describe("lifecycle", () => {
+		it("registers correctly", () => {
+			const arcMode = new TerraDrawArcMode();
+			expect(arcMode.state).toBe("unregistered");
+			arcMode.register(MockModeConfig(arcMode.mode));
+			expect(arcMode.state).toBe("registered");
+		});
+
+		it("can start and stop correctly", () => {
+			const arcMode = new TerraDrawArcMode();
+			arcMode.register(MockModeConfig(arcMode.mode));
+
+			arcMode.start();
+			expect(arcMode.state).toBe("started");
+
+			arcMode.stop();
+			expect(arcMode.state).toBe("stopped");
+		});
+	});
+
+	describe("drawing", () => {
+		let arcMode: TerraDrawArcMode;
+		let store: GeoJSONStore;
+		let onFinish: jest.Mock;
+
+		const setup = (
+			options?: ConstructorParameters<typeof TerraDrawArcMode>[0],
+		) => {
+			arcMode = new TerraDrawArcMode(options);
+			const mockConfig = MockModeConfig(arcMode.mode);
+			store = mockConfig.store;
+			onFinish = mockConfig.onFinish;
+			arcMode.register(mockConfig);
+			arcMode.start();
+		};
+
+		const getCoordinates = () =>
+			(store.copyAll()[0].geometry as LineString).coordinates;
+
+		it("creates a linestring on the first click", () => {
+			setup();
+
+			arcMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+
+			expect(arcMode.state).toBe("drawing");
+			expect(getCoordinates()).toStrictEqual([
+				[0, 0],
+				[0, 0],
+			]);
+		});
+
+		it("draws a straight line to the cursor before the middle coordinate is placed", () => {
+			setup();
+
+			arcMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			arcMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 1 }));
+
+			expect(getCoordinates()).toStrictEqual([
+				[0, 0],
+				[1, 1],
+			]);
+		});
+
+		it("draws an arc through the start, middle and end coordinates", () => {
+			setup();
+
+			arcMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			arcMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+			arcMode.onMouseMove(MockCursorEvent({ lng: 2, lat: 0 }));
+
+			const coordinates = getCoordinates();
+			expect(coordinates).toHaveLength(65);
+			expect(coordinates[0]).toStrictEqual([0, 0]);
+			expect(coordinates[64]).toStrictEqual([2, 0]);
+			expect(onFinish).not.toHaveBeenCalled();
+
+			arcMode.onClick(MockCursorEvent({ lng: 2, lat: 0 }));
+
+			expect(arcMode.state).toBe("started");
+			expect(onFinish).toHaveBeenCalledWith(expect.any(String), {
+				mode: "arc",
+				action: "draw",
+			});
+		});
+
+		it("draws the arc on the globe", () => {
+			setup({ projection: "globe", steps: 8 });
+
+			arcMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			arcMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+			arcMode.onClick(MockCursorEvent({ lng: 2, lat: 0 }));
+
+			expect(getCoordinates()).toHaveLength(9);
+			expect(onFinish).toHaveBeenCalledTimes(1);
+		});
+
+		it("does not place the middle coordinate on the start coordinate", () => {
+			setup();
+
+			arcMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			arcMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			arcMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+
+			expect(onFinish).not.toHaveBeenCalled();
+		});
+
+		it("finishes the arc with the finish key once it has an end", () => {
+			setup();
+
+			arcMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			arcMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+
+			arcMode.onKeyUp(MockKeyboardEvent({ key: "Enter" }));
+			expect(onFinish).not.toHaveBeenCalled();
+
+			arcMode.onMouseMove(MockCursorEvent({ lng: 2, lat: 0 }));
+			arcMode.onKeyUp(MockKeyboardEvent({ key: "Enter" }));
+			expect(onFinish).toHaveBeenCalledTimes(1);
+		});
+
+		it("cancels the arc with the cancel key", () => {
+			setup();
+
+			arcMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			arcMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+			arcMode.onKeyUp(MockKeyboardEvent({ key: "Escape" }));
+
+			expect(arcMode.state).toBe("started");
+			expect(store.copyAll()).toHaveLength(0);
+		});
+
+		it("does not finish the arc if validation fails", () => {
+			setup({
+				validation: (_, { updateType }) => ({
+					valid: updateType !== "finish",
+				}),
+			});
+
+			arcMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			arcMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+			arcMode.onClick(MockCursorEvent({ lng: 2, lat: 0 }));
+
+			expect(arcMode.state).toBe("drawing");
+			expect(onFinish).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("styleFeature", () => {
+		it("returns the correct styles for linestring", () => {
+			const arcMode = new TerraDrawArcMode({
+				styles: {
+					lineStringColor: "#ffffff",
+					lineStringWidth: () => 4,
+				},
+			});
+
+			expect(
+				arcMode.styleFeature({
+					type: "Feature",
+					geometry: { type: "LineString", coordinates: [] },
+					properties: { mode: "arc" },
+				}),
+			).toMatchObject({
+				lineStringColor: "#ffffff",
+				lineStringWidth: 4,
+			});
+		});
+	});
+
+	describe("validateFeature", () => {
+		it("returns true for a valid arc feature", () => {
+			const arcMode = new TerraDrawArcMode();
+			arcMode.register(MockModeConfig("arc"));
+
+			expect(
+				arcMode.validateFeature({
+					id: "5c582a42-c3a7-4bfc-b686-6036f311df3c",
+					type: "Feature",
+					geometry: {
+						type: "LineString",
+						coordinates: [
+							[0, 0],
+							[1, 1],
+							[2, 0],
+						],
+					},
+					properties: {
+						mode: "arc",
+						createdAt: 1685655516297,
+						updatedAt: 1685655518118,
+					},
+				}),
+			).toEqual({ valid: true });
+		});
+
+		it("returns false for a feature that is not a linestring", () => {
+			const arcMode = new TerraDrawArcMode();
+			arcMode.register(MockModeConfig("arc"));
+
+			expect(
+				arcMode.validateFeature({
+					id: "5c582a42-c3a7-4bfc-b686-6036f311df3c",
+					type: "Feature",
+					geometry: { type: "Point", coordinates: [0, 0] },
+					properties: {
+						mode: "arc",
+						createdAt: 1685655516297,
+						updatedAt: 1685655518118,
+					},
+				}).valid,
+			).toBe(false);
+		});
+	});
+});
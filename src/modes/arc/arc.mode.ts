@@ -0,0 +1,362 @@
+import { LineString, Position } from "geojson";
+import {
+	TerraDrawMouseEvent,
+	TerraDrawAdapterStyling,
+	TerraDrawKeyboardEvent,
+	HexColorStyling,
+	NumericStyling,
+	Cursor,
+	UpdateTypes,
+	Projection,
+} from "../../common";
+import { arc, arcWebMercator } from "../../geometry/shape/create-arc";
+import { coordinatesIdentical } from "../../geometry/coordinates-identical";
+import { limitPrecision } from "../../geometry/limit-decimal-precision";
+import {
+	FeatureId,
+	GeoJSONStoreFeatures,
+	StoreValidation,
+} from "../../store/store";
+import { getDefaultStyling } from "../../util/styling";
+import {
+	BaseModeOptions,
+	CustomStyling,
+	TerraDrawBaseDrawMode,
+} from "../base.mode";
+import { ValidateLineStringFeature } from "../../validations/linestring.validation";
+
+type TerraDrawArcModeKeyEvents = {
+	cancel: KeyboardEvent["key"] | null;
+	finish: KeyboardEvent["key"] | null;
+};
+
+type ArcStyling = {
+	lineStringColor: HexColorStyling;
+	lineStringWidth: NumericStyling;
+};
+
+interface Cursors {
+	start?: Cursor;
+}
+
+interface TerraDrawArcModeOptions<T extends CustomStyling>
+	extends BaseModeOptions<T> {
+	keyEvents?: TerraDrawArcModeKeyEvents | null;
+	cursors?: Cursors;
+	// The number of segments in each arc
+	steps?: number;
+	projection?: Projection;
+}
+
+export class TerraDrawArcMode extends TerraDrawBaseDrawMode<ArcStyling> {
+	mode = "arc";
+	private startCoordinate: Position | undefined;
+	private middleCoordinate: Position | undefined;
+	private arcDrawn = false;
+	private clickCount = 0;
+	private currentArcId: FeatureId | undefined;
+	private keyEvents: TerraDrawArcModeKeyEvents;
+	private cursors: Required<Cursors>;
+	private steps: number;
+
+	/**
+	 * Create a new arc mode instance
+	 * @param options - Options to customize the behavior of the arc mode
+	 * @param options.keyEvents - Key events to cancel or finish the mode
+	 * @param options.cursors - Cursors to use for the mode
+	 * @param options.styles - Custom styling for the arc
+	 * @param options.steps - The number of segments in each arc
+	 * @param options.projection - Whether the arc is circular in web mercator or on the globe
+	 */
+	constructor(options?: TerraDrawArcModeOptions<ArcStyling>) {
+		super(options);
+
+		const defaultCursors = {
+			start: "crosshair",
+		} as Required<Cursors>;
+
+		if (options && options.cursors) {
+			this.cursors = { ...defaultCursors, ...options.cursors };
+		} else {
+			this.cursors = defaultCursors;
+		}
+
+		// We want to have some defaults, but also allow key bindings
+		// to be explicitly turned off
+		if (options?.keyEvents === null) {
+			this.keyEvents = { cancel: null, finish: null };
+		} else {
+			const defaultKeyEvents = { cancel: "Escape", finish: "Enter" };
+			this.keyEvents =
+				options && options.keyEvents
+					? { ...defaultKeyEvents, ...options.keyEvents }
+					: defaultKeyEvents;
+		}
+
+		this.steps = options?.steps ?? 64;
+		this.validate = options?.validation;
+	}
+
+	private close() {
+		// An arc can only be finished once the cursor has
+		// given it an end after the middle coordinate
+		if (this.currentArcId === undefined || !this.arcDrawn) {
+			return;
+		}
+
+		const finishedId = this.currentArcId;
+
+		if (this.validate) {
+			const currentGeometry =
+				this.store.getGeometryCopy<LineString>(finishedId);
+
+			const validationResult = this.validate(
+				{
+					type: "Feature",
+					id: finishedId,
+					geometry: currentGeometry,
+					properties: {},
+				},
+				{
+					project: this.project,
+					unproject: this.unproject,
+					coordinatePrecision: this.coordinatePrecision,
+					updateType: UpdateTypes.Finish,
+				},
+			);
+
+			if (!validationResult.valid) {
+				return;
+			}
+		}
+
+		this.startCoordinate = undefined;
+		this.middleCoordinate = undefined;
+		this.arcDrawn = false;
+		this.currentArcId = undefined;
+		this.clickCount = 0;
+		// Go back to started state
+		if (this.state === "drawing") {
+			this.setStarted();
+		}
+
+		// Ensure that any listerers are triggered with the main created geometry
+		this.onFinish(finishedId, { mode: this.mode, action: "draw" });
+	}
+
+	/** @internal */
+	start() {
+		this.setStarted();
+		this.setCursor(this.cursors.start);
+	}
+
+	/** @internal */
+	stop() {
+		this.cleanUp();
+		this.setStopped();
+		this.setCursor("unset");
+	}
+
+	/** @internal */
+	onClick(event: TerraDrawMouseEvent) {
+		const coordinate = this.getCoordinate(event);
+
+		if (this.clickCount === 0) {
+			this.startCoordinate = coordinate;
+
+			const [createdId] = this.store.create([
+				{
+					geometry: {
+						type: "LineString",
+						coordinates: [coordinate, coordinate],
+					},
+					properties: {
+						mode: this.mode,
+					},
+				},
+			]);
+			this.currentArcId = createdId;
+			this.clickCount++;
+			this.setDrawing();
+		} else if (this.clickCount === 1) {
+			if (coordinatesIdentical(coordinate, this.startCoordinate as Position)) {
+				return;
+			}
+
+			this.updateArc(event);
+			this.middleCoordinate = coordinate;
+			this.clickCount++;
+		} else {
+			this.updateArc(event);
+
+			// Finish drawing
+			this.close();
+		}
+	}
+
+	/** @internal */
+	onMouseMove(event: TerraDrawMouseEvent) {
+		this.updateArc(event);
+	}
+
+	/** @internal */
+	onKeyDown() {}
+
+	/** @internal */
+	onKeyUp(event: TerraDrawKeyboardEvent) {
+		if (event.key === this.keyEvents.cancel) {
+			this.cleanUp();
+		} else if (event.key === this.keyEvents.finish) {
+			this.close();
+		}
+	}
+
+	/** @internal */
+	onDoubleTap() {
+		this.close();
+	}
+
+	/** @internal */
+	onDragStart() {}
+
+	/** @internal */
+	onDrag() {}
+
+	/** @internal */
+	onDragEnd() {}
+
+	/** @internal */
+	cleanUp() {
+		const cleanUpId = this.currentArcId;
+
+		this.startCoordinate = undefined;
+		this.middleCoordinate = undefined;
+		this.arcDrawn = false;
+		this.currentArcId = undefined;
+		this.clickCount = 0;
+		if (this.state === "drawing") {
+			this.setStarted();
+		}
+
+		try {
+			if (cleanUpId !== undefined) {
+				this.store.delete([cleanUpId]);
+			}
+		} catch {}
+	}
+
+	/** @internal */
+	styleFeature(feature: GeoJSONStoreFeatures): TerraDrawAdapterStyling {
+		const styles = { ...getDefaultStyling() };
+
+		if (
+			feature.type === "Feature" &&
+			feature.geometry.type === "LineString" &&
+			feature.properties.mode === this.mode
+		) {
+			styles.lineStringColor = this.getHexColorStylingValue(
+				this.styles.lineStringColor,
+				styles.lineStringColor,
+				feature,
+			);
+
+			styles.lineStringWidth = this.getNumericStylingValue(
+				this.styles.lineStringWidth,
+				styles.lineStringWidth,
+				feature,
+			);
+
+			styles.zIndex = 10;
+
+			return styles;
+		}
+
+		return styles;
+	}
+
+	validateFeature(feature: unknown): StoreValidation {
+		return this.validateModeFeature(feature, (baseValidatedFeature) =>
+			ValidateLineStringFeature(baseValidatedFeature, this.coordinatePrecision),
+		);
+	}
+
+	private getCoordinate(event: TerraDrawMouseEvent) {
+		return [
+			limitPrecision(event.lng, this.coordinatePrecision),
+			limitPrecision(event.lat, this.coordinatePrecision),
+		];
+	}
+
+	private updateArc(event: TerraDrawMouseEvent) {
+		if (
+			this.clickCount === 0 ||
+			!this.startCoordinate ||
+			this.currentArcId === undefined
+		) {
+			return;
+		}
+
+		const cursor = this.getCoordinate(event);
+
+		if (
+			coordinatesIdentical(cursor, this.startCoordinate) ||
+			(this.middleCoordinate &&
+				coordinatesIdentical(cursor, this.middleCoordinate))
+		) {
+			return;
+		}
+
+		let geometry: LineString;
+
+		if (!this.middleCoordinate) {
+			// Until the middle coordinate is placed we show a straight line to the cursor
+			geometry = {
+				type: "LineString",
+				coordinates: [this.startCoordinate, cursor],
+			};
+		} else {
+			const options = {
+				start: this.startCoordinate,
+				middle: this.middleCoordinate,
+				end: cursor,
+				coordinatePrecision: this.coordinatePrecision,
+				steps: this.steps,
+			};
+
+			if (this.projection === "web-mercator") {
+				geometry = arcWebMercator(options).geometry;
+			} else if (this.projection === "globe") {
+				geometry = arc(options).geometry;
+			} else {
+				throw new Error("Invalid projection");
+			}
+		}
+
+		if (this.validate) {
+			const valid = this.validate(
+				{
+					type: "Feature",
+					id: this.currentArcId,
+					geometry,
+					properties: {},
+				},
+				{
+					project: this.project,
+					unproject: this.unproject,
+					coordinatePrecision: this.coordinatePrecision,
+					updateType: UpdateTypes.Provisional,
+				},
+			);
+
+			if (!valid.valid) {
+				return;
+			}
+		}
+
+		this.store.updateGeometry([{ id: this.currentArcId, geometry }]);
+
+		if (this.middleCoordinate) {
+			this.arcDrawn = true;
+		}
+	}
+}
@@ -2,12 +2,15 @@ import { BehaviorConfig, TerraDrawModeBehavior } from "./base.behavior";
 import {
 	HexColor,
 	OnFinishContext,
+	PixelOffset,
 	Projection,
 	TerraDrawAdapterStyling,
 	TerraDrawKeyboardEvent,
 	TerraDrawModeRegisterConfig,
 	TerraDrawModeState,
 	TerraDrawMouseEvent,
+	TerraDrawGestureEvent,
+	TerraDrawContextMenuEvent,
 	UpdateTypes,
 	Validation,
 } from "../common";
@@ -24,8 +27,11 @@ export type CustomStyling = Record<
 	string,
 	| string
 	| number
+	| PixelOffset
 	| ((feature: GeoJSONStoreFeatures) => HexColor)
+	| ((feature: GeoJSONStoreFeatures) => string)
 	| ((feature: GeoJSONStoreFeatures) => number)
+	| ((feature: GeoJSONStoreFeatures) => PixelOffset)
 >;
 
 export enum ModeTypes {
@@ -74,6 +80,7 @@ export abstract class TerraDrawBaseDrawMode<T extends CustomStyling> {
 	protected unproject!: TerraDrawModeRegisterConfig["unproject"];
 	protected project!: TerraDrawModeRegisterConfig["project"];
 	protected setCursor!: TerraDrawModeRegisterConfig["setCursor"];
+	protected validateFeatureForMode!: TerraDrawModeRegisterConfig["validateFeatureForMode"];
 	protected registerBehaviors(behaviorConfig: BehaviorConfig): void {}
 	protected projection!: Projection;
 
@@ -136,6 +143,7 @@ export abstract class TerraDrawBaseDrawMode<T extends CustomStyling> {
 			this.onStyleChange = config.onChange;
 			this.onFinish = config.onFinish;
 			this.coordinatePrecision = config.coordinatePrecision;
+			this.validateFeatureForMode = config.validateFeatureForMode;
 
 			this.registerBehaviors({
 				mode: config.mode,
@@ -236,6 +244,20 @@ export abstract class TerraDrawBaseDrawMode<T extends CustomStyling> {
 		event: TerraDrawMouseEvent,
 		setMapDraggability: (enabled: boolean) => void,
 	) {}
+	onGestureStart(
+		event: TerraDrawGestureEvent,
+		setMapDraggability: (enabled: boolean) => void,
+	) {}
+	onGesture(
+		event: TerraDrawGestureEvent,
+		setMapDraggability: (enabled: boolean) => void,
+	) {}
+	onGestureEnd(
+		event: TerraDrawGestureEvent,
+		setMapDraggability: (enabled: boolean) => void,
+	) {}
+	onDoubleTap(event: TerraDrawMouseEvent) {}
+	onContextMenu(event: TerraDrawContextMenuEvent) {}
 
 	protected getHexColorStylingValue(
 		value: HexColor | ((feature: GeoJSONStoreFeatures) => HexColor) | undefined,
@@ -253,7 +275,26 @@ export abstract class TerraDrawBaseDrawMode<T extends CustomStyling> {
 		return this.getStylingValue(value, defaultValue, feature);
 	}
 
-	private getStylingValue<T extends string | number>(
+	protected getStringStylingValue(
+		value: string | ((feature: GeoJSONStoreFeatures) => string) | undefined,
+		defaultValue: string,
+		feature: GeoJSONStoreFeatures,
+	): string {
+		return this.getStylingValue(value, defaultValue, feature);
+	}
+
+	protected getPixelOffsetStylingValue(
+		value:
+			| PixelOffset
+			| ((feature: GeoJSONStoreFeatures) => PixelOffset)
+			| undefined,
+		defaultValue: PixelOffset,
+		feature: GeoJSONStoreFeatures,
+	): PixelOffset {
+		return this.getStylingValue(value, defaultValue, feature);
+	}
+
+	private getStylingValue<T extends string | number | PixelOffset>(
 		value: T | ((feature: GeoJSONStoreFeatures) => T) | undefined,
 		defaultValue: T,
 		feature: GeoJSONStoreFeatures,
@@ -275,4 +316,18 @@ export abstract class TerraDrawBaseSelectMode<
 
 	public abstract selectFeature(featureId: FeatureId): void;
 	public abstract deselectFeature(featureId: FeatureId): void;
+	public abstract mergeSelectedFeatures(): FeatureId | undefined;
+	public abstract refreshSelectedFeature(featureId: FeatureId): void;
+
+	/**
+	 * Styles a hovered feature while the select mode is active, where the styles
+	 * are those of the mode the feature belongs to
+	 * @internal
+	 */
+	public styleHoveredFeature(
+		feature: GeoJSONStoreFeatures,
+		styles: TerraDrawAdapterStyling,
+	): TerraDrawAdapterStyling {
+		return styles;
+	}
 }
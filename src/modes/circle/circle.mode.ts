@@ -210,6 +210,11 @@ export class TerraDrawCircleMode extends TerraDrawBaseDrawMode<CirclePolygonStyl
 		}
 	}
 
+	/** @internal */
+	onDoubleTap() {
+		this.close();
+	}
+
 	/** @internal */
 	onDragStart() {}
 
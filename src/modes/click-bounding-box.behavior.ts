@@ -7,12 +7,15 @@ export class ClickBoundingBoxBehavior extends TerraDrawModeBehavior {
 		super(config);
 	}
 
-	public create(event: TerraDrawMouseEvent) {
+	public create(
+		event: TerraDrawMouseEvent,
+		pointerDistance = this.pointerDistance,
+	) {
 		const { containerX: x, containerY: y } = event;
 		return createBBoxFromPoint({
 			unproject: this.unproject,
 			point: { x, y },
-			pointerDistance: this.pointerDistance,
+			pointerDistance,
 		});
 	}
 }
@@ -54,5 +54,115 @@ describe("CoordinateSnappingBehavior", () => {
 				expect(snappedCoord).toStrictEqual([0, 0]);
 			});
 		});
+
+		describe("with a snapping target", () => {
+			it("does not snap to features from other modes without a target", () => {
+				createStorePolygon(config, undefined, false, "polygon");
+
+				const snappedCoord = coordinateSnappingBehavior.getSnappableCoordinate(
+					MockCursorEvent({ lng: 0.1, lat: 0.1 }),
+					"currentId",
+				);
+
+				expect(snappedCoord).toBe(undefined);
+			});
+
+			it("snaps to features from other modes", () => {
+				createStorePolygon(config, undefined, false, "polygon");
+
+				const snappedCoord = coordinateSnappingBehavior.getSnappableCoordinate(
+					MockCursorEvent({ lng: 0.1, lat: 0.1 }),
+					"currentId",
+					{},
+				);
+
+				expect(snappedCoord).toStrictEqual([0, 0]);
+			});
+
+			it("snaps to points", () => {
+				config.store.create([
+					{
+						geometry: { type: "Point", coordinates: [0.2, 0.2] },
+						properties: { mode: "point" },
+					},
+				]);
+
+				const snappedCoord =
+					coordinateSnappingBehavior.getSnappableCoordinateFirstClick(
+						MockCursorEvent({ lng: 0.25, lat: 0.25 }),
+						{},
+					);
+
+				expect(snappedCoord).toStrictEqual([0.2, 0.2]);
+			});
+
+			it("does not snap to guidance features", () => {
+				config.store.create([
+					{
+						geometry: { type: "Point", coordinates: [0.2, 0.2] },
+						properties: { mode: "polygon", closingPoint: true },
+					},
+				]);
+
+				const snappedCoord =
+					coordinateSnappingBehavior.getSnappableCoordinateFirstClick(
+						MockCursorEvent({ lng: 0.25, lat: 0.25 }),
+						{},
+					);
+
+				expect(snappedCoord).toBe(undefined);
+			});
+
+			it("does not snap to the current feature", () => {
+				const currentId = createStorePolygon(
+					config,
+					undefined,
+					false,
+					"polygon",
+				);
+
+				const snappedCoord = coordinateSnappingBehavior.getSnappableCoordinate(
+					MockCursorEvent({ lng: 0.1, lat: 0.1 }),
+					currentId,
+					{},
+				);
+
+				expect(snappedCoord).toBe(undefined);
+			});
+
+			it("only snaps to features allowed by the filter", () => {
+				createStorePolygon(config, undefined, false, "polygon");
+
+				const snappedCoord = coordinateSnappingBehavior.getSnappableCoordinate(
+					MockCursorEvent({ lng: 0.1, lat: 0.1 }),
+					"currentId",
+					{ filter: (feature) => feature.properties.mode === "linestring" },
+				);
+
+				expect(snappedCoord).toBe(undefined);
+			});
+
+			it("only snaps to coordinates within the tolerance", () => {
+				createStorePolygon(config, undefined, false, "polygon");
+
+				const event = MockCursorEvent({ lng: 0.3, lat: 0.3 });
+
+				expect(
+					coordinateSnappingBehavior.getSnappableCoordinate(
+						event,
+						"currentId",
+						{ tolerance: 10 },
+					),
+				).toBe(undefined);
+
+				expect(
+					coordinateSnappingBehavior.getSnappableCoordinate(
+						event,
+						"currentId",
+						{ tolerance: 30 },
+					),
+				).toStrictEqual([0, 0]);
+			});
+		});
 	});
 });
@@ -1,9 +1,11 @@
 import { BehaviorConfig, TerraDrawModeBehavior } from "./base.behavior";
-import { TerraDrawMouseEvent } from "../common";
-import { Feature, Position } from "geojson";
+import { SnappingTarget, TerraDrawMouseEvent } from "../common";
+import { Position } from "geojson";
 import { ClickBoundingBoxBehavior } from "./click-bounding-box.behavior";
-import { BBoxPolygon, FeatureId } from "../store/store";
+import { BBoxPolygon, FeatureId, GeoJSONStoreFeatures } from "../store/store";
 import { PixelDistanceBehavior } from "./pixel-distance.behavior";
+import { getCoordinateArrays } from "../geometry/geometry-parts";
+import { isGuidanceFeature } from "../store/guidance-feature";
 
 export class CoordinateSnappingBehavior extends TerraDrawModeBehavior {
 	constructor(
@@ -14,8 +16,19 @@ export class CoordinateSnappingBehavior extends TerraDrawModeBehavior {
 		super(config);
 	}
 
-	/** Returns the nearest snappable coordinate - on first click there is no currentId so no need to provide */
-	public getSnappableCoordinateFirstClick = (event: TerraDrawMouseEvent) => {
+	/**
+	 * Returns the nearest snappable coordinate - on first click there is no currentId so no need to provide.
+	 * Without a target only the coordinates of features from the same mode are snapped to, with a target
+	 * the coordinates of any features it allows can be snapped to, including points.
+	 */
+	public getSnappableCoordinateFirstClick = (
+		event: TerraDrawMouseEvent,
+		target?: SnappingTarget,
+	) => {
+		if (target) {
+			return this.getSnappableFromTarget(event, target);
+		}
+
 		return this.getSnappable(event, (feature) => {
 			return Boolean(
 				feature.properties && feature.properties.mode === this.mode,
@@ -26,7 +39,12 @@ export class CoordinateSnappingBehavior extends TerraDrawModeBehavior {
 	public getSnappableCoordinate = (
 		event: TerraDrawMouseEvent,
 		currentFeatureId: FeatureId,
+		target?: SnappingTarget,
 	) => {
+		if (target) {
+			return this.getSnappableFromTarget(event, target, currentFeatureId);
+		}
+
 		return this.getSnappable(event, (feature) => {
 			return Boolean(
 				feature.properties &&
@@ -36,11 +54,29 @@ export class CoordinateSnappingBehavior extends TerraDrawModeBehavior {
 		});
 	};
 
+	private getSnappableFromTarget(
+		event: TerraDrawMouseEvent,
+		target: SnappingTarget,
+		currentFeatureId?: FeatureId,
+	) {
+		return this.getSnappable(
+			event,
+			(feature) =>
+				feature.id !== currentFeatureId &&
+				!isGuidanceFeature(feature) &&
+				(target.filter ? target.filter(feature) : true),
+			target.tolerance,
+			true,
+		);
+	}
+
 	private getSnappable(
 		event: TerraDrawMouseEvent,
-		filter: (feature: Feature) => boolean,
+		filter: (feature: GeoJSONStoreFeatures) => boolean,
+		tolerance = this.pointerDistance,
+		includePoints = false,
 	) {
-		const bbox = this.clickBoundingBox.create(event) as BBoxPolygon;
+		const bbox = this.clickBoundingBox.create(event, tolerance) as BBoxPolygon;
 
 		const features = this.store.search(bbox, filter);
 
@@ -50,21 +86,26 @@ export class CoordinateSnappingBehavior extends TerraDrawModeBehavior {
 		};
 
 		features.forEach((feature) => {
-			let coordinates: Position[];
-			if (feature.geometry.type === "Polygon") {
-				coordinates = feature.geometry.coordinates[0];
-			} else if (feature.geometry.type === "LineString") {
-				coordinates = feature.geometry.coordinates;
-			} else {
+			if (
+				!includePoints &&
+				(feature.geometry.type === "Point" ||
+					feature.geometry.type === "MultiPoint")
+			) {
 				return;
 			}
 
-			coordinates.forEach((coord) => {
-				const dist = this.pixelDistance.measure(event, coord);
-				if (dist < closest.minDist && dist < this.pointerDistance) {
-					closest.coord = coord;
-					closest.minDist = dist;
-				}
+			// Polygons can have holes and multi geometries can have many
+			// parts, all of which we can snap to
+			const rings = getCoordinateArrays(feature.geometry);
+
+			rings.forEach((coordinates) => {
+				coordinates.forEach((coord) => {
+					const dist = this.pixelDistance.measure(event, coord);
+					if (dist < closest.minDist && dist < tolerance) {
+						closest.coord = coord;
+						closest.minDist = dist;
+					}
+				});
 			});
 		});
 
@@ -0,0 +1,425 @@
+import { GeoJSONStore } from "../../store/store";
+import { MockModeConfig } from "../../test/mock-mode-config";
+import {
+	TerraDrawCurveMode,
+	ValidationReasonFeatureHasInvalidControlPoints,
+} from "./curve.mode";
+import { MockCursorEvent } from "../../test/mock-cursor-event";
+import { MockKeyboardEvent } from "../../test/mock-keyboard-event";
+import { COMMON_PROPERTIES, CURVE_PROPERTIES } from "../../common";
+
+describe("TerraDrawCurveMode", () => {
+	describe("constructor", () => {
+		it("constructs with no options", () => {
+			const curveMode = new TerraDrawCurveMode();
+			expect(curveMode.mode).toBe("curve");
+		});
+
+		it("constructs with options", () => {
+			const curveMode = new TerraDrawCurveMode({
+				styles: { lineStringColor: "#ffffff" },
+				curveType: "bezier",
+				resolution: 8,
+				geometryType: "Polygon",
+				pointerDistance: 40,
+				keyEvents: {
+					cancel: "Backspace",
+					finish: "Enter",
+				},
+				cursors: {
+					start: "crosshair",
+					close: "pointer",
+				},
+			});
+			expect(curveMode.styles).toStrictEqual({
+				lineStringColor: "#ffffff",
+			});
+		});
+
+		it("constructs with null key events", () => {
+			new TerraDrawCurveMode({
+				keyEvents: null,
+			});
+
+			new TerraDrawCurveMode({
+				keyEvents: { cancel: null, finish: null },
+			});
+		});
+	});
+
+	describe("lifecycle", () => {
+		it("registers correctly", () => {
+			const curveMode = new TerraDrawCurveMode();
+			expect(curveMode.state).toBe("unregistered");
+			curveMode.register(MockModeConfig(curveMode.mode));
+			expect(curveMode.state).toBe("registered");
+		});
+
+		it("can start correctly", () => {
+			const curveMode = new TerraDrawCurveMode();
+
+			curveMode.register(MockModeConfig(curveMode.mode));
+			curveMode.start();
+
+			expect(curveMode.state).toBe("started");
+		});
+
+		it("can stop correctly", () => {
+			const curveMode = new TerraDrawCurveMode();
+
+			curveMode.register(MockModeConfig(curveMode.mode));
+			curveMode.start();
+			curveMode.stop();
+
+			expect(curveMode.state).toBe("stopped");
+		});
+	});
+
+	describe("drawing", () => {
+		let curveMode: TerraDrawCurveMode;
+		let store: GeoJSONStore;
+		let onChange: jest.Mock;
+		let onFinish: jest.Mock;
+
+		const setup = (
+			options?: ConstructorParameters<typeof TerraDrawCurveMode>[0],
+		) => {
+			curveMode = new TerraDrawCurveMode(options);
+			const mockConfig = MockModeConfig(curveMode.mode);
+			store = mockConfig.store;
+			onChange = mockConfig.onChange;
+			onFinish = mockConfig.onFinish;
+			curveMode.register(mockConfig);
+			curveMode.start();
+		};
+
+		const getCurve = () =>
+			store
+				.copyAll()
+				.find(({ properties }) => !properties[COMMON_PROPERTIES.CONTROL_POINT]);
+
+		const getControlPoints = () =>
+			store
+				.copyAll()
+				.filter(
+					({ properties }) => properties[COMMON_PROPERTIES.CONTROL_POINT],
+				);
+
+		it("creates the curve and a control point on the first click", () => {
+			setup();
+
+			curveMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+
+			expect(curveMode.state).toBe("drawing");
+			expect(getCurve()?.geometry.type).toBe("LineString");
+			expect(getControlPoints()).toHaveLength(1);
+		});
+
+		it("updates the curve to follow the cursor", () => {
+			setup();
+
+			curveMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			curveMode.onMouseMove(MockCursorEvent({ lng: 2, lat: 2 }));
+
+			const coordinates = getCurve()?.geometry.coordinates as number[][];
+			expect(coordinates.length).toBeGreaterThan(2);
+			expect(coordinates[coordinates.length - 1][0]).toBeCloseTo(2, 6);
+			expect(coordinates[coordinates.length - 1][1]).toBeCloseTo(2, 6);
+		});
+
+		it("adds a control point on each click", () => {
+			setup();
+
+			curveMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			curveMode.onClick(MockCursorEvent({ lng: 2, lat: 2 }));
+			curveMode.onClick(MockCursorEvent({ lng: 4, lat: 0 }));
+
+			expect(getControlPoints()).toHaveLength(3);
+			expect(onFinish).not.toHaveBeenCalled();
+		});
+
+		it("finishes the curve when the last control point is clicked", () => {
+			setup();
+
+			curveMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			curveMode.onClick(MockCursorEvent({ lng: 2, lat: 2 }));
+			curveMode.onClick(MockCursorEvent({ lng: 4, lat: 0 }));
+			curveMode.onClick(MockCursorEvent({ lng: 4, lat: 0 }));
+
+			expect(curveMode.state).toBe("started");
+			expect(getControlPoints()).toHaveLength(0);
+
+			const finished = getCurve();
+			expect(finished?.properties).toMatchObject({
+				mode: "curve",
+				[CURVE_PROPERTIES.CONTROL_POINTS]: [
+					[0, 0],
+					[2, 2],
+					[4, 0],
+				],
+				[CURVE_PROPERTIES.CURVE_TYPE]: "catmull-rom",
+				[CURVE_PROPERTIES.RESOLUTION]: 16,
+			});
+			expect(finished?.geometry.coordinates).toHaveLength(2 * 16 + 1);
+			expect(onFinish).toHaveBeenCalledWith(finished?.id, {
+				mode: "curve",
+				action: "draw",
+			});
+		});
+
+		it("does not finish a curve with a single control point", () => {
+			setup();
+
+			curveMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			curveMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+
+			expect(curveMode.state).toBe("drawing");
+			expect(onFinish).not.toHaveBeenCalled();
+		});
+
+		it("finishes the curve with the finish key", () => {
+			setup();
+
+			curveMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			curveMode.onClick(MockCursorEvent({ lng: 2, lat: 2 }));
+			curveMode.onKeyUp(MockKeyboardEvent({ key: "Enter" }));
+
+			expect(curveMode.state).toBe("started");
+			expect(onFinish).toHaveBeenCalledTimes(1);
+			expect(
+				getCurve()?.properties[CURVE_PROPERTIES.CONTROL_POINTS],
+			).toStrictEqual([
+				[0, 0],
+				[2, 2],
+			]);
+		});
+
+		it("cancels the curve with the cancel key", () => {
+			setup();
+
+			curveMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			curveMode.onClick(MockCursorEvent({ lng: 2, lat: 2 }));
+			curveMode.onKeyUp(MockKeyboardEvent({ key: "Escape" }));
+
+			expect(curveMode.state).toBe("started");
+			expect(store.copyAll()).toHaveLength(0);
+			expect(onChange).toHaveBeenLastCalledWith(expect.any(Array), "delete");
+		});
+
+		it("does nothing with null key events", () => {
+			setup({ keyEvents: null });
+
+			curveMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			curveMode.onClick(MockCursorEvent({ lng: 2, lat: 2 }));
+			curveMode.onKeyUp(MockKeyboardEvent({ key: "Enter" }));
+			curveMode.onKeyUp(MockKeyboardEvent({ key: "Escape" }));
+
+			expect(curveMode.state).toBe("drawing");
+			expect(onFinish).not.toHaveBeenCalled();
+		});
+
+		it("draws a closed polygon curve", () => {
+			setup({ geometryType: "Polygon", curveType: "bezier", resolution: 8 });
+
+			curveMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			curveMode.onClick(MockCursorEvent({ lng: 2, lat: 2 }));
+
+			// A polygon needs three control points
+			curveMode.onKeyUp(MockKeyboardEvent({ key: "Enter" }));
+			expect(onFinish).not.toHaveBeenCalled();
+
+			curveMode.onClick(MockCursorEvent({ lng: 4, lat: 0 }));
+			curveMode.onKeyUp(MockKeyboardEvent({ key: "Enter" }));
+
+			expect(onFinish).toHaveBeenCalledTimes(1);
+
+			const finished = getCurve();
+			expect(finished?.geometry.type).toBe("Polygon");
+
+			const [ring] = finished?.geometry.coordinates as number[][][];
+			expect(ring[0]).toStrictEqual(ring[ring.length - 1]);
+			expect(finished?.properties[CURVE_PROPERTIES.CURVE_TYPE]).toBe("bezier");
+			expect(finished?.properties[CURVE_PROPERTIES.RESOLUTION]).toBe(8);
+		});
+
+		it("does not add a control point if validation fails", () => {
+			setup({
+				validation: (_, { updateType }) => ({
+					valid: updateType !== "commit",
+				}),
+			});
+
+			curveMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			curveMode.onClick(MockCursorEvent({ lng: 2, lat: 2 }));
+
+			expect(getControlPoints()).toHaveLength(1);
+		});
+
+		it("removes the curve when the mode is stopped while drawing", () => {
+			setup();
+
+			curveMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			curveMode.onClick(MockCursorEvent({ lng: 2, lat: 2 }));
+			curveMode.stop();
+
+			expect(store.copyAll()).toHaveLength(0);
+		});
+	});
+
+	describe("validateFeature", () => {
+		const lineString = {
+			id: "5c582a42-c3a7-4bfc-b686-6036f311df3c",
+			type: "Feature",
+			geometry: {
+				type: "LineString",
+				coordinates: [
+					[0, 0],
+					[1, 1],
+					[2, 0],
+				],
+			},
+			properties: {
+				mode: "curve",
+				createdAt: 1685655516297,
+				updatedAt: 1685655518118,
+			},
+		};
+
+		it("returns true for a valid curve feature", () => {
+			const curveMode = new TerraDrawCurveMode();
+			curveMode.register(MockModeConfig("curve"));
+
+			expect(
+				curveMode.validateFeature({
+					...lineString,
+					properties: {
+						...lineString.properties,
+						[CURVE_PROPERTIES.CONTROL_POINTS]: [
+							[0, 0],
+							[2, 0],
+						],
+					},
+				}),
+			).toEqual({ valid: true });
+		});
+
+		it("returns true for a valid curve feature without control points", () => {
+			const curveMode = new TerraDrawCurveMode();
+			curveMode.register(MockModeConfig("curve"));
+
+			expect(curveMode.validateFeature(lineString)).toEqual({ valid: true });
+		});
+
+		it("returns false for a curve feature with invalid control points", () => {
+			const curveMode = new TerraDrawCurveMode();
+			curveMode.register(MockModeConfig("curve"));
+
+			expect(
+				curveMode.validateFeature({
+					...lineString,
+					properties: {
+						...lineString.properties,
+						[CURVE_PROPERTIES.CONTROL_POINTS]: [[0, 0]],
+					},
+				}),
+			).toEqual({
+				valid: false,
+				reason: ValidationReasonFeatureHasInvalidControlPoints,
+			});
+		});
+
+		it("returns false for a polygon when the mode draws linestrings", () => {
+			const curveMode = new TerraDrawCurveMode();
+			curveMode.register(MockModeConfig("curve"));
+
+			expect(
+				curveMode.validateFeature({
+					...lineString,
+					geometry: {
+						type: "Polygon",
+						coordinates: [
+							[
+								[0, 0],
+								[1, 1],
+								[2, 0],
+								[0, 0],
+							],
+						],
+					},
+				}).valid,
+			).toBe(false);
+		});
+	});
+
+	describe("styleFeature", () => {
+		it("returns the correct styles for a linestring", () => {
+			const curveMode = new TerraDrawCurveMode({
+				styles: {
+					lineStringColor: "#ffffff",
+					lineStringWidth: 4,
+				},
+			});
+
+			expect(
+				curveMode.styleFeature({
+					type: "Feature",
+					geometry: { type: "LineString", coordinates: [] },
+					properties: { mode: "curve" },
+				}),
+			).toMatchObject({
+				lineStringColor: "#ffffff",
+				lineStringWidth: 4,
+			});
+		});
+
+		it("returns the correct styles for a polygon using function", () => {
+			const curveMode = new TerraDrawCurveMode({
+				styles: {
+					fillColor: () => "#ffffff",
+					outlineColor: () => "#111111",
+					outlineWidth: () => 2,
+					fillOpacity: () => 0.5,
+				},
+			});
+
+			expect(
+				curveMode.styleFeature({
+					type: "Feature",
+					geometry: { type: "Polygon", coordinates: [] },
+					properties: { mode: "curve" },
+				}),
+			).toMatchObject({
+				polygonFillColor: "#ffffff",
+				polygonOutlineColor: "#111111",
+				polygonOutlineWidth: 2,
+				polygonFillOpacity: 0.5,
+			});
+		});
+
+		it("returns the correct styles for a control point", () => {
+			const curveMode = new TerraDrawCurveMode({
+				styles: {
+					controlPointColor: "#ff0000",
+					controlPointWidth: 6,
+				},
+			});
+
+			expect(
+				curveMode.styleFeature({
+					type: "Feature",
+					geometry: { type: "Point", coordinates: [] },
+					properties: {
+						mode: "curve",
+						[COMMON_PROPERTIES.CONTROL_POINT]: true,
+					},
+				}),
+			).toMatchObject({
+				pointColor: "#ff0000",
+				pointWidth: 6,
+				pointOutlineColor: "#ffffff",
+				pointOutlineWidth: 2,
+				zIndex: 40,
+			});
+		});
+	});
+});
@@ -0,0 +1,527 @@
+import {
+	TerraDrawMouseEvent,
+	TerraDrawAdapterStyling,
+	TerraDrawKeyboardEvent,
+	HexColorStyling,
+	NumericStyling,
+	Cursor,
+	UpdateTypes,
+	COMMON_PROPERTIES,
+	CURVE_PROPERTIES,
+	Validation,
+} from "../../common";
+import { LineString, Polygon, Position } from "geojson";
+import {
+	TerraDrawBaseDrawMode,
+	BaseModeOptions,
+	CustomStyling,
+} from "../base.mode";
+import { coordinatesIdentical } from "../../geometry/coordinates-identical";
+import { cartesianDistance } from "../../geometry/measure/pixel-distance";
+import { curve, CurveType } from "../../geometry/shape/create-curve";
+import { coordinateIsValid } from "../../geometry/boolean/is-valid-coordinate";
+import { getDefaultStyling } from "../../util/styling";
+import {
+	FeatureId,
+	GeoJSONStoreFeatures,
+	StoreValidation,
+} from "../../store/store";
+import { ValidatePolygonFeature } from "../../validations/polygon.validation";
+import { ValidateLineStringFeature } from "../../validations/linestring.validation";
+
+export const ValidationReasonFeatureHasInvalidControlPoints =
+	"Feature has invalid control points";
+
+type TerraDrawCurveModeKeyEvents = {
+	cancel?: KeyboardEvent["key"] | null;
+	finish?: KeyboardEvent["key"] | null;
+};
+
+type CurveStyling = {
+	lineStringColor: HexColorStyling;
+	lineStringWidth: NumericStyling;
+	fillColor: HexColorStyling;
+	fillOpacity: NumericStyling;
+	outlineColor: HexColorStyling;
+	outlineWidth: NumericStyling;
+	controlPointColor: HexColorStyling;
+	controlPointWidth: NumericStyling;
+	controlPointOutlineColor: HexColorStyling;
+	controlPointOutlineWidth: NumericStyling;
+};
+
+interface Cursors {
+	start?: Cursor;
+	close?: Cursor;
+}
+
+interface TerraDrawCurveModeOptions<T extends CustomStyling>
+	extends BaseModeOptions<T> {
+	curveType?: CurveType;
+	// The number of coordinates between each pair of control points
+	resolution?: number;
+	geometryType?: "LineString" | "Polygon";
+	pointerDistance?: number;
+	keyEvents?: TerraDrawCurveModeKeyEvents | null;
+	cursors?: Cursors;
+}
+
+export class TerraDrawCurveMode extends TerraDrawBaseDrawMode<CurveStyling> {
+	mode = "curve";
+
+	private currentId: FeatureId | undefined;
+	private controlPoints: Position[] = [];
+	private controlPointIds: FeatureId[] = [];
+	private keyEvents: TerraDrawCurveModeKeyEvents;
+	private cursors: Required<Cursors>;
+	private curveType: CurveType;
+	private resolution: number;
+	private geometryType: "LineString" | "Polygon";
+	private mouseMove = false;
+
+	constructor(options?: TerraDrawCurveModeOptions<CurveStyling>) {
+		super(options);
+
+		const defaultCursors = {
+			start: "crosshair",
+			close: "pointer",
+		} as Required<Cursors>;
+
+		if (options && options.cursors) {
+			this.cursors = { ...defaultCursors, ...options.cursors };
+		} else {
+			this.cursors = defaultCursors;
+		}
+
+		// We want to have some defaults, but also allow key bindings
+		// to be explicitly turned off
+		if (options?.keyEvents === null) {
+			this.keyEvents = { cancel: null, finish: null };
+		} else {
+			const defaultKeyEvents = { cancel: "Escape", finish: "Enter" };
+			this.keyEvents =
+				options && options.keyEvents
+					? { ...defaultKeyEvents, ...options.keyEvents }
+					: defaultKeyEvents;
+		}
+
+		this.validate = options?.validation;
+		this.curveType = options?.curveType || "catmull-rom";
+		this.resolution = options?.resolution || 16;
+		this.geometryType = options?.geometryType || "LineString";
+	}
+
+	// A LineString needs two control points and a Polygon three
+	private get minimumControlPoints() {
+		return this.geometryType === "Polygon" ? 3 : 2;
+	}
+
+	private getCurveGeometry(controlPoints: Position[]): LineString | Polygon {
+		const closed = this.geometryType === "Polygon";
+		const coordinates = curve({
+			controlPoints,
+			type: this.curveType,
+			resolution: this.resolution,
+			closed,
+			coordinatePrecision: this.coordinatePrecision,
+		});
+
+		return closed
+			? { type: "Polygon", coordinates: [coordinates] }
+			: { type: "LineString", coordinates };
+	}
+
+	private updateCurveGeometry(
+		controlPoints: Position[],
+		updateType: UpdateTypes,
+	) {
+		if (this.currentId === undefined) {
+			return false;
+		}
+
+		const geometry = this.getCurveGeometry(controlPoints);
+
+		// Until there are enough distinct control points the curve can
+		// collapse into too few coordinates, so we keep the previous geometry
+		if (geometry.type === "Polygon" && geometry.coordinates[0].length < 4) {
+			return false;
+		}
+
+		if (this.validate) {
+			const validationResult = this.validate(
+				{
+					type: "Feature",
+					geometry,
+				} as GeoJSONStoreFeatures,
+				{
+					project: this.project,
+					unproject: this.unproject,
+					coordinatePrecision: this.coordinatePrecision,
+					updateType,
+				},
+			);
+
+			if (!validationResult.valid) {
+				return false;
+			}
+		}
+
+		this.store.updateGeometry([{ id: this.currentId, geometry }]);
+
+		return true;
+	}
+
+	private isLastControlPoint(event: TerraDrawMouseEvent) {
+		const lastControlPoint = this.controlPoints[this.controlPoints.length - 1];
+		if (!lastControlPoint) {
+			return false;
+		}
+
+		const { x, y } = this.project(lastControlPoint[0], lastControlPoint[1]);
+		const distance = cartesianDistance(
+			{ x, y },
+			{ x: event.containerX, y: event.containerY },
+		);
+
+		return distance < this.pointerDistance;
+	}
+
+	private createCurve(coordinate: Position) {
+		const [createdId] = this.store.create([
+			{
+				geometry:
+					this.geometryType === "Polygon"
+						? {
+								type: "Polygon",
+								coordinates: [[coordinate, coordinate, coordinate, coordinate]],
+						  }
+						: { type: "LineString", coordinates: [coordinate, coordinate] },
+				properties: { mode: this.mode },
+			},
+		]);
+
+		this.currentId = createdId;
+		this.addControlPoint(coordinate);
+		this.setDrawing();
+	}
+
+	private addControlPoint(coordinate: Position) {
+		this.controlPoints.push(coordinate);
+
+		const [controlPointId] = this.store.create([
+			{
+				geometry: { type: "Point", coordinates: coordinate },
+				properties: {
+					mode: this.mode,
+					[COMMON_PROPERTIES.CONTROL_POINT]: true,
+				},
+			},
+		]);
+		this.controlPointIds.push(controlPointId);
+	}
+
+	private close() {
+		if (
+			this.currentId === undefined ||
+			this.controlPoints.length < this.minimumControlPoints
+		) {
+			return;
+		}
+
+		const updated = this.updateCurveGeometry(
+			this.controlPoints,
+			UpdateTypes.Finish,
+		);
+
+		if (!updated) {
+			return;
+		}
+
+		const finishedId = this.currentId;
+
+		this.store.updateProperty([
+			{
+				id: finishedId,
+				property: CURVE_PROPERTIES.CONTROL_POINTS,
+				value: this.controlPoints,
+			},
+			{
+				id: finishedId,
+				property: CURVE_PROPERTIES.CURVE_TYPE,
+				value: this.curveType,
+			},
+			{
+				id: finishedId,
+				property: CURVE_PROPERTIES.RESOLUTION,
+				value: this.resolution,
+			},
+		]);
+
+		this.store.delete(this.controlPointIds);
+
+		this.currentId = undefined;
+		this.controlPoints = [];
+		this.controlPointIds = [];
+
+		// Go back to started state
+		if (this.state === "drawing") {
+			this.setStarted();
+		}
+
+		this.onFinish(finishedId, { mode: this.mode, action: "draw" });
+	}
+
+	/** @internal */
+	start() {
+		this.setStarted();
+		this.setCursor(this.cursors.start);
+	}
+
+	/** @internal */
+	stop() {
+		this.cleanUp();
+		this.setStopped();
+		this.setCursor("unset");
+	}
+
+	/** @internal */
+	onMouseMove(event: TerraDrawMouseEvent) {
+		this.mouseMove = true;
+
+		if (this.currentId === undefined) {
+			this.setCursor(this.cursors.start);
+			return;
+		}
+
+		// Show that clicking the last control point finishes the curve
+		const canClose =
+			this.controlPoints.length >= this.minimumControlPoints &&
+			this.isLastControlPoint(event);
+		this.setCursor(canClose ? this.cursors.close : this.cursors.start);
+
+		const liveCoordinate = [event.lng, event.lat];
+		const lastControlPoint = this.controlPoints[this.controlPoints.length - 1];
+
+		if (coordinatesIdentical(liveCoordinate, lastControlPoint)) {
+			return;
+		}
+
+		this.updateCurveGeometry(
+			[...this.controlPoints, liveCoordinate],
+			UpdateTypes.Provisional,
+		);
+	}
+
+	/** @internal */
+	onClick(event: TerraDrawMouseEvent) {
+		// We want pointer devices (mobile/tablet) to have
+		// similar behaviour to mouse based devices so we
+		// trigger a mousemove event before every click
+		// if one has not been trigged to emulate this
+		if (this.currentId !== undefined && !this.mouseMove) {
+			this.onMouseMove(event);
+		}
+		this.mouseMove = false;
+
+		const coordinate = [event.lng, event.lat];
+
+		if (this.currentId === undefined) {
+			this.createCurve(coordinate);
+			return;
+		}
+
+		// Clicking the last control point again finishes the curve
+		if (this.isLastControlPoint(event)) {
+			this.close();
+			return;
+		}
+
+		const updated = this.updateCurveGeometry(
+			[...this.controlPoints, coordinate],
+			UpdateTypes.Commit,
+		);
+
+		if (!updated) {
+			return;
+		}
+
+		this.addControlPoint(coordinate);
+	}
+
+	/** @internal */
+	onKeyUp(event: TerraDrawKeyboardEvent) {
+		if (event.key === this.keyEvents.cancel) {
+			this.cleanUp();
+		} else if (event.key === this.keyEvents.finish) {
+			this.close();
+		}
+	}
+
+	/** @internal */
+	onKeyDown() {}
+
+	/** @internal */
+	onDoubleTap() {
+		this.close();
+	}
+
+	/** @internal */
+	onDragStart() {}
+
+	/** @internal */
+	onDrag() {}
+
+	/** @internal */
+	onDragEnd() {}
+
+	/** @internal */
+	cleanUp() {
+		const cleanUpId = this.currentId;
+		const controlPointIds = this.controlPointIds;
+
+		this.currentId = undefined;
+		this.controlPoints = [];
+		this.controlPointIds = [];
+		if (this.state === "drawing") {
+			this.setStarted();
+		}
+
+		try {
+			if (cleanUpId !== undefined) {
+				this.store.delete([cleanUpId]);
+			}
+			if (controlPointIds.length) {
+				this.store.delete(controlPointIds);
+			}
+		} catch (error) {}
+	}
+
+	/** @internal */
+	styleFeature(feature: GeoJSONStoreFeatures): TerraDrawAdapterStyling {
+		const styles = { ...getDefaultStyling() };
+
+		if (feature.properties.mode !== this.mode) {
+			return styles;
+		}
+
+		if (feature.geometry.type === "Polygon") {
+			styles.polygonFillColor = this.getHexColorStylingValue(
+				this.styles.fillColor,
+				styles.polygonFillColor,
+				feature,
+			);
+
+			styles.polygonOutlineColor = this.getHexColorStylingValue(
+				this.styles.outlineColor,
+				styles.polygonOutlineColor,
+				feature,
+			);
+
+			styles.polygonOutlineWidth = this.getNumericStylingValue(
+				this.styles.outlineWidth,
+				styles.polygonOutlineWidth,
+				feature,
+			);
+
+			styles.polygonFillOpacity = this.getNumericStylingValue(
+				this.styles.fillOpacity,
+				styles.polygonFillOpacity,
+				feature,
+			);
+
+			styles.zIndex = 10;
+		} else if (feature.geometry.type === "LineString") {
+			styles.lineStringColor = this.getHexColorStylingValue(
+				this.styles.lineStringColor,
+				styles.lineStringColor,
+				feature,
+			);
+
+			styles.lineStringWidth = this.getNumericStylingValue(
+				this.styles.lineStringWidth,
+				styles.lineStringWidth,
+				feature,
+			);
+
+			styles.zIndex = 10;
+		} else if (
+			feature.geometry.type === "Point" &&
+			feature.properties[COMMON_PROPERTIES.CONTROL_POINT]
+		) {
+			styles.pointColor = this.getHexColorStylingValue(
+				this.styles.controlPointColor,
+				styles.pointColor,
+				feature,
+			);
+
+			styles.pointWidth = this.getNumericStylingValue(
+				this.styles.controlPointWidth,
+				styles.pointWidth,
+				feature,
+			);
+
+			styles.pointOutlineColor = this.getHexColorStylingValue(
+				this.styles.controlPointOutlineColor,
+				"#ffffff",
+				feature,
+			);
+
+			styles.pointOutlineWidth = this.getNumericStylingValue(
+				this.styles.controlPointOutlineWidth,
+				2,
+				feature,
+			);
+
+			styles.zIndex = 40;
+		}
+
+		return styles;
+	}
+
+	validateFeature(feature: unknown): StoreValidation {
+		return this.validateModeFeature(feature, (baseValidatedFeature) => {
+			const geometryValidation: ReturnType<Validation> =
+				this.geometryType === "Polygon"
+					? ValidatePolygonFeature(
+							baseValidatedFeature,
+							this.coordinatePrecision,
+					  )
+					: ValidateLineStringFeature(
+							baseValidatedFeature,
+							this.coordinatePrecision,
+					  );
+
+			if (!geometryValidation.valid) {
+				return geometryValidation;
+			}
+
+			// Features without control points can still be added,
+			// but they can only be edited by their coordinates
+			const controlPoints =
+				baseValidatedFeature.properties[CURVE_PROPERTIES.CONTROL_POINTS];
+
+			if (
+				controlPoints !== undefined &&
+				!(
+					Array.isArray(controlPoints) &&
+					controlPoints.length >= this.minimumControlPoints &&
+					controlPoints.every(
+						(coordinate) =>
+							Array.isArray(coordinate) &&
+							coordinateIsValid(
+								coordinate as Position,
+								this.coordinatePrecision,
+							),
+					)
+				)
+			) {
+				return {
+					valid: false,
+					reason: ValidationReasonFeatureHasInvalidControlPoints,
+				};
+			}
+
+			return { valid: true };
+		});
+	}
+}
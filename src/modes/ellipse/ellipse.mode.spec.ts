@@ -0,0 +1,235 @@
+import { Polygon } from "geojson";
+import { GeoJSONStore } from "../../store/store";
+import { MockModeConfig } from "../../test/mock-mode-config";
+import { MockCursorEvent } from "../../test/mock-cursor-event";
+import { MockKeyboardEvent } from "../../test/mock-keyboard-event";
+import { haversineDistanceKilometers } from "../../geometry/measure/haversine-distance";
+import { TerraDrawEllipseMode } from "./ellipse.mode";
+
+describe("TerraDrawEllipseMode", () => {
+	describe("constructor", () => {
+		it("constructs with no options", () => {
+			const ellipseMode = new TerraDrawEllipseMode();
+			expect(ellipseMode.mode).toBe("ellipse");
+			expect(ellipseMode.styles).toStrictEqual({});
+		});
+
+		it("constructs with options", () => {
+			const ellipseMode = new TerraDrawEllipseMode({
+				styles: { outlineColor: "#ffffff" },
+				keyEvents: { cancel: "Backspace", finish: "Enter" },
+				cursors: { start: "pointer" },
+				startingRadiusKilometers: 0.1,
+				projection: "globe",
+			});
+			expect(ellipseMode.styles).toStrictEqual({
+				outlineColor: "#ffffff",
+			});
+		});
+
+		it("constructs with null key events", () => {
+			new TerraDrawEllipseMode({ keyEvents: null });
+		});
+	});
+
+	describe("lifecycle", () => {
+		it("registers correctly", () => {
+			const ellipseMode = new TerraDrawEllipseMode();
+			expect(ellipseMode.state).toBe("unregistered");
+			ellipseMode.register(MockModeConfig(ellipseMode.mode));
+			expect(ellipseMode.state).toBe("registered");
+		});
+
+		it("can start and stop correctly", () => {
+			const ellipseMode = new TerraDrawEllipseMode();
+			ellipseMode.register(MockModeConfig(ellipseMode.mode));
+
+			ellipseMode.start();
+			expect(ellipseMode.state).toBe("started");
+
+			ellipseMode.stop();
+			expect(ellipseMode.state).toBe("stopped");
+		});
+	});
+
+	describe("drawing", () => {
+		let ellipseMode: TerraDrawEllipseMode;
+		let store: GeoJSONStore;
+		let onFinish: jest.Mock;
+
+		const setup = (
+			options?: ConstructorParameters<typeof TerraDrawEllipseMode>[0],
+		) => {
+			ellipseMode = new TerraDrawEllipseMode(options);
+			const mockConfig = MockModeConfig(ellipseMode.mode);
+			store = mockConfig.store;
+			onFinish = mockConfig.onFinish;
+			ellipseMode.register(mockConfig);
+			ellipseMode.start();
+		};
+
+		const getEllipse = () => store.copyAll()[0];
+
+		it("creates an ellipse on the first click", () => {
+			setup();
+
+			ellipseMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+
+			expect(ellipseMode.state).toBe("drawing");
+			expect(getEllipse().geometry.type).toBe("Polygon");
+			expect(getEllipse().properties).toMatchObject({
+				mode: "ellipse",
+				majorRadiusKilometers: 0.00001,
+				minorRadiusKilometers: 0.00001,
+				rotation: 0,
+			});
+		});
+
+		it("follows the cursor as a circle until the major axis is set", () => {
+			setup();
+
+			ellipseMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			ellipseMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 0 }));
+
+			const { properties } = getEllipse();
+			expect(properties.majorRadiusKilometers).toBeCloseTo(111.19, 1);
+			expect(properties.minorRadiusKilometers).toBe(
+				properties.majorRadiusKilometers,
+			);
+			expect(properties.rotation).toBeCloseTo(90, 6);
+		});
+
+		it("sets the minor radius after the major axis is set", () => {
+			setup();
+
+			ellipseMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			ellipseMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 0 }));
+			ellipseMode.onClick(MockCursorEvent({ lng: 1, lat: 0 }));
+			ellipseMode.onMouseMove(MockCursorEvent({ lng: 0, lat: 0.5 }));
+
+			const { properties } = getEllipse();
+			expect(properties.majorRadiusKilometers).toBeCloseTo(111.19, 1);
+			expect(properties.minorRadiusKilometers).toBeCloseTo(55.6, 1);
+			expect(properties.rotation).toBeCloseTo(90, 6);
+
+			ellipseMode.onClick(MockCursorEvent({ lng: 0, lat: 0.5 }));
+
+			expect(ellipseMode.state).toBe("started");
+			expect(onFinish).toHaveBeenCalledWith(expect.any(String), {
+				mode: "ellipse",
+				action: "draw",
+			});
+
+			// The ellipse is wider than it is tall
+			const [ring] = (getEllipse().geometry as Polygon).coordinates;
+			const lngs = ring.map(([lng]) => Math.abs(lng));
+			const lats = ring.map(([, lat]) => Math.abs(lat));
+			expect(Math.max(...lngs)).toBeCloseTo(1, 6);
+			expect(Math.max(...lats)).toBeCloseTo(0.5, 2);
+		});
+
+		it("draws the ellipse on the globe", () => {
+			setup({ projection: "globe" });
+
+			ellipseMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			ellipseMode.onClick(MockCursorEvent({ lng: 0, lat: 1 }));
+			ellipseMode.onMouseMove(MockCursorEvent({ lng: 0.5, lat: 0 }));
+			ellipseMode.onKeyUp(MockKeyboardEvent({ key: "Enter" }));
+
+			expect(onFinish).toHaveBeenCalledTimes(1);
+
+			const [ring] = (getEllipse().geometry as Polygon).coordinates;
+			const distances = ring.map((coordinate) =>
+				haversineDistanceKilometers([0, 0], coordinate),
+			);
+			expect(Math.max(...distances)).toBeCloseTo(111.19, 0);
+			expect(Math.min(...distances)).toBeCloseTo(55.6, 0);
+		});
+
+		it("does not set the major axis on the center", () => {
+			setup();
+
+			ellipseMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			ellipseMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			ellipseMode.onClick(MockCursorEvent({ lng: 1, lat: 0 }));
+
+			expect(onFinish).not.toHaveBeenCalled();
+		});
+
+		it("cancels the ellipse with the cancel key", () => {
+			setup();
+
+			ellipseMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			ellipseMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 0 }));
+			ellipseMode.onKeyUp(MockKeyboardEvent({ key: "Escape" }));
+
+			expect(ellipseMode.state).toBe("started");
+			expect(store.copyAll()).toHaveLength(0);
+		});
+
+		it("does not update the ellipse if validation fails", () => {
+			setup({
+				validation: (_, { updateType }) => ({
+					valid: updateType !== "provisional",
+				}),
+			});
+
+			ellipseMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			ellipseMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 0 }));
+
+			expect(getEllipse().properties.majorRadiusKilometers).toBe(0.00001);
+		});
+	});
+
+	describe("styleFeature", () => {
+		it("returns the correct styles for polygon", () => {
+			const ellipseMode = new TerraDrawEllipseMode({
+				styles: {
+					fillColor: "#ffffff",
+					outlineColor: "#111111",
+					outlineWidth: 2,
+					fillOpacity: () => 0.5,
+				},
+			});
+
+			expect(
+				ellipseMode.styleFeature({
+					type: "Feature",
+					geometry: { type: "Polygon", coordinates: [] },
+					properties: { mode: "ellipse" },
+				}),
+			).toMatchObject({
+				polygonFillColor: "#ffffff",
+				polygonOutlineColor: "#111111",
+				polygonOutlineWidth: 2,
+				polygonFillOpacity: 0.5,
+			});
+		});
+	});
+
+	describe("validateFeature", () => {
+		it("returns false for a feature that is not a polygon", () => {
+			const ellipseMode = new TerraDrawEllipseMode();
+			ellipseMode.register(MockModeConfig("ellipse"));
+
+			expect(
+				ellipseMode.validateFeature({
+					id: "5c582a42-c3a7-4bfc-b686-6036f311df3c",
+					type: "Feature",
+					geometry: {
+						type: "LineString",
+						coordinates: [
+							[0, 0],
+							[1, 1],
+						],
+					},
+					properties: {
+						mode: "ellipse",
+						createdAt: 1685655516297,
+						updatedAt: 1685655518118,
+					},
+				}).valid,
+			).toBe(false);
+		});
+	});
+});
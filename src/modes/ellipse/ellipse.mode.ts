@@ -0,0 +1,420 @@
+import { Feature, Polygon, Position } from "geojson";
+import {
+	TerraDrawMouseEvent,
+	TerraDrawAdapterStyling,
+	TerraDrawKeyboardEvent,
+	HexColorStyling,
+	NumericStyling,
+	Cursor,
+	UpdateTypes,
+	Projection,
+} from "../../common";
+import { haversineDistanceKilometers } from "../../geometry/measure/haversine-distance";
+import { bearing } from "../../geometry/measure/bearing";
+import {
+	ellipse,
+	ellipseWebMercator,
+} from "../../geometry/shape/create-ellipse";
+import { lngLatToWebMercatorXY } from "../../geometry/project/web-mercator";
+import { radiansToDegrees } from "../../geometry/helpers";
+import {
+	FeatureId,
+	GeoJSONStoreFeatures,
+	StoreValidation,
+} from "../../store/store";
+import { getDefaultStyling } from "../../util/styling";
+import {
+	BaseModeOptions,
+	CustomStyling,
+	TerraDrawBaseDrawMode,
+} from "../base.mode";
+import { ValidateNonIntersectingPolygonFeature } from "../../validations/polygon.validation";
+
+type TerraDrawEllipseModeKeyEvents = {
+	cancel: KeyboardEvent["key"] | null;
+	finish: KeyboardEvent["key"] | null;
+};
+
+type EllipsePolygonStyling = {
+	fillColor: HexColorStyling;
+	outlineColor: HexColorStyling;
+	outlineWidth: NumericStyling;
+	fillOpacity: NumericStyling;
+};
+
+interface Cursors {
+	start?: Cursor;
+}
+
+interface TerraDrawEllipseModeOptions<T extends CustomStyling>
+	extends BaseModeOptions<T> {
+	keyEvents?: TerraDrawEllipseModeKeyEvents | null;
+	cursors?: Cursors;
+	startingRadiusKilometers?: number;
+	projection?: Projection;
+}
+
+type EllipseRadius = {
+	// The radius used to create the geometry, which is in web mercator kilometers
+	// for the web mercator projection
+	radius: number;
+	radiusKilometers: number;
+	rotation: number;
+};
+
+export class TerraDrawEllipseMode extends TerraDrawBaseDrawMode<EllipsePolygonStyling> {
+	mode = "ellipse";
+	private center: Position | undefined;
+	private major: EllipseRadius | undefined;
+	private clickCount = 0;
+	private currentEllipseId: FeatureId | undefined;
+	private keyEvents: TerraDrawEllipseModeKeyEvents;
+	private cursors: Required<Cursors>;
+	private startingRadiusKilometers = 0.00001;
+
+	/**
+	 * Create a new ellipse mode instance
+	 * @param options - Options to customize the behavior of the ellipse mode
+	 * @param options.keyEvents - Key events to cancel or finish the mode
+	 * @param options.cursors - Cursors to use for the mode
+	 * @param options.styles - Custom styling for the ellipse
+	 * @param options.startingRadiusKilometers - The radius of the ellipse when it is first created
+	 * @param options.projection - Whether the ellipse is elliptical in web mercator or on the globe
+	 */
+	constructor(options?: TerraDrawEllipseModeOptions<EllipsePolygonStyling>) {
+		super(options);
+
+		const defaultCursors = {
+			start: "crosshair",
+		} as Required<Cursors>;
+
+		if (options && options.cursors) {
+			this.cursors = { ...defaultCursors, ...options.cursors };
+		} else {
+			this.cursors = defaultCursors;
+		}
+
+		// We want to have some defaults, but also allow key bindings
+		// to be explicitly turned off
+		if (options?.keyEvents === null) {
+			this.keyEvents = { cancel: null, finish: null };
+		} else {
+			const defaultKeyEvents = { cancel: "Escape", finish: "Enter" };
+			this.keyEvents =
+				options && options.keyEvents
+					? { ...defaultKeyEvents, ...options.keyEvents }
+					: defaultKeyEvents;
+		}
+
+		this.startingRadiusKilometers =
+			options?.startingRadiusKilometers ?? 0.00001;
+		this.validate = options?.validation;
+	}
+
+	private close() {
+		if (this.currentEllipseId === undefined) {
+			return;
+		}
+
+		const finishedId = this.currentEllipseId;
+
+		if (this.validate && finishedId) {
+			const currentGeometry = this.store.getGeometryCopy<Polygon>(finishedId);
+
+			const validationResult = this.validate(
+				{
+					type: "Feature",
+					id: finishedId,
+					geometry: currentGeometry,
+					properties: {},
+				},
+				{
+					project: this.project,
+					unproject: this.unproject,
+					coordinatePrecision: this.coordinatePrecision,
+					updateType: UpdateTypes.Finish,
+				},
+			);
+
+			if (!validationResult.valid) {
+				return;
+			}
+		}
+
+		this.center = undefined;
+		this.major = undefined;
+		this.currentEllipseId = undefined;
+		this.clickCount = 0;
+		// Go back to started state
+		if (this.state === "drawing") {
+			this.setStarted();
+		}
+
+		// Ensure that any listerers are triggered with the main created geometry
+		this.onFinish(finishedId, { mode: this.mode, action: "draw" });
+	}
+
+	/** @internal */
+	start() {
+		this.setStarted();
+		this.setCursor(this.cursors.start);
+	}
+
+	/** @internal */
+	stop() {
+		this.cleanUp();
+		this.setStopped();
+		this.setCursor("unset");
+	}
+
+	/** @internal */
+	onClick(event: TerraDrawMouseEvent) {
+		if (this.clickCount === 0) {
+			this.center = [event.lng, event.lat];
+			const startingEllipse = ellipse({
+				center: this.center,
+				majorRadiusKilometers: this.startingRadiusKilometers,
+				minorRadiusKilometers: this.startingRadiusKilometers,
+				rotation: 0,
+				coordinatePrecision: this.coordinatePrecision,
+			});
+
+			const [createdId] = this.store.create([
+				{
+					geometry: startingEllipse.geometry,
+					properties: {
+						mode: this.mode,
+						majorRadiusKilometers: this.startingRadiusKilometers,
+						minorRadiusKilometers: this.startingRadiusKilometers,
+						rotation: 0,
+					},
+				},
+			]);
+			this.currentEllipseId = createdId;
+			this.clickCount++;
+			this.setDrawing();
+		} else if (this.clickCount === 1) {
+			// The major axis is fixed by the second click, then
+			// the cursor sets the minor radius
+			const major = this.measure(event);
+			if (major.radius === 0) {
+				return;
+			}
+
+			this.updateEllipse(event);
+			this.major = major;
+			this.clickCount++;
+		} else {
+			this.updateEllipse(event);
+
+			// Finish drawing
+			this.close();
+		}
+	}
+
+	/** @internal */
+	onMouseMove(event: TerraDrawMouseEvent) {
+		this.updateEllipse(event);
+	}
+
+	/** @internal */
+	onKeyDown() {}
+
+	/** @internal */
+	onKeyUp(event: TerraDrawKeyboardEvent) {
+		if (event.key === this.keyEvents.cancel) {
+			this.cleanUp();
+		} else if (event.key === this.keyEvents.finish) {
+			this.close();
+		}
+	}
+
+	/** @internal */
+	onDoubleTap() {
+		this.close();
+	}
+
+	/** @internal */
+	onDragStart() {}
+
+	/** @internal */
+	onDrag() {}
+
+	/** @internal */
+	onDragEnd() {}
+
+	/** @internal */
+	cleanUp() {
+		const cleanUpId = this.currentEllipseId;
+
+		this.center = undefined;
+		this.major = undefined;
+		this.currentEllipseId = undefined;
+		this.clickCount = 0;
+		if (this.state === "drawing") {
+			this.setStarted();
+		}
+
+		try {
+			if (cleanUpId !== undefined) {
+				this.store.delete([cleanUpId]);
+			}
+		} catch {}
+	}
+
+	/** @internal */
+	styleFeature(feature: GeoJSONStoreFeatures): TerraDrawAdapterStyling {
+		const styles = { ...getDefaultStyling() };
+
+		if (
+			feature.type === "Feature" &&
+			feature.geometry.type === "Polygon" &&
+			feature.properties.mode === this.mode
+		) {
+			styles.polygonFillColor = this.getHexColorStylingValue(
+				this.styles.fillColor,
+				styles.polygonFillColor,
+				feature,
+			);
+
+			styles.polygonOutlineColor = this.getHexColorStylingValue(
+				this.styles.outlineColor,
+				styles.polygonOutlineColor,
+				feature,
+			);
+
+			styles.polygonOutlineWidth = this.getNumericStylingValue(
+				this.styles.outlineWidth,
+				styles.polygonOutlineWidth,
+				feature,
+			);
+
+			styles.polygonFillOpacity = this.getNumericStylingValue(
+				this.styles.fillOpacity,
+				styles.polygonFillOpacity,
+				feature,
+			);
+
+			styles.zIndex = 10;
+
+			return styles;
+		}
+
+		return styles;
+	}
+
+	validateFeature(feature: unknown): StoreValidation {
+		return this.validateModeFeature(feature, (baseValidatedFeature) =>
+			ValidateNonIntersectingPolygonFeature(
+				baseValidatedFeature,
+				this.coordinatePrecision,
+			),
+		);
+	}
+
+	// Measures the radius and direction from the center of the ellipse to the cursor
+	private measure(event: TerraDrawMouseEvent): EllipseRadius {
+		const center = this.center as Position;
+		const radiusKilometers = haversineDistanceKilometers(center, [
+			event.lng,
+			event.lat,
+		]);
+
+		if (this.projection === "web-mercator") {
+			// We want to track the mouse cursor, so the radius and the rotation
+			// are measured in web mercator rather than on the globe
+			const { x: centerX, y: centerY } = lngLatToWebMercatorXY(
+				center[0],
+				center[1],
+			);
+			const { x, y } = lngLatToWebMercatorXY(event.lng, event.lat);
+
+			return {
+				radius: Math.hypot(x - centerX, y - centerY) / 1000,
+				radiusKilometers,
+				rotation: radiansToDegrees(Math.atan2(x - centerX, y - centerY)),
+			};
+		} else if (this.projection === "globe") {
+			return {
+				radius: radiusKilometers,
+				radiusKilometers,
+				rotation: bearing(center, [event.lng, event.lat]),
+			};
+		} else {
+			throw new Error("Invalid projection");
+		}
+	}
+
+	private updateEllipse(event: TerraDrawMouseEvent) {
+		if (
+			this.clickCount === 0 ||
+			!this.center ||
+			this.currentEllipseId === undefined
+		) {
+			return;
+		}
+
+		const cursor = this.measure(event);
+
+		// Until the major axis is set the ellipse is a circle following the cursor
+		const major = this.major || cursor;
+		const minor = cursor;
+
+		if (major.radius === 0 || minor.radius === 0) {
+			return;
+		}
+
+		const options = {
+			center: this.center,
+			majorRadiusKilometers: major.radius,
+			minorRadiusKilometers: minor.radius,
+			rotation: major.rotation,
+			coordinatePrecision: this.coordinatePrecision,
+		};
+
+		const updatedEllipse: Feature<Polygon> =
+			this.projection === "web-mercator"
+				? ellipseWebMercator(options)
+				: ellipse(options);
+
+		const properties = {
+			majorRadiusKilometers: major.radiusKilometers,
+			minorRadiusKilometers: minor.radiusKilometers,
+			rotation: major.rotation,
+		};
+
+		if (this.validate) {
+			const valid = this.validate(
+				{
+					type: "Feature",
+					id: this.currentEllipseId,
+					geometry: updatedEllipse.geometry,
+					properties,
+				},
+				{
+					project: this.project,
+					unproject: this.unproject,
+					coordinatePrecision: this.coordinatePrecision,
+					updateType: UpdateTypes.Provisional,
+				},
+			);
+
+			if (!valid.valid) {
+				return;
+			}
+		}
+
+		this.store.updateGeometry([
+			{ id: this.currentEllipseId, geometry: updatedEllipse.geometry },
+		]);
+
+		const id = this.currentEllipseId;
+		this.store.updateProperty(
+			Object.entries(properties).map(([property, value]) => ({
+				id,
+				property,
+				value,
+			})),
+		);
+	}
+}
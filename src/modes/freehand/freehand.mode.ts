@@ -328,6 +328,11 @@ export class TerraDrawFreehandMode extends TerraDrawBaseDrawMode<FreehandPolygon
 		}
 	}
 
+	/** @internal */
+	onDoubleTap() {
+		this.close();
+	}
+
 	/** @internal */
 	onDragStart() {}
 
@@ -73,6 +73,53 @@ describe("LineSnappingBehavior", () => {
 						);
 					});
 				});
+
+				describe("with a snapping target", () => {
+					it("snaps to the lines of features from other modes", () => {
+						createStorePolygon(config, undefined, false, "polygon");
+
+						const event = MockCursorEvent({ lng: -0.1, lat: 0.5 });
+
+						expect(
+							lineSnappingBehavior.getSnappableCoordinate(event, "currentId"),
+						).toBe(undefined);
+
+						const snappedCoord = lineSnappingBehavior.getSnappableCoordinate(
+							event,
+							"currentId",
+							{},
+						);
+
+						expect(snappedCoord && snappedCoord[0]).toBeCloseTo(0);
+						expect(snappedCoord && snappedCoord[1]).toBeCloseTo(0.5);
+					});
+
+					it("only snaps to features allowed by the filter", () => {
+						createStorePolygon(config, undefined, false, "polygon");
+
+						const snappedCoord =
+							lineSnappingBehavior.getSnappableCoordinateFirstClick(
+								MockCursorEvent({ lng: -0.1, lat: 0.5 }),
+								{
+									filter: (feature) => feature.properties.mode === "linestring",
+								},
+							);
+
+						expect(snappedCoord).toBe(undefined);
+					});
+
+					it("only snaps to lines within the tolerance", () => {
+						createStorePolygon(config, undefined, false, "polygon");
+
+						const snappedCoord =
+							lineSnappingBehavior.getSnappableCoordinateFirstClick(
+								MockCursorEvent({ lng: -0.3, lat: 0.5 }),
+								{ tolerance: 10 },
+							);
+
+						expect(snappedCoord).toBe(undefined);
+					});
+				});
 			},
 		);
 	});
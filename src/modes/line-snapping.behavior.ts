@@ -1,11 +1,13 @@
 import { BehaviorConfig, TerraDrawModeBehavior } from "./base.behavior";
-import { TerraDrawMouseEvent } from "../common";
-import { Feature, Position } from "geojson";
+import { SnappingTarget, TerraDrawMouseEvent } from "../common";
+import { Position } from "geojson";
 import { ClickBoundingBoxBehavior } from "./click-bounding-box.behavior";
-import { BBoxPolygon, FeatureId } from "../store/store";
+import { BBoxPolygon, FeatureId, GeoJSONStoreFeatures } from "../store/store";
 import { PixelDistanceBehavior } from "./pixel-distance.behavior";
 import { nearestPointOnLine } from "../geometry/point-on-line";
 import { webMercatorNearestPointOnLine } from "../geometry/web-mercator-point-on-line";
+import { getCoordinateArrays } from "../geometry/geometry-parts";
+import { isGuidanceFeature } from "../store/guidance-feature";
 
 export class LineSnappingBehavior extends TerraDrawModeBehavior {
 	constructor(
@@ -16,8 +18,19 @@ export class LineSnappingBehavior extends TerraDrawModeBehavior {
 		super(config);
 	}
 
-	/** Returns the nearest snappable coordinate - on first click there is no currentId so no need to provide */
-	public getSnappableCoordinateFirstClick = (event: TerraDrawMouseEvent) => {
+	/**
+	 * Returns the nearest snappable coordinate - on first click there is no currentId so no need to provide.
+	 * Without a target only the lines of features from the same mode are snapped to, with a target
+	 * the lines of any features it allows can be snapped to.
+	 */
+	public getSnappableCoordinateFirstClick = (
+		event: TerraDrawMouseEvent,
+		target?: SnappingTarget,
+	) => {
+		if (target) {
+			return this.getSnappableFromTarget(event, target);
+		}
+
 		return this.getSnappable(event, (feature) => {
 			return Boolean(
 				feature.properties && feature.properties.mode === this.mode,
@@ -28,7 +41,12 @@ export class LineSnappingBehavior extends TerraDrawModeBehavior {
 	public getSnappableCoordinate = (
 		event: TerraDrawMouseEvent,
 		currentFeatureId: FeatureId,
+		target?: SnappingTarget,
 	) => {
+		if (target) {
+			return this.getSnappableFromTarget(event, target, currentFeatureId);
+		}
+
 		return this.getSnappable(event, (feature) => {
 			return Boolean(
 				feature.properties &&
@@ -38,11 +56,30 @@ export class LineSnappingBehavior extends TerraDrawModeBehavior {
 		});
 	};
 
+	private getSnappableFromTarget(
+		event: TerraDrawMouseEvent,
+		target: SnappingTarget,
+		currentFeatureId?: FeatureId,
+	) {
+		return this.getSnappable(
+			event,
+			(feature) =>
+				feature.id !== currentFeatureId &&
+				!isGuidanceFeature(feature) &&
+				(target.filter ? target.filter(feature) : true),
+			target.tolerance,
+		);
+	}
+
 	private getSnappable(
 		event: TerraDrawMouseEvent,
-		filter: (feature: Feature) => boolean,
+		filter: (feature: GeoJSONStoreFeatures) => boolean,
+		tolerance = this.pointerDistance,
 	) {
-		const boundingBox = this.clickBoundingBox.create(event) as BBoxPolygon;
+		const boundingBox = this.clickBoundingBox.create(
+			event,
+			tolerance,
+		) as BBoxPolygon;
 		const features = this.store.search(boundingBox, filter);
 		const closest: { coord: undefined | Position; minDistance: number } = {
 			coord: undefined,
@@ -50,20 +87,24 @@ export class LineSnappingBehavior extends TerraDrawModeBehavior {
 		};
 
 		features.forEach((feature) => {
-			let coordinates: Position[];
-			if (feature.geometry.type === "Polygon") {
-				coordinates = feature.geometry.coordinates[0];
-			} else if (feature.geometry.type === "LineString") {
-				coordinates = feature.geometry.coordinates;
-			} else {
+			if (
+				feature.geometry.type === "Point" ||
+				feature.geometry.type === "MultiPoint"
+			) {
 				return;
 			}
 
+			// Polygons can have holes and multi geometries can have many
+			// parts, all of which we can snap to
+			const rings = getCoordinateArrays(feature.geometry);
+
 			const lines: [Position, Position][] = [];
 
-			for (let i = 0; i < coordinates.length - 1; i++) {
-				lines.push([coordinates[i], coordinates[i + 1]]);
-			}
+			rings.forEach((coordinates) => {
+				for (let i = 0; i < coordinates.length - 1; i++) {
+					lines.push([coordinates[i], coordinates[i + 1]]);
+				}
+			});
 
 			let nearest:
 				| {
@@ -85,7 +126,7 @@ export class LineSnappingBehavior extends TerraDrawModeBehavior {
 			}
 
 			const distance = this.pixelDistance.measure(event, nearest.coordinate);
-			if (distance < closest.minDistance && distance < this.pointerDistance) {
+			if (distance < closest.minDistance && distance < tolerance) {
 				closest.coord = nearest.coordinate;
 				closest.minDistance = distance;
 			}
@@ -1,3 +1,4 @@
+import { Position } from "geojson";
 import { GeoJSONStore } from "../../store/store";
 import { MockModeConfig } from "../../test/mock-mode-config";
 import { MockCursorEvent } from "../../test/mock-cursor-event";
@@ -338,6 +339,45 @@ describe("TerraDrawLineStringMode", () => {
 			expect(features[1].geometry.coordinates).toStrictEqual([2, 2]);
 		});
 
+		it("can snap to the lines of features from other modes with a toLine snapping target", () => {
+			lineStringMode = new TerraDrawLineStringMode({
+				snapping: { toLine: {} },
+			});
+			const mockConfig = MockModeConfig(lineStringMode.mode);
+			store = mockConfig.store;
+
+			lineStringMode.register(mockConfig);
+			lineStringMode.start();
+
+			store.create([
+				{
+					geometry: {
+						type: "Polygon",
+						coordinates: [
+							[
+								[0, 0],
+								[0, 1],
+								[1, 1],
+								[1, 0],
+								[0, 0],
+							],
+						],
+					},
+					properties: { mode: "polygon" },
+				},
+			]);
+
+			lineStringMode.onMouseMove(MockCursorEvent({ lng: -0.1, lat: 0.5 }));
+
+			const [snappingPoint] = store
+				.copyAll()
+				.filter(({ properties }) => properties.snappingPoint === true);
+
+			const [lng, lat] = snappingPoint.geometry.coordinates as Position;
+			expect(lng).toBeCloseTo(0);
+			expect(lat).toBeCloseTo(0.5);
+		});
+
 		it("can snap from existing line once finished with snapping toCustom enabled", () => {
 			const coordinates = [
 				[5, 5],
@@ -740,6 +780,468 @@ describe("TerraDrawLineStringMode", () => {
 				]);
 			});
 		});
+
+		describe("deleteCoordinate", () => {
+			it("removes the last placed coordinate", () => {
+				lineStringMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+				lineStringMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 1 }));
+				lineStringMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+				lineStringMode.onMouseMove(MockCursorEvent({ lng: 2, lat: 2 }));
+				lineStringMode.onClick(MockCursorEvent({ lng: 2, lat: 2 }));
+				lineStringMode.onMouseMove(MockCursorEvent({ lng: 3, lat: 3 }));
+
+				lineStringMode.onKeyUp(MockKeyboardEvent({ key: "Backspace" }));
+
+				let features = store.copyAll();
+
+				// Drawn LineString and Closing point
+				expect(features.length).toBe(2);
+				expect(features[0].geometry.coordinates).toStrictEqual([
+					[0, 0],
+					[1, 1],
+					[3, 3],
+				]);
+				expect(features[1].geometry.coordinates).toStrictEqual([1, 1]);
+
+				lineStringMode.onKeyUp(MockKeyboardEvent({ key: "Backspace" }));
+
+				// The closing point is removed as the line can not be finished
+				features = store.copyAll();
+				expect(features.length).toBe(1);
+				expect(features[0].geometry.coordinates).toStrictEqual([
+					[0, 0],
+					[3, 3],
+				]);
+
+				lineStringMode.onKeyUp(MockKeyboardEvent({ key: "Backspace" }));
+
+				expect(store.copyAll().length).toBe(0);
+				expect(onFinish).not.toHaveBeenCalled();
+			});
+
+			it("does not remove a placed coordinate when it is clicked by default", () => {
+				lineStringMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+				lineStringMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 1 }));
+				lineStringMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+				lineStringMode.onMouseMove(MockCursorEvent({ lng: 2, lat: 2 }));
+				lineStringMode.onClick(MockCursorEvent({ lng: 2, lat: 2 }));
+
+				lineStringMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 1 }));
+				lineStringMode.onClick({
+					...MockCursorEvent({ lng: 1, lat: 1 }),
+					heldKeys: ["Shift"],
+				});
+
+				expect(store.copyAll()[0].geometry.coordinates).toStrictEqual([
+					[0, 0],
+					[1, 1],
+					[2, 2],
+					[1, 1],
+					[1, 1],
+				]);
+			});
+
+			it("removes a placed coordinate when it is clicked with the deleteClickedCoordinate key held", () => {
+				lineStringMode = new TerraDrawLineStringMode({
+					keyEvents: {
+						cancel: "Escape",
+						finish: "Enter",
+						deleteClickedCoordinate: "Shift",
+					},
+				});
+				const mockConfig = MockModeConfig(lineStringMode.mode);
+				store = mockConfig.store;
+				onFinish = mockConfig.onFinish;
+
+				lineStringMode.register(mockConfig);
+				lineStringMode.start();
+
+				lineStringMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+				lineStringMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 1 }));
+				lineStringMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+				lineStringMode.onMouseMove(MockCursorEvent({ lng: 2, lat: 2 }));
+				lineStringMode.onClick(MockCursorEvent({ lng: 2, lat: 2 }));
+
+				lineStringMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 1 }));
+				lineStringMode.onClick({
+					...MockCursorEvent({ lng: 1, lat: 1 }),
+					heldKeys: ["Shift"],
+				});
+
+				const features = store.copyAll();
+
+				// Drawn LineString and Closing point
+				expect(features.length).toBe(2);
+				expect(features[0].geometry.coordinates).toStrictEqual([
+					[0, 0],
+					[2, 2],
+					[1, 1],
+				]);
+				expect(features[1].geometry.coordinates).toStrictEqual([2, 2]);
+				expect(onFinish).not.toHaveBeenCalled();
+			});
+
+			it("does not remove coordinates when deleteCoordinate is null", () => {
+				lineStringMode = new TerraDrawLineStringMode({
+					keyEvents: {
+						cancel: "Escape",
+						finish: "Enter",
+						deleteCoordinate: null,
+					},
+				});
+				const mockConfig = MockModeConfig(lineStringMode.mode);
+				store = mockConfig.store;
+
+				lineStringMode.register(mockConfig);
+				lineStringMode.start();
+
+				lineStringMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+				lineStringMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 1 }));
+				lineStringMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+
+				lineStringMode.onKeyUp(MockKeyboardEvent({ key: "Backspace" }));
+
+				expect(store.copyAll()[0].geometry.coordinates).toStrictEqual([
+					[0, 0],
+					[1, 1],
+					[1, 1],
+				]);
+			});
+		});
+	});
+
+	describe("onDoubleTap", () => {
+		let lineStringMode: TerraDrawLineStringMode;
+		let store: GeoJSONStore;
+		let onFinish: jest.Mock;
+
+		beforeEach(() => {
+			lineStringMode = new TerraDrawLineStringMode();
+			const mockConfig = MockModeConfig(lineStringMode.mode);
+			store = mockConfig.store;
+			onFinish = mockConfig.onFinish;
+			lineStringMode.register(mockConfig);
+			lineStringMode.start();
+		});
+
+		it("does nothing when no line is present", () => {
+			lineStringMode.onDoubleTap();
+
+			expect(onFinish).not.toHaveBeenCalled();
+		});
+
+		it("finishes the line when tapping without moving the cursor", () => {
+			lineStringMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			lineStringMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+			lineStringMode.onClick(MockCursorEvent({ lng: 2, lat: 2 }));
+			lineStringMode.onDoubleTap();
+
+			expect(onFinish).toHaveBeenCalledTimes(1);
+
+			const features = store.copyAll();
+			expect(features.length).toBe(1);
+			expect(features[0].geometry.coordinates).toStrictEqual([
+				[0, 0],
+				[1, 1],
+				[2, 2],
+			]);
+		});
+	});
+
+	describe("continueLineString", () => {
+		let lineStringMode: TerraDrawLineStringMode;
+		let store: GeoJSONStore;
+		let onFinish: jest.Mock;
+		let setCursor: jest.Mock;
+
+		const setup = (
+			options?: ConstructorParameters<typeof TerraDrawLineStringMode>[0],
+		) => {
+			lineStringMode = new TerraDrawLineStringMode(options);
+			const mockConfig = MockModeConfig(lineStringMode.mode);
+			store = mockConfig.store;
+			onFinish = mockConfig.onFinish;
+			setCursor = mockConfig.setCursor;
+			lineStringMode.register(mockConfig);
+			lineStringMode.start();
+
+			const [id] = store.create([
+				{
+					geometry: {
+						type: "LineString",
+						coordinates: [
+							[0, 0],
+							[1, 1],
+						],
+					},
+					properties: { mode: "linestring" },
+				},
+			]);
+
+			return id;
+		};
+
+		it("throws an error if the feature does not exist", () => {
+			setup();
+
+			expect(() =>
+				lineStringMode.continueLineString("not-a-feature", "end"),
+			).toThrow(
+				"No feature with this (not-a-feature), can not continue LineString",
+			);
+		});
+
+		it("throws an error if the feature is not a LineString of the mode", () => {
+			setup();
+			const [pointId] = store.create([
+				{
+					geometry: { type: "Point", coordinates: [0, 0] },
+					properties: { mode: "point" },
+				},
+			]);
+
+			expect(() => lineStringMode.continueLineString(pointId, "end")).toThrow(
+				`Feature (${pointId}) is not a LineString of this mode`,
+			);
+		});
+
+		it("adds coordinates to the end of the LineString", () => {
+			const id = setup();
+
+			lineStringMode.continueLineString(id, "end");
+			expect(lineStringMode.state).toBe("drawing");
+
+			lineStringMode.onMouseMove(MockCursorEvent({ lng: 2, lat: 2 }));
+			lineStringMode.onClick(MockCursorEvent({ lng: 2, lat: 2 }));
+			lineStringMode.onClick(MockCursorEvent({ lng: 2, lat: 2 }));
+
+			const features = store.copyAll();
+			expect(features.length).toBe(1);
+			expect(features[0].id).toBe(id);
+			expect(features[0].geometry.coordinates).toStrictEqual([
+				[0, 0],
+				[1, 1],
+				[2, 2],
+			]);
+			expect(onFinish).toHaveBeenCalledWith(id, {
+				mode: "linestring",
+				action: "continue",
+			});
+			expect(lineStringMode.state).toBe("started");
+		});
+
+		it("adds coordinates to the start of the LineString", () => {
+			const id = setup();
+
+			lineStringMode.continueLineString(id, "start");
+
+			lineStringMode.onMouseMove(MockCursorEvent({ lng: 2, lat: 2 }));
+
+			// The 'live' coordinate is at the start of the LineString while drawing
+			expect(store.getGeometryCopy(id).coordinates).toStrictEqual([
+				[2, 2],
+				[0, 0],
+				[1, 1],
+			]);
+
+			lineStringMode.onClick(MockCursorEvent({ lng: 2, lat: 2 }));
+			lineStringMode.onKeyUp(MockKeyboardEvent({ key: "Enter" }));
+
+			expect(store.copyAll().length).toBe(1);
+			expect(store.getGeometryCopy(id).coordinates).toStrictEqual([
+				[2, 2],
+				[0, 0],
+				[1, 1],
+			]);
+		});
+
+		it("restores the LineString when cancelled", () => {
+			const id = setup();
+
+			lineStringMode.continueLineString(id, "end");
+			lineStringMode.onMouseMove(MockCursorEvent({ lng: 2, lat: 2 }));
+			lineStringMode.onClick(MockCursorEvent({ lng: 2, lat: 2 }));
+			lineStringMode.onKeyUp(MockKeyboardEvent({ key: "Escape" }));
+
+			const features = store.copyAll();
+			expect(features.length).toBe(1);
+			expect(features[0].geometry.coordinates).toStrictEqual([
+				[0, 0],
+				[1, 1],
+			]);
+			expect(onFinish).not.toHaveBeenCalled();
+		});
+
+		it("does not remove the existing coordinates of the LineString", () => {
+			const id = setup();
+
+			lineStringMode.continueLineString(id, "end");
+			lineStringMode.onMouseMove(MockCursorEvent({ lng: 2, lat: 2 }));
+			lineStringMode.onClick(MockCursorEvent({ lng: 2, lat: 2 }));
+			lineStringMode.onKeyUp(MockKeyboardEvent({ key: "Backspace" }));
+			lineStringMode.onKeyUp(MockKeyboardEvent({ key: "Backspace" }));
+
+			expect(store.getGeometryCopy(id).coordinates).toStrictEqual([
+				[0, 0],
+				[1, 1],
+				[2, 2],
+			]);
+		});
+
+		it("does not continue a LineString when it is not valid", () => {
+			const id = setup({ validation: () => ({ valid: false }) });
+
+			lineStringMode.continueLineString(id, "end");
+
+			expect(lineStringMode.state).toBe("started");
+			expect(store.copyAll().length).toBe(1);
+		});
+
+		describe("continueLineStrings", () => {
+			it("does not continue LineStrings by clicking their ends by default", () => {
+				const id = setup();
+
+				lineStringMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+
+				expect(store.copyAll().length).toBe(2);
+				expect(store.getGeometryCopy(id).coordinates).toStrictEqual([
+					[0, 0],
+					[1, 1],
+				]);
+			});
+
+			it("sets the continue cursor when hovering the end of a LineString", () => {
+				setup({ continueLineStrings: true });
+
+				lineStringMode.onMouseMove(MockCursorEvent({ lng: 0, lat: 0 }));
+
+				expect(setCursor).toHaveBeenLastCalledWith("pointer");
+			});
+
+			it("continues the LineString when clicking its first coordinate", () => {
+				const id = setup({ continueLineStrings: true });
+
+				lineStringMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+				lineStringMode.onMouseMove(MockCursorEvent({ lng: -1, lat: -1 }));
+				lineStringMode.onClick(MockCursorEvent({ lng: -1, lat: -1 }));
+				lineStringMode.onKeyUp(MockKeyboardEvent({ key: "Enter" }));
+
+				expect(store.copyAll().length).toBe(1);
+				expect(store.getGeometryCopy(id).coordinates).toStrictEqual([
+					[-1, -1],
+					[0, 0],
+					[1, 1],
+				]);
+			});
+
+			it("does not continue locked LineStrings", () => {
+				const id = setup({ continueLineStrings: true });
+				store.updateProperty([{ id, property: "locked", value: true }]);
+
+				lineStringMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+
+				expect(store.copyAll().length).toBe(2);
+				expect(store.getGeometryCopy(id).coordinates).toStrictEqual([
+					[0, 0],
+					[1, 1],
+				]);
+			});
+
+			it("does not continue LineStrings that isEditable prevents continuing", () => {
+				const isEditable = jest.fn(() => false);
+				const id = setup({ continueLineStrings: true, isEditable });
+
+				lineStringMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+
+				expect(isEditable).toHaveBeenCalledWith(
+					expect.objectContaining({ id }),
+					"continue",
+				);
+				expect(store.copyAll().length).toBe(2);
+				expect(store.getGeometryCopy(id).coordinates).toStrictEqual([
+					[0, 0],
+					[1, 1],
+				]);
+			});
+		});
+	});
+
+	describe("measurements", () => {
+		let lineStringMode: TerraDrawLineStringMode;
+		let store: GeoJSONStore;
+
+		const getLabels = () =>
+			store.copyAll().filter(({ properties }) => properties.measurementLabel);
+
+		beforeEach(() => {
+			lineStringMode = new TerraDrawLineStringMode({
+				measurements: { units: "metric" },
+			});
+			const mockConfig = MockModeConfig(lineStringMode.mode);
+			store = mockConfig.store;
+			lineStringMode.register(mockConfig);
+			lineStringMode.start();
+		});
+
+		it("measures the linestring and labels it while drawing", () => {
+			lineStringMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			lineStringMode.onMouseMove(MockCursorEvent({ lng: 0, lat: 1 }));
+			lineStringMode.onClick(MockCursorEvent({ lng: 0, lat: 1 }));
+			lineStringMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 1 }));
+
+			const [lineString] = store
+				.copyAll()
+				.filter(({ geometry }) => geometry.type === "LineString");
+
+			expect(lineString.properties.segmentLengths).toHaveLength(2);
+			expect(lineString.properties.totalLength).toBeCloseTo(222.37, 1);
+			expect(lineString.properties.bearing).toBeCloseTo(90, 0);
+
+			expect(
+				getLabels().map(({ properties }) => properties.text),
+			).toStrictEqual(["111.19 km", "111.18 km", "222.37 km"]);
+		});
+
+		it("keeps the measurements but removes the labels once finished", () => {
+			lineStringMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			lineStringMode.onMouseMove(MockCursorEvent({ lng: 0, lat: 1 }));
+			lineStringMode.onClick(MockCursorEvent({ lng: 0, lat: 1 }));
+			lineStringMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 1 }));
+			lineStringMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+			lineStringMode.onKeyUp(MockKeyboardEvent({ key: "Enter" }));
+
+			const features = store.copyAll();
+			expect(features).toHaveLength(1);
+			expect(features[0].properties.segmentLengths).toHaveLength(2);
+			expect(features[0].properties.totalLength).toBeCloseTo(222.37, 1);
+		});
+
+		it("does not create labels when labels is false", () => {
+			lineStringMode = new TerraDrawLineStringMode({
+				measurements: { labels: false },
+			});
+			const mockConfig = MockModeConfig(lineStringMode.mode);
+			store = mockConfig.store;
+			lineStringMode.register(mockConfig);
+			lineStringMode.start();
+
+			lineStringMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			lineStringMode.onMouseMove(MockCursorEvent({ lng: 0, lat: 1 }));
+
+			expect(getLabels()).toHaveLength(0);
+			expect(store.copyAll()[0].properties.totalLength).toBeCloseTo(111.19, 1);
+		});
+
+		it("removes the labels on clean up", () => {
+			lineStringMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			lineStringMode.onMouseMove(MockCursorEvent({ lng: 0, lat: 1 }));
+
+			expect(getLabels()).toHaveLength(1);
+
+			lineStringMode.cleanUp();
+
+			expect(store.copyAll()).toHaveLength(0);
+		});
 	});
 
 	describe("cleanUp", () => {
@@ -902,6 +1404,34 @@ describe("TerraDrawLineStringMode", () => {
 			});
 		});
 
+		it("returns the correct styles for measurement labels", () => {
+			const lineStringMode = new TerraDrawLineStringMode({
+				styles: {
+					measurementLabelColor: "#111111",
+					measurementLabelSize: 14,
+				},
+			});
+
+			expect(
+				lineStringMode.styleFeature({
+					type: "Feature",
+					geometry: { type: "Point", coordinates: [] },
+					properties: {
+						mode: "linestring",
+						measurementLabel: "segment",
+						text: "120 m",
+					},
+				}),
+			).toMatchObject({
+				pointWidth: 0,
+				pointOutlineWidth: 0,
+				labelText: "120 m",
+				labelColor: "#111111",
+				labelSize: 14,
+				labelHaloColor: "#ffffff",
+			});
+		});
+
 		it("returns the correct styles for point using functions", () => {
 			const lineStringMode = new TerraDrawLineStringMode({
 				styles: {
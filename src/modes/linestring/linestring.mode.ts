@@ -8,6 +8,8 @@ import {
 	UpdateTypes,
 	CartesianPoint,
 	COMMON_PROPERTIES,
+	SnappingTarget,
+	SELECT_PROPERTIES,
 } from "../../common";
 import { LineString, Point, Position } from "geojson";
 import {
@@ -20,8 +22,10 @@ import { BehaviorConfig } from "../base.behavior";
 import { ClickBoundingBoxBehavior } from "../click-bounding-box.behavior";
 import { PixelDistanceBehavior } from "../pixel-distance.behavior";
 import { CoordinateSnappingBehavior } from "../coordinate-snapping.behavior";
-import { getDefaultStyling } from "../../util/styling";
+import { LineSnappingBehavior } from "../line-snapping.behavior";
+import { getDefaultLabelStyling, getDefaultStyling } from "../../util/styling";
 import {
+	BBoxPolygon,
 	FeatureId,
 	GeoJSONStoreFeatures,
 	GeoJSONStoreGeometries,
@@ -30,11 +34,20 @@ import {
 import { InsertCoordinatesBehavior } from "../insert-coordinates.behavior";
 import { haversineDistanceKilometers } from "../../geometry/measure/haversine-distance";
 import { coordinatesIdentical } from "../../geometry/coordinates-identical";
-import { ValidateLineStringFeature } from "../../validations/linestring.validation";
+import { ValidateLineStringOrMultiLineStringFeature } from "../../validations/linestring.validation";
+import {
+	MeasurementBehavior,
+	MeasurementOptions,
+} from "../measurement.behavior";
+import { IsEditable } from "../select/select.mode";
 
 type TerraDrawLineStringModeKeyEvents = {
 	cancel: KeyboardEvent["key"] | null;
 	finish: KeyboardEvent["key"] | null;
+	// Removes the last placed coordinate while drawing
+	deleteCoordinate?: KeyboardEvent["key"] | null;
+	// Held while clicking a placed coordinate to remove it, off by default
+	deleteClickedCoordinate?: KeyboardEvent["key"] | null;
 };
 
 type LineStringStyling = {
@@ -48,20 +61,28 @@ type LineStringStyling = {
 	snappingPointWidth: NumericStyling;
 	snappingPointOutlineColor: HexColorStyling;
 	snappingPointOutlineWidth: NumericStyling;
+	measurementLabelColor: HexColorStyling;
+	measurementLabelSize: NumericStyling;
+	measurementLabelHaloColor: HexColorStyling;
 };
 
 interface Cursors {
 	start?: Cursor;
 	close?: Cursor;
+	continue?: Cursor;
 }
 
+type LineStringEnd = "start" | "end";
+
 interface InertCoordinates {
 	strategy: "amount"; // In future this could be extended
 	value: number;
 }
 
 interface Snapping {
-	toCoordinate?: boolean;
+	// true snaps to features of this mode, or a target can snap to features of other modes
+	toLine?: boolean | SnappingTarget;
+	toCoordinate?: boolean | SnappingTarget;
 	toCustom?: (event: TerraDrawMouseEvent) => Position | undefined;
 }
 
@@ -72,6 +93,10 @@ interface TerraDrawLineStringModeOptions<T extends CustomStyling>
 	keyEvents?: TerraDrawLineStringModeKeyEvents | null;
 	cursors?: Cursors;
 	insertCoordinates?: InertCoordinates;
+	measurements?: MeasurementOptions;
+	// Clicking the first or last coordinate of an existing LineString continues drawing it
+	continueLineStrings?: boolean;
+	isEditable?: IsEditable;
 }
 
 export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringStyling> {
@@ -87,10 +112,21 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 	private insertCoordinates: InertCoordinates | undefined;
 	private lastCommitedCoordinates: Position[] | undefined;
 	private snappedPointId: FeatureId | undefined;
+	private measurements: Required<MeasurementOptions> | undefined;
+	private continueLineStrings: boolean;
+	private isEditable: IsEditable | undefined;
+	// The LineString being continued, with its coordinates from before drawing started
+	private continuing:
+		| { end: LineStringEnd; coordinates: Position[] }
+		| undefined;
 
 	// Behaviors
+	private pixelDistance!: PixelDistanceBehavior;
+	private clickBoundingBox!: ClickBoundingBoxBehavior;
+	private lineSnapping!: LineSnappingBehavior;
 	private coordinateSnapping!: CoordinateSnappingBehavior;
 	private insertPoint!: InsertCoordinatesBehavior;
+	private measurement: MeasurementBehavior | undefined;
 
 	constructor(options?: TerraDrawLineStringModeOptions<LineStringStyling>) {
 		super(options);
@@ -98,6 +134,7 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 		const defaultCursors = {
 			start: "crosshair",
 			close: "pointer",
+			continue: "pointer",
 		} as Required<Cursors>;
 
 		if (options && options.cursors) {
@@ -111,9 +148,19 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 		// We want to have some defaults, but also allow key bindings
 		// to be explicitly turned off
 		if (options?.keyEvents === null) {
-			this.keyEvents = { cancel: null, finish: null };
+			this.keyEvents = {
+				cancel: null,
+				finish: null,
+				deleteCoordinate: null,
+				deleteClickedCoordinate: null,
+			};
 		} else {
-			const defaultKeyEvents = { cancel: "Escape", finish: "Enter" };
+			const defaultKeyEvents = {
+				cancel: "Escape",
+				finish: "Enter",
+				deleteCoordinate: "Backspace",
+				deleteClickedCoordinate: null,
+			};
 			this.keyEvents =
 				options && options.keyEvents
 					? { ...defaultKeyEvents, ...options.keyEvents }
@@ -123,6 +170,140 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 		this.validate = options?.validation;
 
 		this.insertCoordinates = options?.insertCoordinates;
+
+		this.measurements = options?.measurements && {
+			units: "metric",
+			labels: true,
+			...options.measurements,
+		};
+
+		this.continueLineStrings = Boolean(options?.continueLineStrings);
+		this.isEditable = options?.isEditable;
+	}
+
+	/**
+	 * Continues drawing an existing LineString from its first or last coordinate, so that
+	 * new coordinates are added to it rather than to a new feature. Any drawing that is
+	 * in progress is cancelled.
+	 * @param id - the id of the LineString to continue
+	 * @param end - whether to add the new coordinates to the "start" or "end" of the LineString
+	 */
+	continueLineString(id: FeatureId, end: LineStringEnd) {
+		if (!this.store.has(id)) {
+			throw new Error(
+				`No feature with this (${id}), can not continue LineString`,
+			);
+		}
+
+		const geometry = this.store.getGeometryCopy(id);
+		const properties = this.store.getPropertiesCopy(id);
+		if (geometry.type !== "LineString" || properties.mode !== this.mode) {
+			throw new Error(`Feature (${id}) is not a LineString of this mode`);
+		}
+
+		if (this.state === "drawing") {
+			this.cleanUp();
+		}
+
+		this.startContinuing(id, end);
+	}
+
+	private startContinuing(id: FeatureId, end: LineStringEnd) {
+		const coordinates = this.store.getGeometryCopy<LineString>(id).coordinates;
+
+		this.currentId = id;
+		this.continuing = { end, coordinates };
+
+		const drawnCoordinates = this.getDrawingOrder(coordinates);
+		const lastCoordinate = drawnCoordinates[drawnCoordinates.length - 1];
+
+		const updated = this.updateGeometries(
+			[...drawnCoordinates, lastCoordinate],
+			undefined,
+			UpdateTypes.Commit,
+		);
+
+		if (!updated) {
+			this.currentId = undefined;
+			this.continuing = undefined;
+			this.lastCommitedCoordinates = undefined;
+			return;
+		}
+
+		const [pointId] = this.store.create([
+			{
+				geometry: {
+					type: "Point",
+					coordinates: [...lastCoordinate],
+				},
+				properties: { mode: this.mode },
+			},
+		]);
+		this.closingPointId = pointId;
+
+		this.currentCoordinate = drawnCoordinates.length;
+		this.setDrawing();
+	}
+
+	// When continuing from the start of a LineString we draw it in reverse, so new
+	// coordinates are always added to the end. Reversing the coordinates again
+	// puts them back in the order they are stored in.
+	private getDrawingOrder(coordinates: Position[]) {
+		return this.continuing && this.continuing.end === "start"
+			? [...coordinates].reverse()
+			: coordinates;
+	}
+
+	private getCurrentCoordinates() {
+		return this.getDrawingOrder(
+			this.store.getGeometryCopy<LineString>(this.currentId as FeatureId)
+				.coordinates,
+		);
+	}
+
+	// Finds the end of an existing LineString under the cursor, which can be continued
+	// Continuing is an edit, so locked features can not be continued
+	private isContinuable(feature: GeoJSONStoreFeatures) {
+		if (feature.properties[SELECT_PROPERTIES.LOCKED]) {
+			return false;
+		}
+
+		return this.isEditable ? this.isEditable(feature, "continue") : true;
+	}
+
+	private getContinuableEnd(event: TerraDrawMouseEvent) {
+		const bbox = this.clickBoundingBox.create(event) as BBoxPolygon;
+		const features = this.store.search(
+			bbox,
+			(feature) =>
+				feature.geometry.type === "LineString" &&
+				feature.properties.mode === this.mode &&
+				this.isContinuable(feature),
+		);
+
+		let closest:
+			| { id: FeatureId; end: LineStringEnd; distance: number }
+			| undefined;
+
+		features.forEach((feature) => {
+			const coordinates = (feature.geometry as LineString).coordinates;
+			const ends = [
+				{ end: "start", coordinate: coordinates[0] },
+				{ end: "end", coordinate: coordinates[coordinates.length - 1] },
+			] as const;
+
+			ends.forEach(({ end, coordinate }) => {
+				const distance = this.pixelDistance.measure(event, coordinate);
+				if (
+					distance < this.pointerDistance &&
+					(!closest || distance < closest.distance)
+				) {
+					closest = { id: feature.id as FeatureId, end, distance };
+				}
+			});
+		});
+
+		return closest;
 	}
 
 	private close() {
@@ -130,20 +311,19 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 			return;
 		}
 
-		const currentLineGeometry = this.store.getGeometryCopy<LineString>(
-			this.currentId,
-		);
+		const currentCoordinates = this.getCurrentCoordinates();
 
 		// Finish off the drawing
-		currentLineGeometry.coordinates.pop();
+		currentCoordinates.pop();
 
 		this.updateGeometries(
-			[...currentLineGeometry.coordinates],
+			[...currentCoordinates],
 			undefined,
 			UpdateTypes.Commit,
 		);
 
 		const finishedId = this.currentId;
+		const action = this.continuing ? "continue" : "draw";
 
 		// Reset the state back to starting state
 		if (this.closingPointId) {
@@ -154,11 +334,17 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 			this.store.delete([this.snappedPointId]);
 		}
 
+		// The measurements stay on the finished line but the labels are only shown while drawing
+		if (this.measurement) {
+			this.measurement.delete();
+		}
+
 		this.currentCoordinate = 0;
 		this.currentId = undefined;
 		this.closingPointId = undefined;
 		this.snappedPointId = undefined;
 		this.lastCommitedCoordinates = undefined;
+		this.continuing = undefined;
 
 		// Go back to started state
 		if (this.state === "drawing") {
@@ -166,7 +352,7 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 		}
 
 		// Ensure that any listeners are triggered with the main created geometry
-		this.onFinish(finishedId, { mode: this.mode, action: "draw" });
+		this.onFinish(finishedId, { mode: this.mode, action });
 	}
 
 	private updateGeometries(
@@ -175,10 +361,13 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 		updateType: UpdateTypes,
 	) {
 		if (!this.currentId) {
-			return;
+			return false;
 		}
 
-		const updatedGeometry = { type: "LineString", coordinates } as LineString;
+		const updatedGeometry = {
+			type: "LineString",
+			coordinates: this.getDrawingOrder(coordinates),
+		} as LineString;
 
 		if (this.validate) {
 			const validationResult = this.validate(
@@ -195,7 +384,7 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 			);
 
 			if (!validationResult.valid) {
-				return;
+				return false;
 			}
 		}
 
@@ -220,10 +409,97 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 		}
 
 		if (updateType === "commit") {
-			this.lastCommitedCoordinates = updatedGeometry.coordinates;
+			this.lastCommitedCoordinates = coordinates;
 		}
 
 		this.store.updateGeometry(geometries);
+
+		if (this.measurement) {
+			this.measurement.update(this.currentId);
+		}
+
+		return true;
+	}
+
+	// The coordinates that have been placed by clicking, without the 'live' coordinate
+	// that follows the cursor. When the line is committed the 'live' coordinate is at the
+	// same position as the last placed coordinate, so we can leave it off
+	private getPlacedCoordinates() {
+		return this.lastCommitedCoordinates
+			? this.lastCommitedCoordinates.slice(0, -1)
+			: [];
+	}
+
+	// Coordinates of a LineString that is being continued can not be removed
+	private getRemovableFromIndex() {
+		return this.continuing ? this.continuing.coordinates.length : 0;
+	}
+
+	// Finds the placed coordinate under the cursor which can be removed by clicking it. When
+	// there is more than one placed coordinate, clicking the last one finishes the line instead
+	private getClickedCoordinateIndex(event: TerraDrawMouseEvent) {
+		const placed = this.getPlacedCoordinates();
+		const removable = placed.length > 1 ? placed.slice(0, -1) : placed;
+		const removableFromIndex = this.getRemovableFromIndex();
+
+		return removable.findIndex(([lng, lat], index) => {
+			if (index < removableFromIndex) {
+				return false;
+			}
+
+			const { x, y } = this.project(lng, lat);
+			const distance = cartesianDistance(
+				{ x, y },
+				{ x: event.containerX, y: event.containerY },
+			);
+			return distance < this.pointerDistance;
+		});
+	}
+
+	private deleteCoordinate(index: number) {
+		if (this.currentId === undefined || index < this.getRemovableFromIndex()) {
+			return;
+		}
+
+		const currentCoordinates = this.getCurrentCoordinates();
+		const liveCoordinate = currentCoordinates[currentCoordinates.length - 1];
+
+		const placed = this.getPlacedCoordinates();
+		placed.splice(index, 1);
+
+		// Removing the only coordinate is the same as cancelling the drawing
+		if (placed.length === 0) {
+			this.cleanUp();
+			return;
+		}
+
+		const lastPlaced = placed[placed.length - 1];
+
+		const updated = this.updateGeometries(
+			[...placed, lastPlaced],
+			placed.length > 1 ? lastPlaced : undefined,
+			UpdateTypes.Commit,
+		);
+
+		if (!updated) {
+			return;
+		}
+
+		// With a single coordinate left the next click starts the line again
+		// which does not need a closing point until it has been placed
+		if (placed.length === 1 && this.closingPointId) {
+			this.store.delete([this.closingPointId]);
+			this.closingPointId = undefined;
+		}
+
+		this.currentCoordinate = placed.length;
+
+		// Bring the 'live' coordinate back to the cursor
+		this.updateGeometries(
+			[...placed, liveCoordinate],
+			undefined,
+			UpdateTypes.Provisional,
+		);
 	}
 
 	private generateInsertCoordinates(startCoord: Position, endCoord: Position) {
@@ -282,11 +558,7 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 			return;
 		}
 
-		const currentLineGeometry = this.store.getGeometryCopy<LineString>(
-			this.currentId,
-		);
-
-		const currentCoordinates = currentLineGeometry.coordinates;
+		const currentCoordinates = this.getCurrentCoordinates();
 
 		const [pointId] = this.store.create([
 			{
@@ -319,11 +591,8 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 		if (!this.currentId) {
 			return;
 		}
-		const currentLineGeometry = this.store.getGeometryCopy<LineString>(
-			this.currentId,
-		);
 
-		const currentCoordinates = currentLineGeometry.coordinates;
+		const currentCoordinates = this.getCurrentCoordinates();
 
 		// If we are not inserting points we can get the penultimate coordinated
 		const [previousLng, previousLat] = this.lastCommitedCoordinates
@@ -362,13 +631,25 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 
 	/** @internal */
 	registerBehaviors(config: BehaviorConfig) {
+		this.pixelDistance = new PixelDistanceBehavior(config);
+		this.clickBoundingBox = new ClickBoundingBoxBehavior(config);
+
+		this.lineSnapping = new LineSnappingBehavior(
+			config,
+			this.pixelDistance,
+			this.clickBoundingBox,
+		);
 		this.coordinateSnapping = new CoordinateSnappingBehavior(
 			config,
-			new PixelDistanceBehavior(config),
-			new ClickBoundingBoxBehavior(config),
+			this.pixelDistance,
+			this.clickBoundingBox,
 		);
 
 		this.insertPoint = new InsertCoordinatesBehavior(config);
+
+		if (this.measurements) {
+			this.measurement = new MeasurementBehavior(config, this.measurements);
+		}
 	}
 
 	/** @internal */
@@ -431,14 +712,14 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 			: [event.lng, event.lat];
 
 		if (this.currentId === undefined || this.currentCoordinate === 0) {
+			// Show that the end of an existing line can be clicked to continue it
+			if (this.continueLineStrings && this.getContinuableEnd(event)) {
+				this.setCursor(this.cursors.continue);
+			}
 			return;
 		}
 
-		const currentLineGeometry = this.store.getGeometryCopy<LineString>(
-			this.currentId,
-		);
-
-		const currentCoordinates = currentLineGeometry.coordinates;
+		const currentCoordinates = this.getCurrentCoordinates();
 
 		// Remove the 'live' point that changes on mouse move
 		currentCoordinates.pop();
@@ -505,6 +786,28 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 			this.snappedPointId = undefined;
 		}
 
+		if (
+			this.keyEvents.deleteClickedCoordinate &&
+			event.heldKeys.includes(this.keyEvents.deleteClickedCoordinate) &&
+			this.currentCoordinate > 0
+		) {
+			const clickedIndex = this.getClickedCoordinateIndex(event);
+
+			if (clickedIndex !== -1) {
+				this.deleteCoordinate(clickedIndex);
+				return;
+			}
+		}
+
+		if (this.currentCoordinate === 0 && this.continueLineStrings) {
+			const continuable = this.getContinuableEnd(event);
+
+			if (continuable) {
+				this.startContinuing(continuable.id, continuable.end);
+				return;
+			}
+		}
+
 		const snappedCoordinate = this.snapCoordinate(event);
 		const updatedCoordinate = snappedCoordinate
 			? snappedCoordinate
@@ -534,6 +837,18 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 		if (event.key === this.keyEvents.finish) {
 			this.close();
 		}
+
+		if (
+			event.key === this.keyEvents.deleteCoordinate &&
+			this.currentCoordinate > 0
+		) {
+			this.deleteCoordinate(this.getPlacedCoordinates().length - 1);
+		}
+	}
+
+	/** @internal */
+	onDoubleTap() {
+		this.close();
 	}
 
 	/** @internal */
@@ -550,7 +865,10 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 		const cleanUpId = this.currentId;
 		const cleanupClosingPointId = this.closingPointId;
 		const snappedPointId = this.snappedPointId;
+		const continuing = this.continuing;
 
+		this.continuing = undefined;
+		this.lastCommitedCoordinates = undefined;
 		this.closingPointId = undefined;
 		this.snappedPointId = undefined;
 		this.currentId = undefined;
@@ -560,7 +878,21 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 		}
 
 		try {
-			if (cleanUpId !== undefined) {
+			// A LineString that was being continued is put back the way it was
+			if (cleanUpId !== undefined && continuing) {
+				this.store.updateGeometry([
+					{
+						id: cleanUpId,
+						geometry: {
+							type: "LineString",
+							coordinates: continuing.coordinates,
+						},
+					},
+				]);
+				if (this.measurement) {
+					this.measurement.update(cleanUpId);
+				}
+			} else if (cleanUpId !== undefined) {
 				this.store.delete([cleanUpId]);
 			}
 			if (snappedPointId !== undefined) {
@@ -569,6 +901,9 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 			if (cleanupClosingPointId !== undefined) {
 				this.store.delete([cleanupClosingPointId]);
 			}
+			if (this.measurement) {
+				this.measurement.delete();
+			}
 		} catch (error) {}
 	}
 
@@ -578,7 +913,8 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 
 		if (
 			feature.type === "Feature" &&
-			feature.geometry.type === "LineString" &&
+			(feature.geometry.type === "LineString" ||
+				feature.geometry.type === "MultiLineString") &&
 			feature.properties.mode === this.mode
 		) {
 			styles.lineStringColor = this.getHexColorStylingValue(
@@ -595,6 +931,36 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 
 			styles.zIndex = 10;
 
+			return styles;
+		} else if (
+			feature.type === "Feature" &&
+			feature.geometry.type === "Point" &&
+			feature.properties.mode === this.mode &&
+			feature.properties[COMMON_PROPERTIES.MEASUREMENT_LABEL]
+		) {
+			// Labels are rendered by their text rather than as points
+			styles.pointWidth = 0;
+			styles.pointOutlineWidth = 0;
+			styles.zIndex = 50;
+
+			const defaultLabelStyles = getDefaultLabelStyling();
+			styles.labelText = feature.properties.text as string;
+			styles.labelColor = this.getHexColorStylingValue(
+				this.styles.measurementLabelColor,
+				defaultLabelStyles.labelColor,
+				feature,
+			);
+			styles.labelSize = this.getNumericStylingValue(
+				this.styles.measurementLabelSize,
+				defaultLabelStyles.labelSize,
+				feature,
+			);
+			styles.labelHaloColor = this.getHexColorStylingValue(
+				this.styles.measurementLabelHaloColor,
+				defaultLabelStyles.labelHaloColor,
+				feature,
+			);
+
 			return styles;
 		} else if (
 			feature.type === "Feature" &&
@@ -646,22 +1012,58 @@ export class TerraDrawLineStringMode extends TerraDrawBaseDrawMode<LineStringSty
 
 	validateFeature(feature: unknown): StoreValidation {
 		return this.validateModeFeature(feature, (baseValidatedFeature) =>
-			ValidateLineStringFeature(baseValidatedFeature, this.coordinatePrecision),
+			ValidateLineStringOrMultiLineStringFeature(
+				baseValidatedFeature,
+				this.coordinatePrecision,
+			),
 		);
 	}
 
 	private snapCoordinate(event: TerraDrawMouseEvent) {
 		let snappedCoordinate: Position | undefined;
 
+		if (this.snapping?.toLine) {
+			const target =
+				typeof this.snapping.toLine === "object"
+					? this.snapping.toLine
+					: undefined;
+
+			if (this.currentId) {
+				snappedCoordinate = this.lineSnapping.getSnappableCoordinate(
+					event,
+					this.currentId,
+					target,
+				);
+			} else {
+				snappedCoordinate = this.lineSnapping.getSnappableCoordinateFirstClick(
+					event,
+					target,
+				);
+			}
+		}
+
 		if (this.snapping?.toCoordinate) {
+			const target =
+				typeof this.snapping.toCoordinate === "object"
+					? this.snapping.toCoordinate
+					: undefined;
+
+			let snapped: Position | undefined;
 			if (this.currentId) {
-				snappedCoordinate = this.coordinateSnapping.getSnappableCoordinate(
+				snapped = this.coordinateSnapping.getSnappableCoordinate(
 					event,
 					this.currentId,
+					target,
 				);
 			} else {
-				snappedCoordinate =
-					this.coordinateSnapping.getSnappableCoordinateFirstClick(event);
+				snapped = this.coordinateSnapping.getSnappableCoordinateFirstClick(
+					event,
+					target,
+				);
+			}
+
+			if (snapped) {
+				snappedCoordinate = snapped;
 			}
 		}
 
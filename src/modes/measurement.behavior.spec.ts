@@ -0,0 +1,253 @@
+import { MockBehaviorConfig } from "../test/mock-behavior-config";
+import { BehaviorConfig } from "./base.behavior";
+import {
+	MeasurementBehavior,
+	formatArea,
+	formatLength,
+} from "./measurement.behavior";
+import { COMMON_PROPERTIES } from "../common";
+
+describe("formatLength", () => {
+	it("formats metric lengths", () => {
+		expect(formatLength(0.1234, "metric")).toBe("123 m");
+		expect(formatLength(1.234, "metric")).toBe("1.23 km");
+	});
+
+	it("formats imperial lengths", () => {
+		expect(formatLength(0.05, "imperial")).toBe("264 ft");
+		expect(formatLength(1.5, "imperial")).toBe("1.50 mi");
+	});
+
+	it("formats nautical lengths", () => {
+		expect(formatLength(0.5, "nautical")).toBe("0.50 nmi");
+	});
+});
+
+describe("formatArea", () => {
+	it("formats metric areas", () => {
+		expect(formatArea(0.0005, "metric")).toBe("500 m²");
+		expect(formatArea(2.5, "metric")).toBe("2.50 km²");
+	});
+
+	it("formats imperial areas", () => {
+		expect(formatArea(0.001, "imperial")).toBe("27878 ft²");
+		expect(formatArea(0.5, "imperial")).toBe("320.00 ac");
+		expect(formatArea(2, "imperial")).toBe("2.00 mi²");
+	});
+
+	it("formats nautical areas", () => {
+		expect(formatArea(3, "nautical")).toBe("3.00 nmi²");
+	});
+});
+
+describe("MeasurementBehavior", () => {
+	describe("constructor", () => {
+		it("constructs", () => {
+			new MeasurementBehavior(MockBehaviorConfig("test"), {
+				units: "metric",
+				labels: true,
+			});
+		});
+	});
+
+	describe("api", () => {
+		let config: BehaviorConfig;
+
+		const createLineString = () =>
+			config.store.create([
+				{
+					geometry: {
+						type: "LineString",
+						coordinates: [
+							[0, 0],
+							[0, 1],
+							[1, 1],
+						],
+					},
+					properties: { mode: "test" },
+				},
+			])[0];
+
+		const createPolygon = () =>
+			config.store.create([
+				{
+					geometry: {
+						type: "Polygon",
+						coordinates: [
+							[
+								[0, 0],
+								[0, 1],
+								[1, 1],
+								[1, 0],
+								[0, 0],
+							],
+						],
+					},
+					properties: { mode: "test" },
+				},
+			])[0];
+
+		const getLabels = () =>
+			config.store
+				.copyAll()
+				.filter(
+					({ properties }) => properties[COMMON_PROPERTIES.MEASUREMENT_LABEL],
+				);
+
+		beforeEach(() => {
+			config = MockBehaviorConfig("test");
+		});
+
+		describe("update", () => {
+			it("adds the measurements of a linestring to its properties", () => {
+				const measurement = new MeasurementBehavior(config, {
+					units: "metric",
+					labels: false,
+				});
+				const id = createLineString();
+
+				measurement.update(id);
+
+				const properties = config.store.getPropertiesCopy(id);
+				const segmentLengths = properties.segmentLengths as number[];
+
+				expect(segmentLengths).toHaveLength(2);
+				expect(segmentLengths[0]).toBeCloseTo(111.19, 1);
+				expect(segmentLengths[1]).toBeCloseTo(111.18, 1);
+				expect(properties.totalLength).toBeCloseTo(222.37, 1);
+				expect(properties.bearing).toBeCloseTo(90, 0);
+				expect(properties.area).toBeUndefined();
+				expect(getLabels()).toHaveLength(0);
+			});
+
+			it("adds the measurements of a polygon to its properties", () => {
+				const measurement = new MeasurementBehavior(config, {
+					units: "metric",
+					labels: false,
+				});
+				const id = createPolygon();
+
+				measurement.update(id);
+
+				const properties = config.store.getPropertiesCopy(id);
+				expect(properties.segmentLengths).toHaveLength(4);
+				expect(properties.totalLength).toBeCloseTo(444.75, 1);
+				expect(properties.area).toBeCloseTo(12363.7, 0);
+			});
+
+			it("measures in the given units", () => {
+				const measurement = new MeasurementBehavior(config, {
+					units: "nautical",
+					labels: false,
+				});
+				const id = createLineString();
+
+				measurement.update(id);
+
+				expect(config.store.getPropertiesCopy(id).totalLength).toBeCloseTo(
+					120.07,
+					1,
+				);
+			});
+
+			it("creates labels for each segment and the total length", () => {
+				const measurement = new MeasurementBehavior(config, {
+					units: "metric",
+					labels: true,
+				});
+				const id = createLineString();
+
+				measurement.update(id);
+
+				const labels = getLabels();
+				expect(labels).toHaveLength(3);
+				expect(measurement.ids).toHaveLength(3);
+				expect(
+					labels.map(({ properties }) => [
+						properties[COMMON_PROPERTIES.MEASUREMENT_LABEL],
+						properties.text,
+					]),
+				).toStrictEqual([
+					["segment", "111.19 km"],
+					["segment", "111.18 km"],
+					["total", "222.37 km"],
+				]);
+				expect(labels[2].geometry.coordinates).toStrictEqual([1, 1]);
+			});
+
+			it("creates labels for each edge and the area of a polygon", () => {
+				const measurement = new MeasurementBehavior(config, {
+					units: "metric",
+					labels: true,
+				});
+				const id = createPolygon();
+
+				measurement.update(id);
+
+				const labels = getLabels();
+				expect(labels).toHaveLength(5);
+				expect(labels[4].properties.text).toBe("12363.72 km²");
+				expect(labels[4].geometry.coordinates).toStrictEqual([0.5, 0.5]);
+			});
+
+			it("reuses existing labels and deletes those no longer needed", () => {
+				const measurement = new MeasurementBehavior(config, {
+					units: "metric",
+					labels: true,
+				});
+				const id = createLineString();
+
+				measurement.update(id);
+				const [firstLabelId] = measurement.ids;
+
+				config.store.updateGeometry([
+					{
+						id,
+						geometry: {
+							type: "LineString",
+							coordinates: [
+								[0, 0],
+								[0, 2],
+							],
+						},
+					},
+				]);
+
+				measurement.update(id);
+
+				expect(measurement.ids).toStrictEqual([firstLabelId]);
+				expect(getLabels()).toHaveLength(1);
+				expect(getLabels()[0].properties.text).toBe("222.39 km");
+			});
+
+			it("does not create labels when showLabels is false", () => {
+				const measurement = new MeasurementBehavior(config, {
+					units: "metric",
+					labels: true,
+				});
+				const id = createLineString();
+
+				measurement.update(id, false);
+
+				expect(getLabels()).toHaveLength(0);
+				expect(config.store.getPropertiesCopy(id).totalLength).toBeDefined();
+			});
+		});
+
+		describe("delete", () => {
+			it("deletes all of the labels", () => {
+				const measurement = new MeasurementBehavior(config, {
+					units: "metric",
+					labels: true,
+				});
+				const id = createLineString();
+
+				measurement.update(id);
+				measurement.delete();
+
+				expect(getLabels()).toHaveLength(0);
+				expect(measurement.ids).toHaveLength(0);
+			});
+		});
+	});
+});
@@ -0,0 +1,312 @@
+import { LineString, Polygon, Position } from "geojson";
+import { BehaviorConfig, TerraDrawModeBehavior } from "./base.behavior";
+import { COMMON_PROPERTIES } from "../common";
+import { FeatureId } from "../store/store";
+import { haversineDistanceKilometers } from "../geometry/measure/haversine-distance";
+import { bearing, normalizeBearing } from "../geometry/measure/bearing";
+import { polygonAreaSquareMeters } from "../geometry/measure/area";
+import {
+	geodesicMidpointCoordinate,
+	midpointCoordinate,
+} from "../geometry/midpoint-coordinate";
+import { centroid } from "../geometry/centroid";
+import { coordinatesIdentical } from "../geometry/coordinates-identical";
+
+export type MeasurementUnits = "metric" | "imperial" | "nautical";
+
+export type MeasurementOptions = {
+	// Lengths are measured in kilometers, miles or nautical miles respectively
+	units?: MeasurementUnits;
+	// Whether to create label points showing the measurements while drawing
+	labels?: boolean;
+};
+
+export const MEASUREMENT_PROPERTIES = {
+	SEGMENT_LENGTHS: "segmentLengths",
+	TOTAL_LENGTH: "totalLength",
+	AREA: "area",
+	BEARING: "bearing",
+} as const;
+
+type Label = {
+	coordinate: Position;
+	text: string;
+	kind: "segment" | "total" | "area";
+};
+
+const KILOMETERS_PER_UNIT: Record<MeasurementUnits, number> = {
+	metric: 1,
+	imperial: 1.609344,
+	nautical: 1.852,
+};
+
+const FEET_PER_MILE = 5280;
+const ACRES_PER_SQUARE_MILE = 640;
+
+/**
+ * Formats a length for display, using smaller units for short lengths
+ * @param length - the length in kilometers, miles or nautical miles
+ * @param units - the units the length is in
+ * @returns the length with its unit, i.e. "120 m" or "1.25 km"
+ */
+export function formatLength(length: number, units: MeasurementUnits) {
+	if (units === "metric") {
+		return length < 1
+			? `${Math.round(length * 1000)} m`
+			: `${length.toFixed(2)} km`;
+	} else if (units === "imperial") {
+		return length < 0.1
+			? `${Math.round(length * FEET_PER_MILE)} ft`
+			: `${length.toFixed(2)} mi`;
+	}
+
+	return `${length.toFixed(2)} nmi`;
+}
+
+/**
+ * Formats an area for display, using smaller units for small areas
+ * @param area - the area in square kilometers, square miles or square nautical miles
+ * @param units - the units the area is in
+ * @returns the area with its unit, i.e. "500 m²" or "2.50 km²"
+ */
+export function formatArea(area: number, units: MeasurementUnits) {
+	if (units === "metric") {
+		return area < 1
+			? `${Math.round(area * 1000000)} m²`
+			: `${area.toFixed(2)} km²`;
+	} else if (units === "imperial") {
+		const acres = area * ACRES_PER_SQUARE_MILE;
+		if (acres < 1) {
+			return `${Math.round(area * FEET_PER_MILE * FEET_PER_MILE)} ft²`;
+		}
+		return acres < ACRES_PER_SQUARE_MILE
+			? `${acres.toFixed(2)} ac`
+			: `${area.toFixed(2)} mi²`;
+	}
+
+	return `${area.toFixed(2)} nmi²`;
+}
+
+export class MeasurementBehavior extends TerraDrawModeBehavior {
+	constructor(
+		readonly config: BehaviorConfig,
+		private readonly options: Required<MeasurementOptions>,
+	) {
+		super(config);
+	}
+
+	private labelIds: FeatureId[] = [];
+
+	get ids() {
+		return this.labelIds.concat();
+	}
+
+	set ids(_: FeatureId[]) {}
+
+	private length(start: Position, end: Position) {
+		return (
+			haversineDistanceKilometers(start, end) /
+			KILOMETERS_PER_UNIT[this.options.units]
+		);
+	}
+
+	private midpoint(start: Position, end: Position) {
+		return this.projection === "web-mercator"
+			? midpointCoordinate(
+					start,
+					end,
+					this.coordinatePrecision,
+					this.project,
+					this.unproject,
+			  )
+			: geodesicMidpointCoordinate(start, end, this.coordinatePrecision);
+	}
+
+	private measureGeometry(geometry: LineString | Polygon) {
+		const coordinates =
+			geometry.type === "LineString"
+				? geometry.coordinates
+				: geometry.coordinates[0];
+
+		const segments: { start: Position; end: Position; length: number }[] = [];
+		for (let i = 0; i < coordinates.length - 1; i++) {
+			segments.push({
+				start: coordinates[i],
+				end: coordinates[i + 1],
+				length: this.length(coordinates[i], coordinates[i + 1]),
+			});
+		}
+
+		// The bearing is of the last segment which has a length,
+		// which while drawing is the segment following the cursor
+		const lastSegment = segments
+			.filter(({ start, end }) => !coordinatesIdentical(start, end))
+			.pop();
+
+		const kilometersPerUnit = KILOMETERS_PER_UNIT[this.options.units];
+
+		return {
+			segments,
+			totalLength: segments.reduce((total, { length }) => total + length, 0),
+			area:
+				geometry.type === "Polygon"
+					? polygonAreaSquareMeters(geometry) /
+					  1000000 /
+					  (kilometersPerUnit * kilometersPerUnit)
+					: undefined,
+			bearing: lastSegment
+				? normalizeBearing(bearing(lastSegment.start, lastSegment.end))
+				: undefined,
+		};
+	}
+
+	private getLabels(
+		geometry: LineString | Polygon,
+		measurements: ReturnType<MeasurementBehavior["measureGeometry"]>,
+	): Label[] {
+		const { units } = this.options;
+
+		const labels: Label[] = measurements.segments
+			.filter(({ start, end }) => !coordinatesIdentical(start, end))
+			.map(({ start, end, length }) => ({
+				coordinate: this.midpoint(start, end),
+				text: formatLength(length, units),
+				kind: "segment",
+			}));
+
+		if (geometry.type === "LineString" && labels.length > 1) {
+			labels.push({
+				coordinate: geometry.coordinates[geometry.coordinates.length - 1],
+				text: formatLength(measurements.totalLength, units),
+				kind: "total",
+			});
+		}
+
+		if (measurements.area) {
+			labels.push({
+				coordinate: centroid({ type: "Feature", geometry, properties: {} }),
+				text: formatArea(measurements.area, units),
+				kind: "area",
+			});
+		}
+
+		return labels;
+	}
+
+	/**
+	 * Measures a feature, adding its measurements to its properties and
+	 * updating the labels for it if they are enabled
+	 * @param featureId - the id of the LineString or Polygon feature to measure
+	 * @param showLabels - whether to show labels for the feature, i.e. not once it has been drawn
+	 */
+	public update(featureId: FeatureId, showLabels = true) {
+		const geometry = this.store.getGeometryCopy(featureId);
+
+		if (geometry.type !== "LineString" && geometry.type !== "Polygon") {
+			return;
+		}
+
+		const measurements = this.measureGeometry(geometry);
+
+		const properties: {
+			id: FeatureId;
+			property: string;
+			value: number | number[];
+		}[] = [
+			{
+				id: featureId,
+				property: MEASUREMENT_PROPERTIES.SEGMENT_LENGTHS,
+				value: measurements.segments.map(({ length }) => length),
+			},
+			{
+				id: featureId,
+				property: MEASUREMENT_PROPERTIES.TOTAL_LENGTH,
+				value: measurements.totalLength,
+			},
+		];
+
+		if (measurements.area !== undefined) {
+			properties.push({
+				id: featureId,
+				property: MEASUREMENT_PROPERTIES.AREA,
+				value: measurements.area,
+			});
+		}
+
+		if (measurements.bearing !== undefined) {
+			properties.push({
+				id: featureId,
+				property: MEASUREMENT_PROPERTIES.BEARING,
+				value: measurements.bearing,
+			});
+		}
+
+		this.store.updateProperty(properties);
+
+		if (this.options.labels && showLabels) {
+			this.updateLabels(this.getLabels(geometry, measurements));
+		}
+	}
+
+	// Existing labels are reused where possible, so that
+	// labels are not recreated on every update
+	private updateLabels(labels: Label[]) {
+		const reused = labels.slice(0, this.labelIds.length);
+		const created = labels.slice(this.labelIds.length);
+		const deleted = this.labelIds.slice(labels.length);
+
+		if (reused.length) {
+			this.store.updateGeometry(
+				reused.map(({ coordinate }, i) => ({
+					id: this.labelIds[i],
+					geometry: { type: "Point", coordinates: coordinate },
+				})),
+			);
+			this.store.updateProperty(
+				reused.reduce<{ id: FeatureId; property: string; value: string }[]>(
+					(updates, { text, kind }, i) => {
+						updates.push(
+							{ id: this.labelIds[i], property: "text", value: text },
+							{
+								id: this.labelIds[i],
+								property: COMMON_PROPERTIES.MEASUREMENT_LABEL,
+								value: kind,
+							},
+						);
+						return updates;
+					},
+					[],
+				),
+			);
+		}
+
+		if (deleted.length) {
+			this.store.delete(deleted);
+		}
+
+		const createdIds = created.length
+			? this.store.create(
+					created.map(({ coordinate, text, kind }) => ({
+						geometry: { type: "Point", coordinates: coordinate },
+						properties: {
+							mode: this.mode,
+							[COMMON_PROPERTIES.MEASUREMENT_LABEL]: kind,
+							text,
+						},
+					})),
+			  )
+			: [];
+
+		this.labelIds = this.labelIds.slice(0, reused.length).concat(createdIds);
+	}
+
+	/**
+	 * Removes all of the labels from the store
+	 */
+	public delete() {
+		if (this.labelIds.length) {
+			this.store.delete(this.labelIds);
+			this.labelIds = [];
+		}
+	}
+}
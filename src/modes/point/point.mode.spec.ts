@@ -1,4 +1,4 @@
-import { Point } from "geojson";
+import { Point, Position } from "geojson";
 import { MockModeConfig } from "../../test/mock-mode-config";
 import { TerraDrawPointMode } from "./point.mode";
 import { MockCursorEvent } from "../../test/mock-cursor-event";
@@ -116,6 +116,102 @@ describe("TerraDrawPointMode", () => {
 			);
 		});
 
+		describe("snapping", () => {
+			it("snaps to points of the same mode with toCoordinate enabled", () => {
+				const pointMode = new TerraDrawPointMode({
+					snapping: { toCoordinate: true },
+				});
+
+				const mockConfig = MockModeConfig(pointMode.mode);
+
+				pointMode.register(mockConfig);
+
+				pointMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+				pointMode.onClick(MockCursorEvent({ lng: 0.1, lat: 0.1 }));
+
+				const features = mockConfig.store.copyAll();
+				expect(features).toHaveLength(2);
+				expect(features[1].geometry.coordinates).toStrictEqual([0, 0]);
+			});
+
+			it("snaps to features from other modes with a toCoordinate snapping target", () => {
+				const pointMode = new TerraDrawPointMode({
+					snapping: {
+						toCoordinate: {
+							filter: (feature) => feature.properties.mode === "linestring",
+						},
+					},
+				});
+
+				const mockConfig = MockModeConfig(pointMode.mode);
+
+				pointMode.register(mockConfig);
+
+				mockConfig.store.create([
+					{
+						geometry: {
+							type: "LineString",
+							coordinates: [
+								[1, 1],
+								[2, 2],
+							],
+						},
+						properties: { mode: "linestring" },
+					},
+				]);
+
+				pointMode.onClick(MockCursorEvent({ lng: 1.1, lat: 1.1 }));
+
+				const [, point] = mockConfig.store.copyAll();
+				expect(point.geometry.coordinates).toStrictEqual([1, 1]);
+			});
+
+			it("snaps to the lines of features with a toLine snapping target", () => {
+				const pointMode = new TerraDrawPointMode({
+					snapping: { toLine: {} },
+				});
+
+				const mockConfig = MockModeConfig(pointMode.mode);
+
+				pointMode.register(mockConfig);
+
+				mockConfig.store.create([
+					{
+						geometry: {
+							type: "LineString",
+							coordinates: [
+								[0, 0],
+								[0, 2],
+							],
+						},
+						properties: { mode: "linestring" },
+					},
+				]);
+
+				pointMode.onClick(MockCursorEvent({ lng: 0.1, lat: 1 }));
+
+				const [, point] = mockConfig.store.copyAll();
+				const [lng, lat] = point.geometry.coordinates as Position;
+				expect(lng).toBeCloseTo(0);
+				expect(lat).toBeCloseTo(1);
+			});
+
+			it("uses the custom snapping function with toCustom enabled", () => {
+				const pointMode = new TerraDrawPointMode({
+					snapping: { toCustom: () => [5, 5] },
+				});
+
+				const mockConfig = MockModeConfig(pointMode.mode);
+
+				pointMode.register(mockConfig);
+
+				pointMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+
+				const [point] = mockConfig.store.copyAll();
+				expect(point.geometry.coordinates).toStrictEqual([5, 5]);
+			});
+		});
+
 		describe("validate", () => {
 			it("does not create the point if validation returns false", () => {
 				const pointMode = new TerraDrawPointMode({
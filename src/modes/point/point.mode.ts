@@ -5,6 +5,7 @@ import {
 	HexColorStyling,
 	Cursor,
 	UpdateTypes,
+	SnappingTarget,
 } from "../../common";
 import { GeoJSONStoreFeatures, StoreValidation } from "../../store/store";
 import { getDefaultStyling } from "../../util/styling";
@@ -13,8 +14,13 @@ import {
 	CustomStyling,
 	TerraDrawBaseDrawMode,
 } from "../base.mode";
-import { ValidatePointFeature } from "../../validations/point.validation";
-import { Point } from "geojson";
+import { ValidatePointOrMultiPointFeature } from "../../validations/point.validation";
+import { Point, Position } from "geojson";
+import { BehaviorConfig } from "../base.behavior";
+import { ClickBoundingBoxBehavior } from "../click-bounding-box.behavior";
+import { PixelDistanceBehavior } from "../pixel-distance.behavior";
+import { CoordinateSnappingBehavior } from "../coordinate-snapping.behavior";
+import { LineSnappingBehavior } from "../line-snapping.behavior";
 
 type PointModeStyling = {
 	pointWidth: NumericStyling;
@@ -27,15 +33,28 @@ interface Cursors {
 	create?: Cursor;
 }
 
+interface Snapping {
+	// true snaps to features of this mode, or a target can snap to features of other modes
+	toLine?: boolean | SnappingTarget;
+	toCoordinate?: boolean | SnappingTarget;
+	toCustom?: (event: TerraDrawMouseEvent) => Position | undefined;
+}
+
 interface TerraDrawPointModeOptions<T extends CustomStyling>
 	extends BaseModeOptions<T> {
 	cursors?: Cursors;
+	snapping?: Snapping;
 }
 
 export class TerraDrawPointMode extends TerraDrawBaseDrawMode<PointModeStyling> {
 	mode = "point";
 
 	private cursors: Required<Cursors>;
+	private snapping: Snapping | undefined;
+
+	// Behaviors
+	private lineSnapping!: LineSnappingBehavior;
+	private coordinateSnapping!: CoordinateSnappingBehavior;
 
 	constructor(options?: TerraDrawPointModeOptions<PointModeStyling>) {
 		super(options);
@@ -48,6 +67,25 @@ export class TerraDrawPointMode extends TerraDrawBaseDrawMode<PointModeStyling>
 		} else {
 			this.cursors = defaultCursors;
 		}
+
+		this.snapping = options && options.snapping ? options.snapping : undefined;
+	}
+
+	/** @internal */
+	registerBehaviors(config: BehaviorConfig) {
+		const pixelDistance = new PixelDistanceBehavior(config);
+		const clickBoundingBox = new ClickBoundingBoxBehavior(config);
+
+		this.lineSnapping = new LineSnappingBehavior(
+			config,
+			pixelDistance,
+			clickBoundingBox,
+		);
+		this.coordinateSnapping = new CoordinateSnappingBehavior(
+			config,
+			pixelDistance,
+			clickBoundingBox,
+		);
 	}
 
 	/** @internal */
@@ -69,9 +107,11 @@ export class TerraDrawPointMode extends TerraDrawBaseDrawMode<PointModeStyling>
 			throw new Error("Mode must be registered first");
 		}
 
+		const snappedCoordinate = this.snapCoordinate(event);
+
 		const geometry = {
 			type: "Point",
-			coordinates: [event.lng, event.lat],
+			coordinates: snappedCoordinate || [event.lng, event.lat],
 		} as Point;
 
 		const properties = { mode: this.mode };
@@ -129,7 +169,8 @@ export class TerraDrawPointMode extends TerraDrawBaseDrawMode<PointModeStyling>
 
 		if (
 			feature.type === "Feature" &&
-			feature.geometry.type === "Point" &&
+			(feature.geometry.type === "Point" ||
+				feature.geometry.type === "MultiPoint") &&
 			feature.properties.mode === this.mode
 		) {
 			styles.pointWidth = this.getNumericStylingValue(
@@ -162,9 +203,51 @@ export class TerraDrawPointMode extends TerraDrawBaseDrawMode<PointModeStyling>
 		return styles;
 	}
 
+	// Points are features of their own rather than coordinates of a feature, so
+	// snapping to this mode snaps to its points as well as their coordinates
+	private getSnappingTarget(option: boolean | SnappingTarget) {
+		return typeof option === "object"
+			? option
+			: {
+					filter: (feature: GeoJSONStoreFeatures) =>
+						feature.properties.mode === this.mode,
+			  };
+	}
+
+	private snapCoordinate(event: TerraDrawMouseEvent) {
+		let snappedCoordinate: Position | undefined;
+
+		if (this.snapping?.toLine) {
+			snappedCoordinate = this.lineSnapping.getSnappableCoordinateFirstClick(
+				event,
+				this.getSnappingTarget(this.snapping.toLine),
+			);
+		}
+
+		if (this.snapping?.toCoordinate) {
+			const snapped = this.coordinateSnapping.getSnappableCoordinateFirstClick(
+				event,
+				this.getSnappingTarget(this.snapping.toCoordinate),
+			);
+
+			if (snapped) {
+				snappedCoordinate = snapped;
+			}
+		}
+
+		if (this.snapping?.toCustom) {
+			snappedCoordinate = this.snapping.toCustom(event);
+		}
+
+		return snappedCoordinate;
+	}
+
 	validateFeature(feature: unknown): StoreValidation {
 		return this.validateModeFeature(feature, (baseValidatedFeature) =>
-			ValidatePointFeature(baseValidatedFeature, this.coordinatePrecision),
+			ValidatePointOrMultiPointFeature(
+				baseValidatedFeature,
+				this.coordinatePrecision,
+			),
 		);
 	}
 }
@@ -1,3 +1,4 @@
+import { Polygon } from "geojson";
 import { Validation } from "../../common";
 import { GeoJSONStore } from "../../store/store";
 import { MockModeConfig } from "../../test/mock-mode-config";
@@ -305,6 +306,63 @@ describe("TerraDrawPolygonMode", () => {
 			expect(features.length).toBe(2);
 		});
 
+		it("can snap to features from other modes with a toCoordinate snapping target", () => {
+			polygonMode = new TerraDrawPolygonMode({
+				snapping: {
+					toCoordinate: {
+						filter: (feature) => feature.properties.mode === "point",
+					},
+				},
+			});
+			const mockConfig = MockModeConfig(polygonMode.mode);
+			store = mockConfig.store;
+			polygonMode.register(mockConfig);
+			polygonMode.start();
+
+			store.create([
+				{
+					geometry: { type: "Point", coordinates: [2, 2] },
+					properties: { mode: "point" },
+				},
+				{
+					geometry: {
+						type: "LineString",
+						coordinates: [
+							[0, 0],
+							[0, 1],
+						],
+					},
+					properties: { mode: "linestring" },
+				},
+			]);
+
+			// The linestring is not allowed by the filter
+			polygonMode.onMouseMove(MockCursorEvent({ lng: 0.1, lat: 0.1 }));
+
+			expect(
+				store
+					.copyAll()
+					.filter(({ properties }) => properties.snappingPoint === true),
+			).toHaveLength(0);
+
+			polygonMode.onMouseMove(MockCursorEvent({ lng: 2.1, lat: 2.1 }));
+
+			const snappingPoints = store
+				.copyAll()
+				.filter(({ properties }) => properties.snappingPoint === true);
+			expect(snappingPoints).toHaveLength(1);
+			expect(snappingPoints[0].geometry.coordinates).toStrictEqual([2, 2]);
+
+			polygonMode.onClick(MockCursorEvent({ lng: 2.1, lat: 2.1 }));
+
+			const [polygon] = store
+				.copyAll()
+				.filter(({ properties }) => properties.mode === "polygon");
+			expect((polygon.geometry as Polygon).coordinates[0][0]).toStrictEqual([
+				2, 2,
+			]);
+		});
+
 		it("can create a polygon with toCustom snapping enabled", () => {
 			// Make the function return a set of arbitrary coordinates
 			const coordinates = [
@@ -732,6 +790,141 @@ describe("TerraDrawPolygonMode", () => {
 			});
 		});
 
+		describe("deleteCoordinate", () => {
+			it("removes the last placed coordinate", () => {
+				polygonMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+				polygonMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 1 }));
+				polygonMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+				polygonMode.onMouseMove(MockCursorEvent({ lng: 2, lat: 2 }));
+				polygonMode.onClick(MockCursorEvent({ lng: 2, lat: 2 }));
+				polygonMode.onMouseMove(MockCursorEvent({ lng: 3, lat: 3 }));
+
+				// 2 Closing points and 1 Polygon
+				expect(store.copyAll().length).toBe(3);
+
+				polygonMode.onKeyUp(MockKeyboardEvent({ key: "Backspace" }));
+
+				// The polygon can no longer be closed so the closing points are removed
+				const features = store.copyAll();
+				expect(features.length).toBe(1);
+				expect(features[0].geometry.coordinates).toStrictEqual([
+					[
+						[0, 0],
+						[1, 1],
+						[3, 3],
+						[0, 0],
+					],
+				]);
+
+				// Drawing continues from the remaining coordinates
+				polygonMode.onMouseMove(MockCursorEvent({ lng: 4, lat: 4 }));
+				polygonMode.onClick(MockCursorEvent({ lng: 4, lat: 4 }));
+
+				expect(store.copyAll().length).toBe(3);
+			});
+
+			it("cancels the drawing when removing the only placed coordinate", () => {
+				polygonMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+				polygonMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 1 }));
+
+				polygonMode.onKeyUp(MockKeyboardEvent({ key: "Backspace" }));
+
+				expect(store.copyAll().length).toBe(0);
+				expect(polygonMode.state).toBe("started");
+			});
+
+			it("does not remove a placed coordinate when it is clicked by default", () => {
+				polygonMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+				polygonMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 1 }));
+				polygonMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+				polygonMode.onMouseMove(MockCursorEvent({ lng: 2, lat: 2 }));
+				polygonMode.onClick(MockCursorEvent({ lng: 2, lat: 2 }));
+				polygonMode.onMouseMove(MockCursorEvent({ lng: 3, lat: 3 }));
+				polygonMode.onClick(MockCursorEvent({ lng: 3, lat: 3 }));
+
+				polygonMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 1 }));
+				polygonMode.onClick({
+					...MockCursorEvent({ lng: 1, lat: 1 }),
+					heldKeys: ["Shift"],
+				});
+
+				expect(store.copyAll()[0].geometry.coordinates).toStrictEqual([
+					[
+						[0, 0],
+						[1, 1],
+						[2, 2],
+						[3, 3],
+						[1, 1],
+						[1, 1],
+						[0, 0],
+					],
+				]);
+			});
+
+			it("removes a placed coordinate when it is clicked with the deleteClickedCoordinate key held", () => {
+				polygonMode = new TerraDrawPolygonMode({
+					keyEvents: { deleteClickedCoordinate: "Shift" },
+				});
+				const mockConfig = MockModeConfig(polygonMode.mode);
+				store = mockConfig.store;
+				onFinish = mockConfig.onFinish;
+
+				polygonMode.register(mockConfig);
+				polygonMode.start();
+
+				polygonMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+				polygonMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 1 }));
+				polygonMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+				polygonMode.onMouseMove(MockCursorEvent({ lng: 2, lat: 2 }));
+				polygonMode.onClick(MockCursorEvent({ lng: 2, lat: 2 }));
+				polygonMode.onMouseMove(MockCursorEvent({ lng: 3, lat: 3 }));
+				polygonMode.onClick(MockCursorEvent({ lng: 3, lat: 3 }));
+
+				polygonMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 1 }));
+				polygonMode.onClick({
+					...MockCursorEvent({ lng: 1, lat: 1 }),
+					heldKeys: ["Shift"],
+				});
+
+				const features = store.copyAll();
+
+				// 2 Closing points and 1 Polygon
+				expect(features.length).toBe(3);
+				expect(features[0].geometry.coordinates).toStrictEqual([
+					[
+						[0, 0],
+						[2, 2],
+						[3, 3],
+						[1, 1],
+						[0, 0],
+					],
+				]);
+				expect(onFinish).not.toHaveBeenCalled();
+			});
+
+			it("does not remove coordinates when deleteCoordinate is null", () => {
+				polygonMode = new TerraDrawPolygonMode({
+					keyEvents: { deleteCoordinate: null },
+				});
+				const mockConfig = MockModeConfig(polygonMode.mode);
+
+				store = mockConfig.store;
+				polygonMode.register(mockConfig);
+				polygonMode.start();
+
+				polygonMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+				polygonMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 1 }));
+				polygonMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+
+				polygonMode.onKeyUp(MockKeyboardEvent({ key: "Backspace" }));
+				polygonMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+
+				// The click places a third coordinate rather than removing the first,
+				// so there are 2 Closing points and 1 Polygon
+				expect(store.copyAll().length).toBe(3);
+			});
+		});
+
 		it("does not finish drawing polygon when finish is null", () => {
 			polygonMode = new TerraDrawPolygonMode({ keyEvents: { finish: null } });
 			const mockConfig = MockModeConfig(polygonMode.mode);
@@ -765,6 +958,241 @@ describe("TerraDrawPolygonMode", () => {
 			expect(features.length).toBe(3);
 		});
 	});
+
+	describe("onDoubleTap", () => {
+		let polygonMode: TerraDrawPolygonMode;
+		let store: GeoJSONStore;
+		let onFinish: jest.Mock;
+
+		beforeEach(() => {
+			polygonMode = new TerraDrawPolygonMode();
+			const mockConfig = MockModeConfig(polygonMode.mode);
+			store = mockConfig.store;
+			onFinish = mockConfig.onFinish;
+			polygonMode.register(mockConfig);
+			polygonMode.start();
+		});
+
+		it("does nothing when no polygon is present", () => {
+			polygonMode.onDoubleTap();
+
+			expect(onFinish).not.toHaveBeenCalled();
+		});
+
+		it("finishes the polygon when tapping without moving the cursor", () => {
+			polygonMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			polygonMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+			polygonMode.onClick(MockCursorEvent({ lng: 2, lat: 0 }));
+			polygonMode.onDoubleTap();
+
+			expect(onFinish).toHaveBeenCalledTimes(1);
+
+			const features = store.copyAll();
+			expect(features.length).toBe(1);
+			expect(features[0].geometry.coordinates).toStrictEqual([
+				[
+					[0, 0],
+					[1, 1],
+					[2, 0],
+					[0, 0],
+				],
+			]);
+		});
+	});
+
+	describe("holes", () => {
+		let polygonMode: TerraDrawPolygonMode;
+		let store: GeoJSONStore;
+		let onFinish: jest.Mock;
+
+		const setup = (options?: { holes: boolean }) => {
+			polygonMode = new TerraDrawPolygonMode(options);
+			const mockConfig = MockModeConfig(polygonMode.mode);
+
+			store = mockConfig.store;
+			onFinish = mockConfig.onFinish;
+			polygonMode.register(mockConfig);
+			polygonMode.start();
+
+			const [containerId] = store.create([
+				{
+					geometry: {
+						type: "Polygon",
+						coordinates: [
+							[
+								[0, 0],
+								[0, 10],
+								[10, 10],
+								[10, 0],
+								[0, 0],
+							],
+						],
+					},
+					properties: { mode: "polygon" },
+				},
+			]);
+
+			return containerId;
+		};
+
+		const drawPolygon = (coordinates: [number, number][]) => {
+			coordinates.forEach(([lng, lat]) => {
+				polygonMode.onMouseMove(MockCursorEvent({ lng, lat }));
+				polygonMode.onClick(MockCursorEvent({ lng, lat }));
+			});
+
+			polygonMode.onKeyUp(MockKeyboardEvent({ key: "Enter" }));
+		};
+
+		it("does not cut holes by default", () => {
+			setup();
+
+			drawPolygon([
+				[2, 2],
+				[2, 4],
+				[4, 4],
+				[4, 2],
+			]);
+
+			expect(store.copyAll()).toHaveLength(2);
+			expect(onFinish).toHaveBeenCalledWith(expect.any(String), {
+				action: "draw",
+				mode: "polygon",
+			});
+		});
+
+		it("cuts a hole into the polygon it is drawn inside of", () => {
+			const containerId = setup({ holes: true });
+
+			drawPolygon([
+				[2, 2],
+				[2, 4],
+				[4, 4],
+				[4, 2],
+			]);
+
+			const features = store.copyAll();
+			expect(features).toHaveLength(1);
+			expect(features[0].id).toBe(containerId);
+			expect(features[0].geometry.coordinates).toStrictEqual([
+				[
+					[0, 0],
+					[0, 10],
+					[10, 10],
+					[10, 0],
+					[0, 0],
+				],
+				[
+					[2, 2],
+					[2, 4],
+					[4, 4],
+					[4, 2],
+					[2, 2],
+				],
+			]);
+			expect(onFinish).toHaveBeenCalledWith(containerId, {
+				action: "hole",
+				mode: "polygon",
+			});
+		});
+
+		it("does not cut a hole if the polygon is not entirely inside another polygon", () => {
+			setup({ holes: true });
+
+			drawPolygon([
+				[8, 8],
+				[8, 12],
+				[12, 12],
+				[12, 8],
+			]);
+
+			expect(store.copyAll()).toHaveLength(2);
+			expect(onFinish).toHaveBeenCalledWith(expect.any(String), {
+				action: "draw",
+				mode: "polygon",
+			});
+		});
+
+		it("does not cut a hole inside of an existing hole", () => {
+			const containerId = setup({ holes: true });
+
+			drawPolygon([
+				[2, 2],
+				[2, 6],
+				[6, 6],
+				[6, 2],
+			]);
+
+			drawPolygon([
+				[3, 3],
+				[3, 4],
+				[4, 4],
+				[4, 3],
+			]);
+
+			expect(store.copyAll()).toHaveLength(2);
+			expect(store.getGeometryCopy(containerId).coordinates).toHaveLength(2);
+		});
+	});
+});
+
+describe("measurements", () => {
+	let store: GeoJSONStore;
+	let polygonMode: TerraDrawPolygonMode;
+
+	const getLabels = () =>
+		store.copyAll().filter(({ properties }) => properties.measurementLabel);
+
+	const getPolygon = () =>
+		store.copyAll().filter(({ geometry }) => geometry.type === "Polygon")[0];
+
+	beforeEach(() => {
+		polygonMode = new TerraDrawPolygonMode({
+			measurements: { units: "metric" },
+		});
+
+		const mockConfig = MockModeConfig(polygonMode.mode);
+		store = mockConfig.store;
+
+		polygonMode.register(mockConfig);
+		polygonMode.start();
+	});
+
+	const drawTriangle = () => {
+		polygonMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+		polygonMode.onMouseMove(MockCursorEvent({ lng: 0, lat: 1 }));
+		polygonMode.onClick(MockCursorEvent({ lng: 0, lat: 1 }));
+		polygonMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 1 }));
+		polygonMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+	};
+
+	it("measures the polygon and labels it while drawing", () => {
+		drawTriangle();
+
+		const { properties } = getPolygon();
+		expect(properties.segmentLengths).toHaveLength(4);
+		expect(properties.area).toBeCloseTo(6181.86, 0);
+
+		const labels = getLabels();
+		expect(labels[labels.length - 1].properties.measurementLabel).toBe("area");
+		expect(labels[labels.length - 1].properties.text).toBe("6181.86 km²");
+	});
+
+	it("keeps the measurements but removes the labels once finished", () => {
+		drawTriangle();
+		polygonMode.onKeyUp(MockKeyboardEvent({ key: "Enter" }));
+
+		expect(getLabels()).toHaveLength(0);
+		expect(getPolygon().properties.area).toBeCloseTo(6181.86, 0);
+	});
+
+	it("removes the labels on clean up", () => {
+		drawTriangle();
+
+		polygonMode.cleanUp();
+
+		expect(store.copyAll()).toHaveLength(0);
+	});
 });
 
 describe("cleanUp", () => {
@@ -894,6 +1322,30 @@ describe("styleFeature", () => {
 		});
 	});
 
+	it("returns the correct styles for measurement labels", () => {
+		const polygonMode = new TerraDrawPolygonMode({
+			styles: {
+				measurementLabelColor: "#111111",
+				measurementLabelHaloColor: "#222222",
+			},
+		});
+
+		expect(
+			polygonMode.styleFeature({
+				type: "Feature",
+				geometry: { type: "Point", coordinates: [] },
+				properties: { mode: "polygon", measurementLabel: "area", text: "5 m²" },
+			}),
+		).toMatchObject({
+			pointWidth: 0,
+			pointOutlineWidth: 0,
+			labelText: "5 m²",
+			labelColor: "#111111",
+			labelSize: 12,
+			labelHaloColor: "#222222",
+		});
+	});
+
 	it("returns the correct styles for polygon using function", () => {
 		const polygonMode = new TerraDrawPolygonMode({
 			styles: {
@@ -1050,6 +1502,45 @@ describe("validateFeature", () => {
 		});
 	});
 
+	it("returns true for valid polygon feature with holes", () => {
+		const polygonMode = new TerraDrawPolygonMode();
+		polygonMode.register(MockModeConfig("polygon"));
+
+		expect(
+			polygonMode.validateFeature({
+				id: "66608334-7cf1-4f9e-a7f9-75e5ac135e68",
+				type: "Feature",
+				geometry: {
+					type: "Polygon",
+					coordinates: [
+						[
+							[0, 0],
+							[0, 10],
+							[10, 10],
+							[10, 0],
+							[0, 0],
+						],
+						[
+							[2, 2],
+							[2, 4],
+							[4, 4],
+							[4, 2],
+							[2, 2],
+						],
+					],
+				},
+				properties: {
+					mode: "polygon",
+					createdAt: 1685655516297,
+					updatedAt: 1685655518118,
+				},
+			}),
+		).toEqual({
+			reason: undefined,
+			valid: true,
+		});
+	});
+
 	it("returns false for valid polygon feature but validate function returns false", () => {
 		const polygonMode = new TerraDrawPolygonMode({
 			validation: () => ({ valid: false }),
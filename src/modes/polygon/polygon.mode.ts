@@ -7,6 +7,7 @@ import {
 	Cursor,
 	UpdateTypes,
 	COMMON_PROPERTIES,
+	SnappingTarget,
 } from "../../common";
 import { Polygon, Position } from "geojson";
 import {
@@ -20,19 +21,29 @@ import { BehaviorConfig } from "../base.behavior";
 import { createPolygon } from "../../util/geoms";
 import { coordinatesIdentical } from "../../geometry/coordinates-identical";
 import { ClosingPointsBehavior } from "./behaviors/closing-points.behavior";
-import { getDefaultStyling } from "../../util/styling";
+import { getDefaultLabelStyling, getDefaultStyling } from "../../util/styling";
 import {
 	FeatureId,
 	GeoJSONStoreFeatures,
 	StoreValidation,
 } from "../../store/store";
-import { ValidatePolygonFeature } from "../../validations/polygon.validation";
+import { ValidatePolygonOrMultiPolygonFeature } from "../../validations/polygon.validation";
 import { LineSnappingBehavior } from "../line-snapping.behavior";
 import { CoordinateSnappingBehavior } from "../coordinate-snapping.behavior";
+import {
+	MeasurementBehavior,
+	MeasurementOptions,
+} from "../measurement.behavior";
+import { pointInPolygon } from "../../geometry/boolean/point-in-polygon";
+import { selfIntersects } from "../../geometry/boolean/self-intersects";
 
 type TerraDrawPolygonModeKeyEvents = {
 	cancel?: KeyboardEvent["key"] | null;
 	finish?: KeyboardEvent["key"] | null;
+	// Removes the last placed coordinate while drawing
+	deleteCoordinate?: KeyboardEvent["key"] | null;
+	// Held while clicking a placed coordinate to remove it, off by default
+	deleteClickedCoordinate?: KeyboardEvent["key"] | null;
 };
 
 type PolygonStyling = {
@@ -48,6 +59,9 @@ type PolygonStyling = {
 	snappingPointColor: HexColorStyling;
 	snappingPointOutlineWidth: NumericStyling;
 	snappingPointOutlineColor: HexColorStyling;
+	measurementLabelColor: HexColorStyling;
+	measurementLabelSize: NumericStyling;
+	measurementLabelHaloColor: HexColorStyling;
 };
 
 interface Cursors {
@@ -56,8 +70,9 @@ interface Cursors {
 }
 
 interface Snapping {
-	toLine?: boolean;
-	toCoordinate?: boolean;
+	// true snaps to features of this mode, or a target can snap to features of other modes
+	toLine?: boolean | SnappingTarget;
+	toCoordinate?: boolean | SnappingTarget;
 	toCustom?: (event: TerraDrawMouseEvent) => Position | undefined;
 }
 
@@ -67,6 +82,8 @@ interface TerraDrawPolygonModeOptions<T extends CustomStyling>
 	pointerDistance?: number;
 	keyEvents?: TerraDrawPolygonModeKeyEvents | null;
 	cursors?: Cursors;
+	holes?: boolean;
+	measurements?: MeasurementOptions;
 }
 
 export class TerraDrawPolygonMode extends TerraDrawBaseDrawMode<PolygonStyling> {
@@ -76,6 +93,8 @@ export class TerraDrawPolygonMode extends TerraDrawBaseDrawMode<PolygonStyling>
 	private currentId: FeatureId | undefined;
 	private keyEvents: TerraDrawPolygonModeKeyEvents;
 	private snapping: Snapping | undefined;
+	private holes: boolean;
+	private measurements: Required<MeasurementOptions> | undefined;
 
 	private snappedPointId: FeatureId | undefined;
 
@@ -84,6 +103,7 @@ export class TerraDrawPolygonMode extends TerraDrawBaseDrawMode<PolygonStyling>
 	private coordinateSnapping!: CoordinateSnappingBehavior;
 	private pixelDistance!: PixelDistanceBehavior;
 	private closingPoints!: ClosingPointsBehavior;
+	private measurement: MeasurementBehavior | undefined;
 	private cursors: Required<Cursors>;
 	private mouseMove = false;
 
@@ -103,12 +123,30 @@ export class TerraDrawPolygonMode extends TerraDrawBaseDrawMode<PolygonStyling>
 
 		this.snapping = options && options.snapping ? options.snapping : undefined;
 
+		this.holes = options && options.holes ? options.holes : false;
+
+		this.measurements = options?.measurements && {
+			units: "metric",
+			labels: true,
+			...options.measurements,
+		};
+
 		// We want to have some defaults, but also allow key bindings
 		// to be explicitly turned off
 		if (options?.keyEvents === null) {
-			this.keyEvents = { cancel: null, finish: null };
+			this.keyEvents = {
+				cancel: null,
+				finish: null,
+				deleteCoordinate: null,
+				deleteClickedCoordinate: null,
+			};
 		} else {
-			const defaultKeyEvents = { cancel: "Escape", finish: "Enter" };
+			const defaultKeyEvents = {
+				cancel: "Escape",
+				finish: "Enter",
+				deleteCoordinate: "Backspace",
+				deleteClickedCoordinate: null,
+			};
 			this.keyEvents =
 				options && options.keyEvents
 					? { ...defaultKeyEvents, ...options.keyEvents }
@@ -152,14 +190,102 @@ export class TerraDrawPolygonMode extends TerraDrawBaseDrawMode<PolygonStyling>
 		this.snappedPointId = undefined;
 		this.closingPoints.delete();
 
+		// The measurements stay on the finished polygon but the labels are only shown while drawing
+		if (this.measurement) {
+			this.measurement.delete();
+		}
+
 		// Go back to started state
 		if (this.state === "drawing") {
 			this.setStarted();
 		}
 
+		// If the polygon was drawn inside of an existing polygon
+		// we cut it out of that polygon as a hole
+		const cutPolygonId = this.holes ? this.cutHole(finishedId) : undefined;
+
+		if (cutPolygonId !== undefined) {
+			// The area of the polygon has changed now that it has a hole
+			if (this.measurement) {
+				this.measurement.update(cutPolygonId, false);
+			}
+
+			this.onFinish(cutPolygonId, { mode: this.mode, action: "hole" });
+			return;
+		}
+
 		this.onFinish(finishedId, { mode: this.mode, action: "draw" });
 	}
 
+	private cutHole(holeId: FeatureId): FeatureId | undefined {
+		const hole = this.store.getGeometryCopy<Polygon>(holeId).coordinates[0];
+
+		const container = this.store.copyAll().find((feature) => {
+			if (
+				feature.id === holeId ||
+				feature.geometry.type !== "Polygon" ||
+				feature.properties.mode !== this.mode
+			) {
+				return false;
+			}
+
+			const rings = feature.geometry.coordinates;
+
+			// The hole must be entirely within the polygon and not within
+			// one of its existing holes, and must not overlap any of its rings
+			return (
+				hole.every((coordinate) => pointInPolygon(coordinate, rings)) &&
+				!rings
+					.slice(1)
+					.some((ring) =>
+						ring.some((coordinate) => pointInPolygon(coordinate, [hole])),
+					) &&
+				!selfIntersects({
+					type: "Feature",
+					geometry: { type: "Polygon", coordinates: [...rings, hole] },
+					properties: {},
+				})
+			);
+		});
+
+		if (!container) {
+			return undefined;
+		}
+
+		const updatedGeometry = {
+			type: "Polygon",
+			coordinates: [...(container.geometry as Polygon).coordinates, hole],
+		} as Polygon;
+
+		if (this.validate) {
+			const validationResult = this.validate(
+				{
+					id: container.id,
+					type: "Feature",
+					geometry: updatedGeometry,
+					properties: container.properties,
+				} as GeoJSONStoreFeatures,
+				{
+					project: this.project,
+					unproject: this.unproject,
+					coordinatePrecision: this.coordinatePrecision,
+					updateType: UpdateTypes.Finish,
+				},
+			);
+
+			if (!validationResult.valid) {
+				return undefined;
+			}
+		}
+
+		const containerId = container.id as FeatureId;
+
+		this.store.delete([holeId]);
+		this.store.updateGeometry([{ id: containerId, geometry: updatedGeometry }]);
+
+		return containerId;
+	}
+
 	/** @internal */
 	registerBehaviors(config: BehaviorConfig) {
 		const boundingBox = new ClickBoundingBoxBehavior(config);
@@ -175,6 +301,10 @@ export class TerraDrawPolygonMode extends TerraDrawBaseDrawMode<PolygonStyling>
 			boundingBox,
 		);
 		this.closingPoints = new ClosingPointsBehavior(config, this.pixelDistance);
+
+		if (this.measurements) {
+			this.measurement = new MeasurementBehavior(config, this.measurements);
+		}
 	}
 
 	/** @internal */
@@ -243,17 +373,10 @@ export class TerraDrawPolygonMode extends TerraDrawBaseDrawMode<PolygonStyling>
 		let updatedCoordinates;
 
 		if (this.currentCoordinate === 1) {
-			// We must add a very small epsilon value so that Mapbox GL
-			// renders the polygon - There might be a cleaner solution?
-			const epsilon = 1 / Math.pow(10, this.coordinatePrecision - 1);
-			const offset = Math.max(0.000001, epsilon);
-
-			updatedCoordinates = [
+			updatedCoordinates = this.getFirstLineCoordinates(
 				currentPolygonCoordinates[0],
 				[event.lng, event.lat],
-				[event.lng, event.lat - offset],
-				currentPolygonCoordinates[0],
-			];
+			);
 		} else if (this.currentCoordinate === 2) {
 			updatedCoordinates = [
 				currentPolygonCoordinates[0],
@@ -290,6 +413,91 @@ export class TerraDrawPolygonMode extends TerraDrawBaseDrawMode<PolygonStyling>
 		this.updatePolygonGeometry(updatedCoordinates, UpdateTypes.Provisional);
 	}
 
+	private getFirstLineCoordinates(
+		firstCoordinate: Position,
+		liveCoordinate: Position,
+	) {
+		// We must add a very small epsilon value so that Mapbox GL
+		// renders the polygon - There might be a cleaner solution?
+		const epsilon = 1 / Math.pow(10, this.coordinatePrecision - 1);
+		const offset = Math.max(0.000001, epsilon);
+
+		return [
+			firstCoordinate,
+			liveCoordinate,
+			[liveCoordinate[0], liveCoordinate[1] - offset],
+			firstCoordinate,
+		];
+	}
+
+	// The coordinates that have been placed by clicking, without the
+	// 'live' coordinate that follows the cursor or the closing coordinate
+	private getPlacedCoordinates(): Position[] {
+		if (this.currentId === undefined) {
+			return [];
+		}
+
+		return this.store
+			.getGeometryCopy<Polygon>(this.currentId)
+			.coordinates[0].slice(0, this.currentCoordinate);
+	}
+
+	// Finds the placed coordinate under the cursor which can be removed by clicking it. Once
+	// there are closing points, clicking the first or last placed coordinate finishes the polygon
+	private getClickedCoordinateIndex(event: TerraDrawMouseEvent) {
+		const placed = this.getPlacedCoordinates();
+		const closable = this.closingPoints.ids.length > 0;
+
+		return placed.findIndex(
+			(coordinate, index) =>
+				!(closable && (index === 0 || index === placed.length - 1)) &&
+				this.pixelDistance.measure(event, coordinate) < this.pointerDistance,
+		);
+	}
+
+	private deleteCoordinate(index: number) {
+		if (this.currentId === undefined) {
+			return;
+		}
+
+		const currentPolygonCoordinates = this.store.getGeometryCopy<Polygon>(
+			this.currentId,
+		).coordinates[0];
+		const liveCoordinate = currentPolygonCoordinates[this.currentCoordinate];
+
+		const placed = this.getPlacedCoordinates();
+		placed.splice(index, 1);
+
+		// Removing the only coordinate is the same as cancelling the drawing
+		if (placed.length === 0) {
+			this.cleanUp();
+			return;
+		}
+
+		const updatedCoordinates =
+			placed.length === 1
+				? this.getFirstLineCoordinates(placed[0], liveCoordinate)
+				: [...placed, liveCoordinate, placed[0]];
+
+		const updated = this.updatePolygonGeometry(
+			updatedCoordinates,
+			UpdateTypes.Commit,
+		);
+
+		if (!updated) {
+			return;
+		}
+
+		this.currentCoordinate = placed.length;
+
+		// The polygon can only be closed with at least three placed coordinates
+		if (placed.length < 3) {
+			this.closingPoints.delete();
+		} else {
+			this.closingPoints.update(updatedCoordinates);
+		}
+	}
+
 	private updatePolygonGeometry(
 		coordinates: Polygon["coordinates"][0],
 		updateType: UpdateTypes,
@@ -326,6 +534,10 @@ export class TerraDrawPolygonMode extends TerraDrawBaseDrawMode<PolygonStyling>
 			{ id: this.currentId, geometry: updatedGeometry },
 		]);
 
+		if (this.measurement) {
+			this.measurement.update(this.currentId);
+		}
+
 		return true;
 	}
 
@@ -333,14 +545,23 @@ export class TerraDrawPolygonMode extends TerraDrawBaseDrawMode<PolygonStyling>
 		let snappedCoordinate: Position | undefined = undefined;
 
 		if (this.snapping?.toLine) {
+			const target =
+				typeof this.snapping.toLine === "object"
+					? this.snapping.toLine
+					: undefined;
+
 			let snapped: Position | undefined;
 			if (this.currentId) {
 				snapped = this.lineSnapping.getSnappableCoordinate(
 					event,
 					this.currentId,
+					target,
 				);
 			} else {
-				snapped = this.lineSnapping.getSnappableCoordinateFirstClick(event);
+				snapped = this.lineSnapping.getSnappableCoordinateFirstClick(
+					event,
+					target,
+				);
 			}
 
 			if (snapped) {
@@ -349,15 +570,23 @@ export class TerraDrawPolygonMode extends TerraDrawBaseDrawMode<PolygonStyling>
 		}
 
 		if (this.snapping?.toCoordinate) {
+			const target =
+				typeof this.snapping.toCoordinate === "object"
+					? this.snapping.toCoordinate
+					: undefined;
+
 			let snapped: Position | undefined = undefined;
 			if (this.currentId) {
 				snapped = this.coordinateSnapping.getSnappableCoordinate(
 					event,
 					this.currentId,
+					target,
 				);
 			} else {
-				snapped =
-					this.coordinateSnapping.getSnappableCoordinateFirstClick(event);
+				snapped = this.coordinateSnapping.getSnappableCoordinateFirstClick(
+					event,
+					target,
+				);
 			}
 
 			if (snapped) {
@@ -389,6 +618,19 @@ export class TerraDrawPolygonMode extends TerraDrawBaseDrawMode<PolygonStyling>
 			this.snappedPointId = undefined;
 		}
 
+		if (
+			this.keyEvents.deleteClickedCoordinate &&
+			event.heldKeys.includes(this.keyEvents.deleteClickedCoordinate) &&
+			this.currentCoordinate > 0
+		) {
+			const clickedIndex = this.getClickedCoordinateIndex(event);
+
+			if (clickedIndex !== -1) {
+				this.deleteCoordinate(clickedIndex);
+				return;
+			}
+		}
+
 		if (this.currentCoordinate === 0) {
 			const snappedCoordinate = this.snapCoordinate(event);
 
@@ -558,12 +800,22 @@ export class TerraDrawPolygonMode extends TerraDrawBaseDrawMode<PolygonStyling>
 			this.cleanUp();
 		} else if (event.key === this.keyEvents.finish) {
 			this.close();
+		} else if (
+			event.key === this.keyEvents.deleteCoordinate &&
+			this.currentCoordinate > 0
+		) {
+			this.deleteCoordinate(this.currentCoordinate - 1);
 		}
 	}
 
 	/** @internal */
 	onKeyDown() {}
 
+	/** @internal */
+	onDoubleTap() {
+		this.close();
+	}
+
 	/** @internal */
 	onDragStart() {
 		// We want to allow the default drag
@@ -602,6 +854,9 @@ export class TerraDrawPolygonMode extends TerraDrawBaseDrawMode<PolygonStyling>
 			if (this.closingPoints.ids.length) {
 				this.closingPoints.delete();
 			}
+			if (this.measurement) {
+				this.measurement.delete();
+			}
 		} catch (error) {}
 	}
 
@@ -610,7 +865,10 @@ export class TerraDrawPolygonMode extends TerraDrawBaseDrawMode<PolygonStyling>
 		const styles = { ...getDefaultStyling() };
 
 		if (feature.properties.mode === this.mode) {
-			if (feature.geometry.type === "Polygon") {
+			if (
+				feature.geometry.type === "Polygon" ||
+				feature.geometry.type === "MultiPolygon"
+			) {
 				styles.polygonFillColor = this.getHexColorStylingValue(
 					this.styles.fillColor,
 					styles.polygonFillColor,
@@ -636,6 +894,34 @@ export class TerraDrawPolygonMode extends TerraDrawBaseDrawMode<PolygonStyling>
 				);
 
 				styles.zIndex = 10;
+				return styles;
+			} else if (
+				feature.geometry.type === "Point" &&
+				feature.properties[COMMON_PROPERTIES.MEASUREMENT_LABEL]
+			) {
+				// Labels are rendered by their text rather than as points
+				styles.pointWidth = 0;
+				styles.pointOutlineWidth = 0;
+				styles.zIndex = 50;
+
+				const defaultLabelStyles = getDefaultLabelStyling();
+				styles.labelText = feature.properties.text as string;
+				styles.labelColor = this.getHexColorStylingValue(
+					this.styles.measurementLabelColor,
+					defaultLabelStyles.labelColor,
+					feature,
+				);
+				styles.labelSize = this.getNumericStylingValue(
+					this.styles.measurementLabelSize,
+					defaultLabelStyles.labelSize,
+					feature,
+				);
+				styles.labelHaloColor = this.getHexColorStylingValue(
+					this.styles.measurementLabelHaloColor,
+					defaultLabelStyles.labelHaloColor,
+					feature,
+				);
+
 				return styles;
 			} else if (feature.geometry.type === "Point") {
 				const closingPoint =
@@ -692,7 +978,11 @@ export class TerraDrawPolygonMode extends TerraDrawBaseDrawMode<PolygonStyling>
 
 	validateFeature(feature: unknown): StoreValidation {
 		return this.validateModeFeature(feature, (baseValidatedFeature) =>
-			ValidatePolygonFeature(baseValidatedFeature, this.coordinatePrecision),
+			ValidatePolygonOrMultiPolygonFeature(
+				baseValidatedFeature,
+				this.coordinatePrecision,
+				true,
+			),
 		);
 	}
 }
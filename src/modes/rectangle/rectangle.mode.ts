@@ -203,6 +203,11 @@ export class TerraDrawRectangleMode extends TerraDrawBaseDrawMode<RectanglePolyg
 		}
 	}
 
+	/** @internal */
+	onDoubleTap() {
+		this.close();
+	}
+
 	/** @internal */
 	onDragStart() {}
 
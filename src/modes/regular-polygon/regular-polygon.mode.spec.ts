@@ -0,0 +1,230 @@
+import { Polygon } from "geojson";
+import { GeoJSONStore } from "../../store/store";
+import { MockModeConfig } from "../../test/mock-mode-config";
+import { MockCursorEvent } from "../../test/mock-cursor-event";
+import { MockKeyboardEvent } from "../../test/mock-keyboard-event";
+import { haversineDistanceKilometers } from "../../geometry/measure/haversine-distance";
+import { REGULAR_POLYGON_PROPERTIES } from "../../common";
+import { TerraDrawRegularPolygonMode } from "./regular-polygon.mode";
+
+describe("TerraDrawRegularPolygonMode", () => {
+	describe("constructor", () => {
+		it("constructs with no options", () => {
+			const regularPolygonMode = new TerraDrawRegularPolygonMode();
+			expect(regularPolygonMode.mode).toBe("regular-polygon");
+			expect(regularPolygonMode.styles).toStrictEqual({});
+		});
+
+		it("constructs with options", () => {
+			const regularPolygonMode = new TerraDrawRegularPolygonMode({
+				styles: { fillColor: "#ffffff" },
+				keyEvents: { cancel: "Backspace", finish: "Enter" },
+				cursors: { start: "pointer" },
+				sides: 3,
+				startingRadiusKilometers: 0.1,
+				projection: "globe",
+			});
+			expect(regularPolygonMode.styles).toStrictEqual({
+				fillColor: "#ffffff",
+			});
+		});
+
+		it("constructs with null key events", () => {
+			new TerraDrawRegularPolygonMode({ keyEvents: null });
+		});
+
+		it("throws an error with less than 3 sides", () => {
+			expect(() => new TerraDrawRegularPolygonMode({ sides: 2 })).toThrow(
+				"A regular polygon must have at least 3 sides",
+			);
+		});
+
+		it("throws an error with a fractional number of sides", () => {
+			expect(() => new TerraDrawRegularPolygonMode({ sides: 4.5 })).toThrow(
+				"A regular polygon must have at least 3 sides",
+			);
+		});
+	});
+
+	describe("lifecycle", () => {
+		it("registers correctly", () => {
+			const regularPolygonMode = new TerraDrawRegularPolygonMode();
+			expect(regularPolygonMode.state).toBe("unregistered");
+			regularPolygonMode.register(MockModeConfig(regularPolygonMode.mode));
+			expect(regularPolygonMode.state).toBe("registered");
+		});
+
+		it("can start and stop correctly", () => {
+			const regularPolygonMode = new TerraDrawRegularPolygonMode();
+			regularPolygonMode.register(MockModeConfig(regularPolygonMode.mode));
+
+			regularPolygonMode.start();
+			expect(regularPolygonMode.state).toBe("started");
+
+			regularPolygonMode.stop();
+			expect(regularPolygonMode.state).toBe("stopped");
+		});
+	});
+
+	describe("drawing", () => {
+		let regularPolygonMode: TerraDrawRegularPolygonMode;
+		let store: GeoJSONStore;
+		let onFinish: jest.Mock;
+
+		const setup = (
+			options?: ConstructorParameters<typeof TerraDrawRegularPolygonMode>[0],
+		) => {
+			regularPolygonMode = new TerraDrawRegularPolygonMode(options);
+			const mockConfig = MockModeConfig(regularPolygonMode.mode);
+			store = mockConfig.store;
+			onFinish = mockConfig.onFinish;
+			regularPolygonMode.register(mockConfig);
+			regularPolygonMode.start();
+		};
+
+		const getPolygon = () => store.copyAll()[0];
+
+		it("creates a hexagon on the first click by default", () => {
+			setup();
+
+			regularPolygonMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+
+			expect(regularPolygonMode.state).toBe("drawing");
+			expect((getPolygon().geometry as Polygon).coordinates[0]).toHaveLength(7);
+			expect(getPolygon().properties).toMatchObject({
+				mode: "regular-polygon",
+				[REGULAR_POLYGON_PROPERTIES.SIDES]: 6,
+				radiusKilometers: 0.00001,
+			});
+		});
+
+		it("places a vertex at the cursor", () => {
+			setup({ sides: 4 });
+
+			regularPolygonMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			regularPolygonMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 1 }));
+
+			const [ring] = (getPolygon().geometry as Polygon).coordinates;
+			expect(ring).toHaveLength(5);
+			expect(ring[0][0]).toBeCloseTo(1, 6);
+			expect(ring[0][1]).toBeCloseTo(1, 6);
+			expect(getPolygon().properties.radiusKilometers).toBeCloseTo(157.25, 1);
+		});
+
+		it("finishes drawing on the second click", () => {
+			setup({ sides: 3 });
+
+			regularPolygonMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			regularPolygonMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 0 }));
+			regularPolygonMode.onClick(MockCursorEvent({ lng: 1, lat: 0 }));
+
+			expect(regularPolygonMode.state).toBe("started");
+			expect(onFinish).toHaveBeenCalledWith(expect.any(String), {
+				mode: "regular-polygon",
+				action: "draw",
+			});
+			expect((getPolygon().geometry as Polygon).coordinates[0]).toHaveLength(4);
+		});
+
+		it("draws the polygon on the globe", () => {
+			setup({ projection: "globe", sides: 5 });
+
+			regularPolygonMode.onClick(MockCursorEvent({ lng: 0, lat: 45 }));
+			regularPolygonMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 45 }));
+			regularPolygonMode.onKeyUp(MockKeyboardEvent({ key: "Enter" }));
+
+			expect(onFinish).toHaveBeenCalledTimes(1);
+
+			const { properties, geometry } = getPolygon();
+			(geometry as Polygon).coordinates[0].forEach((coordinate) => {
+				expect(haversineDistanceKilometers([0, 45], coordinate)).toBeCloseTo(
+					properties.radiusKilometers as number,
+					1,
+				);
+			});
+		});
+
+		it("cancels the polygon with the cancel key", () => {
+			setup();
+
+			regularPolygonMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			regularPolygonMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 0 }));
+			regularPolygonMode.onKeyUp(MockKeyboardEvent({ key: "Escape" }));
+
+			expect(regularPolygonMode.state).toBe("started");
+			expect(store.copyAll()).toHaveLength(0);
+		});
+
+		it("does not finish if validation fails", () => {
+			setup({
+				validation: (_, { updateType }) => ({
+					valid: updateType !== "finish",
+				}),
+			});
+
+			regularPolygonMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			regularPolygonMode.onMouseMove(MockCursorEvent({ lng: 1, lat: 0 }));
+			regularPolygonMode.onClick(MockCursorEvent({ lng: 1, lat: 0 }));
+
+			expect(regularPolygonMode.state).toBe("drawing");
+			expect(onFinish).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("styleFeature", () => {
+		it("returns the correct styles for polygon", () => {
+			const regularPolygonMode = new TerraDrawRegularPolygonMode({
+				styles: {
+					fillColor: "#ffffff",
+					outlineColor: "#111111",
+					outlineWidth: 2,
+					fillOpacity: () => 0.5,
+				},
+			});
+
+			expect(
+				regularPolygonMode.styleFeature({
+					type: "Feature",
+					geometry: { type: "Polygon", coordinates: [] },
+					properties: { mode: "regular-polygon" },
+				}),
+			).toMatchObject({
+				polygonFillColor: "#ffffff",
+				polygonOutlineColor: "#111111",
+				polygonOutlineWidth: 2,
+				polygonFillOpacity: 0.5,
+			});
+		});
+	});
+
+	describe("validateFeature", () => {
+		it("returns true for a valid regular polygon feature", () => {
+			const regularPolygonMode = new TerraDrawRegularPolygonMode();
+			regularPolygonMode.register(MockModeConfig("regular-polygon"));
+
+			expect(
+				regularPolygonMode.validateFeature({
+					id: "5c582a42-c3a7-4bfc-b686-6036f311df3c",
+					type: "Feature",
+					geometry: {
+						type: "Polygon",
+						coordinates: [
+							[
+								[0, 1],
+								[-0.866025404, -0.5],
+								[0.866025404, -0.5],
+								[0, 1],
+							],
+						],
+					},
+					properties: {
+						mode: "regular-polygon",
+						sides: 3,
+						createdAt: 1685655516297,
+						updatedAt: 1685655518118,
+					},
+				}),
+			).toEqual({ valid: true });
+		});
+	});
+});
@@ -0,0 +1,392 @@
+import { Feature, Polygon, Position } from "geojson";
+import {
+	TerraDrawMouseEvent,
+	TerraDrawAdapterStyling,
+	TerraDrawKeyboardEvent,
+	HexColorStyling,
+	NumericStyling,
+	Cursor,
+	UpdateTypes,
+	Projection,
+	REGULAR_POLYGON_PROPERTIES,
+} from "../../common";
+import { haversineDistanceKilometers } from "../../geometry/measure/haversine-distance";
+import { bearing } from "../../geometry/measure/bearing";
+import {
+	regularPolygon,
+	regularPolygonWebMercator,
+} from "../../geometry/shape/create-regular-polygon";
+import { lngLatToWebMercatorXY } from "../../geometry/project/web-mercator";
+import { radiansToDegrees } from "../../geometry/helpers";
+import {
+	FeatureId,
+	GeoJSONStoreFeatures,
+	StoreValidation,
+} from "../../store/store";
+import { getDefaultStyling } from "../../util/styling";
+import {
+	BaseModeOptions,
+	CustomStyling,
+	TerraDrawBaseDrawMode,
+} from "../base.mode";
+import { ValidateNonIntersectingPolygonFeature } from "../../validations/polygon.validation";
+
+type TerraDrawRegularPolygonModeKeyEvents = {
+	cancel: KeyboardEvent["key"] | null;
+	finish: KeyboardEvent["key"] | null;
+};
+
+type RegularPolygonStyling = {
+	fillColor: HexColorStyling;
+	outlineColor: HexColorStyling;
+	outlineWidth: NumericStyling;
+	fillOpacity: NumericStyling;
+};
+
+interface Cursors {
+	start?: Cursor;
+}
+
+interface TerraDrawRegularPolygonModeOptions<T extends CustomStyling>
+	extends BaseModeOptions<T> {
+	keyEvents?: TerraDrawRegularPolygonModeKeyEvents | null;
+	cursors?: Cursors;
+	sides?: number;
+	startingRadiusKilometers?: number;
+	projection?: Projection;
+}
+
+export class TerraDrawRegularPolygonMode extends TerraDrawBaseDrawMode<RegularPolygonStyling> {
+	mode = "regular-polygon";
+	private center: Position | undefined;
+	private clickCount = 0;
+	private currentPolygonId: FeatureId | undefined;
+	private keyEvents: TerraDrawRegularPolygonModeKeyEvents;
+	private cursors: Required<Cursors>;
+	private sides: number;
+	private startingRadiusKilometers = 0.00001;
+	private cursorMovedAfterInitialCursorDown = false;
+
+	/**
+	 * Create a new regular polygon mode instance
+	 * @param options - Options to customize the behavior of the regular polygon mode
+	 * @param options.keyEvents - Key events to cancel or finish the mode
+	 * @param options.cursors - Cursors to use for the mode
+	 * @param options.styles - Custom styling for the regular polygon
+	 * @param options.sides - The number of sides of the polygon, which defaults to 6
+	 * @param options.startingRadiusKilometers - The radius of the polygon when it is first created
+	 * @param options.projection - Whether the polygon is regular in web mercator or on the globe
+	 */
+	constructor(
+		options?: TerraDrawRegularPolygonModeOptions<RegularPolygonStyling>,
+	) {
+		super(options);
+
+		const defaultCursors = {
+			start: "crosshair",
+		} as Required<Cursors>;
+
+		if (options && options.cursors) {
+			this.cursors = { ...defaultCursors, ...options.cursors };
+		} else {
+			this.cursors = defaultCursors;
+		}
+
+		// We want to have some defaults, but also allow key bindings
+		// to be explicitly turned off
+		if (options?.keyEvents === null) {
+			this.keyEvents = { cancel: null, finish: null };
+		} else {
+			const defaultKeyEvents = { cancel: "Escape", finish: "Enter" };
+			this.keyEvents =
+				options && options.keyEvents
+					? { ...defaultKeyEvents, ...options.keyEvents }
+					: defaultKeyEvents;
+		}
+
+		this.sides = options?.sides ?? 6;
+
+		if (!Number.isInteger(this.sides) || this.sides < 3) {
+			throw new Error("A regular polygon must have at least 3 sides");
+		}
+
+		this.startingRadiusKilometers =
+			options?.startingRadiusKilometers ?? 0.00001;
+		this.validate = options?.validation;
+	}
+
+	private close() {
+		if (this.currentPolygonId === undefined) {
+			return;
+		}
+
+		const finishedId = this.currentPolygonId;
+
+		if (this.validate && finishedId) {
+			const currentGeometry = this.store.getGeometryCopy<Polygon>(finishedId);
+
+			const validationResult = this.validate(
+				{
+					type: "Feature",
+					id: finishedId,
+					geometry: currentGeometry,
+					properties: {},
+				},
+				{
+					project: this.project,
+					unproject: this.unproject,
+					coordinatePrecision: this.coordinatePrecision,
+					updateType: UpdateTypes.Finish,
+				},
+			);
+
+			if (!validationResult.valid) {
+				return;
+			}
+		}
+
+		this.cursorMovedAfterInitialCursorDown = false;
+		this.center = undefined;
+		this.currentPolygonId = undefined;
+		this.clickCount = 0;
+		// Go back to started state
+		if (this.state === "drawing") {
+			this.setStarted();
+		}
+
+		// Ensure that any listerers are triggered with the main created geometry
+		this.onFinish(finishedId, { mode: this.mode, action: "draw" });
+	}
+
+	/** @internal */
+	start() {
+		this.setStarted();
+		this.setCursor(this.cursors.start);
+	}
+
+	/** @internal */
+	stop() {
+		this.cleanUp();
+		this.setStopped();
+		this.setCursor("unset");
+	}
+
+	/** @internal */
+	onClick(event: TerraDrawMouseEvent) {
+		if (this.clickCount === 0) {
+			this.center = [event.lng, event.lat];
+			const startingPolygon = regularPolygon({
+				center: this.center,
+				radiusKilometers: this.startingRadiusKilometers,
+				sides: this.sides,
+				rotation: 0,
+				coordinatePrecision: this.coordinatePrecision,
+			});
+
+			const [createdId] = this.store.create([
+				{
+					geometry: startingPolygon.geometry,
+					properties: {
+						mode: this.mode,
+						[REGULAR_POLYGON_PROPERTIES.SIDES]: this.sides,
+						radiusKilometers: this.startingRadiusKilometers,
+					},
+				},
+			]);
+			this.currentPolygonId = createdId;
+			this.clickCount++;
+			this.cursorMovedAfterInitialCursorDown = false;
+			this.setDrawing();
+		} else {
+			if (this.cursorMovedAfterInitialCursorDown) {
+				this.updatePolygon(event);
+			}
+
+			// Finish drawing
+			this.close();
+		}
+	}
+
+	/** @internal */
+	onMouseMove(event: TerraDrawMouseEvent) {
+		this.cursorMovedAfterInitialCursorDown = true;
+		this.updatePolygon(event);
+	}
+
+	/** @internal */
+	onKeyDown() {}
+
+	/** @internal */
+	onKeyUp(event: TerraDrawKeyboardEvent) {
+		if (event.key === this.keyEvents.cancel) {
+			this.cleanUp();
+		} else if (event.key === this.keyEvents.finish) {
+			this.close();
+		}
+	}
+
+	/** @internal */
+	onDoubleTap() {
+		this.close();
+	}
+
+	/** @internal */
+	onDragStart() {}
+
+	/** @internal */
+	onDrag() {}
+
+	/** @internal */
+	onDragEnd() {}
+
+	/** @internal */
+	cleanUp() {
+		const cleanUpId = this.currentPolygonId;
+
+		this.center = undefined;
+		this.currentPolygonId = undefined;
+		this.clickCount = 0;
+		if (this.state === "drawing") {
+			this.setStarted();
+		}
+
+		try {
+			if (cleanUpId !== undefined) {
+				this.store.delete([cleanUpId]);
+			}
+		} catch {}
+	}
+
+	/** @internal */
+	styleFeature(feature: GeoJSONStoreFeatures): TerraDrawAdapterStyling {
+		const styles = { ...getDefaultStyling() };
+
+		if (
+			feature.type === "Feature" &&
+			feature.geometry.type === "Polygon" &&
+			feature.properties.mode === this.mode
+		) {
+			styles.polygonFillColor = this.getHexColorStylingValue(
+				this.styles.fillColor,
+				styles.polygonFillColor,
+				feature,
+			);
+
+			styles.polygonOutlineColor = this.getHexColorStylingValue(
+				this.styles.outlineColor,
+				styles.polygonOutlineColor,
+				feature,
+			);
+
+			styles.polygonOutlineWidth = this.getNumericStylingValue(
+				this.styles.outlineWidth,
+				styles.polygonOutlineWidth,
+				feature,
+			);
+
+			styles.polygonFillOpacity = this.getNumericStylingValue(
+				this.styles.fillOpacity,
+				styles.polygonFillOpacity,
+				feature,
+			);
+
+			styles.zIndex = 10;
+
+			return styles;
+		}
+
+		return styles;
+	}
+
+	validateFeature(feature: unknown): StoreValidation {
+		return this.validateModeFeature(feature, (baseValidatedFeature) =>
+			ValidateNonIntersectingPolygonFeature(
+				baseValidatedFeature,
+				this.coordinatePrecision,
+			),
+		);
+	}
+
+	private updatePolygon(event: TerraDrawMouseEvent) {
+		if (
+			this.clickCount !== 1 ||
+			!this.center ||
+			this.currentPolygonId === undefined
+		) {
+			return;
+		}
+
+		const radiusKilometers = haversineDistanceKilometers(this.center, [
+			event.lng,
+			event.lat,
+		]);
+
+		if (radiusKilometers === 0) {
+			return;
+		}
+
+		let updatedPolygon: Feature<Polygon>;
+
+		if (this.projection === "web-mercator") {
+			// We want a vertex to track the mouse cursor, so the radius and the
+			// rotation are measured in web mercator rather than on the globe
+			const { x: centerX, y: centerY } = lngLatToWebMercatorXY(
+				this.center[0],
+				this.center[1],
+			);
+			const { x, y } = lngLatToWebMercatorXY(event.lng, event.lat);
+
+			updatedPolygon = regularPolygonWebMercator({
+				center: this.center,
+				radiusKilometers: Math.hypot(x - centerX, y - centerY) / 1000,
+				sides: this.sides,
+				rotation: radiansToDegrees(Math.atan2(x - centerX, y - centerY)),
+				coordinatePrecision: this.coordinatePrecision,
+			});
+		} else if (this.projection === "globe") {
+			updatedPolygon = regularPolygon({
+				center: this.center,
+				radiusKilometers,
+				sides: this.sides,
+				rotation: bearing(this.center, [event.lng, event.lat]),
+				coordinatePrecision: this.coordinatePrecision,
+			});
+		} else {
+			throw new Error("Invalid projection");
+		}
+
+		if (this.validate) {
+			const valid = this.validate(
+				{
+					type: "Feature",
+					id: this.currentPolygonId,
+					geometry: updatedPolygon.geometry,
+					properties: {
+						radiusKilometers,
+					},
+				},
+				{
+					project: this.project,
+					unproject: this.unproject,
+					coordinatePrecision: this.coordinatePrecision,
+					updateType: UpdateTypes.Provisional,
+				},
+			);
+
+			if (!valid.valid) {
+				return;
+			}
+		}
+
+		this.store.updateGeometry([
+			{ id: this.currentPolygonId, geometry: updatedPolygon.geometry },
+		]);
+		this.store.updateProperty([
+			{
+				id: this.currentPolygonId,
+				property: "radiusKilometers",
+				value: radiusKilometers,
+			},
+		]);
+	}
+}
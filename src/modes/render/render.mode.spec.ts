@@ -1,4 +1,5 @@
 import { HexColor } from "../../common";
+import { GeoJSONStoreFeatures } from "../../store/store";
 import { MockBehaviorConfig } from "../../test/mock-behavior-config";
 import { MockModeConfig } from "../../test/mock-mode-config";
 import {
@@ -233,6 +234,82 @@ describe("TerraDrawRenderMode", () => {
 				polygonFillOpacity: 0.2,
 			});
 		});
+
+		it("returns the hovered styles for a hovered feature", () => {
+			const renderMode = new TerraDrawRenderMode({
+				modeName: "arbitary",
+				styles: {
+					polygonFillColor: "#ffffff",
+					polygonOutlineColor: "#111111",
+					hoveredPolygonFillColor: "#222222",
+				},
+			});
+
+			const feature: GeoJSONStoreFeatures = {
+				type: "Feature",
+				geometry: { type: "Polygon", coordinates: [] },
+				properties: { mode: "render", hovered: true },
+			};
+
+			expect(renderMode.styleFeature(feature)).toMatchObject({
+				polygonFillColor: "#222222",
+				polygonOutlineColor: "#111111",
+			});
+
+			expect(
+				renderMode.styleFeature({
+					...feature,
+					properties: { mode: "render", hovered: false },
+				}),
+			).toMatchObject({
+				polygonFillColor: "#ffffff",
+				polygonOutlineColor: "#111111",
+			});
+		});
+
+		it("returns label styles when the feature has label text", () => {
+			const renderMode = new TerraDrawRenderMode({
+				modeName: "arbitary",
+				styles: {
+					labelText: (feature) => feature.properties.name as string,
+					labelColor: "#111111",
+					labelOffset: [0, -10],
+				},
+			});
+
+			expect(
+				renderMode.styleFeature({
+					type: "Feature",
+					geometry: { type: "Point", coordinates: [] },
+					properties: { mode: "render", name: "Label" },
+				}),
+			).toMatchObject({
+				labelText: "Label",
+				labelColor: "#111111",
+				labelSize: 12,
+				labelHaloColor: "#ffffff",
+				labelOffset: [0, -10],
+			});
+		});
+
+		it("does not return label styles when the feature has no label text", () => {
+			const renderMode = new TerraDrawRenderMode({
+				modeName: "arbitary",
+				styles: {
+					labelText: (feature) => (feature.properties.name as string) ?? "",
+					labelColor: "#111111",
+				},
+			});
+
+			const styles = renderMode.styleFeature({
+				type: "Feature",
+				geometry: { type: "Point", coordinates: [] },
+				properties: { mode: "render" },
+			});
+
+			expect(styles.labelText).toBeUndefined();
+			expect(styles.labelColor).toBeUndefined();
+		});
 	});
 
 	describe("validateFeature", () => {
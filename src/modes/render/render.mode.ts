@@ -1,6 +1,9 @@
 import {
+	COMMON_PROPERTIES,
 	HexColorStyling,
 	NumericStyling,
+	PixelOffsetStyling,
+	StringStyling,
 	TerraDrawAdapterStyling,
 } from "../../common";
 import {
@@ -10,11 +13,11 @@ import {
 	TerraDrawBaseDrawMode,
 } from "../base.mode";
 import { BehaviorConfig } from "../base.behavior";
-import { getDefaultStyling } from "../../util/styling";
+import { getDefaultLabelStyling, getDefaultStyling } from "../../util/styling";
 import { GeoJSONStoreFeatures } from "../../terra-draw";
-import { ValidatePointFeature } from "../../validations/point.validation";
-import { ValidatePolygonFeature } from "../../validations/polygon.validation";
-import { ValidateLineStringFeature } from "../../validations/linestring.validation";
+import { ValidatePointOrMultiPointFeature } from "../../validations/point.validation";
+import { ValidatePolygonOrMultiPolygonFeature } from "../../validations/polygon.validation";
+import { ValidateLineStringOrMultiLineStringFeature } from "../../validations/linestring.validation";
 import { StoreValidation } from "../../store/store";
 
 type RenderModeStyling = {
@@ -29,6 +32,19 @@ type RenderModeStyling = {
 	lineStringWidth: NumericStyling;
 	lineStringColor: HexColorStyling;
 	zIndex: NumericStyling;
+	labelText: StringStyling;
+	labelColor: HexColorStyling;
+	labelSize: NumericStyling;
+	labelHaloColor: HexColorStyling;
+	labelOffset: PixelOffsetStyling;
+
+	// Hovered features, which fall back to the styling above if they are not set
+	hoveredPointColor: HexColorStyling;
+	hoveredPointOutlineColor: HexColorStyling;
+	hoveredPolygonFillColor: HexColorStyling;
+	hoveredPolygonFillOpacity: NumericStyling;
+	hoveredPolygonOutlineColor: HexColorStyling;
+	hoveredLineStringColor: HexColorStyling;
 };
 
 interface TerraDrawRenderModeOptions<T extends CustomStyling>
@@ -90,13 +106,25 @@ export class TerraDrawRenderMode extends TerraDrawBaseDrawMode<RenderModeStyling
 	/** @internal */
 	cleanUp() {}
 
+	// Hovered features use the hovered styling where it has been set
+	private getHoveredStyling<K extends keyof RenderModeStyling>(
+		feature: GeoJSONStoreFeatures,
+		hoveredKey: K,
+		key: K,
+	) {
+		return feature.properties[COMMON_PROPERTIES.HOVERED] &&
+			this.styles[hoveredKey] !== undefined
+			? this.styles[hoveredKey]
+			: this.styles[key];
+	}
+
 	/** @internal */
 	styleFeature(feature: GeoJSONStoreFeatures): TerraDrawAdapterStyling {
 		const defaultStyles = getDefaultStyling();
 
-		return {
+		const styles: TerraDrawAdapterStyling = {
 			pointColor: this.getHexColorStylingValue(
-				this.styles.pointColor,
+				this.getHoveredStyling(feature, "hoveredPointColor", "pointColor"),
 				defaultStyles.pointColor,
 				feature,
 			),
@@ -106,7 +134,11 @@ export class TerraDrawRenderMode extends TerraDrawBaseDrawMode<RenderModeStyling
 				feature,
 			),
 			pointOutlineColor: this.getHexColorStylingValue(
-				this.styles.pointOutlineColor,
+				this.getHoveredStyling(
+					feature,
+					"hoveredPointOutlineColor",
+					"pointOutlineColor",
+				),
 				defaultStyles.pointOutlineColor,
 				feature,
 			),
@@ -116,17 +148,29 @@ export class TerraDrawRenderMode extends TerraDrawBaseDrawMode<RenderModeStyling
 				feature,
 			),
 			polygonFillColor: this.getHexColorStylingValue(
-				this.styles.polygonFillColor,
+				this.getHoveredStyling(
+					feature,
+					"hoveredPolygonFillColor",
+					"polygonFillColor",
+				),
 				defaultStyles.polygonFillColor,
 				feature,
 			),
 			polygonFillOpacity: this.getNumericStylingValue(
-				this.styles.polygonFillOpacity,
+				this.getHoveredStyling(
+					feature,
+					"hoveredPolygonFillOpacity",
+					"polygonFillOpacity",
+				),
 				defaultStyles.polygonFillOpacity,
 				feature,
 			),
 			polygonOutlineColor: this.getHexColorStylingValue(
-				this.styles.polygonOutlineColor,
+				this.getHoveredStyling(
+					feature,
+					"hoveredPolygonOutlineColor",
+					"polygonOutlineColor",
+				),
 				defaultStyles.polygonOutlineColor,
 				feature,
 			),
@@ -141,7 +185,11 @@ export class TerraDrawRenderMode extends TerraDrawBaseDrawMode<RenderModeStyling
 				feature,
 			),
 			lineStringColor: this.getHexColorStylingValue(
-				this.styles.lineStringColor,
+				this.getHoveredStyling(
+					feature,
+					"hoveredLineStringColor",
+					"lineStringColor",
+				),
 				defaultStyles.lineStringColor,
 				feature,
 			),
@@ -151,6 +199,40 @@ export class TerraDrawRenderMode extends TerraDrawBaseDrawMode<RenderModeStyling
 				feature,
 			),
 		};
+
+		const labelText = this.getStringStylingValue(
+			this.styles.labelText,
+			"",
+			feature,
+		);
+
+		if (labelText) {
+			const defaultLabelStyles = getDefaultLabelStyling();
+
+			styles.labelText = labelText;
+			styles.labelColor = this.getHexColorStylingValue(
+				this.styles.labelColor,
+				defaultLabelStyles.labelColor,
+				feature,
+			);
+			styles.labelSize = this.getNumericStylingValue(
+				this.styles.labelSize,
+				defaultLabelStyles.labelSize,
+				feature,
+			);
+			styles.labelHaloColor = this.getHexColorStylingValue(
+				this.styles.labelHaloColor,
+				defaultLabelStyles.labelHaloColor,
+				feature,
+			);
+			styles.labelOffset = this.getPixelOffsetStylingValue(
+				this.styles.labelOffset,
+				defaultLabelStyles.labelOffset,
+				feature,
+			);
+		}
+
+		return styles;
 	}
 
 	validateFeature(feature: unknown): StoreValidation {
@@ -159,12 +241,18 @@ export class TerraDrawRenderMode extends TerraDrawBaseDrawMode<RenderModeStyling
 			const validatedFeature = feature as GeoJSONStoreFeatures;
 
 			const featureIsValid =
-				ValidatePointFeature(validatedFeature, this.coordinatePrecision)
-					.valid ||
-				ValidatePolygonFeature(validatedFeature, this.coordinatePrecision)
-					.valid ||
-				ValidateLineStringFeature(validatedFeature, this.coordinatePrecision)
-					.valid;
+				ValidatePointOrMultiPointFeature(
+					validatedFeature,
+					this.coordinatePrecision,
+				).valid ||
+				ValidatePolygonOrMultiPolygonFeature(
+					validatedFeature,
+					this.coordinatePrecision,
+				).valid ||
+				ValidateLineStringOrMultiLineStringFeature(
+					validatedFeature,
+					this.coordinatePrecision,
+				).valid;
 
 			if (featureIsValid) {
 				return { valid: true };
@@ -0,0 +1,217 @@
+import { MockBehaviorConfig } from "../../../test/mock-behavior-config";
+import { MockCursorEvent } from "../../../test/mock-cursor-event";
+import { BoxSelectBehavior } from "./box-select.behavior";
+
+describe("BoxSelectBehavior", () => {
+	describe("constructor", () => {
+		it("constructs", () => {
+			new BoxSelectBehavior(MockBehaviorConfig("test"));
+		});
+	});
+
+	describe("api", () => {
+		it("get id", () => {
+			const boxSelectBehavior = new BoxSelectBehavior(
+				MockBehaviorConfig("test"),
+			);
+
+			expect(boxSelectBehavior.id).toBeUndefined();
+		});
+
+		it("set id fails", () => {
+			const boxSelectBehavior = new BoxSelectBehavior(
+				MockBehaviorConfig("test"),
+			);
+
+			boxSelectBehavior.id = "test";
+
+			expect(boxSelectBehavior.id).toBeUndefined();
+		});
+
+		it("start creates the box", () => {
+			const config = MockBehaviorConfig("test");
+			const boxSelectBehavior = new BoxSelectBehavior(config);
+
+			boxSelectBehavior.start(MockCursorEvent({ lng: 0, lat: 0 }));
+
+			expect(boxSelectBehavior.isSelecting()).toBe(true);
+			expect(boxSelectBehavior.id).toBeUUID4();
+			expect(
+				config.store.getPropertiesCopy(boxSelectBehavior.id!),
+			).toMatchObject({ mode: "test", selectionBox: true });
+		});
+
+		it("update resizes the box", () => {
+			const config = MockBehaviorConfig("test");
+			const boxSelectBehavior = new BoxSelectBehavior(config);
+
+			boxSelectBehavior.start(MockCursorEvent({ lng: 0, lat: 0 }));
+			boxSelectBehavior.update(MockCursorEvent({ lng: 2, lat: 1 }));
+
+			expect(
+				config.store.getGeometryCopy(boxSelectBehavior.id!).coordinates,
+			).toStrictEqual([
+				[
+					[0, 0],
+					[2, 0],
+					[2, 1],
+					[0, 1],
+					[0, 0],
+				],
+			]);
+		});
+
+		describe("finish", () => {
+			const createFeatures = (config: ReturnType<typeof MockBehaviorConfig>) =>
+				config.store.create([
+					{
+						geometry: {
+							type: "LineString",
+							coordinates: [
+								[1, 1],
+								[2, 2],
+							],
+						},
+						properties: { mode: "linestring" },
+					},
+					{
+						geometry: {
+							type: "LineString",
+							coordinates: [
+								[1, 1],
+								[5, 5],
+							],
+						},
+						properties: { mode: "linestring" },
+					},
+					{
+						geometry: {
+							type: "LineString",
+							coordinates: [
+								[-1, 2],
+								[4, 2],
+							],
+						},
+						properties: { mode: "linestring" },
+					},
+					{
+						geometry: {
+							type: "Polygon",
+							coordinates: [
+								[
+									[-10, -10],
+									[10, -10],
+									[10, 10],
+									[-10, 10],
+									[-10, -10],
+								],
+							],
+						},
+						properties: { mode: "polygon" },
+					},
+					{
+						geometry: { type: "Point", coordinates: [1, 1] },
+						properties: { mode: "test" },
+					},
+					{
+						geometry: { type: "Point", coordinates: [8, 8] },
+						properties: { mode: "point" },
+					},
+				]);
+
+			it("returns the features that intersect the box and removes the box", () => {
+				const config = MockBehaviorConfig("test");
+				const boxSelectBehavior = new BoxSelectBehavior(config);
+
+				const [inside, partlyInside, crossing, surrounding] =
+					createFeatures(config);
+
+				boxSelectBehavior.start(MockCursorEvent({ lng: 3, lat: 3 }));
+				boxSelectBehavior.update(MockCursorEvent({ lng: 0, lat: 0 }));
+
+				const selected = boxSelectBehavior.finish();
+
+				expect(selected).toHaveLength(4);
+				expect(selected).toContain(inside);
+				expect(selected).toContain(partlyInside);
+				expect(selected).toContain(crossing);
+				expect(selected).toContain(surrounding);
+				expect(boxSelectBehavior.isSelecting()).toBe(false);
+				expect(config.store.copyAll()).toHaveLength(6);
+			});
+
+			it("returns only the features within the box when select is within", () => {
+				const config = MockBehaviorConfig("test");
+				const boxSelectBehavior = new BoxSelectBehavior(config, {
+					shape: "rectangle",
+					select: "within",
+				});
+
+				const [inside] = createFeatures(config);
+
+				boxSelectBehavior.start(MockCursorEvent({ lng: 3, lat: 3 }));
+				boxSelectBehavior.update(MockCursorEvent({ lng: 0, lat: 0 }));
+
+				expect(boxSelectBehavior.finish()).toStrictEqual([inside]);
+			});
+
+			it("returns the features within a lasso", () => {
+				const config = MockBehaviorConfig("test");
+				const boxSelectBehavior = new BoxSelectBehavior(config, {
+					shape: "lasso",
+					select: "within",
+				});
+
+				const [inside] = createFeatures(config);
+
+				boxSelectBehavior.start(MockCursorEvent({ lng: 0, lat: 0 }));
+				boxSelectBehavior.update(MockCursorEvent({ lng: 3, lat: 0 }));
+				boxSelectBehavior.update(MockCursorEvent({ lng: 3, lat: 3 }));
+				boxSelectBehavior.update(MockCursorEvent({ lng: 0, lat: 3 }));
+
+				expect(boxSelectBehavior.finish()).toStrictEqual([inside]);
+			});
+
+			it("returns nothing if there is no box", () => {
+				const boxSelectBehavior = new BoxSelectBehavior(
+					MockBehaviorConfig("test"),
+				);
+
+				expect(boxSelectBehavior.finish()).toStrictEqual([]);
+			});
+		});
+
+		it("update adds the cursor position to a lasso", () => {
+			const config = MockBehaviorConfig("test");
+			const boxSelectBehavior = new BoxSelectBehavior(config, {
+				shape: "lasso",
+				select: "intersecting",
+			});
+
+			boxSelectBehavior.start(MockCursorEvent({ lng: 0, lat: 0 }));
+			boxSelectBehavior.update(MockCursorEvent({ lng: 2, lat: 0 }));
+			boxSelectBehavior.update(MockCursorEvent({ lng: 2, lat: 0 }));
+			boxSelectBehavior.update(MockCursorEvent({ lng: 2, lat: 2 }));
+
+			const [ring] = config.store.getGeometryCopy(boxSelectBehavior.id!)
+				.coordinates as number[][][];
+
+			expect(ring.slice(-3)).toStrictEqual([
+				[2, 0],
+				[2, 2],
+				[0, 0],
+			]);
+		});
+
+		it("delete removes the box", () => {
+			const config = MockBehaviorConfig("test");
+			const boxSelectBehavior = new BoxSelectBehavior(config);
+
+			boxSelectBehavior.start(MockCursorEvent({ lng: 0, lat: 0 }));
+			boxSelectBehavior.delete();
+
+			expect(boxSelectBehavior.isSelecting()).toBe(false);
+			expect(config.store.copyAll()).toHaveLength(0);
+		});
+	});
+});
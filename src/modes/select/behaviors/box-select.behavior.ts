@@ -0,0 +1,206 @@
+import { Polygon, Position } from "geojson";
+import { SELECT_PROPERTIES, TerraDrawMouseEvent } from "../../../common";
+import { BehaviorConfig, TerraDrawModeBehavior } from "../../base.behavior";
+import {
+	BBoxPolygon,
+	FeatureId,
+	GeoJSONStoreGeometries,
+} from "../../../store/store";
+import { getGeometryParts } from "../../../geometry/geometry-parts";
+import { pointInPolygon } from "../../../geometry/boolean/point-in-polygon";
+import { segmentIntersection } from "../../../geometry/boolean/self-intersects";
+import { coordinatesIdentical } from "../../../geometry/coordinates-identical";
+
+export type BoxSelectOptions = {
+	// A rectangle between where the drag started and the cursor, or a freehand lasso
+	shape: "rectangle" | "lasso";
+	// Select features that are partly in the box, or only those entirely within it
+	select: "intersecting" | "within";
+};
+
+export class BoxSelectBehavior extends TerraDrawModeBehavior {
+	constructor(
+		config: BehaviorConfig,
+		private readonly options: BoxSelectOptions = {
+			shape: "rectangle",
+			select: "intersecting",
+		},
+	) {
+		super(config);
+	}
+
+	private startCoordinate: Position | undefined;
+	private _boxId: FeatureId | undefined;
+
+	get id() {
+		return this._boxId;
+	}
+
+	set id(_: FeatureId | undefined) {}
+
+	private getBox(event: TerraDrawMouseEvent): Polygon {
+		const [startLng, startLat] = this.startCoordinate as Position;
+
+		if (this.options.shape === "lasso" && this._boxId !== undefined) {
+			// The lasso follows the cursor, so each position is added before the closing coordinate
+			const [ring] = this.store.getGeometryCopy<Polygon>(
+				this._boxId,
+			).coordinates;
+			const cursor = [event.lng, event.lat];
+
+			if (!coordinatesIdentical(ring[ring.length - 2], cursor)) {
+				ring.splice(ring.length - 1, 0, cursor);
+			}
+
+			return { type: "Polygon", coordinates: [ring] };
+		}
+
+		return {
+			type: "Polygon",
+			coordinates: [
+				[
+					[startLng, startLat],
+					[event.lng, startLat],
+					[event.lng, event.lat],
+					[startLng, event.lat],
+					[startLng, startLat],
+				],
+			],
+		};
+	}
+
+	public isSelecting() {
+		return this._boxId !== undefined;
+	}
+
+	public start(event: TerraDrawMouseEvent) {
+		this.delete();
+
+		this.startCoordinate = [event.lng, event.lat];
+
+		const [boxId] = this.store.create([
+			{
+				geometry: this.getBox(event),
+				properties: {
+					mode: this.mode,
+					[SELECT_PROPERTIES.SELECTION_BOX]: true,
+				},
+			},
+		]);
+
+		this._boxId = boxId;
+	}
+
+	public update(event: TerraDrawMouseEvent) {
+		if (this._boxId === undefined) {
+			return;
+		}
+
+		this.store.updateGeometry([
+			{ id: this._boxId, geometry: this.getBox(event) },
+		]);
+	}
+
+	/**
+	 * Removes the box from the store
+	 * @returns the ids of all the features from other modes which are in the box, either
+	 * partly or entirely depending on the select option
+	 */
+	public finish(): FeatureId[] {
+		if (this._boxId === undefined) {
+			return [];
+		}
+
+		const box = this.store.getGeometryCopy<Polygon>(this._boxId);
+		this.delete();
+
+		const [ring] = box.coordinates;
+
+		return this.store
+			.search(
+				{ type: "Feature", geometry: box, properties: {} } as BBoxPolygon,
+				(feature) =>
+					feature.properties.mode !== this.mode &&
+					(this.options.select === "within"
+						? this.isWithin(feature.geometry, ring)
+						: this.intersects(feature.geometry, ring)),
+			)
+			.map(({ id }) => id as FeatureId);
+	}
+
+	public delete() {
+		if (this._boxId !== undefined) {
+			this.store.delete([this._boxId]);
+			this._boxId = undefined;
+		}
+
+		this.startCoordinate = undefined;
+	}
+
+	private isInBox(coordinate: Position, ring: Position[]) {
+		if (this.options.shape === "lasso") {
+			return pointInPolygon(coordinate, [ring]);
+		}
+
+		// Rectangles include their edges, so features drawn
+		// right up to the edge of the box are still selected
+		const [first, , opposite] = ring;
+		const [lng, lat] = coordinate;
+		return (
+			lng >= Math.min(first[0], opposite[0]) &&
+			lng <= Math.max(first[0], opposite[0]) &&
+			lat >= Math.min(first[1], opposite[1]) &&
+			lat <= Math.max(first[1], opposite[1])
+		);
+	}
+
+	private isWithin(geometry: GeoJSONStoreGeometries, ring: Position[]) {
+		return getGeometryParts(geometry).every((part) => {
+			const coordinates =
+				part.type === "Point"
+					? [part.coordinates]
+					: part.type === "LineString"
+					? part.coordinates
+					: part.coordinates[0];
+
+			return coordinates.every((coordinate) => this.isInBox(coordinate, ring));
+		});
+	}
+
+	private intersects(geometry: GeoJSONStoreGeometries, ring: Position[]) {
+		return getGeometryParts(geometry).some((part) => {
+			if (part.type === "Point") {
+				return this.isInBox(part.coordinates, ring);
+			}
+
+			const lines =
+				part.type === "LineString" ? [part.coordinates] : part.coordinates;
+
+			const hasCoordinateInBox = lines.some((line) =>
+				line.some((coordinate) => this.isInBox(coordinate, ring)),
+			);
+
+			if (hasCoordinateInBox || this.crosses(lines, ring)) {
+				return true;
+			}
+
+			// The box may be drawn entirely inside a polygon
+			return (
+				part.type === "Polygon" && pointInPolygon(ring[0], part.coordinates)
+			);
+		});
+	}
+
+	private crosses(lines: Position[][], ring: Position[]) {
+		return lines.some((line) => {
+			for (let i = 0; i < line.length - 1; i++) {
+				for (let j = 0; j < ring.length - 1; j++) {
+					if (segmentIntersection(line[i], line[i + 1], ring[j], ring[j + 1])) {
+						return true;
+					}
+				}
+			}
+			return false;
+		});
+	}
+}
@@ -0,0 +1,242 @@
+import { LineString, Polygon, Position } from "geojson";
+import { MockBehaviorConfig } from "../../../test/mock-behavior-config";
+import { BehaviorConfig } from "../../base.behavior";
+import { PixelDistanceBehavior } from "../../pixel-distance.behavior";
+import {
+	DragControlPointBehavior,
+	getCurveControlPoints,
+} from "./drag-control-point.behavior";
+import { SelectionPointBehavior } from "./selection-point.behavior";
+import { MockCursorEvent } from "../../../test/mock-cursor-event";
+import { CURVE_PROPERTIES } from "../../../common";
+import { curve } from "../../../geometry/shape/create-curve";
+
+describe("DragControlPointBehavior", () => {
+	const controlPoints: Position[] = [
+		[0, 0],
+		[2, 2],
+		[4, 0],
+	];
+
+	const createCurve = (
+		config: BehaviorConfig,
+		type: "LineString" | "Polygon" = "LineString",
+	) => {
+		const closed = type === "Polygon";
+		const coordinates = curve({
+			controlPoints,
+			type: "catmull-rom",
+			resolution: 4,
+			closed,
+			coordinatePrecision: 9,
+		});
+
+		const [createdId] = config.store.create([
+			{
+				geometry: closed
+					? { type: "Polygon", coordinates: [coordinates] }
+					: { type: "LineString", coordinates },
+				properties: {
+					mode: "curve",
+					selected: true,
+					[CURVE_PROPERTIES.CONTROL_POINTS]: controlPoints,
+					[CURVE_PROPERTIES.CURVE_TYPE]: "catmull-rom",
+					[CURVE_PROPERTIES.RESOLUTION]: 4,
+				},
+			},
+		]);
+
+		return createdId;
+	};
+
+	describe("getCurveControlPoints", () => {
+		it("returns the control points of a curve", () => {
+			expect(
+				getCurveControlPoints({
+					[CURVE_PROPERTIES.CONTROL_POINTS]: controlPoints,
+				}),
+			).toStrictEqual(controlPoints);
+		});
+
+		it("returns undefined for features that are not curves", () => {
+			expect(getCurveControlPoints({ mode: "linestring" })).toBeUndefined();
+		});
+	});
+
+	describe("constructor", () => {
+		it("constructs", () => {
+			const config = MockBehaviorConfig("test");
+			new DragControlPointBehavior(
+				config,
+				new PixelDistanceBehavior(config),
+				new SelectionPointBehavior(config),
+			);
+		});
+	});
+
+	describe("api", () => {
+		let config: BehaviorConfig;
+		let selectionPointBehavior: SelectionPointBehavior;
+		let dragControlPointBehavior: DragControlPointBehavior;
+
+		beforeEach(() => {
+			config = MockBehaviorConfig("test");
+			selectionPointBehavior = new SelectionPointBehavior(config);
+			dragControlPointBehavior = new DragControlPointBehavior(
+				config,
+				new PixelDistanceBehavior(config),
+				selectionPointBehavior,
+			);
+		});
+
+		describe("isCurve", () => {
+			it("returns true for features with control points", () => {
+				const id = createCurve(config);
+				expect(dragControlPointBehavior.isCurve(id)).toBe(true);
+			});
+
+			it("returns false for features without control points", () => {
+				const [id] = config.store.create([
+					{
+						geometry: {
+							type: "LineString",
+							coordinates: [
+								[0, 0],
+								[1, 1],
+							],
+						},
+						properties: { mode: "linestring" },
+					},
+				]);
+
+				expect(dragControlPointBehavior.isCurve(id)).toBe(false);
+			});
+		});
+
+		describe("getDraggableIndex", () => {
+			it("returns the index of the control point under the cursor", () => {
+				const id = createCurve(config);
+
+				expect(
+					dragControlPointBehavior.getDraggableIndex(
+						MockCursorEvent({ lng: 2, lat: 2 }),
+						id,
+					),
+				).toBe(1);
+			});
+
+			it("returns -1 if there is no control point under the cursor", () => {
+				const id = createCurve(config);
+
+				expect(
+					dragControlPointBehavior.getDraggableIndex(
+						MockCursorEvent({ lng: 10, lat: 10 }),
+						id,
+					),
+				).toBe(-1);
+			});
+		});
+
+		describe("drag", () => {
+			it("returns false if not dragging", () => {
+				createCurve(config);
+
+				expect(
+					dragControlPointBehavior.drag(MockCursorEvent({ lng: 3, lat: 3 })),
+				).toBe(false);
+			});
+
+			it("moves the control point and recreates the curve", () => {
+				const id = createCurve(config);
+				selectionPointBehavior.create(controlPoints, "LineString", id);
+
+				dragControlPointBehavior.startDragging(id, 1);
+				expect(dragControlPointBehavior.isDragging()).toBe(true);
+
+				const updated = dragControlPointBehavior.drag(
+					MockCursorEvent({ lng: 2, lat: 4 }),
+				);
+				expect(updated).toBe(true);
+
+				expect(
+					getCurveControlPoints(config.store.getPropertiesCopy(id)),
+				).toStrictEqual([
+					[0, 0],
+					[2, 4],
+					[4, 0],
+				]);
+
+				// The curve passes through the moved control point
+				const geometry = config.store.getGeometryCopy<LineString>(id);
+				expect(geometry.coordinates[4][0]).toBeCloseTo(2, 6);
+				expect(geometry.coordinates[4][1]).toBeCloseTo(4, 6);
+
+				// The selection point follows the control point
+				const selectionPoint = config.store.getGeometryCopy(
+					selectionPointBehavior.ids[1],
+				);
+				expect(selectionPoint.coordinates).toStrictEqual([2, 4]);
+
+				dragControlPointBehavior.stopDragging();
+				expect(dragControlPointBehavior.isDragging()).toBe(false);
+			});
+
+			it("does not update the curve if validation fails", () => {
+				const id = createCurve(config);
+				const before = config.store.getGeometryCopy(id);
+
+				dragControlPointBehavior.startDragging(id, 1);
+				const updated = dragControlPointBehavior.drag(
+					MockCursorEvent({ lng: 2, lat: 4 }),
+					() => ({ valid: false }),
+				);
+
+				expect(updated).toBe(false);
+				expect(config.store.getGeometryCopy(id)).toStrictEqual(before);
+			});
+
+			it("keeps polygon curves closed", () => {
+				const id = createCurve(config, "Polygon");
+
+				dragControlPointBehavior.startDragging(id, 0);
+				dragControlPointBehavior.drag(MockCursorEvent({ lng: -1, lat: -1 }));
+
+				const [ring] = config.store.getGeometryCopy<Polygon>(id).coordinates;
+				expect(ring[0]).toStrictEqual(ring[ring.length - 1]);
+				expect(ring[0]).toStrictEqual([-1, -1]);
+			});
+		});
+
+		describe("deleteControlPoint", () => {
+			it("removes the control point and recreates the curve", () => {
+				const id = createCurve(config);
+
+				expect(dragControlPointBehavior.deleteControlPoint(id, 1)).toBe(true);
+
+				expect(
+					getCurveControlPoints(config.store.getPropertiesCopy(id)),
+				).toStrictEqual([
+					[0, 0],
+					[4, 0],
+				]);
+				expect(
+					config.store.getGeometryCopy<LineString>(id).coordinates,
+				).toHaveLength(4 + 1);
+			});
+
+			it("does not remove control points below the minimum for a linestring", () => {
+				const id = createCurve(config);
+
+				dragControlPointBehavior.deleteControlPoint(id, 1);
+
+				expect(dragControlPointBehavior.deleteControlPoint(id, 1)).toBe(false);
+			});
+
+			it("does not remove control points below the minimum for a polygon", () => {
+				const id = createCurve(config, "Polygon");
+
+				expect(dragControlPointBehavior.deleteControlPoint(id, 1)).toBe(false);
+			});
+		});
+	});
+});
@@ -0,0 +1,206 @@
+import {
+	CURVE_PROPERTIES,
+	TerraDrawMouseEvent,
+	UpdateTypes,
+	Validation,
+} from "../../../common";
+import { BehaviorConfig, TerraDrawModeBehavior } from "../../base.behavior";
+import { LineString, Polygon, Position } from "geojson";
+import { PixelDistanceBehavior } from "../../pixel-distance.behavior";
+import { SelectionPointBehavior } from "./selection-point.behavior";
+import { FeatureId, JSONObject } from "../../../store/store";
+import { curve, CurveType } from "../../../geometry/shape/create-curve";
+import { limitPrecision } from "../../../geometry/limit-decimal-precision";
+
+/**
+ * Returns the control points of a curve, or undefined if the feature is not a curve
+ * @param properties - the properties of the feature
+ * @returns the control points stored on the feature
+ */
+export function getCurveControlPoints(properties: JSONObject) {
+	const controlPoints = properties[CURVE_PROPERTIES.CONTROL_POINTS];
+	return Array.isArray(controlPoints)
+		? (controlPoints as Position[])
+		: undefined;
+}
+
+/**
+ * Curves are edited by their control points rather than by the coordinates of their
+ * geometry, which is recreated from the control points every time one changes
+ */
+export class DragControlPointBehavior extends TerraDrawModeBehavior {
+	constructor(
+		readonly config: BehaviorConfig,
+		private readonly pixelDistance: PixelDistanceBehavior,
+		private readonly selectionPoints: SelectionPointBehavior,
+	) {
+		super(config);
+	}
+
+	private draggedControlPoint: { id: null | FeatureId; index: number } = {
+		id: null,
+		index: -1,
+	};
+
+	public isCurve(featureId: FeatureId) {
+		return Boolean(
+			getCurveControlPoints(this.store.getPropertiesCopy(featureId)),
+		);
+	}
+
+	public getDraggableIndex(event: TerraDrawMouseEvent, featureId: FeatureId) {
+		const controlPoints =
+			getCurveControlPoints(this.store.getPropertiesCopy(featureId)) || [];
+
+		let closest = { dist: Infinity, index: -1 };
+
+		controlPoints.forEach((controlPoint, index) => {
+			const dist = this.pixelDistance.measure(event, controlPoint);
+
+			if (dist < this.pointerDistance && dist < closest.dist) {
+				closest = { dist, index };
+			}
+		});
+
+		return closest.index;
+	}
+
+	public startDragging(id: FeatureId, index: number) {
+		this.draggedControlPoint = { id, index };
+	}
+
+	public stopDragging() {
+		this.draggedControlPoint = { id: null, index: -1 };
+	}
+
+	public isDragging() {
+		return this.draggedControlPoint.id !== null;
+	}
+
+	public drag(event: TerraDrawMouseEvent, validateFeature?: Validation) {
+		const { id, index } = this.draggedControlPoint;
+
+		if (id === null) {
+			return false;
+		}
+
+		const controlPoints = getCurveControlPoints(
+			this.store.getPropertiesCopy(id),
+		);
+
+		if (!controlPoints || !controlPoints[index]) {
+			return false;
+		}
+
+		controlPoints[index] = [
+			limitPrecision(event.lng, this.coordinatePrecision),
+			limitPrecision(event.lat, this.coordinatePrecision),
+		];
+
+		return this.updateControlPoints(
+			id,
+			controlPoints,
+			UpdateTypes.Provisional,
+			validateFeature,
+		);
+	}
+
+	/**
+	 * Removes a control point from a curve, as long as enough remain to draw it
+	 * @param id - the id of the curve
+	 * @param index - the index of the control point to remove
+	 * @param validateFeature - the validation of the mode the curve belongs to
+	 * @returns true if the control point was removed
+	 */
+	public deleteControlPoint(
+		id: FeatureId,
+		index: number,
+		validateFeature?: Validation,
+	) {
+		const controlPoints = getCurveControlPoints(
+			this.store.getPropertiesCopy(id),
+		);
+
+		if (!controlPoints || !controlPoints[index]) {
+			return false;
+		}
+
+		const minimum = this.store.getGeometryCopy(id).type === "Polygon" ? 3 : 2;
+
+		if (controlPoints.length <= minimum) {
+			return false;
+		}
+
+		controlPoints.splice(index, 1);
+
+		return this.updateControlPoints(
+			id,
+			controlPoints,
+			UpdateTypes.Commit,
+			validateFeature,
+		);
+	}
+
+	private updateControlPoints(
+		id: FeatureId,
+		controlPoints: Position[],
+		updateType: UpdateTypes,
+		validateFeature?: Validation,
+	) {
+		const properties = this.store.getPropertiesCopy(id);
+		const closed = this.store.getGeometryCopy(id).type === "Polygon";
+
+		const coordinates = curve({
+			controlPoints,
+			type: (properties[CURVE_PROPERTIES.CURVE_TYPE] ||
+				"catmull-rom") as CurveType,
+			resolution: (properties[CURVE_PROPERTIES.RESOLUTION] as number) || 16,
+			closed,
+			coordinatePrecision: this.coordinatePrecision,
+		});
+
+		const geometry: LineString | Polygon = closed
+			? { type: "Polygon", coordinates: [coordinates] }
+			: { type: "LineString", coordinates };
+
+		if (geometry.type === "Polygon" && coordinates.length < 4) {
+			return false;
+		}
+
+		if (validateFeature) {
+			const validationResult = validateFeature(
+				{
+					id,
+					type: "Feature",
+					geometry,
+					properties,
+				},
+				{
+					project: this.config.project,
+					unproject: this.config.unproject,
+					coordinatePrecision: this.config.coordinatePrecision,
+					updateType,
+				},
+			);
+
+			if (!validationResult.valid) {
+				return false;
+			}
+		}
+
+		// Removing a control point changes the number of selection points,
+		// in which case they are recreated rather than updated
+		const updatedSelectionPoints =
+			this.selectionPoints.ids.length === controlPoints.length
+				? this.selectionPoints.getUpdated(controlPoints) || []
+				: [];
+
+		this.store.updateGeometry([{ id, geometry }, ...updatedSelectionPoints]);
+
+		this.store.updateProperty([
+			{ id, property: CURVE_PROPERTIES.CONTROL_POINTS, value: controlPoints },
+		]);
+
+		return true;
+	}
+}
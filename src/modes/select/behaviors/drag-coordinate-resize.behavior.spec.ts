@@ -1,4 +1,9 @@
-import { Position } from "geojson";
+import { Polygon, Position } from "geojson";
+import { REGULAR_POLYGON_PROPERTIES } from "../../../common";
+import { regularPolygonWebMercator } from "../../../geometry/shape/create-regular-polygon";
+import { lngLatToWebMercatorXY } from "../../../geometry/project/web-mercator";
+import { webMercatorCentroid } from "../../../geometry/web-mercator-centroid";
+import { FeatureId } from "../../../store/store";
 import {
 	createStorePoint,
 	createStorePolygon,
@@ -281,6 +286,65 @@ describe("DragCoordinateResizeBehavior", () => {
 					expect(config.store.updateGeometry).toHaveBeenCalledTimes(1);
 				});
 			});
+
+			describe("regular polygons", () => {
+				const createRegularPolygon = () => {
+					const [createdId] = config.store.create([
+						{
+							geometry: regularPolygonWebMercator({
+								center: [0, 0],
+								radiusKilometers: 100,
+								sides: 6,
+								rotation: 0,
+								coordinatePrecision: 9,
+							}).geometry,
+							properties: {
+								selected: true,
+								[REGULAR_POLYGON_PROPERTIES.SIDES]: 6,
+							},
+						},
+					]);
+
+					return createdId;
+				};
+
+				const getRadii = (id: FeatureId) => {
+					const [ring] = config.store.getGeometryCopy<Polygon>(id).coordinates;
+					const { x: centerX, y: centerY } = webMercatorCentroid({
+						type: "Feature",
+						geometry: config.store.getGeometryCopy<Polygon>(id),
+						properties: {},
+					}) as { x: number; y: number };
+
+					return ring.map(([lng, lat]) => {
+						const { x, y } = lngLatToWebMercatorXY(lng, lat);
+						return Math.hypot(x - centerX, y - centerY);
+					});
+				};
+
+				it.each(["center", "opposite"] as const)(
+					"keeps the polygon regular when resizing with %s",
+					(resizeOption) => {
+						const id = createRegularPolygon();
+
+						dragMaintainedShapeBehavior.startDragging(id, 0);
+
+						const updated = dragMaintainedShapeBehavior.drag(
+							MockCursorEvent({ lng: 0.5, lat: 1.5 }),
+							resizeOption,
+						);
+						expect(updated).toBe(true);
+
+						const radii = getRadii(id);
+						radii.forEach((radius) => {
+							expect(radius / radii[0]).toBeCloseTo(1, 4);
+						});
+
+						// The polygon has been resized
+						expect(radii[0]).toBeGreaterThan(100000);
+					},
+				);
+			});
 		});
 	});
 });
@@ -1,5 +1,6 @@
 import {
 	CartesianPoint,
+	REGULAR_POLYGON_PROPERTIES,
 	TerraDrawMouseEvent,
 	UpdateTypes,
 	Validation,
@@ -78,9 +79,16 @@ export class DragCoordinateResizeBehavior extends TerraDrawModeBehavior {
 		},
 	};
 
+	private regularResizeOptions: Record<ResizeOptions, ResizeOptions> = {
+		center: "center-fixed",
+		opposite: "opposite-fixed",
+		"center-fixed": "center-fixed",
+		"opposite-fixed": "opposite-fixed",
+	};
+
 	private getClosestCoordinate(
 		event: TerraDrawMouseEvent,
-		geometry: Polygon | LineString | Point,
+		geometry: GeoJSONStoreGeometries,
 	) {
 		const closestCoordinate = {
 			dist: Infinity,
@@ -96,7 +104,7 @@ export class DragCoordinateResizeBehavior extends TerraDrawModeBehavior {
 			geomCoordinates = geometry.coordinates[0];
 		} else {
 			// We don't want to handle dragging
-			// points here
+			// points or multi geometries here
 			return closestCoordinate;
 		}
 
@@ -478,12 +486,34 @@ export class DragCoordinateResizeBehavior extends TerraDrawModeBehavior {
 	}
 
 	private getNormalisedCoordinates(geometry: Polygon | LineString) {
-		// Coordinates are either polygon or linestring at this point
+		// Coordinates are either polygon or linestring at this point. Polygon
+		// rings are flattened so that any holes are resized along with the exterior
+		// ring, which always comes first so the dragged index is unaffected
 		return geometry.type === "Polygon"
-			? geometry.coordinates[0]
+			? geometry.coordinates.reduce<Position[]>(
+					(coordinates, ring) => coordinates.concat(ring),
+					[],
+			  )
 			: geometry.coordinates;
 	}
 
+	private getRings(
+		geometry: Polygon | LineString,
+		updatedCoords: Position[],
+	): Position[][] {
+		if (geometry.type === "LineString") {
+			return [updatedCoords];
+		}
+
+		// Split the flattened coordinates back into their original rings
+		let offset = 0;
+		return geometry.coordinates.map((ring) => {
+			const updatedRing = updatedCoords.slice(offset, offset + ring.length);
+			offset += ring.length;
+			return updatedRing;
+		});
+	}
+
 	private validateScale(xScale: number, yScale: number) {
 		const validX = !isNaN(xScale) && yScale < Number.MAX_SAFE_INTEGER;
 		const validY = !isNaN(yScale) && yScale < Number.MAX_SAFE_INTEGER;
@@ -683,6 +713,13 @@ export class DragCoordinateResizeBehavior extends TerraDrawModeBehavior {
 			return false;
 		}
 
+		// Scaling a regular polygon differently in each direction would make it
+		// irregular, so it is always scaled by the same amount in both directions
+		const properties = this.store.getPropertiesCopy(this.draggedCoordinate.id);
+		if (properties[REGULAR_POLYGON_PROPERTIES.SIDES]) {
+			resizeOption = this.regularResizeOptions[resizeOption];
+		}
+
 		let updatedCoords: Position[] | null = null;
 
 		if (resizeOption === "center") {
@@ -711,15 +748,23 @@ export class DragCoordinateResizeBehavior extends TerraDrawModeBehavior {
 			}
 		}
 
+		const [updatedExterior, ...holes] = this.getRings(
+			feature.geometry,
+			updatedCoords,
+		);
+
 		// Perform the update to the midpoints and selection points
-		const updatedMidPoints = this.midPoints.getUpdated(updatedCoords) || [];
+		const updatedMidPoints =
+			this.midPoints.getUpdated(updatedExterior, holes) || [];
 		const updatedSelectionPoints =
-			this.selectionPoints.getUpdated(updatedCoords) || [];
+			this.selectionPoints.getUpdated(updatedExterior, holes) || [];
 
 		const updatedGeometry = {
 			type: feature.geometry.type as "Polygon" | "LineString",
 			coordinates:
-				feature.geometry.type === "Polygon" ? [updatedCoords] : updatedCoords,
+				feature.geometry.type === "Polygon"
+					? [updatedExterior, ...holes]
+					: updatedExterior,
 		} as GeoJSONStoreGeometries;
 
 		if (validateFeature) {
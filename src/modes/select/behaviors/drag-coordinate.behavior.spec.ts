@@ -1,4 +1,4 @@
-import { Position } from "geojson";
+import { Polygon, Position } from "geojson";
 import {
 	createStorePoint,
 	createStorePolygon,
@@ -12,6 +12,23 @@ import { SelectionPointBehavior } from "./selection-point.behavior";
 import { MockCursorEvent } from "../../../test/mock-cursor-event";
 
 describe("DragCoordinateBehavior", () => {
+	const polygonWithHole: Position[][] = [
+		[
+			[0, 0],
+			[0, 10],
+			[10, 10],
+			[10, 0],
+			[0, 0],
+		],
+		[
+			[2, 2],
+			[2, 4],
+			[4, 4],
+			[4, 2],
+			[2, 2],
+		],
+	];
+
 	const createLineString = (
 		config: BehaviorConfig,
 		coordinates: Position[] = [
@@ -103,6 +120,18 @@ describe("DragCoordinateBehavior", () => {
 				expect(index).toBe(0);
 			});
 
+			it("can get index for Polygon hole coordinate if within pointer distance", () => {
+				const id = createStorePolygon(config, polygonWithHole);
+
+				const index = dragCoordinateBehavior.getDraggableIndex(
+					MockCursorEvent({ lng: 4, lat: 4 }),
+					id,
+				);
+
+				// Indexes of holes follow on from the exterior ring
+				expect(index).toBe(6);
+			});
+
 			it("can drag LineString coordinate if within pointer distance", () => {
 				const id = createLineString(config);
 				jest.spyOn(config.store, "updateGeometry");
@@ -178,6 +207,26 @@ describe("DragCoordinateBehavior", () => {
 				expect(config.store.updateGeometry).toHaveBeenCalledTimes(1);
 			});
 
+			it("updates the Polygon hole coordinate if within pointer distance", () => {
+				const id = createStorePolygon(config, polygonWithHole);
+
+				dragCoordinateBehavior.startDragging(id, 4);
+
+				dragCoordinateBehavior.drag(MockCursorEvent({ lng: 3, lat: 3 }), true);
+
+				const geometry = config.store.getGeometryCopy(id);
+				expect(geometry.coordinates).toStrictEqual([
+					polygonWithHole[0],
+					[
+						[3, 3],
+						[2, 4],
+						[4, 4],
+						[4, 2],
+						[3, 3],
+					],
+				]);
+			});
+
 			it("updates the LineString coordinate if within pointer distance", () => {
 				const id = createLineString(config);
 				jest.spyOn(config.store, "updateGeometry");
@@ -230,5 +279,163 @@ describe("DragCoordinateBehavior", () => {
 				expect(config.store.updateGeometry).toHaveBeenCalledTimes(0);
 			});
 		});
+
+		describe("drag with topology", () => {
+			const topology = {
+				filter: () => true,
+				allowSelfIntersection: () => true,
+			};
+
+			// Two squares which share the edge from [1, 0] to [1, 1]
+			const createNeighbours = () => {
+				const id = createStorePolygon(config);
+				const neighbourId = createStorePolygon(config, [
+					[
+						[1, 0],
+						[1, 1],
+						[2, 1],
+						[2, 0],
+						[1, 0],
+					],
+				]);
+				return { id, neighbourId };
+			};
+
+			it("moves the coordinates of features which share the dragged coordinate", () => {
+				const { id, neighbourId } = createNeighbours();
+				const lineStringId = createLineString(config, [
+					[1, 1],
+					[1, 2],
+				]);
+
+				dragCoordinateBehavior.startDragging(id, 2, topology);
+
+				expect(dragCoordinateBehavior.getCoincidentFeatureIds()).toStrictEqual([
+					neighbourId,
+					lineStringId,
+				]);
+
+				jest.spyOn(config.store, "updateGeometry");
+
+				dragCoordinateBehavior.drag(
+					MockCursorEvent({ lng: 1.5, lat: 1.5 }),
+					true,
+				);
+
+				// All of the features are updated at once
+				expect(config.store.updateGeometry).toHaveBeenCalledTimes(1);
+
+				expect(config.store.getGeometryCopy(id).coordinates).toStrictEqual([
+					[
+						[0, 0],
+						[0, 1],
+						[1.5, 1.5],
+						[1, 0],
+						[0, 0],
+					],
+				]);
+				expect(
+					config.store.getGeometryCopy(neighbourId).coordinates,
+				).toStrictEqual([
+					[
+						[1, 0],
+						[1.5, 1.5],
+						[2, 1],
+						[2, 0],
+						[1, 0],
+					],
+				]);
+				expect(
+					config.store.getGeometryCopy(lineStringId).coordinates,
+				).toStrictEqual([
+					[1.5, 1.5],
+					[1, 2],
+				]);
+			});
+
+			it("moves both the first and last coordinates of a shared closing coordinate", () => {
+				const { id, neighbourId } = createNeighbours();
+
+				// [1, 0] is the closing coordinate of the neighbour
+				dragCoordinateBehavior.startDragging(id, 3, topology);
+
+				dragCoordinateBehavior.drag(
+					MockCursorEvent({ lng: 1.5, lat: -0.5 }),
+					true,
+				);
+
+				const [ring] =
+					config.store.getGeometryCopy<Polygon>(neighbourId).coordinates;
+				expect(ring[0]).toStrictEqual([1.5, -0.5]);
+				expect(ring[4]).toStrictEqual([1.5, -0.5]);
+			});
+
+			it("does not move features which are not allowed by the filter", () => {
+				const { id, neighbourId } = createNeighbours();
+
+				dragCoordinateBehavior.startDragging(id, 2, {
+					...topology,
+					filter: (feature) => feature.id !== neighbourId,
+				});
+
+				dragCoordinateBehavior.drag(
+					MockCursorEvent({ lng: 1.5, lat: 1.5 }),
+					true,
+				);
+
+				expect(
+					config.store.getGeometryCopy<Polygon>(neighbourId).coordinates[0][1],
+				).toStrictEqual([1, 1]);
+			});
+
+			it("does not move any features if a feature sharing the coordinate becomes invalid", () => {
+				const { id, neighbourId } = createNeighbours();
+
+				dragCoordinateBehavior.startDragging(id, 2, {
+					...topology,
+					validation: (feature) => ({ valid: feature.id !== neighbourId }),
+				});
+
+				jest.spyOn(config.store, "updateGeometry");
+
+				dragCoordinateBehavior.drag(
+					MockCursorEvent({ lng: 1.5, lat: 1.5 }),
+					true,
+				);
+
+				expect(config.store.updateGeometry).toHaveBeenCalledTimes(0);
+			});
+
+			it("does not move any features if a feature sharing the coordinate would self intersect", () => {
+				const { id } = createNeighbours();
+
+				dragCoordinateBehavior.startDragging(id, 2, {
+					...topology,
+					allowSelfIntersection: () => false,
+				});
+
+				jest.spyOn(config.store, "updateGeometry");
+
+				// Dragging [1, 1] across the edge from [2, 1] to [2, 0]
+				// makes the neighbour self intersect
+				dragCoordinateBehavior.drag(
+					MockCursorEvent({ lng: 3, lat: 0.5 }),
+					true,
+				);
+
+				expect(config.store.updateGeometry).toHaveBeenCalledTimes(0);
+			});
+
+			it("clears the features sharing the coordinate when dragging stops", () => {
+				const { id } = createNeighbours();
+
+				dragCoordinateBehavior.startDragging(id, 2, topology);
+				dragCoordinateBehavior.stopDragging();
+
+				expect(dragCoordinateBehavior.getCoincidentFeatureIds()).toStrictEqual(
+					[],
+				);
+			});
+		});
 	});
 });
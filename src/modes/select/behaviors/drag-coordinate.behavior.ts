@@ -1,12 +1,40 @@
 import { TerraDrawMouseEvent, UpdateTypes, Validation } from "../../../common";
 import { BehaviorConfig, TerraDrawModeBehavior } from "../../base.behavior";
 
-import { LineString, Polygon, Position, Point, Feature } from "geojson";
+import { Polygon, Position, Feature } from "geojson";
 import { PixelDistanceBehavior } from "../../pixel-distance.behavior";
 import { MidPointBehavior } from "./midpoint.behavior";
 import { SelectionPointBehavior } from "./selection-point.behavior";
 import { selfIntersects } from "../../../geometry/boolean/self-intersects";
-import { FeatureId } from "../../../store/store";
+import {
+	BBoxPolygon,
+	FeatureId,
+	GeoJSONStoreFeatures,
+	GeoJSONStoreGeometries,
+} from "../../../store/store";
+import { getRingCoordinateIndex } from "../../../geometry/get-ring-coordinate-index";
+import {
+	getCoordinateArrays,
+	getGeometryParts,
+} from "../../../geometry/geometry-parts";
+import { coordinatesIdentical } from "../../../geometry/coordinates-identical";
+import { isGuidanceFeature } from "../../../store/guidance-feature";
+
+export type TopologyOptions = {
+	// Which features that share the dragged coordinate are moved along with it
+	filter: (feature: GeoJSONStoreFeatures) => boolean;
+	// Whether each of those features is allowed to self intersect
+	allowSelfIntersection: (feature: GeoJSONStoreFeatures) => boolean;
+	validation?: Validation;
+};
+
+type CoincidentFeature = {
+	id: FeatureId;
+	// The coordinate array and index of each of the feature's coordinates that are
+	// at the dragged coordinate, as returned by getCoordinateArrays
+	positions: [number, number][];
+	allowSelfIntersection: boolean;
+};
 
 export class DragCoordinateBehavior extends TerraDrawModeBehavior {
 	constructor(
@@ -23,9 +51,12 @@ export class DragCoordinateBehavior extends TerraDrawModeBehavior {
 		index: -1,
 	};
 
+	private coincidentFeatures: CoincidentFeature[] = [];
+	private topologyValidation: Validation | undefined;
+
 	private getClosestCoordinate(
 		event: TerraDrawMouseEvent,
-		geometry: Polygon | LineString | Point,
+		geometry: GeoJSONStoreGeometries,
 	) {
 		const closestCoordinate = {
 			dist: Infinity,
@@ -33,40 +64,50 @@ export class DragCoordinateBehavior extends TerraDrawModeBehavior {
 			isFirstOrLastPolygonCoord: false,
 		};
 
-		let geomCoordinates: Position[] | undefined;
+		let rings: Position[][];
 
 		if (geometry.type === "LineString") {
-			geomCoordinates = geometry.coordinates;
+			rings = [geometry.coordinates];
 		} else if (geometry.type === "Polygon") {
-			geomCoordinates = geometry.coordinates[0];
+			rings = geometry.coordinates;
 		} else {
 			// We don't want to handle dragging
-			// points here
+			// points or multi geometries here
 			return closestCoordinate;
 		}
 
-		// Look through the selected features coordinates
-		// and try to find a coordinate that is draggable
-		for (let i = 0; i < geomCoordinates.length; i++) {
-			const coord = geomCoordinates[i];
-			const distance = this.pixelDistance.measure(event, coord);
+		// For polygons the index runs across all of the rings, which
+		// matches the way selection points are created
+		let offset = 0;
 
-			if (
-				distance < this.pointerDistance &&
-				distance < closestCoordinate.dist
-			) {
-				// We don't create a point for the final
-				// polygon coord, so we must set it to the first
-				// coordinate instead
-				const isFirstOrLastPolygonCoord =
-					geometry.type === "Polygon" &&
-					(i === geomCoordinates.length - 1 || i === 0);
-
-				closestCoordinate.dist = distance;
-				closestCoordinate.index = isFirstOrLastPolygonCoord ? 0 : i;
-				closestCoordinate.isFirstOrLastPolygonCoord = isFirstOrLastPolygonCoord;
+		rings.forEach((geomCoordinates) => {
+			// Look through the selected features coordinates
+			// and try to find a coordinate that is draggable
+			for (let i = 0; i < geomCoordinates.length; i++) {
+				const coord = geomCoordinates[i];
+				const distance = this.pixelDistance.measure(event, coord);
+
+				if (
+					distance < this.pointerDistance &&
+					distance < closestCoordinate.dist
+				) {
+					// We don't create a point for the final
+					// polygon coord, so we must set it to the first
+					// coordinate instead
+					const isFirstOrLastPolygonCoord =
+						geometry.type === "Polygon" &&
+						(i === geomCoordinates.length - 1 || i === 0);
+
+					closestCoordinate.dist = distance;
+					closestCoordinate.index =
+						offset + (isFirstOrLastPolygonCoord ? 0 : i);
+					closestCoordinate.isFirstOrLastPolygonCoord =
+						isFirstOrLastPolygonCoord;
+				}
 			}
-		}
+
+			offset += geomCoordinates.length - 1;
+		});
 
 		return closestCoordinate;
 	}
@@ -93,14 +134,31 @@ export class DragCoordinateBehavior extends TerraDrawModeBehavior {
 		if (!this.draggedCoordinate.id) {
 			return false;
 		}
-		const index = this.draggedCoordinate.index;
 		const geometry = this.store.getGeometryCopy(this.draggedCoordinate.id);
 
-		const geomCoordinates = (
+		// Only the coordinates of Polygons and
+		// LineStrings can be dragged
+		if (geometry.type !== "Polygon" && geometry.type !== "LineString") {
+			return false;
+		}
+
+		const rings =
+			geometry.type === "LineString"
+				? [geometry.coordinates]
+				: geometry.coordinates;
+
+		// Polygon indexes run across all of their rings
+		const ringCoordinateIndex =
 			geometry.type === "LineString"
-				? geometry.coordinates
-				: geometry.coordinates[0]
-		) as Position[];
+				? { ring: 0, index: this.draggedCoordinate.index }
+				: getRingCoordinateIndex(rings, this.draggedCoordinate.index);
+
+		if (!ringCoordinateIndex) {
+			return false;
+		}
+
+		const index = ringCoordinateIndex.index;
+		const geomCoordinates = rings[ringCoordinateIndex.ring];
 
 		const isFirstOrLastPolygonCoord =
 			geometry.type === "Polygon" &&
@@ -132,7 +190,7 @@ export class DragCoordinateBehavior extends TerraDrawModeBehavior {
 		}
 
 		const updatedSelectionPoint = this.selectionPoints.getOneUpdated(
-			index,
+			this.draggedCoordinate.index,
 			updatedCoordinate,
 		);
 
@@ -140,10 +198,11 @@ export class DragCoordinateBehavior extends TerraDrawModeBehavior {
 			? [updatedSelectionPoint]
 			: [];
 
-		const updatedMidPoints = this.midPoints.getUpdated(geomCoordinates) || [];
+		const [outerCoordinates, ...holes] = rings;
+		const updatedMidPoints =
+			this.midPoints.getUpdated(outerCoordinates, holes) || [];
 
 		if (
-			geometry.type !== "Point" &&
 			!allowSelfIntersection &&
 			selfIntersects({
 				type: "Feature",
@@ -175,13 +234,22 @@ export class DragCoordinateBehavior extends TerraDrawModeBehavior {
 			}
 		}
 
-		// Apply all the updates
+		const updatedCoincidentFeatures =
+			this.getUpdatedCoincidentFeatures(updatedCoordinate);
+
+		if (!updatedCoincidentFeatures) {
+			return false;
+		}
+
+		// Apply all the updates at once, so that a single change
+		// event is fired with the ids of all the affected features
 		this.store.updateGeometry([
 			// Update feature
 			{
 				id: this.draggedCoordinate.id,
 				geometry: geometry,
 			},
+			...updatedCoincidentFeatures,
 			// Update selection and mid points
 			...updatedSelectionPoints,
 			...updatedMidPoints,
@@ -190,15 +258,150 @@ export class DragCoordinateBehavior extends TerraDrawModeBehavior {
 		return true;
 	}
 
+	// Moves the shared coordinates of the coincident features, returning undefined
+	// if any of them would become invalid so that the whole drag is abandoned
+	private getUpdatedCoincidentFeatures(updatedCoordinate: Position) {
+		const updates: { id: FeatureId; geometry: GeoJSONStoreGeometries }[] = [];
+
+		for (const { id, positions, allowSelfIntersection } of this
+			.coincidentFeatures) {
+			const geometry = this.store.getGeometryCopy(id);
+			const coordinateArrays = getCoordinateArrays(geometry);
+
+			positions.forEach(([arrayIndex, index]) => {
+				coordinateArrays[arrayIndex][index] = updatedCoordinate;
+			});
+
+			if (
+				!allowSelfIntersection &&
+				getGeometryParts(geometry).some(
+					(part) =>
+						part.type !== "Point" &&
+						selfIntersects({
+							type: "Feature",
+							geometry: part,
+							properties: {},
+						} as Feature<Polygon>),
+				)
+			) {
+				return undefined;
+			}
+
+			if (this.topologyValidation) {
+				const validationResult = this.topologyValidation(
+					{ type: "Feature", id, geometry, properties: {} },
+					{
+						project: this.config.project,
+						unproject: this.config.unproject,
+						coordinatePrecision: this.config.coordinatePrecision,
+						updateType: UpdateTypes.Provisional,
+					},
+				);
+
+				if (!validationResult.valid) {
+					return undefined;
+				}
+			}
+
+			updates.push({ id, geometry });
+		}
+
+		return updates;
+	}
+
+	// Finds the features which have a vertex at exactly the same position
+	// as the coordinate being dragged, i.e. those that share a boundary with it
+	private findCoincidentFeatures(
+		id: FeatureId,
+		index: number,
+		topology: TopologyOptions,
+	): CoincidentFeature[] {
+		const geometry = this.store.getGeometryCopy(id);
+
+		if (geometry.type !== "Polygon" && geometry.type !== "LineString") {
+			return [];
+		}
+
+		const ringCoordinateIndex =
+			geometry.type === "LineString"
+				? { ring: 0, index }
+				: getRingCoordinateIndex(geometry.coordinates, index);
+
+		if (!ringCoordinateIndex) {
+			return [];
+		}
+
+		const coordinate =
+			getCoordinateArrays(geometry)[ringCoordinateIndex.ring][
+				ringCoordinateIndex.index
+			];
+
+		const bbox = {
+			type: "Feature",
+			properties: {},
+			geometry: {
+				type: "Polygon",
+				coordinates: [
+					[coordinate, coordinate, coordinate, coordinate, coordinate],
+				],
+			},
+		} as BBoxPolygon;
+
+		return this.store
+			.search(
+				bbox,
+				(feature) =>
+					feature.id !== id &&
+					feature.geometry.type !== "Point" &&
+					!isGuidanceFeature(feature) &&
+					topology.filter(feature),
+			)
+			.reduce<CoincidentFeature[]>((coincident, feature) => {
+				const positions: [number, number][] = [];
+
+				getCoordinateArrays(feature.geometry).forEach(
+					(coordinates, arrayIndex) => {
+						coordinates.forEach((other, i) => {
+							if (coordinatesIdentical(other, coordinate)) {
+								positions.push([arrayIndex, i]);
+							}
+						});
+					},
+				);
+
+				if (positions.length) {
+					coincident.push({
+						id: feature.id as FeatureId,
+						positions,
+						allowSelfIntersection: topology.allowSelfIntersection(feature),
+					});
+				}
+
+				return coincident;
+			}, []);
+	}
+
+	/**
+	 * @returns the ids of the features which are moved along with the dragged coordinate
+	 */
+	public getCoincidentFeatureIds() {
+		return this.coincidentFeatures.map(({ id }) => id);
+	}
+
 	isDragging() {
 		return this.draggedCoordinate.id !== null;
 	}
 
-	startDragging(id: FeatureId, index: number) {
+	startDragging(id: FeatureId, index: number, topology?: TopologyOptions) {
 		this.draggedCoordinate = {
 			id,
 			index,
 		};
+
+		this.coincidentFeatures = topology
+			? this.findCoincidentFeatures(id, index, topology)
+			: [];
+		this.topologyValidation = topology && topology.validation;
 	}
 
 	stopDragging() {
@@ -206,5 +409,7 @@ export class DragCoordinateBehavior extends TerraDrawModeBehavior {
 			id: null,
 			index: -1,
 		};
+		this.coincidentFeatures = [];
+		this.topologyValidation = undefined;
 	}
 }
@@ -1,3 +1,4 @@
+import { MultiPolygon } from "geojson";
 import { createStorePolygon } from "../../../test/create-store-features";
 import { MockBehaviorConfig } from "../../../test/mock-behavior-config";
 import { MockCursorEvent } from "../../../test/mock-cursor-event";
@@ -164,6 +165,58 @@ describe("DragFeatureBehavior", () => {
 				expect(config.store.getGeometryCopy).toHaveBeenCalledTimes(1);
 				expect(config.store.updateGeometry).toHaveBeenCalledTimes(1);
 			});
+
+			it("moves every part of a multi polygon to the dragged position", () => {
+				const [id] = config.store.create([
+					{
+						geometry: {
+							type: "MultiPolygon",
+							coordinates: [
+								[
+									[
+										[0, 0],
+										[0, 1],
+										[1, 1],
+										[1, 0],
+										[0, 0],
+									],
+								],
+								[
+									[
+										[2, 0],
+										[2, 1],
+										[3, 1],
+										[3, 0],
+										[2, 0],
+									],
+								],
+							],
+						},
+						properties: { mode: "polygon" },
+					},
+				]);
+
+				expect(
+					dragFeatureBehavior.canDrag(
+						MockCursorEvent({ lng: 2.5, lat: 0.5 }),
+						id,
+					),
+				).toBe(true);
+
+				dragFeatureBehavior.startDragging(
+					MockCursorEvent({ lng: 0.5, lat: 0.5 }),
+					id,
+				);
+				dragFeatureBehavior.drag(MockCursorEvent({ lng: 0.5, lat: 1.5 }));
+
+				const geometry = config.store.getGeometryCopy<MultiPolygon>(id);
+
+				geometry.coordinates.forEach((polygon, i) => {
+					expect(polygon[0][0][0]).toBeCloseTo(i * 2);
+					expect(polygon[0][0][1]).toBeCloseTo(1);
+					expect(polygon[0][4]).toStrictEqual(polygon[0][0]);
+				});
+			});
 		});
 	});
 });
@@ -1,15 +1,25 @@
-import { TerraDrawMouseEvent, UpdateTypes, Validation } from "../../../common";
+import {
+	CURVE_PROPERTIES,
+	TerraDrawMouseEvent,
+	UpdateTypes,
+	Validation,
+} from "../../../common";
 import { BehaviorConfig, TerraDrawModeBehavior } from "../../base.behavior";
 import { FeatureAtPointerEventBehavior } from "./feature-at-pointer-event.behavior";
-import { Position } from "geojson";
+import { LineString, Position } from "geojson";
 import { SelectionPointBehavior } from "./selection-point.behavior";
 import { MidPointBehavior } from "./midpoint.behavior";
 import { limitPrecision } from "../../../geometry/limit-decimal-precision";
-import { FeatureId } from "../../../store/store";
+import { FeatureId, GeoJSONStoreGeometries } from "../../../store/store";
 import {
 	lngLatToWebMercatorXY,
 	webMercatorXYToLngLat,
 } from "../../../geometry/project/web-mercator";
+import {
+	getCoordinateArrays,
+	hasClosedRings,
+} from "../../../geometry/geometry-parts";
+import { getCurveControlPoints } from "./drag-control-point.behavior";
 
 export class DragFeatureBehavior extends TerraDrawModeBehavior {
 	constructor(
@@ -21,61 +31,60 @@ export class DragFeatureBehavior extends TerraDrawModeBehavior {
 		super(config);
 	}
 
-	private draggedFeatureId: FeatureId | null = null;
+	private draggedFeatureIds: FeatureId[] = [];
 
 	private dragPosition: Position | undefined;
 
-	startDragging(event: TerraDrawMouseEvent, id: FeatureId) {
-		this.draggedFeatureId = id;
+	startDragging(event: TerraDrawMouseEvent, id: FeatureId | FeatureId[]) {
+		// Multiple selected features are dragged together as a group
+		this.draggedFeatureIds = Array.isArray(id) ? id : [id];
 		this.dragPosition = [event.lng, event.lat];
 	}
 
 	stopDragging() {
-		this.draggedFeatureId = null;
+		this.draggedFeatureIds = [];
 		this.dragPosition = undefined;
 	}
 
 	isDragging() {
-		return this.draggedFeatureId !== null;
+		return this.draggedFeatureIds.length > 0;
 	}
 
-	canDrag(event: TerraDrawMouseEvent, selectedId: FeatureId) {
+	canDrag(event: TerraDrawMouseEvent, selectedId: FeatureId | FeatureId[]) {
 		const { clickedFeature } = this.featuresAtCursorEvent.find(event, true);
+		const selectedIds = Array.isArray(selectedId) ? selectedId : [selectedId];
 
-		// If the cursor is not over the selected
+		// If the cursor is not over a selected
 		// feature then we don't want to drag
-		if (!clickedFeature || clickedFeature.id !== selectedId) {
+		if (
+			!clickedFeature ||
+			!selectedIds.includes(clickedFeature.id as FeatureId)
+		) {
 			return false;
 		}
 
 		return true;
 	}
 
-	drag(event: TerraDrawMouseEvent, validateFeature?: Validation) {
-		if (!this.draggedFeatureId) {
-			return;
-		}
-
-		const geometry = this.store.getGeometryCopy(this.draggedFeatureId);
-		const cursorCoord = [event.lng, event.lat];
-
-		// Update the geometry of the dragged feature
-		if (geometry.type === "Polygon" || geometry.type === "LineString") {
-			let updatedCoords: Position[];
-			let upToCoord: number;
-
-			if (geometry.type === "Polygon") {
-				updatedCoords = geometry.coordinates[0];
-				upToCoord = updatedCoords.length - 1;
-			} else {
-				// Must be LineString here
-				updatedCoords = geometry.coordinates;
-				upToCoord = updatedCoords.length;
-			}
-
-			if (!this.dragPosition) {
-				return false;
-			}
+	// Moves all the coordinates of the geometry by how far the cursor has moved,
+	// returning false if any of them would end up outside of lng lat limits
+	private moveGeometry(
+		geometry: GeoJSONStoreGeometries,
+		dragPosition: Position,
+		cursorCoord: Position,
+	) {
+		// Polygons can have holes and multi geometries
+		// have many parts, so we move every coordinate array
+		const rings =
+			geometry.type === "Point"
+				? [[geometry.coordinates]]
+				: getCoordinateArrays(geometry);
+		const closedRings = hasClosedRings(geometry);
+
+		for (const updatedCoords of rings) {
+			const upToCoord = closedRings
+				? updatedCoords.length - 1
+				: updatedCoords.length;
 
 			for (let i = 0; i < upToCoord; i++) {
 				const coordinate = updatedCoords[i];
@@ -85,8 +94,8 @@ export class DragFeatureBehavior extends TerraDrawModeBehavior {
 
 				if (this.config.projection === "web-mercator") {
 					const webMercatorDragPosition = lngLatToWebMercatorXY(
-						this.dragPosition[0],
-						this.dragPosition[1],
+						dragPosition[0],
+						dragPosition[1],
 					);
 					const webMercatorCursorCoord = lngLatToWebMercatorXY(
 						cursorCoord[0],
@@ -111,8 +120,8 @@ export class DragFeatureBehavior extends TerraDrawModeBehavior {
 					updatedLat = lat;
 				} else {
 					const delta = [
-						this.dragPosition[0] - cursorCoord[0],
-						this.dragPosition[1] - cursorCoord[1],
+						dragPosition[0] - cursorCoord[0],
+						dragPosition[1] - cursorCoord[1],
 					];
 					updatedLng = coordinate[0] - delta[0];
 					updatedLat = coordinate[1] - delta[1];
@@ -146,63 +155,141 @@ export class DragFeatureBehavior extends TerraDrawModeBehavior {
 
 			// Set final coordinate identical to first
 			// We only want to do this for polygons!
-			if (geometry.type === "Polygon") {
+			if (closedRings) {
 				updatedCoords[updatedCoords.length - 1] = [
 					updatedCoords[0][0],
 					updatedCoords[0][1],
 				];
 			}
+		}
 
-			const updatedSelectionPoints =
-				this.selectionPoints.getUpdated(updatedCoords) || [];
-
-			const updatedMidPoints = this.midPoints.getUpdated(updatedCoords) || [];
-
-			if (validateFeature) {
-				const validationResult = validateFeature(
-					{
-						type: "Feature",
-						id: this.draggedFeatureId,
-						geometry,
-						properties: {},
-					},
-					{
-						project: this.config.project,
-						unproject: this.config.unproject,
-						coordinatePrecision: this.config.coordinatePrecision,
-						updateType: UpdateTypes.Provisional,
-					},
-				);
+		if (geometry.type === "Point") {
+			geometry.coordinates = rings[0][0];
+		}
+
+		return true;
+	}
+
+	drag(event: TerraDrawMouseEvent, validateFeature?: Validation) {
+		if (!this.draggedFeatureIds.length) {
+			return;
+		}
+
+		const cursorCoord = [event.lng, event.lat];
+
+		const updates: { id: FeatureId; geometry: GeoJSONStoreGeometries }[] = [];
+		const controlPointUpdates: { id: FeatureId; controlPoints: Position[] }[] =
+			[];
+
+		for (const id of this.draggedFeatureIds) {
+			const geometry = this.store.getGeometryCopy(id);
+
+			if (geometry.type === "Point" && this.draggedFeatureIds.length === 1) {
+				// For cursor points we can simply move it
+				// to the dragged position
+				geometry.coordinates = cursorCoord;
+			} else {
+				if (!this.dragPosition) {
+					return false;
+				}
 
-				if (!validationResult.valid) {
+				if (!this.moveGeometry(geometry, this.dragPosition, cursorCoord)) {
 					return false;
 				}
+
+				// The control points of curves are moved along with their geometry
+				const controlPoints = getCurveControlPoints(
+					this.store.getPropertiesCopy(id),
+				);
+
+				if (controlPoints) {
+					const controlPointGeometry: LineString = {
+						type: "LineString",
+						coordinates: controlPoints,
+					};
+
+					if (
+						!this.moveGeometry(
+							controlPointGeometry,
+							this.dragPosition,
+							cursorCoord,
+						)
+					) {
+						return false;
+					}
+
+					controlPointUpdates.push({
+						id,
+						controlPoints: controlPointGeometry.coordinates,
+					});
+				}
+
+				if (validateFeature) {
+					const validationResult = validateFeature(
+						{
+							type: "Feature",
+							id,
+							geometry,
+							properties: {},
+						},
+						{
+							project: this.config.project,
+							unproject: this.config.unproject,
+							coordinatePrecision: this.config.coordinatePrecision,
+							updateType: UpdateTypes.Provisional,
+						},
+					);
+
+					// If any of the dragged features are invalid none of them are moved
+					if (!validationResult.valid) {
+						return false;
+					}
+				}
 			}
 
-			// Issue the update to the selected feature
-			this.store.updateGeometry([
-				{ id: this.draggedFeatureId, geometry },
-				...updatedSelectionPoints,
-				...updatedMidPoints,
-			]);
-
-			this.dragPosition = [event.lng, event.lat];
-
-			// Update mid point positions
-		} else if (geometry.type === "Point") {
-			// For cursor points we can simply move it
-			// to the dragged position
-			this.store.updateGeometry([
-				{
-					id: this.draggedFeatureId,
-					geometry: {
-						type: "Point",
-						coordinates: cursorCoord,
-					},
-				},
-			]);
-
-			this.dragPosition = [event.lng, event.lat];
+			updates.push({ id, geometry });
+		}
+
+		// Selection and mid points only exist for a single selected
+		// LineString or Polygon, otherwise the updated points will be empty
+		const [{ geometry: draggedGeometry }] = updates;
+		const [updatedCoords, ...holes] =
+			draggedGeometry.type === "Point"
+				? [[]]
+				: getCoordinateArrays(draggedGeometry);
+
+		// The selection points of a curve are at its control points
+		const updatedSelectionPoints =
+			(updates.length === 1 &&
+				(controlPointUpdates.length
+					? this.selectionPoints.getUpdated(
+							controlPointUpdates[0].controlPoints,
+					  )
+					: this.selectionPoints.getUpdated(updatedCoords, holes))) ||
+			[];
+
+		const updatedMidPoints =
+			(updates.length === 1 &&
+				this.midPoints.getUpdated(updatedCoords, holes)) ||
+			[];
+
+		// Issue the update to the selected features
+		this.store.updateGeometry([
+			...updates,
+			...updatedSelectionPoints,
+			...updatedMidPoints,
+		]);
+
+		if (controlPointUpdates.length) {
+			this.store.updateProperty(
+				controlPointUpdates.map(({ id, controlPoints }) => ({
+					id,
+					property: CURVE_PROPERTIES.CONTROL_POINTS,
+					value: controlPoints,
+				})),
+			);
 		}
+
+		this.dragPosition = [event.lng, event.lat];
 	}
 }
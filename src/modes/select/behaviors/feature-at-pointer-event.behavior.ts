@@ -7,6 +7,7 @@ import { ClickBoundingBoxBehavior } from "../../click-bounding-box.behavior";
 import { pointInPolygon } from "../../../geometry/boolean/point-in-polygon";
 import { PixelDistanceBehavior } from "../../pixel-distance.behavior";
 import { pixelDistanceToLine } from "../../../geometry/measure/pixel-distance-to-line";
+import { getGeometryParts } from "../../../geometry/geometry-parts";
 
 export class FeatureAtPointerEventBehavior extends TerraDrawModeBehavior {
 	constructor(
@@ -31,78 +32,80 @@ export class FeatureAtPointerEventBehavior extends TerraDrawModeBehavior {
 
 		for (let i = 0; i < features.length; i++) {
 			const feature = features[i];
-			const geometry = feature.geometry;
 
-			if (geometry.type === "Point") {
-				// Ignore selection points always, and ignore mid points
-				// when nothing is selected
-				const isSelectionPoint = feature.properties.selectionPoint;
-				const isNonSelectedMidPoint =
-					!hasSelection && feature.properties[SELECT_PROPERTIES.MID_POINT];
+			// Multi geometries are clicked if any one of their parts is clicked
+			for (const geometry of getGeometryParts(feature.geometry)) {
+				if (geometry.type === "Point") {
+					// Ignore selection points always, and ignore mid points
+					// when nothing is selected
+					const isSelectionPoint = feature.properties.selectionPoint;
+					const isNonSelectedMidPoint =
+						!hasSelection && feature.properties[SELECT_PROPERTIES.MID_POINT];
 
-				if (isSelectionPoint || isNonSelectedMidPoint) {
-					continue;
-				}
-
-				const distance = this.pixelDistance.measure(
-					event,
-					geometry.coordinates,
-				);
-
-				// We want to catch both clicked
-				// features but also any midpoints
-				// in the clicked area
-				if (
-					feature.properties[SELECT_PROPERTIES.MID_POINT] &&
-					distance < this.pointerDistance &&
-					distance < clickedMidPointDistance
-				) {
-					clickedMidPointDistance = distance;
-					clickedMidPoint = feature;
-				} else if (
-					!feature.properties[SELECT_PROPERTIES.MID_POINT] &&
-					distance < this.pointerDistance &&
-					distance < clickedPointDistance
-				) {
-					clickedPointDistance = distance;
-					clickedPoint = feature;
-				}
-			} else if (geometry.type === "LineString") {
-				if (clickedPoint) {
-					continue;
-				}
+					if (isSelectionPoint || isNonSelectedMidPoint) {
+						continue;
+					}
 
-				for (let i = 0; i < geometry.coordinates.length - 1; i++) {
-					const coord = geometry.coordinates[i];
-					const nextCoord = geometry.coordinates[i + 1];
-					const distanceToLine = pixelDistanceToLine(
-						{ x: event.containerX, y: event.containerY },
-						this.project(coord[0], coord[1]),
-						this.project(nextCoord[0], nextCoord[1]),
+					const distance = this.pixelDistance.measure(
+						event,
+						geometry.coordinates,
 					);
 
+					// We want to catch both clicked
+					// features but also any midpoints
+					// in the clicked area
 					if (
-						distanceToLine < this.pointerDistance &&
-						distanceToLine < clickedLineStringDistance
+						feature.properties[SELECT_PROPERTIES.MID_POINT] &&
+						distance < this.pointerDistance &&
+						distance < clickedMidPointDistance
 					) {
-						clickedLineStringDistance = distanceToLine;
-						clickedLineString = feature;
+						clickedMidPointDistance = distance;
+						clickedMidPoint = feature;
+					} else if (
+						!feature.properties[SELECT_PROPERTIES.MID_POINT] &&
+						distance < this.pointerDistance &&
+						distance < clickedPointDistance
+					) {
+						clickedPointDistance = distance;
+						clickedPoint = feature;
+					}
+				} else if (geometry.type === "LineString") {
+					if (clickedPoint) {
+						continue;
+					}
+
+					for (let i = 0; i < geometry.coordinates.length - 1; i++) {
+						const coord = geometry.coordinates[i];
+						const nextCoord = geometry.coordinates[i + 1];
+						const distanceToLine = pixelDistanceToLine(
+							{ x: event.containerX, y: event.containerY },
+							this.project(coord[0], coord[1]),
+							this.project(nextCoord[0], nextCoord[1]),
+						);
+
+						if (
+							distanceToLine < this.pointerDistance &&
+							distanceToLine < clickedLineStringDistance
+						) {
+							clickedLineStringDistance = distanceToLine;
+							clickedLineString = feature;
+						}
+					}
+				} else if (geometry.type === "Polygon") {
+					if (clickedPoint || clickedLineString) {
+						// We already have a clicked feature
+						// so we can ignore the polygon
+						continue;
 					}
-				}
-			} else if (geometry.type === "Polygon") {
-				if (clickedPoint || clickedLineString) {
-					// We already have a clicked feature
-					// so we can ignore the polygon
-					continue;
-				}
 
-				const clickInsidePolygon = pointInPolygon(
-					[event.lng, event.lat],
-					geometry.coordinates,
-				);
+					const clickInsidePolygon = pointInPolygon(
+						[event.lng, event.lat],
+						geometry.coordinates,
+					);
 
-				if (clickInsidePolygon) {
-					clickedPolygon = feature;
+					if (clickInsidePolygon) {
+						clickedPolygon = feature;
+					}
 				}
 			}
 		}
@@ -1,3 +1,4 @@
+import { Polygon } from "geojson";
 import {
 	createStoreLineString,
 	createStorePolygon,
@@ -287,6 +288,59 @@ describe("MidPointBehavior", () => {
 						});
 					});
 				});
+
+				it("insert midpoint into the hole of a polygon", () => {
+					const midPointBehavior = new MidPointBehavior(
+						config,
+						new SelectionPointBehavior(config),
+					);
+
+					const exterior = [
+						[0, 0],
+						[0, 10],
+						[10, 10],
+						[10, 0],
+						[0, 0],
+					];
+					const hole = [
+						[2, 2],
+						[2, 4],
+						[4, 4],
+						[4, 2],
+						[2, 2],
+					];
+
+					const [createdId] = config.store.create([
+						{
+							geometry: { type: "Polygon", coordinates: [exterior, hole] },
+							properties: {},
+						},
+					]);
+
+					midPointBehavior.create(exterior, createdId, coordinatePrecision, [
+						hole,
+					]);
+
+					expect(midPointBehavior.ids.length).toBe(8);
+
+					// The first midpoint of the hole follows on from the exterior ring
+					const midPointId = midPointBehavior.ids[4];
+					expect(
+						config.store.getPropertiesCopy(midPointId).midPointSegment,
+					).toBe(4);
+
+					midPointBehavior.insert(midPointId, coordinatePrecision);
+
+					const geometry = config.store.getGeometryCopy<Polygon>(createdId);
+					expect(geometry.coordinates[0]).toStrictEqual(exterior);
+					expect(geometry.coordinates[1]).toHaveLength(6);
+					expect(geometry.coordinates[1][1]).toStrictEqual([
+						2,
+						expect.any(Number),
+					]);
+
+					expect(midPointBehavior.ids.length).toBe(9);
+				});
 			});
 		});
 	});
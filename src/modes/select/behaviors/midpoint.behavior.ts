@@ -7,6 +7,7 @@ import {
 import { SelectionPointBehavior } from "./selection-point.behavior";
 import { Projection, SELECT_PROPERTIES } from "../../../common";
 import { FeatureId } from "../../../store/store";
+import { getRingCoordinateIndex } from "../../../geometry/get-ring-coordinate-index";
 
 export class MidPointBehavior extends TerraDrawModeBehavior {
 	constructor(
@@ -32,22 +33,31 @@ export class MidPointBehavior extends TerraDrawModeBehavior {
 			midPointFeatureId as string,
 		);
 
-		// Update the coordinates to include inserted midpoint
-		const updatedCoordinates =
+		const rings =
 			geometry.type === "Polygon"
-				? geometry.coordinates[0]
-				: geometry.coordinates;
+				? geometry.coordinates
+				: [geometry.coordinates];
+
+		// The segment index runs across all rings of a polygon
+		const segment = getRingCoordinateIndex(rings, midPointSegment as number);
+
+		if (!segment) {
+			return;
+		}
 
-		updatedCoordinates.splice(
-			(midPointSegment as number) + 1,
+		// Update the coordinates to include inserted midpoint
+		rings[segment.ring].splice(
+			segment.index + 1,
 			0,
 			midPoint.coordinates as Position,
 		);
 
+		const [updatedCoordinates, ...holes] = rings;
+
 		// Update geometry coordinates depending
 		// on if a polygon or linestring
 		geometry.coordinates =
-			geometry.type === "Polygon" ? [updatedCoordinates] : updatedCoordinates;
+			geometry.type === "Polygon" ? rings : updatedCoordinates;
 
 		// Update the selected features geometry to insert
 		// the new midpoint
@@ -65,11 +75,13 @@ export class MidPointBehavior extends TerraDrawModeBehavior {
 			updatedCoordinates,
 			midPointFeatureId as string,
 			coordinatePrecision,
+			holes,
 		);
 		this.selectionPointBehavior.create(
 			updatedCoordinates,
 			geometry.type,
 			midPointFeatureId as string,
+			holes,
 		);
 	}
 
@@ -77,26 +89,37 @@ export class MidPointBehavior extends TerraDrawModeBehavior {
 		selectedCoords: Position[],
 		featureId: FeatureId,
 		coordinatePrecision: number,
+		holes: Position[][] = [],
 	) {
 		if (!this.store.has(featureId)) {
 			throw new Error("Store does not have feature with this id");
 		}
 
-		this._midPoints = this.store.create(
-			getMidPoints(
-				selectedCoords,
+		// Midpoints for any holes follow on from the outer ring,
+		// with the segment index continuing across all of the rings
+		let offset = 0;
+		const midPoints = [selectedCoords, ...holes].reduce<
+			ReturnType<typeof getMidPoints>
+		>((points, ring) => {
+			const ringOffset = offset;
+			const ringMidPoints = getMidPoints(
+				ring,
 				(i) => ({
 					mode: this.mode,
 					[SELECT_PROPERTIES.MID_POINT]: true,
-					midPointSegment: i,
+					midPointSegment: ringOffset + i,
 					midPointFeatureId: featureId,
 				}),
 				coordinatePrecision,
 				this.config.project,
 				this.config.unproject,
 				this.projection,
-			),
-		);
+			);
+			offset += ringMidPoints.length;
+			return points.concat(ringMidPoints);
+		}, []);
+
+		this._midPoints = this.store.create(midPoints);
 	}
 
 	public delete() {
@@ -106,23 +129,31 @@ export class MidPointBehavior extends TerraDrawModeBehavior {
 		}
 	}
 
-	public getUpdated(updatedCoordinates: Position[]) {
+	public getUpdated(updatedCoordinates: Position[], holes: Position[][] = []) {
 		if (this._midPoints.length === 0) {
 			return undefined;
 		}
 
-		return getMidPointCoordinates({
-			featureCoords: updatedCoordinates,
-			precision: this.coordinatePrecision,
-			project: this.config.project,
-			unproject: this.config.unproject,
-			projection: this.config.projection as Projection,
-		}).map((updatedMidPointCoord, i) => ({
-			id: this._midPoints[i] as string,
-			geometry: {
-				type: "Point",
-				coordinates: updatedMidPointCoord,
-			} as Point,
-		}));
+		return [updatedCoordinates, ...holes]
+			.reduce<Position[]>(
+				(midPointCoordinates, ring) =>
+					midPointCoordinates.concat(
+						getMidPointCoordinates({
+							featureCoords: ring,
+							precision: this.coordinatePrecision,
+							project: this.config.project,
+							unproject: this.config.unproject,
+							projection: this.config.projection as Projection,
+						}),
+					),
+				[],
+			)
+			.map((updatedMidPointCoord, i) => ({
+				id: this._midPoints[i] as string,
+				geometry: {
+					type: "Point",
+					coordinates: updatedMidPointCoord,
+				} as Point,
+			}));
 	}
 }
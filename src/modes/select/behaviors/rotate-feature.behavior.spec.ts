@@ -1,3 +1,4 @@
+import { LineString } from "geojson";
 import {
 	createStorePoint,
 	createStoreLineString,
@@ -73,6 +74,66 @@ describe("RotateFeatureBehavior", () => {
 			});
 		});
 
+		describe("rotateBy", () => {
+			it("non Polygon or LineStrings do an early return", () => {
+				const id = createStorePoint(config);
+
+				rotateFeatureBehavior.rotateBy(90, id);
+
+				expect(config.store.updateGeometry).toHaveBeenCalledTimes(0);
+			});
+
+			it("rotates the LineString clockwise by the angle", () => {
+				const id = createStoreLineString(config, [
+					[0, -1],
+					[0, 1],
+				]);
+
+				rotateFeatureBehavior.rotateBy(90, id);
+
+				expect(config.store.updateGeometry).toHaveBeenCalledTimes(1);
+
+				const [start, end] =
+					config.store.getGeometryCopy<LineString>(id).coordinates;
+				expect(start[0]).toBeCloseTo(-1, 3);
+				expect(start[1]).toBeCloseTo(0, 4);
+				expect(end[0]).toBeCloseTo(1, 3);
+				expect(end[1]).toBeCloseTo(0, 4);
+			});
+
+			it("rotates the LineString clockwise on the globe", () => {
+				config = MockBehaviorConfig("test", "globe");
+				const selectionPointBehavior = new SelectionPointBehavior(config);
+				rotateFeatureBehavior = new RotateFeatureBehavior(
+					config,
+					selectionPointBehavior,
+					new MidPointBehavior(config, selectionPointBehavior),
+				);
+
+				const id = createStoreLineString(config, [
+					[0, -1],
+					[0, 1],
+				]);
+
+				rotateFeatureBehavior.rotateBy(90, id);
+
+				const [start, end] =
+					config.store.getGeometryCopy<LineString>(id).coordinates;
+				expect(start[0]).toBeCloseTo(-1, 4);
+				expect(start[1]).toBeCloseTo(0, 4);
+				expect(end[0]).toBeCloseTo(1, 4);
+				expect(end[1]).toBeCloseTo(0, 4);
+			});
+
+			it("rotates the Polygon", () => {
+				const id = createStorePolygon(config);
+
+				rotateFeatureBehavior.rotateBy(45, id);
+
+				expect(config.store.updateGeometry).toHaveBeenCalledTimes(1);
+			});
+		});
+
 		describe("reset", () => {
 			it("resets the initial bearing so the next event will not trigger a rotate geometry update", () => {
 				const id = createStoreLineString(config);
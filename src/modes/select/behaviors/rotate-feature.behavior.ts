@@ -1,6 +1,13 @@
 import { TerraDrawMouseEvent, UpdateTypes, Validation } from "../../../common";
 import { BehaviorConfig, TerraDrawModeBehavior } from "../../base.behavior";
-import { Feature, LineString, Polygon, Position } from "geojson";
+import {
+	Feature,
+	LineString,
+	MultiLineString,
+	MultiPolygon,
+	Polygon,
+	Position,
+} from "geojson";
 import { SelectionPointBehavior } from "./selection-point.behavior";
 import { MidPointBehavior } from "./midpoint.behavior";
 import {
@@ -11,6 +18,7 @@ import { centroid } from "../../../geometry/centroid";
 import { rhumbBearing } from "../../../geometry/measure/rhumb-bearing";
 import { limitPrecision } from "../../../geometry/limit-decimal-precision";
 import { FeatureId } from "../../../store/store";
+import { getCoordinateArrays } from "../../../geometry/geometry-parts";
 import { webMercatorCentroid } from "../../../geometry/web-mercator-centroid";
 import { lngLatToWebMercatorXY } from "../../../geometry/project/web-mercator";
 import { webMercatorBearing } from "../../../geometry/measure/bearing";
@@ -35,21 +43,27 @@ export class RotateFeatureBehavior extends TerraDrawModeBehavior {
 		selectedId: FeatureId,
 		validateFeature?: Validation,
 	) {
-		const geometry = this.store.getGeometryCopy<LineString | Polygon>(
-			selectedId,
-		);
-
-		// Update the geometry of the dragged feature
-		if (geometry.type !== "Polygon" && geometry.type !== "LineString") {
+		const geometry = this.store.getGeometryCopy<
+			LineString | Polygon | MultiLineString | MultiPolygon
+		>(selectedId);
+
+		// Update the geometry of the dragged feature, multi
+		// geometries have all of their parts updated together
+		if (
+			geometry.type !== "Polygon" &&
+			geometry.type !== "LineString" &&
+			geometry.type !== "MultiPolygon" &&
+			geometry.type !== "MultiLineString"
+		) {
 			return;
 		}
 
 		const mouseCoord = [event.lng, event.lat];
 
 		let bearing: number;
-		const feature = { type: "Feature", geometry, properties: {} } as
-			| Feature<Polygon>
-			| Feature<LineString>;
+		const feature = { type: "Feature", geometry, properties: {} } as Feature<
+			Polygon | LineString | MultiPolygon | MultiLineString
+		>;
 
 		if (this.config.projection === "web-mercator") {
 			const centerWebMercator = webMercatorCentroid(feature);
@@ -84,22 +98,74 @@ export class RotateFeatureBehavior extends TerraDrawModeBehavior {
 			throw new Error("Unsupported projection");
 		}
 
-		// Coordinates are either polygon or linestring at this point
-		const updatedCoords: Position[] =
-			geometry.type === "Polygon"
-				? geometry.coordinates[0]
-				: geometry.coordinates;
+		if (!this.updateGeometry(selectedId, geometry, validateFeature)) {
+			return false;
+		}
+
+		if (this.projection === "web-mercator") {
+			this.lastBearing = bearing;
+		} else if (this.projection === "globe") {
+			this.lastBearing = bearing + 180;
+		}
+	}
+
+	/**
+	 * Rotates the feature by an angle, used for twisting two fingers
+	 * @param angle - the angle in degrees clockwise
+	 */
+	rotateBy(angle: number, selectedId: FeatureId, validateFeature?: Validation) {
+		const geometry = this.store.getGeometryCopy<
+			LineString | Polygon | MultiLineString | MultiPolygon
+		>(selectedId);
+
+		if (
+			geometry.type !== "Polygon" &&
+			geometry.type !== "LineString" &&
+			geometry.type !== "MultiPolygon" &&
+			geometry.type !== "MultiLineString"
+		) {
+			return;
+		}
+
+		const feature = { type: "Feature", geometry, properties: {} } as Feature<
+			Polygon | LineString | MultiPolygon | MultiLineString
+		>;
+
+		if (this.config.projection === "web-mercator") {
+			// Web mercator rotation is anticlockwise, whereas bearings are clockwise
+			transformRotateWebMercator(feature, -angle);
+		} else if (this.config.projection === "globe") {
+			transformRotate(feature, angle);
+		} else {
+			throw new Error("Unsupported projection");
+		}
+
+		return this.updateGeometry(selectedId, geometry, validateFeature);
+	}
+
+	private updateGeometry(
+		selectedId: FeatureId,
+		geometry: LineString | Polygon | MultiLineString | MultiPolygon,
+		validateFeature?: Validation,
+	) {
+		// Multi geometries do not have selection or mid points, so
+		// the updated points will be empty for them
+		const [updatedCoords, ...holes]: Position[][] =
+			getCoordinateArrays(geometry);
 
 		// Ensure that coordinate precision is maintained
-		updatedCoords.forEach((coordinate) => {
-			coordinate[0] = limitPrecision(coordinate[0], this.coordinatePrecision);
-			coordinate[1] = limitPrecision(coordinate[1], this.coordinatePrecision);
+		[updatedCoords, ...holes].forEach((ring) => {
+			ring.forEach((coordinate) => {
+				coordinate[0] = limitPrecision(coordinate[0], this.coordinatePrecision);
+				coordinate[1] = limitPrecision(coordinate[1], this.coordinatePrecision);
+			});
 		});
 
-		const updatedMidPoints = this.midPoints.getUpdated(updatedCoords) || [];
+		const updatedMidPoints =
+			this.midPoints.getUpdated(updatedCoords, holes) || [];
 
 		const updatedSelectionPoints =
-			this.selectionPoints.getUpdated(updatedCoords) || [];
+			this.selectionPoints.getUpdated(updatedCoords, holes) || [];
 
 		if (validateFeature) {
 			if (
@@ -129,10 +195,6 @@ export class RotateFeatureBehavior extends TerraDrawModeBehavior {
 			...updatedMidPoints,
 		]);
 
-		if (this.projection === "web-mercator") {
-			this.lastBearing = bearing;
-		} else if (this.projection === "globe") {
-			this.lastBearing = bearing + 180;
-		}
+		return true;
 	}
 }
@@ -1,3 +1,4 @@
+import { LineString } from "geojson";
 import {
 	createStorePoint,
 	createStoreLineString,
@@ -73,6 +74,42 @@ describe("ScaleFeatureBehavior", () => {
 			});
 		});
 
+		describe("scaleBy", () => {
+			it("non Polygon or LineStrings do an early return", () => {
+				const id = createStorePoint(config);
+
+				scaleFeatureBehavior.scaleBy(2, id);
+
+				expect(config.store.updateGeometry).toHaveBeenCalledTimes(0);
+			});
+
+			it("scales the LineString about its center by the factor", () => {
+				const id = createStoreLineString(config, [
+					[0, -1],
+					[0, 1],
+				]);
+
+				scaleFeatureBehavior.scaleBy(2, id);
+
+				expect(config.store.updateGeometry).toHaveBeenCalledTimes(1);
+
+				const [start, end] =
+					config.store.getGeometryCopy<LineString>(id).coordinates;
+				expect(start[0]).toBeCloseTo(0, 4);
+				expect(start[1]).toBeCloseTo(-2, 2);
+				expect(end[0]).toBeCloseTo(0, 4);
+				expect(end[1]).toBeCloseTo(2, 2);
+			});
+
+			it("scales the Polygon", () => {
+				const id = createStorePolygon(config);
+
+				scaleFeatureBehavior.scaleBy(0.5, id);
+
+				expect(config.store.updateGeometry).toHaveBeenCalledTimes(1);
+			});
+		});
+
 		describe("reset", () => {
 			it("resets the initial bearing so the next event will not trigger a scale geometry update", () => {
 				const id = createStoreLineString(config);
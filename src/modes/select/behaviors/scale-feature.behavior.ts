@@ -1,6 +1,13 @@
 import { TerraDrawMouseEvent, UpdateTypes, Validation } from "../../../common";
 import { BehaviorConfig, TerraDrawModeBehavior } from "../../base.behavior";
-import { Feature, LineString, Polygon, Position } from "geojson";
+import {
+	Feature,
+	LineString,
+	MultiLineString,
+	MultiPolygon,
+	Polygon,
+	Position,
+} from "geojson";
 import { SelectionPointBehavior } from "./selection-point.behavior";
 import { MidPointBehavior } from "./midpoint.behavior";
 import { centroid } from "../../../geometry/centroid";
@@ -11,6 +18,7 @@ import {
 } from "../../../geometry/transform/scale";
 import { limitPrecision } from "../../../geometry/limit-decimal-precision";
 import { FeatureId } from "../../../store/store";
+import { getCoordinateArrays } from "../../../geometry/geometry-parts";
 import { webMercatorCentroid } from "../../../geometry/web-mercator-centroid";
 import {
 	lngLatToWebMercatorXY,
@@ -38,19 +46,25 @@ export class ScaleFeatureBehavior extends TerraDrawModeBehavior {
 		selectedId: FeatureId,
 		validateFeature?: Validation,
 	) {
-		const geometry = this.store.getGeometryCopy<LineString | Polygon>(
-			selectedId,
-		);
-
-		// Update the geometry of the dragged feature
-		if (geometry.type !== "Polygon" && geometry.type !== "LineString") {
+		const geometry = this.store.getGeometryCopy<
+			LineString | Polygon | MultiLineString | MultiPolygon
+		>(selectedId);
+
+		// Update the geometry of the dragged feature, multi
+		// geometries have all of their parts updated together
+		if (
+			geometry.type !== "Polygon" &&
+			geometry.type !== "LineString" &&
+			geometry.type !== "MultiPolygon" &&
+			geometry.type !== "MultiLineString"
+		) {
 			return;
 		}
 
 		const mouseCoord = [event.lng, event.lat];
 
 		const feature = { type: "Feature", geometry, properties: {} } as Feature<
-			Polygon | LineString
+			Polygon | LineString | MultiPolygon | MultiLineString
 		>;
 
 		let distance;
@@ -88,22 +102,74 @@ export class ScaleFeatureBehavior extends TerraDrawModeBehavior {
 			transformScale(feature, scale, origin);
 		}
 
-		// Coordinates are either polygon or linestring at this point
-		const updatedCoords: Position[] =
-			geometry.type === "Polygon"
-				? geometry.coordinates[0]
-				: geometry.coordinates;
+		if (!this.updateGeometry(selectedId, geometry, validateFeature)) {
+			return false;
+		}
+
+		this.lastDistance = distance;
+	}
+
+	/**
+	 * Scales the feature about its center by a factor, used for pinching two fingers
+	 * @param factor - the factor to scale the feature by
+	 */
+	scaleBy(factor: number, selectedId: FeatureId, validateFeature?: Validation) {
+		const geometry = this.store.getGeometryCopy<
+			LineString | Polygon | MultiLineString | MultiPolygon
+		>(selectedId);
+
+		if (
+			geometry.type !== "Polygon" &&
+			geometry.type !== "LineString" &&
+			geometry.type !== "MultiPolygon" &&
+			geometry.type !== "MultiLineString"
+		) {
+			return;
+		}
+
+		const feature = { type: "Feature", geometry, properties: {} } as Feature<
+			Polygon | LineString | MultiPolygon | MultiLineString
+		>;
+
+		if (this.config.projection === "web-mercator") {
+			const originWebMercator = webMercatorCentroid(feature);
+			const { lng, lat } = webMercatorXYToLngLat(
+				originWebMercator.x,
+				originWebMercator.y,
+			);
+			transformScaleWebMercator(feature, factor, [lng, lat]);
+		} else if (this.config.projection === "globe") {
+			transformScale(feature, factor, centroid(feature));
+		} else {
+			throw new Error("Invalid projection");
+		}
+
+		return this.updateGeometry(selectedId, geometry, validateFeature);
+	}
+
+	private updateGeometry(
+		selectedId: FeatureId,
+		geometry: LineString | Polygon | MultiLineString | MultiPolygon,
+		validateFeature?: Validation,
+	) {
+		// Multi geometries do not have selection or mid points, so
+		// the updated points will be empty for them
+		const [updatedCoords, ...holes]: Position[][] =
+			getCoordinateArrays(geometry);
 
 		// Ensure that coordinate precision is maintained
-		updatedCoords.forEach((coordinate) => {
-			coordinate[0] = limitPrecision(coordinate[0], this.coordinatePrecision);
-			coordinate[1] = limitPrecision(coordinate[1], this.coordinatePrecision);
+		[updatedCoords, ...holes].forEach((ring) => {
+			ring.forEach((coordinate) => {
+				coordinate[0] = limitPrecision(coordinate[0], this.coordinatePrecision);
+				coordinate[1] = limitPrecision(coordinate[1], this.coordinatePrecision);
+			});
 		});
 
-		const updatedMidPoints = this.midPoints.getUpdated(updatedCoords) || [];
+		const updatedMidPoints =
+			this.midPoints.getUpdated(updatedCoords, holes) || [];
 
 		const updatedSelectionPoints =
-			this.selectionPoints.getUpdated(updatedCoords) || [];
+			this.selectionPoints.getUpdated(updatedCoords, holes) || [];
 
 		if (validateFeature) {
 			if (
@@ -133,6 +199,6 @@ export class ScaleFeatureBehavior extends TerraDrawModeBehavior {
 			...updatedMidPoints,
 		]);
 
-		this.lastDistance = distance;
+		return true;
 	}
 }
@@ -45,6 +45,42 @@ describe("SelectionPointBehavior", () => {
 			selectionPointBehavior.ids.forEach((id) => expect(id).toBeUUID4());
 		});
 
+		it("create - for polygon with holes", () => {
+			const config = MockBehaviorConfig("test");
+			const selectionPointBehavior = new SelectionPointBehavior(config);
+
+			jest.spyOn(config.store, "create");
+
+			selectionPointBehavior.create(
+				[
+					[0, 0],
+					[0, 10],
+					[10, 10],
+					[10, 0],
+					[0, 0],
+				],
+				"Polygon",
+				"id",
+				[
+					[
+						[2, 2],
+						[2, 4],
+						[4, 4],
+						[4, 2],
+						[2, 2],
+					],
+				],
+			);
+
+			expect(selectionPointBehavior.ids.length).toBe(8);
+
+			const created = (config.store.create as jest.Mock).mock.calls[0][0];
+			expect(
+				created.map(({ properties }: any) => properties.index),
+			).toStrictEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+			expect(created[4].geometry.coordinates).toStrictEqual([2, 2]);
+		});
+
 		it("delete", () => {
 			const selectionPointBehavior = new SelectionPointBehavior(
 				MockBehaviorConfig("test"),
@@ -20,15 +20,26 @@ export class SelectionPointBehavior extends TerraDrawModeBehavior {
 		selectedCoords: Position[],
 		type: Polygon["type"] | LineString["type"],
 		featureId: FeatureId,
+		holes: Position[][] = [],
 	) {
-		this._selectionPoints = this.store.create(
-			getCoordinatesAsPoints(selectedCoords, type, (i) => ({
+		// Selection points for any holes follow on from the outer ring,
+		// with the index continuing across all of the rings
+		let offset = 0;
+		const selectionPoints = [selectedCoords, ...holes].reduce<
+			ReturnType<typeof getCoordinatesAsPoints>
+		>((points, ring) => {
+			const ringOffset = offset;
+			const ringPoints = getCoordinatesAsPoints(ring, type, (i) => ({
 				mode: this.mode,
 				selectionPoint: true,
 				selectionPointFeatureId: featureId,
-				index: i,
-			})),
-		);
+				index: ringOffset + i,
+			}));
+			offset += ringPoints.length;
+			return points.concat(ringPoints);
+		}, []);
+
+		this._selectionPoints = this.store.create(selectionPoints);
 	}
 
 	public delete() {
@@ -38,17 +49,25 @@ export class SelectionPointBehavior extends TerraDrawModeBehavior {
 		}
 	}
 
-	public getUpdated(updatedCoordinates: Position[]) {
+	public getUpdated(updatedCoordinates: Position[], holes: Position[][] = []) {
 		if (this._selectionPoints.length === 0) {
 			return undefined;
 		}
 
+		// Holes only exist for polygons, so we can remove the closing coordinate of each ring
+		const coordinates = holes.length
+			? [updatedCoordinates, ...holes].reduce<Position[]>(
+					(ringCoordinates, ring) => ringCoordinates.concat(ring.slice(0, -1)),
+					[],
+			  )
+			: updatedCoordinates;
+
 		return this._selectionPoints.map((id, i) => {
 			return {
 				id,
 				geometry: {
 					type: "Point",
-					coordinates: updatedCoordinates[i],
+					coordinates: coordinates[i],
 				} as Point,
 			};
 		});
@@ -1,9 +1,13 @@
-import { Position } from "geojson";
-import { GeoJSONStore } from "../../store/store";
+import { LineString, Polygon, Position } from "geojson";
+import { FeatureId, GeoJSONStore, JSONObject } from "../../store/store";
 import { MockModeConfig } from "../../test/mock-mode-config";
 import { TerraDrawSelectMode } from "./select.mode";
 import { MockCursorEvent } from "../../test/mock-cursor-event";
 import { MockKeyboardEvent } from "../../test/mock-keyboard-event";
+import { MockGestureEvent } from "../../test/mock-gesture-event";
+import { CURVE_PROPERTIES, TerraDrawAdapterStyling } from "../../common";
+import { curve } from "../../geometry/shape/create-curve";
+import { getDefaultStyling } from "../../util/styling";
 
 describe("TerraDrawSelectMode", () => {
 	let selectMode: TerraDrawSelectMode;
@@ -1458,6 +1462,434 @@ describe("TerraDrawSelectMode", () => {
 			});
 		});
 
+		describe("drag control point", () => {
+			const addCurveToStore = () => {
+				return store.create([
+					{
+						geometry: {
+							type: "LineString",
+							coordinates: curve({
+								controlPoints: [
+									[0, 0],
+									[2, 2],
+									[4, 0],
+								],
+								type: "catmull-rom",
+								resolution: 4,
+								closed: false,
+								coordinatePrecision: 9,
+							}),
+						},
+						properties: {
+							mode: "curve",
+							[CURVE_PROPERTIES.CONTROL_POINTS]: [
+								[0, 0],
+								[2, 2],
+								[4, 0],
+							],
+							[CURVE_PROPERTIES.CURVE_TYPE]: "catmull-rom",
+							[CURVE_PROPERTIES.RESOLUTION]: 4,
+						},
+					},
+				])[0];
+			};
+
+			it("creates selection points at the control points of a curve", () => {
+				setSelectMode({
+					flags: {
+						curve: { feature: { coordinates: { draggable: true } } },
+					},
+				});
+
+				addCurveToStore();
+
+				selectMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+
+				expect(onSelect).toHaveBeenCalledTimes(1);
+
+				// Create selection points
+				expect(onChange).toHaveBeenLastCalledWith(
+					[expect.any(String), expect.any(String), expect.any(String)],
+					"create",
+				);
+			});
+
+			it("recreates the curve when a control point is dragged", () => {
+				setSelectMode({
+					flags: {
+						curve: { feature: { coordinates: { draggable: true } } },
+					},
+				});
+
+				const id = addCurveToStore();
+
+				selectMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+
+				selectMode.onDragStart(MockCursorEvent({ lng: 2, lat: 2 }), jest.fn());
+				selectMode.onDrag(MockCursorEvent({ lng: 2, lat: 3 }), jest.fn());
+				selectMode.onDragEnd(MockCursorEvent({ lng: 2, lat: 3 }), jest.fn());
+
+				expect(
+					store.getPropertiesCopy(id)[CURVE_PROPERTIES.CONTROL_POINTS],
+				).toStrictEqual([
+					[0, 0],
+					[2, 3],
+					[4, 0],
+				]);
+
+				const { coordinates } = store.getGeometryCopy<LineString>(id);
+				expect(coordinates).toHaveLength(2 * 4 + 1);
+				expect(coordinates[4][0]).toBeCloseTo(2, 6);
+				expect(coordinates[4][1]).toBeCloseTo(3, 6);
+
+				expect(onFinish).toHaveBeenCalledWith(id, {
+					mode: "select",
+					action: "dragCoordinate",
+				});
+			});
+
+			it("does not drag a control point if coordinates are not draggable", () => {
+				setSelectMode({
+					flags: {
+						curve: { feature: { coordinates: {} } },
+					},
+				});
+
+				const id = addCurveToStore();
+
+				selectMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+
+				selectMode.onDragStart(MockCursorEvent({ lng: 2, lat: 2 }), jest.fn());
+				selectMode.onDrag(MockCursorEvent({ lng: 2, lat: 3 }), jest.fn());
+
+				expect(
+					store.getPropertiesCopy(id)[CURVE_PROPERTIES.CONTROL_POINTS],
+				).toStrictEqual([
+					[0, 0],
+					[2, 2],
+					[4, 0],
+				]);
+			});
+		});
+
+		describe("drag coordinate with snapping", () => {
+			const dragCorner = (to: Position) => {
+				addPolygonToStore([
+					[0, 0],
+					[0, 1],
+					[1, 1],
+					[1, 0],
+					[0, 0],
+				]);
+
+				selectMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+				selectMode.onDragStart(MockCursorEvent({ lng: 1, lat: 1 }), jest.fn());
+				selectMode.onDrag(
+					MockCursorEvent({ lng: to[0], lat: to[1] }),
+					jest.fn(),
+				);
+
+				// The dragged polygon is the last one added to the store
+				const polygon = store
+					.copyAll()
+					.filter(({ properties }) => properties.mode === "polygon")
+					.pop();
+
+				return (polygon?.geometry as Polygon).coordinates[0][2];
+			};
+
+			it("does not snap when snapping is not enabled", () => {
+				setSelectMode({
+					flags: { polygon: { feature: { coordinates: { draggable: true } } } },
+				});
+
+				addPointToStore([2.1, 2.1]);
+
+				expect(dragCorner([2, 2])).toStrictEqual([2, 2]);
+			});
+
+			it("snaps to coordinates of features from the same mode", () => {
+				setSelectMode({
+					flags: {
+						polygon: {
+							feature: {
+								coordinates: {
+									draggable: true,
+									snappable: { toCoordinate: true },
+								},
+							},
+						},
+					},
+				});
+
+				addPointToStore([2.1, 2.1]);
+				addPolygonToStore([
+					[2.2, 2.2],
+					[2.2, 3],
+					[3, 3],
+					[3, 2.2],
+					[2.2, 2.2],
+				]);
+
+				expect(dragCorner([2, 2])).toStrictEqual([2.2, 2.2]);
+			});
+
+			it("snaps to features from other modes allowed by the target", () => {
+				setSelectMode({
+					flags: {
+						polygon: {
+							feature: {
+								coordinates: {
+									draggable: true,
+									snappable: {
+										toCoordinate: {
+											filter: (feature) => feature.properties.mode === "point",
+										},
+									},
+								},
+							},
+						},
+					},
+				});
+
+				addPointToStore([2.1, 2.1]);
+
+				expect(dragCorner([2, 2])).toStrictEqual([2.1, 2.1]);
+			});
+
+			it("snaps to the lines of features from other modes", () => {
+				setSelectMode({
+					flags: {
+						polygon: {
+							feature: {
+								coordinates: {
+									draggable: true,
+									snappable: { toLine: {} },
+								},
+							},
+						},
+					},
+				});
+
+				addLineStringToStore([
+					[2.2, 0],
+					[2.2, 4],
+				]);
+
+				const [lng, lat] = dragCorner([2, 2]);
+				expect(lng).toBeCloseTo(2.2);
+				expect(lat).toBeCloseTo(2);
+			});
+		});
+
+		describe("drag coordinate with topology", () => {
+			const addNeighbours = () => {
+				addPolygonToStore([
+					[0, 0],
+					[0, 1],
+					[1, 1],
+					[1, 0],
+					[0, 0],
+				]);
+				addPolygonToStore([
+					[1, 0],
+					[1, 1],
+					[2, 1],
+					[2, 0],
+					[1, 0],
+				]);
+				const [id, neighbourId] = store.copyAll().map(({ id }) => id);
+				return { id, neighbourId };
+			};
+
+			const dragSharedCoordinate = ([lng, lat] = [1.5, 1.5]) => {
+				selectMode.onClick(MockCursorEvent({ lng: 0.5, lat: 0.5 }));
+				onChange.mockClear();
+
+				selectMode.onDragStart(MockCursorEvent({ lng: 1, lat: 1 }), jest.fn());
+				selectMode.onDrag(MockCursorEvent({ lng, lat }), jest.fn());
+				selectMode.onDragEnd(MockCursorEvent({ lng, lat }), jest.fn());
+			};
+
+			it("only moves the dragged feature without topology", () => {
+				setSelectMode({
+					flags: { polygon: { feature: { coordinates: { draggable: true } } } },
+				});
+
+				const { neighbourId } = addNeighbours();
+
+				dragSharedCoordinate();
+
+				expect(
+					store.getGeometryCopy<Polygon>(neighbourId as string)
+						.coordinates[0][1],
+				).toStrictEqual([1, 1]);
+			});
+
+			it("moves the shared coordinates of neighbouring features in a single update", () => {
+				setSelectMode({
+					topology: true,
+					flags: { polygon: { feature: { coordinates: { draggable: true } } } },
+				});
+
+				const { id, neighbourId } = addNeighbours();
+
+				dragSharedCoordinate();
+
+				expect(
+					store.getGeometryCopy<Polygon>(neighbourId as string)
+						.coordinates[0][1],
+				).toStrictEqual([1.5, 1.5]);
+
+				expect(onChange).toHaveBeenCalledTimes(1);
+				expect(onChange).toHaveBeenCalledWith(
+					expect.arrayContaining([id, neighbourId]),
+					"update",
+				);
+
+				expect(onFinish).toHaveBeenCalledWith(id, {
+					mode: "select",
+					action: "dragCoordinate",
+				});
+				expect(onFinish).toHaveBeenCalledWith(neighbourId, {
+					mode: "select",
+					action: "dragCoordinate",
+				});
+			});
+
+			it("does not move the coordinates of features whose coordinates are not draggable", () => {
+				setSelectMode({
+					topology: true,
+					flags: {
+						polygon: { feature: { coordinates: { draggable: true } } },
+						linestring: { feature: {} },
+					},
+				});
+
+				addNeighbours();
+				const lineStringId = addLineStringToStore([
+					[1, 1],
+					[1, 2],
+				]);
+
+				dragSharedCoordinate();
+
+				expect(
+					store.getGeometryCopy<LineString>(lineStringId).coordinates[0],
+				).toStrictEqual([1, 1]);
+			});
+
+			it("does not move the coordinates of locked features", () => {
+				setSelectMode({
+					topology: true,
+					flags: { polygon: { feature: { coordinates: { draggable: true } } } },
+				});
+
+				const { id, neighbourId } = addNeighbours();
+				store.updateProperty([
+					{
+						id: neighbourId as string,
+						property: "locked",
+						value: true,
+					},
+				]);
+
+				dragSharedCoordinate();
+
+				expect(
+					store.getGeometryCopy<Polygon>(id as string).coordinates[0][2],
+				).toStrictEqual([1.5, 1.5]);
+				expect(
+					store.getGeometryCopy<Polygon>(neighbourId as string)
+						.coordinates[0][1],
+				).toStrictEqual([1, 1]);
+			});
+
+			it("does not move the coordinates of features which are not editable", () => {
+				setSelectMode({
+					topology: true,
+					isEditable: (feature, action) =>
+						action !== "dragCoordinate" || feature.id !== neighbourId,
+					flags: { polygon: { feature: { coordinates: { draggable: true } } } },
+				});
+
+				const { id, neighbourId } = addNeighbours();
+
+				dragSharedCoordinate();
+
+				expect(
+					store.getGeometryCopy<Polygon>(id as string).coordinates[0][2],
+				).toStrictEqual([1.5, 1.5]);
+				expect(
+					store.getGeometryCopy<Polygon>(neighbourId as string)
+						.coordinates[0][1],
+				).toStrictEqual([1, 1]);
+			});
+
+			it("does not snap to the shared coordinates of neighbouring features", () => {
+				setSelectMode({
+					topology: true,
+					flags: {
+						polygon: {
+							feature: {
+								coordinates: {
+									draggable: true,
+									snappable: { toCoordinate: true },
+								},
+							},
+						},
+					},
+				});
+
+				const { id, neighbourId } = addNeighbours();
+
+				dragSharedCoordinate([1.4, 1.4]);
+
+				expect(
+					store.getGeometryCopy<Polygon>(id as string).coordinates[0][2],
+				).toStrictEqual([1.4, 1.4]);
+				expect(
+					store.getGeometryCopy<Polygon>(neighbourId as string)
+						.coordinates[0][1],
+				).toStrictEqual([1.4, 1.4]);
+			});
+
+			it("snaps to the coordinates of features which are not moved", () => {
+				setSelectMode({
+					topology: true,
+					flags: {
+						polygon: {
+							feature: {
+								coordinates: {
+									draggable: true,
+									snappable: { toCoordinate: true },
+								},
+							},
+						},
+					},
+				});
+
+				const { id, neighbourId } = addNeighbours();
+				addPolygonToStore([
+					[1.5, 1.5],
+					[1.5, 2.5],
+					[2.5, 2.5],
+					[2.5, 1.5],
+					[1.5, 1.5],
+				]);
+
+				dragSharedCoordinate([1.4, 1.4]);
+
+				expect(
+					store.getGeometryCopy<Polygon>(id as string).coordinates[0][2],
+				).toStrictEqual([1.5, 1.5]);
+				expect(
+					store.getGeometryCopy<Polygon>(neighbourId as string)
+						.coordinates[0][1],
+				).toStrictEqual([1.5, 1.5]);
+			});
+		});
+
 		describe("drag reszing with center", () => {
 			it("does trigger drag events if mode is draggable for linestring", () => {
 				setSelectMode({
@@ -1840,33 +2272,794 @@ describe("TerraDrawSelectMode", () => {
 		});
 	});
 
-	describe("onSelect", () => {
-		let selectMode: TerraDrawSelectMode;
+	describe("multiple selection", () => {
+		const square = (x: number, y: number, size: number) => [
+			[x, y],
+			[x + size, y],
+			[x + size, y + size],
+			[x, y + size],
+			[x, y],
+		];
+
+		const addSquareToStore = (
+			x: number,
+			y: number,
+			size: number,
+			properties: JSONObject = {},
+		): FeatureId =>
+			store.create([
+				{
+					geometry: { type: "Polygon", coordinates: [square(x, y, size)] },
+					properties: { mode: "polygon", ...properties },
+				},
+			])[0];
 
-		beforeEach(() => {
-			selectMode = new TerraDrawSelectMode();
-		});
-		it("no op for unregistered onSelect function", () => {
-			selectMode.onSelect("test-id");
+		const MockMultiSelectCursorEvent = (lng: number, lat: number) => ({
+			...MockCursorEvent({ lng, lat }),
+			heldKeys: ["Shift"],
 		});
-	});
 
-	describe("onDeselect", () => {
-		let selectMode: TerraDrawSelectMode;
+		describe("onClick", () => {
+			it("adds features to the selection when the multi select key is held", () => {
+				const first = addSquareToStore(0, 0, 2);
+				const second = addSquareToStore(2, 0, 2);
 
-		beforeEach(() => {
-			selectMode = new TerraDrawSelectMode();
-		});
-		it("no op for unregistered onSelect function", () => {
-			selectMode.onDeselect("id");
-		});
-	});
+				selectMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+				selectMode.onClick(MockMultiSelectCursorEvent(3, 1));
 
-	describe("styling", () => {
-		it("gets", () => {
-			const selectMode = new TerraDrawSelectMode();
-			selectMode.register(MockModeConfig(selectMode.mode));
-			expect(selectMode.styles).toStrictEqual({});
+				expect(onSelect).toHaveBeenCalledTimes(2);
+				expect(onSelect).toHaveBeenNthCalledWith(1, first);
+				expect(onSelect).toHaveBeenNthCalledWith(2, second);
+				expect(onDeselect).not.toHaveBeenCalled();
+				expect(store.getPropertiesCopy(first).selected).toBe(true);
+				expect(store.getPropertiesCopy(second).selected).toBe(true);
+			});
+
+			it("removes a selected feature from the selection when the multi select key is held", () => {
+				const first = addSquareToStore(0, 0, 2);
+				const second = addSquareToStore(2, 0, 2);
+
+				selectMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+				selectMode.onClick(MockMultiSelectCursorEvent(3, 1));
+				selectMode.onClick(MockMultiSelectCursorEvent(1, 1));
+
+				expect(onDeselect).toHaveBeenCalledTimes(1);
+				expect(onDeselect).toHaveBeenCalledWith(first);
+				expect(store.getPropertiesCopy(first).selected).toBe(false);
+				expect(store.getPropertiesCopy(second).selected).toBe(true);
+			});
+
+			it("only creates selection points when a single feature is selected", () => {
+				setSelectMode({
+					flags: {
+						polygon: { feature: { coordinates: { midpoints: true } } },
+					},
+				});
+
+				addSquareToStore(0, 0, 2);
+				addSquareToStore(2, 0, 2);
+
+				selectMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+
+				const selectionPoints = () =>
+					store
+						.copyAll()
+						.filter(
+							({ properties }) =>
+								properties.selectionPoint || properties.midPoint,
+						);
+
+				expect(selectionPoints()).toHaveLength(8);
+
+				selectMode.onClick(MockMultiSelectCursorEvent(3, 1));
+
+				expect(selectionPoints()).toHaveLength(0);
+
+				selectMode.onClick(MockMultiSelectCursorEvent(1, 1));
+
+				expect(selectionPoints()).toHaveLength(8);
+			});
+
+			it("deselects all selected features when the map is clicked", () => {
+				addSquareToStore(0, 0, 2);
+				addSquareToStore(2, 0, 2);
+
+				selectMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+				selectMode.onClick(MockMultiSelectCursorEvent(3, 1));
+				selectMode.onClick(MockCursorEvent({ lng: 10, lat: 10 }));
+
+				expect(onDeselect).toHaveBeenCalledTimes(2);
+			});
+		});
+
+		describe("box select", () => {
+			it("selects the features within the box", () => {
+				const first = addSquareToStore(0, 0, 2);
+				const second = addSquareToStore(2, 0, 2);
+				const outside = addSquareToStore(10, 10, 2);
+
+				const setMapDraggability = jest.fn();
+
+				selectMode.onDragStart(
+					MockMultiSelectCursorEvent(-1, -1),
+					setMapDraggability,
+				);
+				expect(setMapDraggability).toHaveBeenCalledWith(false);
+
+				selectMode.onDrag(MockMultiSelectCursorEvent(5, 3), setMapDraggability);
+
+				const box = store
+					.copyAll()
+					.find(({ properties }) => properties.selectionBox);
+				expect(box?.geometry.coordinates).toStrictEqual([
+					[
+						[-1, -1],
+						[5, -1],
+						[5, 3],
+						[-1, 3],
+						[-1, -1],
+					],
+				]);
+
+				selectMode.onDragEnd(
+					MockMultiSelectCursorEvent(5, 3),
+					setMapDraggability,
+				);
+				expect(setMapDraggability).toHaveBeenLastCalledWith(true);
+
+				expect(onSelect).toHaveBeenCalledTimes(2);
+				expect(onSelect).toHaveBeenCalledWith(first);
+				expect(onSelect).toHaveBeenCalledWith(second);
+				expect(store.getPropertiesCopy(outside).selected).toBeUndefined();
+				expect(
+					store.copyAll().some(({ properties }) => properties.selectionBox),
+				).toBe(false);
+			});
+
+			it("selects the features within a lasso", () => {
+				setSelectMode({
+					flags: { polygon: { feature: {} } },
+					boxSelect: { shape: "lasso", select: "within" },
+				});
+
+				const inside = addSquareToStore(1, 1, 1);
+				addSquareToStore(2, 2, 4);
+
+				selectMode.onDragStart(MockMultiSelectCursorEvent(0, 0), jest.fn());
+				selectMode.onDrag(MockMultiSelectCursorEvent(3, 0), jest.fn());
+				selectMode.onDrag(MockMultiSelectCursorEvent(3, 3), jest.fn());
+				selectMode.onDrag(MockMultiSelectCursorEvent(0, 3), jest.fn());
+				selectMode.onDragEnd(MockMultiSelectCursorEvent(0, 3), jest.fn());
+
+				expect(onSelect).toHaveBeenCalledTimes(1);
+				expect(onSelect).toHaveBeenCalledWith(inside);
+			});
+
+			it("does not select features that are not selectable", () => {
+				store.create([
+					{
+						geometry: { type: "Polygon", coordinates: [square(0, 0, 2)] },
+						properties: { mode: "rectangle" },
+					},
+				]);
+
+				selectMode.onDragStart(MockMultiSelectCursorEvent(-1, -1), jest.fn());
+				selectMode.onDrag(MockMultiSelectCursorEvent(5, 3), jest.fn());
+				selectMode.onDragEnd(MockMultiSelectCursorEvent(5, 3), jest.fn());
+
+				expect(onSelect).not.toHaveBeenCalled();
+			});
+		});
+
+		describe("group drag", () => {
+			it("drags all the selected features together", () => {
+				setSelectMode({
+					flags: { polygon: { feature: { draggable: true } } },
+					projection: "globe",
+				});
+
+				const first = addSquareToStore(0, 0, 2);
+				const second = addSquareToStore(2, 0, 2);
+
+				selectMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+				selectMode.onClick(MockMultiSelectCursorEvent(3, 1));
+
+				const setMapDraggability = jest.fn();
+				selectMode.onDragStart(
+					MockCursorEvent({ lng: 1, lat: 1 }),
+					setMapDraggability,
+				);
+				expect(setMapDraggability).toHaveBeenCalledWith(false);
+
+				selectMode.onDrag(
+					MockCursorEvent({ lng: 2, lat: 2 }),
+					setMapDraggability,
+				);
+				selectMode.onDragEnd(
+					MockCursorEvent({ lng: 2, lat: 2 }),
+					setMapDraggability,
+				);
+
+				expect(store.getGeometryCopy(first).coordinates).toStrictEqual([
+					square(1, 1, 2),
+				]);
+				expect(store.getGeometryCopy(second).coordinates).toStrictEqual([
+					square(3, 1, 2),
+				]);
+
+				expect(onFinish).toHaveBeenCalledTimes(2);
+				expect(onFinish).toHaveBeenCalledWith(first, {
+					mode: "select",
+					action: "dragFeature",
+				});
+				expect(onFinish).toHaveBeenCalledWith(second, {
+					mode: "select",
+					action: "dragFeature",
+				});
+			});
+
+			it("does not drag the features if one of them is invalid", () => {
+				setSelectMode({
+					flags: {
+						polygon: { feature: { draggable: true } },
+						rectangle: {
+							feature: {
+								draggable: true,
+								validation: () => ({ valid: false }),
+							},
+						},
+					},
+					projection: "globe",
+				});
+
+				const first = addSquareToStore(0, 0, 2);
+				const second = addSquareToStore(2, 0, 2, { mode: "rectangle" });
+
+				selectMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+				selectMode.onClick(MockMultiSelectCursorEvent(3, 1));
+
+				selectMode.onDragStart(MockCursorEvent({ lng: 1, lat: 1 }), jest.fn());
+				selectMode.onDrag(MockCursorEvent({ lng: 2, lat: 2 }), jest.fn());
+
+				expect(store.getGeometryCopy(first).coordinates).toStrictEqual([
+					square(0, 0, 2),
+				]);
+				expect(store.getGeometryCopy(second).coordinates).toStrictEqual([
+					square(2, 0, 2),
+				]);
+			});
+
+			it("does not drag the features if any of them are not draggable", () => {
+				setSelectMode({
+					flags: {
+						polygon: { feature: { draggable: true } },
+						rectangle: { feature: {} },
+					},
+				});
+
+				addSquareToStore(0, 0, 2);
+				addSquareToStore(2, 0, 2, { mode: "rectangle" });
+
+				selectMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+				selectMode.onClick(MockMultiSelectCursorEvent(3, 1));
+
+				const setMapDraggability = jest.fn();
+				selectMode.onDragStart(
+					MockCursorEvent({ lng: 1, lat: 1 }),
+					setMapDraggability,
+				);
+
+				expect(setMapDraggability).not.toHaveBeenCalled();
+			});
+		});
+
+		describe("onKeyUp", () => {
+			it("deletes all the selected features", () => {
+				const first = addSquareToStore(0, 0, 2);
+				const second = addSquareToStore(2, 0, 2);
+
+				selectMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+				selectMode.onClick(MockMultiSelectCursorEvent(3, 1));
+				selectMode.onKeyUp(MockKeyboardEvent({ key: "Delete" }));
+
+				expect(onDeselect).toHaveBeenCalledTimes(2);
+				expect(onDeselect).toHaveBeenCalledWith(first);
+				expect(onDeselect).toHaveBeenCalledWith(second);
+				expect(store.copyAll()).toHaveLength(0);
+			});
+		});
+
+		describe("deselectFeature", () => {
+			it("deselects only the given feature", () => {
+				const first = addSquareToStore(0, 0, 2);
+				const second = addSquareToStore(2, 0, 2);
+
+				selectMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+				selectMode.onClick(MockMultiSelectCursorEvent(3, 1));
+				selectMode.deselectFeature(second);
+
+				expect(onDeselect).toHaveBeenCalledTimes(1);
+				expect(onDeselect).toHaveBeenCalledWith(second);
+				expect(store.getPropertiesCopy(first).selected).toBe(true);
+			});
+		});
+
+		describe("mergeSelectedFeatures", () => {
+			it("does nothing with less than two features selected", () => {
+				addSquareToStore(0, 0, 2);
+
+				selectMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+
+				expect(selectMode.mergeSelectedFeatures()).toBeUndefined();
+				expect(store.copyAll()).toHaveLength(1);
+			});
+
+			it("does not merge features that isEditable prevents merging", () => {
+				setSelectMode({
+					flags: { polygon: { feature: {} } },
+					isEditable: (_, action) => action !== "merge",
+				});
+
+				const first = addSquareToStore(0, 0, 2);
+				const second = addSquareToStore(2, 0, 2);
+
+				selectMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+				selectMode.onClick(MockMultiSelectCursorEvent(3, 1));
+
+				expect(selectMode.mergeSelectedFeatures()).toBeUndefined();
+				expect(store.has(first)).toBe(true);
+				expect(store.has(second)).toBe(true);
+			});
+
+			it("merges adjacent polygons", () => {
+				const first = addSquareToStore(0, 0, 2, { name: "a" });
+				const second = addSquareToStore(2, 0, 2, { name: "a" });
+
+				selectMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+				selectMode.onClick(MockMultiSelectCursorEvent(3, 1));
+
+				const mergedId = selectMode.mergeSelectedFeatures();
+
+				expect(mergedId).toBeDefined();
+				expect(store.has(first)).toBe(false);
+				expect(store.has(second)).toBe(false);
+
+				const merged = store.copyAll();
+				expect(merged).toHaveLength(1);
+				expect(merged[0].id).toBe(mergedId);
+				expect(merged[0].geometry.type).toBe("Polygon");
+				expect(merged[0].properties).toMatchObject({
+					mode: "polygon",
+					name: "a",
+					selected: true,
+				});
+
+				expect(onFinish).toHaveBeenCalledWith(mergedId, {
+					mode: "select",
+					action: "merge",
+				});
+				expect(onChange).toHaveBeenCalledWith([mergedId], "create", {
+					action: "merge",
+					originIds: [first, second],
+				});
+				expect(onChange).toHaveBeenCalledWith([first, second], "delete", {
+					action: "merge",
+					replacementIds: [mergedId],
+				});
+			});
+
+			it("merges connected linestrings", () => {
+				const first = addLineStringToStore([
+					[0, 0],
+					[2, 0],
+				]);
+				const second = addLineStringToStore([
+					[4, 0],
+					[2, 0],
+				]);
+
+				selectMode.selectFeature(first);
+				selectMode.onClick(MockMultiSelectCursorEvent(4, 0));
+
+				const mergedId = selectMode.mergeSelectedFeatures();
+
+				expect(mergedId).toBeDefined();
+				expect(store.has(second)).toBe(false);
+				expect(store.getGeometryCopy(mergedId!).coordinates).toStrictEqual([
+					[0, 0],
+					[2, 0],
+					[4, 0],
+				]);
+			});
+
+			it("does not merge polygons that do not touch", () => {
+				addSquareToStore(0, 0, 2);
+				addSquareToStore(5, 0, 2);
+
+				selectMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+				selectMode.onClick(MockMultiSelectCursorEvent(6, 1));
+
+				expect(selectMode.mergeSelectedFeatures()).toBeUndefined();
+				expect(store.copyAll()).toHaveLength(2);
+				expect(onFinish).not.toHaveBeenCalled();
+			});
+
+			it("does not merge polygons with linestrings", () => {
+				addSquareToStore(0, 0, 2);
+				addLineStringToStore([
+					[2, 0],
+					[4, 0],
+				]);
+
+				selectMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+				selectMode.onClick(MockMultiSelectCursorEvent(4, 0));
+
+				expect(selectMode.mergeSelectedFeatures()).toBeUndefined();
+			});
+
+			it("resolves conflicting properties with resolveMergeConflict", () => {
+				const resolveMergeConflict = jest.fn(
+					(_: string, values: JSONObject[string][]) =>
+						(values as number[]).reduce((total, value) => total + value, 0),
+				);
+
+				setSelectMode({
+					flags: { polygon: { feature: {} } },
+					resolveMergeConflict,
+				});
+
+				addSquareToStore(0, 0, 2, { area: 4, name: "a" });
+				addSquareToStore(2, 0, 2, { area: 4, owner: "b" });
+				addSquareToStore(4, 0, 2, { area: 8 });
+
+				selectMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+				selectMode.onClick(MockMultiSelectCursorEvent(3, 1));
+				selectMode.onClick(MockMultiSelectCursorEvent(5, 1));
+
+				const mergedId = selectMode.mergeSelectedFeatures();
+
+				expect(resolveMergeConflict).toHaveBeenCalledTimes(1);
+				expect(resolveMergeConflict).toHaveBeenCalledWith("area", [4, 8]);
+				expect(store.getPropertiesCopy(mergedId!)).toMatchObject({
+					area: 12,
+					name: "a",
+					owner: "b",
+				});
+			});
+
+			it("does not merge if the merged feature fails validation", () => {
+				setSelectMode({
+					flags: {
+						polygon: { feature: { validation: () => ({ valid: false }) } },
+					},
+				});
+
+				addSquareToStore(0, 0, 2);
+				addSquareToStore(2, 0, 2);
+
+				selectMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+				selectMode.onClick(MockMultiSelectCursorEvent(3, 1));
+
+				expect(selectMode.mergeSelectedFeatures()).toBeUndefined();
+				expect(store.copyAll()).toHaveLength(2);
+			});
+
+			it("does not merge if the merged feature is not valid for its mode", () => {
+				const config = setSelectMode({ flags: { polygon: { feature: {} } } });
+				config.validateFeatureForMode.mockReturnValue({ valid: false });
+
+				const first = addSquareToStore(0, 0, 2, { radiusKilometers: 1 });
+				addSquareToStore(2, 0, 2);
+
+				selectMode.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+				selectMode.onClick(MockMultiSelectCursorEvent(3, 1));
+
+				expect(selectMode.mergeSelectedFeatures()).toBeUndefined();
+				expect(config.validateFeatureForMode).toHaveBeenCalledWith(
+					expect.objectContaining({
+						id: first,
+						geometry: expect.objectContaining({ type: "Polygon" }),
+						properties: expect.objectContaining({
+							mode: "polygon",
+							radiusKilometers: 1,
+						}),
+					}),
+				);
+				expect(store.copyAll()).toHaveLength(2);
+				expect(onFinish).not.toHaveBeenCalled();
+			});
+		});
+	});
+
+	describe("gestures", () => {
+		const square = [
+			[0, 0],
+			[0, 1],
+			[1, 1],
+			[1, 0],
+			[0, 0],
+		];
+
+		const getPolygonCoordinates = () =>
+			store.copyAll().find(({ properties }) => properties.mode === "polygon")!
+				.geometry.coordinates as Position[][];
+
+		it("scales and rotates the selected feature", () => {
+			setSelectMode({
+				flags: {
+					polygon: { feature: { rotateable: true, scaleable: true } },
+				},
+			});
+			addPolygonToStore(square);
+			selectMode.onClick(MockCursorEvent({ lng: 0.5, lat: 0.5 }));
+
+			const setMapDraggability = jest.fn();
+			selectMode.onGestureStart(
+				MockGestureEvent({ lng: 0.5, lat: 0.5, scale: 2 }),
+				setMapDraggability,
+			);
+
+			expect(setMapDraggability).toHaveBeenCalledWith(false);
+
+			const [scaled] = getPolygonCoordinates();
+			const lngs = scaled.map(([lng]) => lng);
+			expect(Math.max(...lngs) - Math.min(...lngs)).toBeCloseTo(2, 4);
+
+			selectMode.onGesture(
+				MockGestureEvent({ lng: 0.5, lat: 0.5, rotation: 45 }),
+			);
+
+			const [rotated] = getPolygonCoordinates();
+			expect(rotated).not.toEqual(scaled);
+
+			selectMode.onGestureEnd(
+				MockGestureEvent({ lng: 0.5, lat: 0.5 }),
+				setMapDraggability,
+			);
+
+			expect(setMapDraggability).toHaveBeenLastCalledWith(true);
+			expect(onFinish).toHaveBeenCalledWith(expect.any(String), {
+				mode: "select",
+				action: "gesture",
+			});
+		});
+
+		it("only scales the selected feature if it is not rotateable", () => {
+			setSelectMode({
+				flags: { polygon: { feature: { scaleable: true } } },
+			});
+			addPolygonToStore(square);
+			selectMode.onClick(MockCursorEvent({ lng: 0.5, lat: 0.5 }));
+
+			selectMode.onGestureStart(
+				MockGestureEvent({ lng: 0.5, lat: 0.5, rotation: 45 }),
+				jest.fn(),
+			);
+
+			expect(getPolygonCoordinates()).toEqual([square]);
+		});
+
+		it("leaves the gesture to the map if nothing is selected", () => {
+			setSelectMode({
+				flags: {
+					polygon: { feature: { rotateable: true, scaleable: true } },
+				},
+			});
+			addPolygonToStore(square);
+
+			const setMapDraggability = jest.fn();
+			selectMode.onGestureStart(
+				MockGestureEvent({ lng: 0.5, lat: 0.5, scale: 2 }),
+				setMapDraggability,
+			);
+			selectMode.onGestureEnd(
+				MockGestureEvent({ lng: 0.5, lat: 0.5 }),
+				setMapDraggability,
+			);
+
+			expect(setMapDraggability).not.toHaveBeenCalled();
+			expect(getPolygonCoordinates()).toEqual([square]);
+			expect(onFinish).not.toHaveBeenCalled();
+		});
+
+		it("leaves the gesture to the map if the feature can not be scaled or rotated", () => {
+			setSelectMode({
+				flags: { polygon: { feature: { draggable: true } } },
+			});
+			addPolygonToStore(square);
+			selectMode.onClick(MockCursorEvent({ lng: 0.5, lat: 0.5 }));
+
+			const setMapDraggability = jest.fn();
+			selectMode.onGestureStart(
+				MockGestureEvent({ lng: 0.5, lat: 0.5, scale: 2 }),
+				setMapDraggability,
+			);
+
+			expect(setMapDraggability).not.toHaveBeenCalled();
+			expect(getPolygonCoordinates()).toEqual([square]);
+		});
+
+		it("does not scale or rotate locked features", () => {
+			setSelectMode({
+				flags: {
+					polygon: { feature: { rotateable: true, scaleable: true } },
+				},
+			});
+			store.create([
+				{
+					geometry: { type: "Polygon", coordinates: [square] },
+					properties: { mode: "polygon", locked: true },
+				},
+			]);
+			selectMode.onClick(MockCursorEvent({ lng: 0.5, lat: 0.5 }));
+
+			selectMode.onGestureStart(
+				MockGestureEvent({ lng: 0.5, lat: 0.5, scale: 2, rotation: 45 }),
+				jest.fn(),
+			);
+
+			expect(getPolygonCoordinates()).toEqual([square]);
+		});
+	});
+
+	describe("locking", () => {
+		it("does not drag features with the locked property", () => {
+			setSelectMode({
+				flags: { point: { feature: { draggable: true } } },
+			});
+
+			store.create([
+				{
+					geometry: { type: "Point", coordinates: [0, 0] },
+					properties: { mode: "point", locked: true },
+				},
+			]);
+
+			selectMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			expect(onSelect).toHaveBeenCalledTimes(1);
+
+			const setMapDraggability = jest.fn();
+			selectMode.onDragStart(
+				MockCursorEvent({ lng: 0, lat: 0 }),
+				setMapDraggability,
+			);
+			selectMode.onDrag(MockCursorEvent({ lng: 1, lat: 1 }), jest.fn());
+
+			expect(setMapDraggability).not.toHaveBeenCalled();
+			expect(onChange).toHaveBeenCalledTimes(2);
+		});
+
+		it("does not delete features with the locked property", () => {
+			store.create([
+				{
+					geometry: { type: "Point", coordinates: [0, 0] },
+					properties: { mode: "point", locked: true },
+				},
+			]);
+
+			selectMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			selectMode.onKeyUp(MockKeyboardEvent({ key: "Delete" }));
+
+			expect(store.copyAll()).toHaveLength(1);
+			expect(onDeselect).not.toHaveBeenCalled();
+		});
+
+		it("uses isEditable to prevent individual actions", () => {
+			const isEditable = jest.fn(
+				(_, action) =>
+					action !== "dragCoordinate" && action !== "insertMidpoint",
+			);
+
+			setSelectMode({
+				flags: {
+					linestring: {
+						feature: {
+							draggable: true,
+							coordinates: { draggable: true, midpoints: true },
+						},
+					},
+				},
+				isEditable,
+			});
+
+			const id = addLineStringToStore([
+				[0, 0],
+				[1, 1],
+			]);
+
+			selectMode.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+
+			// The selection points are created but not the midpoints
+			expect(onChange).toHaveBeenCalledTimes(3);
+			expect(isEditable).toHaveBeenCalledWith(
+				expect.objectContaining({ id }),
+				"insertMidpoint",
+			);
+
+			// Dragging the coordinate falls back to dragging the whole feature
+			selectMode.onDragStart(MockCursorEvent({ lng: 1, lat: 1 }), jest.fn());
+			selectMode.onDrag(MockCursorEvent({ lng: 2, lat: 2 }), jest.fn());
+
+			expect(isEditable).toHaveBeenCalledWith(
+				expect.objectContaining({ id }),
+				"dragCoordinate",
+			);
+			expect(isEditable).toHaveBeenCalledWith(
+				expect.objectContaining({ id }),
+				"dragFeature",
+			);
+			// Both of the coordinates are moved
+			const [start, end] = store.getGeometryCopy<LineString>(id).coordinates;
+			expect(start).not.toStrictEqual([0, 0]);
+			expect(end).not.toStrictEqual([1, 1]);
+		});
+
+		it("styles selected features which are locked", () => {
+			const selectMode = new TerraDrawSelectMode({
+				styles: {
+					selectedPolygonColor: "#222222",
+					selectedPolygonOutlineColor: "#111111",
+					lockedPolygonColor: "#333333",
+				},
+			});
+
+			expect(
+				selectMode.styleFeature({
+					type: "Feature",
+					geometry: { type: "Polygon", coordinates: [] },
+					properties: { mode: "polygon", selected: true, locked: true },
+				}),
+			).toMatchObject({
+				polygonFillColor: "#333333",
+				polygonOutlineColor: "#111111",
+			});
+		});
+
+		it("styles selected features that isEditable prevents all actions on as locked", () => {
+			const selectMode = new TerraDrawSelectMode({
+				styles: { lockedLineStringColor: "#333333" },
+				isEditable: (feature) => feature.properties.owner === "me",
+			});
+
+			const style = (owner: string) =>
+				selectMode.styleFeature({
+					type: "Feature",
+					geometry: { type: "LineString", coordinates: [] },
+					properties: { mode: "linestring", selected: true, owner },
+				}).lineStringColor;
+
+			expect(style("someone else")).toBe("#333333");
+			expect(style("me")).not.toBe("#333333");
+		});
+	});
+
+	describe("onSelect", () => {
+		let selectMode: TerraDrawSelectMode;
+
+		beforeEach(() => {
+			selectMode = new TerraDrawSelectMode();
+		});
+		it("no op for unregistered onSelect function", () => {
+			selectMode.onSelect("test-id");
+		});
+	});
+
+	describe("onDeselect", () => {
+		let selectMode: TerraDrawSelectMode;
+
+		beforeEach(() => {
+			selectMode = new TerraDrawSelectMode();
+		});
+		it("no op for unregistered onSelect function", () => {
+			selectMode.onDeselect("id");
+		});
+	});
+
+	describe("styling", () => {
+		it("gets", () => {
+			const selectMode = new TerraDrawSelectMode();
+			selectMode.register(MockModeConfig(selectMode.mode));
+			expect(selectMode.styles).toStrictEqual({});
 		});
 
 		it("set fails if non valid styling", () => {
@@ -1931,6 +3124,30 @@ describe("TerraDrawSelectMode", () => {
 			});
 		});
 
+		it("returns the correct styles for the selection box", () => {
+			const selectMode = new TerraDrawSelectMode({
+				styles: {
+					selectionBoxColor: "#222222",
+					selectionBoxFillOpacity: 0.5,
+					selectionBoxOutlineColor: "#111111",
+					selectionBoxOutlineWidth: 3,
+				},
+			});
+
+			expect(
+				selectMode.styleFeature({
+					type: "Feature",
+					geometry: { type: "Polygon", coordinates: [] },
+					properties: { mode: "select", selectionBox: true },
+				}),
+			).toMatchObject({
+				polygonFillColor: "#222222",
+				polygonFillOpacity: 0.5,
+				polygonOutlineColor: "#111111",
+				polygonOutlineWidth: 3,
+			});
+		});
+
 		it("returns the correct styles for polygon from polygon mode when using a function", () => {
 			const polygonMode = new TerraDrawSelectMode({
 				styles: {
@@ -1967,4 +3184,36 @@ describe("TerraDrawSelectMode", () => {
 			});
 		});
 	});
+
+	describe("styleHoveredFeature", () => {
+		it("applies the hovered styles over the styles of the feature", () => {
+			const selectMode = new TerraDrawSelectMode({
+				styles: {
+					hoveredPolygonColor: "#222222",
+					hoveredLineStringColor: "#333333",
+				},
+			});
+
+			const styles: TerraDrawAdapterStyling = {
+				...getDefaultStyling(),
+				polygonFillColor: "#ffffff",
+				polygonOutlineColor: "#111111",
+			};
+
+			expect(
+				selectMode.styleHoveredFeature(
+					{
+						type: "Feature",
+						geometry: { type: "Polygon", coordinates: [] },
+						properties: { mode: "polygon", hovered: true },
+					},
+					styles,
+				),
+			).toMatchObject({
+				polygonFillColor: "#222222",
+				polygonOutlineColor: "#111111",
+				lineStringColor: styles.lineStringColor,
+			});
+		});
+	});
 });
@@ -1,6 +1,7 @@
 import {
 	TerraDrawMouseEvent,
 	TerraDrawKeyboardEvent,
+	TerraDrawGestureEvent,
 	SELECT_PROPERTIES,
 	TerraDrawAdapterStyling,
 	HexColorStyling,
@@ -8,8 +9,11 @@ import {
 	Cursor,
 	Validation,
 	UpdateTypes,
+	SnappingTarget,
+	CURVE_PROPERTIES,
+	REGULAR_POLYGON_PROPERTIES,
 } from "../../common";
-import { Point, Position } from "geojson";
+import { LineString, Point, Polygon, Position } from "geojson";
 import {
 	BaseModeOptions,
 	CustomStyling,
@@ -21,22 +25,39 @@ import { FeatureAtPointerEventBehavior } from "./behaviors/feature-at-pointer-ev
 import { PixelDistanceBehavior } from "../pixel-distance.behavior";
 import { ClickBoundingBoxBehavior } from "../click-bounding-box.behavior";
 import { DragFeatureBehavior } from "./behaviors/drag-feature.behavior";
-import { DragCoordinateBehavior } from "./behaviors/drag-coordinate.behavior";
+import {
+	DragCoordinateBehavior,
+	TopologyOptions,
+} from "./behaviors/drag-coordinate.behavior";
 import { BehaviorConfig } from "../base.behavior";
 import { RotateFeatureBehavior } from "./behaviors/rotate-feature.behavior";
 import { ScaleFeatureBehavior } from "./behaviors/scale-feature.behavior";
-import { FeatureId, GeoJSONStoreFeatures } from "../../store/store";
+import { FeatureId, GeoJSONStoreFeatures, JSONObject } from "../../store/store";
+import { getRingCoordinateIndex } from "../../geometry/get-ring-coordinate-index";
 import { getDefaultStyling } from "../../util/styling";
 import {
 	DragCoordinateResizeBehavior,
 	ResizeOptions,
 } from "./behaviors/drag-coordinate-resize.behavior";
+import {
+	BoxSelectBehavior,
+	BoxSelectOptions,
+} from "./behaviors/box-select.behavior";
+import { mergeLineStrings, mergePolygons } from "../../geometry/merge-geometry";
+import { limitPrecision } from "../../geometry/limit-decimal-precision";
+import { LineSnappingBehavior } from "../line-snapping.behavior";
+import { CoordinateSnappingBehavior } from "../coordinate-snapping.behavior";
+import {
+	DragControlPointBehavior,
+	getCurveControlPoints,
+} from "./behaviors/drag-control-point.behavior";
 
 type TerraDrawSelectModeKeyEvents = {
 	deselect: KeyboardEvent["key"] | null;
 	delete: KeyboardEvent["key"] | null;
 	rotate: KeyboardEvent["key"][] | null;
 	scale: KeyboardEvent["key"][] | null;
+	multiSelect: KeyboardEvent["key"] | null;
 };
 
 type ModeFlags = {
@@ -51,10 +72,48 @@ type ModeFlags = {
 			draggable?: boolean;
 			resizable?: ResizeOptions;
 			deletable?: boolean;
+			// true snaps to features of the same mode as the dragged feature,
+			// or a target can snap to features of other modes
+			snappable?: {
+				toLine?: boolean | SnappingTarget;
+				toCoordinate?: boolean | SnappingTarget;
+			};
 		};
 	};
 };
 
+// The ways a feature can be edited, which can be prevented per feature.
+// Features are split with the split mode and continued with the linestring
+// mode rather than the select mode
+export type EditAction =
+	| "dragFeature"
+	| "dragCoordinate"
+	| "rotate"
+	| "scale"
+	| "insertMidpoint"
+	| "deleteCoordinate"
+	| "delete"
+	| "merge"
+	| "split"
+	| "continue";
+
+export type IsEditable = (
+	feature: GeoJSONStoreFeatures,
+	action: EditAction,
+) => boolean;
+
+// The actions the select mode can prevent
+const EDIT_ACTIONS: EditAction[] = [
+	"dragFeature",
+	"dragCoordinate",
+	"rotate",
+	"scale",
+	"insertMidpoint",
+	"deleteCoordinate",
+	"delete",
+	"merge",
+];
+
 type SelectionStyling = {
 	// Point
 	selectedPointColor: HexColorStyling;
@@ -72,6 +131,19 @@ type SelectionStyling = {
 	selectedPolygonOutlineColor: HexColorStyling;
 	selectedPolygonOutlineWidth: NumericStyling;
 
+	// Locked features (selected features that can not be edited in any way),
+	// which fall back to the selected styling if they are not set
+	lockedPointColor: HexColorStyling;
+	lockedPointWidth: NumericStyling;
+	lockedPointOutlineColor: HexColorStyling;
+	lockedPointOutlineWidth: NumericStyling;
+	lockedLineStringColor: HexColorStyling;
+	lockedLineStringWidth: NumericStyling;
+	lockedPolygonColor: HexColorStyling;
+	lockedPolygonFillOpacity: NumericStyling;
+	lockedPolygonOutlineColor: HexColorStyling;
+	lockedPolygonOutlineWidth: NumericStyling;
+
 	// Selection Points (points at vertices of a polygon/linestring feature)
 	selectionPointWidth: NumericStyling;
 	selectionPointColor: HexColorStyling;
@@ -83,8 +155,40 @@ type SelectionStyling = {
 	midPointOutlineColor: HexColorStyling;
 	midPointWidth: NumericStyling;
 	midPointOutlineWidth: NumericStyling;
+
+	// Selection box (the box drawn when selecting multiple features by dragging)
+	selectionBoxColor: HexColorStyling;
+	selectionBoxFillOpacity: NumericStyling;
+	selectionBoxOutlineColor: HexColorStyling;
+	selectionBoxOutlineWidth: NumericStyling;
+
+	// Hovered features (features under the pointer which are not selected),
+	// which otherwise keep the styling of the mode they belong to
+	hoveredPointColor: HexColorStyling;
+	hoveredPointOutlineColor: HexColorStyling;
+	hoveredLineStringColor: HexColorStyling;
+	hoveredPolygonColor: HexColorStyling;
+	hoveredPolygonFillOpacity: NumericStyling;
+	hoveredPolygonOutlineColor: HexColorStyling;
 };
 
+type MergeConflictResolver = (
+	property: string,
+	values: JSONObject[string][],
+) => JSONObject[string];
+
+// Properties that are not merged from the original features
+const UNMERGED_PROPERTIES = [
+	"mode",
+	"createdAt",
+	"updatedAt",
+	SELECT_PROPERTIES.SELECTED,
+	// The merged geometry no longer follows the control points of a curve
+	...Object.values(CURVE_PROPERTIES),
+	// The merged geometry is no longer a regular polygon
+	...Object.values(REGULAR_POLYGON_PROPERTIES),
+] as string[];
+
 interface Cursors {
 	pointerOver?: Cursor;
 	dragStart?: Cursor;
@@ -96,10 +200,14 @@ interface TerraDrawSelectModeOptions<T extends CustomStyling>
 	extends BaseModeOptions<T> {
 	pointerDistance?: number;
 	flags?: { [mode: string]: ModeFlags };
-	keyEvents?: TerraDrawSelectModeKeyEvents | null;
+	keyEvents?: Partial<TerraDrawSelectModeKeyEvents> | null;
 	dragEventThrottle?: number;
 	cursors?: Cursors;
 	allowManualDeselection?: boolean;
+	resolveMergeConflict?: MergeConflictResolver;
+	boxSelect?: Partial<BoxSelectOptions>;
+	topology?: boolean;
+	isEditable?: IsEditable;
 }
 
 export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStyling> {
@@ -109,6 +217,7 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 	private dragEventThrottle = 5;
 	private dragEventCount = 0;
 	private selected: FeatureId[] = [];
+	private gesturing = false;
 
 	private flags: { [mode: string]: ModeFlags };
 	private keyEvents: TerraDrawSelectModeKeyEvents;
@@ -124,8 +233,16 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 	private rotateFeature!: RotateFeatureBehavior;
 	private scaleFeature!: ScaleFeatureBehavior;
 	private dragCoordinateResizeFeature!: DragCoordinateResizeBehavior;
+	private dragControlPoint!: DragControlPointBehavior;
+	private boxSelect!: BoxSelectBehavior;
+	private lineSnapping!: LineSnappingBehavior;
+	private coordinateSnapping!: CoordinateSnappingBehavior;
 	private cursors: Required<Cursors>;
 	private validations: Record<string, Validation> = {};
+	private resolveMergeConflict: MergeConflictResolver | undefined;
+	private boxSelectOptions: BoxSelectOptions;
+	private topology = false;
+	private isEditable: IsEditable | undefined;
 
 	constructor(options?: TerraDrawSelectModeOptions<SelectionStyling>) {
 		super(options);
@@ -153,6 +270,7 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 				delete: null,
 				rotate: null,
 				scale: null,
+				multiSelect: null,
 			};
 		} else {
 			const defaultKeyEvents = {
@@ -160,6 +278,7 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 				delete: "Delete",
 				rotate: ["Control", "r"],
 				scale: ["Control", "s"],
+				multiSelect: "Shift",
 			};
 			this.keyEvents =
 				options && options.keyEvents
@@ -175,6 +294,18 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 
 		this.allowManualDeselection = options?.allowManualDeselection ?? true;
 
+		this.resolveMergeConflict = options?.resolveMergeConflict;
+
+		this.boxSelectOptions = {
+			shape: "rectangle",
+			select: "intersecting",
+			...options?.boxSelect,
+		};
+
+		this.topology = options?.topology ?? false;
+
+		this.isEditable = options?.isEditable;
+
 		// Validations
 		if (options && options.flags && options.flags) {
 			for (const mode in options.flags) {
@@ -240,10 +371,192 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 			this.selectionPoints,
 			this.midPoints,
 		);
+		this.dragControlPoint = new DragControlPointBehavior(
+			config,
+			this.pixelDistance,
+			this.selectionPoints,
+		);
+		this.boxSelect = new BoxSelectBehavior(config, this.boxSelectOptions);
+		this.lineSnapping = new LineSnappingBehavior(
+			config,
+			this.pixelDistance,
+			this.clickBoundingBox,
+		);
+		this.coordinateSnapping = new CoordinateSnappingBehavior(
+			config,
+			this.pixelDistance,
+			this.clickBoundingBox,
+		);
 	}
 
-	public deselectFeature() {
+	public deselectFeature(featureId?: FeatureId) {
+		if (featureId !== undefined && this.selected.length > 1) {
+			this.deselectOne(featureId);
+		} else {
+			this.deselect();
+		}
+	}
+
+	/**
+	 * Recreates the selection points and midpoints of a feature whose geometry has
+	 * been changed outside of the mode, if it is the only selected feature
+	 * @param featureId - the id of the feature that has been updated
+	 */
+	public refreshSelectedFeature(featureId: FeatureId) {
+		if (this.selected.length !== 1 || this.selected[0] !== featureId) {
+			return;
+		}
+
+		this.selectionPoints.delete();
+		this.midPoints.delete();
+		this.createSelectionPoints(featureId);
+	}
+
+	/**
+	 * Merges the selected features into a single feature, which is then selected. Polygons
+	 * are merged if they overlap or are adjacent, and linestrings if they connect end to end.
+	 * Properties that differ between the features are resolved with the resolveMergeConflict
+	 * option, or otherwise taken from the first selected feature.
+	 * @returns the id of the merged feature, or undefined if the selected features could not be merged
+	 */
+	public mergeSelectedFeatures(): FeatureId | undefined {
+		if (this.selected.length < 2) {
+			return undefined;
+		}
+
+		// Merging deletes the original features, so they all need to be editable
+		if (!this.selected.every((id) => this.canEdit(id, "merge"))) {
+			return undefined;
+		}
+
+		const selectedIds = [...this.selected];
+		const geometries = selectedIds.map((id) => this.store.getGeometryCopy(id));
+
+		let geometry: Polygon | LineString | undefined;
+
+		if (geometries.every(({ type }) => type === "Polygon")) {
+			const rings = mergePolygons(
+				(geometries as Polygon[]).map(({ coordinates }) => coordinates),
+			);
+			geometry = rings && {
+				type: "Polygon",
+				coordinates: rings.map((ring) =>
+					ring.map((c) => this.limitPrecision(c)),
+				),
+			};
+		} else if (geometries.every(({ type }) => type === "LineString")) {
+			const coordinates = mergeLineStrings(
+				(geometries as LineString[]).map(({ coordinates }) => coordinates),
+			);
+			geometry = coordinates && {
+				type: "LineString",
+				coordinates: coordinates.map((c) => this.limitPrecision(c)),
+			};
+		}
+
+		if (!geometry) {
+			return undefined;
+		}
+
+		const properties = this.mergeProperties(
+			selectedIds.map((id) => this.store.getPropertiesCopy(id)),
+		);
+
+		if (!this.isValidMerge(selectedIds[0], geometry, properties)) {
+			return undefined;
+		}
+
 		this.deselect();
+
+		const [mergedId] = this.store.create([{ geometry, properties }], {
+			action: "merge",
+			originIds: selectedIds,
+		});
+
+		this.store.delete(selectedIds, {
+			action: "merge",
+			replacementIds: [mergedId],
+		});
+
+		this.select(mergedId, false);
+
+		this.onFinish(mergedId, { mode: this.mode, action: "merge" });
+
+		return mergedId;
+	}
+
+	private limitPrecision(coordinate: Position) {
+		return [
+			limitPrecision(coordinate[0], this.coordinatePrecision),
+			limitPrecision(coordinate[1], this.coordinatePrecision),
+		];
+	}
+
+	private mergeProperties(propertiesList: JSONObject[]) {
+		// The merged feature belongs to the same mode as the first selected feature
+		const merged: JSONObject = { mode: propertiesList[0].mode };
+
+		const keys = propertiesList
+			.reduce<string[]>(
+				(all, properties) => all.concat(Object.keys(properties)),
+				[],
+			)
+			.filter(
+				(key, i, all) =>
+					all.indexOf(key) === i && !UNMERGED_PROPERTIES.includes(key),
+			);
+
+		keys.forEach((key) => {
+			const values = propertiesList
+				.filter((properties) => key in properties)
+				.map((properties) => properties[key]);
+
+			const distinctValues = values.filter(
+				(value, i) =>
+					values.findIndex(
+						(other) => JSON.stringify(other) === JSON.stringify(value),
+					) === i,
+			);
+
+			merged[key] =
+				distinctValues.length > 1 && this.resolveMergeConflict
+					? this.resolveMergeConflict(key, distinctValues)
+					: values[0];
+		});
+
+		return merged;
+	}
+
+	private isValidMerge(
+		id: FeatureId,
+		geometry: Polygon | LineString,
+		properties: JSONObject,
+	) {
+		const feature = {
+			id,
+			type: "Feature",
+			geometry,
+			properties,
+		} as GeoJSONStoreFeatures;
+
+		// The merged feature has to be a valid feature of the mode it belongs to,
+		// i.e. merged polygons with holes are not valid features of most modes
+		if (!this.validateFeatureForMode(feature).valid) {
+			return false;
+		}
+
+		const modeValidation = this.validations[properties.mode as string];
+
+		if (modeValidation) {
+			return modeValidation(feature, {
+				project: this.project,
+				unproject: this.unproject,
+				coordinatePrecision: this.coordinatePrecision,
+				updateType: UpdateTypes.Commit,
+			}).valid;
+		}
+
+		return true;
 	}
 
 	private deselect() {
@@ -257,10 +570,39 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 
 		this.store.updateProperty(updateSelectedFeatures);
 
-		this.onDeselect(this.selected[0]);
+		const deselected = this.selected;
 		this.selected = [];
 		this.selectionPoints.delete();
 		this.midPoints.delete();
+
+		// A drag that is in progress can not carry on without the selected features
+		this.stopDragging();
+
+		deselected.forEach((id) => {
+			this.onDeselect(id);
+		});
+	}
+
+	// Removes a single feature from a selection of multiple features
+	private deselectOne(featureId: FeatureId) {
+		if (!this.selected.includes(featureId)) {
+			return;
+		}
+
+		if (this.store.has(featureId)) {
+			this.store.updateProperty([
+				{ id: featureId, property: SELECT_PROPERTIES.SELECTED, value: false },
+			]);
+		}
+
+		this.selected = this.selected.filter((id) => id !== featureId);
+		this.stopDragging();
+		this.onDeselect(featureId);
+
+		// A feature that is selected by itself again gets its selection points back
+		if (this.selected.length === 1) {
+			this.createSelectionPoints(this.selected[0]);
+		}
 	}
 
 	private deleteSelected() {
@@ -308,7 +650,7 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 		}
 
 		const featureId = clickedSelectionPointProps.selectionPointFeatureId;
-		const coordinateIndex = clickedSelectionPointProps.index;
+		let coordinateIndex = clickedSelectionPointProps.index;
 
 		// We allow for preventing deleting coordinates via flags
 		const properties = this.store.getPropertiesCopy(featureId);
@@ -322,7 +664,22 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 			!modeFlags.feature.coordinates ||
 			!modeFlags.feature.coordinates.deletable;
 
-		if (cannotDelete) {
+		if (cannotDelete || !this.canEdit(featureId, "deleteCoordinate")) {
+			return;
+		}
+
+		// The selection points of a curve are its control points
+		if (this.dragControlPoint.isCurve(featureId)) {
+			if (
+				this.dragControlPoint.deleteControlPoint(
+					featureId,
+					coordinateIndex,
+					validation,
+				)
+			) {
+				this.selectionPoints.delete();
+				this.createSelectionPoints(featureId);
+			}
 			return;
 		}
 
@@ -330,7 +687,19 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 
 		let coordinates;
 		if (geometry.type === "Polygon") {
-			coordinates = geometry.coordinates[0];
+			// Selection point indexes run across all the rings of the polygon,
+			// so we need to find which ring the coordinate belongs to
+			const ringCoordinateIndex = getRingCoordinateIndex(
+				geometry.coordinates,
+				coordinateIndex,
+			);
+
+			if (!ringCoordinateIndex) {
+				return;
+			}
+
+			coordinates = geometry.coordinates[ringCoordinateIndex.ring];
+			coordinateIndex = ringCoordinateIndex.index;
 
 			// Prevent creating an invalid polygon
 			if (coordinates.length <= 4) {
@@ -394,24 +763,42 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 			},
 		]);
 
+		const [selectedCoords, ...holes] =
+			geometry.type === "Polygon" ? geometry.coordinates : [coordinates];
+
 		this.selectionPoints.create(
-			coordinates,
+			selectedCoords,
 			geometry.type as "Polygon" | "LineString",
 			featureId,
+			holes,
 		);
 
 		if (
 			modeFlags &&
 			modeFlags.feature &&
 			modeFlags.feature.coordinates &&
-			modeFlags.feature.coordinates.midpoints
+			modeFlags.feature.coordinates.midpoints &&
+			this.canEdit(featureId, "insertMidpoint")
 		) {
-			this.midPoints.create(coordinates, featureId, this.coordinatePrecision);
+			this.midPoints.create(
+				selectedCoords,
+				featureId,
+				this.coordinatePrecision,
+				holes,
+			);
 		}
 	}
 
-	private select(featureId: FeatureId, fromCursor = true) {
-		if (this.selected[0] === featureId) {
+	private select(
+		featureId: FeatureId,
+		fromCursor = true,
+		addToSelection = false,
+	) {
+		if (
+			addToSelection
+				? this.selected.includes(featureId)
+				: this.selected.length === 1 && this.selected[0] === featureId
+		) {
 			return;
 		}
 
@@ -425,18 +812,14 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 			return;
 		}
 
-		const previouslySelectedId = this.selected[0];
-
-		// If we have something currently selected
-		if (previouslySelectedId) {
-			// If it matches the current selected feature id, do nothing
-			if (previouslySelectedId === featureId) {
-				return;
-			} else {
-				// If it's a different feature set selected
-				// to false on previously selected feature
-				this.deselect();
-			}
+		if (addToSelection) {
+			// Selection points are only shown when a single feature is selected
+			this.selectionPoints.delete();
+			this.midPoints.delete();
+		} else if (this.selected.length) {
+			// If it's a different feature set selected
+			// to false on previously selected features
+			this.deselect();
 		}
 
 		if (fromCursor) {
@@ -444,33 +827,71 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 		}
 
 		// Select feature
-		this.selected = [featureId];
+		this.selected = [...this.selected, featureId];
 
 		this.store.updateProperty([
 			{ id: featureId, property: "selected", value: true },
 		]);
 		this.onSelect(featureId);
 
+		if (this.selected.length === 1) {
+			this.createSelectionPoints(featureId);
+		}
+	}
+
+	private createSelectionPoints(featureId: FeatureId) {
+		const { mode } = this.store.getPropertiesCopy(featureId);
+		const modeFlags = this.flags[mode as string];
+
 		// Get the clicked feature
 		const { type, coordinates } = this.store.getGeometryCopy(featureId);
 
+		// Only the coordinates of LineStrings and Polygons can be edited, so
+		// points and multi geometries do not get selection or mid points
 		if (type !== "LineString" && type !== "Polygon") {
 			return;
 		}
 
 		// LineString does not have nesting so we can just take 'coordinates'
-		// directly. Polygon is nested so we need to take [0] item in the array
+		// directly. Polygon is nested so we need to take [0] item in the array,
+		// with any further rings being holes
 		const selectedCoords: Position[] =
 			type === "LineString" ? coordinates : coordinates[0];
+		const holes: Position[][] = type === "Polygon" ? coordinates.slice(1) : [];
 
-		if (selectedCoords && modeFlags && modeFlags.feature.coordinates) {
-			this.selectionPoints.create(selectedCoords, type, featureId);
+		// Curves are edited by their control points, which do not have
+		// midpoints as the curve does not pass straight between them
+		const controlPoints = getCurveControlPoints(
+			this.store.getPropertiesCopy(featureId),
+		);
 
-			if (modeFlags.feature.coordinates.midpoints) {
+		if (
+			controlPoints &&
+			modeFlags &&
+			modeFlags.feature &&
+			modeFlags.feature.coordinates
+		) {
+			this.selectionPoints.create(controlPoints, "LineString", featureId);
+			return;
+		}
+
+		if (
+			selectedCoords &&
+			modeFlags &&
+			modeFlags.feature &&
+			modeFlags.feature.coordinates
+		) {
+			this.selectionPoints.create(selectedCoords, type, featureId, holes);
+
+			if (
+				modeFlags.feature.coordinates.midpoints &&
+				this.canEdit(featureId, "insertMidpoint")
+			) {
 				this.midPoints.create(
 					selectedCoords,
 					featureId,
 					this.coordinatePrecision,
+					holes,
 				);
 			}
 		}
@@ -482,7 +903,11 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 			this.selected.length > 0,
 		);
 
-		if (this.selected.length && clickedMidPoint) {
+		if (
+			this.selected.length &&
+			clickedMidPoint &&
+			this.canEdit(this.selected[0], "insertMidpoint")
+		) {
 			// TODO: We probably want to make sure the midpoint
 			// is visible?
 
@@ -494,14 +919,123 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 			return;
 		}
 
+		const multiSelect = this.isMultiSelect(event);
+
 		if (clickedFeature && clickedFeature.id) {
-			this.select(clickedFeature.id, true);
-		} else if (this.selected.length && this.allowManualDeselection) {
+			if (multiSelect && this.selected.includes(clickedFeature.id)) {
+				this.deselectOne(clickedFeature.id);
+			} else {
+				this.select(clickedFeature.id, true, multiSelect);
+			}
+		} else if (
+			this.selected.length &&
+			this.allowManualDeselection &&
+			!multiSelect
+		) {
 			this.deselect();
 			return;
 		}
 	}
 
+	// Validates a selected feature using the validation for its mode, which is
+	// needed when features from different modes are dragged together
+	private validateSelected: Validation = (feature, context) => {
+		const { mode } = this.store.getPropertiesCopy(feature.id as FeatureId);
+		const validation = this.validations[mode as string];
+		return validation ? validation(feature, context) : { valid: true };
+	};
+
+	// With topology enabled, coordinates shared with other features are moved together
+	// as long as the coordinates of those features can be dragged themselves
+	private topologyOptions: TopologyOptions = {
+		filter: (feature) => {
+			const modeFlags = this.flags[feature.properties.mode as string];
+			return (
+				Boolean(
+					modeFlags &&
+						modeFlags.feature &&
+						modeFlags.feature.coordinates &&
+						modeFlags.feature.coordinates.draggable,
+				) && this.isFeatureEditable(feature, "dragCoordinate")
+			);
+		},
+		allowSelfIntersection: (feature) => {
+			const modeFlags = this.flags[feature.properties.mode as string];
+			return (
+				(modeFlags &&
+					modeFlags.feature &&
+					modeFlags.feature.selfIntersectable) === true
+			);
+		},
+		validation: this.validateSelected,
+	};
+
+	// Features can be locked entirely with the locked property, or the
+	// isEditable option can prevent individual actions on them
+	private isFeatureEditable(feature: GeoJSONStoreFeatures, action: EditAction) {
+		if (feature.properties[SELECT_PROPERTIES.LOCKED]) {
+			return false;
+		}
+
+		return this.isEditable ? this.isEditable(feature, action) : true;
+	}
+
+	private canEdit(featureId: FeatureId, action: EditAction) {
+		return this.isFeatureEditable(
+			{
+				id: featureId,
+				type: "Feature",
+				geometry: this.store.getGeometryCopy(featureId),
+				properties: this.store.getPropertiesCopy(featureId),
+			},
+			action,
+		);
+	}
+
+	// A feature is locked if it can not be edited in any way
+	private isLocked(feature: GeoJSONStoreFeatures) {
+		return EDIT_ACTIONS.every(
+			(action) => !this.isFeatureEditable(feature, action),
+		);
+	}
+
+	// Locked features use the locked styling where it has been set
+	private getSelectedStyling<K extends keyof SelectionStyling>(
+		locked: boolean,
+		lockedKey: K,
+		selectedKey: K,
+	) {
+		return locked && this.styles[lockedKey] !== undefined
+			? this.styles[lockedKey]
+			: this.styles[selectedKey];
+	}
+
+	// Pinching and twisting a feature uses the same flags and
+	// editability as scaling and rotating it with the keys held
+	private canGesture(
+		selectedId: FeatureId,
+		flag: "rotateable" | "scaleable",
+		action: "rotate" | "scale",
+	) {
+		const properties = this.store.getPropertiesCopy(selectedId);
+		const modeFlags = this.flags[properties.mode as string];
+
+		return Boolean(
+			modeFlags &&
+				modeFlags.feature &&
+				modeFlags.feature[flag] &&
+				!this.dragControlPoint.isCurve(selectedId) &&
+				this.canEdit(selectedId, action),
+		);
+	}
+
+	private isMultiSelect(event: TerraDrawMouseEvent) {
+		return Boolean(
+			this.keyEvents.multiSelect &&
+				event.heldKeys.includes(this.keyEvents.multiSelect),
+		);
+	}
+
 	/** @internal */
 	start() {
 		this.setStarted();
@@ -559,15 +1093,20 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 		this.preventDefaultKeyEvent(event);
 
 		if (this.keyEvents.delete && event.key === this.keyEvents.delete) {
-			if (!this.selected.length) {
+			if (
+				!this.selected.length ||
+				!this.selected.every((id) => this.canEdit(id, "delete"))
+			) {
 				return;
 			}
 
 			// We are technically deselecting
-			// because the selected feature is deleted
+			// because the selected features are deleted
 			// and will no longer exist or be selected
-			const previouslySelected = this.selected[0];
-			this.onDeselect(previouslySelected);
+			const previouslySelected = this.selected;
+			previouslySelected.forEach((id) => {
+				this.onDeselect(id);
+			});
 
 			// Delete all selected features
 			this.deleteSelected();
@@ -585,6 +1124,9 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 
 	/** @internal */
 	cleanUp() {
+		this.boxSelect.delete();
+		this.gesturing = false;
+
 		if (this.selected.length) {
 			this.deselect();
 		}
@@ -595,6 +1137,36 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 		event: TerraDrawMouseEvent,
 		setMapDraggability: (enabled: boolean) => void,
 	) {
+		// Dragging with the multi select key held draws a box
+		// to select all the features within it
+		if (this.isMultiSelect(event)) {
+			this.boxSelect.start(event);
+			setMapDraggability(false);
+			return;
+		}
+
+		// Multiple selected features can only be dragged together
+		// as a group, and only if all of them are draggable
+		if (this.selected.length > 1) {
+			const allDraggable = this.selected.every((id) => {
+				const { mode } = this.store.getPropertiesCopy(id);
+				const modeFlags = this.flags[mode as string];
+				return Boolean(
+					modeFlags &&
+						modeFlags.feature &&
+						modeFlags.feature.draggable &&
+						this.canEdit(id, "dragFeature"),
+				);
+			});
+
+			if (allDraggable && this.dragFeature.canDrag(event, this.selected)) {
+				this.setCursor(this.cursors.dragStart);
+				this.dragFeature.startDragging(event, this.selected);
+				setMapDraggability(false);
+			}
+			return;
+		}
+
 		// We only need to stop the map dragging if
 		// we actually have something selected
 		if (!this.selected.length) {
@@ -621,10 +1193,33 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 		this.dragEventCount = 0;
 
 		const selectedId = this.selected[0];
-		const draggableCoordinateIndex = this.dragCoordinate.getDraggableIndex(
-			event,
-			selectedId,
-		);
+		const isCurve = this.dragControlPoint.isCurve(selectedId);
+
+		// Curves are reshaped by dragging their control points rather than their coordinates
+		if (isCurve) {
+			const controlPointIndex = this.dragControlPoint.getDraggableIndex(
+				event,
+				selectedId,
+			);
+
+			if (
+				modeFlags &&
+				modeFlags.feature &&
+				modeFlags.feature.coordinates &&
+				modeFlags.feature.coordinates.draggable &&
+				controlPointIndex !== -1 &&
+				this.canEdit(selectedId, "dragCoordinate")
+			) {
+				this.setCursor(this.cursors.dragStart);
+				this.dragControlPoint.startDragging(selectedId, controlPointIndex);
+				setMapDraggability(false);
+				return;
+			}
+		}
+
+		const draggableCoordinateIndex = isCurve
+			? -1
+			: this.dragCoordinate.getDraggableIndex(event, selectedId);
 
 		// Drag Coordinate
 		if (
@@ -633,7 +1228,8 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 			modeFlags.feature.coordinates &&
 			(modeFlags.feature.coordinates.draggable ||
 				modeFlags.feature.coordinates.resizable) &&
-			draggableCoordinateIndex !== -1
+			draggableCoordinateIndex !== -1 &&
+			this.canEdit(selectedId, "dragCoordinate")
 		) {
 			this.setCursor(this.cursors.dragStart);
 
@@ -645,7 +1241,11 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 				);
 			} else {
 				// Without with resizable being set
-				this.dragCoordinate.startDragging(selectedId, draggableCoordinateIndex);
+				this.dragCoordinate.startDragging(
+					selectedId,
+					draggableCoordinateIndex,
+					this.topology ? this.topologyOptions : undefined,
+				);
 			}
 
 			setMapDraggability(false);
@@ -657,7 +1257,8 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 			modeFlags &&
 			modeFlags.feature &&
 			modeFlags.feature.draggable &&
-			this.dragFeature.canDrag(event, selectedId)
+			this.dragFeature.canDrag(event, selectedId) &&
+			this.canEdit(selectedId, "dragFeature")
 		) {
 			this.setCursor(this.cursors.dragStart);
 			this.dragFeature.startDragging(event, selectedId);
@@ -671,6 +1272,11 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 		event: TerraDrawMouseEvent,
 		setMapDraggability: (enabled: boolean) => void,
 	) {
+		if (this.boxSelect.isSelecting()) {
+			this.boxSelect.update(event);
+			return;
+		}
+
 		const selectedId = this.selected[0];
 
 		// If nothing selected we can return early
@@ -678,6 +1284,14 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 			return;
 		}
 
+		// Multiple selected features can only be dragged as a group
+		if (this.selected.length > 1) {
+			if (this.dragFeature.isDragging()) {
+				this.dragFeature.drag(event, this.validateSelected);
+			}
+			return;
+		}
+
 		const properties = this.store.getPropertiesCopy(selectedId);
 		const modeFlags = this.flags[properties.mode as string];
 		const canSelfIntersect: boolean =
@@ -701,7 +1315,9 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 			modeFlags &&
 			modeFlags.feature &&
 			modeFlags.feature.rotateable &&
-			this.canRotate(event)
+			!this.dragControlPoint.isCurve(selectedId) &&
+			this.canRotate(event) &&
+			this.canEdit(selectedId, "rotate")
 		) {
 			setMapDraggability(false);
 			this.rotateFeature.rotate(event, selectedId, validation);
@@ -713,7 +1329,9 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 			modeFlags &&
 			modeFlags.feature &&
 			modeFlags.feature.scaleable &&
-			this.canScale(event)
+			!this.dragControlPoint.isCurve(selectedId) &&
+			this.canScale(event) &&
+			this.canEdit(selectedId, "scale")
 		) {
 			setMapDraggability(false);
 			this.scaleFeature.scale(event, selectedId, validation);
@@ -741,8 +1359,30 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 			return;
 		}
 
+		if (this.dragControlPoint.isDragging()) {
+			setMapDraggability(false);
+			this.dragControlPoint.drag(event, validation);
+			return;
+		}
+
 		// Check if coordinate is draggable and is dragged
 		if (this.dragCoordinate.isDragging()) {
+			const snappedCoordinate =
+				modeFlags.feature &&
+				modeFlags.feature.coordinates &&
+				modeFlags.feature.coordinates.snappable &&
+				this.snapCoordinate(
+					event,
+					selectedId,
+					properties.mode as string,
+					modeFlags.feature.coordinates.snappable,
+				);
+
+			if (snappedCoordinate) {
+				event.lng = snappedCoordinate[0];
+				event.lat = snappedCoordinate[1];
+			}
+
 			this.dragCoordinate.drag(event, canSelfIntersect, validation);
 			return;
 		}
@@ -756,37 +1396,177 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 		setMapDraggability(true);
 	}
 
+	private snapCoordinate(
+		event: TerraDrawMouseEvent,
+		draggedId: FeatureId,
+		draggedMode: string,
+		snapping: {
+			toLine?: boolean | SnappingTarget;
+			toCoordinate?: boolean | SnappingTarget;
+		},
+	) {
+		// The features of the select mode are only ever guidance features, so
+		// true snaps to the features of the mode the dragged feature belongs to
+		const getModeTarget = (option: boolean | SnappingTarget) =>
+			typeof option === "object"
+				? option
+				: {
+						filter: (feature: GeoJSONStoreFeatures) =>
+							feature.properties.mode === draggedMode,
+				  };
+
+		// With topology the coincident features move with the dragged coordinate,
+		// so snapping to them would keep the coordinate where it started
+		const coincidentIds = this.dragCoordinate.getCoincidentFeatureIds();
+		const getTarget = (option: boolean | SnappingTarget): SnappingTarget => {
+			const target = getModeTarget(option);
+			return {
+				...target,
+				filter: (feature) =>
+					!coincidentIds.includes(feature.id as FeatureId) &&
+					(target.filter ? target.filter(feature) : true),
+			};
+		};
+
+		let snappedCoordinate: Position | undefined;
+
+		if (snapping.toLine) {
+			snappedCoordinate = this.lineSnapping.getSnappableCoordinate(
+				event,
+				draggedId,
+				getTarget(snapping.toLine),
+			);
+		}
+
+		if (snapping.toCoordinate) {
+			const snapped = this.coordinateSnapping.getSnappableCoordinate(
+				event,
+				draggedId,
+				getTarget(snapping.toCoordinate),
+			);
+
+			if (snapped) {
+				snappedCoordinate = snapped;
+			}
+		}
+
+		return snappedCoordinate;
+	}
+
 	/** @internal */
 	onDragEnd(
 		_: TerraDrawMouseEvent,
 		setMapDraggability: (enabled: boolean) => void,
 	) {
+		if (this.boxSelect.isSelecting()) {
+			this.boxSelect.finish().forEach((id) => {
+				this.select(id, false, true);
+			});
+			setMapDraggability(true);
+			return;
+		}
+
 		this.setCursor(this.cursors.dragEnd);
 
 		// If we have finished dragging a coordinate or a feature
 		// lets fire an onFinish event which can be listened to
 		if (this.dragCoordinate.isDragging()) {
-			this.onFinish(this.selected[0], {
-				mode: this.mode,
-				action: "dragCoordinate",
+			[
+				this.selected[0],
+				...this.dragCoordinate.getCoincidentFeatureIds(),
+			].forEach((id) => {
+				this.onFinish(id, {
+					mode: this.mode,
+					action: "dragCoordinate",
+				});
 			});
 		} else if (this.dragFeature.isDragging()) {
-			this.onFinish(this.selected[0], {
-				mode: this.mode,
-				action: "dragFeature",
+			this.selected.forEach((id) => {
+				this.onFinish(id, {
+					mode: this.mode,
+					action: "dragFeature",
+				});
 			});
 		} else if (this.dragCoordinateResizeFeature.isDragging()) {
 			this.onFinish(this.selected[0], {
 				mode: this.mode,
 				action: "dragCoordinateResize",
 			});
+		} else if (this.dragControlPoint.isDragging()) {
+			this.onFinish(this.selected[0], {
+				mode: this.mode,
+				action: "dragCoordinate",
+			});
 		}
 
+		this.stopDragging();
+		setMapDraggability(true);
+	}
+
+	private stopDragging() {
 		this.dragCoordinate.stopDragging();
+		this.dragControlPoint.stopDragging();
 		this.dragFeature.stopDragging();
 		this.dragCoordinateResizeFeature.stopDragging();
 		this.rotateFeature.reset();
 		this.scaleFeature.reset();
+	}
+
+	/** @internal */
+	onGestureStart(
+		event: TerraDrawGestureEvent,
+		setMapDraggability: (enabled: boolean) => void,
+	) {
+		// Only a single selected feature can be pinched or twisted,
+		// otherwise the gesture is left to the map
+		if (this.selected.length !== 1) {
+			return;
+		}
+
+		const selectedId = this.selected[0];
+
+		if (
+			!this.canGesture(selectedId, "rotateable", "rotate") &&
+			!this.canGesture(selectedId, "scaleable", "scale")
+		) {
+			return;
+		}
+
+		this.gesturing = true;
+		setMapDraggability(false);
+		this.onGesture(event);
+	}
+
+	/** @internal */
+	onGesture(event: TerraDrawGestureEvent) {
+		if (!this.gesturing) {
+			return;
+		}
+
+		const selectedId = this.selected[0];
+		const properties = this.store.getPropertiesCopy(selectedId);
+		const validation = this.validations[properties.mode as string];
+
+		if (this.canGesture(selectedId, "rotateable", "rotate")) {
+			this.rotateFeature.rotateBy(event.rotation, selectedId, validation);
+		}
+
+		if (this.canGesture(selectedId, "scaleable", "scale")) {
+			this.scaleFeature.scaleBy(event.scale, selectedId, validation);
+		}
+	}
+
+	/** @internal */
+	onGestureEnd(
+		_: TerraDrawGestureEvent,
+		setMapDraggability: (enabled: boolean) => void,
+	) {
+		if (!this.gesturing) {
+			return;
+		}
+
+		this.gesturing = false;
+		this.onFinish(this.selected[0], { mode: this.mode, action: "gesture" });
 		setMapDraggability(true);
 	}
 
@@ -837,7 +1617,8 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 
 		if (
 			this.selected.length > 0 &&
-			((featureUnderPointer && featureUnderPointer.id === this.selected[0]) ||
+			((featureUnderPointer &&
+				this.selected.includes(featureUnderPointer.id as FeatureId)) ||
 				nearbySelectionPoint)
 		) {
 			this.setCursor(this.cursors.pointerOver);
@@ -847,6 +1628,60 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 		}
 	}
 
+	/** @internal */
+	styleHoveredFeature(
+		feature: GeoJSONStoreFeatures,
+		styles: TerraDrawAdapterStyling,
+	): TerraDrawAdapterStyling {
+		const hoveredStyles = { ...styles };
+
+		if (
+			feature.geometry.type === "Polygon" ||
+			feature.geometry.type === "MultiPolygon"
+		) {
+			hoveredStyles.polygonFillColor = this.getHexColorStylingValue(
+				this.styles.hoveredPolygonColor,
+				styles.polygonFillColor,
+				feature,
+			);
+
+			hoveredStyles.polygonFillOpacity = this.getNumericStylingValue(
+				this.styles.hoveredPolygonFillOpacity,
+				styles.polygonFillOpacity,
+				feature,
+			);
+
+			hoveredStyles.polygonOutlineColor = this.getHexColorStylingValue(
+				this.styles.hoveredPolygonOutlineColor,
+				styles.polygonOutlineColor,
+				feature,
+			);
+		} else if (
+			feature.geometry.type === "LineString" ||
+			feature.geometry.type === "MultiLineString"
+		) {
+			hoveredStyles.lineStringColor = this.getHexColorStylingValue(
+				this.styles.hoveredLineStringColor,
+				styles.lineStringColor,
+				feature,
+			);
+		} else {
+			hoveredStyles.pointColor = this.getHexColorStylingValue(
+				this.styles.hoveredPointColor,
+				styles.pointColor,
+				feature,
+			);
+
+			hoveredStyles.pointOutlineColor = this.getHexColorStylingValue(
+				this.styles.hoveredPointOutlineColor,
+				styles.pointOutlineColor,
+				feature,
+			);
+		}
+
+		return hoveredStyles;
+	}
+
 	/** @internal */
 	styleFeature(feature: GeoJSONStoreFeatures): TerraDrawAdapterStyling {
 		const styles = { ...getDefaultStyling() };
@@ -914,73 +1749,154 @@ export class TerraDrawSelectMode extends TerraDrawBaseSelectMode<SelectionStylin
 
 				return styles;
 			}
+		} else if (
+			feature.properties.mode === this.mode &&
+			feature.properties[SELECT_PROPERTIES.SELECTION_BOX]
+		) {
+			styles.polygonFillColor = this.getHexColorStylingValue(
+				this.styles.selectionBoxColor,
+				styles.polygonFillColor,
+				feature,
+			);
+
+			styles.polygonFillOpacity = this.getNumericStylingValue(
+				this.styles.selectionBoxFillOpacity,
+				0.1,
+				feature,
+			);
+
+			styles.polygonOutlineColor = this.getHexColorStylingValue(
+				this.styles.selectionBoxOutlineColor,
+				styles.polygonOutlineColor,
+				feature,
+			);
+
+			styles.polygonOutlineWidth = this.getNumericStylingValue(
+				this.styles.selectionBoxOutlineWidth,
+				1,
+				feature,
+			);
+
+			styles.zIndex = 50;
+
+			return styles;
 		} else if (feature.properties[SELECT_PROPERTIES.SELECTED]) {
 			// Select mode shortcuts the styling of a feature if it is selected
 			// A selected feature from another mode will end up in this block
+			const locked = this.isLocked(feature);
 
-			if (feature.geometry.type === "Polygon") {
+			if (
+				feature.geometry.type === "Polygon" ||
+				feature.geometry.type === "MultiPolygon"
+			) {
 				styles.polygonFillColor = this.getHexColorStylingValue(
-					this.styles.selectedPolygonColor,
+					this.getSelectedStyling(
+						locked,
+						"lockedPolygonColor",
+						"selectedPolygonColor",
+					),
 					styles.polygonFillColor,
 					feature,
 				);
 
 				styles.polygonOutlineWidth = this.getNumericStylingValue(
-					this.styles.selectedPolygonOutlineWidth,
+					this.getSelectedStyling(
+						locked,
+						"lockedPolygonOutlineWidth",
+						"selectedPolygonOutlineWidth",
+					),
 					styles.polygonOutlineWidth,
 					feature,
 				);
 
 				styles.polygonOutlineColor = this.getHexColorStylingValue(
-					this.styles.selectedPolygonOutlineColor,
+					this.getSelectedStyling(
+						locked,
+						"lockedPolygonOutlineColor",
+						"selectedPolygonOutlineColor",
+					),
 					styles.polygonOutlineColor,
 					feature,
 				);
 
 				styles.polygonFillOpacity = this.getNumericStylingValue(
-					this.styles.selectedPolygonFillOpacity,
+					this.getSelectedStyling(
+						locked,
+						"lockedPolygonFillOpacity",
+						"selectedPolygonFillOpacity",
+					),
 					styles.polygonFillOpacity,
 					feature,
 				);
 
 				styles.zIndex = 10;
 				return styles;
-			} else if (feature.geometry.type === "LineString") {
+			} else if (
+				feature.geometry.type === "LineString" ||
+				feature.geometry.type === "MultiLineString"
+			) {
 				styles.lineStringColor = this.getHexColorStylingValue(
-					this.styles.selectedLineStringColor,
+					this.getSelectedStyling(
+						locked,
+						"lockedLineStringColor",
+						"selectedLineStringColor",
+					),
 					styles.lineStringColor,
 					feature,
 				);
 
 				styles.lineStringWidth = this.getNumericStylingValue(
-					this.styles.selectedLineStringWidth,
+					this.getSelectedStyling(
+						locked,
+						"lockedLineStringWidth",
+						"selectedLineStringWidth",
+					),
 					styles.lineStringWidth,
 					feature,
 				);
 
 				styles.zIndex = 10;
 				return styles;
-			} else if (feature.geometry.type === "Point") {
+			} else if (
+				feature.geometry.type === "Point" ||
+				feature.geometry.type === "MultiPoint"
+			) {
 				styles.pointWidth = this.getNumericStylingValue(
-					this.styles.selectedPointWidth,
+					this.getSelectedStyling(
+						locked,
+						"lockedPointWidth",
+						"selectedPointWidth",
+					),
 					styles.pointWidth,
 					feature,
 				);
 
 				styles.pointColor = this.getHexColorStylingValue(
-					this.styles.selectedPointColor,
+					this.getSelectedStyling(
+						locked,
+						"lockedPointColor",
+						"selectedPointColor",
+					),
 					styles.pointColor,
 					feature,
 				);
 
 				styles.pointOutlineColor = this.getHexColorStylingValue(
-					this.styles.selectedPointOutlineColor,
+					this.getSelectedStyling(
+						locked,
+						"lockedPointOutlineColor",
+						"selectedPointOutlineColor",
+					),
 					styles.pointOutlineColor,
 					feature,
 				);
 
 				styles.pointOutlineWidth = this.getNumericStylingValue(
-					this.styles.selectedPointOutlineWidth,
+					this.getSelectedStyling(
+						locked,
+						"lockedPointOutlineWidth",
+						"selectedPointOutlineWidth",
+					),
 					styles.pointOutlineWidth,
 					feature,
 				);
@@ -0,0 +1,452 @@
+import { LineString, Polygon } from "geojson";
+import { GeoJSONStore } from "../../store/store";
+import { MockModeConfig } from "../../test/mock-mode-config";
+import { MockCursorEvent } from "../../test/mock-cursor-event";
+import { MockKeyboardEvent } from "../../test/mock-keyboard-event";
+import { TerraDrawSplitMode } from "./split.mode";
+
+describe("TerraDrawSplitMode", () => {
+	describe("constructor", () => {
+		it("constructs with no options", () => {
+			const splitMode = new TerraDrawSplitMode();
+			expect(splitMode.mode).toBe("split");
+			expect(splitMode.styles).toStrictEqual({});
+		});
+
+		it("constructs with options", () => {
+			const splitMode = new TerraDrawSplitMode({
+				styles: { lineStringColor: "#ffffff" },
+				keyEvents: { cancel: "Backspace", finish: "Enter" },
+				modes: ["polygon"],
+			});
+			expect(splitMode.styles).toStrictEqual({
+				lineStringColor: "#ffffff",
+			});
+		});
+
+		it("constructs with null key events", () => {
+			new TerraDrawSplitMode({ keyEvents: null });
+		});
+	});
+
+	describe("lifecycle", () => {
+		it("registers correctly", () => {
+			const splitMode = new TerraDrawSplitMode();
+			expect(splitMode.state).toBe("unregistered");
+			splitMode.register(MockModeConfig(splitMode.mode));
+			expect(splitMode.state).toBe("registered");
+		});
+
+		it("can start and stop correctly", () => {
+			const splitMode = new TerraDrawSplitMode();
+			splitMode.register(MockModeConfig(splitMode.mode));
+			splitMode.start();
+			expect(splitMode.state).toBe("started");
+			splitMode.stop();
+			expect(splitMode.state).toBe("stopped");
+		});
+	});
+
+	describe("splitting", () => {
+		let splitMode: TerraDrawSplitMode;
+		let store: GeoJSONStore;
+		let onChange: jest.Mock;
+		let onFinish: jest.Mock;
+		let onSelect: jest.Mock;
+		let onDeselect: jest.Mock;
+		let validateFeatureForMode: jest.Mock;
+
+		const polygon: Polygon = {
+			type: "Polygon",
+			coordinates: [
+				[
+					[0, 0],
+					[0, 10],
+					[10, 10],
+					[10, 0],
+					[0, 0],
+				],
+			],
+		};
+
+		const lineString: LineString = {
+			type: "LineString",
+			coordinates: [
+				[0, 20],
+				[10, 20],
+			],
+		};
+
+		const setup = (
+			options?: ConstructorParameters<typeof TerraDrawSplitMode>[0],
+		) => {
+			splitMode = new TerraDrawSplitMode(options);
+			const config = MockModeConfig(splitMode.mode);
+			store = config.store;
+			onChange = config.onChange;
+			onFinish = config.onFinish;
+			onSelect = config.onSelect;
+			onDeselect = config.onDeselect;
+			validateFeatureForMode = config.validateFeatureForMode;
+			splitMode.register(config);
+			splitMode.start();
+		};
+
+		const selectTarget = ([lng, lat]: [number, number]) => {
+			splitMode.onClick(MockCursorEvent({ lng, lat }));
+		};
+
+		const drawCuttingLine = (coordinates: [number, number][]) => {
+			coordinates.forEach(([lng, lat]) => {
+				splitMode.onMouseMove(MockCursorEvent({ lng, lat }));
+				splitMode.onClick(MockCursorEvent({ lng, lat }));
+			});
+		};
+
+		it("selects the clicked feature to split", () => {
+			setup();
+
+			const [id] = store.create([
+				{ geometry: polygon, properties: { mode: "polygon" } },
+			]);
+
+			selectTarget([2, 5]);
+
+			expect(splitMode.state).toBe("started");
+			expect(store.getPropertiesCopy(id).selected).toBe(true);
+			expect(onSelect).toHaveBeenCalledWith(id);
+			expect(store.copyAll()).toHaveLength(1);
+		});
+
+		it("does not draw a cutting line before a feature is selected", () => {
+			setup();
+
+			drawCuttingLine([
+				[5, -5],
+				[5, 15],
+			]);
+
+			expect(splitMode.state).toBe("started");
+			expect(store.copyAll()).toHaveLength(0);
+		});
+
+		it("draws a cutting line with a closing point", () => {
+			setup();
+
+			store.create([{ geometry: polygon, properties: { mode: "polygon" } }]);
+
+			selectTarget([2, 5]);
+			drawCuttingLine([
+				[5, -5],
+				[5, 15],
+			]);
+
+			expect(splitMode.state).toBe("drawing");
+
+			const features = store.copyAll();
+			expect(features).toHaveLength(3);
+			expect(features[1].geometry.coordinates).toStrictEqual([
+				[5, -5],
+				[5, 15],
+				[5, 15],
+			]);
+			expect(features[2].properties.closingPoint).toBe(true);
+		});
+
+		it("splits a polygon when the last point is clicked again", () => {
+			setup();
+
+			const [id] = store.create([
+				{ geometry: polygon, properties: { mode: "polygon", name: "field" } },
+			]);
+
+			selectTarget([2, 5]);
+			drawCuttingLine([
+				[5, -5],
+				[5, 15],
+				[5, 15],
+			]);
+
+			expect(splitMode.state).toBe("started");
+			expect(store.has(id)).toBe(false);
+
+			const features = store.copyAll();
+			expect(features).toHaveLength(2);
+			features.forEach((feature) => {
+				expect(feature.geometry.type).toBe("Polygon");
+				expect(feature.properties.mode).toBe("polygon");
+				expect(feature.properties.name).toBe("field");
+				expect(feature.properties.selected).toBeUndefined();
+			});
+
+			expect(onDeselect).toHaveBeenCalledWith(id);
+
+			expect(onFinish).toHaveBeenCalledTimes(2);
+			expect(onFinish).toHaveBeenCalledWith(features[0].id, {
+				mode: "split",
+				action: "split",
+			});
+		});
+
+		it("reports the original and the parts in the change context", () => {
+			setup();
+
+			const [id] = store.create([
+				{ geometry: polygon, properties: { mode: "polygon" } },
+			]);
+
+			selectTarget([2, 5]);
+			drawCuttingLine([
+				[5, -5],
+				[5, 15],
+			]);
+			splitMode.onKeyUp(MockKeyboardEvent({ key: "Enter" }));
+
+			const partIds = store.copyAll().map((feature) => feature.id);
+
+			expect(onChange).toHaveBeenCalledWith(partIds, "create", {
+				action: "split",
+				originIds: [id],
+			});
+			expect(onChange).toHaveBeenCalledWith([id], "delete", {
+				action: "split",
+				replacementIds: partIds,
+			});
+		});
+
+		it("splits a linestring", () => {
+			setup();
+
+			const [id] = store.create([
+				{ geometry: lineString, properties: { mode: "linestring" } },
+			]);
+
+			selectTarget([2, 20]);
+			drawCuttingLine([
+				[5, 15],
+				[5, 25],
+			]);
+			splitMode.onKeyUp(MockKeyboardEvent({ key: "Enter" }));
+
+			expect(store.has(id)).toBe(false);
+
+			const features = store.copyAll();
+			expect(features).toHaveLength(2);
+			expect(features[0].geometry.coordinates).toStrictEqual([
+				[0, 20],
+				[5, 20],
+			]);
+			expect(features[1].geometry.coordinates).toStrictEqual([
+				[5, 20],
+				[10, 20],
+			]);
+		});
+
+		it("only splits the selected feature", () => {
+			setup();
+
+			const [polygonId] = store.create([
+				{ geometry: polygon, properties: { mode: "polygon" } },
+			]);
+			const [lineStringId] = store.create([
+				{ geometry: lineString, properties: { mode: "linestring" } },
+			]);
+
+			selectTarget([2, 20]);
+			drawCuttingLine([
+				[5, -5],
+				[5, 25],
+			]);
+			splitMode.onKeyUp(MockKeyboardEvent({ key: "Enter" }));
+
+			expect(store.has(polygonId)).toBe(true);
+			expect(store.has(lineStringId)).toBe(false);
+			expect(store.copyAll()).toHaveLength(3);
+		});
+
+		it("only selects features from the given modes", () => {
+			setup({ modes: ["linestring"] });
+
+			const [polygonId] = store.create([
+				{ geometry: polygon, properties: { mode: "polygon" } },
+			]);
+
+			selectTarget([2, 5]);
+			drawCuttingLine([
+				[5, -5],
+				[5, 15],
+			]);
+			splitMode.onKeyUp(MockKeyboardEvent({ key: "Enter" }));
+
+			expect(onSelect).not.toHaveBeenCalled();
+			expect(store.has(polygonId)).toBe(true);
+			expect(store.copyAll()).toHaveLength(1);
+		});
+
+		it("does not select locked features", () => {
+			setup();
+
+			const [id] = store.create([
+				{ geometry: polygon, properties: { mode: "polygon", locked: true } },
+			]);
+
+			selectTarget([2, 5]);
+			drawCuttingLine([
+				[5, -5],
+				[5, 15],
+			]);
+			splitMode.onKeyUp(MockKeyboardEvent({ key: "Enter" }));
+
+			expect(onSelect).not.toHaveBeenCalled();
+			expect(store.has(id)).toBe(true);
+			expect(store.copyAll()).toHaveLength(1);
+		});
+
+		it("does not select features which isEditable prevents splitting", () => {
+			const isEditable = jest.fn(() => false);
+			setup({ isEditable });
+
+			const [id] = store.create([
+				{ geometry: polygon, properties: { mode: "polygon" } },
+			]);
+
+			selectTarget([2, 5]);
+
+			expect(isEditable).toHaveBeenCalledWith(
+				expect.objectContaining({ id }),
+				"split",
+			);
+			expect(onSelect).not.toHaveBeenCalled();
+			expect(store.getPropertiesCopy(id).selected).toBeUndefined();
+		});
+
+		it("does not split when the validation fails", () => {
+			setup({ validation: () => ({ valid: false }) });
+
+			const [id] = store.create([
+				{ geometry: polygon, properties: { mode: "polygon" } },
+			]);
+
+			selectTarget([2, 5]);
+			drawCuttingLine([
+				[5, -5],
+				[5, 15],
+			]);
+			splitMode.onKeyUp(MockKeyboardEvent({ key: "Enter" }));
+
+			expect(store.has(id)).toBe(true);
+			expect(store.copyAll()).toHaveLength(1);
+			expect(onFinish).not.toHaveBeenCalled();
+		});
+
+		it("does not split when the parts are not valid for the mode of the feature", () => {
+			setup();
+
+			const [id] = store.create([
+				{ geometry: polygon, properties: { mode: "polygon" } },
+			]);
+			validateFeatureForMode.mockReturnValue({
+				valid: false,
+				reason: "Feature is invalid",
+			});
+
+			selectTarget([2, 5]);
+			drawCuttingLine([
+				[5, -5],
+				[5, 15],
+			]);
+			splitMode.onKeyUp(MockKeyboardEvent({ key: "Enter" }));
+
+			expect(validateFeatureForMode).toHaveBeenCalledWith(
+				expect.objectContaining({
+					id,
+					geometry: expect.objectContaining({ type: "Polygon" }),
+				}),
+			);
+			expect(store.has(id)).toBe(true);
+			expect(store.getPropertiesCopy(id).selected).toBe(true);
+			expect(store.copyAll()).toHaveLength(1);
+			expect(onFinish).not.toHaveBeenCalled();
+		});
+
+		it("removes the cutting line on cancel", () => {
+			setup();
+
+			const [id] = store.create([
+				{ geometry: polygon, properties: { mode: "polygon" } },
+			]);
+
+			selectTarget([2, 5]);
+			drawCuttingLine([
+				[5, -5],
+				[5, 15],
+			]);
+			splitMode.onKeyUp(MockKeyboardEvent({ key: "Escape" }));
+
+			expect(splitMode.state).toBe("started");
+			expect(store.copyAll()).toHaveLength(1);
+			expect(store.has(id)).toBe(true);
+			expect(store.getPropertiesCopy(id).selected).toBe(true);
+		});
+
+		it("deselects the selected feature on cancel without a cutting line", () => {
+			setup();
+
+			const [id] = store.create([
+				{ geometry: polygon, properties: { mode: "polygon" } },
+			]);
+
+			selectTarget([2, 5]);
+			splitMode.onKeyUp(MockKeyboardEvent({ key: "Escape" }));
+
+			expect(store.getPropertiesCopy(id).selected).toBe(false);
+			expect(onDeselect).toHaveBeenCalledWith(id);
+		});
+	});
+
+	describe("styleFeature", () => {
+		it("returns the correct styles for the cutting line", () => {
+			const splitMode = new TerraDrawSplitMode({
+				styles: {
+					lineStringColor: "#ffffff",
+					lineStringWidth: 4,
+				},
+			});
+
+			expect(
+				splitMode.styleFeature({
+					type: "Feature",
+					geometry: { type: "LineString", coordinates: [] },
+					properties: { mode: "split" },
+				}),
+			).toMatchObject({
+				lineStringColor: "#ffffff",
+				lineStringWidth: 4,
+			});
+		});
+
+		it("returns the correct styles for the closing point", () => {
+			const splitMode = new TerraDrawSplitMode({
+				styles: {
+					closingPointColor: "#111111",
+					closingPointWidth: 5,
+					closingPointOutlineColor: "#222222",
+					closingPointOutlineWidth: 1,
+				},
+			});
+
+			expect(
+				splitMode.styleFeature({
+					type: "Feature",
+					geometry: { type: "Point", coordinates: [] },
+					properties: { mode: "split", closingPoint: true },
+				}),
+			).toMatchObject({
+				pointColor: "#111111",
+				pointWidth: 5,
+				pointOutlineColor: "#222222",
+				pointOutlineWidth: 1,
+			});
+		});
+	});
+});
@@ -0,0 +1,557 @@
+import {
+	TerraDrawMouseEvent,
+	TerraDrawAdapterStyling,
+	TerraDrawKeyboardEvent,
+	HexColorStyling,
+	NumericStyling,
+	Cursor,
+	UpdateTypes,
+	COMMON_PROPERTIES,
+	SELECT_PROPERTIES,
+} from "../../common";
+import { LineString, Polygon, Position } from "geojson";
+import {
+	BaseModeOptions,
+	CustomStyling,
+	TerraDrawBaseDrawMode,
+} from "../base.mode";
+import { BehaviorConfig } from "../base.behavior";
+import { ClickBoundingBoxBehavior } from "../click-bounding-box.behavior";
+import { PixelDistanceBehavior } from "../pixel-distance.behavior";
+import { FeatureAtPointerEventBehavior } from "../select/behaviors/feature-at-pointer-event.behavior";
+import { IsEditable } from "../select/select.mode";
+import { cartesianDistance } from "../../geometry/measure/pixel-distance";
+import { getDefaultStyling } from "../../util/styling";
+import {
+	FeatureId,
+	GeoJSONStoreFeatures,
+	GeoJSONStoreGeometries,
+} from "../../store/store";
+import {
+	RefineIntersection,
+	splitLineString,
+	splitPolygon,
+} from "../../geometry/split-geometry";
+import { nearestPointOnLine } from "../../geometry/point-on-line";
+import { webMercatorNearestPointOnLine } from "../../geometry/web-mercator-point-on-line";
+import { limitPrecision } from "../../geometry/limit-decimal-precision";
+
+type TerraDrawSplitModeKeyEvents = {
+	cancel: KeyboardEvent["key"] | null;
+	finish: KeyboardEvent["key"] | null;
+};
+
+type SplitStyling = {
+	lineStringWidth: NumericStyling;
+	lineStringColor: HexColorStyling;
+	closingPointColor: HexColorStyling;
+	closingPointWidth: NumericStyling;
+	closingPointOutlineColor: HexColorStyling;
+	closingPointOutlineWidth: NumericStyling;
+};
+
+interface Cursors {
+	start?: Cursor;
+	close?: Cursor;
+}
+
+interface TerraDrawSplitModeOptions<T extends CustomStyling>
+	extends BaseModeOptions<T> {
+	modes?: string[];
+	keyEvents?: TerraDrawSplitModeKeyEvents | null;
+	cursors?: Cursors;
+	isEditable?: IsEditable;
+}
+
+// Tracked properties belong to the original feature, the parts get their own
+const UNCOPIED_PROPERTIES = [
+	"createdAt",
+	"updatedAt",
+	SELECT_PROPERTIES.SELECTED,
+] as string[];
+
+export class TerraDrawSplitMode extends TerraDrawBaseDrawMode<SplitStyling> {
+	mode = "split";
+
+	private currentId: FeatureId | undefined;
+	private closingPointId: FeatureId | undefined;
+	private targetId: FeatureId | undefined;
+	private featureAtPointerEvent!: FeatureAtPointerEventBehavior;
+	private keyEvents: TerraDrawSplitModeKeyEvents;
+	private cursors: Required<Cursors>;
+	private modes: string[] | undefined;
+	private isEditable: IsEditable | undefined;
+
+	constructor(options?: TerraDrawSplitModeOptions<SplitStyling>) {
+		super(options);
+
+		const defaultCursors = {
+			start: "crosshair",
+			close: "pointer",
+		} as Required<Cursors>;
+
+		if (options && options.cursors) {
+			this.cursors = { ...defaultCursors, ...options.cursors };
+		} else {
+			this.cursors = defaultCursors;
+		}
+
+		// We want to have some defaults, but also allow key bindings
+		// to be explicitly turned off
+		if (options?.keyEvents === null) {
+			this.keyEvents = { cancel: null, finish: null };
+		} else {
+			const defaultKeyEvents = { cancel: "Escape", finish: "Enter" };
+			this.keyEvents =
+				options && options.keyEvents
+					? { ...defaultKeyEvents, ...options.keyEvents }
+					: defaultKeyEvents;
+		}
+
+		this.modes = options?.modes;
+		this.isEditable = options?.isEditable;
+	}
+
+	/** @internal */
+	registerBehaviors(config: BehaviorConfig) {
+		this.featureAtPointerEvent = new FeatureAtPointerEventBehavior(
+			config,
+			new ClickBoundingBoxBehavior(config),
+			new PixelDistanceBehavior(config),
+		);
+	}
+
+	private getCuttingLine() {
+		if (this.currentId === undefined) {
+			return undefined;
+		}
+
+		return this.store.getGeometryCopy<LineString>(this.currentId).coordinates;
+	}
+
+	private close() {
+		const cuttingLine = this.getCuttingLine();
+
+		if (!cuttingLine) {
+			return;
+		}
+
+		// Remove the 'live' coordinate that follows the cursor
+		cuttingLine.pop();
+
+		this.cleanUpCuttingLine();
+
+		if (cuttingLine.length < 2) {
+			return;
+		}
+
+		this.split(cuttingLine);
+	}
+
+	private selectTarget(id: FeatureId) {
+		this.targetId = id;
+		this.store.updateProperty([
+			{ id, property: SELECT_PROPERTIES.SELECTED, value: true },
+		]);
+		this.onSelect(id);
+	}
+
+	private deselectTarget() {
+		const targetId = this.targetId;
+		this.targetId = undefined;
+
+		if (targetId === undefined || !this.store.has(targetId)) {
+			return;
+		}
+
+		this.store.updateProperty([
+			{ id: targetId, property: SELECT_PROPERTIES.SELECTED, value: false },
+		]);
+		this.onDeselect(targetId);
+	}
+
+	// Places the coordinates where the cutting line crosses a feature exactly on the
+	// crossed segment and keeps them within the coordinate precision
+	private refineIntersection: RefineIntersection = (coordinate, segment) => {
+		const nearest =
+			this.projection === "web-mercator"
+				? webMercatorNearestPointOnLine(coordinate, [segment])
+				: nearestPointOnLine(coordinate, [segment]);
+
+		const refined = nearest ? nearest.coordinate : coordinate;
+
+		return [
+			limitPrecision(refined[0], this.coordinatePrecision),
+			limitPrecision(refined[1], this.coordinatePrecision),
+		];
+	};
+
+	private isSplittable(feature: GeoJSONStoreFeatures) {
+		const mode = feature.properties.mode as string;
+
+		if (mode === this.mode || (this.modes && !this.modes.includes(mode))) {
+			return false;
+		}
+
+		if (
+			feature.geometry.type !== "LineString" &&
+			feature.geometry.type !== "Polygon"
+		) {
+			return false;
+		}
+
+		// Splitting is an edit, so locked features can not be split
+		if (feature.properties[SELECT_PROPERTIES.LOCKED]) {
+			return false;
+		}
+
+		return this.isEditable ? this.isEditable(feature, "split") : true;
+	}
+
+	private getSplitGeometries(
+		geometry: GeoJSONStoreGeometries,
+		cuttingLine: Position[],
+	): (LineString | Polygon)[] {
+		if (geometry.type === "LineString") {
+			return splitLineString(
+				geometry.coordinates,
+				cuttingLine,
+				this.refineIntersection,
+			).map((coordinates) => ({ type: "LineString", coordinates }));
+		} else if (geometry.type === "Polygon") {
+			return splitPolygon(
+				geometry.coordinates,
+				cuttingLine,
+				this.refineIntersection,
+			).map((coordinates) => ({ type: "Polygon", coordinates }));
+		}
+
+		return [];
+	}
+
+	private isValidPart(
+		id: FeatureId,
+		geometry: LineString | Polygon,
+		properties: GeoJSONStoreFeatures["properties"],
+	) {
+		const feature = {
+			id,
+			type: "Feature",
+			geometry,
+			properties,
+		} as GeoJSONStoreFeatures;
+
+		// The parts have to be valid features of the mode the original belongs to
+		if (!this.validateFeatureForMode(feature).valid) {
+			return false;
+		}
+
+		if (this.validate) {
+			return this.validate(feature, {
+				project: this.project,
+				unproject: this.unproject,
+				coordinatePrecision: this.coordinatePrecision,
+				updateType: UpdateTypes.Finish,
+			}).valid;
+		}
+
+		return true;
+	}
+
+	// Only the target feature is split, which stays selected if it can not be split
+	private split(cuttingLine: Position[]) {
+		const originalId = this.targetId;
+
+		if (originalId === undefined || !this.store.has(originalId)) {
+			return;
+		}
+
+		const geometry = this.store.getGeometryCopy(originalId);
+		const parts = this.getSplitGeometries(geometry, cuttingLine);
+
+		if (parts.length < 2) {
+			return;
+		}
+
+		const properties = this.store.getPropertiesCopy(originalId);
+		UNCOPIED_PROPERTIES.forEach((property) => {
+			delete properties[property];
+		});
+
+		if (
+			!parts.every((part) => this.isValidPart(originalId, part, properties))
+		) {
+			return;
+		}
+
+		this.deselectTarget();
+
+		const partIds = this.store.create(
+			parts.map((part) => ({ geometry: part, properties })),
+			{ action: "split", originIds: [originalId] },
+		);
+
+		this.store.delete([originalId], {
+			action: "split",
+			replacementIds: partIds,
+		});
+
+		partIds.forEach((partId) => {
+			this.onFinish(partId, { mode: this.mode, action: "split" });
+		});
+	}
+
+	/** @internal */
+	start() {
+		this.setStarted();
+		this.setCursor(this.cursors.start);
+	}
+
+	/** @internal */
+	stop() {
+		this.cleanUp();
+		this.setStopped();
+		this.setCursor("unset");
+	}
+
+	/** @internal */
+	onMouseMove(event: TerraDrawMouseEvent) {
+		this.setCursor(this.cursors.start);
+
+		const cuttingLine = this.getCuttingLine();
+
+		if (!cuttingLine || this.currentId === undefined) {
+			return;
+		}
+
+		// Replace the 'live' coordinate with the cursor position
+		cuttingLine.pop();
+
+		const [previousLng, previousLat] = cuttingLine[cuttingLine.length - 1];
+		const { x, y } = this.project(previousLng, previousLat);
+		const distance = cartesianDistance(
+			{ x, y },
+			{ x: event.containerX, y: event.containerY },
+		);
+
+		if (cuttingLine.length > 1 && distance < this.pointerDistance) {
+			this.setCursor(this.cursors.close);
+		}
+
+		this.store.updateGeometry([
+			{
+				id: this.currentId,
+				geometry: {
+					type: "LineString",
+					coordinates: [...cuttingLine, [event.lng, event.lat]],
+				},
+			},
+		]);
+	}
+
+	/** @internal */
+	onClick(event: TerraDrawMouseEvent) {
+		const coordinate = [event.lng, event.lat];
+
+		// The first click selects the feature to split, and the
+		// cutting line is drawn once a feature has been selected
+		if (this.targetId === undefined) {
+			const { clickedFeature } = this.featureAtPointerEvent.find(event, false);
+
+			if (clickedFeature && this.isSplittable(clickedFeature)) {
+				this.selectTarget(clickedFeature.id as FeatureId);
+			}
+			return;
+		}
+
+		if (this.currentId === undefined) {
+			const [createdId] = this.store.create([
+				{
+					geometry: {
+						type: "LineString",
+						coordinates: [coordinate, coordinate],
+					},
+					properties: { mode: this.mode },
+				},
+			]);
+
+			this.currentId = createdId;
+			this.setDrawing();
+			return;
+		}
+
+		const cuttingLine = this.getCuttingLine() as Position[];
+
+		// Remove the 'live' coordinate that follows the cursor
+		cuttingLine.pop();
+
+		const previousCoordinate = cuttingLine[cuttingLine.length - 1];
+		const { x, y } = this.project(previousCoordinate[0], previousCoordinate[1]);
+		const distance = cartesianDistance(
+			{ x, y },
+			{ x: event.containerX, y: event.containerY },
+		);
+
+		// Clicking the last coordinate again finishes the cutting line
+		if (distance < this.pointerDistance) {
+			if (cuttingLine.length > 1) {
+				this.close();
+			}
+			return;
+		}
+
+		this.store.updateGeometry([
+			{
+				id: this.currentId,
+				geometry: {
+					type: "LineString",
+					coordinates: [...cuttingLine, coordinate, coordinate],
+				},
+			},
+		]);
+
+		if (this.closingPointId === undefined) {
+			const [closingPointId] = this.store.create([
+				{
+					geometry: { type: "Point", coordinates: coordinate },
+					properties: {
+						mode: this.mode,
+						[COMMON_PROPERTIES.CLOSING_POINT]: true,
+					},
+				},
+			]);
+			this.closingPointId = closingPointId;
+		} else {
+			this.store.updateGeometry([
+				{
+					id: this.closingPointId,
+					geometry: { type: "Point", coordinates: coordinate },
+				},
+			]);
+		}
+
+		this.setCursor(this.cursors.close);
+	}
+
+	/** @internal */
+	onKeyDown() {}
+
+	/** @internal */
+	onKeyUp(event: TerraDrawKeyboardEvent) {
+		// Cancelling removes the cutting line, or deselects
+		// the selected feature if there is no cutting line
+		if (event.key === this.keyEvents.cancel) {
+			if (this.currentId !== undefined) {
+				this.cleanUpCuttingLine();
+			} else {
+				this.deselectTarget();
+			}
+		}
+
+		if (event.key === this.keyEvents.finish) {
+			this.close();
+		}
+	}
+
+	/** @internal */
+	onDoubleTap() {
+		this.close();
+	}
+
+	/** @internal */
+	onDragStart() {}
+
+	/** @internal */
+	onDrag() {}
+
+	/** @internal */
+	onDragEnd() {}
+
+	/** @internal */
+	cleanUp() {
+		this.cleanUpCuttingLine();
+		this.deselectTarget();
+	}
+
+	private cleanUpCuttingLine() {
+		const cleanUpId = this.currentId;
+		const cleanupClosingPointId = this.closingPointId;
+
+		this.currentId = undefined;
+		this.closingPointId = undefined;
+
+		if (this.state === "drawing") {
+			this.setStarted();
+		}
+
+		try {
+			if (cleanUpId !== undefined) {
+				this.store.delete([cleanUpId]);
+			}
+			if (cleanupClosingPointId !== undefined) {
+				this.store.delete([cleanupClosingPointId]);
+			}
+		} catch (error) {}
+	}
+
+	/** @internal */
+	styleFeature(feature: GeoJSONStoreFeatures): TerraDrawAdapterStyling {
+		const styles = { ...getDefaultStyling() };
+
+		if (
+			feature.type === "Feature" &&
+			feature.geometry.type === "LineString" &&
+			feature.properties.mode === this.mode
+		) {
+			styles.lineStringColor = this.getHexColorStylingValue(
+				this.styles.lineStringColor,
+				styles.lineStringColor,
+				feature,
+			);
+
+			styles.lineStringWidth = this.getNumericStylingValue(
+				this.styles.lineStringWidth,
+				styles.lineStringWidth,
+				feature,
+			);
+
+			styles.zIndex = 50;
+
+			return styles;
+		} else if (
+			feature.type === "Feature" &&
+			feature.geometry.type === "Point" &&
+			feature.properties.mode === this.mode
+		) {
+			styles.pointColor = this.getHexColorStylingValue(
+				this.styles.closingPointColor,
+				styles.pointColor,
+				feature,
+			);
+
+			styles.pointWidth = this.getNumericStylingValue(
+				this.styles.closingPointWidth,
+				styles.pointWidth,
+				feature,
+			);
+
+			styles.pointOutlineColor = this.getHexColorStylingValue(
+				this.styles.closingPointOutlineColor,
+				"#ffffff",
+				feature,
+			);
+
+			styles.pointOutlineWidth = this.getNumericStylingValue(
+				this.styles.closingPointOutlineWidth,
+				2,
+				feature,
+			);
+
+			styles.zIndex = 60;
+
+			return styles;
+		}
+
+		return styles;
+	}
+}
@@ -0,0 +1,30 @@
+import { COMMON_PROPERTIES, SELECT_PROPERTIES } from "../common";
+import { isGuidanceFeature } from "./guidance-feature";
+import { GeoJSONStoreFeatures } from "./store";
+
+describe("isGuidanceFeature", () => {
+	const point = (properties: GeoJSONStoreFeatures["properties"]) =>
+		({
+			type: "Feature",
+			geometry: { type: "Point", coordinates: [0, 0] },
+			properties,
+		}) as GeoJSONStoreFeatures;
+
+	it("returns false for features drawn by the user", () => {
+		expect(isGuidanceFeature(point({ mode: "point" }))).toBe(false);
+	});
+
+	it.each([
+		SELECT_PROPERTIES.MID_POINT,
+		SELECT_PROPERTIES.SELECTION_POINT,
+		SELECT_PROPERTIES.SELECTION_BOX,
+		COMMON_PROPERTIES.CLOSING_POINT,
+		COMMON_PROPERTIES.SNAPPING_POINT,
+		COMMON_PROPERTIES.MEASUREMENT_LABEL,
+		COMMON_PROPERTIES.CONTROL_POINT,
+	])("returns true for features with the %s property", (property) => {
+		expect(isGuidanceFeature(point({ mode: "test", [property]: true }))).toBe(
+			true,
+		);
+	});
+});
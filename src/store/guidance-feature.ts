@@ -0,0 +1,20 @@
+import { COMMON_PROPERTIES, SELECT_PROPERTIES } from "../common";
+import { GeoJSONStoreFeatures } from "./store";
+
+/**
+ * Guidance features are those which modes create to help the user draw and edit,
+ * such as selection points and closing points, rather than features the user has drawn
+ * @param feature - the feature to check
+ * @returns true if the feature is a guidance feature
+ */
+export function isGuidanceFeature(feature: GeoJSONStoreFeatures) {
+	return Boolean(
+		feature.properties[SELECT_PROPERTIES.MID_POINT] ||
+			feature.properties[SELECT_PROPERTIES.SELECTION_POINT] ||
+			feature.properties[SELECT_PROPERTIES.SELECTION_BOX] ||
+			feature.properties[COMMON_PROPERTIES.CLOSING_POINT] ||
+			feature.properties[COMMON_PROPERTIES.SNAPPING_POINT] ||
+			feature.properties[COMMON_PROPERTIES.MEASUREMENT_LABEL] ||
+			feature.properties[COMMON_PROPERTIES.CONTROL_POINT],
+	);
+}
@@ -0,0 +1,177 @@
+import { GeoJSONStoreFeatures } from "../store";
+import { csvToFeatures, featuresToCSV } from "./csv";
+
+describe("featuresToCSV", () => {
+	it("creates a row for each vertex", () => {
+		const csv = featuresToCSV([
+			{
+				id: "a",
+				type: "Feature",
+				geometry: {
+					type: "LineString",
+					coordinates: [
+						[0, 0],
+						[1, 1],
+					],
+				},
+				properties: { mode: "linestring" },
+			},
+			{
+				id: "b,c",
+				type: "Feature",
+				geometry: { type: "Point", coordinates: [1, 2] },
+				properties: { mode: "point" },
+			},
+		]);
+
+		expect(csv).toBe(
+			[
+				"featureId,geometryType,part,ring,vertex,lng,lat",
+				"a,LineString,0,0,0,0,0",
+				"a,LineString,0,0,1,1,1",
+				'"b,c",Point,0,0,0,1,2',
+			].join("\n"),
+		);
+	});
+});
+
+describe("csvToFeatures", () => {
+	it("round trips a vertex table", () => {
+		const geometries = [
+			{ type: "Point", coordinates: [1, 2] },
+			{
+				type: "LineString",
+				coordinates: [
+					[0, 0],
+					[1, 1],
+				],
+			},
+			{
+				type: "Polygon",
+				coordinates: [
+					[
+						[0, 0],
+						[0, 10],
+						[10, 10],
+						[0, 0],
+					],
+					[
+						[1, 1],
+						[1, 2],
+						[2, 2],
+						[1, 1],
+					],
+				],
+			},
+			{
+				type: "MultiPoint",
+				coordinates: [
+					[0, 0],
+					[1, 1],
+				],
+			},
+			{
+				type: "MultiLineString",
+				coordinates: [
+					[
+						[0, 0],
+						[1, 1],
+					],
+					[
+						[2, 2],
+						[3, 3],
+					],
+				],
+			},
+			{
+				type: "MultiPolygon",
+				coordinates: [
+					[
+						[
+							[0, 0],
+							[0, 1],
+							[1, 1],
+							[0, 0],
+						],
+					],
+					[
+						[
+							[2, 2],
+							[2, 3],
+							[3, 3],
+							[2, 2],
+						],
+					],
+				],
+			},
+		] as GeoJSONStoreFeatures["geometry"][];
+
+		const csv = featuresToCSV(
+			geometries.map((geometry, i) => ({
+				id: String(i),
+				type: "Feature",
+				geometry,
+				properties: {},
+			})),
+		);
+
+		expect(csvToFeatures(csv).map(({ geometry }) => geometry)).toStrictEqual(
+			geometries,
+		);
+	});
+
+	it("orders vertices by their index", () => {
+		const [feature] = csvToFeatures(
+			[
+				"featureId,geometryType,vertex,lng,lat",
+				"a,LineString,1,1,1",
+				"a,LineString,0,0,0",
+			].join("\r\n"),
+		);
+
+		expect(feature.geometry.coordinates).toStrictEqual([
+			[0, 0],
+			[1, 1],
+		]);
+	});
+
+	it("creates a point for each row of a table with longitude and latitude columns", () => {
+		const features = csvToFeatures(
+			["name,Longitude,Latitude", '"Stonehenge, UK",-1.826,51.179', ""].join(
+				"\n",
+			),
+		);
+
+		expect(features).toStrictEqual([
+			{
+				type: "Feature",
+				geometry: { type: "Point", coordinates: [-1.826, 51.179] },
+				properties: { name: "Stonehenge, UK" },
+			},
+		]);
+	});
+
+	it("returns no features for empty CSV", () => {
+		expect(csvToFeatures("")).toStrictEqual([]);
+	});
+
+	it("throws for CSV without coordinates", () => {
+		expect(() => csvToFeatures("name\nA")).toThrow(
+			"CSV must have longitude and latitude columns",
+		);
+		expect(() => csvToFeatures("name,lng,lat\nA,east,1")).toThrow(
+			"CSV lng values must be numbers",
+		);
+		expect(() => csvToFeatures('name,lng,lat\n"A,1,1')).toThrow(
+			"CSV has an unclosed quote",
+		);
+	});
+
+	it("throws for unsupported geometry types in a vertex table", () => {
+		expect(() =>
+			csvToFeatures(
+				"featureId,geometryType,vertex,lng,lat\na,GeometryCollection,0,0,0",
+			),
+		).toThrow("GeometryCollection is not a supported geometry type");
+	});
+});
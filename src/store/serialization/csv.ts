@@ -0,0 +1,261 @@
+import { Position } from "geojson";
+import {
+	GeoJSONStoreFeatures,
+	GeoJSONStoreGeometries,
+	JSONObject,
+} from "../store";
+import { getGeometryParts } from "../../geometry/geometry-parts";
+
+const VERTEX_COLUMNS = [
+	"featureId",
+	"geometryType",
+	"part",
+	"ring",
+	"vertex",
+	"lng",
+	"lat",
+];
+
+const LNG_COLUMNS = ["lng", "lon", "long", "longitude", "x"];
+const LAT_COLUMNS = ["lat", "latitude", "y"];
+
+function csvField(value: string | number) {
+	const text = String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Converts features to a CSV vertex table, with a row for every coordinate. Each row has
+ * the id of the feature, its geometry type, and the index of the part, ring and vertex
+ * the coordinate belongs to. Properties are not included.
+ * @param features - the features to convert
+ * @returns the CSV, with a header row
+ */
+export function featuresToCSV(features: GeoJSONStoreFeatures[]) {
+	const rows: (string | number)[][] = [VERTEX_COLUMNS];
+
+	features.forEach(({ id, geometry }) => {
+		const featureId = id === undefined ? "" : id;
+
+		getGeometryParts(geometry).forEach((part, partIndex) => {
+			const rings =
+				part.type === "Point"
+					? [[part.coordinates]]
+					: part.type === "LineString"
+					? [part.coordinates]
+					: part.coordinates;
+
+			rings.forEach((ring, ringIndex) => {
+				ring.forEach(([lng, lat], vertexIndex) => {
+					rows.push([
+						featureId,
+						geometry.type,
+						partIndex,
+						ringIndex,
+						vertexIndex,
+						lng,
+						lat,
+					]);
+				});
+			});
+		});
+	});
+
+	return rows.map((row) => row.map(csvField).join(",")).join("\n");
+}
+
+// Splits CSV into rows of fields, handling quoted fields which contain commas, quotes or new lines
+function parseCSV(text: string) {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let quoted = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && text[i + 1] === "\n") {
+				i++;
+			}
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+
+	if (quoted) {
+		throw new Error("CSV has an unclosed quote");
+	}
+
+	if (field.length || row.length) {
+		row.push(field);
+		rows.push(row);
+	}
+
+	// Blank lines are ignored
+	return rows.filter((fields) => fields.some((value) => value.trim().length));
+}
+
+function toNumber(value: string | undefined, column: string) {
+	const number = Number(value);
+	if (value === undefined || value.trim() === "" || isNaN(number)) {
+		throw new Error(`CSV ${column} values must be numbers`);
+	}
+	return number;
+}
+
+type VertexRow = {
+	part: number;
+	ring: number;
+	vertex: number;
+	position: Position;
+};
+
+// Nests the vertices of a geometry by their part, ring and vertex index
+function vertexRowsToGeometry(
+	type: string,
+	rows: VertexRow[],
+): GeoJSONStoreGeometries {
+	const parts: Position[][][] = [];
+
+	rows.forEach(({ part, ring, vertex, position }) => {
+		parts[part] = parts[part] || [];
+		parts[part][ring] = parts[part][ring] || [];
+		parts[part][ring][vertex] = position;
+	});
+
+	// Remove any gaps left by missing indexes
+	const compacted = parts
+		.filter(Boolean)
+		.map((rings) => rings.filter(Boolean).map((ring) => ring.filter(Boolean)));
+
+	switch (type) {
+		case "Point":
+			return { type, coordinates: compacted[0][0][0] };
+		case "LineString":
+			return { type, coordinates: compacted[0][0] };
+		case "Polygon":
+			return { type, coordinates: compacted[0] };
+		case "MultiPoint":
+			return { type, coordinates: compacted.map((rings) => rings[0][0]) };
+		case "MultiLineString":
+			return { type, coordinates: compacted.map((rings) => rings[0]) };
+		case "MultiPolygon":
+			return { type, coordinates: compacted };
+		default:
+			throw new Error(`${type} is not a supported geometry type`);
+	}
+}
+
+function vertexTableToFeatures(header: string[], rows: string[][]) {
+	const column = (name: string) => header.indexOf(name);
+	const [featureId, geometryType, part, ring, vertex] = [
+		"featureId",
+		"geometryType",
+		"part",
+		"ring",
+		"vertex",
+	].map(column);
+	const lng = column("lng");
+	const lat = column("lat");
+
+	const features: { type: string; rows: VertexRow[] }[] = [];
+	const featuresById: Record<string, { type: string; rows: VertexRow[] }> = {};
+
+	rows.forEach((row) => {
+		const id = row[featureId];
+		const type = row[geometryType];
+
+		if (!featuresById[id]) {
+			featuresById[id] = { type, rows: [] };
+			features.push(featuresById[id]);
+		}
+
+		featuresById[id].rows.push({
+			part: part === -1 ? 0 : toNumber(row[part], "part"),
+			ring: ring === -1 ? 0 : toNumber(row[ring], "ring"),
+			vertex: toNumber(row[vertex], "vertex"),
+			position: [toNumber(row[lng], "lng"), toNumber(row[lat], "lat")],
+		});
+	});
+
+	return features.map(
+		({ type, rows: vertexRows }): GeoJSONStoreFeatures => ({
+			type: "Feature",
+			geometry: vertexRowsToGeometry(type, vertexRows),
+			properties: {},
+		}),
+	);
+}
+
+function pointTableToFeatures(header: string[], rows: string[][]) {
+	const normalised = header.map((name) => name.trim().toLowerCase());
+	const lng = normalised.findIndex((name) => LNG_COLUMNS.includes(name));
+	const lat = normalised.findIndex((name) => LAT_COLUMNS.includes(name));
+
+	if (lng === -1 || lat === -1) {
+		throw new Error("CSV must have longitude and latitude columns");
+	}
+
+	return rows.map((row): GeoJSONStoreFeatures => {
+		const properties: JSONObject = {};
+		header.forEach((name, i) => {
+			if (i !== lng && i !== lat && row[i] !== undefined) {
+				properties[name] = row[i];
+			}
+		});
+
+		return {
+			type: "Feature",
+			geometry: {
+				type: "Point",
+				coordinates: [
+					toNumber(row[lng], header[lng]),
+					toNumber(row[lat], header[lat]),
+				],
+			},
+			properties,
+		};
+	});
+}
+
+/**
+ * Parses CSV into features. A vertex table, as created by featuresToCSV, has its rows
+ * grouped back into features by the featureId column. Any other CSV with longitude and
+ * latitude columns has a point created for each row, with the other columns as properties.
+ * @param text - the CSV to parse, which must have a header row
+ * @returns the features in the CSV
+ */
+export function csvToFeatures(text: string): GeoJSONStoreFeatures[] {
+	const [header, ...rows] = parseCSV(text);
+
+	if (!header) {
+		return [];
+	}
+
+	const isVertexTable = ["featureId", "geometryType", "vertex", "lng", "lat"]
+		.map((name) => header.indexOf(name))
+		.every((index) => index !== -1);
+
+	return isVertexTable
+		? vertexTableToFeatures(header, rows)
+		: pointTableToFeatures(header, rows);
+}
@@ -0,0 +1,161 @@
+/**
+ * @jest-environment jsdom
+ */
+import { featuresToGPX, gpxToFeatures } from "./gpx";
+
+describe("featuresToGPX", () => {
+	it("creates waypoints and tracks, leaving out polygons", () => {
+		const gpx = featuresToGPX([
+			{
+				type: "Feature",
+				geometry: {
+					type: "LineString",
+					coordinates: [
+						[0, 0],
+						[1, 1],
+					],
+				},
+				properties: { mode: "linestring", name: "Track" },
+			},
+			{
+				type: "Feature",
+				geometry: { type: "Point", coordinates: [1, 2] },
+				properties: { mode: "point" },
+			},
+			{
+				type: "Feature",
+				geometry: {
+					type: "Polygon",
+					coordinates: [
+						[
+							[0, 0],
+							[0, 1],
+							[1, 1],
+							[0, 0],
+						],
+					],
+				},
+				properties: { mode: "polygon" },
+			},
+		]);
+
+		expect(gpx).toBe(
+			'<?xml version="1.0" encoding="UTF-8"?><gpx version="1.1" creator="Terra Draw" xmlns="http://www.topografix.com/GPX/1/1"><wpt lat="2" lon="1"/><trk><name>Track</name><trkseg><trkpt lat="0" lon="0"/><trkpt lat="1" lon="1"/></trkseg></trk></gpx>',
+		);
+	});
+});
+
+describe("gpxToFeatures", () => {
+	it("round trips points, linestrings and multilinestrings", () => {
+		const features = gpxToFeatures(
+			featuresToGPX([
+				{
+					type: "Feature",
+					geometry: { type: "Point", coordinates: [1, 2] },
+					properties: { name: "Waypoint" },
+				},
+				{
+					type: "Feature",
+					geometry: {
+						type: "LineString",
+						coordinates: [
+							[0, 0],
+							[1, 1],
+						],
+					},
+					properties: {},
+				},
+				{
+					type: "Feature",
+					geometry: {
+						type: "MultiLineString",
+						coordinates: [
+							[
+								[0, 0],
+								[1, 1],
+							],
+							[
+								[2, 2],
+								[3, 3],
+							],
+						],
+					},
+					properties: {},
+				},
+			]),
+		);
+
+		expect(features).toStrictEqual([
+			{
+				type: "Feature",
+				geometry: { type: "Point", coordinates: [1, 2] },
+				properties: { name: "Waypoint" },
+			},
+			{
+				type: "Feature",
+				geometry: {
+					type: "LineString",
+					coordinates: [
+						[0, 0],
+						[1, 1],
+					],
+				},
+				properties: {},
+			},
+			{
+				type: "Feature",
+				geometry: {
+					type: "MultiLineString",
+					coordinates: [
+						[
+							[0, 0],
+							[1, 1],
+						],
+						[
+							[2, 2],
+							[3, 3],
+						],
+					],
+				},
+				properties: {},
+			},
+		]);
+	});
+
+	it("reads routes as linestrings", () => {
+		const [feature] = gpxToFeatures(`
+			<gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1">
+				<rte>
+					<name>Route</name>
+					<desc>A route</desc>
+					<rtept lat="0" lon="0"><ele>10</ele></rtept>
+					<rtept lat="1" lon="1"></rtept>
+				</rte>
+			</gpx>
+		`);
+
+		expect(feature).toStrictEqual({
+			type: "Feature",
+			geometry: {
+				type: "LineString",
+				coordinates: [
+					[0, 0],
+					[1, 1],
+				],
+			},
+			properties: { name: "Route", description: "A route" },
+		});
+	});
+
+	it("skips tracks without any points", () => {
+		expect(
+			gpxToFeatures("<gpx><trk><trkseg></trkseg></trk></gpx>"),
+		).toStrictEqual([]);
+	});
+
+	it("throws if the GPX can not be parsed", () => {
+		expect(() => gpxToFeatures("<gpx><wpt></gpx>")).toThrow(
+			"GPX could not be parsed",
+		);
+	});
+});
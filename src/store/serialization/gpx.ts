@@ -0,0 +1,142 @@
+import { Position } from "geojson";
+import { GeoJSONStoreFeatures, JSONObject } from "../store";
+import {
+	childElements,
+	childText,
+	descendantElements,
+	escapeXml,
+	parseXml,
+} from "./xml";
+
+function nameToGPX(properties: JSONObject) {
+	const { name } = properties;
+	return name !== undefined && name !== null
+		? `<name>${escapeXml(String(name))}</name>`
+		: "";
+}
+
+function pointToGPX(
+	tag: "wpt" | "trkpt",
+	[lng, lat]: Position,
+	properties?: JSONObject,
+) {
+	const name = properties ? nameToGPX(properties) : "";
+	return name
+		? `<${tag} lat="${lat}" lon="${lng}">${name}</${tag}>`
+		: `<${tag} lat="${lat}" lon="${lng}"/>`;
+}
+
+function trackToGPX(lines: Position[][], properties: JSONObject) {
+	const segments = lines
+		.map(
+			(line) =>
+				`<trkseg>${line
+					.map((position) => pointToGPX("trkpt", position))
+					.join("")}</trkseg>`,
+		)
+		.join("");
+
+	return `<trk>${nameToGPX(properties)}${segments}</trk>`;
+}
+
+/**
+ * Converts features to a GPX document. Points become waypoints and linestrings become
+ * tracks, with the name property kept as the name. GPX can not represent polygons, so
+ * polygons are not included.
+ * @param features - the features to convert
+ * @returns the GPX document
+ */
+export function featuresToGPX(features: GeoJSONStoreFeatures[]) {
+	const waypoints: string[] = [];
+	const tracks: string[] = [];
+
+	features.forEach(({ geometry, properties }) => {
+		if (geometry.type === "Point") {
+			waypoints.push(pointToGPX("wpt", geometry.coordinates, properties));
+		} else if (geometry.type === "MultiPoint") {
+			geometry.coordinates.forEach((coordinate) => {
+				waypoints.push(pointToGPX("wpt", coordinate, properties));
+			});
+		} else if (geometry.type === "LineString") {
+			tracks.push(trackToGPX([geometry.coordinates], properties));
+		} else if (geometry.type === "MultiLineString") {
+			tracks.push(trackToGPX(geometry.coordinates, properties));
+		}
+	});
+
+	// GPX requires waypoints to come before tracks
+	return `<?xml version="1.0" encoding="UTF-8"?><gpx version="1.1" creator="Terra Draw" xmlns="http://www.topografix.com/GPX/1/1">${waypoints.join(
+		"",
+	)}${tracks.join("")}</gpx>`;
+}
+
+function gpxPosition(point: Element): Position {
+	return [Number(point.getAttribute("lon")), Number(point.getAttribute("lat"))];
+}
+
+function gpxProperties(element: Element) {
+	const properties: JSONObject = {};
+
+	const name = childText(element, "name");
+	if (name !== undefined) {
+		properties.name = name;
+	}
+
+	const description = childText(element, "desc");
+	if (description !== undefined) {
+		properties.description = description;
+	}
+
+	return properties;
+}
+
+/**
+ * Parses a GPX document into features. Waypoints become points, routes become linestrings,
+ * and tracks become linestrings or multilinestrings depending on how many segments they have.
+ * @param text - the GPX to parse
+ * @returns the features in the GPX
+ */
+export function gpxToFeatures(text: string): GeoJSONStoreFeatures[] {
+	const document = parseXml(text, "GPX");
+	const features: GeoJSONStoreFeatures[] = [];
+
+	descendantElements(document, "wpt").forEach((waypoint) => {
+		features.push({
+			type: "Feature",
+			geometry: { type: "Point", coordinates: gpxPosition(waypoint) },
+			properties: gpxProperties(waypoint),
+		});
+	});
+
+	descendantElements(document, "rte").forEach((route) => {
+		features.push({
+			type: "Feature",
+			geometry: {
+				type: "LineString",
+				coordinates: childElements(route, "rtept").map(gpxPosition),
+			},
+			properties: gpxProperties(route),
+		});
+	});
+
+	descendantElements(document, "trk").forEach((track) => {
+		const segments = childElements(track, "trkseg")
+			.map((segment) => childElements(segment, "trkpt").map(gpxPosition))
+			.filter((segment) => segment.length);
+
+		if (!segments.length) {
+			return;
+		}
+
+		features.push({
+			type: "Feature",
+			geometry:
+				segments.length === 1
+					? { type: "LineString", coordinates: segments[0] }
+					: { type: "MultiLineString", coordinates: segments },
+			properties: gpxProperties(track),
+		});
+	});
+
+	return features;
+}
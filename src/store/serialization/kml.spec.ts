@@ -0,0 +1,152 @@
+/**
+ * @jest-environment jsdom
+ */
+import { GeoJSONStoreFeatures } from "../store";
+import { featuresToKML, kmlToFeatures } from "./kml";
+
+describe("featuresToKML", () => {
+	it("creates a Placemark for each feature", () => {
+		const kml = featuresToKML([
+			{
+				type: "Feature",
+				geometry: { type: "Point", coordinates: [1, 2] },
+				properties: { mode: "point", name: "A & B", height: 10 },
+			},
+		]);
+
+		expect(kml).toBe(
+			'<?xml version="1.0" encoding="UTF-8"?><kml xmlns="http://www.opengis.net/kml/2.2"><Document><Placemark><name>A &amp; B</name><ExtendedData><Data name="mode"><value>point</value></Data><Data name="height"><value>10</value></Data></ExtendedData><Point><coordinates>1,2</coordinates></Point></Placemark></Document></kml>',
+		);
+	});
+});
+
+describe("kmlToFeatures", () => {
+	it("round trips each type of geometry and the properties", () => {
+		const features: GeoJSONStoreFeatures[] = [
+			{ type: "Point", coordinates: [1, 2] },
+			{
+				type: "LineString",
+				coordinates: [
+					[0, 0],
+					[1, 1],
+				],
+			},
+			{
+				type: "Polygon",
+				coordinates: [
+					[
+						[0, 0],
+						[0, 10],
+						[10, 10],
+						[0, 0],
+					],
+					[
+						[1, 1],
+						[1, 2],
+						[2, 2],
+						[1, 1],
+					],
+				],
+			},
+			{
+				type: "MultiPoint",
+				coordinates: [
+					[0, 0],
+					[1, 1],
+				],
+			},
+			{
+				type: "MultiLineString",
+				coordinates: [
+					[
+						[0, 0],
+						[1, 1],
+					],
+					[
+						[2, 2],
+						[3, 3],
+					],
+				],
+			},
+			{
+				type: "MultiPolygon",
+				coordinates: [
+					[
+						[
+							[0, 0],
+							[0, 1],
+							[1, 1],
+							[0, 0],
+						],
+					],
+					[
+						[
+							[2, 2],
+							[2, 3],
+							[3, 3],
+							[2, 2],
+						],
+					],
+				],
+			},
+		].map((geometry) => ({
+			type: "Feature",
+			geometry: geometry as GeoJSONStoreFeatures["geometry"],
+			properties: { mode: "test", name: "feature", height: 10, open: true },
+		}));
+
+		expect(kmlToFeatures(featuresToKML(features))).toStrictEqual(features);
+	});
+
+	it("reads the description, SimpleData and altitudes", () => {
+		const [feature] = kmlToFeatures(`
+			<kml xmlns="http://www.opengis.net/kml/2.2">
+				<Placemark>
+					<description>A place</description>
+					<ExtendedData>
+						<SchemaData><SimpleData name="kind">park</SimpleData></SchemaData>
+					</ExtendedData>
+					<Point><coordinates>1,2,100</coordinates></Point>
+				</Placemark>
+			</kml>
+		`);
+
+		expect(feature).toStrictEqual({
+			type: "Feature",
+			geometry: { type: "Point", coordinates: [1, 2] },
+			properties: { description: "A place", kind: "park" },
+		});
+	});
+
+	it("splits a MultiGeometry of different geometry types into separate features", () => {
+		const features = kmlToFeatures(`
+			<kml xmlns="http://www.opengis.net/kml/2.2">
+				<Placemark>
+					<name>Mixed</name>
+					<MultiGeometry>
+						<Point><coordinates>1,2</coordinates></Point>
+						<LineString><coordinates>0,0 1,1</coordinates></LineString>
+					</MultiGeometry>
+				</Placemark>
+			</kml>
+		`);
+
+		expect(features.map(({ geometry }) => geometry.type)).toStrictEqual([
+			"Point",
+			"LineString",
+		]);
+		expect(features[1].properties.name).toBe("Mixed");
+	});
+
+	it("skips Placemarks without a geometry", () => {
+		expect(
+			kmlToFeatures(`<kml><Placemark><name>Empty</name></Placemark></kml>`),
+		).toStrictEqual([]);
+	});
+
+	it("throws if the KML can not be parsed", () => {
+		expect(() => kmlToFeatures("<kml><Placemark></kml>")).toThrow(
+			"KML could not be parsed",
+		);
+	});
+});
@@ -0,0 +1,273 @@
+import { Position } from "geojson";
+import {
+	GeoJSONStoreFeatures,
+	GeoJSONStoreGeometries,
+	JSONObject,
+} from "../store";
+import {
+	childElements,
+	childText,
+	descendantElements,
+	escapeXml,
+	parseXml,
+} from "./xml";
+
+function positionsToKML(positions: Position[]) {
+	return `<coordinates>${positions
+		.map(([lng, lat]) => `${lng},${lat}`)
+		.join(" ")}</coordinates>`;
+}
+
+function polygonToKML(rings: Position[][]) {
+	const [outer, ...holes] = rings;
+	return (
+		`<Polygon><outerBoundaryIs><LinearRing>${positionsToKML(
+			outer,
+		)}</LinearRing></outerBoundaryIs>` +
+		holes
+			.map(
+				(hole) =>
+					`<innerBoundaryIs><LinearRing>${positionsToKML(
+						hole,
+					)}</LinearRing></innerBoundaryIs>`,
+			)
+			.join("") +
+		`</Polygon>`
+	);
+}
+
+function geometryToKML(geometry: GeoJSONStoreGeometries): string {
+	switch (geometry.type) {
+		case "Point":
+			return `<Point>${positionsToKML([geometry.coordinates])}</Point>`;
+		case "LineString":
+			return `<LineString>${positionsToKML(geometry.coordinates)}</LineString>`;
+		case "Polygon":
+			return polygonToKML(geometry.coordinates);
+		case "MultiPoint":
+			return `<MultiGeometry>${geometry.coordinates
+				.map((coordinates) => geometryToKML({ type: "Point", coordinates }))
+				.join("")}</MultiGeometry>`;
+		case "MultiLineString":
+			return `<MultiGeometry>${geometry.coordinates
+				.map((coordinates) =>
+					geometryToKML({ type: "LineString", coordinates }),
+				)
+				.join("")}</MultiGeometry>`;
+		case "MultiPolygon":
+			return `<MultiGeometry>${geometry.coordinates
+				.map(polygonToKML)
+				.join("")}</MultiGeometry>`;
+	}
+}
+
+function propertiesToKML(properties: JSONObject) {
+	const { name, ...rest } = properties;
+
+	const nameElement =
+		name !== undefined && name !== null
+			? `<name>${escapeXml(String(name))}</name>`
+			: "";
+
+	const data = Object.keys(rest)
+		.filter((key) => rest[key] !== undefined)
+		.map((key) => {
+			const value = rest[key];
+			const text = typeof value === "string" ? value : JSON.stringify(value);
+			return `<Data name="${escapeXml(key)}"><value>${escapeXml(
+				text,
+			)}</value></Data>`;
+		})
+		.join("");
+
+	return nameElement + (data ? `<ExtendedData>${data}</ExtendedData>` : "");
+}
+
+/**
+ * Converts features to a KML document, with a Placemark for each feature. The name
+ * property becomes the name of the Placemark and the other properties are kept as ExtendedData.
+ * @param features - the features to convert
+ * @returns the KML document
+ */
+export function featuresToKML(features: GeoJSONStoreFeatures[]) {
+	const placemarks = features
+		.map(
+			({ geometry, properties }) =>
+				`<Placemark>${propertiesToKML(properties)}${geometryToKML(
+					geometry,
+				)}</Placemark>`,
+		)
+		.join("");
+
+	return `<?xml version="1.0" encoding="UTF-8"?><kml xmlns="http://www.opengis.net/kml/2.2"><Document>${placemarks}</Document></kml>`;
+}
+
+function kmlPositions(element: Element): Position[] {
+	const text = childText(element, "coordinates") || "";
+	return text
+		.split(/\s+/)
+		.filter((tuple) => tuple.length)
+		.map((tuple) => {
+			// Any altitude is dropped
+			const [lng, lat] = tuple.split(",").map(Number);
+			return [lng, lat];
+		});
+}
+
+function kmlRing(boundary: Element) {
+	const [ring] = childElements(boundary, "LinearRing");
+	return ring ? kmlPositions(ring) : [];
+}
+
+function kmlGeometries(element: Element): GeoJSONStoreGeometries[] {
+	switch (element.localName) {
+		case "Point":
+			return [{ type: "Point", coordinates: kmlPositions(element)[0] }];
+		case "LineString":
+			return [{ type: "LineString", coordinates: kmlPositions(element) }];
+		case "LinearRing":
+			return [{ type: "Polygon", coordinates: [kmlPositions(element)] }];
+		case "Polygon":
+			return [
+				{
+					type: "Polygon",
+					coordinates: childElements(element, "outerBoundaryIs")
+						.concat(childElements(element, "innerBoundaryIs"))
+						.map(kmlRing),
+				},
+			];
+		case "MultiGeometry":
+			return combineGeometries(
+				childElements(element).reduce<GeoJSONStoreGeometries[]>(
+					(geometries, child) => geometries.concat(kmlGeometries(child)),
+					[],
+				),
+			);
+		default:
+			return [];
+	}
+}
+
+// A MultiGeometry of the same type of geometry becomes a multi geometry,
+// otherwise each of the geometries becomes a separate feature
+function combineGeometries(
+	geometries: GeoJSONStoreGeometries[],
+): GeoJSONStoreGeometries[] {
+	if (geometries.length < 2) {
+		return geometries;
+	}
+
+	const [{ type }] = geometries;
+	if (!geometries.every((geometry) => geometry.type === type)) {
+		return geometries;
+	}
+
+	if (type === "Point") {
+		return [
+			{
+				type: "MultiPoint",
+				coordinates: geometries.map(
+					({ coordinates }) => coordinates as Position,
+				),
+			},
+		];
+	} else if (type === "LineString") {
+		return [
+			{
+				type: "MultiLineString",
+				coordinates: geometries.map(
+					({ coordinates }) => coordinates as Position[],
+				),
+			},
+		];
+	} else if (type === "Polygon") {
+		return [
+			{
+				type: "MultiPolygon",
+				coordinates: geometries.map(
+					({ coordinates }) => coordinates as Position[][],
+				),
+			},
+		];
+	}
+
+	return geometries;
+}
+
+// Properties that are not strings are written as JSON, so they are read back in the same way
+function parseDataValue(value: string): JSONObject[string] {
+	try {
+		return JSON.parse(value);
+	} catch (error) {
+		return value;
+	}
+}
+
+function kmlProperties(placemark: Element) {
+	const properties: JSONObject = {};
+
+	const name = childText(placemark, "name");
+	if (name !== undefined) {
+		properties.name = name;
+	}
+
+	const description = childText(placemark, "description");
+	if (description !== undefined) {
+		properties.description = description;
+	}
+
+	descendantElements(placemark, "Data").forEach((data) => {
+		const key = data.getAttribute("name");
+		const value = childText(data, "value");
+		if (key && value !== undefined) {
+			properties[key] = parseDataValue(value);
+		}
+	});
+
+	descendantElements(placemark, "SimpleData").forEach((data) => {
+		const key = data.getAttribute("name");
+		if (key && data.textContent !== null) {
+			properties[key] = data.textContent.trim();
+		}
+	});
+
+	return properties;
+}
+
+const KML_GEOMETRIES = [
+	"Point",
+	"LineString",
+	"LinearRing",
+	"Polygon",
+	"MultiGeometry",
+];
+
+/**
+ * Parses a KML document into features, with a feature for each Placemark. The name,
+ * description and ExtendedData of a Placemark become the properties of the feature,
+ * where ExtendedData values which are valid JSON, such as numbers, are parsed.
+ * @param text - the KML to parse
+ * @returns the features in the KML
+ */
+export function kmlToFeatures(text: string): GeoJSONStoreFeatures[] {
+	const document = parseXml(text, "KML");
+	const features: GeoJSONStoreFeatures[] = [];
+
+	descendantElements(document, "Placemark").forEach((placemark) => {
+		const properties = kmlProperties(placemark);
+
+		childElements(placemark)
+			.filter(({ localName }) => KML_GEOMETRIES.includes(localName))
+			.forEach((element) => {
+				kmlGeometries(element).forEach((geometry) => {
+					features.push({
+						type: "Feature",
+						geometry,
+						properties: { ...properties },
+					});
+				});
+			});
+	});
+
+	return features;
+}
@@ -0,0 +1,49 @@
+import { DEFAULT_IMPORT_MODES, assignImportModes } from "./serialization";
+
+describe("assignImportModes", () => {
+	it("assigns modes by geometry type to features without a mode", () => {
+		const features = assignImportModes(
+			[
+				{
+					type: "Feature",
+					geometry: {
+						type: "MultiLineString",
+						coordinates: [
+							[
+								[0, 0],
+								[1, 1],
+							],
+						],
+					},
+					properties: { name: "a" },
+				},
+				{
+					type: "Feature",
+					geometry: { type: "Point", coordinates: [0, 0] },
+					properties: {},
+				},
+			],
+			{ ...DEFAULT_IMPORT_MODES, Point: "marker" },
+		);
+
+		expect(features.map(({ properties }) => properties)).toStrictEqual([
+			{ name: "a", mode: "linestring" },
+			{ mode: "marker" },
+		]);
+	});
+
+	it("keeps the mode of features which already have one", () => {
+		const [feature] = assignImportModes(
+			[
+				{
+					type: "Feature",
+					geometry: { type: "Point", coordinates: [0, 0] },
+					properties: { mode: "sensor" },
+				},
+			],
+			DEFAULT_IMPORT_MODES,
+		);
+
+		expect(feature.properties.mode).toBe("sensor");
+	});
+});
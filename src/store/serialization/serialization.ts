@@ -0,0 +1,62 @@
+import { GeoJSONStoreFeatures } from "../store";
+import { SingleGeometry } from "../../geometry/geometry-parts";
+import { featuresToKML, kmlToFeatures } from "./kml";
+import { featuresToGPX, gpxToFeatures } from "./gpx";
+import { featuresToWKT, wktToFeatures } from "./wkt";
+import { featuresToWKBHex, wkbHexToFeatures } from "./wkb";
+import { csvToFeatures, featuresToCSV } from "./csv";
+
+export type TerraDrawSerializer = {
+	// Converts features from the store to text in the format
+	serialize: (features: GeoJSONStoreFeatures[]) => string;
+	// Parses text in the format to features, which are validated when they are added to the store
+	deserialize: (text: string) => GeoJSONStoreFeatures[];
+};
+
+export type BuiltInFormat = "kml" | "gpx" | "wkt" | "wkb" | "csv";
+
+export const BUILT_IN_SERIALIZERS: Record<BuiltInFormat, TerraDrawSerializer> =
+	{
+		kml: { serialize: featuresToKML, deserialize: kmlToFeatures },
+		gpx: { serialize: featuresToGPX, deserialize: gpxToFeatures },
+		wkt: { serialize: featuresToWKT, deserialize: wktToFeatures },
+		wkb: { serialize: featuresToWKBHex, deserialize: wkbHexToFeatures },
+		csv: { serialize: featuresToCSV, deserialize: csvToFeatures },
+	};
+
+// The mode imported features are added to, for each type of geometry
+export type ImportModes = Record<SingleGeometry["type"], string>;
+
+export const DEFAULT_IMPORT_MODES: ImportModes = {
+	Point: "point",
+	LineString: "linestring",
+	Polygon: "polygon",
+};
+
+/**
+ * Assigns a mode to any of the features that do not already have one, based on their geometry type.
+ * Multi geometries are assigned the same mode as their single geometry type.
+ * @param features - the imported features
+ * @param modes - the mode to use for each type of geometry
+ * @returns the features, all with a mode property
+ */
+export function assignImportModes(
+	features: GeoJSONStoreFeatures[],
+	modes: ImportModes,
+): GeoJSONStoreFeatures[] {
+	return features.map((feature) => {
+		if (typeof feature.properties.mode === "string") {
+			return feature;
+		}
+
+		const singleType = feature.geometry.type.replace(
+			"Multi",
+			"",
+		) as SingleGeometry["type"];
+
+		return {
+			...feature,
+			properties: { ...feature.properties, mode: modes[singleType] },
+		};
+	});
+}
@@ -0,0 +1,133 @@
+import { GeoJSONStoreFeatures } from "../store";
+import { featuresToWKBHex, geometryToWKBHex, wkbHexToFeatures } from "./wkb";
+
+describe("geometryToWKBHex", () => {
+	it("converts a Point to little endian WKB", () => {
+		expect(geometryToWKBHex({ type: "Point", coordinates: [1, 2] })).toBe(
+			"0101000000000000000000f03f0000000000000040",
+		);
+	});
+});
+
+describe("featuresToWKBHex", () => {
+	it("puts each geometry on its own line", () => {
+		const features: GeoJSONStoreFeatures[] = [
+			{
+				type: "Feature",
+				geometry: { type: "Point", coordinates: [1, 2] },
+				properties: { mode: "point" },
+			},
+			{
+				type: "Feature",
+				geometry: { type: "Point", coordinates: [1, 2] },
+				properties: { mode: "point" },
+			},
+		];
+
+		expect(featuresToWKBHex(features).split("\n")).toHaveLength(2);
+	});
+});
+
+describe("wkbHexToFeatures", () => {
+	it("round trips each type of geometry", () => {
+		const geometries = [
+			{ type: "Point", coordinates: [1.5, -2.25] },
+			{
+				type: "LineString",
+				coordinates: [
+					[0, 0],
+					[1, 1],
+				],
+			},
+			{
+				type: "Polygon",
+				coordinates: [
+					[
+						[0, 0],
+						[0, 1],
+						[1, 1],
+						[0, 0],
+					],
+				],
+			},
+			{
+				type: "MultiPoint",
+				coordinates: [
+					[0, 0],
+					[1, 1],
+				],
+			},
+			{
+				type: "MultiLineString",
+				coordinates: [
+					[
+						[0, 0],
+						[1, 1],
+					],
+				],
+			},
+			{
+				type: "MultiPolygon",
+				coordinates: [
+					[
+						[
+							[0, 0],
+							[0, 1],
+							[1, 1],
+							[0, 0],
+						],
+					],
+				],
+			},
+		] as GeoJSONStoreFeatures["geometry"][];
+
+		const hex = geometries.map(geometryToWKBHex).join("\n");
+
+		expect(wkbHexToFeatures(hex).map(({ geometry }) => geometry)).toStrictEqual(
+			geometries,
+		);
+	});
+
+	it("parses big endian WKB", () => {
+		expect(
+			wkbHexToFeatures("00000000013ff00000000000004000000000000000")[0]
+				.geometry,
+		).toStrictEqual({ type: "Point", coordinates: [1, 2] });
+	});
+
+	it("parses EWKB with a SRID and Z values", () => {
+		// POINT Z (1 2 3) with SRID 4326
+		expect(
+			wkbHexToFeatures(
+				"01010000a0e6100000000000000000f03f00000000000000400000000000000840",
+			)[0].geometry,
+		).toStrictEqual({ type: "Point", coordinates: [1, 2] });
+	});
+
+	it("parses ISO WKB with Z values", () => {
+		// POINT Z (1 2 3)
+		expect(
+			wkbHexToFeatures(
+				"01e9030000000000000000f03f00000000000000400000000000000840",
+			)[0].geometry,
+		).toStrictEqual({ type: "Point", coordinates: [1, 2] });
+	});
+
+	it("splits geometry collections into separate features", () => {
+		// GEOMETRYCOLLECTION (POINT (1 2), POINT (1 2))
+		const point = "0101000000000000000000f03f0000000000000040";
+		const features = wkbHexToFeatures(`010700000002000000${point}${point}`);
+
+		expect(features).toHaveLength(2);
+	});
+
+	it("throws for invalid WKB", () => {
+		expect(() => wkbHexToFeatures("not hex")).toThrow(
+			"WKB must be a hex string",
+		);
+		expect(() => wkbHexToFeatures("01010000")).toThrow("Unexpected end of WKB");
+		expect(() => wkbHexToFeatures("0108000000")).toThrow(
+			"8 is not a supported WKB geometry type",
+		);
+	});
+});
@@ -0,0 +1,292 @@
+import { LineString, Point, Polygon, Position } from "geojson";
+import { GeoJSONStoreFeatures, GeoJSONStoreGeometries } from "../store";
+
+const WKB_TYPES = {
+	Point: 1,
+	LineString: 2,
+	Polygon: 3,
+	MultiPoint: 4,
+	MultiLineString: 5,
+	MultiPolygon: 6,
+	GeometryCollection: 7,
+} as const;
+
+// Extended WKB, as used by PostGIS, marks the dimensions and SRID with flags on the type
+const EWKB_Z_FLAG = 0x80000000;
+const EWKB_M_FLAG = 0x40000000;
+const EWKB_SRID_FLAG = 0x20000000;
+
+class WKBWriter {
+	private bytes: number[] = [];
+
+	private writeUint32(value: number) {
+		const view = new DataView(new ArrayBuffer(4));
+		view.setUint32(0, value, true);
+		for (let i = 0; i < 4; i++) {
+			this.bytes.push(view.getUint8(i));
+		}
+	}
+
+	private writePosition(position: Position) {
+		const view = new DataView(new ArrayBuffer(16));
+		view.setFloat64(0, position[0], true);
+		view.setFloat64(8, position[1], true);
+		for (let i = 0; i < 16; i++) {
+			this.bytes.push(view.getUint8(i));
+		}
+	}
+
+	private writePositions(positions: Position[]) {
+		this.writeUint32(positions.length);
+		positions.forEach((position) => this.writePosition(position));
+	}
+
+	private writeRings(rings: Position[][]) {
+		this.writeUint32(rings.length);
+		rings.forEach((ring) => this.writePositions(ring));
+	}
+
+	private writeHeader(type: keyof typeof WKB_TYPES) {
+		// Always written little endian
+		this.bytes.push(1);
+		this.writeUint32(WKB_TYPES[type]);
+	}
+
+	public writeGeometry(geometry: GeoJSONStoreGeometries) {
+		this.writeHeader(geometry.type);
+
+		switch (geometry.type) {
+			case "Point":
+				this.writePosition(geometry.coordinates);
+				break;
+			case "LineString":
+				this.writePositions(geometry.coordinates);
+				break;
+			case "Polygon":
+				this.writeRings(geometry.coordinates);
+				break;
+			case "MultiPoint":
+				this.writeUint32(geometry.coordinates.length);
+				geometry.coordinates.forEach((coordinates) =>
+					this.writeGeometry({ type: "Point", coordinates }),
+				);
+				break;
+			case "MultiLineString":
+				this.writeUint32(geometry.coordinates.length);
+				geometry.coordinates.forEach((coordinates) =>
+					this.writeGeometry({ type: "LineString", coordinates }),
+				);
+				break;
+			case "MultiPolygon":
+				this.writeUint32(geometry.coordinates.length);
+				geometry.coordinates.forEach((coordinates) =>
+					this.writeGeometry({ type: "Polygon", coordinates }),
+				);
+				break;
+		}
+	}
+
+	public toHex() {
+		return this.bytes
+			.map((byte) => (byte < 16 ? "0" : "") + byte.toString(16))
+			.join("");
+	}
+}
+
+/**
+ * Converts a geometry to little endian Well Known Binary (WKB), encoded as hex
+ * @param geometry - the geometry to convert
+ * @returns the WKB as a hex string
+ */
+export function geometryToWKBHex(geometry: GeoJSONStoreGeometries) {
+	const writer = new WKBWriter();
+	writer.writeGeometry(geometry);
+	return writer.toHex();
+}
+
+/**
+ * Converts features to hex encoded WKB, with the geometry of each feature on its own line.
+ * WKB only describes geometries, so the properties of the features are not included.
+ * @param features - the features to convert
+ * @returns the hex encoded WKB for the features
+ */
+export function featuresToWKBHex(features: GeoJSONStoreFeatures[]) {
+	return features.map(({ geometry }) => geometryToWKBHex(geometry)).join("\n");
+}
+
+class WKBReader {
+	private view: DataView;
+	private offset = 0;
+	private littleEndian = true;
+
+	constructor(hex: string) {
+		if (hex.length % 2 !== 0 || /[^0-9a-f]/i.test(hex)) {
+			throw new Error("WKB must be a hex string");
+		}
+
+		const bytes = new Uint8Array(hex.length / 2);
+		for (let i = 0; i < bytes.length; i++) {
+			bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+		}
+		this.view = new DataView(bytes.buffer);
+	}
+
+	public isFinished() {
+		return this.offset >= this.view.byteLength;
+	}
+
+	private ensureBytes(count: number) {
+		if (this.offset + count > this.view.byteLength) {
+			throw new Error("Unexpected end of WKB");
+		}
+	}
+
+	private readUint32() {
+		this.ensureBytes(4);
+		const value = this.view.getUint32(this.offset, this.littleEndian);
+		this.offset += 4;
+		return value;
+	}
+
+	private readFloat64() {
+		this.ensureBytes(8);
+		const value = this.view.getFloat64(this.offset, this.littleEndian);
+		this.offset += 8;
+		return value;
+	}
+
+	private readPosition(dimensions: number): Position {
+		const position = [this.readFloat64(), this.readFloat64()];
+
+		// Only the longitude and latitude are kept, dropping any Z or M values
+		for (let i = 2; i < dimensions; i++) {
+			this.readFloat64();
+		}
+
+		return position;
+	}
+
+	private readPositions(dimensions: number) {
+		const positions: Position[] = [];
+		const count = this.readUint32();
+		for (let i = 0; i < count; i++) {
+			positions.push(this.readPosition(dimensions));
+		}
+		return positions;
+	}
+
+	private readRings(dimensions: number) {
+		const rings: Position[][] = [];
+		const count = this.readUint32();
+		for (let i = 0; i < count; i++) {
+			rings.push(this.readPositions(dimensions));
+		}
+		return rings;
+	}
+
+	private readParts<T extends GeoJSONStoreGeometries>(
+		type: T["type"],
+	): T["coordinates"][] {
+		const parts: T["coordinates"][] = [];
+		const count = this.readUint32();
+		for (let i = 0; i < count; i++) {
+			const [part] = this.readGeometries();
+			if (!part || part.type !== type) {
+				throw new Error(`Expected a ${type} in WKB`);
+			}
+			parts.push(part.coordinates as T["coordinates"]);
+		}
+		return parts;
+	}
+
+	/**
+	 * Reads the next geometry from the WKB
+	 * @returns the geometries read, where geometry collections are read as each of their geometries
+	 */
+	public readGeometries(): GeoJSONStoreGeometries[] {
+		this.ensureBytes(1);
+		this.littleEndian = this.view.getUint8(this.offset) === 1;
+		this.offset += 1;
+
+		const rawType = this.readUint32();
+
+		if (rawType & EWKB_SRID_FLAG) {
+			this.readUint32();
+		}
+
+		// ISO WKB adds 1000 to the type for Z, 2000 for M and 3000 for both
+		const isoType = rawType & 0x0fffffff;
+		const type = isoType % 1000;
+		const isoDimensions = Math.floor(isoType / 1000);
+		const hasZ = Boolean(rawType & EWKB_Z_FLAG) || isoDimensions % 2 === 1;
+		const hasM = Boolean(rawType & EWKB_M_FLAG) || isoDimensions >= 2;
+		const dimensions = 2 + (hasZ ? 1 : 0) + (hasM ? 1 : 0);
+
+		switch (type) {
+			case WKB_TYPES.Point: {
+				const coordinates = this.readPosition(dimensions);
+				// Empty points are written with NaN coordinates
+				return isNaN(coordinates[0]) ? [] : [{ type: "Point", coordinates }];
+			}
+			case WKB_TYPES.LineString:
+				return [
+					{ type: "LineString", coordinates: this.readPositions(dimensions) },
+				];
+			case WKB_TYPES.Polygon:
+				return [{ type: "Polygon", coordinates: this.readRings(dimensions) }];
+			case WKB_TYPES.MultiPoint:
+				return [
+					{ type: "MultiPoint", coordinates: this.readParts<Point>("Point") },
+				];
+			case WKB_TYPES.MultiLineString:
+				return [
+					{
+						type: "MultiLineString",
+						coordinates: this.readParts<LineString>("LineString"),
+					},
+				];
+			case WKB_TYPES.MultiPolygon:
+				return [
+					{
+						type: "MultiPolygon",
+						coordinates: this.readParts<Polygon>("Polygon"),
+					},
+				];
+			case WKB_TYPES.GeometryCollection: {
+				const geometries: GeoJSONStoreGeometries[] = [];
+				const count = this.readUint32();
+				for (let i = 0; i < count; i++) {
+					geometries.push(...this.readGeometries());
+				}
+				return geometries;
+			}
+			default:
+				throw new Error(`${type} is not a supported WKB geometry type`);
+		}
+	}
+}
+
+/**
+ * Parses hex encoded WKB into features. Any number of geometries can be given,
+ * separated by whitespace, and both standard and extended (EWKB) WKB are supported.
+ * The geometries of a geometry collection become separate features.
+ * @param text - the hex encoded WKB to parse
+ * @returns a feature without properties for each geometry
+ */
+export function wkbHexToFeatures(text: string): GeoJSONStoreFeatures[] {
+	const features: GeoJSONStoreFeatures[] = [];
+
+	text
+		.split(/\s+/)
+		.filter((hex) => hex.length)
+		.forEach((hex) => {
+			const reader = new WKBReader(hex);
+			while (!reader.isFinished()) {
+				reader.readGeometries().forEach((geometry) => {
+					features.push({ type: "Feature", geometry, properties: {} });
+				});
+			}
+		});
+
+	return features;
+}
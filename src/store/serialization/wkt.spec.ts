@@ -0,0 +1,216 @@
+import { GeoJSONStoreFeatures } from "../store";
+import { featuresToWKT, geometryToWKT, wktToFeatures } from "./wkt";
+
+describe("geometryToWKT", () => {
+	it("converts a Point", () => {
+		expect(geometryToWKT({ type: "Point", coordinates: [1, 2] })).toBe(
+			"POINT (1 2)",
+		);
+	});
+
+	it("converts a LineString", () => {
+		expect(
+			geometryToWKT({
+				type: "LineString",
+				coordinates: [
+					[0, 0],
+					[1, 1],
+				],
+			}),
+		).toBe("LINESTRING (0 0, 1 1)");
+	});
+
+	it("converts a Polygon with a hole", () => {
+		expect(
+			geometryToWKT({
+				type: "Polygon",
+				coordinates: [
+					[
+						[0, 0],
+						[0, 10],
+						[10, 10],
+						[0, 0],
+					],
+					[
+						[1, 1],
+						[1, 2],
+						[2, 2],
+						[1, 1],
+					],
+				],
+			}),
+		).toBe("POLYGON ((0 0, 0 10, 10 10, 0 0), (1 1, 1 2, 2 2, 1 1))");
+	});
+
+	it("converts multi geometries", () => {
+		expect(
+			geometryToWKT({
+				type: "MultiPoint",
+				coordinates: [
+					[0, 0],
+					[1, 1],
+				],
+			}),
+		).toBe("MULTIPOINT (0 0, 1 1)");
+
+		expect(
+			geometryToWKT({
+				type: "MultiLineString",
+				coordinates: [
+					[
+						[0, 0],
+						[1, 1],
+					],
+					[
+						[2, 2],
+						[3, 3],
+					],
+				],
+			}),
+		).toBe("MULTILINESTRING ((0 0, 1 1), (2 2, 3 3))");
+
+		expect(
+			geometryToWKT({
+				type: "MultiPolygon",
+				coordinates: [
+					[
+						[
+							[0, 0],
+							[0, 1],
+							[1, 1],
+							[0, 0],
+						],
+					],
+				],
+			}),
+		).toBe("MULTIPOLYGON (((0 0, 0 1, 1 1, 0 0)))");
+	});
+});
+
+describe("featuresToWKT", () => {
+	it("puts each geometry on its own line", () => {
+		const features: GeoJSONStoreFeatures[] = [
+			{
+				type: "Feature",
+				geometry: { type: "Point", coordinates: [1, 2] },
+				properties: { mode: "point" },
+			},
+			{
+				type: "Feature",
+				geometry: { type: "Point", coordinates: [3, 4] },
+				properties: { mode: "point" },
+			},
+		];
+
+		expect(featuresToWKT(features)).toBe("POINT (1 2)\nPOINT (3 4)");
+	});
+});
+
+describe("wktToFeatures", () => {
+	it("parses each type of geometry", () => {
+		const geometries = [
+			{ type: "Point", coordinates: [1, 2] },
+			{
+				type: "LineString",
+				coordinates: [
+					[0, 0],
+					[1, 1],
+				],
+			},
+			{
+				type: "Polygon",
+				coordinates: [
+					[
+						[0, 0],
+						[0, 1],
+						[1, 1],
+						[0, 0],
+					],
+				],
+			},
+			{
+				type: "MultiPoint",
+				coordinates: [
+					[0, 0],
+					[1, 1],
+				],
+			},
+			{
+				type: "MultiLineString",
+				coordinates: [
+					[
+						[0, 0],
+						[1, 1],
+					],
+				],
+			},
+			{
+				type: "MultiPolygon",
+				coordinates: [
+					[
+						[
+							[0, 0],
+							[0, 1],
+							[1, 1],
+							[0, 0],
+						],
+					],
+				],
+			},
+		] as GeoJSONStoreFeatures["geometry"][];
+
+		const wkt = geometries.map(geometryToWKT).join("\n");
+
+		expect(wktToFeatures(wkt).map(({ geometry }) => geometry)).toStrictEqual(
+			geometries,
+		);
+	});
+
+	it("parses multipoints with bracketed points", () => {
+		expect(
+			wktToFeatures("MULTIPOINT ((0 0), (1 1))")[0].geometry,
+		).toStrictEqual({
+			type: "MultiPoint",
+			coordinates: [
+				[0, 0],
+				[1, 1],
+			],
+		});
+	});
+
+	it("ignores case, Z values and the SRID prefix", () => {
+		expect(
+			wktToFeatures("SRID=4326;point z (1 2 3)")[0].geometry,
+		).toStrictEqual({ type: "Point", coordinates: [1, 2] });
+	});
+
+	it("splits geometry collections into separate features", () => {
+		const features = wktToFeatures(
+			"GEOMETRYCOLLECTION (POINT (1 2), LINESTRING (0 0, 1 1))",
+		);
+
+		expect(features).toHaveLength(2);
+		expect(features[0].geometry.type).toBe("Point");
+		expect(features[1].geometry.type).toBe("LineString");
+	});
+
+	it("skips empty geometries", () => {
+		expect(wktToFeatures("POINT EMPTY\nPOINT (1 2)")).toHaveLength(1);
+	});
+
+	it("throws for unsupported geometry types", () => {
+		expect(() => wktToFeatures("CIRCULARSTRING (0 0, 1 1, 2 0)")).toThrow(
+			"CIRCULARSTRING is not a supported WKT geometry type",
+		);
+	});
+
+	it("throws for invalid WKT", () => {
+		expect(() => wktToFeatures("POINT (1 a)")).toThrow(
+			"WKT coordinates must be numbers",
+		);
+		expect(() => wktToFeatures("POINT (1 2")).toThrow("Unexpected end of WKT");
+		expect(() => wktToFeatures("LINESTRING 0 0, 1 1)")).toThrow(
+			'Expected "(" in WKT but found "0"',
+		);
+	});
+});
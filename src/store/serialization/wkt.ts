@@ -0,0 +1,231 @@
+import { Position } from "geojson";
+import { GeoJSONStoreFeatures, GeoJSONStoreGeometries } from "../store";
+
+function positionToWKT(position: Position) {
+	return `${position[0]} ${position[1]}`;
+}
+
+function positionsToWKT(positions: Position[]) {
+	return `(${positions.map(positionToWKT).join(", ")})`;
+}
+
+function ringsToWKT(rings: Position[][]) {
+	return `(${rings.map(positionsToWKT).join(", ")})`;
+}
+
+/**
+ * Converts a geometry to Well Known Text (WKT)
+ * @param geometry - the geometry to convert
+ * @returns the geometry as WKT, i.e. "POINT (1 2)"
+ */
+export function geometryToWKT(geometry: GeoJSONStoreGeometries): string {
+	switch (geometry.type) {
+		case "Point":
+			return `POINT (${positionToWKT(geometry.coordinates)})`;
+		case "LineString":
+			return `LINESTRING ${positionsToWKT(geometry.coordinates)}`;
+		case "Polygon":
+			return `POLYGON ${ringsToWKT(geometry.coordinates)}`;
+		case "MultiPoint":
+			return `MULTIPOINT ${positionsToWKT(geometry.coordinates)}`;
+		case "MultiLineString":
+			return `MULTILINESTRING ${ringsToWKT(geometry.coordinates)}`;
+		case "MultiPolygon":
+			return `MULTIPOLYGON (${geometry.coordinates
+				.map(ringsToWKT)
+				.join(", ")})`;
+	}
+}
+
+/**
+ * Converts features to WKT, with the geometry of each feature on its own line.
+ * WKT only describes geometries, so the properties of the features are not included.
+ * @param features - the features to convert
+ * @returns the WKT for the features
+ */
+export function featuresToWKT(features: GeoJSONStoreFeatures[]) {
+	return features.map(({ geometry }) => geometryToWKT(geometry)).join("\n");
+}
+
+// Reads WKT one token at a time, where tokens are words, numbers and brackets
+class WKTReader {
+	private tokens: string[];
+	private index = 0;
+
+	constructor(text: string) {
+		// The SRID prefix of extended WKT is not needed as coordinates are always longitude and latitude
+		this.tokens =
+			text.replace(/SRID=\d+;/gi, "").match(/[()]|,|[^\s(),]+/g) || [];
+	}
+
+	public isFinished() {
+		return this.index >= this.tokens.length;
+	}
+
+	private peek() {
+		return this.tokens[this.index];
+	}
+
+	private next() {
+		const token = this.tokens[this.index];
+		if (token === undefined) {
+			throw new Error("Unexpected end of WKT");
+		}
+		this.index++;
+		return token;
+	}
+
+	private expect(expected: string) {
+		const token = this.next();
+		if (token !== expected) {
+			throw new Error(`Expected "${expected}" in WKT but found "${token}"`);
+		}
+	}
+
+	// Returns true if the geometry is EMPTY, after reading any dimension flags
+	private readEmpty() {
+		const dimensions = this.peek() && this.peek().toUpperCase();
+		if (dimensions === "Z" || dimensions === "M" || dimensions === "ZM") {
+			this.next();
+		}
+
+		if (this.peek() && this.peek().toUpperCase() === "EMPTY") {
+			this.next();
+			return true;
+		}
+
+		return false;
+	}
+
+	private readPosition(): Position {
+		const values: number[] = [];
+
+		while (this.peek() !== "," && this.peek() !== ")") {
+			const value = Number(this.next());
+			if (isNaN(value)) {
+				throw new Error("WKT coordinates must be numbers");
+			}
+			values.push(value);
+		}
+
+		if (values.length < 2) {
+			throw new Error("WKT coordinates must have at least two values");
+		}
+
+		// Only the longitude and latitude are kept, dropping any Z or M values
+		return [values[0], values[1]];
+	}
+
+	private readList<T>(readItem: () => T): T[] {
+		this.expect("(");
+
+		const items = [readItem()];
+		while (this.peek() === ",") {
+			this.next();
+			items.push(readItem());
+		}
+
+		this.expect(")");
+		return items;
+	}
+
+	// Points within a MULTIPOINT may or may not be wrapped in brackets
+	private readMultiPointPosition() {
+		if (this.peek() === "(") {
+			this.next();
+			const position = this.readPosition();
+			this.expect(")");
+			return position;
+		}
+		return this.readPosition();
+	}
+
+	/**
+	 * Reads the next geometry from the WKT
+	 * @returns the geometries read, where geometry collections are read as
+	 * each of their geometries and empty geometries are not returned
+	 */
+	public readGeometries(): GeoJSONStoreGeometries[] {
+		const type = this.next().toUpperCase();
+
+		if (this.readEmpty()) {
+			return [];
+		}
+
+		switch (type) {
+			case "POINT":
+				return [
+					{
+						type: "Point",
+						coordinates: this.readList(() => this.readPosition())[0],
+					},
+				];
+			case "LINESTRING":
+				return [
+					{
+						type: "LineString",
+						coordinates: this.readList(() => this.readPosition()),
+					},
+				];
+			case "POLYGON":
+				return [
+					{
+						type: "Polygon",
+						coordinates: this.readList(() =>
+							this.readList(() => this.readPosition()),
+						),
+					},
+				];
+			case "MULTIPOINT":
+				return [
+					{
+						type: "MultiPoint",
+						coordinates: this.readList(() => this.readMultiPointPosition()),
+					},
+				];
+			case "MULTILINESTRING":
+				return [
+					{
+						type: "MultiLineString",
+						coordinates: this.readList(() =>
+							this.readList(() => this.readPosition()),
+						),
+					},
+				];
+			case "MULTIPOLYGON":
+				return [
+					{
+						type: "MultiPolygon",
+						coordinates: this.readList(() =>
+							this.readList(() => this.readList(() => this.readPosition())),
+						),
+					},
+				];
+			case "GEOMETRYCOLLECTION":
+				return this.readList(() => this.readGeometries()).reduce<
+					GeoJSONStoreGeometries[]
+				>((geometries, collected) => geometries.concat(collected), []);
+			default:
+				throw new Error(`${type} is not a supported WKT geometry type`);
+		}
+	}
+}
+
+/**
+ * Parses WKT into features. Any number of geometries can be given, separated by whitespace,
+ * and the geometries of a GEOMETRYCOLLECTION become separate features.
+ * @param text - the WKT to parse
+ * @returns a feature without properties for each geometry
+ */
+export function wktToFeatures(text: string): GeoJSONStoreFeatures[] {
+	const reader = new WKTReader(text);
+	const features: GeoJSONStoreFeatures[] = [];
+
+	while (!reader.isFinished()) {
+		reader.readGeometries().forEach((geometry) => {
+			features.push({ type: "Feature", geometry, properties: {} });
+		});
+	}
+
+	return features;
+}
@@ -0,0 +1,53 @@
+export function escapeXml(text: string) {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&apos;");
+}
+
+/**
+ * Parses XML using the browsers built in DOMParser
+ * @param text - the XML to parse
+ * @param format - the name of the format, used in the error if the XML is invalid
+ * @returns the parsed XML document
+ */
+export function parseXml(text: string, format: string) {
+	const document = new DOMParser().parseFromString(text, "application/xml");
+
+	if (document.getElementsByTagName("parsererror").length) {
+		throw new Error(`${format} could not be parsed`);
+	}
+
+	return document;
+}
+
+// Namespaces and prefixes vary between files, so elements are matched on their local name
+export function childElements(parent: Element, localName?: string) {
+	const children: Element[] = [];
+	for (let i = 0; i < parent.children.length; i++) {
+		const child = parent.children[i];
+		if (!localName || child.localName === localName) {
+			children.push(child);
+		}
+	}
+	return children;
+}
+
+export function descendantElements(
+	parent: Element | Document,
+	localName: string,
+) {
+	return Array.prototype.filter.call(
+		parent.getElementsByTagName("*"),
+		(element: Element) => element.localName === localName,
+	) as Element[];
+}
+
+export function childText(parent: Element, localName: string) {
+	const [child] = childElements(parent, localName);
+	return child && child.textContent !== null
+		? child.textContent.trim()
+		: undefined;
+}
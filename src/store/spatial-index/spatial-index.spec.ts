@@ -93,11 +93,60 @@ describe("Spatial Index", () => {
 			expect(() => {
 				spatialIndex.insert({
 					type: "Feature",
-					geometry: { type: "MultiPolygon", coordinates: [] },
+					geometry: { type: "GeometryCollection", geometries: [] },
 				} as any);
 			}).toThrow();
 		});
 
+		it("does not throw for multi geometries", () => {
+			const spatialIndex = new SpatialIndex();
+			spatialIndex.insert({
+				id: "1",
+				type: "Feature",
+				geometry: {
+					type: "MultiPoint",
+					coordinates: [
+						[0, 0],
+						[1, 1],
+					],
+				},
+				properties: {},
+			});
+			spatialIndex.insert({
+				id: "2",
+				type: "Feature",
+				geometry: {
+					type: "MultiLineString",
+					coordinates: [
+						[
+							[0, 0],
+							[1, 1],
+						],
+					],
+				},
+				properties: {},
+			});
+			spatialIndex.insert({
+				id: "3",
+				type: "Feature",
+				geometry: {
+					type: "MultiPolygon",
+					coordinates: [
+						[
+							[
+								[0, 0],
+								[0, 1],
+								[1, 1],
+								[1, 0],
+								[0, 0],
+							],
+						],
+					],
+				},
+				properties: {},
+			});
+		});
+
 		it("throws for duplicate ids", () => {
 			const spatialIndex = new SpatialIndex();
 
@@ -1,6 +1,7 @@
 import { Position } from "geojson";
 import { FeatureId, GeoJSONStoreFeatures } from "../store";
 import { RBush, Node } from "./rbush";
+import { getOutlineCoordinateArrays } from "../../geometry/geometry-parts";
 
 export class SpatialIndex {
 	private tree: RBush;
@@ -25,12 +26,19 @@ export class SpatialIndex {
 		const latitudes: number[] = [];
 
 		let coordinates: Position[];
-		if (feature.geometry.type === "Polygon") {
-			coordinates = feature.geometry.coordinates[0];
-		} else if (feature.geometry.type === "LineString") {
-			coordinates = feature.geometry.coordinates;
-		} else if (feature.geometry.type === "Point") {
-			coordinates = [feature.geometry.coordinates];
+		if (
+			feature.geometry.type === "Polygon" ||
+			feature.geometry.type === "MultiPolygon" ||
+			feature.geometry.type === "LineString" ||
+			feature.geometry.type === "MultiLineString" ||
+			feature.geometry.type === "Point" ||
+			feature.geometry.type === "MultiPoint"
+		) {
+			// Holes are always within the outer ring so we can ignore them
+			coordinates = getOutlineCoordinateArrays(feature.geometry).reduce(
+				(all, part) => all.concat(part),
+				[],
+			);
 		} else {
 			throw new Error("Not a valid feature to turn into a bounding box");
 		}
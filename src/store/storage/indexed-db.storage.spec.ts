@@ -0,0 +1,148 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { GeoJSONStoreFeatures } from "../store";
+import { TerraDrawIndexedDBStorage } from "./indexed-db.storage";
+
+describe("TerraDrawIndexedDBStorage", () => {
+	const feature = (id: string | number): GeoJSONStoreFeatures => ({
+		id,
+		type: "Feature",
+		geometry: { type: "Point", coordinates: [0, 0] },
+		properties: { mode: "point" },
+	});
+
+	// Each test gets its own databases so that nothing is shared between them
+	let indexedDB: IDBFactory;
+
+	beforeEach(() => {
+		indexedDB = new IDBFactory();
+	});
+
+	it("returns undefined for namespaces which have not been saved", async () => {
+		const storage = new TerraDrawIndexedDBStorage({ indexedDB });
+
+		expect(await storage.load("test")).toBeUndefined();
+	});
+
+	it("saves and deletes features incrementally", async () => {
+		const storage = new TerraDrawIndexedDBStorage({ indexedDB });
+
+		await storage.save("test", 1, {
+			saved: [feature("a"), feature("b")],
+			deleted: [],
+		});
+		await storage.save("test", 2, {
+			saved: [{ ...feature("a"), properties: { mode: "point", name: "a" } }],
+			deleted: ["b"],
+		});
+
+		expect(await storage.load("test")).toEqual({
+			version: 2,
+			features: [{ ...feature("a"), properties: { mode: "point", name: "a" } }],
+		});
+	});
+
+	it("keeps the features of different namespaces separate", async () => {
+		const storage = new TerraDrawIndexedDBStorage({ indexedDB });
+
+		await storage.save("test", 1, {
+			saved: [feature("a"), feature(1)],
+			deleted: [],
+		});
+		await storage.save("test-other", 3, {
+			saved: [feature("c")],
+			deleted: [],
+		});
+		await storage.save("tes", 2, {
+			saved: [feature("d")],
+			deleted: [],
+		});
+
+		// String and number ids both fall within the range of the namespace
+		expect(await storage.load("test")).toEqual({
+			version: 1,
+			features: [feature(1), feature("a")],
+		});
+		expect(await storage.load("test-other")).toEqual({
+			version: 3,
+			features: [feature("c")],
+		});
+		expect(await storage.load("tes")).toEqual({
+			version: 2,
+			features: [feature("d")],
+		});
+	});
+
+	it("clears only the given namespace", async () => {
+		const storage = new TerraDrawIndexedDBStorage({ indexedDB });
+
+		await storage.save("test", 1, {
+			saved: [feature("a"), feature(1)],
+			deleted: [],
+		});
+		await storage.save("test-other", 1, {
+			saved: [feature("b")],
+			deleted: [],
+		});
+
+		await storage.clear("test");
+
+		expect(await storage.load("test")).toBeUndefined();
+		expect(await storage.load("test-other")).toEqual({
+			version: 1,
+			features: [feature("b")],
+		});
+	});
+
+	it("uses the given database name", async () => {
+		await new TerraDrawIndexedDBStorage({
+			indexedDB,
+			databaseName: "features",
+		}).save("test", 1, { saved: [feature("a")], deleted: [] });
+
+		expect(
+			await new TerraDrawIndexedDBStorage({ indexedDB }).load("test"),
+		).toBeUndefined();
+		expect(
+			await new TerraDrawIndexedDBStorage({
+				indexedDB,
+				databaseName: "features",
+			}).load("test"),
+		).toEqual({ version: 1, features: [feature("a")] });
+	});
+
+	it("rejects when the transaction fails", async () => {
+		// A unique index on an existing database makes saving
+		// two features with the same name fail the transaction
+		await new Promise<void>((resolve, reject) => {
+			const request = indexedDB.open("terra-draw-persistence", 1);
+			request.onupgradeneeded = () => {
+				request.result
+					.createObjectStore("features")
+					.createIndex("name", "properties.name", { unique: true });
+				request.result.createObjectStore("versions");
+			};
+			request.onsuccess = () => {
+				request.result.close();
+				resolve();
+			};
+			request.onerror = () => reject(request.error);
+		});
+
+		const storage = new TerraDrawIndexedDBStorage({ indexedDB });
+		const named = (id: string) => ({
+			...feature(id),
+			properties: { mode: "point", name: "duplicate" },
+		});
+
+		await expect(
+			storage.save("test", 1, {
+				saved: [named("a"), named("b")],
+				deleted: [],
+			}),
+		).rejects.toMatchObject({ name: "ConstraintError" });
+
+		// Nothing from the failed transaction is saved
+		expect(await storage.load("test")).toBeUndefined();
+	});
+});
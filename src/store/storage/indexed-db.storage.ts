@@ -0,0 +1,128 @@
+import { FeatureId, GeoJSONStoreFeatures } from "../store";
+import {
+	PersistedChanges,
+	PersistedStore,
+	TerraDrawStorage,
+} from "../store-persistence";
+
+const FEATURES_STORE = "features";
+const VERSIONS_STORE = "versions";
+
+function requestToPromise<T>(request: IDBRequest<T>) {
+	return new Promise<T>((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+function transactionToPromise(transaction: IDBTransaction) {
+	return new Promise<void>((resolve, reject) => {
+		transaction.oncomplete = () => resolve();
+		// Errors from requests reach the transaction before it has been aborted
+		// and has an error of its own, so we use the error of the request
+		transaction.onerror = (event) =>
+			reject((event.target as IDBRequest).error || transaction.error);
+		transaction.onabort = () => reject(transaction.error);
+	});
+}
+
+// Features are keyed by their namespace and id. Arrays sort after
+// strings and numbers, so this range covers every id in the namespace
+function namespaceRange(namespace: string) {
+	return IDBKeyRange.bound([namespace], [namespace, []]);
+}
+
+/**
+ * Persists features in IndexedDB, with each feature stored as its own record
+ * so that only the features which have changed need to be written
+ */
+export class TerraDrawIndexedDBStorage implements TerraDrawStorage {
+	constructor(options?: { databaseName?: string; indexedDB?: IDBFactory }) {
+		this.databaseName =
+			(options && options.databaseName) || "terra-draw-persistence";
+		this.factory = options && options.indexedDB;
+	}
+
+	private databaseName: string;
+	private factory: IDBFactory | undefined;
+	private database: Promise<IDBDatabase> | undefined;
+
+	private open() {
+		if (!this.database) {
+			const request = (this.factory || window.indexedDB).open(
+				this.databaseName,
+				1,
+			);
+
+			request.onupgradeneeded = () => {
+				request.result.createObjectStore(FEATURES_STORE);
+				request.result.createObjectStore(VERSIONS_STORE);
+			};
+
+			this.database = requestToPromise(request);
+		}
+
+		return this.database;
+	}
+
+	async load(namespace: string): Promise<PersistedStore | undefined> {
+		const database = await this.open();
+		const transaction = database.transaction(
+			[FEATURES_STORE, VERSIONS_STORE],
+			"readonly",
+		);
+
+		const [version, features] = await Promise.all([
+			requestToPromise<number | undefined>(
+				transaction.objectStore(VERSIONS_STORE).get(namespace),
+			),
+			requestToPromise<GeoJSONStoreFeatures[]>(
+				transaction
+					.objectStore(FEATURES_STORE)
+					.getAll(namespaceRange(namespace)),
+			),
+		]);
+
+		if (version === undefined) {
+			return undefined;
+		}
+
+		return { version, features };
+	}
+
+	async save(
+		namespace: string,
+		version: number,
+		changes: PersistedChanges,
+	): Promise<void> {
+		const database = await this.open();
+		const transaction = database.transaction(
+			[FEATURES_STORE, VERSIONS_STORE],
+			"readwrite",
+		);
+		const features = transaction.objectStore(FEATURES_STORE);
+
+		changes.saved.forEach((feature) => {
+			features.put(feature, [namespace, feature.id as FeatureId]);
+		});
+		changes.deleted.forEach((id) => {
+			features.delete([namespace, id]);
+		});
+		transaction.objectStore(VERSIONS_STORE).put(version, namespace);
+
+		await transactionToPromise(transaction);
+	}
+
+	async clear(namespace: string): Promise<void> {
+		const database = await this.open();
+		const transaction = database.transaction(
+			[FEATURES_STORE, VERSIONS_STORE],
+			"readwrite",
+		);
+
+		transaction.objectStore(FEATURES_STORE).delete(namespaceRange(namespace));
+		transaction.objectStore(VERSIONS_STORE).delete(namespace);
+
+		await transactionToPromise(transaction);
+	}
+}
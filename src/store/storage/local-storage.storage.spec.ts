@@ -0,0 +1,70 @@
+/**
+ * @jest-environment jsdom
+ */
+import { GeoJSONStoreFeatures } from "../store";
+import { TerraDrawLocalStorage } from "./local-storage.storage";
+
+describe("TerraDrawLocalStorage", () => {
+	const feature = (id: string): GeoJSONStoreFeatures => ({
+		id,
+		type: "Feature",
+		geometry: { type: "Point", coordinates: [0, 0] },
+		properties: { mode: "point" },
+	});
+
+	beforeEach(() => {
+		window.localStorage.clear();
+	});
+
+	it("returns undefined for namespaces which have not been saved", async () => {
+		const storage = new TerraDrawLocalStorage();
+
+		expect(await storage.load("test")).toBeUndefined();
+	});
+
+	it("saves and deletes features in window.localStorage", async () => {
+		const storage = new TerraDrawLocalStorage();
+
+		await storage.save("test", 1, {
+			saved: [feature("a"), feature("b")],
+			deleted: [],
+		});
+		await storage.save("test", 1, { saved: [], deleted: ["a"] });
+
+		expect(
+			JSON.parse(window.localStorage.getItem("test") as string),
+		).toStrictEqual({ version: 1, features: { b: feature("b") } });
+		expect(await storage.load("test")).toStrictEqual({
+			version: 1,
+			features: [feature("b")],
+		});
+	});
+
+	it("uses the given storage and key prefix", async () => {
+		const setItem = jest.fn();
+		const storage = new TerraDrawLocalStorage({
+			storage: {
+				getItem: () => null,
+				setItem,
+				removeItem: jest.fn(),
+			} as unknown as Storage,
+			keyPrefix: "app:",
+		});
+
+		await storage.save("test", 1, { saved: [feature("a")], deleted: [] });
+
+		expect(setItem).toHaveBeenCalledWith(
+			"app:test",
+			JSON.stringify({ version: 1, features: { a: feature("a") } }),
+		);
+	});
+
+	it("clears a namespace", async () => {
+		const storage = new TerraDrawLocalStorage();
+
+		await storage.save("test", 1, { saved: [feature("a")], deleted: [] });
+		await storage.clear("test");
+
+		expect(window.localStorage.getItem("test")).toBeNull();
+	});
+});
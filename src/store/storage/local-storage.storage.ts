@@ -0,0 +1,79 @@
+import { GeoJSONStoreFeatures } from "../store";
+import {
+	PersistedChanges,
+	PersistedStore,
+	TerraDrawStorage,
+} from "../store-persistence";
+
+type LocalStorageNamespace = {
+	version: number;
+	features: Record<string, GeoJSONStoreFeatures>;
+};
+
+/**
+ * Persists features in localStorage, with all the features of a namespace stored as
+ * JSON under a single key. localStorage is limited to a few megabytes in most browsers,
+ * so TerraDrawIndexedDBStorage is better suited to storing a large number of features.
+ */
+export class TerraDrawLocalStorage implements TerraDrawStorage {
+	constructor(options?: { storage?: Storage; keyPrefix?: string }) {
+		this.storage = options && options.storage;
+		this.keyPrefix =
+			options && options.keyPrefix !== undefined ? options.keyPrefix : "";
+	}
+
+	private storage: Storage | undefined;
+	private keyPrefix: string;
+
+	// localStorage is only accessed when it is first needed, so the
+	// storage can be constructed in environments without a window
+	private getStorage() {
+		if (!this.storage) {
+			this.storage = window.localStorage;
+		}
+		return this.storage;
+	}
+
+	private read(namespace: string): LocalStorageNamespace | undefined {
+		const item = this.getStorage().getItem(this.keyPrefix + namespace);
+		return item ? JSON.parse(item) : undefined;
+	}
+
+	async load(namespace: string): Promise<PersistedStore | undefined> {
+		const stored = this.read(namespace);
+
+		if (!stored) {
+			return undefined;
+		}
+
+		return {
+			version: stored.version,
+			features: Object.keys(stored.features).map((id) => stored.features[id]),
+		};
+	}
+
+	async save(
+		namespace: string,
+		version: number,
+		changes: PersistedChanges,
+	): Promise<void> {
+		const stored = this.read(namespace) || { version, features: {} };
+
+		stored.version = version;
+		changes.saved.forEach((feature) => {
+			stored.features[String(feature.id)] = feature;
+		});
+		changes.deleted.forEach((id) => {
+			delete stored.features[String(id)];
+		});
+
+		this.getStorage().setItem(
+			this.keyPrefix + namespace,
+			JSON.stringify(stored),
+		);
+	}
+
+	async clear(namespace: string): Promise<void> {
+		this.getStorage().removeItem(this.keyPrefix + namespace);
+	}
+}
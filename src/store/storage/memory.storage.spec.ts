@@ -0,0 +1,53 @@
+import { GeoJSONStoreFeatures } from "../store";
+import { TerraDrawMemoryStorage } from "./memory.storage";
+
+describe("TerraDrawMemoryStorage", () => {
+	const feature = (id: string): GeoJSONStoreFeatures => ({
+		id,
+		type: "Feature",
+		geometry: { type: "Point", coordinates: [0, 0] },
+		properties: { mode: "point" },
+	});
+
+	it("returns undefined for namespaces which have not been saved", async () => {
+		const storage = new TerraDrawMemoryStorage();
+
+		expect(await storage.load("test")).toBeUndefined();
+	});
+
+	it("saves and deletes features incrementally", async () => {
+		const storage = new TerraDrawMemoryStorage();
+
+		await storage.save("test", 1, {
+			saved: [feature("a"), feature("b")],
+			deleted: [],
+		});
+		await storage.save("test", 2, { saved: [feature("c")], deleted: ["a"] });
+
+		const persisted = await storage.load("test");
+		expect(persisted?.version).toBe(2);
+		expect(persisted?.features.map(({ id }) => id)).toStrictEqual(["b", "c"]);
+	});
+
+	it("keeps namespaces separate", async () => {
+		const storage = new TerraDrawMemoryStorage();
+
+		await storage.save("one", 1, { saved: [feature("a")], deleted: [] });
+		await storage.save("two", 1, { saved: [feature("b")], deleted: [] });
+		await storage.clear("one");
+
+		expect(await storage.load("one")).toBeUndefined();
+		expect((await storage.load("two"))?.features).toHaveLength(1);
+	});
+
+	it("does not share feature objects with the caller", async () => {
+		const storage = new TerraDrawMemoryStorage();
+		const saved = feature("a");
+
+		await storage.save("test", 1, { saved: [saved], deleted: [] });
+		saved.properties.mode = "changed";
+
+		const persisted = await storage.load("test");
+		expect(persisted?.features[0].properties.mode).toBe("point");
+	});
+});
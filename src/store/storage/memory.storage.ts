@@ -0,0 +1,61 @@
+import { FeatureId, GeoJSONStoreFeatures } from "../store";
+import {
+	PersistedChanges,
+	PersistedStore,
+	TerraDrawStorage,
+} from "../store-persistence";
+
+type MemoryNamespace = {
+	version: number;
+	features: Map<FeatureId, GeoJSONStoreFeatures>;
+};
+
+/**
+ * Keeps persisted features in memory, which is useful for testing or
+ * for persisting features between Terra Draw instances on the same page
+ */
+export class TerraDrawMemoryStorage implements TerraDrawStorage {
+	private namespaces = new Map<string, MemoryNamespace>();
+
+	private clone<T>(obj: T): T {
+		return JSON.parse(JSON.stringify(obj));
+	}
+
+	async load(namespace: string): Promise<PersistedStore | undefined> {
+		const stored = this.namespaces.get(namespace);
+
+		if (!stored) {
+			return undefined;
+		}
+
+		return {
+			version: stored.version,
+			features: this.clone(Array.from(stored.features.values())),
+		};
+	}
+
+	async save(
+		namespace: string,
+		version: number,
+		changes: PersistedChanges,
+	): Promise<void> {
+		const stored = this.namespaces.get(namespace) || {
+			version,
+			features: new Map<FeatureId, GeoJSONStoreFeatures>(),
+		};
+
+		stored.version = version;
+		changes.saved.forEach((feature) => {
+			stored.features.set(feature.id as FeatureId, this.clone(feature));
+		});
+		changes.deleted.forEach((id) => {
+			stored.features.delete(id);
+		});
+
+		this.namespaces.set(namespace, stored);
+	}
+
+	async clear(namespace: string): Promise<void> {
+		this.namespaces.delete(namespace);
+	}
+}
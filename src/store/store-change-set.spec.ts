@@ -0,0 +1,169 @@
+import { Polygon } from "geojson";
+import { GeoJSONStore, GeoJSONStoreFeatures } from "./store";
+import { applyFeaturePatch, createFeaturePatches } from "./store-change-set";
+
+describe("createFeaturePatches", () => {
+	const feature = (
+		properties: GeoJSONStoreFeatures["properties"],
+	): GeoJSONStoreFeatures => ({
+		id: "e90e54ea-0a63-407e-b433-08717009d9f6",
+		type: "Feature",
+		geometry: { type: "Point", coordinates: [0, 0] },
+		properties,
+	});
+
+	it("creates a patch for each operation", () => {
+		const before = feature({ mode: "point" });
+		const after = feature({ mode: "point", name: "a" });
+
+		const patches = createFeaturePatches([
+			{ id: "a", before: undefined, after },
+			{ id: "b", before, after },
+			{ id: "c", before, after: undefined },
+		]);
+
+		expect(patches.map(({ operation }) => operation)).toStrictEqual([
+			"create",
+			"update",
+			"delete",
+		]);
+		expect(patches[1]).toStrictEqual({
+			id: "b",
+			operation: "update",
+			before: { geometry: before.geometry, properties: { mode: "point" } },
+			after: {
+				geometry: after.geometry,
+				properties: { mode: "point", name: "a" },
+			},
+			createdAt: null,
+			updatedAt: null,
+		});
+	});
+
+	it("does not include the selected or hovered properties", () => {
+		const [patch] = createFeaturePatches([
+			{
+				id: "a",
+				before: undefined,
+				after: feature({ mode: "point", selected: true, hovered: true }),
+			},
+		]);
+
+		expect(patch.after?.properties).toStrictEqual({ mode: "point" });
+	});
+
+	it("takes the timestamps from tracked features", () => {
+		const tracked = feature({
+			mode: "point",
+			createdAt: 1685568434891,
+			updatedAt: 1685568435434,
+		});
+
+		const [updated, deleted] = createFeaturePatches([
+			{ id: "a", before: tracked, after: tracked },
+			{ id: "b", before: tracked, after: undefined },
+		]);
+
+		expect(updated.createdAt).toBe(1685568434891);
+		expect(updated.updatedAt).toBe(1685568435434);
+		expect(deleted.createdAt).toBe(1685568434891);
+		expect(deleted.updatedAt).toBeGreaterThan(1685568435434);
+	});
+});
+
+describe("applyFeaturePatch", () => {
+	const polygon: Polygon = {
+		type: "Polygon",
+		coordinates: [
+			[
+				[0, 0],
+				[0, 1],
+				[1, 1],
+				[1, 0],
+				[0, 0],
+			],
+		],
+	};
+
+	it("creates features that do not exist", () => {
+		const store = new GeoJSONStore({ tracked: false });
+
+		applyFeaturePatch(store, {
+			id: "e90e54ea-0a63-407e-b433-08717009d9f6",
+			operation: "update",
+			before: null,
+			after: { geometry: polygon, properties: { mode: "polygon" } },
+			createdAt: null,
+			updatedAt: null,
+		});
+
+		expect(store.copyAll()).toStrictEqual([
+			{
+				id: "e90e54ea-0a63-407e-b433-08717009d9f6",
+				type: "Feature",
+				geometry: polygon,
+				properties: { mode: "polygon" },
+			},
+		]);
+	});
+
+	it("updates features, keeping their selection and timestamps", () => {
+		const store = new GeoJSONStore();
+		const [id] = store.create([
+			{
+				geometry: polygon,
+				properties: { mode: "polygon", selected: true, name: "a" },
+			},
+		]);
+		const { createdAt, updatedAt } = store.getPropertiesCopy(id);
+
+		applyFeaturePatch(store, {
+			id,
+			operation: "update",
+			before: null,
+			after: {
+				geometry: { type: "Point", coordinates: [0, 0] },
+				properties: { mode: "polygon", colour: "red" },
+			},
+			createdAt: null,
+			updatedAt: null,
+		});
+
+		expect(store.getGeometryCopy(id)).toStrictEqual({
+			type: "Point",
+			coordinates: [0, 0],
+		});
+		expect(store.getPropertiesCopy(id)).not.toHaveProperty("name");
+		expect(store.getPropertiesCopy(id)).toStrictEqual({
+			mode: "polygon",
+			selected: true,
+			colour: "red",
+			createdAt,
+			updatedAt: expect.any(Number),
+		});
+		expect(store.getPropertiesCopy(id).updatedAt).toBeGreaterThanOrEqual(
+			updatedAt as number,
+		);
+	});
+
+	it("deletes features", () => {
+		const store = new GeoJSONStore({ tracked: false });
+		const [id] = store.create([
+			{ geometry: polygon, properties: { mode: "polygon" } },
+		]);
+
+		const patch = {
+			id,
+			operation: "delete" as const,
+			before: null,
+			after: null,
+			createdAt: null,
+			updatedAt: null,
+		};
+
+		applyFeaturePatch(store, patch);
+		applyFeaturePatch(store, patch);
+
+		expect(store.has(id)).toBe(false);
+	});
+});
@@ -0,0 +1,128 @@
+import { COMMON_PROPERTIES, SELECT_PROPERTIES } from "../common";
+import {
+	FeatureId,
+	GeoJSONStore,
+	GeoJSONStoreFeatures,
+	GeoJSONStoreGeometries,
+} from "./store";
+import { HistoryChange } from "./store-history";
+
+export type FeaturePatchOperation = "create" | "update" | "delete";
+
+export type FeaturePatchState = {
+	geometry: GeoJSONStoreGeometries;
+	properties: GeoJSONStoreFeatures["properties"];
+};
+
+/**
+ * A serializable description of a change to a single feature, which can be sent to
+ * other clients and applied to their store. The before state is null for created
+ * features and the after state is null for deleted features.
+ */
+export type FeaturePatch = {
+	id: FeatureId;
+	operation: FeaturePatchOperation;
+	before: FeaturePatchState | null;
+	after: FeaturePatchState | null;
+	// Taken from the tracked properties of the feature, so they are null if the store is not tracked
+	createdAt: number | null;
+	updatedAt: number | null;
+};
+
+// Timestamps are kept if a patch does not provide them, i.e. because it was
+// created by a store that is not tracked
+const TIMESTAMP_PROPERTIES = ["createdAt", "updatedAt"];
+
+function toPatchState(
+	feature: GeoJSONStoreFeatures | undefined,
+): FeaturePatchState | null {
+	if (!feature) {
+		return null;
+	}
+
+	// Selection and hovering are local to each client so they are not part of the patch
+	const properties = { ...feature.properties };
+	delete properties[SELECT_PROPERTIES.SELECTED];
+	delete properties[COMMON_PROPERTIES.HOVERED];
+
+	return { geometry: feature.geometry, properties };
+}
+
+function toTimestamp(value: unknown) {
+	return typeof value === "number" ? value : null;
+}
+
+/**
+ * Creates patches from the changes made to the store
+ * @param changes - the changes as collected by the store history
+ * @returns a patch for each changed feature
+ */
+export function createFeaturePatches(changes: HistoryChange[]): FeaturePatch[] {
+	return changes.map(({ id, before, after }) => {
+		const latest = (after || before) as GeoJSONStoreFeatures;
+
+		// Deleting a feature does not update its timestamp, so we use the time of the deletion
+		const updatedAt = after
+			? toTimestamp(after.properties.updatedAt)
+			: typeof latest.properties.updatedAt === "number"
+			? +new Date()
+			: null;
+
+		return {
+			id,
+			operation: !before ? "create" : !after ? "delete" : "update",
+			before: toPatchState(before),
+			after: toPatchState(after),
+			createdAt: toTimestamp(latest.properties.createdAt),
+			updatedAt,
+		};
+	});
+}
+
+/**
+ * Applies a patch to the store. Features are created or updated depending on whether they already
+ * exist, so patches can be applied even if an earlier patch for the feature was missed. The patch
+ * is assumed to be valid, so any validation should happen before it is applied.
+ * @param store - the store to apply the patch to
+ * @param patch - the patch to apply
+ */
+export function applyFeaturePatch(store: GeoJSONStore, patch: FeaturePatch) {
+	const { id, after } = patch;
+	const exists = store.has(id);
+
+	if (!after) {
+		if (exists) {
+			store.delete([id]);
+		}
+		return;
+	}
+
+	if (!exists) {
+		const properties = { ...after.properties };
+		delete properties[SELECT_PROPERTIES.SELECTED];
+		delete properties[COMMON_PROPERTIES.HOVERED];
+
+		store.load([{ id, type: "Feature", geometry: after.geometry, properties }]);
+		return;
+	}
+
+	store.updateGeometry([{ id, geometry: after.geometry }]);
+
+	const current = store.getPropertiesCopy(id);
+	const propertyUpdates = Object.keys({ ...current, ...after.properties })
+		.filter(
+			(property) =>
+				property !== SELECT_PROPERTIES.SELECTED &&
+				property !== COMMON_PROPERTIES.HOVERED &&
+				(after.properties[property] !== undefined ||
+					!TIMESTAMP_PROPERTIES.includes(property)),
+		)
+		.map((property) => ({
+			id,
+			property,
+			// Properties the patched feature does not have are removed
+			value: after.properties[property],
+		}));
+
+	store.updateProperty(propertyUpdates);
+}
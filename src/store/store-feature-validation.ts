@@ -10,7 +10,8 @@ export const StoreValidationErrors = {
 	FeatureIdIsNotValid: `Feature must match the id strategy (default is UUID4)`,
 	FeatureHasNoGeometry: "Feature has no geometry",
 	FeatureHasNoProperties: "Feature has no properties",
-	FeatureGeometryNotSupported: "Feature is not Point, LineString or Polygon",
+	FeatureGeometryNotSupported:
+		"Feature is not Point, LineString, Polygon, MultiPoint, MultiLineString or MultiPolygon",
 	FeatureCoordinatesNotAnArray: "Feature coordinates is not an array",
 	InvalidModeProperty: "Feature does not have a valid mode property",
 } as const;
@@ -73,7 +74,14 @@ export function isValidStoreFeature(
 		error = StoreValidationErrors.FeatureHasNoProperties;
 	} else if (
 		typeof feature.geometry.type !== "string" ||
-		!["Polygon", "LineString", "Point"].includes(feature.geometry.type)
+		![
+			"Polygon",
+			"LineString",
+			"Point",
+			"MultiPolygon",
+			"MultiLineString",
+			"MultiPoint",
+		].includes(feature.geometry.type)
 	) {
 		error = StoreValidationErrors.FeatureGeometryNotSupported;
 	} else if (!Array.isArray(feature.geometry.coordinates)) {
@@ -0,0 +1,273 @@
+import { Polygon } from "geojson";
+import { GeoJSONStore } from "./store";
+import { GeoJSONStoreHistory } from "./store-history";
+
+describe("GeoJSONStoreHistory", () => {
+	const setup = (limit?: number, onChanges?: jest.Mock) => {
+		const store = new GeoJSONStore();
+		const history = new GeoJSONStoreHistory({ store, limit, onChanges });
+		store.registerOnChange((ids, change) => {
+			if (change !== "styling") {
+				history.markChanged(ids);
+			}
+		});
+		return { store, history };
+	};
+
+	const polygon = (offset = 0): Polygon => ({
+		type: "Polygon",
+		coordinates: [
+			[
+				[0 + offset, 0],
+				[0 + offset, 1],
+				[1 + offset, 1],
+				[1 + offset, 0],
+				[0 + offset, 0],
+			],
+		],
+	});
+
+	describe("record", () => {
+		it("returns an empty array when nothing has changed", () => {
+			const { history } = setup();
+
+			expect(history.record()).toStrictEqual([]);
+			expect(history.canUndo()).toBe(false);
+		});
+
+		it("records multiple updates to a feature as a single entry", () => {
+			const { store, history } = setup();
+
+			const [id] = store.create([
+				{ geometry: polygon(), properties: { mode: "polygon" } },
+			]);
+			history.record();
+
+			store.updateGeometry([{ id, geometry: polygon(1) }]);
+			store.updateGeometry([{ id, geometry: polygon(2) }]);
+			store.updateGeometry([{ id, geometry: polygon(3) }]);
+
+			expect(history.record()).toStrictEqual([id]);
+
+			history.undo();
+			expect(store.getGeometryCopy(id)).toStrictEqual(polygon());
+			expect(history.canUndo()).toBe(true);
+		});
+
+		it("ignores selection and hover state and guidance features", () => {
+			const { store, history } = setup();
+
+			const [id] = store.create([
+				{ geometry: polygon(), properties: { mode: "polygon" } },
+			]);
+			history.record();
+
+			store.updateProperty([{ id, property: "selected", value: true }]);
+			store.updateProperty([{ id, property: "hovered", value: true }]);
+			store.create([
+				{
+					geometry: { type: "Point", coordinates: [0, 0] },
+					properties: { mode: "select", selectionPoint: true },
+				},
+			]);
+
+			expect(history.record()).toStrictEqual([]);
+		});
+
+		it("respects the limit", () => {
+			const { store, history } = setup(2);
+
+			store.create([{ geometry: polygon(), properties: { mode: "polygon" } }]);
+			history.record();
+			store.create([{ geometry: polygon(), properties: { mode: "polygon" } }]);
+			history.record();
+			store.create([{ geometry: polygon(), properties: { mode: "polygon" } }]);
+			history.record();
+
+			expect(history.undo()).toHaveLength(1);
+			expect(history.undo()).toHaveLength(1);
+			expect(history.undo()).toHaveLength(0);
+			expect(store.size()).toBe(1);
+		});
+	});
+
+	describe("undo and redo", () => {
+		it("undoes and redoes a created feature", () => {
+			const { store, history } = setup();
+
+			const [id] = store.create([
+				{ geometry: polygon(), properties: { mode: "polygon" } },
+			]);
+			history.record();
+
+			expect(history.undo()).toStrictEqual([id]);
+			expect(store.has(id)).toBe(false);
+			expect(history.canRedo()).toBe(true);
+
+			expect(history.redo()).toStrictEqual([id]);
+			expect(store.has(id)).toBe(true);
+			expect(store.getGeometryCopy(id)).toStrictEqual(polygon());
+			expect(history.canRedo()).toBe(false);
+		});
+
+		it("undoes a deleted feature keeping the same id and properties", () => {
+			const { store, history } = setup();
+
+			const [id] = store.create([
+				{ geometry: polygon(), properties: { mode: "polygon", name: "a" } },
+			]);
+			history.record();
+
+			store.delete([id]);
+			history.record();
+
+			history.undo();
+
+			expect(store.has(id)).toBe(true);
+			expect(store.getPropertiesCopy(id).name).toBe("a");
+		});
+
+		it("undoes property changes", () => {
+			const { store, history } = setup();
+
+			const [id] = store.create([
+				{ geometry: polygon(), properties: { mode: "polygon", name: "a" } },
+			]);
+			history.record();
+
+			store.updateProperty([{ id, property: "name", value: "b" }]);
+			history.record();
+
+			history.undo();
+			expect(store.getPropertiesCopy(id).name).toBe("a");
+
+			history.redo();
+			expect(store.getPropertiesCopy(id).name).toBe("b");
+		});
+
+		it("removes properties that were added after the undone state", () => {
+			const { store, history } = setup();
+
+			const [id] = store.create([
+				{ geometry: polygon(), properties: { mode: "polygon" } },
+			]);
+			history.record();
+
+			store.updateProperty([{ id, property: "label", value: "a" }]);
+			history.record();
+
+			history.undo();
+			expect(store.getPropertiesCopy(id)).not.toHaveProperty("label");
+
+			history.redo();
+			expect(store.getPropertiesCopy(id).label).toBe("a");
+		});
+
+		it("does not record the changes made by undo", () => {
+			const { store, history } = setup();
+
+			store.create([{ geometry: polygon(), properties: { mode: "polygon" } }]);
+			history.record();
+
+			history.undo();
+
+			expect(history.record()).toStrictEqual([]);
+			expect(history.canRedo()).toBe(true);
+		});
+
+		it("discards the redo history when a new entry is recorded", () => {
+			const { store, history } = setup();
+
+			store.create([{ geometry: polygon(), properties: { mode: "polygon" } }]);
+			history.record();
+			history.undo();
+
+			store.create([{ geometry: polygon(), properties: { mode: "polygon" } }]);
+			history.record();
+
+			expect(history.canRedo()).toBe(false);
+			expect(history.redo()).toStrictEqual([]);
+		});
+	});
+
+	describe("accept", () => {
+		it("does not record accepted changes as an entry", () => {
+			const { store, history } = setup();
+
+			const [id] = store.create([
+				{ geometry: polygon(), properties: { mode: "polygon" } },
+			]);
+			history.accept([id]);
+
+			expect(history.record()).toStrictEqual([]);
+			expect(history.canUndo()).toBe(false);
+
+			store.updateGeometry([{ id, geometry: polygon(1) }]);
+			history.record();
+			history.undo();
+
+			expect(store.getGeometryCopy(id)).toStrictEqual(polygon());
+		});
+	});
+
+	describe("hasUnrecordedChanges", () => {
+		it("returns true for features changed since the last record", () => {
+			const { store, history } = setup();
+
+			const [id] = store.create([
+				{ geometry: polygon(), properties: { mode: "polygon" } },
+			]);
+			expect(history.hasUnrecordedChanges(id)).toBe(true);
+
+			history.record();
+			expect(history.hasUnrecordedChanges(id)).toBe(false);
+
+			store.updateProperty([{ id, property: "selected", value: true }]);
+			expect(history.hasUnrecordedChanges(id)).toBe(false);
+		});
+	});
+
+	describe("onChanges", () => {
+		it("is called with the changes of recorded, undone and redone entries", () => {
+			const onChanges = jest.fn();
+			const { store, history } = setup(undefined, onChanges);
+
+			const [id] = store.create([
+				{ geometry: polygon(), properties: { mode: "polygon" } },
+			]);
+			history.record();
+			history.undo();
+			history.redo();
+
+			expect(onChanges).toHaveBeenCalledTimes(3);
+			expect(onChanges).toHaveBeenNthCalledWith(1, [
+				{ id, before: undefined, after: expect.any(Object) },
+			]);
+			expect(onChanges).toHaveBeenNthCalledWith(2, [
+				{ id, before: expect.any(Object), after: undefined },
+			]);
+			expect(onChanges).toHaveBeenNthCalledWith(3, [
+				{ id, before: undefined, after: expect.any(Object) },
+			]);
+		});
+	});
+
+	describe("clear", () => {
+		it("removes all entries and keeps the current store state", () => {
+			const { store, history } = setup();
+
+			const [id] = store.create([
+				{ geometry: polygon(), properties: { mode: "polygon" } },
+			]);
+			history.record();
+
+			history.clear();
+
+			expect(history.canUndo()).toBe(false);
+			expect(history.canRedo()).toBe(false);
+
+			store.delete([id]);
+			expect(history.record()).toStrictEqual([id]);
+		});
+	});
+});
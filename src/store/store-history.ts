@@ -0,0 +1,325 @@
+import { COMMON_PROPERTIES, SELECT_PROPERTIES } from "../common";
+import { FeatureId, GeoJSONStore, GeoJSONStoreFeatures } from "./store";
+import { isGuidanceFeature } from "./guidance-feature";
+
+export type HistoryAction = "record" | "undo" | "redo" | "clear";
+
+export type HistoryChange = {
+	id: FeatureId;
+	before: GeoJSONStoreFeatures | undefined;
+	after: GeoJSONStoreFeatures | undefined;
+};
+
+type HistoryEntry = HistoryChange[];
+
+type GeoJSONStoreHistoryConfig = {
+	store: GeoJSONStore;
+	limit?: number;
+	// Called with the changes made to the store whenever an entry is recorded, undone or redone
+	onChanges?: (changes: HistoryChange[]) => void;
+};
+
+// These properties change as a consequence of interacting with a feature
+// (i.e. selecting or hovering it) rather than editing it, so we do not want them to
+// produce history entries or be restored by undo/redo
+const IGNORED_PROPERTIES = [
+	SELECT_PROPERTIES.SELECTED,
+	COMMON_PROPERTIES.HOVERED,
+	"updatedAt",
+] as string[];
+
+/**
+ * Keeps track of edits made to a GeoJSONStore so they can be undone and redone. Changes
+ * are collected as the store changes and grouped into a single entry when record is called,
+ * meaning an entry represents a whole user action rather than each individual store update.
+ */
+export class GeoJSONStoreHistory {
+	constructor(config: GeoJSONStoreHistoryConfig) {
+		this.store = config.store;
+		this.limit =
+			typeof config.limit === "number" && config.limit > 0 ? config.limit : 100;
+		this.onChanges = config.onChanges;
+	}
+
+	private store: GeoJSONStore;
+	private limit: number;
+	private onChanges: ((changes: HistoryChange[]) => void) | undefined;
+	private undoStack: HistoryEntry[] = [];
+	private redoStack: HistoryEntry[] = [];
+	private dirty = new Set<FeatureId>();
+	private applying = false;
+
+	// The last recorded state of every (non guidance) feature in the store
+	private recorded: Map<FeatureId, GeoJSONStoreFeatures> = new Map();
+
+	private getFeature(id: FeatureId): GeoJSONStoreFeatures | undefined {
+		if (!this.store.has(id)) {
+			return undefined;
+		}
+
+		const feature = {
+			id,
+			type: "Feature",
+			geometry: this.store.getGeometryCopy(id),
+			properties: this.store.getPropertiesCopy(id),
+		} as GeoJSONStoreFeatures;
+
+		return isGuidanceFeature(feature) ? undefined : feature;
+	}
+
+	private isEqual(
+		featureA: GeoJSONStoreFeatures | undefined,
+		featureB: GeoJSONStoreFeatures | undefined,
+	) {
+		if (!featureA || !featureB) {
+			return featureA === featureB;
+		}
+
+		if (
+			JSON.stringify(featureA.geometry) !== JSON.stringify(featureB.geometry)
+		) {
+			return false;
+		}
+
+		const keys = new Set([
+			...Object.keys(featureA.properties),
+			...Object.keys(featureB.properties),
+		]);
+
+		for (const key of keys) {
+			if (IGNORED_PROPERTIES.includes(key)) {
+				continue;
+			}
+
+			if (
+				JSON.stringify(featureA.properties[key]) !==
+				JSON.stringify(featureB.properties[key])
+			) {
+				return false;
+			}
+		}
+
+		return true;
+	}
+
+	// Works out what has changed since the last time changes were collected and
+	// brings the recorded state up to date with the store
+	private collectChanges(): HistoryEntry {
+		const changes: HistoryEntry = [];
+
+		this.dirty.forEach((id) => {
+			const before = this.recorded.get(id);
+			const after = this.getFeature(id);
+
+			if (after) {
+				this.recorded.set(id, after);
+			} else {
+				this.recorded.delete(id);
+			}
+
+			if (!this.isEqual(before, after)) {
+				changes.push({ id, before, after });
+			}
+		});
+
+		this.dirty.clear();
+
+		return changes;
+	}
+
+	private emitChanges(changes: HistoryChange[]) {
+		if (this.onChanges) {
+			this.onChanges(changes);
+		}
+	}
+
+	private apply(entry: HistoryEntry, direction: "before" | "after") {
+		this.applying = true;
+
+		const toDelete: FeatureId[] = [];
+		const toCreate: GeoJSONStoreFeatures[] = [];
+
+		entry.forEach((change) => {
+			const target = change[direction];
+			const exists = this.store.has(change.id);
+
+			if (!target) {
+				if (exists) {
+					toDelete.push(change.id);
+				}
+				return;
+			}
+
+			if (!exists) {
+				toCreate.push(target);
+				return;
+			}
+
+			this.store.updateGeometry([{ id: change.id, geometry: target.geometry }]);
+
+			const current = this.store.getPropertiesCopy(change.id);
+			const propertyUpdates = Object.keys({ ...current, ...target.properties })
+				.filter((property) => !IGNORED_PROPERTIES.includes(property))
+				.map((property) => ({
+					id: change.id,
+					property,
+					// Properties the target does not have are removed
+					value: target.properties[property],
+				}));
+
+			this.store.updateProperty(propertyUpdates);
+		});
+
+		if (toDelete.length) {
+			this.store.delete(toDelete);
+		}
+
+		if (toCreate.length) {
+			this.store.load(
+				toCreate.map((feature) => ({
+					...feature,
+					properties: {
+						...feature.properties,
+						[SELECT_PROPERTIES.SELECTED]: false,
+						[COMMON_PROPERTIES.HOVERED]: false,
+					},
+				})),
+			);
+		}
+
+		entry.forEach(({ id }) => this.dirty.add(id));
+
+		// The changes are collected from the store rather than taken from the entry,
+		// so that they reflect the store as it is now, i.e. its updatedAt timestamps
+		this.emitChanges(this.collectChanges());
+
+		this.applying = false;
+	}
+
+	/**
+	 * Marks features as having changed in the store. This should be called with
+	 * the ids of every store change event.
+	 * @param ids - the ids of the changed features
+	 */
+	markChanged(ids: FeatureId[]) {
+		if (this.applying) {
+			return;
+		}
+
+		ids.forEach((id) => this.dirty.add(id));
+	}
+
+	/**
+	 * Brings the recorded state of features up to date with the store without creating
+	 * a history entry, for changes which should not be undone such as restoring features
+	 * @param ids - the ids of the changed features
+	 */
+	accept(ids: FeatureId[]) {
+		ids.forEach((id) => {
+			const feature = this.getFeature(id);
+
+			if (feature) {
+				this.recorded.set(id, feature);
+			} else {
+				this.recorded.delete(id);
+			}
+
+			this.dirty.delete(id);
+		});
+	}
+
+	/**
+	 * Determines if a feature has changed since the last time record was called, which
+	 * is the case while it is being drawn or dragged
+	 * @param id - the id of the feature
+	 * @returns true if the feature has unrecorded changes, otherwise false
+	 */
+	hasUnrecordedChanges(id: FeatureId): boolean {
+		return (
+			this.dirty.has(id) &&
+			!this.isEqual(this.recorded.get(id), this.getFeature(id))
+		);
+	}
+
+	/**
+	 * Records all changes made since the last time record was called as a single
+	 * history entry. If a new entry is recorded the redo history is discarded.
+	 * @returns the ids of the features in the recorded entry, which is empty if nothing has changed
+	 */
+	record(): FeatureId[] {
+		const entry = this.collectChanges();
+
+		if (entry.length === 0) {
+			return [];
+		}
+
+		this.undoStack.push(entry);
+		this.redoStack = [];
+
+		if (this.undoStack.length > this.limit) {
+			this.undoStack.shift();
+		}
+
+		this.emitChanges(entry);
+
+		return entry.map(({ id }) => id);
+	}
+
+	/**
+	 * Reverts the store to the state it was in prior to the last recorded entry
+	 * @returns the ids of the features that were reverted, or an empty array if there is nothing to undo
+	 */
+	undo(): FeatureId[] {
+		const entry = this.undoStack.pop();
+
+		if (!entry) {
+			return [];
+		}
+
+		this.apply(entry, "before");
+		this.redoStack.push(entry);
+
+		return entry.map(({ id }) => id);
+	}
+
+	/**
+	 * Reapplies the last undone entry to the store
+	 * @returns the ids of the features that were reapplied, or an empty array if there is nothing to redo
+	 */
+	redo(): FeatureId[] {
+		const entry = this.redoStack.pop();
+
+		if (!entry) {
+			return [];
+		}
+
+		this.apply(entry, "after");
+		this.undoStack.push(entry);
+
+		return entry.map(({ id }) => id);
+	}
+
+	canUndo(): boolean {
+		return this.undoStack.length > 0;
+	}
+
+	canRedo(): boolean {
+		return this.redoStack.length > 0;
+	}
+
+	/**
+	 * Removes all history entries and resets the recorded state to the current contents of the store
+	 */
+	clear() {
+		this.undoStack = [];
+		this.redoStack = [];
+		this.dirty.clear();
+		this.recorded.clear();
+
+		this.store.copyAll().forEach((feature) => {
+			if (!isGuidanceFeature(feature)) {
+				this.recorded.set(feature.id as FeatureId, feature);
+			}
+		});
+	}
+}
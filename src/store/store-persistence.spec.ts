@@ -0,0 +1,305 @@
+import { Polygon } from "geojson";
+import { GeoJSONStore } from "./store";
+import { GeoJSONStorePersistence, TerraDrawStorage } from "./store-persistence";
+import { TerraDrawMemoryStorage } from "./storage/memory.storage";
+import { COMMON_PROPERTIES, SELECT_PROPERTIES } from "../common";
+
+describe("GeoJSONStorePersistence", () => {
+	const setup = (
+		options?: Partial<ConstructorParameters<typeof GeoJSONStorePersistence>[0]>,
+	) => {
+		const store = new GeoJSONStore({ tracked: false });
+		const storage = new TerraDrawMemoryStorage();
+		const persistence = new GeoJSONStorePersistence({
+			store,
+			storage,
+			namespace: "test",
+			...options,
+		});
+		store.registerOnChange((ids, change) => {
+			if (change !== "styling") {
+				persistence.markChanged(ids);
+			}
+		});
+		return { store, storage, persistence };
+	};
+
+	const polygon: Polygon = {
+		type: "Polygon",
+		coordinates: [
+			[
+				[0, 0],
+				[0, 1],
+				[1, 1],
+				[1, 0],
+				[0, 0],
+			],
+		],
+	};
+
+	const acceptAll = () => ({ valid: true });
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	describe("markChanged", () => {
+		it("saves the changed features once the debounce period has passed", async () => {
+			jest.useFakeTimers();
+			const { store, storage } = setup({ debounce: 100 });
+			const save = jest.spyOn(storage, "save");
+
+			const [id] = store.create([
+				{ geometry: polygon, properties: { mode: "polygon" } },
+			]);
+			store.updateProperty([{ id, property: "name", value: "a" }]);
+
+			jest.advanceTimersByTime(50);
+			expect(save).not.toHaveBeenCalled();
+
+			jest.advanceTimersByTime(50);
+			expect(save).toHaveBeenCalledTimes(1);
+			expect(save).toHaveBeenCalledWith("test", 1, {
+				saved: [
+					{
+						id,
+						type: "Feature",
+						geometry: polygon,
+						properties: { mode: "polygon", name: "a" },
+					},
+				],
+				deleted: [],
+			});
+		});
+	});
+
+	describe("flush", () => {
+		it("does not save guidance features or the selected property", async () => {
+			const { store, storage, persistence } = setup();
+
+			store.create([
+				{
+					geometry: polygon,
+					properties: { mode: "polygon", [SELECT_PROPERTIES.SELECTED]: true },
+				},
+				{
+					geometry: { type: "Point", coordinates: [0, 0] },
+					properties: {
+						mode: "polygon",
+						[COMMON_PROPERTIES.CLOSING_POINT]: true,
+					},
+				},
+			]);
+
+			await persistence.flush();
+
+			const persisted = await storage.load("test");
+			expect(persisted?.features).toHaveLength(1);
+			expect(persisted?.features[0].properties).toStrictEqual({
+				mode: "polygon",
+			});
+		});
+
+		it("deletes features which have been saved", async () => {
+			const { store, storage, persistence } = setup();
+			const save = jest.spyOn(storage, "save");
+
+			const [id] = store.create([
+				{ geometry: polygon, properties: { mode: "polygon" } },
+			]);
+			await persistence.flush();
+
+			store.delete([id]);
+			await persistence.flush();
+
+			expect(save).toHaveBeenLastCalledWith("test", 1, {
+				saved: [],
+				deleted: [id],
+			});
+			expect((await storage.load("test"))?.features).toHaveLength(0);
+		});
+
+		it("does not save anything for features created and deleted before saving", async () => {
+			const { store, storage, persistence } = setup();
+			const save = jest.spyOn(storage, "save");
+
+			const [id] = store.create([
+				{ geometry: polygon, properties: { mode: "polygon" } },
+			]);
+			store.delete([id]);
+			await persistence.flush();
+
+			expect(save).not.toHaveBeenCalled();
+		});
+
+		it("passes errors from the storage to onError", async () => {
+			const onError = jest.fn();
+			const { store, storage, persistence } = setup({ onError });
+			jest
+				.spyOn(storage, "save")
+				.mockRejectedValue(new Error("Quota exceeded"));
+
+			store.create([{ geometry: polygon, properties: { mode: "polygon" } }]);
+			await persistence.flush();
+
+			expect(onError).toHaveBeenCalledWith(new Error("Quota exceeded"));
+		});
+
+		it("rejects with errors from the storage if there is no onError", async () => {
+			const { store, storage, persistence } = setup();
+			jest
+				.spyOn(storage, "save")
+				.mockRejectedValue(new Error("Quota exceeded"));
+
+			store.create([{ geometry: polygon, properties: { mode: "polygon" } }]);
+
+			await expect(persistence.flush()).rejects.toThrow("Quota exceeded");
+		});
+	});
+
+	describe("restore", () => {
+		it("loads the persisted features into the store without saving them again", async () => {
+			const { storage } = setup();
+			await storage.save("test", 1, {
+				saved: [
+					{
+						id: "e90e54ea-0a63-407e-b433-08717009d9f6",
+						type: "Feature",
+						geometry: polygon,
+						properties: { mode: "polygon" },
+					},
+				],
+				deleted: [],
+			});
+
+			const { store, persistence } = setup({ storage });
+			const save = jest.spyOn(storage, "save");
+
+			const validations = await persistence.restore(acceptAll);
+			await persistence.flush();
+
+			expect(validations).toStrictEqual([
+				{ id: "e90e54ea-0a63-407e-b433-08717009d9f6", valid: true },
+			]);
+			expect(store.has("e90e54ea-0a63-407e-b433-08717009d9f6")).toBe(true);
+			expect(save).not.toHaveBeenCalled();
+		});
+
+		it("removes invalid features from storage", async () => {
+			const { storage } = setup();
+			await storage.save("test", 1, {
+				saved: [
+					{
+						id: "e90e54ea-0a63-407e-b433-08717009d9f6",
+						type: "Feature",
+						geometry: polygon,
+						properties: { mode: "removed" },
+					},
+				],
+				deleted: [],
+			});
+
+			const { store, persistence } = setup({ storage });
+
+			const validations = await persistence.restore(() => ({
+				valid: false,
+				reason: "Invalid",
+			}));
+
+			expect(validations[0].valid).toBe(false);
+			expect(store.copyAll()).toHaveLength(0);
+			expect((await storage.load("test"))?.features).toHaveLength(0);
+		});
+
+		it("returns no validations if nothing has been persisted", async () => {
+			const { persistence } = setup();
+
+			expect(await persistence.restore(acceptAll)).toStrictEqual([]);
+		});
+
+		it("discards features saved with a different version", async () => {
+			const { storage } = setup();
+			await storage.save("test", 1, {
+				saved: [
+					{
+						id: "e90e54ea-0a63-407e-b433-08717009d9f6",
+						type: "Feature",
+						geometry: polygon,
+						properties: { mode: "polygon" },
+					},
+				],
+				deleted: [],
+			});
+
+			const { store, persistence } = setup({ storage, version: 2 });
+
+			expect(await persistence.restore(acceptAll)).toStrictEqual([]);
+			expect(store.copyAll()).toHaveLength(0);
+			expect(await storage.load("test")).toBeUndefined();
+		});
+
+		it("migrates features saved with a different version", async () => {
+			const { storage } = setup();
+			await storage.save("test", 1, {
+				saved: [
+					{
+						id: "e90e54ea-0a63-407e-b433-08717009d9f6",
+						type: "Feature",
+						geometry: polygon,
+						properties: { mode: "area" },
+					},
+				],
+				deleted: [],
+			});
+
+			const migrate = jest.fn((features) =>
+				features.map((feature: { properties: object }) => ({
+					...feature,
+					properties: { ...feature.properties, mode: "polygon" },
+				})),
+			);
+			const { store, persistence } = setup({ storage, version: 2, migrate });
+
+			await persistence.restore(acceptAll);
+
+			expect(migrate).toHaveBeenCalledWith(expect.any(Array), 1);
+			expect(
+				store.getPropertiesCopy("e90e54ea-0a63-407e-b433-08717009d9f6").mode,
+			).toBe("polygon");
+
+			const persisted = await storage.load("test");
+			expect(persisted?.version).toBe(2);
+			expect(persisted?.features[0].properties.mode).toBe("polygon");
+		});
+
+		it("passes errors from the storage to onError", async () => {
+			const onError = jest.fn();
+			const storage: TerraDrawStorage = {
+				load: () => Promise.reject(new Error("Blocked")),
+				save: () => Promise.resolve(),
+				clear: () => Promise.resolve(),
+			};
+			const { persistence } = setup({ storage, onError });
+
+			expect(await persistence.restore(acceptAll)).toStrictEqual([]);
+			expect(onError).toHaveBeenCalledWith(new Error("Blocked"));
+		});
+	});
+
+	describe("clear", () => {
+		it("removes the persisted features and any unsaved changes", async () => {
+			const { store, storage, persistence } = setup();
+			const save = jest.spyOn(storage, "save");
+
+			store.create([{ geometry: polygon, properties: { mode: "polygon" } }]);
+			await persistence.flush();
+			store.create([{ geometry: polygon, properties: { mode: "polygon" } }]);
+
+			await persistence.clear();
+			await persistence.flush();
+
+			expect(save).toHaveBeenCalledTimes(1);
+			expect(await storage.load("test")).toBeUndefined();
+		});
+	});
+});
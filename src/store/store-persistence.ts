@@ -0,0 +1,271 @@
+import { COMMON_PROPERTIES, SELECT_PROPERTIES } from "../common";
+import {
+	FeatureId,
+	GeoJSONStore,
+	GeoJSONStoreFeatures,
+	StoreValidation,
+} from "./store";
+import { isGuidanceFeature } from "./guidance-feature";
+
+export type PersistedStore = {
+	// The schema version the features were saved with
+	version: number;
+	features: GeoJSONStoreFeatures[];
+};
+
+export type PersistedChanges = {
+	// Features that have been created or updated
+	saved: GeoJSONStoreFeatures[];
+	// Ids of features that have been deleted
+	deleted: FeatureId[];
+};
+
+/**
+ * A storage backend that persisted features are saved to. Changes are saved incrementally,
+ * so only the features that have changed since the last save are passed to save.
+ */
+export interface TerraDrawStorage {
+	load(namespace: string): Promise<PersistedStore | undefined>;
+	save(
+		namespace: string,
+		version: number,
+		changes: PersistedChanges,
+	): Promise<void>;
+	clear(namespace: string): Promise<void>;
+}
+
+export type PersistenceMigration = (
+	features: GeoJSONStoreFeatures[],
+	fromVersion: number,
+) => GeoJSONStoreFeatures[];
+
+type GeoJSONStorePersistenceConfig = {
+	store: GeoJSONStore;
+	storage: TerraDrawStorage;
+	namespace?: string;
+	debounce?: number;
+	version?: number;
+	migrate?: PersistenceMigration;
+	onError?: (error: unknown) => void;
+};
+
+/**
+ * Saves the features in a GeoJSONStore to a storage backend as they change, so that they can
+ * be restored later, i.e. after the page is refreshed. Changes are collected as the store
+ * changes and saved together once no more changes have been made for the debounce period.
+ */
+export class GeoJSONStorePersistence {
+	constructor(config: GeoJSONStorePersistenceConfig) {
+		this.store = config.store;
+		this.storage = config.storage;
+		this.namespace = config.namespace || "terra-draw";
+		this.debounce =
+			typeof config.debounce === "number" && config.debounce >= 0
+				? config.debounce
+				: 300;
+		this.version = typeof config.version === "number" ? config.version : 1;
+		this.migrate = config.migrate;
+		this.onError = config.onError;
+	}
+
+	private store: GeoJSONStore;
+	private storage: TerraDrawStorage;
+	private namespace: string;
+	private debounce: number;
+	private version: number;
+	private migrate: PersistenceMigration | undefined;
+	private onError: ((error: unknown) => void) | undefined;
+	private dirty = new Set<FeatureId>();
+	private timeout: ReturnType<typeof setTimeout> | undefined;
+	private restoring = false;
+
+	// The ids of the features currently in storage, so we only delete those that were saved
+	private persisted = new Set<FeatureId>();
+
+	// Errors from the storage backend are passed to onError if it is provided, otherwise
+	// they are thrown, which as saving happens asynchronously rejects the returned promise
+	private handleError(error: unknown) {
+		if (this.onError) {
+			this.onError(error);
+		} else {
+			throw error;
+		}
+	}
+
+	private getFeature(id: FeatureId): GeoJSONStoreFeatures | undefined {
+		if (!this.store.has(id)) {
+			return undefined;
+		}
+
+		const properties = this.store.getPropertiesCopy(id);
+
+		const feature = {
+			id,
+			type: "Feature",
+			geometry: this.store.getGeometryCopy(id),
+			properties,
+		} as GeoJSONStoreFeatures;
+
+		if (isGuidanceFeature(feature)) {
+			return undefined;
+		}
+
+		// Features are not restored as selected or hovered, so there is no need to save it
+		delete properties[SELECT_PROPERTIES.SELECTED];
+		delete properties[COMMON_PROPERTIES.HOVERED];
+
+		return feature;
+	}
+
+	/**
+	 * Marks features as having changed in the store, saving them once the debounce
+	 * period has passed. This should be called with the ids of every store change event.
+	 * @param ids - the ids of the changed features
+	 */
+	markChanged(ids: FeatureId[]) {
+		if (this.restoring) {
+			return;
+		}
+
+		ids.forEach((id) => this.dirty.add(id));
+
+		if (this.timeout !== undefined) {
+			clearTimeout(this.timeout);
+		}
+
+		this.timeout = setTimeout(() => {
+			this.flush();
+		}, this.debounce);
+	}
+
+	/**
+	 * Saves any changes which are waiting for the debounce period to pass straight away
+	 * @returns a promise that resolves once the changes have been saved
+	 */
+	async flush() {
+		if (this.timeout !== undefined) {
+			clearTimeout(this.timeout);
+			this.timeout = undefined;
+		}
+
+		const changes: PersistedChanges = { saved: [], deleted: [] };
+
+		this.dirty.forEach((id) => {
+			const feature = this.getFeature(id);
+
+			if (feature) {
+				changes.saved.push(feature);
+				this.persisted.add(id);
+			} else if (this.persisted.has(id)) {
+				changes.deleted.push(id);
+				this.persisted.delete(id);
+			}
+		});
+
+		this.dirty.clear();
+
+		if (changes.saved.length || changes.deleted.length) {
+			try {
+				await this.storage.save(this.namespace, this.version, changes);
+			} catch (error) {
+				this.handleError(error);
+			}
+		}
+	}
+
+	/**
+	 * Loads the persisted features into the store. Features saved with a different version are
+	 * passed through the migrate function, or discarded if there is not one. Features which are
+	 * no longer valid are removed from storage.
+	 * @param validate - validates each of the persisted features before they are added to the store
+	 * @returns a promise resolving to the validation results of the persisted features
+	 */
+	async restore(
+		validate: (feature: unknown) => StoreValidation,
+	): Promise<StoreValidation[]> {
+		try {
+			return await this.restoreFromStorage(validate);
+		} catch (error) {
+			this.handleError(error);
+			return [];
+		}
+	}
+
+	private async restoreFromStorage(
+		validate: (feature: unknown) => StoreValidation,
+	): Promise<StoreValidation[]> {
+		const persisted = await this.storage.load(this.namespace);
+
+		if (!persisted) {
+			return [];
+		}
+
+		let features = persisted.features;
+		const migrated = persisted.version !== this.version;
+
+		if (migrated) {
+			if (!this.migrate) {
+				await this.storage.clear(this.namespace);
+				return [];
+			}
+
+			features = this.migrate(features, persisted.version);
+			await this.storage.clear(this.namespace);
+		}
+
+		// The restored features are already in storage, so loading them should not save them again
+		this.restoring = true;
+		let validations: StoreValidation[];
+		try {
+			validations = this.store.load(features, validate);
+		} finally {
+			this.restoring = false;
+		}
+
+		const changes: PersistedChanges = { saved: [], deleted: [] };
+
+		features.forEach((feature, i) => {
+			const { id, valid } = validations[i];
+
+			if (id === undefined) {
+				return;
+			}
+
+			if (valid) {
+				this.persisted.add(id);
+				if (migrated) {
+					changes.saved.push({ ...feature, id });
+				}
+			} else if (!migrated && !this.store.has(id)) {
+				// Features that already exist in the store are saved as they change
+				changes.deleted.push(id);
+			}
+		});
+
+		if (changes.saved.length || changes.deleted.length) {
+			await this.storage.save(this.namespace, this.version, changes);
+		}
+
+		return validations;
+	}
+
+	/**
+	 * Removes all of the persisted features from storage, discarding any unsaved changes
+	 * @returns a promise that resolves once the storage has been cleared
+	 */
+	async clear() {
+		if (this.timeout !== undefined) {
+			clearTimeout(this.timeout);
+			this.timeout = undefined;
+		}
+
+		this.dirty.clear();
+		this.persisted.clear();
+
+		try {
+			await this.storage.clear(this.namespace);
+		} catch (error) {
+			this.handleError(error);
+		}
+	}
+}
@@ -71,13 +71,13 @@ describe("isValidStoreFeature", () => {
 		});
 	});
 
-	it("returns valid false with reason on data with non Point, LineString, Polygon geometry type", () => {
+	it("returns valid false with reason on data with unsupported geometry type", () => {
 		expect(
 			isValidStoreFeature(
 				{
 					id: "e3ccd3b9-afb1-4f0b-91d8-22a768d5f284",
 					geometry: {
-						type: "MultiLineString",
+						type: "GeometryCollection",
 					},
 					properties: {},
 				} as unknown,
@@ -145,6 +145,27 @@ describe("isValidStoreFeature", () => {
 		});
 	});
 
+	it.each(["MultiPoint", "MultiLineString", "MultiPolygon"])(
+		"returns valid true for %s geometries",
+		(type) => {
+			expect(
+				isValidStoreFeature(
+					{
+						id: "e3ccd3b9-afb1-4f0b-91d8-22a768d5f284",
+						type: "Feature",
+						geometry: { type, coordinates: [] },
+						properties: {
+							mode: "test",
+						},
+					},
+					isValidId,
+				),
+			).toEqual({
+				valid: true,
+			});
+		},
+	);
+
 	it("returns valid false with reason if tracked is explicitly true and tracked properties are not provided", () => {
 		expect(isValidTimestamp(undefined)).toEqual(false);
 	});
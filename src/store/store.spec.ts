@@ -272,6 +272,60 @@ describe("GeoJSONStore", () => {
 			});
 		});
 
+		it("removes properties updated with an undefined value", () => {
+			const store = new GeoJSONStore();
+
+			const [id] = store.create<string>([
+				{
+					geometry: { type: "Point", coordinates: [0, 0] },
+					properties: { test: 1 },
+				},
+			]);
+
+			store.updateProperty([{ id, property: "test", value: undefined }]);
+
+			expect(store.getPropertiesCopy(id)).not.toHaveProperty("test");
+		});
+
+		it("keeps an explicitly updated updatedAt", () => {
+			const store = new GeoJSONStore();
+
+			const [id] = store.create<string>([
+				{ geometry: { type: "Point", coordinates: [0, 0] } },
+			]);
+
+			store.updateProperty([
+				{ id, property: "updatedAt", value: 1685568434891 },
+				{ id, property: "test", value: 1 },
+			]);
+
+			expect(store.getPropertiesCopy(id).updatedAt).toBe(1685568434891);
+		});
+
+		it("reports styling changes without changing updatedAt", () => {
+			const store = new GeoJSONStore({ tracked: true });
+			const onChange = jest.fn();
+			store.registerOnChange(onChange);
+
+			const [id] = store.create<string>([
+				{
+					geometry: { type: "Point", coordinates: [0, 0] },
+					properties: { updatedAt: 1685568434891 },
+				},
+			]);
+
+			store.updateProperty(
+				[{ id, property: "hovered", value: true }],
+				"styling",
+			);
+
+			expect(onChange).toHaveBeenLastCalledWith([id], "styling");
+			expect(store.getPropertiesCopy(id)).toMatchObject({
+				hovered: true,
+				updatedAt: 1685568434891,
+			});
+		});
+
 		it("throws error on missing feature", () => {
 			const store = new GeoJSONStore();
 
@@ -304,6 +358,36 @@ describe("GeoJSONStore", () => {
 			expect(mockCallback).toHaveBeenNthCalledWith(2, [id], "update");
 			expect(mockCallback).toHaveBeenNthCalledWith(3, [id], "delete");
 		});
+
+		it("passes the change context to the callback", () => {
+			const store = new GeoJSONStore();
+
+			const mockCallback = jest.fn();
+			store.registerOnChange(mockCallback);
+
+			const [id] = store.create<string>([
+				{ geometry: { type: "Point", coordinates: [0, 0] } },
+			]);
+			const [replacementId] = store.create<string>(
+				[{ geometry: { type: "Point", coordinates: [1, 1] } }],
+				{ action: "split", originIds: [id] },
+			);
+			store.delete([id], { action: "split", replacementIds: [replacementId] });
+
+			expect(mockCallback).toHaveBeenNthCalledWith(
+				2,
+				[replacementId],
+				"create",
+				{
+					action: "split",
+					originIds: [id],
+				},
+			);
+			expect(mockCallback).toHaveBeenNthCalledWith(3, [id], "delete", {
+				action: "split",
+				replacementIds: [replacementId],
+			});
+		});
 	});
 
 	describe("delete", () => {
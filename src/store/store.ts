@@ -1,4 +1,12 @@
-import { Feature, Point, Polygon, LineString } from "geojson";
+import {
+	Feature,
+	Point,
+	Polygon,
+	LineString,
+	MultiPoint,
+	MultiPolygon,
+	MultiLineString,
+} from "geojson";
 import { uuid4 } from "../util/id";
 import { SpatialIndex } from "./spatial-index/spatial-index";
 import { isValidTimestamp } from "./store-feature-validation";
@@ -13,7 +21,13 @@ type JSONArray = Array<JSON>;
 
 type DefinedProperties = Record<string, JSON>;
 
-export type GeoJSONStoreGeometries = Polygon | LineString | Point;
+export type GeoJSONStoreGeometries =
+	| Polygon
+	| LineString
+	| Point
+	| MultiPolygon
+	| MultiLineString
+	| MultiPoint;
 
 export type BBoxPolygon = Feature<Polygon, DefinedProperties>;
 
@@ -28,9 +42,19 @@ export type StoreValidation = {
 
 type StoreChangeEvents = "delete" | "create" | "update" | "styling";
 
+export type StoreChangeContext = {
+	// The action that caused the change, i.e. "split"
+	action: string;
+	// The features that the changed features were created from
+	originIds?: FeatureId[];
+	// The features that the changed features have been replaced by
+	replacementIds?: FeatureId[];
+};
+
 export type StoreChangeHandler = (
 	ids: FeatureId[],
 	change: StoreChangeEvents,
+	context?: StoreChangeContext,
 ) => void;
 
 export type FeatureId = string | number;
@@ -188,8 +212,13 @@ export class GeoJSONStore<Id extends FeatureId = FeatureId> {
 	}
 
 	registerOnChange(onChange: StoreChangeHandler) {
-		this._onChange = (ids, change) => {
-			onChange(ids, change);
+		this._onChange = (ids, change, context) => {
+			// Only changes caused by actions such as splitting have a context
+			if (context) {
+				onChange(ids, change, context);
+			} else {
+				onChange(ids, change);
+			}
 		};
 	}
 
@@ -213,10 +242,23 @@ export class GeoJSONStore<Id extends FeatureId = FeatureId> {
 		return this.clone(feature.properties);
 	}
 
+	// A property updated with an undefined value is removed from the feature. Properties
+	// which only change how a feature looks, i.e. being hovered, are a styling change
 	updateProperty(
-		propertiesToUpdate: { id: FeatureId; property: string; value: JSON }[],
+		propertiesToUpdate: {
+			id: FeatureId;
+			property: string;
+			value: JSON | undefined;
+		}[],
+		change: "update" | "styling" = "update",
 	): void {
 		const ids: FeatureId[] = [];
+
+		// Features can be given an explicit updatedAt, i.e. when applying changes made elsewhere
+		const timestamped = propertiesToUpdate
+			.filter(({ property }) => property === "updatedAt")
+			.map(({ id }) => id);
+
 		propertiesToUpdate.forEach(({ id, property, value }) => {
 			const feature = this.store[id];
 
@@ -226,18 +268,25 @@ export class GeoJSONStore<Id extends FeatureId = FeatureId> {
 				);
 			}
 
-			ids.push(id);
+			// Features with several updated properties are only reported once
+			if (!ids.includes(id)) {
+				ids.push(id);
+			}
 
-			feature.properties[property] = value;
+			if (value === undefined) {
+				delete feature.properties[property];
+			} else {
+				feature.properties[property] = value;
+			}
 
 			// Update the time the feature was updated
-			if (this.tracked) {
+			if (this.tracked && change === "update" && !timestamped.includes(id)) {
 				feature.properties.updatedAt = +new Date();
 			}
 		});
 
 		if (this._onChange) {
-			this._onChange(ids, "update");
+			this._onChange(ids, change);
 		}
 	}
 
@@ -276,6 +325,7 @@ export class GeoJSONStore<Id extends FeatureId = FeatureId> {
 			geometry: GeoJSONStoreGeometries;
 			properties?: JSONObject;
 		}[],
+		context?: StoreChangeContext,
 	): Id[] {
 		const ids: FeatureId[] = [];
 		features.forEach(({ geometry, properties }) => {
@@ -314,13 +364,13 @@ export class GeoJSONStore<Id extends FeatureId = FeatureId> {
 		});
 
 		if (this._onChange) {
-			this._onChange([...ids], "create");
+			this._onChange([...ids], "create", context);
 		}
 
 		return ids as Id[];
 	}
 
-	delete(ids: FeatureId[]): void {
+	delete(ids: FeatureId[], context?: StoreChangeContext): void {
 		ids.forEach((id) => {
 			if (this.store[id]) {
 				delete this.store[id];
@@ -331,7 +381,7 @@ export class GeoJSONStore<Id extends FeatureId = FeatureId> {
 		});
 
 		if (this._onChange) {
-			this._onChange([...ids], "delete");
+			this._onChange([...ids], "delete", context);
 		}
 	}
 
@@ -8,7 +8,13 @@ import {
 	TerraDrawLineStringMode,
 	TerraDrawPointMode,
 	TerraDrawPolygonMode,
+	TerraDrawMemoryStorage,
 } from "./terra-draw";
+import { GeoJSONStoreFeatures } from "./store/store";
+import { LineString, Point } from "geojson";
+import { TerraDrawCallbacks } from "./common";
+import { MockKeyboardEvent } from "./test/mock-keyboard-event";
+import { MockCursorEvent } from "./test/mock-cursor-event";
 
 // Frustratingly required to keep the tests working and avoiding SyntaxError: Cannot use import statement outside a module
 jest.mock("ol/style/Circle", () => jest.fn());
@@ -45,6 +51,7 @@ describe("Terra Draw", () => {
 				data: {
 					addListener: jest.fn(),
 					addGeoJson: jest.fn(),
+					remove: jest.fn(),
 					setStyle: jest.fn(),
 					getFeatureById: jest.fn(() => ({
 						setProperty: jest.fn(),
@@ -70,6 +77,8 @@ describe("Terra Draw", () => {
 				})),
 				Data: {
 					Point: jest.fn().mockImplementation(() => ({})),
+					LineString: jest.fn().mockImplementation(() => ({})),
+					Polygon: jest.fn().mockImplementation(() => ({})),
 				},
 			} as any,
 			coordinatePrecision: 9,
@@ -496,6 +505,1190 @@ describe("Terra Draw", () => {
 			const featureAfterDeselect = draw.getSnapshot()[0];
 			expect(featureAfterDeselect.properties.selected).toBe(false);
 		});
+
+		it("emits deselect with the id of each deselected feature", () => {
+			const selectMode = new TerraDrawSelectMode({
+				flags: { polygon: { feature: {} } },
+			});
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPolygonMode(), selectMode],
+			});
+
+			draw.start();
+			// The mocked adapter unprojects every pixel to the origin, so
+			// the squares meet there in order for clicks to find them
+			const square = (corner: number): GeoJSONStoreFeatures => ({
+				type: "Feature",
+				geometry: {
+					type: "Polygon",
+					coordinates: [
+						[
+							[corner, corner],
+							[corner, corner + 1],
+							[corner + 1, corner + 1],
+							[corner + 1, corner],
+							[corner, corner],
+						],
+					],
+				},
+				properties: { mode: "polygon" },
+			});
+			const [{ id: first }, { id: second }] = draw.addFeatures([
+				square(0),
+				square(-1),
+			]);
+
+			draw.setMode("select");
+			selectMode.onClick(MockCursorEvent({ lng: 0.5, lat: 0.5 }));
+			selectMode.onClick({
+				...MockCursorEvent({ lng: -0.5, lat: -0.5 }),
+				heldKeys: ["Shift"],
+			});
+
+			const deselect = jest.fn();
+			draw.on("deselect", deselect);
+
+			draw.deselectFeature(second as string);
+			draw.deselectFeature(first as string);
+
+			expect(deselect).toHaveBeenCalledTimes(2);
+			expect(deselect).toHaveBeenNthCalledWith(1, second);
+			expect(deselect).toHaveBeenNthCalledWith(2, first);
+		});
+	});
+
+	describe("mergeSelectedFeatures", () => {
+		it("throws an error if there is no select mode", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPolygonMode()],
+			});
+
+			draw.start();
+
+			expect(() => {
+				draw.mergeSelectedFeatures();
+			}).toThrow("No select mode defined in instance");
+		});
+
+		it("returns undefined if there are not multiple features selected", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [
+					new TerraDrawPolygonMode(),
+					new TerraDrawSelectMode({
+						flags: { polygon: { feature: {} } },
+					}),
+				],
+			});
+
+			draw.start();
+			const [{ id }] = draw.addFeatures([
+				{
+					type: "Feature",
+					geometry: {
+						type: "Polygon",
+						coordinates: [
+							[
+								[0, 0],
+								[0, 1],
+								[1, 1],
+								[1, 0],
+								[0, 0],
+							],
+						],
+					},
+					properties: { mode: "polygon" },
+				},
+			]);
+
+			draw.selectFeature(id as string);
+
+			expect(draw.mergeSelectedFeatures()).toBeUndefined();
+			expect(draw.getSnapshot()).toHaveLength(1);
+		});
+	});
+
+	describe("continueLineString", () => {
+		const lineString: LineString = {
+			type: "LineString",
+			coordinates: [
+				[0, 0],
+				[1, 1],
+			],
+		};
+
+		it("throws an error if the feature does not exist", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawLineStringMode()],
+			});
+
+			draw.start();
+
+			expect(() => {
+				draw.continueLineString("e90e54ea-0a63-407e-b433-08717009d9f6", "end");
+			}).toThrow(
+				"No feature with this (e90e54ea-0a63-407e-b433-08717009d9f6), can not continue LineString",
+			);
+		});
+
+		it("throws an error if the feature was not drawn by a linestring mode", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode(), new TerraDrawLineStringMode()],
+			});
+
+			draw.start();
+			const [{ id }] = draw.addFeatures([
+				{
+					type: "Feature",
+					geometry: { type: "Point", coordinates: [0, 0] },
+					properties: { mode: "point" },
+				},
+			]);
+
+			expect(() => {
+				draw.continueLineString(id as string, "end");
+			}).toThrow("Feature was not drawn by a LineString mode");
+		});
+
+		it("switches to the linestring mode and continues drawing the feature", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode(), new TerraDrawLineStringMode()],
+			});
+
+			draw.start();
+			draw.setMode("point");
+			const [{ id }] = draw.addFeatures([
+				{
+					type: "Feature",
+					geometry: lineString,
+					properties: { mode: "linestring" },
+				},
+			]);
+
+			draw.continueLineString(id as string, "end");
+
+			expect(draw.getMode()).toBe("linestring");
+			const [feature] = draw.getSnapshot();
+			expect(feature.geometry).toStrictEqual({
+				type: "LineString",
+				coordinates: [
+					[0, 0],
+					[1, 1],
+					[1, 1],
+				],
+			});
+		});
+	});
+
+	describe("updateFeatureGeometry", () => {
+		const geometry = {
+			type: "Polygon",
+			coordinates: [
+				[
+					[0, 0],
+					[0, 2],
+					[2, 2],
+					[2, 0],
+					[0, 0],
+				],
+			],
+		} as GeoJSONStoreFeatures["geometry"];
+
+		it("throws an error if there is no feature with the given id", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPolygonMode()],
+			});
+
+			draw.start();
+
+			expect(() => {
+				draw.updateFeatureGeometry("missing", geometry);
+			}).toThrow("No feature with this (missing), can not update geometry");
+		});
+
+		it("updates the geometry and emits an update change event", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPolygonMode()],
+			});
+
+			draw.start();
+			const [{ id }] = draw.addFeatures([
+				{
+					type: "Feature",
+					geometry: {
+						type: "Polygon",
+						coordinates: [
+							[
+								[0, 0],
+								[0, 1],
+								[1, 1],
+								[1, 0],
+								[0, 0],
+							],
+						],
+					},
+					properties: { mode: "polygon" },
+				},
+			]);
+
+			const onChange = jest.fn();
+			draw.on("change", onChange);
+
+			const result = draw.updateFeatureGeometry(id as string, geometry);
+
+			expect(result).toStrictEqual({ id, valid: true, reason: undefined });
+			expect(draw.getSnapshot()[0].geometry).toStrictEqual(geometry);
+			expect(onChange).toHaveBeenCalledTimes(1);
+			expect(onChange).toHaveBeenCalledWith([id], "update");
+		});
+
+		it("does not update the geometry if it is invalid for the mode", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPolygonMode()],
+			});
+
+			draw.start();
+			const [{ id }] = draw.addFeatures([
+				{
+					type: "Feature",
+					geometry: {
+						type: "Polygon",
+						coordinates: [
+							[
+								[0, 0],
+								[0, 1],
+								[1, 1],
+								[1, 0],
+								[0, 0],
+							],
+						],
+					},
+					properties: { mode: "polygon" },
+				},
+			]);
+
+			const onChange = jest.fn();
+			draw.on("change", onChange);
+
+			const result = draw.updateFeatureGeometry(id as string, {
+				type: "Point",
+				coordinates: [0, 0],
+			});
+
+			expect(result.valid).toBe(false);
+			expect(result.reason).toBe("Feature is not a Polygon or MultiPolygon");
+			expect(draw.getSnapshot()[0].geometry.type).toBe("Polygon");
+			expect(onChange).not.toHaveBeenCalled();
+		});
+
+		it("keeps a selected feature selected and moves its selection points", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [
+					new TerraDrawPolygonMode(),
+					new TerraDrawSelectMode({
+						flags: { polygon: { feature: { coordinates: {} } } },
+					}),
+				],
+			});
+
+			draw.start();
+			const [{ id }] = draw.addFeatures([
+				{
+					type: "Feature",
+					geometry: {
+						type: "Polygon",
+						coordinates: [
+							[
+								[0, 0],
+								[0, 1],
+								[1, 1],
+								[1, 0],
+								[0, 0],
+							],
+						],
+					},
+					properties: { mode: "polygon" },
+				},
+			]);
+
+			draw.selectFeature(id as string);
+			draw.updateFeatureGeometry(id as string, geometry);
+
+			const snapshot = draw.getSnapshot();
+			const feature = snapshot.find((feature) => feature.id === id);
+			const selectionPoints = snapshot.filter(
+				({ properties }) => properties.selectionPoint,
+			);
+
+			expect(feature?.properties.selected).toBe(true);
+			expect(selectionPoints).toHaveLength(4);
+			expect(selectionPoints[2].geometry.coordinates).toStrictEqual([2, 2]);
+		});
+	});
+
+	describe("updateFeatureProperties", () => {
+		it("throws an error if there is no feature with the given id", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPolygonMode()],
+			});
+
+			draw.start();
+
+			expect(() => {
+				draw.updateFeatureProperties("missing", { name: "a" });
+			}).toThrow("No feature with this (missing), can not update properties");
+		});
+
+		it("merges the properties and emits a single update change event", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPolygonMode()],
+			});
+
+			draw.start();
+			const [{ id }] = draw.addFeatures([
+				{
+					...{
+						type: "Feature",
+						geometry: {
+							type: "Polygon",
+							coordinates: [
+								[
+									[0, 0],
+									[0, 1],
+									[1, 1],
+									[1, 0],
+									[0, 0],
+								],
+							],
+						},
+						properties: { mode: "polygon" },
+					},
+					properties: { mode: "polygon", name: "a" },
+				},
+			]);
+
+			const onChange = jest.fn();
+			draw.on("change", onChange);
+
+			const result = draw.updateFeatureProperties(id as string, {
+				name: "b",
+				height: 10,
+			});
+
+			expect(result.valid).toBe(true);
+			expect(draw.getSnapshot()[0].properties).toStrictEqual({
+				mode: "polygon",
+				name: "b",
+				height: 10,
+			});
+			expect(onChange).toHaveBeenCalledTimes(1);
+			expect(onChange).toHaveBeenCalledWith([id], "update");
+		});
+
+		it("does not update the properties if they fail the validation of the mode", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [
+					new TerraDrawPolygonMode({
+						validation: (feature) => ({
+							valid: feature.properties.name !== "invalid",
+							reason: "Invalid name",
+						}),
+					}),
+				],
+			});
+
+			draw.start();
+			const [{ id }] = draw.addFeatures([
+				{
+					type: "Feature",
+					geometry: {
+						type: "Polygon",
+						coordinates: [
+							[
+								[0, 0],
+								[0, 1],
+								[1, 1],
+								[1, 0],
+								[0, 0],
+							],
+						],
+					},
+					properties: { mode: "polygon" },
+				},
+			]);
+
+			const result = draw.updateFeatureProperties(id as string, {
+				name: "invalid",
+			});
+
+			expect(result).toStrictEqual({
+				id,
+				valid: false,
+				reason: "Invalid name",
+			});
+			expect(draw.getSnapshot()[0].properties.name).toBeUndefined();
+		});
+
+		it("does not allow the mode property to be changed", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPolygonMode(), new TerraDrawLineStringMode()],
+			});
+
+			draw.start();
+			const [{ id }] = draw.addFeatures([
+				{
+					type: "Feature",
+					geometry: {
+						type: "Polygon",
+						coordinates: [
+							[
+								[0, 0],
+								[0, 1],
+								[1, 1],
+								[1, 0],
+								[0, 0],
+							],
+						],
+					},
+					properties: { mode: "polygon" },
+				},
+			]);
+
+			const result = draw.updateFeatureProperties(id as string, {
+				mode: "linestring",
+			});
+
+			expect(result).toStrictEqual({
+				id,
+				valid: false,
+				reason: "The mode property of a feature can not be updated",
+			});
+			expect(draw.getSnapshot()[0].properties.mode).toBe("polygon");
+		});
+	});
+
+	describe("exportAs", () => {
+		it("throws an error if the format is not supported", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode()],
+			});
+
+			draw.start();
+
+			expect(() => draw.exportAs("shapefile")).toThrow(
+				"shapefile is not a supported format",
+			);
+		});
+
+		it("exports the features without any guidance features", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [
+					new TerraDrawPolygonMode(),
+					new TerraDrawSelectMode({
+						flags: { polygon: { feature: { coordinates: {} } } },
+					}),
+				],
+			});
+
+			draw.start();
+			const [{ id }] = draw.addFeatures([
+				{
+					type: "Feature",
+					geometry: {
+						type: "Polygon",
+						coordinates: [
+							[
+								[0, 0],
+								[0, 1],
+								[1, 1],
+								[0, 0],
+							],
+						],
+					},
+					properties: { mode: "polygon" },
+				},
+			]);
+			draw.selectFeature(id as string);
+
+			expect(draw.exportAs("wkt")).toBe("POLYGON ((0 0, 0 1, 1 1, 0 0))");
+		});
+
+		it("does not export whether features are selected or hovered", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [
+					new TerraDrawPolygonMode(),
+					new TerraDrawSelectMode({
+						flags: { polygon: { feature: { coordinates: {} } } },
+					}),
+				],
+			});
+
+			draw.start();
+			const [{ id }] = draw.addFeatures([
+				{
+					type: "Feature",
+					geometry: {
+						type: "Polygon",
+						coordinates: [
+							[
+								[0, 0],
+								[0, 1],
+								[1, 1],
+								[0, 0],
+							],
+						],
+					},
+					properties: { mode: "polygon", name: "field" },
+				},
+			]);
+			draw.selectFeature(id as string);
+			draw.updateFeatureProperties(id as string, { hovered: true });
+
+			const kml = draw.exportAs("kml");
+			draw.clear();
+			draw.importFrom("kml", kml);
+
+			const [feature] = draw.getSnapshot();
+			expect(feature.properties.name).toBe("field");
+			expect(feature.properties).not.toHaveProperty("selected");
+			expect(feature.properties).not.toHaveProperty("hovered");
+		});
+
+		it("uses serializers provided in the options", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode()],
+				serializers: {
+					count: {
+						serialize: (features) => String(features.length),
+						deserialize: () => [],
+					},
+				},
+			});
+
+			draw.start();
+
+			expect(draw.exportAs("count")).toBe("0");
+		});
+	});
+
+	describe("importFrom", () => {
+		it("adds the features to the mode for their geometry type", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode(), new TerraDrawPolygonMode()],
+			});
+
+			draw.start();
+
+			const result = draw.importFrom(
+				"wkt",
+				"POINT (1 2)\nPOLYGON ((0 0, 0 1, 1 1, 0 0))",
+			);
+
+			expect(result.map(({ valid }) => valid)).toStrictEqual([true, true]);
+			expect(
+				draw.getSnapshot().map(({ properties }) => properties.mode),
+			).toStrictEqual(["point", "polygon"]);
+		});
+
+		it("returns a validation result for features which can not be added", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode()],
+			});
+
+			draw.start();
+
+			const result = draw.importFrom("wkt", "LINESTRING (0 0, 1 1)");
+
+			expect(result).toHaveLength(1);
+			expect(result[0].valid).toBe(false);
+			expect(result[0].reason).toBe(
+				"linestring mode is not in the list of instantiated modes",
+			);
+			expect(draw.getSnapshot()).toHaveLength(0);
+		});
+
+		it("adds the features to the modes given in the options", () => {
+			class TerraDrawMarkerMode extends TerraDrawPointMode {
+				mode = "marker";
+			}
+
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawMarkerMode()],
+			});
+
+			draw.start();
+
+			draw.importFrom("csv", "name,lng,lat\nA,1,2", {
+				modes: { Point: "marker" },
+			});
+
+			expect(draw.getSnapshot()[0].properties).toStrictEqual({
+				mode: "marker",
+				name: "A",
+			});
+		});
+	});
+
+	describe("changeset", () => {
+		const pointFeature = {
+			type: "Feature",
+			geometry: { type: "Point", coordinates: [0, 0] },
+			properties: { mode: "point" },
+		} as GeoJSONStoreFeatures;
+
+		it("emits patches for added, updated and removed features", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode()],
+			});
+
+			draw.start();
+
+			const callback = jest.fn();
+			draw.on("changeset", callback);
+
+			const [{ id }] = draw.addFeatures([pointFeature]);
+			draw.updateFeatureProperties(id as string, { name: "a" });
+			draw.removeFeatures([id as string]);
+
+			expect(callback).toHaveBeenCalledTimes(3);
+			expect(callback).toHaveBeenNthCalledWith(1, [
+				{
+					id,
+					operation: "create",
+					before: null,
+					after: {
+						geometry: { type: "Point", coordinates: [0, 0] },
+						properties: { mode: "point" },
+					},
+					createdAt: null,
+					updatedAt: null,
+				},
+			]);
+			expect(callback.mock.calls[1][0][0]).toMatchObject({
+				operation: "update",
+				before: { properties: { mode: "point" } },
+				after: { properties: { mode: "point", name: "a" } },
+			});
+			expect(callback.mock.calls[2][0][0]).toMatchObject({
+				operation: "delete",
+				after: null,
+			});
+		});
+
+		it("takes the timestamps from tracked features", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode()],
+				tracked: true,
+			});
+
+			draw.start();
+
+			const callback = jest.fn();
+			draw.on("changeset", callback);
+
+			draw.addFeatures([
+				{
+					...pointFeature,
+					properties: {
+						mode: "point",
+						createdAt: 1685568434891,
+						updatedAt: 1685568435434,
+					},
+				},
+			]);
+
+			expect(callback.mock.calls[0][0][0]).toMatchObject({
+				createdAt: 1685568434891,
+				updatedAt: 1685568435434,
+			});
+		});
+
+		it("emits patches for undo and redo", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode()],
+			});
+
+			draw.start();
+			const [{ id }] = draw.addFeatures([pointFeature]);
+
+			const callback = jest.fn();
+			draw.on("changeset", callback);
+
+			draw.undo();
+			draw.redo();
+
+			expect(callback).toHaveBeenCalledTimes(2);
+			expect(callback.mock.calls[0][0][0]).toMatchObject({
+				id,
+				operation: "delete",
+			});
+			expect(callback.mock.calls[1][0][0]).toMatchObject({
+				id,
+				operation: "create",
+			});
+		});
+	});
+
+	describe("applyRemoteChanges", () => {
+		const point = (lng: number) => ({
+			geometry: { type: "Point", coordinates: [lng, 0] } as Point,
+			properties: { mode: "point" },
+		});
+
+		it("creates, updates and deletes features without emitting a changeset", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode()],
+			});
+
+			draw.start();
+
+			const changeset = jest.fn();
+			draw.on("changeset", changeset);
+
+			const id = draw.getFeatureId();
+			const deletedId = draw.getFeatureId();
+
+			const validations = draw.applyRemoteChanges([
+				{
+					id,
+					operation: "create",
+					before: null,
+					after: point(0),
+					createdAt: null,
+					updatedAt: null,
+				},
+				{
+					id: deletedId,
+					operation: "create",
+					before: null,
+					after: point(1),
+					createdAt: null,
+					updatedAt: null,
+				},
+			]);
+
+			expect(validations).toStrictEqual([
+				{ id, valid: true },
+				{ id: deletedId, valid: true },
+			]);
+
+			draw.applyRemoteChanges([
+				{
+					id,
+					operation: "update",
+					before: point(0),
+					after: point(2),
+					createdAt: null,
+					updatedAt: null,
+				},
+				{
+					id: deletedId,
+					operation: "delete",
+					before: point(1),
+					after: null,
+					createdAt: null,
+					updatedAt: null,
+				},
+			]);
+
+			expect(draw.getSnapshot()).toStrictEqual([
+				{ id, type: "Feature", ...point(2) },
+			]);
+			expect(changeset).not.toHaveBeenCalled();
+			expect(draw.canUndo()).toBe(false);
+		});
+
+		it("keeps the timestamps of the remote change", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode()],
+				tracked: true,
+			});
+
+			draw.start();
+			const [{ id }] = draw.addFeatures([
+				{ type: "Feature", ...point(0) } as GeoJSONStoreFeatures,
+			]);
+
+			const after = {
+				geometry: point(1).geometry,
+				properties: {
+					mode: "point",
+					createdAt: 1685568434891,
+					updatedAt: 1685568435434,
+				},
+			};
+
+			draw.applyRemoteChanges([
+				{
+					id: id as string,
+					operation: "update",
+					before: null,
+					after,
+					createdAt: 1685568434891,
+					updatedAt: 1685568435434,
+				},
+			]);
+
+			expect(draw.getSnapshot()[0].properties).toStrictEqual(after.properties);
+		});
+
+		it("does not apply invalid changes", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode()],
+			});
+
+			draw.start();
+
+			const id = draw.getFeatureId();
+			const validations = draw.applyRemoteChanges([
+				{
+					id,
+					operation: "create",
+					before: null,
+					after: { ...point(0), properties: { mode: "polygon" } },
+					createdAt: null,
+					updatedAt: null,
+				},
+			]);
+
+			expect(validations).toStrictEqual([
+				{
+					id,
+					valid: false,
+					reason: "polygon mode is not in the list of instantiated modes",
+				},
+			]);
+			expect(draw.getSnapshot()).toHaveLength(0);
+		});
+
+		describe("conflicts with the feature being drawn", () => {
+			const setup = () => {
+				let callbacks: TerraDrawCallbacks | undefined;
+				jest.spyOn(adapter, "register").mockImplementationOnce((registered) => {
+					callbacks = registered;
+				});
+
+				const draw = new TerraDraw({
+					adapter,
+					modes: [new TerraDrawLineStringMode()],
+				});
+
+				draw.start();
+				draw.setMode("linestring");
+
+				callbacks?.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+				callbacks?.onMouseMove(MockCursorEvent({ lng: 1, lat: 1 }));
+
+				const [drawing] = draw.getSnapshot();
+				const patch = {
+					id: drawing.id as string,
+					operation: "update" as const,
+					before: null,
+					after: {
+						geometry: {
+							type: "LineString",
+							coordinates: [
+								[0, 0],
+								[2, 2],
+							],
+						} as LineString,
+						properties: { mode: "linestring" },
+					},
+					createdAt: null,
+					updatedAt: null,
+				};
+
+				return { draw, patch };
+			};
+
+			it("cancels the drawing by default", () => {
+				const { draw, patch } = setup();
+
+				const validations = draw.applyRemoteChanges([patch]);
+
+				expect(validations).toStrictEqual([{ id: patch.id, valid: true }]);
+				expect(draw.canUndo()).toBe(false);
+
+				const snapshot = draw.getSnapshot();
+				expect(snapshot).toHaveLength(1);
+				expect(snapshot[0].geometry).toStrictEqual(patch.after.geometry);
+			});
+
+			it("does not apply the change if local changes win", () => {
+				const { draw, patch } = setup();
+
+				const validations = draw.applyRemoteChanges([patch], {
+					conflicts: "local",
+				});
+
+				expect(validations).toStrictEqual([
+					{
+						id: patch.id,
+						valid: false,
+						reason: "Feature is currently being edited",
+					},
+				]);
+				expect(draw.canUndo()).toBe(true);
+				expect(draw.getSnapshot()[0].geometry).not.toStrictEqual(
+					patch.after.geometry,
+				);
+			});
+		});
+
+		describe("conflicts with the feature being dragged", () => {
+			const setup = () => {
+				let callbacks: TerraDrawCallbacks | undefined;
+				jest.spyOn(adapter, "register").mockImplementationOnce((registered) => {
+					callbacks = registered;
+				});
+
+				const draw = new TerraDraw({
+					adapter,
+					modes: [
+						new TerraDrawPointMode(),
+						new TerraDrawSelectMode({
+							flags: { point: { feature: { draggable: true } } },
+						}),
+					],
+				});
+
+				draw.start();
+				const [{ id }] = draw.addFeatures([
+					{ type: "Feature", ...point(0) } as GeoJSONStoreFeatures,
+				]);
+				draw.selectFeature(id as string);
+
+				const onFinish = jest.fn();
+				draw.on("finish", onFinish);
+
+				const setMapDraggability = jest.fn();
+				callbacks?.onDragStart(
+					MockCursorEvent({ lng: 0, lat: 0 }),
+					setMapDraggability,
+				);
+				callbacks?.onDrag(
+					MockCursorEvent({ lng: 0.5, lat: 0 }),
+					setMapDraggability,
+				);
+
+				const dragEnd = () =>
+					callbacks?.onDragEnd(
+						MockCursorEvent({ lng: 0.5, lat: 0 }),
+						setMapDraggability,
+					);
+
+				return { draw, id: id as string, onFinish, dragEnd };
+			};
+
+			it("stops the drag when the feature is deleted", () => {
+				const { draw, id, onFinish, dragEnd } = setup();
+
+				draw.applyRemoteChanges([
+					{
+						id,
+						operation: "delete",
+						before: point(0),
+						after: null,
+						createdAt: null,
+						updatedAt: null,
+					},
+				]);
+				dragEnd();
+
+				expect(draw.getSnapshot()).toHaveLength(0);
+				expect(onFinish).not.toHaveBeenCalled();
+			});
+
+			it("stops the drag when the feature is updated", () => {
+				const { draw, id, onFinish, dragEnd } = setup();
+
+				draw.applyRemoteChanges([
+					{
+						id,
+						operation: "update",
+						before: point(0),
+						after: point(2),
+						createdAt: null,
+						updatedAt: null,
+					},
+				]);
+				dragEnd();
+
+				expect(draw.getSnapshot()[0].geometry).toStrictEqual(point(2).geometry);
+				expect(onFinish).not.toHaveBeenCalled();
+			});
+		});
+	});
+
+	describe("persistence", () => {
+		const pointFeature = {
+			id: "e90e54ea-0a63-407e-b433-08717009d9f6",
+			type: "Feature",
+			geometry: { type: "Point", coordinates: [1, 2] },
+			properties: { mode: "point" },
+		} as GeoJSONStoreFeatures;
+
+		// The adapter is only ready once the map is, so we make it ready straight away
+		const startWhenReady = (draw: TerraDraw) => {
+			const register = adapter.register.bind(adapter);
+			jest.spyOn(adapter, "register").mockImplementationOnce((callbacks) => {
+				register(callbacks);
+				if (callbacks.onReady) {
+					callbacks.onReady();
+				}
+			});
+			draw.start();
+		};
+
+		const waitForStorage = () => new Promise((resolve) => setTimeout(resolve));
+
+		it("restores persisted features once the adapter is ready", async () => {
+			const storage = new TerraDrawMemoryStorage();
+			await storage.save("terra-draw", 1, {
+				saved: [pointFeature],
+				deleted: [],
+			});
+
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode()],
+				persistence: { storage, onError: jest.fn() },
+			});
+
+			const onRestore = jest.fn();
+			draw.on("restore", onRestore);
+
+			startWhenReady(draw);
+			await waitForStorage();
+
+			expect(onRestore).toHaveBeenCalledWith([
+				{ id: pointFeature.id, valid: true, reason: undefined },
+			]);
+			expect(draw.getSnapshot()).toHaveLength(1);
+			expect(draw.canUndo()).toBe(false);
+		});
+
+		it("does not restore features for modes which are not instantiated", async () => {
+			const storage = new TerraDrawMemoryStorage();
+			await storage.save("terra-draw", 1, {
+				saved: [pointFeature],
+				deleted: [],
+			});
+
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPolygonMode()],
+				persistence: { storage, onError: jest.fn() },
+			});
+
+			const onRestore = jest.fn();
+			draw.on("restore", onRestore);
+
+			startWhenReady(draw);
+			await waitForStorage();
+
+			expect(onRestore).toHaveBeenCalledWith([
+				{
+					id: pointFeature.id,
+					valid: false,
+					reason: "point mode is not in the list of instantiated modes",
+				},
+			]);
+			expect(draw.getSnapshot()).toHaveLength(0);
+		});
+
+		it("saves changes to the store and removes them when cleared", async () => {
+			const storage = new TerraDrawMemoryStorage();
+
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode()],
+				persistence: {
+					storage,
+					namespace: "points",
+					debounce: 0,
+					onError: jest.fn(),
+				},
+			});
+
+			startWhenReady(draw);
+			draw.addFeatures([pointFeature]);
+			await waitForStorage();
+
+			expect((await storage.load("points"))?.features).toHaveLength(1);
+
+			draw.clear();
+			await waitForStorage();
+
+			expect(await storage.load("points")).toBeUndefined();
+		});
+
+		it("passes errors from saving and clearing to onError", async () => {
+			const storage = new TerraDrawMemoryStorage();
+			jest
+				.spyOn(storage, "save")
+				.mockRejectedValue(new Error("Quota exceeded"));
+			jest.spyOn(storage, "clear").mockRejectedValue(new Error("Blocked"));
+			const onError = jest.fn();
+
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode()],
+				persistence: { storage, debounce: 0, onError },
+			});
+
+			startWhenReady(draw);
+			draw.addFeatures([pointFeature]);
+			await waitForStorage();
+			draw.clear();
+			await waitForStorage();
+
+			expect(onError).toHaveBeenCalledWith(new Error("Quota exceeded"));
+			expect(onError).toHaveBeenCalledWith(new Error("Blocked"));
+		});
+
+		it("passes errors from restoring to onError", async () => {
+			const storage = new TerraDrawMemoryStorage();
+			jest.spyOn(storage, "load").mockRejectedValue(new Error("Blocked"));
+			const onError = jest.fn();
+
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode()],
+				persistence: { storage, onError },
+			});
+
+			startWhenReady(draw);
+			await waitForStorage();
+
+			expect(onError).toHaveBeenCalledWith(new Error("Blocked"));
+		});
 	});
 
 	describe("clear", () => {
@@ -530,6 +1723,170 @@ describe("Terra Draw", () => {
 		});
 	});
 
+	describe("undo and redo", () => {
+		const pointFeature = {
+			type: "Feature",
+			geometry: {
+				type: "Point",
+				coordinates: [0, 0],
+			},
+			properties: {
+				mode: "point",
+			},
+		} as GeoJSONStoreFeatures;
+
+		it("undoes and redoes added features", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode()],
+			});
+
+			draw.start();
+
+			expect(draw.canUndo()).toBe(false);
+			expect(draw.undo()).toBe(false);
+
+			draw.addFeatures([pointFeature]);
+
+			expect(draw.canUndo()).toBe(true);
+			expect(draw.undo()).toBe(true);
+			expect(draw.getSnapshot()).toHaveLength(0);
+			expect(draw.canRedo()).toBe(true);
+
+			expect(draw.redo()).toBe(true);
+			expect(draw.getSnapshot()).toHaveLength(1);
+			expect(draw.canRedo()).toBe(false);
+			expect(draw.redo()).toBe(false);
+		});
+
+		it("undoes removed features", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode()],
+			});
+
+			draw.start();
+
+			const [{ id }] = draw.addFeatures([pointFeature]);
+			draw.removeFeatures([id as string]);
+
+			expect(draw.hasFeature(id as string)).toBe(false);
+
+			draw.undo();
+
+			expect(draw.hasFeature(id as string)).toBe(true);
+		});
+
+		it("emits history events", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode()],
+			});
+
+			draw.start();
+
+			const callback = jest.fn();
+			draw.on("history", callback);
+
+			const [{ id }] = draw.addFeatures([pointFeature]);
+			expect(callback).toHaveBeenNthCalledWith(1, [id], "record");
+
+			draw.undo();
+			expect(callback).toHaveBeenNthCalledWith(2, [id], "undo");
+
+			draw.redo();
+			expect(callback).toHaveBeenNthCalledWith(3, [id], "redo");
+		});
+
+		it("undoes using the default key events", () => {
+			let callbacks: TerraDrawCallbacks | undefined;
+			jest.spyOn(adapter, "register").mockImplementationOnce((registered) => {
+				callbacks = registered;
+			});
+
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode()],
+			});
+
+			draw.start();
+			draw.addFeatures([pointFeature]);
+
+			callbacks?.onKeyUp(
+				MockKeyboardEvent({ key: "z", heldKeys: ["Control"] }),
+			);
+			expect(draw.getSnapshot()).toHaveLength(0);
+
+			callbacks?.onKeyUp(
+				MockKeyboardEvent({ key: "y", heldKeys: ["Control"] }),
+			);
+			expect(draw.getSnapshot()).toHaveLength(1);
+		});
+
+		it("does not undo using key events when they are set to null", () => {
+			let callbacks: TerraDrawCallbacks | undefined;
+			jest.spyOn(adapter, "register").mockImplementationOnce((registered) => {
+				callbacks = registered;
+			});
+
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode()],
+				history: { keyEvents: null },
+			});
+
+			draw.start();
+			draw.addFeatures([pointFeature]);
+
+			callbacks?.onKeyUp(
+				MockKeyboardEvent({ key: "z", heldKeys: ["Control"] }),
+			);
+			expect(draw.getSnapshot()).toHaveLength(1);
+		});
+
+		it("records a drawing once it is finished", () => {
+			let callbacks: TerraDrawCallbacks | undefined;
+			jest.spyOn(adapter, "register").mockImplementationOnce((registered) => {
+				callbacks = registered;
+			});
+
+			const draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawLineStringMode()],
+			});
+
+			draw.start();
+			draw.setMode("linestring");
+
+			callbacks?.onClick(MockCursorEvent({ lng: 0, lat: 0 }));
+			callbacks?.onMouseMove(MockCursorEvent({ lng: 1, lat: 1 }));
+			callbacks?.onClick(MockCursorEvent({ lng: 1, lat: 1 }));
+
+			expect(draw.canUndo()).toBe(true);
+			expect(draw.canRedo()).toBe(false);
+
+			callbacks?.onMouseMove(MockCursorEvent({ lng: 2, lat: 2 }));
+			callbacks?.onClick(MockCursorEvent({ lng: 2, lat: 2 }));
+			callbacks?.onKeyUp(MockKeyboardEvent({ key: "Enter" }));
+
+			expect(draw.getSnapshot()).toHaveLength(1);
+
+			draw.undo();
+
+			expect(draw.getSnapshot()).toHaveLength(0);
+
+			draw.redo();
+
+			const snapshot = draw.getSnapshot();
+			expect(snapshot).toHaveLength(1);
+			expect(snapshot[0].geometry.coordinates).toStrictEqual([
+				[0, 0],
+				[1, 1],
+				[2, 2],
+			]);
+		});
+	});
+
 	describe("enabled", () => {
 		it("returns false if disabled", () => {
 			const draw = new TerraDraw({
@@ -630,6 +1987,89 @@ describe("Terra Draw", () => {
 
 			expect(features).toHaveLength(3);
 		});
+
+		it("gets multi geometry features when any of their parts are at the given longitude and latitude", () => {
+			const draw = new TerraDraw({
+				adapter,
+				modes: [
+					new TerraDrawPointMode(),
+					new TerraDrawLineStringMode(),
+					new TerraDrawPolygonMode(),
+				],
+			});
+
+			draw.start();
+
+			const [multiPoint, multiLineString, multiPolygon] = draw.addFeatures([
+				{
+					type: "Feature",
+					geometry: {
+						type: "MultiPoint",
+						coordinates: [
+							[20, 20],
+							[0, 0],
+						],
+					},
+					properties: {
+						mode: "point",
+					},
+				},
+				{
+					type: "Feature",
+					geometry: {
+						type: "MultiLineString",
+						coordinates: [
+							[
+								[20, 20],
+								[21, 21],
+							],
+							[
+								[0, 0],
+								[1, 1],
+							],
+						],
+					},
+					properties: {
+						mode: "linestring",
+					},
+				},
+				{
+					type: "Feature",
+					geometry: {
+						type: "MultiPolygon",
+						coordinates: [
+							[
+								[
+									[20, 20],
+									[20, 21],
+									[21, 21],
+									[21, 20],
+									[20, 20],
+								],
+							],
+							[
+								[
+									[0, 0],
+									[0, 1],
+									[1, 1],
+									[1, 0],
+									[0, 0],
+								],
+							],
+						],
+					},
+					properties: {
+						mode: "polygon",
+					},
+				},
+			]);
+
+			expect(multiPoint.valid).toBe(true);
+			expect(multiLineString.valid).toBe(true);
+			expect(multiPolygon.valid).toBe(true);
+
+			expect(draw.getFeaturesAtLngLat({ lng: 0, lat: 0 })).toHaveLength(3);
+		});
 	});
 
 	describe("getFeaturesAtPointerEvent", () => {
@@ -721,6 +2161,226 @@ describe("Terra Draw", () => {
 		});
 	});
 
+	describe("contextmenu", () => {
+		it("calls the contextmenu listeners and the mode with the features under the pointer", () => {
+			let callbacks: TerraDrawCallbacks | undefined;
+			jest.spyOn(adapter, "register").mockImplementationOnce((registered) => {
+				callbacks = registered;
+				TerraDrawGoogleMapsAdapter.prototype.register.call(adapter, registered);
+			});
+
+			const pointMode = new TerraDrawPointMode();
+			jest.spyOn(pointMode, "onContextMenu");
+
+			const draw = new TerraDraw({
+				adapter,
+				modes: [pointMode],
+			});
+
+			draw.start();
+			draw.setMode("point");
+
+			const [{ id }] = draw.addFeatures([
+				{
+					type: "Feature",
+					geometry: { type: "Point", coordinates: [0, 0] },
+					properties: { mode: "point" },
+				},
+			]);
+
+			const listener = jest.fn();
+			draw.on("contextmenu", listener);
+
+			callbacks?.onContextMenu(
+				MockCursorEvent({ lng: 0, lat: 0, button: "right" }),
+			);
+
+			const expected = expect.objectContaining({
+				lng: 0,
+				lat: 0,
+				button: "right",
+				features: [expect.objectContaining({ id })],
+			});
+			expect(listener).toHaveBeenCalledTimes(1);
+			expect(listener).toHaveBeenCalledWith(expected);
+			expect(pointMode.onContextMenu).toHaveBeenCalledWith(expected);
+
+			draw.off("contextmenu", listener);
+			callbacks?.onContextMenu(
+				MockCursorEvent({ lng: 0, lat: 0, button: "right" }),
+			);
+			expect(listener).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("hover", () => {
+		let callbacks: TerraDrawCallbacks | undefined;
+		let draw: TerraDraw;
+
+		const polygon: GeoJSONStoreFeatures = {
+			type: "Feature",
+			geometry: {
+				type: "Polygon",
+				coordinates: [
+					[
+						[0, 0],
+						[0, 1],
+						[1, 1],
+						[1, 0],
+						[0, 0],
+					],
+				],
+			},
+			properties: { mode: "polygon" },
+		};
+
+		const isHovered = (id: unknown) =>
+			draw.getSnapshot().find((feature) => feature.id === id)?.properties
+				.hovered;
+
+		beforeEach(() => {
+			jest.spyOn(adapter, "register").mockImplementationOnce((registered) => {
+				callbacks = registered;
+
+				// The adapter is still registered so that it can project coordinates
+				TerraDrawGoogleMapsAdapter.prototype.register.call(adapter, registered);
+			});
+
+			draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPointMode(), new TerraDrawPolygonMode()],
+			});
+
+			draw.start();
+		});
+
+		it("emits hover and hoverend as the pointer moves over and off a feature", () => {
+			const [{ id }] = draw.addFeatures([polygon]);
+
+			const hover = jest.fn();
+			const hoverend = jest.fn();
+			const history = jest.fn();
+			draw.on("hover", hover);
+			draw.on("hoverend", hoverend);
+			draw.on("history", history);
+
+			callbacks?.onMouseMove(MockCursorEvent({ lng: 0.5, lat: 0.5 }));
+			callbacks?.onMouseMove(MockCursorEvent({ lng: 0.6, lat: 0.6 }));
+
+			expect(hover).toHaveBeenCalledTimes(1);
+			expect(hover).toHaveBeenCalledWith(id);
+			expect(hoverend).not.toHaveBeenCalled();
+			expect(isHovered(id)).toBe(true);
+
+			callbacks?.onMouseMove(MockCursorEvent({ lng: 5, lat: 5 }));
+
+			expect(hoverend).toHaveBeenCalledTimes(1);
+			expect(hoverend).toHaveBeenCalledWith(id);
+			expect(isHovered(id)).toBe(false);
+
+			// Hovering is not an edit so it is not recorded in the history
+			draw.setMode("point");
+			expect(history).not.toHaveBeenCalled();
+		});
+
+		it("reports hovering as a styling change which is not persisted", async () => {
+			const storage = new TerraDrawMemoryStorage();
+			const save = jest.spyOn(storage, "save");
+
+			draw.stop();
+			jest.spyOn(adapter, "register").mockImplementationOnce((registered) => {
+				callbacks = registered;
+				TerraDrawGoogleMapsAdapter.prototype.register.call(adapter, registered);
+			});
+
+			draw = new TerraDraw({
+				adapter,
+				modes: [new TerraDrawPolygonMode()],
+				tracked: true,
+				persistence: { storage, debounce: 0, onError: jest.fn() },
+			});
+			draw.start();
+
+			const [{ id }] = draw.addFeatures([polygon]);
+			await new Promise((resolve) => setTimeout(resolve));
+			save.mockClear();
+
+			const getUpdatedAt = () =>
+				draw.getSnapshot().find((feature) => feature.id === id)?.properties
+					.updatedAt;
+			const updatedAt = getUpdatedAt();
+			const change = jest.fn();
+			draw.on("change", change);
+
+			callbacks?.onMouseMove(MockCursorEvent({ lng: 0.5, lat: 0.5 }));
+			callbacks?.onMouseMove(MockCursorEvent({ lng: 5, lat: 5 }));
+			await new Promise((resolve) => setTimeout(resolve));
+
+			expect(change).toHaveBeenCalledTimes(2);
+			expect(change).toHaveBeenCalledWith([id], "styling");
+			expect(updatedAt).toBeDefined();
+			expect(getUpdatedAt()).toBe(updatedAt);
+			expect(save).not.toHaveBeenCalled();
+		});
+
+		it("prefers points over the polygons they are on", () => {
+			const [, { id }] = draw.addFeatures([
+				polygon,
+				{
+					type: "Feature",
+					geometry: { type: "Point", coordinates: [0, 0] },
+					properties: { mode: "point" },
+				},
+			]);
+
+			const hover = jest.fn();
+			draw.on("hover", hover);
+
+			callbacks?.onMouseMove(MockCursorEvent({ lng: 0.5, lat: 0.5 }));
+
+			expect(hover).toHaveBeenCalledTimes(1);
+			expect(hover).toHaveBeenCalledWith(id);
+		});
+
+		it("does not hover features in drawing modes", () => {
+			draw.addFeatures([polygon]);
+			draw.setMode("point");
+
+			const hover = jest.fn();
+			draw.on("hover", hover);
+
+			callbacks?.onMouseMove(MockCursorEvent({ lng: 0.5, lat: 0.5 }));
+
+			expect(hover).not.toHaveBeenCalled();
+		});
+
+		it("ends the hover when the mode is changed", () => {
+			const [{ id }] = draw.addFeatures([polygon]);
+
+			const hoverend = jest.fn();
+			draw.on("hoverend", hoverend);
+
+			callbacks?.onMouseMove(MockCursorEvent({ lng: 0.5, lat: 0.5 }));
+			draw.setMode("point");
+
+			expect(hoverend).toHaveBeenCalledWith(id);
+			expect(isHovered(id)).toBe(false);
+		});
+
+		it("ends the hover of a deleted feature", () => {
+			const [{ id }] = draw.addFeatures([polygon]);
+
+			const hoverend = jest.fn();
+			draw.on("hoverend", hoverend);
+
+			callbacks?.onMouseMove(MockCursorEvent({ lng: 0.5, lat: 0.5 }));
+			draw.removeFeatures([id as string]);
+			callbacks?.onMouseMove(MockCursorEvent({ lng: 0.5, lat: 0.5 }));
+
+			expect(hoverend).toHaveBeenCalledWith(id);
+		});
+	});
+
 	describe("off", () => {
 		it("it does not call on change once it has been removed", async () => {
 			const draw = new TerraDraw({
@@ -4,6 +4,8 @@ import { TerraDrawMapboxGLAdapter } from "./adapters/mapbox-gl.adapter";
 import { TerraDrawMapLibreGLAdapter } from "./adapters/maplibre-gl.adapter";
 import { TerraDrawOpenLayersAdapter } from "./adapters/openlayers.adapter";
 import { TerraDrawArcGISMapsSDKAdapter } from "./adapters/arcgis-maps-sdk.adapter";
+import { TerraDrawDeckGLAdapter } from "./adapters/deck-gl.adapter";
+import { TerraDrawCesiumAdapter } from "./adapters/cesium.adapter";
 import {
 	TerraDrawAdapter,
 	TerraDrawAdapterStyling,
@@ -16,7 +18,10 @@ import {
 	HexColor,
 	TerraDrawKeyboardEvent,
 	TerraDrawMouseEvent,
+	TerraDrawGestureEvent,
+	TerraDrawContextMenuEvent,
 	SELECT_PROPERTIES,
+	COMMON_PROPERTIES,
 	OnFinishContext,
 } from "./common";
 import {
@@ -38,7 +43,9 @@ import {
 	FeatureId,
 	GeoJSONStore,
 	GeoJSONStoreFeatures,
+	GeoJSONStoreGeometries,
 	IdStrategy,
+	StoreChangeContext,
 	StoreChangeHandler,
 	StoreValidation,
 } from "./store/store";
@@ -46,6 +53,7 @@ import { BehaviorConfig } from "./modes/base.behavior";
 import { cartesianDistance } from "./geometry/measure/pixel-distance";
 import { pixelDistanceToLine } from "./geometry/measure/pixel-distance-to-line";
 import { Position } from "geojson";
+import { getGeometryParts } from "./geometry/geometry-parts";
 import { pointInPolygon } from "./geometry/boolean/point-in-polygon";
 import { createBBoxFromPoint } from "./geometry/shape/create-bbox";
 import { ValidateMinAreaSquareMeters } from "./validations/min-size.validation";
@@ -54,14 +62,50 @@ import { ValidateNotSelfIntersecting } from "./validations/not-self-intersecting
 import { TerraDrawAngledRectangleMode } from "./modes/angled-rectangle/angled-rectangle.mode";
 import { TerraDrawSectorMode } from "./modes/sector/sector.mode";
 import { TerraDrawSensorMode } from "./modes/sensor/sensor.mode";
+import { TerraDrawSplitMode } from "./modes/split/split.mode";
+import { TerraDrawCurveMode } from "./modes/curve/curve.mode";
+import { TerraDrawArcMode } from "./modes/arc/arc.mode";
+import { TerraDrawEllipseMode } from "./modes/ellipse/ellipse.mode";
+import { TerraDrawRegularPolygonMode } from "./modes/regular-polygon/regular-polygon.mode";
 import * as TerraDrawExtend from "./extend";
 import { hasModeProperty } from "./store/store-feature-validation";
 import { ValidationReasons } from "./validation-reasons";
+import { GeoJSONStoreHistory, HistoryAction } from "./store/store-history";
+import { isGuidanceFeature } from "./store/guidance-feature";
+import {
+	BUILT_IN_SERIALIZERS,
+	DEFAULT_IMPORT_MODES,
+	ImportModes,
+	TerraDrawSerializer,
+	assignImportModes,
+} from "./store/serialization/serialization";
+import {
+	GeoJSONStorePersistence,
+	PersistenceMigration,
+	TerraDrawStorage,
+} from "./store/store-persistence";
+import { TerraDrawMemoryStorage } from "./store/storage/memory.storage";
+import { TerraDrawLocalStorage } from "./store/storage/local-storage.storage";
+import { TerraDrawIndexedDBStorage } from "./store/storage/indexed-db.storage";
+import {
+	FeaturePatch,
+	applyFeaturePatch,
+	createFeaturePatches,
+} from "./store/store-change-set";
 
 type FinishListener = (id: FeatureId, context: OnFinishContext) => void;
-type ChangeListener = (ids: FeatureId[], type: string) => void;
+type ChangeListener = (
+	ids: FeatureId[],
+	type: string,
+	context?: StoreChangeContext,
+) => void;
 type SelectListener = (id: FeatureId) => void;
-type DeselectListener = () => void;
+type DeselectListener = (id: FeatureId) => void;
+type HistoryListener = (ids: FeatureId[], action: HistoryAction) => void;
+type RestoreListener = (validations: StoreValidation[]) => void;
+type ChangeSetListener = (patches: FeaturePatch[]) => void;
+type ContextMenuListener = (event: TerraDrawContextMenuEvent) => void;
+type HoverListener = (id: FeatureId) => void;
 
 interface TerraDrawEventListeners {
 	ready: () => void;
@@ -69,8 +113,19 @@ interface TerraDrawEventListeners {
 	change: ChangeListener;
 	select: SelectListener;
 	deselect: DeselectListener;
+	history: HistoryListener;
+	restore: RestoreListener;
+	changeset: ChangeSetListener;
+	contextmenu: ContextMenuListener;
+	hover: HoverListener;
+	hoverend: HoverListener;
 }
 
+type TerraDrawHistoryKeyEvents = {
+	undo: KeyboardEvent["key"][] | null;
+	redo: KeyboardEvent["key"][] | null;
+};
+
 type TerraDrawEvents = keyof TerraDrawEventListeners;
 
 class TerraDraw {
@@ -87,7 +142,19 @@ class TerraDraw {
 		finish: FinishListener[];
 		select: SelectListener[];
 		deselect: DeselectListener[];
+		history: HistoryListener[];
+		restore: RestoreListener[];
+		changeset: ChangeSetListener[];
+		contextmenu: ContextMenuListener[];
+		hover: HoverListener[];
+		hoverend: HoverListener[];
 	};
+	private _history: GeoJSONStoreHistory;
+	private _historyKeyEvents: TerraDrawHistoryKeyEvents;
+	private _serializers: Record<string, TerraDrawSerializer>;
+	private _persistence: GeoJSONStorePersistence | undefined;
+	private _restored = false;
+	private _hoveredId: FeatureId | undefined;
 	// This is the select mode that is assigned in the instance.
 	// There can only be 1 select mode active per instance
 	private _instanceSelectMode: undefined | string;
@@ -97,6 +164,27 @@ class TerraDraw {
 		modes: TerraDrawBaseDrawMode<any>[];
 		idStrategy?: IdStrategy<FeatureId>;
 		tracked?: boolean;
+		history?: {
+			limit?: number;
+			keyEvents?: Partial<TerraDrawHistoryKeyEvents> | null;
+		};
+		// Additional formats for exportAs and importFrom, which can also replace the built in ones
+		serializers?: Record<string, TerraDrawSerializer>;
+		persistence?: {
+			// Where the features are saved, i.e. TerraDrawLocalStorage or TerraDrawIndexedDBStorage
+			storage: TerraDrawStorage;
+			// Separates the features of different instances using the same storage
+			namespace?: string;
+			// How long to wait in milliseconds after the last change before saving
+			debounce?: number;
+			// The schema version of the saved features
+			version?: number;
+			// Converts features saved with an older version, which are otherwise discarded
+			migrate?: PersistenceMigration;
+			// Called with errors from the storage, which happen in the background where
+			// they can not otherwise be caught
+			onError: (error: unknown) => void;
+		};
 	}) {
 		this._adapter = options.adapter;
 
@@ -144,12 +232,53 @@ class TerraDraw {
 			deselect: [],
 			finish: [],
 			ready: [],
+			history: [],
+			restore: [],
+			changeset: [],
+			contextmenu: [],
+			hover: [],
+			hoverend: [],
 		};
 		this._store = new GeoJSONStore<FeatureId>({
 			tracked: options.tracked ? true : false,
 			idStrategy: options.idStrategy ? options.idStrategy : undefined,
 		});
 
+		this._serializers = { ...BUILT_IN_SERIALIZERS, ...options.serializers };
+
+		this._persistence = options.persistence
+			? new GeoJSONStorePersistence({
+					store: this._store,
+					...options.persistence,
+			  })
+			: undefined;
+
+		this._history = new GeoJSONStoreHistory({
+			store: this._store,
+			limit: options.history?.limit,
+			onChanges: (changes) => {
+				const patches = createFeaturePatches(changes);
+
+				this._eventListeners.changeset.forEach((listener) => {
+					listener(patches);
+				});
+			},
+		});
+
+		// We want to have some defaults, but also allow key bindings
+		// to be explicitly turned off
+		if (options.history?.keyEvents === null) {
+			this._historyKeyEvents = { undo: null, redo: null };
+		} else {
+			const defaultKeyEvents = {
+				undo: ["Control", "z"],
+				redo: ["Control", "y"],
+			};
+			this._historyKeyEvents = options.history?.keyEvents
+				? { ...defaultKeyEvents, ...options.history.keyEvents }
+				: defaultKeyEvents;
+		}
+
 		const getChanged = (
 			ids: FeatureId[],
 		): {
@@ -180,13 +309,26 @@ class TerraDraw {
 			});
 		};
 
-		const onChange: StoreChangeHandler = (ids, event) => {
+		const onChange: StoreChangeHandler = (ids, event, context) => {
+			// Styling changes do not alter features so we don't need to track them
+			if (event !== "styling") {
+				this._history.markChanged(ids);
+
+				if (this._persistence) {
+					this._persistence.markChanged(ids);
+				}
+			}
+
 			if (!this._enabled) {
 				return;
 			}
 
 			this._eventListeners.change.forEach((listener) => {
-				listener(ids, event);
+				if (context) {
+					listener(ids, event, context);
+				} else {
+					listener(ids, event);
+				}
 			});
 
 			const { changed, unchanged } = getChanged(ids);
@@ -218,7 +360,7 @@ class TerraDraw {
 				);
 			} else if (event === "styling") {
 				this._adapter.render(
-					{ created: [], deletedIds: [], unchanged, updated: [] },
+					{ created: [], deletedIds: [], unchanged, updated: changed },
 					this.getModeStyles(),
 				);
 			}
@@ -247,7 +389,7 @@ class TerraDraw {
 			}
 
 			this._eventListeners.deselect.forEach((listener) => {
-				listener();
+				listener(deselectedId);
 			});
 
 			const { changed, unchanged } = getChanged([deselectedId]);
@@ -284,6 +426,8 @@ class TerraDraw {
 				onDeselect: onDeselect,
 				onFinish: onFinish,
 				coordinatePrecision: this._adapter.getCoordinatePrecision(),
+				validateFeatureForMode: (feature: unknown) =>
+					this.validateFeatureForMode(feature),
 			});
 		});
 	}
@@ -312,7 +456,22 @@ class TerraDraw {
 				}
 
 				// Otherwise use regular styling
-				return this._modes[mode].styleFeature.bind(this._modes[mode])(feature);
+				const styles = this._modes[mode].styleFeature.bind(this._modes[mode])(
+					feature,
+				);
+
+				// Hovered features can be highlighted by the select mode while it is active
+				if (
+					this._instanceSelectMode &&
+					this._mode === this._modes[this._instanceSelectMode] &&
+					feature.properties[COMMON_PROPERTIES.HOVERED]
+				) {
+					return (
+						this._mode as TerraDrawBaseSelectMode<any>
+					).styleHoveredFeature(feature, styles);
+				}
+
+				return styles;
 			};
 		});
 		return modeStyles;
@@ -326,7 +485,7 @@ class TerraDraw {
 			lng: number;
 			lat: number;
 		},
-		options?: { pointerDistance: number; ignoreSelectFeatures: boolean },
+		options?: { pointerDistance?: number; ignoreSelectFeatures?: boolean },
 	) {
 		const pointerDistance =
 			options && options.pointerDistance !== undefined
@@ -362,41 +521,203 @@ class TerraDraw {
 				return false;
 			}
 
-			if (feature.geometry.type === "Point") {
-				const pointCoordinates = feature.geometry.coordinates;
-				const pointXY = project(pointCoordinates[0], pointCoordinates[1]);
-				const distance = cartesianDistance(inputPoint, pointXY);
-				return distance < pointerDistance;
-			} else if (feature.geometry.type === "LineString") {
-				const coordinates: Position[] = feature.geometry.coordinates;
-
-				for (let i = 0; i < coordinates.length - 1; i++) {
-					const coord = coordinates[i];
-					const nextCoord = coordinates[i + 1];
-					const distanceToLine = pixelDistanceToLine(
-						inputPoint,
-						project(coord[0], coord[1]),
-						project(nextCoord[0], nextCoord[1]),
-					);
-
-					if (distanceToLine < pointerDistance) {
-						return true;
+			// Multi geometries are hit if any one of their parts is hit
+			return getGeometryParts(feature.geometry).some((geometry) => {
+				if (geometry.type === "Point") {
+					const pointCoordinates = geometry.coordinates;
+					const pointXY = project(pointCoordinates[0], pointCoordinates[1]);
+					const distance = cartesianDistance(inputPoint, pointXY);
+					return distance < pointerDistance;
+				} else if (geometry.type === "LineString") {
+					const coordinates: Position[] = geometry.coordinates;
+
+					for (let i = 0; i < coordinates.length - 1; i++) {
+						const coord = coordinates[i];
+						const nextCoord = coordinates[i + 1];
+						const distanceToLine = pixelDistanceToLine(
+							inputPoint,
+							project(coord[0], coord[1]),
+							project(nextCoord[0], nextCoord[1]),
+						);
+
+						if (distanceToLine < pointerDistance) {
+							return true;
+						}
 					}
+					return false;
+				} else {
+					return pointInPolygon([lng, lat], geometry.coordinates);
 				}
-				return false;
-			} else {
-				const lngLatInsidePolygon = pointInPolygon(
-					[lng, lat],
-					feature.geometry.coordinates,
-				);
+			});
+		});
+	}
 
-				if (lngLatInsidePolygon) {
-					return true;
-				}
+	private updateHovered(event: TerraDrawMouseEvent) {
+		// Hovering is only tracked where features are viewed or selected,
+		// as drawing modes would otherwise hover the feature being drawn
+		if (this._mode.type === ModeTypes.Drawing) {
+			return;
+		}
+
+		const features = this.featuresAtLocation(event).filter(
+			(feature) => !isGuidanceFeature(feature),
+		);
+
+		// Points and lines are preferred over the polygons they sit on,
+		// in the same way as when selecting features
+		const hovered =
+			features.find(({ geometry }) => geometry.type.endsWith("Point")) ||
+			features.find(({ geometry }) => geometry.type.endsWith("LineString")) ||
+			features[0];
+
+		this.setHovered(hovered ? hovered.id : undefined);
+	}
+
+	private setHovered(id: FeatureId | undefined) {
+		const previousId = this._hoveredId;
+
+		if (previousId === id) {
+			return;
+		}
+
+		this._hoveredId = id;
+
+		// The previously hovered feature may have since been deleted
+		if (previousId !== undefined) {
+			if (this._store.has(previousId)) {
+				this.updateHoveredProperty(previousId, false);
 			}
+
+			this._eventListeners.hoverend.forEach((listener) => {
+				listener(previousId);
+			});
+		}
+
+		if (id !== undefined) {
+			this.updateHoveredProperty(id, true);
+
+			this._eventListeners.hover.forEach((listener) => {
+				listener(id);
+			});
+		}
+	}
+
+	// Hovering is not an edit, so it is a styling change which is not
+	// recorded in the history or persisted and keeps the updated time
+	private updateHoveredProperty(id: FeatureId, hovered: boolean) {
+		this._store.updateProperty(
+			[{ id, property: COMMON_PROPERTIES.HOVERED, value: hovered }],
+			"styling",
+		);
+	}
+
+	private recordHistory() {
+		// We only want a history entry once the user has finished
+		// drawing, so in progress drawings are not recorded
+		if (this._mode.state === "drawing") {
+			return;
+		}
+
+		const ids = this._history.record();
+
+		if (ids.length) {
+			this.emitHistory(ids, "record");
+		}
+	}
+
+	private emitHistory(ids: FeatureId[], action: HistoryAction) {
+		this._eventListeners.history.forEach((listener) => {
+			listener(ids, action);
 		});
 	}
 
+	private isHistoryKeyEvent(
+		event: TerraDrawKeyboardEvent,
+		keys: KeyboardEvent["key"][] | null,
+	) {
+		if (!keys || !keys.length) {
+			return false;
+		}
+
+		// The released key is no longer held, so we add it back in
+		const pressedKeys = [...event.heldKeys, event.key];
+		return keys.every((key) => pressedKeys.includes(key));
+	}
+
+	private validateFeatureForMode(feature: unknown): StoreValidation {
+		// If the feature has a mode property, we use that to validate the feature
+		if (hasModeProperty(feature)) {
+			const featureMode = feature.properties.mode;
+			const modeToAddTo = this._modes[featureMode];
+
+			// if the mode does not exist, we return false
+			if (!modeToAddTo) {
+				return {
+					id: (feature as { id?: FeatureId }).id,
+					valid: false,
+					reason: `${featureMode} mode is not in the list of instantiated modes`,
+				};
+			}
+
+			// use the inbuilt validation of the mode
+			const validation = modeToAddTo.validateFeature.bind(modeToAddTo);
+			const validationResult = validation(feature);
+			const valid = validationResult.valid;
+			const reason = validationResult.reason
+				? validationResult.reason
+				: !validationResult.valid
+				? "Feature is invalid"
+				: undefined;
+			return {
+				id: (feature as { id?: FeatureId }).id,
+				valid,
+				reason,
+			};
+		}
+
+		// If the feature does not have a mode property, we return false
+		return {
+			id: (feature as { id?: FeatureId }).id,
+			valid: false,
+			reason: "Mode property does not exist",
+		};
+	}
+
+	// Persisted features are only restored the first time the adapter is ready,
+	// as after that they will already be in the store
+	private restorePersistedFeatures() {
+		if (!this._persistence || this._restored) {
+			return;
+		}
+
+		this._restored = true;
+
+		this._persistence
+			.restore((feature) => this.validateFeatureForMode(feature))
+			.then((validations) => {
+				// Restoring features is not something that can be undone
+				this._history.accept(
+					validations
+						.filter(({ valid }) => valid)
+						.map(({ id }) => id as FeatureId),
+				);
+
+				this._eventListeners.restore.forEach((listener) => {
+					listener(validations);
+				});
+			});
+	}
+
+	private getSerializer(format: string) {
+		const serializer = this._serializers[format];
+
+		if (!serializer) {
+			throw new Error(`${format} is not a supported format`);
+		}
+
+		return serializer;
+	}
+
 	private getSelectMode() {
 		this.checkEnabled();
 
@@ -452,6 +773,63 @@ class TerraDraw {
 		return this._store.copyAll();
 	}
 
+	/**
+	 * Exports the features in the store to another format. The built in formats are "kml", "gpx",
+	 * "wkt", "wkb" (hex encoded) and "csv" (a vertex table), and further formats can be provided
+	 * with the serializers option. Features that modes create to help with drawing and editing,
+	 * such as selection points, are not exported, and neither is whether a feature is selected or hovered.
+	 * @param format - the name of the format to export to
+	 * @returns the features in the given format
+	 *
+	 * @beta
+	 */
+	exportAs(format: string): string {
+		const serializer = this.getSerializer(format);
+
+		const features = this._store
+			.copyAll()
+			.filter((feature) => !isGuidanceFeature(feature))
+			.map((feature) => {
+				// Selection and hovering only apply to this instance, so they are not exported
+				const properties = { ...feature.properties };
+				delete properties[SELECT_PROPERTIES.SELECTED];
+				delete properties[COMMON_PROPERTIES.HOVERED];
+				return { ...feature, properties };
+			});
+
+		return serializer.serialize(features);
+	}
+
+	/**
+	 * Imports features from another format in to the store. The features are validated in the
+	 * same way as with addFeatures, so only valid features are added. Imported features which do
+	 * not have a mode property are added to the point, linestring or polygon mode depending on their
+	 * geometry type, which can be changed with the modes option.
+	 * @param format - the name of the format to import from
+	 * @param text - the text to import
+	 * @param options - the modes to add each type of geometry to
+	 * @returns an array of validation results
+	 *
+	 * @beta
+	 */
+	importFrom(
+		format: string,
+		text: string,
+		options?: { modes?: Partial<ImportModes> },
+	): StoreValidation[] {
+		this.checkEnabled();
+
+		const serializer = this.getSerializer(format);
+		const features = serializer.deserialize(text);
+
+		return this.addFeatures(
+			assignImportModes(features, {
+				...DEFAULT_IMPORT_MODES,
+				...(options && options.modes),
+			}),
+		);
+	}
+
 	/**
 	 * Removes all data from the current store and removes any rendered layers
 	 * via the registering the adapter.
@@ -463,6 +841,81 @@ class TerraDraw {
 		this._adapter.clear();
 	}
 
+	/**
+	 * Reverts the last recorded user action, such as finishing a drawing, dragging a feature
+	 * or deleting a feature. If a feature is currently being drawn, the drawing is cancelled instead.
+	 * Any selected feature will be deselected prior to the undo taking place.
+	 *
+	 * @returns true if an action was undone, otherwise false
+	 *
+	 * @beta
+	 */
+	undo(): boolean {
+		this.checkEnabled();
+
+		if (this._mode.state === "drawing") {
+			this._mode.cleanUp();
+			return true;
+		}
+
+		this._mode.cleanUp();
+		this.recordHistory();
+
+		const ids = this._history.undo();
+
+		if (!ids.length) {
+			return false;
+		}
+
+		this.emitHistory(ids, "undo");
+		return true;
+	}
+
+	/**
+	 * Reapplies the last action that was reverted using undo. Any selected feature will be
+	 * deselected prior to the redo taking place.
+	 *
+	 * @returns true if an action was redone, otherwise false
+	 *
+	 * @beta
+	 */
+	redo(): boolean {
+		this.checkEnabled();
+
+		if (!this._history.canRedo()) {
+			return false;
+		}
+
+		this._mode.cleanUp();
+
+		const ids = this._history.redo();
+
+		this.emitHistory(ids, "redo");
+		return true;
+	}
+
+	/**
+	 * Determines if there is a recorded action that can be undone
+	 *
+	 * @returns true if undo can be called, otherwise false
+	 *
+	 * @beta
+	 */
+	canUndo(): boolean {
+		return this._history.canUndo() || this._mode.state === "drawing";
+	}
+
+	/**
+	 * Determines if there is an undone action that can be redone
+	 *
+	 * @returns true if redo can be called, otherwise false
+	 *
+	 * @beta
+	 */
+	canRedo(): boolean {
+		return this._history.canRedo();
+	}
+
 	/**
 	 * A property used to determine whether the instance is active or not. You
 	 * can use the start method to set this to true, and stop method to set this to false.
@@ -513,6 +966,7 @@ class TerraDraw {
 			// for example current drawing geometries
 			// and mode state
 			this._mode.stop();
+			this.setHovered(undefined);
 
 			// Swap the mode to the new mode
 			this._mode = this._modes[mode];
@@ -535,6 +989,183 @@ class TerraDraw {
 	removeFeatures(ids: FeatureId[]) {
 		this.checkEnabled();
 		this._store.delete(ids);
+		this.recordHistory();
+	}
+
+	/**
+	 * A method for updating the geometry of a feature in the store. The updated feature is validated
+	 * by the mode it belongs to, and the store is left unchanged if it is invalid. If the feature is
+	 * selected it remains selected, with its selection points moved to the new geometry.
+	 * @param id - the id of the feature to update
+	 * @param geometry - the new geometry of the feature
+	 * @returns the validation result of the updated feature
+	 *
+	 * @beta
+	 */
+	updateFeatureGeometry(
+		id: FeatureId,
+		geometry: GeoJSONStoreGeometries,
+	): StoreValidation {
+		this.checkEnabled();
+
+		if (!this._store.has(id)) {
+			throw new Error(`No feature with this (${id}), can not update geometry`);
+		}
+
+		const validation = this.validateFeatureForMode({
+			id,
+			type: "Feature",
+			geometry,
+			properties: this._store.getPropertiesCopy(id),
+		});
+
+		if (!validation.valid) {
+			return validation;
+		}
+
+		this._store.updateGeometry([{ id, geometry }]);
+
+		if (this._instanceSelectMode) {
+			(
+				this._modes[this._instanceSelectMode] as TerraDrawBaseSelectMode<any>
+			).refreshSelectedFeature(id);
+		}
+
+		this.recordHistory();
+
+		return validation;
+	}
+
+	/**
+	 * A method for updating the properties of a feature in the store. The given properties are
+	 * merged into the existing properties of the feature, which is then validated by the mode
+	 * it belongs to. The store is left unchanged if the updated feature is invalid.
+	 * @param id - the id of the feature to update
+	 * @param properties - the properties to add or replace
+	 * @returns the validation result of the updated feature
+	 *
+	 * @beta
+	 */
+	updateFeatureProperties(
+		id: FeatureId,
+		properties: GeoJSONStoreFeatures["properties"],
+	): StoreValidation {
+		this.checkEnabled();
+
+		if (!this._store.has(id)) {
+			throw new Error(
+				`No feature with this (${id}), can not update properties`,
+			);
+		}
+
+		const existing = this._store.getPropertiesCopy(id);
+
+		// Moving a feature between modes would leave it styled and
+		// edited by a mode it was not drawn with
+		if (properties.mode !== undefined && properties.mode !== existing.mode) {
+			return {
+				id,
+				valid: false,
+				reason: "The mode property of a feature can not be updated",
+			};
+		}
+
+		const validation = this.validateFeatureForMode({
+			id,
+			type: "Feature",
+			geometry: this._store.getGeometryCopy(id),
+			properties: { ...existing, ...properties },
+		});
+
+		if (!validation.valid) {
+			return validation;
+		}
+
+		const updates = Object.keys(properties).map((property) => ({
+			id,
+			property,
+			value: properties[property],
+		}));
+
+		if (updates.length) {
+			this._store.updateProperty(updates);
+			this.recordHistory();
+		}
+
+		return validation;
+	}
+
+	/**
+	 * A method for applying changes made by another client, i.e. the patches emitted by its changeset
+	 * event. The changes are validated in the same way as with addFeatures, and are not emitted by the
+	 * changeset event or recorded in the undo history. If a patch targets a feature that is currently being
+	 * drawn or dragged, the conflicts option determines the outcome. With "remote" (the default) the drawing
+	 * or dragging is cancelled and the patch is applied, and with "local" the patch is not applied.
+	 * @param patches - the patches to apply
+	 * @param options - how to resolve patches that conflict with the current drawing or dragging
+	 * @returns an array of validation results
+	 *
+	 * @beta
+	 */
+	applyRemoteChanges(
+		patches: FeaturePatch[],
+		options?: { conflicts?: "remote" | "local" },
+	): StoreValidation[] {
+		this.checkEnabled();
+
+		const conflicts =
+			options && options.conflicts ? options.conflicts : "remote";
+		const selectMode = this._instanceSelectMode
+			? (this._modes[this._instanceSelectMode] as TerraDrawBaseSelectMode<any>)
+			: undefined;
+
+		const applied: FeatureId[] = [];
+		const validations = patches.map(({ id, after }, index) => {
+			if (this._history.hasUnrecordedChanges(id)) {
+				if (conflicts === "local") {
+					return {
+						id,
+						valid: false,
+						reason: "Feature is currently being edited",
+					};
+				}
+
+				this._mode.cleanUp();
+			}
+
+			if (after) {
+				const validation = this.validateFeatureForMode({
+					id,
+					type: "Feature",
+					...after,
+				});
+
+				if (!validation.valid) {
+					return validation;
+				}
+			} else if (
+				this._store.has(id) &&
+				this._store.getPropertiesCopy(id)[SELECT_PROPERTIES.SELECTED] &&
+				selectMode
+			) {
+				selectMode.deselectFeature(id);
+			}
+
+			applyFeaturePatch(this._store, patches[index]);
+
+			if (after && selectMode) {
+				selectMode.refreshSelectedFeature(id);
+			}
+
+			applied.push(id);
+
+			return { id, valid: true };
+		});
+
+		// Changes made elsewhere can not be undone and should not be sent back
+		this._history.accept(applied);
+
+		return validations;
 	}
 
 	/**
@@ -561,6 +1192,52 @@ class TerraDraw {
 		selectMode.deselectFeature(id);
 	}
 
+	/**
+	 * Provides the ability to programmatically merge the selected features using the instances provided
+	 * select mode. Polygons are merged if they overlap or are adjacent, and linestrings if they connect
+	 * end to end. If not select mode is provided in the instance, an error will be thrown.
+	 * @returns the id of the merged feature, or undefined if the selected features could not be merged
+	 * @beta
+	 */
+	mergeSelectedFeatures(): FeatureId | undefined {
+		const selectMode = this.getSelectMode();
+		const mergedId = selectMode.mergeSelectedFeatures();
+		this.recordHistory();
+		return mergedId;
+	}
+
+	/**
+	 * Provides the ability to programmatically continue drawing an existing LineString from its first or
+	 * last coordinate. The instance switches to the LineString mode the feature was drawn with, and new
+	 * coordinates are added to the feature rather than to a new one. An error is thrown if the feature
+	 * does not exist or was not drawn by a LineString mode.
+	 * @param id - the id of the LineString to continue
+	 * @param end - whether new coordinates are added to the "start" or "end" of the LineString
+	 * @beta
+	 */
+	continueLineString(id: FeatureId, end: "start" | "end") {
+		this.checkEnabled();
+
+		if (!this._store.has(id)) {
+			throw new Error(
+				`No feature with this (${id}), can not continue LineString`,
+			);
+		}
+
+		const { mode } = this._store.getPropertiesCopy(id);
+		const lineStringMode = this._modes[mode as string];
+
+		if (!(lineStringMode instanceof TerraDrawLineStringMode)) {
+			throw new Error("Feature was not drawn by a LineString mode");
+		}
+
+		if (this.getMode() !== mode) {
+			this.setMode(mode as string);
+		}
+
+		lineStringMode.continueLineString(id, end);
+	}
+
 	/**
 	 * Returns the next feature id from the store - defaults to UUID4 unless you have
 	 * set a custom idStrategy. This method can be useful if you are needing creating features
@@ -599,44 +1276,13 @@ class TerraDraw {
 			return [];
 		}
 
-		return this._store.load(features, (feature) => {
-			// If the feature has a mode property, we use that to validate the feature
-			if (hasModeProperty(feature)) {
-				const featureMode = feature.properties.mode;
-				const modeToAddTo = this._modes[featureMode];
-
-				// if the mode does not exist, we return false
-				if (!modeToAddTo) {
-					return {
-						id: (feature as { id?: FeatureId }).id,
-						valid: false,
-						reason: `${featureMode} mode is not in the list of instantiated modes`,
-					};
-				}
+		const validations = this._store.load(features, (feature) =>
+			this.validateFeatureForMode(feature),
+		);
 
-				// use the inbuilt validation of the mode
-				const validation = modeToAddTo.validateFeature.bind(modeToAddTo);
-				const validationResult = validation(feature);
-				const valid = validationResult.valid;
-				const reason = validationResult.reason
-					? validationResult.reason
-					: !validationResult.valid
-					? "Feature is invalid"
-					: undefined;
-				return {
-					id: (feature as { id?: FeatureId }).id,
-					valid,
-					reason,
-				};
-			}
+		this.recordHistory();
 
-			// If the feature does not have a mode property, we return false
-			return {
-				id: (feature as { id?: FeatureId }).id,
-				valid: false,
-				reason: "Mode property does not exist",
-			};
-		});
+		return validations;
 	}
 
 	/**
@@ -652,21 +1298,34 @@ class TerraDraw {
 				this._eventListeners.ready.forEach((listener) => {
 					listener();
 				});
+
+				this.restorePersistedFeatures();
 			},
 			getState: () => {
 				return this._mode.state;
 			},
 			onClick: (event) => {
 				this._mode.onClick(event);
+				this.recordHistory();
 			},
 			onMouseMove: (event) => {
 				this._mode.onMouseMove(event);
+				this.updateHovered(event);
 			},
 			onKeyDown: (event) => {
 				this._mode.onKeyDown(event);
 			},
 			onKeyUp: (event) => {
 				this._mode.onKeyUp(event);
+				this.recordHistory();
+
+				if (this.isHistoryKeyEvent(event, this._historyKeyEvents.undo)) {
+					event.preventDefault();
+					this.undo();
+				} else if (this.isHistoryKeyEvent(event, this._historyKeyEvents.redo)) {
+					event.preventDefault();
+					this.redo();
+				}
 			},
 			onDragStart: (event, setMapDraggability) => {
 				this._mode.onDragStart(event, setMapDraggability);
@@ -676,6 +1335,37 @@ class TerraDraw {
 			},
 			onDragEnd: (event, setMapDraggability) => {
 				this._mode.onDragEnd(event, setMapDraggability);
+				this.recordHistory();
+			},
+			onGestureStart: (event, setMapDraggability) => {
+				this._mode.onGestureStart(event, setMapDraggability);
+			},
+			onGesture: (event, setMapDraggability) => {
+				this._mode.onGesture(event, setMapDraggability);
+			},
+			onGestureEnd: (event, setMapDraggability) => {
+				this._mode.onGestureEnd(event, setMapDraggability);
+				this.recordHistory();
+			},
+			onDoubleTap: (event) => {
+				this._mode.onDoubleTap(event);
+				this.recordHistory();
+			},
+			onContextMenu: (event) => {
+				// Selection points are included so that menus
+				// can be built for the coordinates of a feature
+				const contextMenuEvent = {
+					...event,
+					features: this.featuresAtLocation(event, {
+						ignoreSelectFeatures: false,
+					}),
+				};
+
+				this._mode.onContextMenu(contextMenuEvent);
+
+				this._eventListeners.contextmenu.forEach((listener) => {
+					listener(contextMenuEvent);
+				});
 			},
 			onClear: () => {
 				// Ensure that the mode resets its state
@@ -684,6 +1374,14 @@ class TerraDraw {
 
 				// Remove all features from the store
 				this._store.clear();
+
+				// History entries refer to features that no longer exist
+				this._history.clear();
+				this.emitHistory([], "clear");
+
+				if (this._persistence) {
+					this._persistence.clear();
+				}
 			},
 		});
 	}
@@ -744,6 +1442,12 @@ class TerraDraw {
 	 */
 	stop() {
 		this._enabled = false;
+
+		// Any changes waiting to be persisted are saved straight away
+		if (this._persistence) {
+			this._persistence.flush();
+		}
+
 		this._adapter.unregister();
 	}
 
@@ -803,6 +1507,11 @@ export {
 	TerraDrawAngledRectangleMode,
 	TerraDrawSectorMode,
 	TerraDrawSensorMode,
+	TerraDrawSplitMode,
+	TerraDrawCurveMode,
+	TerraDrawArcMode,
+	TerraDrawEllipseMode,
+	TerraDrawRegularPolygonMode,
 
 	// Adapters
 	TerraDrawGoogleMapsAdapter,
@@ -811,6 +1520,8 @@ export {
 	TerraDrawMapLibreGLAdapter,
 	TerraDrawOpenLayersAdapter,
 	TerraDrawArcGISMapsSDKAdapter,
+	TerraDrawDeckGLAdapter,
+	TerraDrawCesiumAdapter,
 
 	// Types that are required for 3rd party developers to extend
 	TerraDrawExtend,
@@ -818,10 +1529,28 @@ export {
 	// TerraDrawBaseMode
 	BehaviorConfig,
 	GeoJSONStoreFeatures,
+	GeoJSONStoreGeometries,
 	HexColor,
 	TerraDrawMouseEvent,
 	TerraDrawAdapterStyling,
 	TerraDrawKeyboardEvent,
+	TerraDrawGestureEvent,
+	TerraDrawContextMenuEvent,
+
+	// Events
+	StoreChangeContext,
+
+	// Serialization
+	TerraDrawSerializer,
+
+	// Collaborative editing
+	FeaturePatch,
+
+	// Persistence
+	TerraDrawStorage,
+	TerraDrawMemoryStorage,
+	TerraDrawLocalStorage,
+	TerraDrawIndexedDBStorage,
 
 	// TerraDrawBaseAdapter
 	TerraDrawChanges,
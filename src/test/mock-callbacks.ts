@@ -11,6 +11,11 @@ export const MockCallbacks = (
 	onDragStart: jest.fn(),
 	onDrag: jest.fn(),
 	onDragEnd: jest.fn(),
+	onGestureStart: jest.fn(),
+	onGesture: jest.fn(),
+	onGestureEnd: jest.fn(),
+	onDoubleTap: jest.fn(),
+	onContextMenu: jest.fn(),
 	onClear: jest.fn(),
 	onReady: jest.fn(),
 	...overrides,
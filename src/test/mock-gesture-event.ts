@@ -0,0 +1,22 @@
+import { TerraDrawGestureEvent } from "../common";
+
+export const MockGestureEvent = ({
+	lng,
+	lat,
+	scale,
+	rotation,
+}: {
+	lng: TerraDrawGestureEvent["lng"];
+	lat: TerraDrawGestureEvent["lat"];
+	scale?: TerraDrawGestureEvent["scale"];
+	rotation?: TerraDrawGestureEvent["rotation"];
+}) =>
+	({
+		lng,
+		lat,
+		containerX: lng * 40,
+		containerY: lat * 40,
+		scale: scale !== undefined ? scale : 1,
+		rotation: rotation !== undefined ? rotation : 0,
+		heldKeys: [],
+	}) as TerraDrawGestureEvent;
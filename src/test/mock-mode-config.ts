@@ -13,6 +13,7 @@ export function MockModeConfig(mode: string) {
 		setDoubleClickToZoom: jest.fn(),
 		onFinish: jest.fn(),
 		coordinatePrecision: 9,
+		validateFeatureForMode: jest.fn(() => ({ valid: true })),
 		projection: "web-mercator",
 	};
 }
@@ -1,4 +1,8 @@
-import { getDefaultStyling } from "./styling";
+import {
+	getDefaultLabelStyling,
+	getDefaultStyling,
+	getLabelStyling,
+} from "./styling";
 
 describe("Styling", () => {
 	describe("getDefaultStyling", () => {
@@ -23,4 +27,41 @@ describe("Styling", () => {
 			expect(typeof styling.pointWidth).toBe("number");
 		});
 	});
+
+	describe("getDefaultLabelStyling", () => {
+		it("gets valid styles", () => {
+			const styling = getDefaultLabelStyling();
+			expect(styling.labelColor.startsWith("#")).toBe(true);
+			expect(styling.labelColor.length).toBe(7);
+
+			expect(styling.labelHaloColor.startsWith("#")).toBe(true);
+			expect(styling.labelHaloColor.length).toBe(7);
+
+			expect(typeof styling.labelSize).toBe("number");
+			expect(styling.labelOffset).toStrictEqual([0, 0]);
+		});
+	});
+
+	describe("getLabelStyling", () => {
+		it("returns undefined when there is no label text", () => {
+			expect(getLabelStyling(getDefaultStyling())).toBeUndefined();
+			expect(
+				getLabelStyling({ ...getDefaultStyling(), labelText: "" }),
+			).toBeUndefined();
+		});
+
+		it("fills in the label styles which have not been set", () => {
+			expect(
+				getLabelStyling({
+					...getDefaultStyling(),
+					labelText: "Label",
+					labelColor: "#ff0000",
+				}),
+			).toStrictEqual({
+				...getDefaultLabelStyling(),
+				labelText: "Label",
+				labelColor: "#ff0000",
+			});
+		});
+	});
 });
@@ -1,4 +1,4 @@
-import { TerraDrawAdapterStyling } from "../common";
+import { HexColor, PixelOffset, TerraDrawAdapterStyling } from "../common";
 
 export const getDefaultStyling = (): TerraDrawAdapterStyling => {
 	return {
@@ -15,3 +15,38 @@ export const getDefaultStyling = (): TerraDrawAdapterStyling => {
 		zIndex: 0,
 	};
 };
+
+export const getDefaultLabelStyling = (): {
+	labelColor: HexColor;
+	labelSize: number;
+	labelHaloColor: HexColor;
+	labelOffset: PixelOffset;
+} => {
+	return {
+		labelColor: "#000000",
+		labelSize: 12,
+		labelHaloColor: "#ffffff",
+		labelOffset: [0, 0],
+	};
+};
+
+/**
+ * Gets the label styling for a feature, filling in any label styles which have not been set
+ * @param styles - the styles of the feature
+ * @returns the label styling, or undefined if the feature has no label text
+ */
+export const getLabelStyling = (styles: TerraDrawAdapterStyling) => {
+	if (!styles.labelText) {
+		return undefined;
+	}
+
+	const defaults = getDefaultLabelStyling();
+
+	return {
+		labelText: styles.labelText,
+		labelColor: styles.labelColor ?? defaults.labelColor,
+		labelSize: styles.labelSize ?? defaults.labelSize,
+		labelHaloColor: styles.labelHaloColor ?? defaults.labelHaloColor,
+		labelOffset: styles.labelOffset ?? defaults.labelOffset,
+	};
+};
@@ -10,13 +10,17 @@ import {
 import {
 	ValidationReasonFeatureInvalidCoordinates,
 	ValidationReasonFeatureNotPoint,
+	ValidationReasonFeatureNotPointOrMultiPoint,
 } from "./validations/point.validation";
 import {
 	ValidationReasonFeatureHasHoles,
 	ValidationReasonFeatureLessThanFourCoordinates,
 	ValidationReasonFeatureHasInvalidCoordinates,
 	ValidationReasonFeatureCoordinatesNotClosed,
+	ValidationReasonFeatureNotPolygonOrMultiPolygon,
+	ValidationReasonFeatureHasNoParts,
 } from "./validations/polygon.validation";
+import { ValidationReasonFeatureIsNotALineStringOrMultiLineString } from "./validations/linestring.validation";
 
 export const ValidationReasons = {
 	ValidationReasonFeatureNotPoint,
@@ -30,4 +34,8 @@ export const ValidationReasons = {
 	ValidationReasonFeatureSelfIntersects,
 	ValidationReasonFeatureLessThanMinSize,
 	ValidationReasonModeMismatch,
+	ValidationReasonFeatureNotPointOrMultiPoint,
+	ValidationReasonFeatureIsNotALineStringOrMultiLineString,
+	ValidationReasonFeatureNotPolygonOrMultiPolygon,
+	ValidationReasonFeatureHasNoParts,
 };
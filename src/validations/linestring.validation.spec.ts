@@ -1,5 +1,8 @@
 import { Feature, LineString } from "geojson";
-import { ValidateLineStringFeature } from "./linestring.validation";
+import {
+	ValidateLineStringFeature,
+	ValidateLineStringOrMultiLineStringFeature,
+} from "./linestring.validation";
 
 describe("ValidateLineStringFeature", () => {
 	it("returns true for a valid LineString feature with correct coordinate precision", () => {
@@ -69,3 +72,84 @@ describe("ValidateLineStringFeature", () => {
 		});
 	});
 });
+
+describe("ValidateLineStringOrMultiLineStringFeature", () => {
+	it("returns true for a valid MultiLineString", () => {
+		expect(
+			ValidateLineStringOrMultiLineStringFeature(
+				{
+					type: "Feature",
+					properties: {},
+					geometry: {
+						type: "MultiLineString",
+						coordinates: [
+							[
+								[0, 0],
+								[1, 1],
+							],
+							[
+								[2, 2],
+								[3, 3],
+							],
+						],
+					},
+				},
+				2,
+			),
+		).toEqual({ valid: true });
+	});
+
+	it("returns false for a MultiLineString with no lines", () => {
+		expect(
+			ValidateLineStringOrMultiLineStringFeature(
+				{
+					type: "Feature",
+					properties: {},
+					geometry: { type: "MultiLineString", coordinates: [] },
+				},
+				2,
+			),
+		).toEqual({ valid: false, reason: "Feature has no parts" });
+	});
+
+	it("returns false for a MultiLineString with an invalid line", () => {
+		expect(
+			ValidateLineStringOrMultiLineStringFeature(
+				{
+					type: "Feature",
+					properties: {},
+					geometry: {
+						type: "MultiLineString",
+						coordinates: [
+							[
+								[0, 0],
+								[1, 1],
+							],
+							[[2, 2]],
+						],
+					},
+				},
+				2,
+			),
+		).toEqual({
+			valid: false,
+			reason: "Feature has less than 2 coordinates",
+		});
+	});
+
+	it("returns false for a non LineString or MultiLineString feature", () => {
+		expect(
+			ValidateLineStringOrMultiLineStringFeature(
+				{
+					type: "Feature",
+					properties: {},
+					geometry: { type: "Point", coordinates: [0, 0] },
+				},
+				2,
+			),
+		).toEqual({
+			valid: false,
+			reason: "Feature is not a LineString or MultiLineString",
+		});
+	});
+});
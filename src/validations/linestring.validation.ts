@@ -1,11 +1,14 @@
 import { Validation } from "../common";
 import { GeoJSONStoreFeatures } from "../terra-draw";
 import { coordinateIsValid } from "./../geometry/boolean/is-valid-coordinate";
+import { ValidationReasonFeatureHasNoParts } from "./polygon.validation";
 
 export const ValidationReasonFeatureIsNotALineString =
 	"Feature is not a LineString";
 export const ValidationReasonFeatureHasLessThanTwoCoordinates =
 	"Feature has less than 2 coordinates";
+export const ValidationReasonFeatureIsNotALineStringOrMultiLineString =
+	"Feature is not a LineString or MultiLineString";
 
 export function ValidateLineStringFeature(
 	feature: GeoJSONStoreFeatures,
@@ -38,3 +41,46 @@ export function ValidateLineStringFeature(
 
 	return { valid: true };
 }
+
+/**
+ * Validates a LineString or MultiLineString feature. Each line of a MultiLineString
+ * is validated in the same way as a LineString feature.
+ * @param feature - the feature to validate
+ * @param coordinatePrecision - the number of decimal places coordinates can have
+ * @returns the validation result
+ */
+export function ValidateLineStringOrMultiLineStringFeature(
+	feature: GeoJSONStoreFeatures,
+	coordinatePrecision: number,
+): ReturnType<Validation> {
+	if (feature.geometry.type === "LineString") {
+		return ValidateLineStringFeature(feature, coordinatePrecision);
+	}
+
+	if (feature.geometry.type !== "MultiLineString") {
+		return {
+			valid: false,
+			reason: ValidationReasonFeatureIsNotALineStringOrMultiLineString,
+		};
+	}
+
+	if (feature.geometry.coordinates.length === 0) {
+		return {
+			valid: false,
+			reason: ValidationReasonFeatureHasNoParts,
+		};
+	}
+
+	for (const coordinates of feature.geometry.coordinates) {
+		const validation = ValidateLineStringFeature(
+			{ ...feature, geometry: { type: "LineString", coordinates } },
+			coordinatePrecision,
+		);
+
+		if (!validation.valid) {
+			return validation;
+		}
+	}
+
+	return { valid: true };
+}
@@ -1,5 +1,5 @@
 import { Validation } from "../common";
-import { polygonAreaSquareMeters } from "../geometry/measure/area";
+import { geometryAreaSquareMeters } from "../geometry/measure/area";
 import { GeoJSONStoreFeatures } from "../terra-draw";
 import { ValidationReasonFeatureNotPolygon } from "./common-validations";
 
@@ -10,14 +10,17 @@ export const ValidateMaxAreaSquareMeters = (
 	feature: GeoJSONStoreFeatures,
 	maxSize: number,
 ): ReturnType<Validation> => {
-	if (feature.geometry.type !== "Polygon") {
+	if (
+		feature.geometry.type !== "Polygon" &&
+		feature.geometry.type !== "MultiPolygon"
+	) {
 		return {
 			valid: false,
 			reason: ValidationReasonFeatureNotPolygon,
 		};
 	}
 
-	const size = polygonAreaSquareMeters(feature.geometry);
+	const size = geometryAreaSquareMeters(feature.geometry);
 
 	if (size > maxSize) {
 		return {
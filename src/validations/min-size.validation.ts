@@ -1,5 +1,5 @@
 import { Validation } from "../common";
-import { polygonAreaSquareMeters } from "../geometry/measure/area";
+import { geometryAreaSquareMeters } from "../geometry/measure/area";
 import { GeoJSONStoreFeatures } from "../terra-draw";
 import { ValidationReasonFeatureNotPolygon } from "./common-validations";
 
@@ -10,14 +10,17 @@ export const ValidateMinAreaSquareMeters = (
 	feature: GeoJSONStoreFeatures,
 	minSize: number,
 ): ReturnType<Validation> => {
-	if (feature.geometry.type !== "Polygon") {
+	if (
+		feature.geometry.type !== "Polygon" &&
+		feature.geometry.type !== "MultiPolygon"
+	) {
 		return {
 			valid: false,
 			reason: ValidationReasonFeatureNotPolygon,
 		};
 	}
 
-	if (polygonAreaSquareMeters(feature.geometry) < minSize) {
+	if (geometryAreaSquareMeters(feature.geometry) < minSize) {
 		return {
 			valid: false,
 			reason: ValidationReasonFeatureLessThanMinSize,
@@ -1,5 +1,6 @@
 import { Feature, LineString, Polygon } from "geojson";
 import { selfIntersects } from "../geometry/boolean/self-intersects";
+import { getGeometryParts } from "../geometry/geometry-parts";
 import { GeoJSONStoreFeatures } from "../terra-draw";
 import { Validation } from "../common";
 
@@ -13,7 +14,9 @@ export const ValidateNotSelfIntersecting = (
 ): ReturnType<Validation> => {
 	if (
 		feature.geometry.type !== "Polygon" &&
-		feature.geometry.type !== "LineString"
+		feature.geometry.type !== "LineString" &&
+		feature.geometry.type !== "MultiPolygon" &&
+		feature.geometry.type !== "MultiLineString"
 	) {
 		return {
 			valid: false,
@@ -21,8 +24,13 @@ export const ValidateNotSelfIntersecting = (
 		};
 	}
 
-	const hasSelfIntersections = selfIntersects(
-		feature as Feature<LineString> | Feature<Polygon>,
+	// For multi geometries each part is checked individually
+	const hasSelfIntersections = getGeometryParts(feature.geometry).some(
+		(geometry) =>
+			selfIntersects({
+				...feature,
+				geometry,
+			} as Feature<LineString> | Feature<Polygon>),
 	);
 
 	if (hasSelfIntersections) {
@@ -1,5 +1,8 @@
 import { Feature, Point } from "geojson";
-import { ValidatePointFeature } from "./point.validation";
+import {
+	ValidatePointFeature,
+	ValidatePointOrMultiPointFeature,
+} from "./point.validation";
 
 describe("isValidPoint", () => {
 	it("returns true for a valid Point with correct coordinate precision", () => {
@@ -47,3 +50,88 @@ describe("isValidPoint", () => {
 		});
 	});
 });
+
+describe("ValidatePointOrMultiPointFeature", () => {
+	it("returns true for a valid Point", () => {
+		expect(
+			ValidatePointOrMultiPointFeature(
+				{
+					type: "Feature",
+					properties: {},
+					geometry: { type: "Point", coordinates: [45, 80] },
+				},
+				2,
+			),
+		).toEqual({ valid: true });
+	});
+
+	it("returns true for a valid MultiPoint", () => {
+		expect(
+			ValidatePointOrMultiPointFeature(
+				{
+					type: "Feature",
+					properties: {},
+					geometry: {
+						type: "MultiPoint",
+						coordinates: [
+							[45, 80],
+							[46, 81],
+						],
+					},
+				},
+				2,
+			),
+		).toEqual({ valid: true });
+	});
+
+	it("returns false for a MultiPoint with no points", () => {
+		expect(
+			ValidatePointOrMultiPointFeature(
+				{
+					type: "Feature",
+					properties: {},
+					geometry: { type: "MultiPoint", coordinates: [] },
+				},
+				2,
+			),
+		).toEqual({ valid: false, reason: "Feature has no parts" });
+	});
+
+	it("returns false for a MultiPoint with an invalid point", () => {
+		expect(
+			ValidatePointOrMultiPointFeature(
+				{
+					type: "Feature",
+					properties: {},
+					geometry: {
+						type: "MultiPoint",
+						coordinates: [
+							[45, 80],
+							[45.123, 80],
+						],
+					},
+				},
+				2,
+			),
+		).toEqual({ valid: false, reason: "Feature has invalid coordinates" });
+	});
+
+	it("returns false for a non Point or MultiPoint feature", () => {
+		expect(
+			ValidatePointOrMultiPointFeature(
+				{
+					type: "Feature",
+					properties: {},
+					geometry: {
+						type: "LineString",
+						coordinates: [
+							[45, 80],
+							[46, 81],
+						],
+					},
+				},
+				2,
+			),
+		).toEqual({ valid: false, reason: "Feature is not a Point or MultiPoint" });
+	});
+});
@@ -1,10 +1,13 @@
 import { Validation } from "../common";
 import { GeoJSONStoreFeatures } from "../terra-draw";
 import { coordinateIsValid } from "./../geometry/boolean/is-valid-coordinate";
+import { ValidationReasonFeatureHasNoParts } from "./polygon.validation";
 
 export const ValidationReasonFeatureNotPoint = "Feature is not a Point";
 export const ValidationReasonFeatureInvalidCoordinates =
 	"Feature has invalid coordinates";
+export const ValidationReasonFeatureNotPointOrMultiPoint =
+	"Feature is not a Point or MultiPoint";
 
 export function ValidatePointFeature(
 	feature: GeoJSONStoreFeatures,
@@ -26,3 +29,46 @@ export function ValidatePointFeature(
 
 	return { valid: true };
 }
+
+/**
+ * Validates a Point or MultiPoint feature. Each point of a MultiPoint
+ * is validated in the same way as a Point feature.
+ * @param feature - the feature to validate
+ * @param coordinatePrecision - the number of decimal places coordinates can have
+ * @returns the validation result
+ */
+export function ValidatePointOrMultiPointFeature(
+	feature: GeoJSONStoreFeatures,
+	coordinatePrecision: number,
+): ReturnType<Validation> {
+	if (feature.geometry.type === "Point") {
+		return ValidatePointFeature(feature, coordinatePrecision);
+	}
+
+	if (feature.geometry.type !== "MultiPoint") {
+		return {
+			valid: false,
+			reason: ValidationReasonFeatureNotPointOrMultiPoint,
+		};
+	}
+
+	if (feature.geometry.coordinates.length === 0) {
+		return {
+			valid: false,
+			reason: ValidationReasonFeatureHasNoParts,
+		};
+	}
+
+	for (const coordinates of feature.geometry.coordinates) {
+		const validation = ValidatePointFeature(
+			{ ...feature, geometry: { type: "Point", coordinates } },
+			coordinatePrecision,
+		);
+
+		if (!validation.valid) {
+			return validation;
+		}
+	}
+
+	return { valid: true };
+}
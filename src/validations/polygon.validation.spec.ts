@@ -2,6 +2,7 @@ import { Feature, Polygon } from "geojson";
 import {
 	ValidateNonIntersectingPolygonFeature,
 	ValidatePolygonFeature,
+	ValidatePolygonOrMultiPolygonFeature,
 } from "./polygon.validation";
 
 describe("isValidPolygonFeature", () => {
@@ -67,6 +68,104 @@ describe("isValidPolygonFeature", () => {
 		});
 	});
 
+	it("returns false for Polygon feature with no coordinates arrays", () => {
+		const emptyFeature = {
+			type: "Feature",
+			properties: {},
+			geometry: { type: "Polygon", coordinates: [] },
+		} as Feature<Polygon, Record<string, any>>;
+		expect(ValidatePolygonFeature(emptyFeature, 9, true)).toEqual({
+			valid: false,
+			reason: "Feature has no parts",
+		});
+	});
+
+	it("returns true for Polygon feature with holes when holes are allowed", () => {
+		const holesFeature = {
+			type: "Feature",
+			properties: {},
+			geometry: {
+				type: "Polygon",
+				coordinates: [
+					[
+						[0, 0],
+						[0, 10],
+						[10, 10],
+						[10, 0],
+						[0, 0],
+					],
+					[
+						[2, 2],
+						[2, 4],
+						[4, 4],
+						[4, 2],
+						[2, 2],
+					],
+				],
+			},
+		} as Feature<Polygon, Record<string, any>>;
+		expect(ValidatePolygonFeature(holesFeature, 9, true)).toEqual({
+			valid: true,
+		});
+	});
+
+	it("returns false for Polygon feature with a hole that has less than 4 coordinates", () => {
+		const holesFeature = {
+			type: "Feature",
+			properties: {},
+			geometry: {
+				type: "Polygon",
+				coordinates: [
+					[
+						[0, 0],
+						[0, 10],
+						[10, 10],
+						[10, 0],
+						[0, 0],
+					],
+					[
+						[2, 2],
+						[2, 4],
+						[2, 2],
+					],
+				],
+			},
+		} as Feature<Polygon, Record<string, any>>;
+		expect(ValidatePolygonFeature(holesFeature, 9, true)).toEqual({
+			valid: false,
+			reason: "Feature has less than 4 coordinates",
+		});
+	});
+
+	it("returns false for Polygon feature with a hole that is not closed", () => {
+		const holesFeature = {
+			type: "Feature",
+			properties: {},
+			geometry: {
+				type: "Polygon",
+				coordinates: [
+					[
+						[0, 0],
+						[0, 10],
+						[10, 10],
+						[10, 0],
+						[0, 0],
+					],
+					[
+						[2, 2],
+						[2, 4],
+						[4, 4],
+						[4, 2],
+					],
+				],
+			},
+		} as Feature<Polygon, Record<string, any>>;
+		expect(ValidatePolygonFeature(holesFeature, 9, true)).toEqual({
+			valid: false,
+			reason: "Feature coordinates are not closed",
+		});
+	});
+
 	it("returns false for Polygon feature with less than 4 coordinates in array", () => {
 		const lessCoordinatesFeature = {
 			type: "Feature",
@@ -133,6 +232,95 @@ describe("isValidPolygonFeature", () => {
 	});
 });
 
+describe("ValidatePolygonOrMultiPolygonFeature", () => {
+	const square = (offset: number) => [
+		[
+			[offset, 0],
+			[offset, 1],
+			[offset + 1, 1],
+			[offset + 1, 0],
+			[offset, 0],
+		],
+	];
+
+	it("returns true for a valid Polygon", () => {
+		expect(
+			ValidatePolygonOrMultiPolygonFeature(
+				{
+					type: "Feature",
+					properties: {},
+					geometry: { type: "Polygon", coordinates: square(0) },
+				},
+				9,
+			),
+		).toEqual({ valid: true });
+	});
+
+	it("returns true for a valid MultiPolygon", () => {
+		expect(
+			ValidatePolygonOrMultiPolygonFeature(
+				{
+					type: "Feature",
+					properties: {},
+					geometry: {
+						type: "MultiPolygon",
+						coordinates: [square(0), square(2)],
+					},
+				},
+				9,
+			),
+		).toEqual({ valid: true });
+	});
+
+	it("returns false for a MultiPolygon with no polygons", () => {
+		expect(
+			ValidatePolygonOrMultiPolygonFeature(
+				{
+					type: "Feature",
+					properties: {},
+					geometry: { type: "MultiPolygon", coordinates: [] },
+				},
+				9,
+			),
+		).toEqual({ valid: false, reason: "Feature has no parts" });
+	});
+
+	it("returns false for a MultiPolygon with an unclosed polygon", () => {
+		const unclosed = square(2);
+		unclosed[0][4] = [2, 0.5];
+
+		expect(
+			ValidatePolygonOrMultiPolygonFeature(
+				{
+					type: "Feature",
+					properties: {},
+					geometry: {
+						type: "MultiPolygon",
+						coordinates: [square(0), unclosed],
+					},
+				},
+				9,
+			),
+		).toEqual({ valid: false, reason: "Feature coordinates are not closed" });
+	});
+
+	it("returns false for a non Polygon or MultiPolygon feature", () => {
+		expect(
+			ValidatePolygonOrMultiPolygonFeature(
+				{
+					type: "Feature",
+					properties: {},
+					geometry: { type: "Point", coordinates: [0, 0] },
+				},
+				9,
+			),
+		).toEqual({
+			valid: false,
+			reason: "Feature is not a Polygon or MultiPolygon",
+		});
+	});
+});
+
 describe("isValidNonIntersectingPolygonFeature", () => {
 	it("returns true for a non self intersecting Polygon feature", () => {
 		const validFeature = {
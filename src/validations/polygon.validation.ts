@@ -12,10 +12,23 @@ export const ValidationReasonFeatureHasInvalidCoordinates =
 	"Feature has invalid coordinates";
 export const ValidationReasonFeatureCoordinatesNotClosed =
 	"Feature coordinates are not closed";
+export const ValidationReasonFeatureNotPolygonOrMultiPolygon =
+	"Feature is not a Polygon or MultiPolygon";
+export const ValidationReasonFeatureHasNoParts = "Feature has no parts";
 
+/**
+ * Validates a Polygon feature. Polygons with interior rings (holes) are only
+ * valid if allowHoles is true, in which case each ring is validated in the same
+ * way as the exterior ring.
+ * @param feature - the feature to validate
+ * @param coordinatePrecision - the number of decimal places coordinates can have
+ * @param allowHoles - whether the polygon can have interior rings
+ * @returns the validation result
+ */
 export function ValidatePolygonFeature(
 	feature: GeoJSONStoreFeatures,
 	coordinatePrecision: number,
+	allowHoles = false,
 ): ReturnType<Validation> {
 	if (feature.geometry.type !== "Polygon") {
 		return {
@@ -24,45 +37,93 @@ export function ValidatePolygonFeature(
 		};
 	}
 
-	if (feature.geometry.coordinates.length !== 1) {
+	if (feature.geometry.coordinates.length === 0) {
 		return {
 			valid: false,
-			reason: ValidationReasonFeatureHasHoles,
+			reason: ValidationReasonFeatureHasNoParts,
 		};
 	}
 
-	if (feature.geometry.coordinates[0].length < 4) {
+	if (!allowHoles && feature.geometry.coordinates.length !== 1) {
 		return {
 			valid: false,
-			reason: ValidationReasonFeatureLessThanFourCoordinates,
+			reason: ValidationReasonFeatureHasHoles,
 		};
 	}
 
-	if (
-		!feature.geometry.coordinates[0].every((coordinate) =>
-			coordinateIsValid(coordinate, coordinatePrecision),
-		)
-	) {
+	for (const ring of feature.geometry.coordinates) {
+		if (ring.length < 4) {
+			return {
+				valid: false,
+				reason: ValidationReasonFeatureLessThanFourCoordinates,
+			};
+		}
+
+		if (
+			!ring.every((coordinate) =>
+				coordinateIsValid(coordinate, coordinatePrecision),
+			)
+		) {
+			return {
+				valid: false,
+				reason: ValidationReasonFeatureHasInvalidCoordinates,
+			};
+		}
+
+		if (!coordinatesMatch(ring[0], ring[ring.length - 1])) {
+			return {
+				valid: false,
+				reason: ValidationReasonFeatureCoordinatesNotClosed,
+			};
+		}
+	}
+
+	return { valid: true };
+}
+
+/**
+ * Validates a Polygon or MultiPolygon feature. Each polygon of a MultiPolygon
+ * is validated in the same way as a Polygon feature.
+ * @param feature - the feature to validate
+ * @param coordinatePrecision - the number of decimal places coordinates can have
+ * @param allowHoles - whether the polygons can have interior rings
+ * @returns the validation result
+ */
+export function ValidatePolygonOrMultiPolygonFeature(
+	feature: GeoJSONStoreFeatures,
+	coordinatePrecision: number,
+	allowHoles = false,
+): ReturnType<Validation> {
+	if (feature.geometry.type === "Polygon") {
+		return ValidatePolygonFeature(feature, coordinatePrecision, allowHoles);
+	}
+
+	if (feature.geometry.type !== "MultiPolygon") {
 		return {
 			valid: false,
-			reason: ValidationReasonFeatureHasInvalidCoordinates,
+			reason: ValidationReasonFeatureNotPolygonOrMultiPolygon,
 		};
 	}
 
-	if (
-		!coordinatesMatch(
-			feature.geometry.coordinates[0][0],
-			feature.geometry.coordinates[0][
-				feature.geometry.coordinates[0].length - 1
-			],
-		)
-	) {
+	if (feature.geometry.coordinates.length === 0) {
 		return {
 			valid: false,
-			reason: ValidationReasonFeatureCoordinatesNotClosed,
+			reason: ValidationReasonFeatureHasNoParts,
 		};
 	}
 
+	for (const coordinates of feature.geometry.coordinates) {
+		const validation = ValidatePolygonFeature(
+			{ ...feature, geometry: { type: "Polygon", coordinates } },
+			coordinatePrecision,
+			allowHoles,
+		);
+
+		if (!validation.valid) {
+			return validation;
+		}
+	}
+
 	return { valid: true };
 }
 